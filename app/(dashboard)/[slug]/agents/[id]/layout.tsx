@@ -2,6 +2,7 @@ import { createClient } from "@/lib/supabase/server"
 import { getAuthSession } from "@/lib/auth"
 import { notFound } from "next/navigation"
 import { AgentNav } from "@/components/agents/agent-nav"
+import { OutboundCallDialog } from "@/components/agents/outbound-call-dialog"
 
 type LayoutProps = {
   children: React.ReactNode
@@ -34,11 +35,14 @@ export default async function AgentLayout({ children, params }: LayoutProps) {
     <div className="px-4 lg:px-6">
       <div className="space-y-6">
         {/* Header */}
-        <div className="space-y-1">
-          <h1 className="text-3xl font-bold tracking-tight">{agent.name}</h1>
-          <p className="text-muted-foreground">
-            Configure your agent&apos;s behavior, voice, and settings
-          </p>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <h1 className="text-3xl font-bold tracking-tight">{agent.name}</h1>
+            <p className="text-muted-foreground">
+              Configure your agent&apos;s behavior, voice, and settings
+            </p>
+          </div>
+          <OutboundCallDialog agentId={id} slug={slug} />
         </div>
 
         {/* Navigation */}
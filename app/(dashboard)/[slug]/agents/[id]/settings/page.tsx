@@ -30,11 +30,22 @@ export default async function AgentSettingsPage({ params }: PageProps) {
     notFound()
   }
 
+  // Edit the draft if there is one, otherwise start from the published configuration
+  const { data: versions } = await supabase
+    .from('agent_configuration_versions')
+    .select('version_number, status, configuration')
+    .eq('agent_id', agent.id)
+    .in('status', ['draft', 'published'])
+
+  const draftVersion = versions?.find((version) => version.status === 'draft')
+  const publishedVersion = versions?.find((version) => version.status === 'published')
+  const rawConfiguration = draftVersion?.configuration ?? agent.configuration
+
   // Parse configuration safely
-  const configuration = agent.configuration 
-    ? (typeof agent.configuration === 'string' 
-        ? JSON.parse(agent.configuration) 
-        : agent.configuration) as AgentConfiguration
+  const configuration = rawConfiguration 
+    ? (typeof rawConfiguration === 'string' 
+        ? JSON.parse(rawConfiguration) 
+        : rawConfiguration) as AgentConfiguration
     : undefined
 
   return (
@@ -44,6 +55,10 @@ export default async function AgentSettingsPage({ params }: PageProps) {
         slug={slug}
         initialConfig={configuration}
         mode="models"
+        versionStatus={{
+          draftVersionNumber: draftVersion?.version_number ?? null,
+          publishedVersionNumber: publishedVersion?.version_number ?? null,
+        }}
       />
     </div>
   )
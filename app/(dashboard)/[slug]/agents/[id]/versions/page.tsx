@@ -0,0 +1,15 @@
+import { AgentVersions } from "@/components/agents/agent-versions"
+
+type PageProps = {
+  params: Promise<{ slug: string; id: string }>
+}
+
+export default async function AgentVersionsPage({ params }: PageProps) {
+  const { slug, id } = await params
+
+  return (
+    <div className="space-y-4 mt-6">
+      <AgentVersions agentId={id} slug={slug} />
+    </div>
+  )
+}
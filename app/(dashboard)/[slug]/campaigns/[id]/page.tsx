@@ -0,0 +1,18 @@
+import { CampaignDetail } from '@/components/campaigns/campaign-detail'
+
+interface CampaignPageProps {
+  params: Promise<{
+    slug: string
+    id: string
+  }>
+}
+
+export default async function CampaignPage({ params }: CampaignPageProps) {
+  const { slug, id } = await params
+
+  return (
+    <div className="space-y-6 px-4 lg:px-6">
+      <CampaignDetail slug={slug} campaignId={id} />
+    </div>
+  )
+}
@@ -0,0 +1,17 @@
+import { CampaignsList } from '@/components/campaigns/campaigns-list'
+
+interface CampaignsPageProps {
+  params: Promise<{
+    slug: string
+  }>
+}
+
+export default async function CampaignsPage({ params }: CampaignsPageProps) {
+  const { slug } = await params
+
+  return (
+    <div className="space-y-6 px-4 lg:px-6">
+      <CampaignsList slug={slug} />
+    </div>
+  )
+}
@@ -0,0 +1,13 @@
+import { LiveCalls } from '@/components/calls/live-calls'
+
+interface LiveCallsPageProps {
+  params: Promise<{
+    slug: string
+  }>
+}
+
+export default async function LiveCallsPage({ params }: LiveCallsPageProps) {
+  const { slug } = await params
+
+  return <LiveCalls slug={slug} />
+}
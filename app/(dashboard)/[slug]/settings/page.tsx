@@ -0,0 +1,37 @@
+import { WorkerCredentials } from '@/components/settings/worker-credentials'
+import { DoNotCallList } from '@/components/settings/do-not-call-list'
+import { CallerLookupSettings } from '@/components/settings/caller-lookup-settings'
+import { CallScreening } from '@/components/settings/call-screening'
+import { RingGroups } from '@/components/settings/ring-groups'
+import { RedactionPolicy } from '@/components/settings/redaction-policy'
+import { DataRetention } from '@/components/settings/data-retention'
+import { DataSubjectRequests } from '@/components/settings/data-subject-requests'
+
+interface SettingsPageProps {
+  params: Promise<{
+    slug: string
+  }>
+}
+
+export default async function SettingsPage({ params }: SettingsPageProps) {
+  const { slug } = await params
+
+  return (
+    <div className="space-y-6 px-4 lg:px-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Settings</h1>
+        <p className="text-muted-foreground">
+          Organization-wide configuration
+        </p>
+      </div>
+      <WorkerCredentials slug={slug} />
+      <CallScreening slug={slug} />
+      <RingGroups slug={slug} />
+      <CallerLookupSettings slug={slug} />
+      <DoNotCallList slug={slug} />
+      <RedactionPolicy slug={slug} />
+      <DataRetention slug={slug} />
+      <DataSubjectRequests slug={slug} />
+    </div>
+  )
+}
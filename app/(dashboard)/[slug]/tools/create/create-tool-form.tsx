@@ -13,6 +13,7 @@ import { Switch } from '@/components/ui/switch'
 import { SmsToolForm } from '@/components/tools/sms-tool-form'
 import { TransferCallToolForm } from '@/components/tools/transfer-call-tool-form'
 import { PipedreamActionToolForm } from '@/components/tools/pipedream-action-tool-form'
+import { ApiRequestToolForm } from '@/components/tools/api-request-tool-form'
 
 interface CreateToolFormProps {
   slug: string
@@ -112,6 +113,8 @@ export function CreateToolForm({ slug }: CreateToolFormProps) {
         return 'SMS / Text Message'
       case 'transfer_call':
         return 'Transfer Call'
+      case 'api_request':
+        return 'API Request'
       case 'pipedream_action':
         return 'External App'
       default:
@@ -214,6 +217,18 @@ export function CreateToolForm({ slug }: CreateToolFormProps) {
               />
             )}
 
+            {toolType === 'api_request' && (
+              <ApiRequestToolForm
+                initialData={
+                  toolConfig?.type === 'api_request'
+                    ? { ...toolConfig, label, description }
+                    : undefined
+                }
+                onChange={handleToolConfigChange}
+                slug={slug}
+              />
+            )}
+
             {toolType === 'pipedream_action' && (
               <PipedreamActionToolForm
                 slug={slug}
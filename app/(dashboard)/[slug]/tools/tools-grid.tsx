@@ -14,7 +14,7 @@ import {
 } from '@/components/ui/table'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
-import { MessageSquare, PhoneForwarded, Code2, Trash2, Loader2, Mail } from 'lucide-react'
+import { MessageSquare, PhoneForwarded, Code2, Trash2, Loader2, Mail, Globe } from 'lucide-react'
 import {
   AlertDialog,
   AlertDialogAction,
@@ -62,6 +62,8 @@ function getToolIcon(tool: ToolWithAgents) {
       return <MessageSquare className="h-4 w-4" />
     case 'transfer_call':
       return <PhoneForwarded className="h-4 w-4" />
+    case 'api_request':
+      return <Globe className="h-4 w-4" />
     case 'pipedream_action':
       return <Code2 className="h-4 w-4" />
     case 'email':
@@ -78,6 +80,8 @@ function getToolBadgeColor(type?: string | null) {
       return 'bg-blue-500/10 text-blue-700 dark:text-blue-400'
     case 'transfer_call':
       return 'bg-green-500/10 text-green-700 dark:text-green-400'
+    case 'api_request':
+      return 'bg-purple-500/10 text-purple-700 dark:text-purple-400'
     case 'pipedream_action':
       return 'bg-slate-500/10 text-slate-700 dark:text-slate-400'
     case 'email':
@@ -131,6 +135,15 @@ function getToolDetails(tool: ToolWithAgents): string | null {
     }
   }
 
+  if (tool.type === 'api_request') {
+    // Show the method and URL (or that the AI provides the URL)
+    const url = metadata.url as { mode?: string; value?: unknown } | undefined
+    const method = (metadata.method as string) || 'GET'
+    return url?.mode === 'fixed' && typeof url.value === 'string'
+      ? `${method} ${url.value}`
+      : `${method} (AI-provided URL)`
+  }
+
   return null
 }
 
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthSession } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase/server'
+import { startOutboundCall, type OutboundCallErrorCode } from '@/lib/outbound-calls'
+
+type RouteContext = {
+  params: Promise<{ slug: string; id: string }>
+}
+
+const ERROR_STATUS: Record<OutboundCallErrorCode, number> = {
+  invalid_request: 400,
+  invalid_contact: 400,
+  do_not_call: 400,
+  not_found: 404,
+  dial_failed: 502,
+  server_error: 500,
+}
+
+// POST - Place an outbound call from this agent
+// Body: { to: string, phoneNumberId?: string, variables?: Record<string, string | number | boolean> }
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug, id } = await context.params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    if (!body.to || typeof body.to !== 'string') {
+      return NextResponse.json(
+        { error: 'to is required' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+
+    const result = await startOutboundCall(supabase, {
+      organizationId,
+      agentId: id,
+      to: body.to,
+      phoneNumberId: body.phoneNumberId ?? null,
+      variables: body.variables ?? null,
+      initiatedBy: user.email,
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to place call', call: result.call },
+        { status: ERROR_STATUS[result.errorCode || 'server_error'] }
+      )
+    }
+
+    return NextResponse.json({ call: result.call }, { status: 201 })
+  } catch (error) {
+    console.error('Error in /api/[slug]/agents/[id]/outbound-calls POST:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
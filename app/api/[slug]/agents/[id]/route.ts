@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getAuthSession } from '@/lib/auth'
 import { createServiceClient } from '@/lib/supabase/server'
 import type { AgentConfiguration } from '@/types/agent-config'
+import { publishVersion, saveDraftVersion, validateAgentConfiguration } from '@/lib/agent-versions'
 
 type RouteContext = {
   params: Promise<{ slug: string; id: string }>
@@ -62,69 +63,85 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
 
     // Parse request body
     const body = await request.json()
-    const { configuration } = body as { configuration: AgentConfiguration }
+    const { configuration, publish, notes } = body as {
+      configuration: AgentConfiguration
+      publish?: boolean
+      notes?: string | null
+    }
 
     // Validate configuration
-    if (!configuration) {
+    const validationError = validateAgentConfiguration(configuration)
+    if (validationError) {
       return NextResponse.json(
-        { error: 'Configuration is required' },
+        { error: validationError },
         { status: 400 }
       )
     }
 
-    // Validate pipelineType
-    if (!['realtime', 'pipeline'].includes(configuration.pipelineType)) {
-      return NextResponse.json(
-        { error: 'Invalid pipelineType. Must be "realtime" or "pipeline"' },
-        { status: 400 }
-      )
-    }
+    // Verify the agent belongs to the organization
+    const { data: existingAgent } = await supabase
+      .from('agents')
+      .select('id')
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .single()
 
-    // Validate instructions
-    if (!configuration.instructions || configuration.instructions.length < 10) {
+    if (!existingAgent) {
       return NextResponse.json(
-        { error: 'Instructions must be at least 10 characters long' },
-        { status: 400 }
+        { error: 'Agent not found' },
+        { status: 404 }
       )
     }
 
-    // Validate realtime model if pipeline type is realtime
-    if (configuration.pipelineType === 'realtime' && !configuration.realtimeModel) {
+    // Save as the draft version - live calls keep using the published version
+    const draftResult = await saveDraftVersion({
+      agentId: id,
+      organizationId,
+      configuration,
+      notes,
+      createdBy: user.email,
+    })
+
+    if (!draftResult.success || !draftResult.version) {
       return NextResponse.json(
-        { error: 'realtimeModel is required when pipelineType is "realtime"' },
-        { status: 400 }
+        { error: draftResult.error || 'Failed to save draft' },
+        { status: 500 }
       )
     }
 
-    // Validate pipeline if pipeline type is pipeline
-    if (configuration.pipelineType === 'pipeline' && !configuration.pipeline) {
-      return NextResponse.json(
-        { error: 'pipeline configuration is required when pipelineType is "pipeline"' },
-        { status: 400 }
-      )
+    let version = draftResult.version
+
+    if (publish) {
+      const publishResult = await publishVersion({
+        versionId: version.id,
+        publishedBy: user.email,
+      })
+
+      if (!publishResult.success || !publishResult.version) {
+        return NextResponse.json(
+          { error: publishResult.error || 'Failed to publish version' },
+          { status: 500 }
+        )
+      }
+
+      version = publishResult.version
     }
 
-    // Update the agent
-    const { data: agent, error: updateError } = await supabase
+    const { data: agent, error: agentError } = await supabase
       .from('agents')
-      .update({ 
-        configuration,
-        updated_at: new Date().toISOString()
-      })
+      .select('*')
       .eq('id', id)
-      .eq('organization_id', organizationId)
-      .select()
       .single()
 
-    if (updateError || !agent) {
-      console.error('Error updating agent:', updateError)
+    if (agentError || !agent) {
+      console.error('Error fetching agent:', agentError)
       return NextResponse.json(
         { error: 'Failed to update agent' },
         { status: 500 }
       )
     }
 
-    return NextResponse.json({ agent })
+    return NextResponse.json({ agent, version })
   } catch (error) {
     console.error('Error in /api/[organizationId]/agents/[id] PATCH:', error)
     return NextResponse.json(
@@ -2,6 +2,11 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getAuthSession } from '@/lib/auth'
 import type { AgentRules } from '@/types/agent-rules'
 import { createServiceClient } from '@/lib/supabase/server'
+import { isValidTimezone } from '@/lib/business-hours'
+import { validateIvrMenu } from '@/lib/ivr-menu'
+import { validateVoicemailSettings } from '@/lib/voicemail'
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
 
 type RouteContext = {
   params: Promise<{ slug: string; id: string }>
@@ -81,9 +86,23 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
       )
     }
 
+    // Validate timezone
+    if (rules.timezone && !isValidTimezone(rules.timezone)) {
+      return NextResponse.json(
+        { error: `Unknown timezone: ${rules.timezone}` },
+        { status: 400 }
+      )
+    }
+
     // Validate time-based routing schedules
     if (rules.timeBasedRouting?.enabled && rules.timeBasedRouting.schedules) {
       for (const schedule of rules.timeBasedRouting.schedules) {
+        if (schedule.timezone && !isValidTimezone(schedule.timezone)) {
+          return NextResponse.json(
+            { error: `Unknown timezone: ${schedule.timezone}` },
+            { status: 400 }
+          )
+        }
         if (!schedule.days || schedule.days.length === 0) {
           return NextResponse.json(
             { error: 'Each schedule must have at least one day selected' },
@@ -96,9 +115,53 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
             { status: 400 }
           )
         }
-        if (!schedule.transferTo || schedule.transferTo.trim() === '') {
+        if (!schedule.ringGroupId && (!schedule.transferTo || schedule.transferTo.trim() === '')) {
           return NextResponse.json(
-            { error: 'Each schedule must have a transfer number' },
+            { error: 'Each schedule must have a transfer number or ring group' },
+            { status: 400 }
+          )
+        }
+      }
+    }
+
+    // Validate holiday calendars
+    for (const calendar of rules.holidayCalendars || []) {
+      if (!calendar.name || calendar.name.trim() === '') {
+        return NextResponse.json(
+          { error: 'Each holiday calendar must have a name' },
+          { status: 400 }
+        )
+      }
+      for (const closure of calendar.closures || []) {
+        if (!DATE_KEY_PATTERN.test(closure.startDate) || !DATE_KEY_PATTERN.test(closure.endDate)) {
+          return NextResponse.json(
+            { error: `Closure "${closure.label || 'Untitled'}" in ${calendar.name} must have start and end dates` },
+            { status: 400 }
+          )
+        }
+        if (closure.endDate < closure.startDate) {
+          return NextResponse.json(
+            { error: `Closure "${closure.label || 'Untitled'}" in ${calendar.name} ends before it starts` },
+            { status: 400 }
+          )
+        }
+      }
+      for (const holiday of calendar.recurringHolidays || []) {
+        if (!holiday.label || holiday.label.trim() === '') {
+          return NextResponse.json(
+            { error: `Each recurring holiday in ${calendar.name} must have a name` },
+            { status: 400 }
+          )
+        }
+        if (holiday.type === 'fixed_date' && (holiday.month < 1 || holiday.month > 12 || holiday.day < 1 || holiday.day > 31)) {
+          return NextResponse.json(
+            { error: `"${holiday.label}" has an invalid date` },
+            { status: 400 }
+          )
+        }
+        if (holiday.type === 'nth_weekday' && (holiday.month < 1 || holiday.month > 12 || holiday.nth === 0 || holiday.nth < -1 || holiday.nth > 5)) {
+          return NextResponse.json(
+            { error: `"${holiday.label}" has an invalid occurrence` },
             { status: 400 }
           )
         }
@@ -115,6 +178,76 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
           { status: 400 }
         )
       }
+      if (rules.agentFallback.action && !['agent', 'voicemail'].includes(rules.agentFallback.action)) {
+        return NextResponse.json(
+          { error: 'Fallback must go to the agent or voicemail' },
+          { status: 400 }
+        )
+      }
+    }
+
+    // Validate IVR menu
+    const menuError = validateIvrMenu(rules.ivrMenu)
+    if (menuError) {
+      return NextResponse.json(
+        { error: menuError },
+        { status: 400 }
+      )
+    }
+
+    // Menu options that go to another agent must stay inside the organization
+    if (rules.ivrMenu?.enabled) {
+      const menuAgentIds = [...rules.ivrMenu.options.map((option) => option.action), rules.ivrMenu.defaultAction]
+        .filter((action) => action.type === 'agent' && action.agentId && action.agentId !== id)
+        .map((action) => action.agentId as string)
+
+      if (menuAgentIds.length > 0) {
+        const { data: menuAgents } = await supabase
+          .from('agents')
+          .select('id')
+          .eq('organization_id', organizationId)
+          .in('id', menuAgentIds)
+
+        if ((menuAgents || []).length !== new Set(menuAgentIds).size) {
+          return NextResponse.json(
+            { error: 'A menu option routes to an agent that no longer exists' },
+            { status: 400 }
+          )
+        }
+      }
+    }
+
+    // Schedule and menu ring groups must belong to the organization
+    const menuActions = rules.ivrMenu?.enabled
+      ? [...rules.ivrMenu.options.map((option) => option.action), rules.ivrMenu.defaultAction]
+      : []
+    const ringGroupIds = [
+      ...((rules.timeBasedRouting?.enabled && rules.timeBasedRouting.schedules) || []).map((schedule) => schedule.ringGroupId),
+      ...menuActions.filter((action) => action.type === 'transfer').map((action) => action.ringGroupId),
+    ].filter((ringGroupId): ringGroupId is string => !!ringGroupId)
+
+    if (ringGroupIds.length > 0) {
+      const { data: ringGroups } = await supabase
+        .from('ring_groups')
+        .select('id')
+        .eq('organization_id', organizationId)
+        .in('id', ringGroupIds)
+
+      if ((ringGroups || []).length !== new Set(ringGroupIds).size) {
+        return NextResponse.json(
+          { error: 'A schedule or menu option uses a ring group that no longer exists' },
+          { status: 400 }
+        )
+      }
+    }
+
+    // Validate voicemail
+    const voicemailError = validateVoicemailSettings(rules.voicemail)
+    if (voicemailError) {
+      return NextResponse.json(
+        { error: voicemailError },
+        { status: 400 }
+      )
     }
 
     // Update the agent's rules
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthSession } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase/server'
+import { publishVersion, validateAgentConfiguration } from '@/lib/agent-versions'
+import type { AgentConfiguration } from '@/types/agent-config'
+
+type RouteContext = {
+  params: Promise<{ slug: string; id: string; versionId: string }>
+}
+
+// POST - Publish a draft, or roll back by republishing an archived version
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug, id, versionId } = await context.params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+
+    const { data: version } = await supabase
+      .from('agent_configuration_versions')
+      .select('id, status, configuration')
+      .eq('id', versionId)
+      .eq('agent_id', id)
+      .eq('organization_id', organizationId)
+      .single()
+
+    if (!version) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      )
+    }
+
+    if (version.status === 'published') {
+      return NextResponse.json(
+        { error: 'Version is already published' },
+        { status: 400 }
+      )
+    }
+
+    // Older versions may predate current validation rules
+    const validationError = validateAgentConfiguration(version.configuration as AgentConfiguration)
+    if (validationError) {
+      return NextResponse.json(
+        { error: `Version cannot be published: ${validationError}` },
+        { status: 400 }
+      )
+    }
+
+    const result = await publishVersion({
+      versionId,
+      publishedBy: user.email,
+    })
+
+    if (!result.success || !result.version) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to publish version' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ version: result.version })
+  } catch (error) {
+    console.error('Error in /api/[slug]/agents/[id]/versions/[versionId]/publish POST:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthSession } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase/server'
+
+type RouteContext = {
+  params: Promise<{ slug: string; id: string; versionId: string }>
+}
+
+// GET - A single version including its configuration (used by the diff view)
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug, id, versionId } = await context.params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+
+    const { data: version, error } = await supabase
+      .from('agent_configuration_versions')
+      .select('*')
+      .eq('id', versionId)
+      .eq('agent_id', id)
+      .eq('organization_id', organizationId)
+      .single()
+
+    if (error || !version) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ version })
+  } catch (error) {
+    console.error('Error in /api/[slug]/agents/[id]/versions/[versionId] GET:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Discard the draft version (published and archived versions are kept as history)
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug, id, versionId } = await context.params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+
+    const { data: version } = await supabase
+      .from('agent_configuration_versions')
+      .select('id, status')
+      .eq('id', versionId)
+      .eq('agent_id', id)
+      .eq('organization_id', organizationId)
+      .single()
+
+    if (!version) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      )
+    }
+
+    if (version.status !== 'draft') {
+      return NextResponse.json(
+        { error: 'Only draft versions can be discarded' },
+        { status: 400 }
+      )
+    }
+
+    const { error } = await supabase
+      .from('agent_configuration_versions')
+      .delete()
+      .eq('id', versionId)
+
+    if (error) {
+      console.error('Error discarding draft version:', error)
+      return NextResponse.json(
+        { error: 'Failed to discard draft' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in /api/[slug]/agents/[id]/versions/[versionId] DELETE:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthSession } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase/server'
+
+type RouteContext = {
+  params: Promise<{ slug: string; id: string }>
+}
+
+// GET - Version history for an agent's configuration (newest first, without the configuration bodies)
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug, id } = await context.params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+
+    const { data: agent } = await supabase
+      .from('agents')
+      .select('id, published_version_id')
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .single()
+
+    if (!agent) {
+      return NextResponse.json(
+        { error: 'Agent not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data: versions, error } = await supabase
+      .from('agent_configuration_versions')
+      .select('id, agent_id, organization_id, version_number, status, notes, created_by, published_by, published_at, created_at, updated_at')
+      .eq('agent_id', id)
+      .order('version_number', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching agent versions:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch versions' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      versions: versions || [],
+      publishedVersionId: agent.published_version_id,
+    })
+  } catch (error) {
+    console.error('Error in /api/[slug]/agents/[id]/versions GET:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,7 @@
 import { createServiceClient } from '@/lib/supabase/server'
 import { NextResponse } from 'next/server'
 import { getAuthSession } from '@/lib/auth'
+import { publishVersion, saveDraftVersion } from '@/lib/agent-versions'
 
 export const dynamic = 'force-dynamic'
 
@@ -140,7 +141,7 @@ export async function POST(
         name: body.name,
         organization_id: organizationId,
       })
-      .select('id, name')
+      .select('id, name, configuration')
       .single()
 
     if (createError) {
@@ -148,7 +149,20 @@ export async function POST(
       return NextResponse.json({ error: 'Failed to create agent' }, { status: 400 })
     }
 
-    return NextResponse.json({ agent })
+    // Record the default configuration as published version 1
+    const initialVersion = await saveDraftVersion({
+      agentId: agent.id,
+      organizationId,
+      configuration: agent.configuration,
+      notes: 'Initial version',
+      createdBy: user.email,
+    })
+
+    if (initialVersion.version) {
+      await publishVersion({ versionId: initialVersion.version.id, publishedBy: user.email })
+    }
+
+    return NextResponse.json({ agent: { id: agent.id, name: agent.name } })
   } catch (error) {
     console.error('Error in POST /api/[slug]/agents:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
@@ -27,6 +27,8 @@ export async function GET(
       .from('calls')
       .select('id, created_at, duration_seconds, status')
       .eq('organization_id', organizationId)
+      // Calls rejected by call screening never reached anyone
+      .neq('status', 'blocked')
       .order('created_at', { ascending: false })
 
     if (error) {
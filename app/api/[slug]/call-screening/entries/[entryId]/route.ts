@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthSession } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase/server'
+
+type RouteContext = {
+  params: Promise<{ slug: string; entryId: string }>
+}
+
+// DELETE - Remove a pattern from its screening list
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug, entryId } = await context.params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+
+    const { data: deleted, error } = await supabase
+      .from('call_screening_entries')
+      .delete()
+      .eq('id', entryId)
+      .eq('organization_id', organizationId)
+      .select('id')
+
+    if (error) {
+      console.error('Error removing call screening entry:', error)
+      return NextResponse.json(
+        { error: 'Failed to remove pattern' },
+        { status: 500 }
+      )
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json(
+        { error: 'Pattern not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in /api/[slug]/call-screening/entries/[entryId] DELETE:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthSession } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase/server'
+import { SCREENING_LIST_TYPES, normalizeScreeningPattern } from '@/lib/call-screening'
+import { isValidE164, normalizePhoneNumber } from '@/lib/outbound-calls'
+import type { ScreeningListType } from '@/types/call-screening'
+
+type RouteContext = {
+  params: Promise<{ slug: string }>
+}
+
+// POST - Add a pattern to one of the screening lists
+// Body: { listType: 'block' | 'transfer' | 'agent', pattern: string, transferTo?: string, label?: string }
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug } = await context.params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    if (!SCREENING_LIST_TYPES.includes(body.listType)) {
+      return NextResponse.json(
+        { error: 'listType must be block, transfer or agent' },
+        { status: 400 }
+      )
+    }
+    const listType = body.listType as ScreeningListType
+
+    const { pattern, error: patternError } = normalizeScreeningPattern(typeof body.pattern === 'string' ? body.pattern : '')
+    if (!pattern) {
+      return NextResponse.json(
+        { error: patternError },
+        { status: 400 }
+      )
+    }
+
+    let transferTo: string | null = null
+    if (listType === 'transfer') {
+      transferTo = normalizePhoneNumber(typeof body.transferTo === 'string' ? body.transferTo : '')
+      if (!isValidE164(transferTo)) {
+        return NextResponse.json(
+          { error: 'transferTo must be in E.164 format, e.g. +447700900123' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const supabase = await createServiceClient()
+
+    const { data: entry, error } = await supabase
+      .from('call_screening_entries')
+      .insert({
+        organization_id: organizationId,
+        list_type: listType,
+        pattern,
+        transfer_to: transferTo,
+        label: typeof body.label === 'string' && body.label.trim() ? body.label.trim() : null,
+        created_by: user.email,
+      })
+      .select('*')
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: 'This pattern is already on a screening list' },
+          { status: 409 }
+        )
+      }
+      console.error('Error adding call screening entry:', error)
+      return NextResponse.json(
+        { error: 'Failed to add pattern' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ entry }, { status: 201 })
+  } catch (error) {
+    console.error('Error in /api/[slug]/call-screening/entries POST:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthSession } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase/server'
+import { getCallScreeningSettings, validateCallScreeningSettings } from '@/lib/call-screening'
+
+type RouteContext = {
+  params: Promise<{ slug: string }>
+}
+
+// GET - The organization's screening entries and spam / reject settings
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug } = await context.params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+
+    const [{ data: entries, error }, settings] = await Promise.all([
+      supabase
+        .from('call_screening_entries')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .order('created_at', { ascending: false }),
+      getCallScreeningSettings(supabase, organizationId),
+    ])
+
+    if (error) {
+      console.error('Error fetching call screening entries:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch call screening entries' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ entries: entries || [], settings })
+  } catch (error) {
+    console.error('Error in /api/[slug]/call-screening GET:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT - Save spam detection and reject settings
+// Body: { spamDetectionEnabled, spamCallThreshold, spamWindowMinutes, rejectAction, rejectMessage? }
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug } = await context.params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const validation = validateCallScreeningSettings(body)
+
+    if (!validation.settings) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+
+    const { data: settings, error } = await supabase
+      .from('call_screening_settings')
+      .upsert(
+        { organization_id: organizationId, ...validation.settings },
+        { onConflict: 'organization_id' }
+      )
+      .select('*')
+      .single()
+
+    if (error) {
+      console.error('Error saving call screening settings:', error)
+      return NextResponse.json(
+        { error: 'Failed to save call screening settings' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ settings })
+  } catch (error) {
+    console.error('Error in /api/[slug]/call-screening PUT:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthSession } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase/server'
+import { checkPublicUrl } from '@/lib/tools/request-guard'
+import {
+  generateWebhookSecret,
+  getCallerLookupSettings,
+  validateCallerLookupSettings,
+} from '@/lib/caller-lookup'
+
+type RouteContext = {
+  params: Promise<{ slug: string }>
+}
+
+// GET - The organization's caller lookup settings (null if never configured)
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug } = await context.params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+    const settings = await getCallerLookupSettings(supabase, organizationId)
+
+    return NextResponse.json({ settings })
+  } catch (error) {
+    console.error('Error in /api/[slug]/caller-lookup GET:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT - Save the caller lookup settings
+// Body: { enabled, source, webhookUrl?, toolId?, timeoutMs?, routingRules?, regenerateSecret? }
+// A webhook signing secret is created the first time settings are saved
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug } = await context.params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const validation = validateCallerLookupSettings(body)
+
+    if (!validation.settings) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+
+    if (validation.settings.tool_id) {
+      const { data: tool } = await supabase
+        .from('tools')
+        .select('id, type')
+        .eq('id', validation.settings.tool_id)
+        .eq('organization_id', organizationId)
+        .maybeSingle()
+
+      if (!tool || tool.type !== 'pipedream_action') {
+        return NextResponse.json(
+          { error: 'toolId must be one of your Pipedream action tools' },
+          { status: 400 }
+        )
+      }
+    }
+
+    if (validation.settings.webhook_url) {
+      const urlError = await checkPublicUrl(new URL(validation.settings.webhook_url))
+      if (urlError) {
+        return NextResponse.json(
+          { error: `webhookUrl: ${urlError}` },
+          { status: 400 }
+        )
+      }
+    }
+
+    const existing = await getCallerLookupSettings(supabase, organizationId)
+    const webhookSecret = !existing?.webhook_secret || body.regenerateSecret === true
+      ? generateWebhookSecret()
+      : existing.webhook_secret
+
+    const { data: settings, error } = await supabase
+      .from('caller_lookup_settings')
+      .upsert(
+        {
+          organization_id: organizationId,
+          ...validation.settings,
+          webhook_secret: webhookSecret,
+        },
+        { onConflict: 'organization_id' }
+      )
+      .select('*')
+      .single()
+
+    if (error) {
+      console.error('Error saving caller lookup settings:', error)
+      return NextResponse.json(
+        { error: 'Failed to save caller lookup settings' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ settings })
+  } catch (error) {
+    console.error('Error in /api/[slug]/caller-lookup PUT:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
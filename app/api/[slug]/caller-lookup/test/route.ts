@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthSession } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase/server'
+import { getCallerLookupSettings, lookupCaller, matchCallerRoute } from '@/lib/caller-lookup'
+import { isValidE164, normalizePhoneNumber } from '@/lib/outbound-calls'
+
+type RouteContext = {
+  params: Promise<{ slug: string }>
+}
+
+// POST - Run the saved caller lookup for a phone number, without a call
+// Body: { phoneNumber: string }
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug } = await context.params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const phoneNumber = normalizePhoneNumber(typeof body.phoneNumber === 'string' ? body.phoneNumber : '')
+
+    if (!isValidE164(phoneNumber)) {
+      return NextResponse.json(
+        { error: 'phoneNumber must be in E.164 format, e.g. +447700900123' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+    const settings = await getCallerLookupSettings(supabase, organizationId)
+
+    if (!settings) {
+      return NextResponse.json(
+        { error: 'Save the caller lookup settings first' },
+        { status: 400 }
+      )
+    }
+
+    const result = await lookupCaller(supabase, {
+      settings,
+      organizationId,
+      callerNumber: phoneNumber,
+      calledNumber: '',
+      agentId: '',
+    })
+
+    return NextResponse.json({
+      ...result,
+      route: result.profile ? matchCallerRoute(result.profile, settings.routing_rules) : null,
+    })
+  } catch (error) {
+    console.error('Error in /api/[slug]/caller-lookup/test POST:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
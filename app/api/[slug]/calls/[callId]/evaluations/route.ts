@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { getAuthSession } from '@/lib/auth'
+
+interface RouteContext {
+  params: Promise<{
+    slug: string
+    callId: string
+  }>
+}
+
+/**
+ * GET /api/[slug]/calls/[callId]/evaluations
+ *
+ * List evaluation results for a call, joined with the evaluation definition
+ */
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const supabase = await createServiceClient()
+    const { slug, callId } = await context.params
+
+    const { organizationId } = await getAuthSession(slug)
+
+    // Verify the call belongs to the user's organization
+    const { data: call, error: callError } = await supabase
+      .from('calls')
+      .select('id')
+      .eq('id', callId)
+      .eq('organization_id', organizationId)
+      .single()
+
+    if (callError || !call) {
+      return NextResponse.json({ error: 'Call not found' }, { status: 404 })
+    }
+
+    const { data: results, error: resultsError } = await supabase
+      .from('call_evaluation_results')
+      .select('*, evaluation:evaluations(id, name, description, output_schema)')
+      .eq('call_id', callId)
+      .order('created_at', { ascending: true })
+
+    if (resultsError) {
+      console.error('Error fetching evaluation results:', resultsError)
+      return NextResponse.json(
+        { error: 'Failed to fetch evaluation results', results: [] },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ results: results || [] })
+  } catch (error) {
+    console.error('Error in GET /api/[slug]/calls/[callId]/evaluations:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', results: [] },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { getAuthSession } from '@/lib/auth'
+import { canManageRetention, saveLegalHoldAudit } from '@/lib/retention'
+
+interface RouteContext {
+  params: Promise<{
+    slug: string
+    callId: string
+  }>
+}
+
+const MAX_REASON_LENGTH = 500
+
+// PUT - Place a call on legal hold, or release it
+// Body: { legalHold: boolean, reason? }
+// Calls on hold are skipped by the retention purge. Every change is written to legal_hold_audit_log
+export async function PUT(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { slug, callId } = await context.params
+    const session = await getAuthSession(slug)
+    const { user, organizationId } = session
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!canManageRetention(session)) {
+      return NextResponse.json(
+        { error: 'Only organization admins can place or release a legal hold' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+
+    if (typeof body.legalHold !== 'boolean') {
+      return NextResponse.json(
+        { error: 'legalHold must be true or false' },
+        { status: 400 }
+      )
+    }
+
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : ''
+    if (reason.length > MAX_REASON_LENGTH) {
+      return NextResponse.json(
+        { error: `reason must be at most ${MAX_REASON_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+
+    const { data: call, error } = await supabase
+      .from('calls')
+      .update({
+        legal_hold: body.legalHold,
+        legal_hold_reason: body.legalHold ? reason || null : null,
+        legal_hold_set_by: user.email,
+        legal_hold_set_at: new Date().toISOString(),
+      })
+      .eq('id', callId)
+      .eq('organization_id', organizationId)
+      .select('id, legal_hold, legal_hold_reason, legal_hold_set_by, legal_hold_set_at')
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error updating legal hold:', error)
+      return NextResponse.json(
+        { error: 'Failed to update legal hold' },
+        { status: 500 }
+      )
+    }
+
+    if (!call) {
+      return NextResponse.json({ error: 'Call not found' }, { status: 404 })
+    }
+
+    try {
+      await saveLegalHoldAudit(supabase, {
+        organizationId,
+        callId,
+        legalHold: body.legalHold,
+        reason: reason || null,
+        performedBy: user.email,
+      })
+    } catch (auditError) {
+      console.error('Error saving legal hold audit entry:', auditError)
+      return NextResponse.json(
+        { error: 'Failed to record legal hold change' },
+        { status: 500 }
+      )
+    }
+
+    console.log(`⚖️ Legal hold ${body.legalHold ? 'placed on' : 'released from'} call ${callId} by ${user.email}`)
+
+    return NextResponse.json({ call })
+  } catch (error) {
+    console.error('Error in /api/[slug]/calls/[callId]/legal-hold PUT:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { getAuthSession } from '@/lib/auth'
+import { saveAgentEvent } from '@/lib/calls'
+import { canRevealRedactions, getOriginalRecording, getRedactionPolicy } from '@/lib/redaction'
+
+interface RouteContext {
+  params: Promise<{
+    slug: string
+    callId: string
+  }>
+}
+
+// GET - The call recording from before redacted words were bleeped (MP4)
+// Same access as the text originals; every reveal is logged on the call
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { slug, callId } = await context.params
+    const { user, organizationId, isAdmin, role } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+
+    const { data: call, error: callError } = await supabase
+      .from('calls')
+      .select('id, organization_id, livekit_room_name')
+      .eq('id', callId)
+      .eq('organization_id', organizationId)
+      .single()
+
+    if (callError || !call) {
+      return NextResponse.json({ error: 'Call not found' }, { status: 404 })
+    }
+
+    const policy = await getRedactionPolicy(supabase, organizationId)
+    if (!canRevealRedactions({ isAdmin, role }, policy)) {
+      return NextResponse.json(
+        { error: 'Your role cannot view redacted values' },
+        { status: 403 }
+      )
+    }
+
+    const original = await getOriginalRecording(supabase, call)
+    if (!original) {
+      return NextResponse.json({ error: 'No original recording was kept for this call' }, { status: 404 })
+    }
+
+    await saveAgentEvent({
+      callId,
+      eventType: 'pii_revealed',
+      eventData: {
+        userId: user.id,
+        userEmail: user.email ?? null,
+        role: role ?? null,
+        recording: true,
+      },
+    })
+
+    return new NextResponse(new Uint8Array(original), {
+      headers: {
+        'Content-Type': 'video/mp4',
+        'Content-Length': String(original.byteLength),
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    console.error('Error in /api/[slug]/calls/[callId]/redactions/recording GET:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
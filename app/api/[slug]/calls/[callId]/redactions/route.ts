@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { getAuthSession } from '@/lib/auth'
+import { saveAgentEvent } from '@/lib/calls'
+import { canRevealRedactions, getRedactedOriginals, getRedactionPolicy } from '@/lib/redaction'
+
+interface RouteContext {
+  params: Promise<{
+    slug: string
+    callId: string
+  }>
+}
+
+// GET - The original values of a redacted call's transcript and events
+// Only platform admins and the policy's reveal roles can see them; every reveal is logged on the call
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { slug, callId } = await context.params
+    const { user, organizationId, isAdmin, role } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+
+    const { data: call, error: callError } = await supabase
+      .from('calls')
+      .select('id, organization_id')
+      .eq('id', callId)
+      .eq('organization_id', organizationId)
+      .single()
+
+    if (callError || !call) {
+      return NextResponse.json({ error: 'Call not found' }, { status: 404 })
+    }
+
+    const policy = await getRedactionPolicy(supabase, organizationId)
+    if (!canRevealRedactions({ isAdmin, role }, policy)) {
+      return NextResponse.json(
+        { error: 'Your role cannot view redacted values' },
+        { status: 403 }
+      )
+    }
+
+    const originals = await getRedactedOriginals(supabase, callId)
+
+    await saveAgentEvent({
+      callId,
+      eventType: 'pii_revealed',
+      eventData: {
+        userId: user.id,
+        userEmail: user.email ?? null,
+        role: role ?? null,
+        eventCount: Object.keys(originals.events).length,
+        transcript: originals.transcript !== null,
+      },
+    })
+
+    return NextResponse.json(originals)
+  } catch (error) {
+    console.error('Error in /api/[slug]/calls/[callId]/redactions GET:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { getAuthSession } from '@/lib/auth'
+import { saveAgentEvent } from '@/lib/calls'
+import { isValidE164, normalizePhoneNumber } from '@/lib/outbound-calls'
+import { createBargeToken, takeOverCall, whisperToAgent } from '@/lib/supervisor'
+import { MAX_WHISPER_LENGTH, type SupervisorAction } from '@/lib/live-calls'
+
+interface RouteContext {
+  params: Promise<{
+    slug: string
+    callId: string
+  }>
+}
+
+const SUPERVISOR_ACTIONS: SupervisorAction[] = ['whisper', 'barge', 'takeover']
+
+// POST - Step into a live agent call
+// Body: { action: 'whisper', instruction } | { action: 'barge' } | { action: 'takeover', phoneNumber }
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { slug, callId } = await context.params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const action = body.action as SupervisorAction
+
+    if (!SUPERVISOR_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `action must be one of: ${SUPERVISOR_ACTIONS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const instruction = typeof body.instruction === 'string' ? body.instruction.trim() : ''
+    if (action === 'whisper' && (!instruction || instruction.length > MAX_WHISPER_LENGTH)) {
+      return NextResponse.json(
+        { error: `instruction is required and must be at most ${MAX_WHISPER_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    const phoneNumber = typeof body.phoneNumber === 'string' ? normalizePhoneNumber(body.phoneNumber) : ''
+    if (action === 'takeover' && !isValidE164(phoneNumber)) {
+      return NextResponse.json(
+        { error: 'phoneNumber must be in E.164 format, e.g. +447700900123' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+
+    const { data: call, error: callError } = await supabase
+      .from('calls')
+      .select('id, status, livekit_room_name')
+      .eq('id', callId)
+      .eq('organization_id', organizationId)
+      .maybeSingle()
+
+    if (callError || !call) {
+      return NextResponse.json({ error: 'Call not found' }, { status: 404 })
+    }
+
+    if (call.status !== 'connected_to_agent' || !call.livekit_room_name) {
+      return NextResponse.json(
+        { error: 'The call is not connected to an agent' },
+        { status: 409 }
+      )
+    }
+
+    const supervisor = {
+      supervisorId: user.id,
+      supervisorEmail: user.email ?? null,
+    }
+
+    if (action === 'whisper') {
+      const result = await whisperToAgent(call.livekit_room_name, instruction, user.email || user.id)
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 409 })
+      }
+
+      await saveAgentEvent({
+        callId: call.id,
+        eventType: 'supervisor_whisper',
+        eventData: { ...supervisor, instruction, agentIdentity: result.agentIdentity },
+      })
+
+      return NextResponse.json({ success: true })
+    }
+
+    if (action === 'barge') {
+      const result = await createBargeToken(call.livekit_room_name, {
+        userId: user.id,
+        name: [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email || 'Supervisor',
+      })
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 409 })
+      }
+
+      await saveAgentEvent({
+        callId: call.id,
+        eventType: 'supervisor_barge',
+        eventData: { ...supervisor, identity: result.identity },
+      })
+
+      return NextResponse.json({
+        success: true,
+        token: result.token,
+        serverUrl: result.serverUrl,
+        joinUrl: result.joinUrl,
+      })
+    }
+
+    const result = await takeOverCall(call.livekit_room_name, phoneNumber)
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 409 })
+    }
+
+    await saveAgentEvent({
+      callId: call.id,
+      eventType: 'supervisor_takeover',
+      eventData: { ...supervisor, phoneNumber, callerIdentity: result.callerIdentity },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in /api/[slug]/calls/[callId]/supervise POST:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { getAuthSession } from '@/lib/auth'
+
+interface RouteContext {
+  params: Promise<{
+    slug: string
+    callId: string
+  }>
+}
+
+/**
+ * Signed URL for the voicemail left on a call
+ * The process-voicemail task stores it in the call-recordings bucket and
+ * records the path on the voicemail_left event
+ */
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { slug, callId } = await context.params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json({ error: 'Not authenticated or unauthorized' }, { status: 401 })
+    }
+
+    const supabase = await createServiceClient()
+
+    const { data: call, error: callError } = await supabase
+      .from('calls')
+      .select('id')
+      .eq('id', callId)
+      .eq('organization_id', organizationId)
+      .single()
+
+    if (callError || !call) {
+      return NextResponse.json({ error: 'Call not found' }, { status: 404 })
+    }
+
+    const { data: event } = await supabase
+      .from('agent_events')
+      .select('data')
+      .eq('call_id', callId)
+      .eq('event_type', 'voicemail_left')
+      .order('time', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    const voicemail = event?.data as { storagePath?: string; transcript?: string | null } | undefined
+
+    if (!voicemail?.storagePath) {
+      return NextResponse.json({ error: 'Voicemail not available' }, { status: 404 })
+    }
+
+    const { data: signedUrlData, error: signedUrlError } = await supabase
+      .storage
+      .from('call-recordings')
+      .createSignedUrl(voicemail.storagePath, 3600)
+
+    if (signedUrlError) {
+      console.error('Error generating voicemail signed URL:', signedUrlError)
+      return NextResponse.json({ error: 'Voicemail not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      recordingUrl: signedUrlData.signedUrl,
+      transcript: voicemail.transcript ?? null,
+      expiresIn: 3600,
+    })
+  } catch (error) {
+    console.error('Error in GET /api/[slug]/calls/[callId]/voicemail:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
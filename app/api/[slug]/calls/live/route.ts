@@ -0,0 +1,155 @@
+import { createServiceClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { getAuthSession } from '@/lib/auth'
+import { getLiveCallEvents, getLiveCalls, type LiveCall } from '@/lib/live-calls'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
+
+const EVENT_POLL_INTERVAL_MS = 1000
+const CALLS_POLL_INTERVAL_MS = 5000
+const HEARTBEAT_INTERVAL_MS = 15000
+// Worker event times can land slightly out of order, so each poll looks back this far (deduped by id)
+const EVENT_LOOKBACK_MS = 10000
+// Close before maxDuration - EventSource reconnects and gets a fresh snapshot
+const STREAM_DURATION_MS = 280000
+
+const sameCalls = (a: LiveCall[], b: LiveCall[]) =>
+  a.length === b.length && a.every((call, i) => call.id === b[i].id && call.status === b[i].status)
+
+/**
+ * GET - Server-sent event stream of in-progress calls
+ *
+ * event: snapshot  { calls, events } - on connect, live calls and their events so far
+ * event: calls     { calls }         - when calls start, end or change status
+ * event: events    { events }        - new events for live calls, in time order
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+    const encoder = new TextEncoder()
+
+    let calls = await getLiveCalls(supabase, organizationId)
+    const initialEvents = await getLiveCallEvents(supabase, calls.map((c) => c.id), null)
+
+    const seenEventIds = new Set<string>(initialEvents.map((e) => e.id))
+    let latestEventTime = initialEvents.reduce<string | null>(
+      (latest, e) => (!latest || e.time > latest ? e.time : latest),
+      null
+    ) ?? new Date().toISOString()
+
+    let closed = false
+    const timers: ReturnType<typeof setInterval>[] = []
+
+    const stream = new ReadableStream({
+      start(controller) {
+        const send = (event: string, data: unknown) => {
+          if (closed) return
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+        }
+
+        const close = () => {
+          if (closed) return
+          closed = true
+          timers.forEach((timer) => clearInterval(timer))
+          try {
+            controller.close()
+          } catch {
+            // Already closed by the client
+          }
+        }
+
+        send('snapshot', { calls, events: initialEvents })
+
+        let pollingEvents = false
+        timers.push(setInterval(async () => {
+          if (closed || pollingEvents || calls.length === 0) return
+          pollingEvents = true
+          try {
+            const since = new Date(new Date(latestEventTime).getTime() - EVENT_LOOKBACK_MS).toISOString()
+            const events = (await getLiveCallEvents(supabase, calls.map((c) => c.id), since))
+              .filter((e) => !seenEventIds.has(e.id))
+
+            if (events.length > 0) {
+              events.forEach((e) => {
+                seenEventIds.add(e.id)
+                if (e.time > latestEventTime) latestEventTime = e.time
+              })
+              send('events', { events })
+            }
+          } catch (error) {
+            console.error('Error polling live call events:', error)
+          } finally {
+            pollingEvents = false
+          }
+        }, EVENT_POLL_INTERVAL_MS))
+
+        let pollingCalls = false
+        timers.push(setInterval(async () => {
+          if (closed || pollingCalls) return
+          pollingCalls = true
+          try {
+            const nextCalls = await getLiveCalls(supabase, organizationId)
+            if (sameCalls(calls, nextCalls)) return
+
+            // Calls that just started get their history, later events arrive through the event poll
+            const knownIds = new Set(calls.map((c) => c.id))
+            const newIds = nextCalls.filter((c) => !knownIds.has(c.id)).map((c) => c.id)
+            calls = nextCalls
+            send('calls', { calls })
+
+            const history = (await getLiveCallEvents(supabase, newIds, null))
+              .filter((e) => !seenEventIds.has(e.id))
+            if (history.length > 0) {
+              history.forEach((e) => seenEventIds.add(e.id))
+              send('events', { events: history })
+            }
+          } catch (error) {
+            console.error('Error polling live calls:', error)
+          } finally {
+            pollingCalls = false
+          }
+        }, CALLS_POLL_INTERVAL_MS))
+
+        timers.push(setInterval(() => {
+          if (closed) return
+          controller.enqueue(encoder.encode(': heartbeat\n\n'))
+        }, HEARTBEAT_INTERVAL_MS))
+
+        timers.push(setTimeout(close, STREAM_DURATION_MS))
+        request.signal.addEventListener('abort', close)
+      },
+      cancel() {
+        closed = true
+        timers.forEach((timer) => clearInterval(timer))
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    })
+  } catch (error) {
+    console.error('Error in /api/[slug]/calls/live GET:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -24,6 +24,9 @@ export async function GET(
     const agentId = searchParams.get('agent_id')
     const dateFrom = searchParams.get('date_from')
     const dateTo = searchParams.get('date_to')
+    const statuses = searchParams.getAll('status').filter(Boolean)
+    const caller = searchParams.get('caller')?.trim()
+    const tool = searchParams.get('tool')?.trim()
 
     const supabase = await createServiceClient()
 
@@ -70,6 +73,23 @@ export async function GET(
       dataQuery = dataQuery.lt('created_at', dateToEnd)
     }
 
+    if (statuses.length > 0) {
+      countQuery = countQuery.in('status', statuses)
+      dataQuery = dataQuery.in('status', statuses)
+    }
+
+    if (caller) {
+      countQuery = countQuery.ilike('caller_phone_number', `%${caller}%`)
+      dataQuery = dataQuery.ilike('caller_phone_number', `%${caller}%`)
+    }
+
+    if (tool) {
+      // Served by the GIN index on transcript
+      const toolCall = [{ type: 'function_call', name: tool }]
+      countQuery = countQuery.contains('transcript', toolCall)
+      dataQuery = dataQuery.contains('transcript', toolCall)
+    }
+
     // Get total count for pagination
     const { count: totalCount, error: countError } = await countQuery
 
@@ -0,0 +1,121 @@
+import { createServiceClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { getAuthSession } from '@/lib/auth'
+import type { CallSearchSnippet } from '@/types/call-events'
+
+export const dynamic = 'force-dynamic'
+
+const MIN_QUERY_LENGTH = 2
+const MAX_LIMIT = 100
+
+// GET - Full-text search across call transcripts
+// Supports the same agent / date filters as /api/[slug]/calls plus status, caller and tool
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const query = (searchParams.get('q') || '').trim()
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1)
+    const limit = Math.min(parseInt(searchParams.get('limit') || '10') || 10, MAX_LIMIT)
+    const offset = (page - 1) * limit
+    const agentId = searchParams.get('agent_id')
+    const dateFrom = searchParams.get('date_from')
+    const dateTo = searchParams.get('date_to')
+    const statuses = searchParams.getAll('status').filter(Boolean)
+    const caller = searchParams.get('caller')?.trim()
+    const tool = searchParams.get('tool')?.trim()
+
+    if (query.length < MIN_QUERY_LENGTH) {
+      return NextResponse.json(
+        { error: `Search query must be at least ${MIN_QUERY_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    // Add one day to include the entire end date
+    let dateToEnd: string | null = null
+    if (dateTo) {
+      const endDate = new Date(dateTo)
+      endDate.setDate(endDate.getDate() + 1)
+      dateToEnd = endDate.toISOString()
+    }
+
+    const supabase = await createServiceClient()
+
+    const { data: matches, error } = await supabase.rpc('search_call_transcripts', {
+      p_organization_id: organizationId,
+      p_query: query,
+      p_agent_id: agentId || null,
+      p_date_from: dateFrom || null,
+      p_date_to: dateToEnd,
+      p_statuses: statuses.length > 0 ? statuses : null,
+      p_caller: caller || null,
+      p_tool: tool || null,
+      p_limit: limit,
+      p_offset: offset,
+    })
+
+    if (error) {
+      console.error('Error searching call transcripts:', error)
+      return NextResponse.json({ error: 'Failed to search calls' }, { status: 500 })
+    }
+
+    const rows = (matches || []) as Array<{
+      call_id: string
+      rank: number
+      snippets: CallSearchSnippet[]
+      total_count: number
+    }>
+    const total = rows[0]?.total_count ?? 0
+
+    if (rows.length === 0) {
+      return NextResponse.json({
+        results: [],
+        pagination: { page, limit, total: 0, totalPages: 0 },
+      })
+    }
+
+    // Load the full call records for the matched page (same shape as /api/[slug]/calls)
+    const { data: calls, error: callsError } = await supabase
+      .from('calls')
+      .select('*, agents(name)')
+      .in('id', rows.map((row) => row.call_id))
+
+    if (callsError) {
+      console.error('Error fetching matched calls:', callsError)
+      return NextResponse.json({ error: 'Failed to fetch calls' }, { status: 500 })
+    }
+
+    const callsById = new Map((calls || []).map((call) => [call.id, call]))
+
+    const results = rows
+      .filter((row) => callsById.has(row.call_id))
+      .map((row) => ({
+        call: callsById.get(row.call_id),
+        rank: row.rank,
+        snippets: row.snippets,
+      }))
+
+    return NextResponse.json({
+      results,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    })
+  } catch (error) {
+    console.error('Error in GET /api/[slug]/calls/search:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
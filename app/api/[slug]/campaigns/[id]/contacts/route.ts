@@ -0,0 +1,200 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthSession } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase/server'
+import { parseContactsCsv } from '@/lib/campaigns'
+
+type RouteContext = {
+  params: Promise<{ slug: string; id: string }>
+}
+
+const CONTACT_STATUSES = ['pending', 'dialing', 'connected', 'completed', 'failed', 'skipped']
+const INSERT_BATCH_SIZE = 1000
+
+// GET - List a campaign's contacts
+// Query: page, limit, status
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug, id } = await context.params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1'))
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '50')))
+    const status = searchParams.get('status')
+
+    const supabase = await createServiceClient()
+
+    let query = supabase
+      .from('campaign_contacts')
+      .select('*', { count: 'exact' })
+      .eq('campaign_id', id)
+      .eq('organization_id', organizationId)
+
+    if (status && CONTACT_STATUSES.includes(status)) {
+      query = query.eq('status', status)
+    }
+
+    const { data: contacts, error, count } = await query
+      .order('row_number', { ascending: true })
+      .range((page - 1) * limit, page * limit - 1)
+
+    if (error) {
+      console.error('Error fetching campaign contacts:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch contacts' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      contacts: contacts || [],
+      pagination: {
+        page,
+        limit,
+        total: count || 0,
+        totalPages: Math.ceil((count || 0) / limit),
+      },
+    })
+  } catch (error) {
+    console.error('Error in /api/[slug]/campaigns/[id]/contacts GET:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Import contacts from CSV text
+// Body: { csv: string, phoneColumn?: string }
+// Numbers already in the campaign are ignored; do-not-call numbers are added as skipped
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug, id } = await context.params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+
+    const { data: campaign } = await supabase
+      .from('campaigns')
+      .select('id, status')
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .single()
+
+    if (!campaign) {
+      return NextResponse.json(
+        { error: 'Campaign not found' },
+        { status: 404 }
+      )
+    }
+
+    if (campaign.status === 'completed' || campaign.status === 'cancelled') {
+      return NextResponse.json(
+        { error: `Contacts can't be added to a ${campaign.status} campaign` },
+        { status: 409 }
+      )
+    }
+
+    const body = await request.json()
+
+    if (!body.csv || typeof body.csv !== 'string') {
+      return NextResponse.json(
+        { error: 'csv is required' },
+        { status: 400 }
+      )
+    }
+
+    const parsed = parseContactsCsv(body.csv, body.phoneColumn)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      )
+    }
+
+    const { contacts, columns, phoneColumn, errors, duplicates } = parsed.result
+
+    // New rows are numbered after the existing ones so they're dialled last
+    const { data: lastContact } = await supabase
+      .from('campaign_contacts')
+      .select('row_number')
+      .eq('campaign_id', campaign.id)
+      .order('row_number', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    const rowOffset = lastContact?.row_number ?? 0
+
+    const { data: doNotCall } = await supabase
+      .from('do_not_call_numbers')
+      .select('phone_number')
+      .eq('organization_id', organizationId)
+
+    const blockedNumbers = new Set((doNotCall || []).map((row) => row.phone_number as string))
+
+    let imported = 0
+    let skipped = 0
+
+    for (let i = 0; i < contacts.length; i += INSERT_BATCH_SIZE) {
+      const rows = contacts.slice(i, i + INSERT_BATCH_SIZE).map((contact) => {
+        const blocked = blockedNumbers.has(contact.phoneNumber)
+        return {
+          campaign_id: campaign.id,
+          organization_id: organizationId,
+          phone_number: contact.phoneNumber,
+          variables: contact.variables,
+          row_number: rowOffset + contact.rowNumber,
+          status: blocked ? 'skipped' : 'pending',
+          last_result: blocked ? 'do_not_call' : null,
+        }
+      })
+
+      const { data: inserted, error } = await supabase
+        .from('campaign_contacts')
+        .upsert(rows, { onConflict: 'campaign_id,phone_number', ignoreDuplicates: true })
+        .select('status')
+
+      if (error) {
+        console.error('Error importing campaign contacts:', error)
+        return NextResponse.json(
+          { error: 'Failed to import contacts', imported },
+          { status: 500 }
+        )
+      }
+
+      imported += inserted?.length || 0
+      skipped += (inserted || []).filter((row) => row.status === 'skipped').length
+    }
+
+    return NextResponse.json({
+      imported,
+      skippedDoNotCall: skipped,
+      alreadyInCampaign: contacts.length - imported,
+      duplicates,
+      phoneColumn,
+      columns,
+      errors,
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Error in /api/[slug]/campaigns/[id]/contacts POST:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
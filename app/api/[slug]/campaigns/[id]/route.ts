@@ -0,0 +1,243 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthSession } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase/server'
+import {
+  canTransitionCampaign,
+  getCampaignStats,
+  validateCampaignReferences,
+  validateCampaignSettings,
+} from '@/lib/campaigns'
+import type { Campaign, CampaignStatus } from '@/types/campaigns'
+
+type RouteContext = {
+  params: Promise<{ slug: string; id: string }>
+}
+
+// GET - Get a campaign with its contact counts
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug, id } = await context.params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+
+    const { data: campaign, error } = await supabase
+      .from('campaigns')
+      .select('*, agent:agents(id, name), phone_number:phone_numbers(id, phone_number)')
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .single()
+
+    if (error || !campaign) {
+      return NextResponse.json(
+        { error: 'Campaign not found' },
+        { status: 404 }
+      )
+    }
+
+    const stats = await getCampaignStats(supabase, [campaign.id])
+
+    return NextResponse.json({
+      campaign: { ...campaign, stats: stats.get(campaign.id) },
+    })
+  } catch (error) {
+    console.error('Error in /api/[slug]/campaigns/[id] GET:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH - Update settings, or start / pause / cancel the campaign
+// Body: any campaign setting, and/or { status: 'running' | 'paused' | 'cancelled' }
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug, id } = await context.params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+
+    const { data: existing } = await supabase
+      .from('campaigns')
+      .select('*')
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .single()
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Campaign not found' },
+        { status: 404 }
+      )
+    }
+
+    const campaign = existing as Campaign
+
+    if (campaign.status === 'completed' || campaign.status === 'cancelled') {
+      return NextResponse.json(
+        { error: `This campaign is ${campaign.status} and can't be changed` },
+        { status: 409 }
+      )
+    }
+
+    const body = await request.json()
+    const { settings, error: validationError } = validateCampaignSettings(body, true)
+
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+
+    const referenceError = await validateCampaignReferences(supabase, organizationId, settings)
+    if (referenceError) {
+      return NextResponse.json(
+        { error: referenceError },
+        { status: 404 }
+      )
+    }
+
+    const update: Record<string, unknown> = { ...settings }
+
+    if (body.status !== undefined && body.status !== campaign.status) {
+      const status = body.status as CampaignStatus
+
+      if (!canTransitionCampaign(campaign.status, status)) {
+        return NextResponse.json(
+          { error: `Can't change a ${campaign.status} campaign to ${status}` },
+          { status: 400 }
+        )
+      }
+
+      if (status === 'running') {
+        const { count } = await supabase
+          .from('campaign_contacts')
+          .select('id', { count: 'exact', head: true })
+          .eq('campaign_id', campaign.id)
+          .eq('status', 'pending')
+
+        if (!count) {
+          return NextResponse.json(
+            { error: 'Upload contacts before starting the campaign' },
+            { status: 400 }
+          )
+        }
+
+        update.started_at = campaign.started_at ?? new Date().toISOString()
+      }
+
+      if (status === 'cancelled') {
+        update.completed_at = new Date().toISOString()
+      }
+
+      update.status = status
+    }
+
+    const { data: updated, error } = await supabase
+      .from('campaigns')
+      .update(update)
+      .eq('id', campaign.id)
+      .select('*')
+      .single()
+
+    if (error || !updated) {
+      console.error('Error updating campaign:', error)
+      return NextResponse.json(
+        { error: 'Failed to update campaign' },
+        { status: 500 }
+      )
+    }
+
+    // Contacts that were never reached won't be called now
+    if (update.status === 'cancelled') {
+      await supabase
+        .from('campaign_contacts')
+        .update({ status: 'skipped', last_result: 'cancelled', next_attempt_at: null })
+        .eq('campaign_id', campaign.id)
+        .eq('status', 'pending')
+    }
+
+    return NextResponse.json({ campaign: updated as Campaign })
+  } catch (error) {
+    console.error('Error in /api/[slug]/campaigns/[id] PATCH:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Delete a campaign that isn't running (its calls are kept)
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug, id } = await context.params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+
+    const { data: campaign } = await supabase
+      .from('campaigns')
+      .select('id, status')
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .single()
+
+    if (!campaign) {
+      return NextResponse.json(
+        { error: 'Campaign not found' },
+        { status: 404 }
+      )
+    }
+
+    if (campaign.status === 'running') {
+      return NextResponse.json(
+        { error: 'Pause or cancel the campaign before deleting it' },
+        { status: 409 }
+      )
+    }
+
+    const { error } = await supabase
+      .from('campaigns')
+      .delete()
+      .eq('id', campaign.id)
+
+    if (error) {
+      console.error('Error deleting campaign:', error)
+      return NextResponse.json(
+        { error: 'Failed to delete campaign' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in /api/[slug]/campaigns/[id] DELETE:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
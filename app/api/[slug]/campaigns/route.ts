@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthSession } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase/server'
+import { getCampaignStats, validateCampaignReferences, validateCampaignSettings } from '@/lib/campaigns'
+import type { Campaign } from '@/types/campaigns'
+
+type RouteContext = {
+  params: Promise<{ slug: string }>
+}
+
+// GET - List the organization's campaigns with their contact counts
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug } = await context.params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+
+    const { data: campaigns, error } = await supabase
+      .from('campaigns')
+      .select('*, agent:agents(id, name)')
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching campaigns:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch campaigns' },
+        { status: 500 }
+      )
+    }
+
+    const stats = await getCampaignStats(
+      supabase,
+      (campaigns || []).map((campaign) => campaign.id)
+    )
+
+    return NextResponse.json({
+      campaigns: (campaigns || []).map((campaign) => ({
+        ...campaign,
+        stats: stats.get(campaign.id),
+      })),
+    })
+  } catch (error) {
+    console.error('Error in /api/[slug]/campaigns GET:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Create a draft campaign
+// Body: { name, agentId, phoneNumberId?, timezone, callingWindows, maxConcurrentCalls?, maxAttempts?, retryDelayMinutes?, retryOn? }
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug } = await context.params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const { settings, error: validationError } = validateCampaignSettings(body, false)
+
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+
+    const referenceError = await validateCampaignReferences(supabase, organizationId, settings)
+    if (referenceError) {
+      return NextResponse.json(
+        { error: referenceError },
+        { status: 404 }
+      )
+    }
+
+    const { data: campaign, error } = await supabase
+      .from('campaigns')
+      .insert({
+        ...settings,
+        organization_id: organizationId,
+        status: 'draft',
+        created_by: user.email,
+      })
+      .select('*')
+      .single()
+
+    if (error || !campaign) {
+      console.error('Error creating campaign:', error)
+      return NextResponse.json(
+        { error: 'Failed to create campaign' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ campaign: campaign as Campaign }, { status: 201 })
+  } catch (error) {
+    console.error('Error in /api/[slug]/campaigns POST:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthSession } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase/server'
+import { canManageRetention, getRetentionPolicy, validateRetentionPolicy } from '@/lib/retention'
+
+type RouteContext = {
+  params: Promise<{ slug: string }>
+}
+
+const AUDIT_LIMIT = 20
+
+// GET - The organization's retention policy and its most recent purges
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug } = await context.params
+    const session = await getAuthSession(slug)
+    const { user, organizationId } = session
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+
+    const [policy, { data: audit, error }, { count: heldCalls }] = await Promise.all([
+      getRetentionPolicy(supabase, organizationId),
+      supabase
+        .from('retention_audit_log')
+        .select('id, data_type, cutoff, call_count, item_count, created_at')
+        .eq('organization_id', organizationId)
+        .order('created_at', { ascending: false })
+        .limit(AUDIT_LIMIT),
+      supabase
+        .from('calls')
+        .select('id', { count: 'exact', head: true })
+        .eq('organization_id', organizationId)
+        .eq('legal_hold', true),
+    ])
+
+    if (error) {
+      console.error('Error fetching retention audit log:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch retention audit log' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      policy,
+      audit: audit || [],
+      heldCalls: heldCalls || 0,
+      canEdit: canManageRetention(session),
+    })
+  } catch (error) {
+    console.error('Error in /api/[slug]/data-retention GET:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT - Save the retention policy
+// Body: { enabled, recordingDays, transcriptDays, eventDays, callerDetailsDays } - null keeps forever
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug } = await context.params
+    const session = await getAuthSession(slug)
+    const { user, organizationId } = session
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!canManageRetention(session)) {
+      return NextResponse.json(
+        { error: 'Only organization admins can change the retention policy' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validation = validateRetentionPolicy(body)
+
+    if (!validation.policy) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+
+    const { data: policy, error } = await supabase
+      .from('retention_policies')
+      .upsert(
+        { organization_id: organizationId, ...validation.policy },
+        { onConflict: 'organization_id' }
+      )
+      .select('*')
+      .single()
+
+    if (error) {
+      console.error('Error saving retention policy:', error)
+      return NextResponse.json(
+        { error: 'Failed to save retention policy' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ policy })
+  } catch (error) {
+    console.error('Error in /api/[slug]/data-retention PUT:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { getAuthSession } from '@/lib/auth'
+import { canManageDataSubjectRequests, EXPORT_URL_EXPIRY_SECONDS } from '@/lib/data-subject-requests'
+import { RECORDINGS_BUCKET } from '@/lib/retention'
+
+interface RouteContext {
+  params: Promise<{
+    slug: string
+    requestId: string
+  }>
+}
+
+// GET - Signed download links for an export bundle: export.json and each audio file
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { slug, requestId } = await context.params
+    const session = await getAuthSession(slug)
+
+    if (!session.user || !session.organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!canManageDataSubjectRequests(session)) {
+      return NextResponse.json(
+        { error: 'Only organization admins can download caller data' },
+        { status: 403 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+
+    const { data: dataSubjectRequest, error } = await supabase
+      .from('data_subject_requests')
+      .select('id, request_type, status, export_path')
+      .eq('id', requestId)
+      .eq('organization_id', session.organizationId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching data subject request:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch data subject request' },
+        { status: 500 }
+      )
+    }
+
+    // Erasures remove earlier export bundles, so a completed export can still have none
+    if (!dataSubjectRequest || dataSubjectRequest.request_type !== 'export' ||
+      dataSubjectRequest.status !== 'completed' || !dataSubjectRequest.export_path) {
+      return NextResponse.json({ error: 'Export not found' }, { status: 404 })
+    }
+
+    const exportPath = dataSubjectRequest.export_path as string
+    const { data: audio, error: listError } = await supabase.storage
+      .from(RECORDINGS_BUCKET)
+      .list(`${exportPath}/audio`)
+
+    if (listError) {
+      console.error('Error listing export audio:', listError)
+      return NextResponse.json(
+        { error: 'Failed to read export' },
+        { status: 500 }
+      )
+    }
+
+    const files = ['export.json', ...(audio || []).map((file) => `audio/${file.name}`)]
+    const { data: signedUrls, error: signError } = await supabase.storage
+      .from(RECORDINGS_BUCKET)
+      .createSignedUrls(files.map((file) => `${exportPath}/${file}`), EXPORT_URL_EXPIRY_SECONDS, { download: true })
+
+    if (signError || !signedUrls) {
+      console.error('Error signing export URLs:', signError)
+      return NextResponse.json(
+        { error: 'Failed to create download links' },
+        { status: 500 }
+      )
+    }
+
+    console.log(`🔏 Export ${requestId} downloaded by ${session.user.email}`)
+
+    return NextResponse.json({
+      files: signedUrls.map((signed, index) => ({ name: files[index], url: signed.signedUrl })),
+      expiresIn: EXPORT_URL_EXPIRY_SECONDS,
+    })
+  } catch (error) {
+    console.error('Error in /api/[slug]/data-subject-requests/[requestId]/download GET:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
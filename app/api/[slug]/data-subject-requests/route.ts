@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { getAuthSession } from '@/lib/auth'
+import {
+  canManageDataSubjectRequests,
+  DATA_SUBJECT_REQUEST_TYPES,
+  hashPhoneNumber,
+  queueDataSubjectRequest,
+} from '@/lib/data-subject-requests'
+import { isValidE164, normalizePhoneNumber } from '@/lib/outbound-calls'
+import type { DataSubjectRequestType } from '@/types/data-subject-requests'
+
+interface RouteContext {
+  params: Promise<{
+    slug: string
+  }>
+}
+
+const REQUEST_LIST_LIMIT = 50
+
+// Never return the caller's number - the list only shows the last 4 digits
+const REQUEST_COLUMNS = 'id, request_type, phone_number_last4, status, summary, export_path, error_message, requested_by, completed_at, created_at'
+
+// GET - Recent export and erasure requests
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { slug } = await context.params
+    const session = await getAuthSession(slug)
+
+    if (!session.user || !session.organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+
+    const { data: requests, error } = await supabase
+      .from('data_subject_requests')
+      .select(REQUEST_COLUMNS)
+      .eq('organization_id', session.organizationId)
+      .order('created_at', { ascending: false })
+      .limit(REQUEST_LIST_LIMIT)
+
+    if (error) {
+      console.error('Error fetching data subject requests:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch data subject requests' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      requests: requests || [],
+      canManage: canManageDataSubjectRequests(session),
+    })
+  } catch (error) {
+    console.error('Error in /api/[slug]/data-subject-requests GET:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Start an export or erasure for a caller's number
+// Body: { requestType: 'export' | 'erasure', phoneNumber }
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { slug } = await context.params
+    const session = await getAuthSession(slug)
+    const { user, organizationId } = session
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!canManageDataSubjectRequests(session)) {
+      return NextResponse.json(
+        { error: 'Only organization admins can export or erase caller data' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const requestType = body.requestType as DataSubjectRequestType
+
+    if (!DATA_SUBJECT_REQUEST_TYPES.includes(requestType)) {
+      return NextResponse.json(
+        { error: `requestType must be one of: ${DATA_SUBJECT_REQUEST_TYPES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const phoneNumber = typeof body.phoneNumber === 'string' ? normalizePhoneNumber(body.phoneNumber) : ''
+    if (!isValidE164(phoneNumber)) {
+      return NextResponse.json(
+        { error: 'phoneNumber must be in E.164 format, e.g. +447700900123' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+
+    const { data: dataSubjectRequest, error } = await supabase
+      .from('data_subject_requests')
+      .insert({
+        organization_id: organizationId,
+        request_type: requestType,
+        phone_number: phoneNumber,
+        phone_number_hash: hashPhoneNumber(organizationId, phoneNumber),
+        phone_number_last4: phoneNumber.slice(-4),
+        requested_by: user.email,
+      })
+      .select(REQUEST_COLUMNS)
+      .single()
+
+    if (error || !dataSubjectRequest) {
+      console.error('Error creating data subject request:', error)
+      return NextResponse.json(
+        { error: 'Failed to create data subject request' },
+        { status: 500 }
+      )
+    }
+
+    try {
+      await queueDataSubjectRequest(dataSubjectRequest.id)
+    } catch (queueError) {
+      console.error('Error queueing data subject request:', queueError)
+      await supabase
+        .from('data_subject_requests')
+        .update({ status: 'failed', error_message: 'Failed to queue request' })
+        .eq('id', dataSubjectRequest.id)
+
+      return NextResponse.json(
+        { error: 'Failed to queue data subject request' },
+        { status: 500 }
+      )
+    }
+
+    console.log(`🔏 ${requestType} request ${dataSubjectRequest.id} for …${phoneNumber.slice(-4)} created by ${user.email}`)
+
+    return NextResponse.json({ request: dataSubjectRequest }, { status: 201 })
+  } catch (error) {
+    console.error('Error in /api/[slug]/data-subject-requests POST:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
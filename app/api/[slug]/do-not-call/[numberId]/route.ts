@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthSession } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase/server'
+
+type RouteContext = {
+  params: Promise<{ slug: string; numberId: string }>
+}
+
+// DELETE - Remove a number from the do-not-call list
+// Contacts that were already skipped stay skipped
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug, numberId } = await context.params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+
+    const { data: deleted, error } = await supabase
+      .from('do_not_call_numbers')
+      .delete()
+      .eq('id', numberId)
+      .eq('organization_id', organizationId)
+      .select('id')
+
+    if (error) {
+      console.error('Error removing do-not-call number:', error)
+      return NextResponse.json(
+        { error: 'Failed to remove number' },
+        { status: 500 }
+      )
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json(
+        { error: 'Number not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in /api/[slug]/do-not-call/[numberId] DELETE:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthSession } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase/server'
+import { isValidE164, normalizePhoneNumber } from '@/lib/outbound-calls'
+
+type RouteContext = {
+  params: Promise<{ slug: string }>
+}
+
+// GET - List the organization's do-not-call numbers
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug } = await context.params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+
+    const { data: numbers, error } = await supabase
+      .from('do_not_call_numbers')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching do-not-call numbers:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch do-not-call numbers' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ numbers: numbers || [] })
+  } catch (error) {
+    console.error('Error in /api/[slug]/do-not-call GET:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Add a number to the do-not-call list
+// Body: { phoneNumber: string, reason?: string }
+// Pending contacts with this number in any campaign are skipped straight away
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug } = await context.params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const phoneNumber = normalizePhoneNumber(typeof body.phoneNumber === 'string' ? body.phoneNumber : '')
+
+    if (!isValidE164(phoneNumber)) {
+      return NextResponse.json(
+        { error: 'phoneNumber must be in E.164 format, e.g. +447700900123' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+
+    const { data: number, error } = await supabase
+      .from('do_not_call_numbers')
+      .insert({
+        organization_id: organizationId,
+        phone_number: phoneNumber,
+        reason: typeof body.reason === 'string' && body.reason.trim() ? body.reason.trim() : null,
+        created_by: user.email,
+      })
+      .select('*')
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: 'This number is already on the do-not-call list' },
+          { status: 409 }
+        )
+      }
+      console.error('Error adding do-not-call number:', error)
+      return NextResponse.json(
+        { error: 'Failed to add number' },
+        { status: 500 }
+      )
+    }
+
+    await supabase
+      .from('campaign_contacts')
+      .update({ status: 'skipped', last_result: 'do_not_call', next_attempt_at: null })
+      .eq('organization_id', organizationId)
+      .eq('phone_number', phoneNumber)
+      .eq('status', 'pending')
+
+    return NextResponse.json({ number }, { status: 201 })
+  } catch (error) {
+    console.error('Error in /api/[slug]/do-not-call POST:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -50,7 +50,8 @@ export async function GET(
       .from("knowledge_base_items")
       .select("*", { count: "exact", head: true })
       .eq("parent_item_id", extraction.parent_item_id)
-      .eq("status", "indexed");
+      .eq("status", "indexed")
+      .is("deleted_at", null);
 
     const { count: completedItems } = await supabase
       .from("knowledge_base_item_extractions")
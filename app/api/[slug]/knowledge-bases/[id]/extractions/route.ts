@@ -71,7 +71,8 @@ export async function POST(
       .from("knowledge_base_items")
       .select("id")
       .eq("parent_item_id", parentItemId)
-      .eq("status", "indexed"); // Only process indexed properties
+      .eq("status", "indexed") // Only process indexed properties
+      .is("deleted_at", null); // Skip listings removed from Rightmove
 
     if (propertiesError) {
       return NextResponse.json(
@@ -197,7 +198,8 @@ export async function GET(
           .from("knowledge_base_items")
           .select("*", { count: "exact", head: true })
           .eq("parent_item_id", extraction.parent_item_id)
-          .eq("status", "indexed");
+          .eq("status", "indexed")
+          .is("deleted_at", null);
 
         const { count: completedItems } = await supabase
           .from("knowledge_base_item_extractions")
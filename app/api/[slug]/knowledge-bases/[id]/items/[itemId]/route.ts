@@ -1,6 +1,7 @@
 import { createServiceClient } from '@/lib/supabase/server'
 import { NextResponse } from 'next/server'
 import { getAuthSession } from '@/lib/auth'
+import { getNextSyncAt } from '@/lib/knowledge-base/sync-schedule'
 
 export const dynamic = 'force-dynamic'
 
@@ -55,6 +56,21 @@ export async function PATCH(
 
     if (body.metadata) {
       updates.metadata = body.metadata
+
+      // Re-schedule from the last sync in case the sync schedule changed
+      const { data: existingItem } = await supabase
+        .from('knowledge_base_items')
+        .select('type, last_synced_at')
+        .eq('id', itemId)
+        .eq('knowledge_base_id', knowledgeBaseId)
+        .single()
+
+      if (existingItem?.last_synced_at) {
+        updates.next_sync_at = getNextSyncAt(
+          { type: existingItem.type, metadata: body.metadata },
+          new Date(existingItem.last_synced_at)
+        )
+      }
     }
 
     const { data: item, error: updateError } = await supabase
@@ -0,0 +1,61 @@
+import { createServiceClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { getAuthSession } from '@/lib/auth'
+
+export const dynamic = 'force-dynamic'
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 100
+
+// GET - Sync history for a knowledge base item (most recent first)
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ slug: string; id: string; itemId: string }> }
+) {
+  try {
+    const { slug, id: knowledgeBaseId, itemId } = await params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const supabase = await createServiceClient()
+
+    // Verify the knowledge base belongs to the organization
+    const { data: kb } = await supabase
+      .from('knowledge_bases')
+      .select('id')
+      .eq('id', knowledgeBaseId)
+      .eq('organization_id', organizationId)
+      .single()
+
+    if (!kb) {
+      return NextResponse.json({ error: 'Knowledge base not found' }, { status: 404 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(
+      parseInt(searchParams.get('limit') || '', 10) || DEFAULT_LIMIT,
+      MAX_LIMIT
+    )
+
+    const { data: syncs, error } = await supabase
+      .from('knowledge_base_item_syncs')
+      .select('*')
+      .eq('knowledge_base_item_id', itemId)
+      .eq('knowledge_base_id', knowledgeBaseId)
+      .order('started_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error('Error fetching item sync history:', error)
+      return NextResponse.json({ error: 'Failed to fetch sync history' }, { status: 500 })
+    }
+
+    return NextResponse.json({ syncs: syncs || [] })
+  } catch (error) {
+    console.error('Error in GET /api/[slug]/knowledge-bases/[id]/items/[itemId]/syncs:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -72,7 +72,7 @@ export async function POST(
     // Process each item
     for (const item of items) {
       try {
-        const { name, url, type = "url" } = item;
+        const { name, url, type = "url", syncSchedule } = item;
 
         if (!name || !url) {
           results.failed.push({
@@ -99,6 +99,7 @@ export async function POST(
           name,
           url,
           type: type as "url",
+          metadata: ["daily", "weekly"].includes(syncSchedule) ? { syncSchedule } : undefined,
         });
 
         // Insert the item into the database
@@ -6,6 +6,9 @@ import { createKnowledgeBaseItem, insertKnowledgeBaseItem, checkUrlExists } from
 
 export const dynamic = 'force-dynamic'
 
+// File types the process-item file processor can extract text from
+const SUPPORTED_FILE_EXTENSIONS = ['pdf', 'docx', 'csv', 'md', 'txt']
+
 // GET - List all items in a knowledge base
 export async function GET(
   request: Request,
@@ -177,6 +180,14 @@ export async function POST(
         if (!file) {
           return NextResponse.json({ error: 'File is required for file type' }, { status: 400 })
         }
+
+        const extension = file.name.split('.').pop()?.toLowerCase()
+        if (!extension || !SUPPORTED_FILE_EXTENSIONS.includes(extension)) {
+          return NextResponse.json(
+            { error: `Unsupported file type. Supported types: ${SUPPORTED_FILE_EXTENSIONS.join(', ')}` },
+            { status: 400 }
+          )
+        }
       } else {
         return NextResponse.json({ error: 'Invalid type' }, { status: 400 })
       }
@@ -189,6 +200,12 @@ export async function POST(
         ? parseInt(formData.get('chunk_overlap') as string, 10)
         : undefined
 
+      // URL items can opt in to scheduled re-syncs
+      const syncSchedule = formData.get('sync_schedule') as string | null
+      if (syncSchedule && !['never', 'daily', 'weekly'].includes(syncSchedule)) {
+        return NextResponse.json({ error: 'Invalid sync schedule' }, { status: 400 })
+      }
+
       // Create item data
       const result = await createKnowledgeBaseItem({
         knowledgeBaseId,
@@ -198,6 +215,7 @@ export async function POST(
         text_content: formData.get('text_content') as string | undefined,
         file: formData.get('file') as File | undefined,
         type: type as 'url' | 'text' | 'file',
+        metadata: type === 'url' && syncSchedule ? { syncSchedule } : undefined,
         chunkSize,
         chunkOverlap,
       })
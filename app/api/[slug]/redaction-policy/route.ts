@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthSession } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase/server'
+import { canRevealRedactions, getRedactionPolicy, validateRedactionPolicy } from '@/lib/redaction'
+
+type RouteContext = {
+  params: Promise<{ slug: string }>
+}
+
+// GET - The organization's PII redaction policy (null until it's first saved)
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug } = await context.params
+    const { user, organizationId, isAdmin, role } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+    const policy = await getRedactionPolicy(supabase, organizationId)
+
+    return NextResponse.json({
+      policy,
+      canEdit: canRevealRedactions({ isAdmin, role }, policy),
+    })
+  } catch (error) {
+    console.error('Error in /api/[slug]/redaction-policy GET:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT - Save the redaction policy
+// Body: { enabled, detectors, customPatterns, revealRoles, bleepRecordings }
+// Only users who can reveal originals can change who else can
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug } = await context.params
+    const { user, organizationId, isAdmin, role } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+
+    if (!canRevealRedactions({ isAdmin, role }, await getRedactionPolicy(supabase, organizationId))) {
+      return NextResponse.json(
+        { error: 'Your role cannot change the redaction policy' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validation = validateRedactionPolicy(body)
+
+    if (!validation.policy) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      )
+    }
+
+    const { data: policy, error } = await supabase
+      .from('redaction_policies')
+      .upsert(
+        { organization_id: organizationId, ...validation.policy },
+        { onConflict: 'organization_id' }
+      )
+      .select('*')
+      .single()
+
+    if (error) {
+      console.error('Error saving redaction policy:', error)
+      return NextResponse.json(
+        { error: 'Failed to save redaction policy' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ policy })
+  } catch (error) {
+    console.error('Error in /api/[slug]/redaction-policy PUT:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
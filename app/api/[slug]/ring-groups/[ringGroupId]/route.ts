@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthSession } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase/server'
+import { validateRingGroupInput } from '@/lib/ring-groups'
+
+type RouteContext = {
+  params: Promise<{ slug: string; ringGroupId: string }>
+}
+
+// PUT - Update a ring group
+// Body: { name, strategy, ringTimeoutSeconds, members: [{ id?, phoneNumber, label }] }
+// Members keep their id so answer rates carry over
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug, ringGroupId } = await context.params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const { group, error: validationError } = validateRingGroupInput(body)
+    if (!group) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+
+    const { data: ringGroup, error } = await supabase
+      .from('ring_groups')
+      .update(group)
+      .eq('id', ringGroupId)
+      .eq('organization_id', organizationId)
+      .select('*')
+      .maybeSingle()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: 'A ring group with this name already exists' },
+          { status: 409 }
+        )
+      }
+      console.error('Error updating ring group:', error)
+      return NextResponse.json(
+        { error: 'Failed to update ring group' },
+        { status: 500 }
+      )
+    }
+
+    if (!ringGroup) {
+      return NextResponse.json(
+        { error: 'Ring group not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ ringGroup })
+  } catch (error) {
+    console.error('Error in /api/[slug]/ring-groups/[ringGroupId] PUT:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Remove a ring group
+// Schedules and transfer tools still pointing at it fall back to their own number
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug, ringGroupId } = await context.params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+
+    const { data: deleted, error } = await supabase
+      .from('ring_groups')
+      .delete()
+      .eq('id', ringGroupId)
+      .eq('organization_id', organizationId)
+      .select('id')
+
+    if (error) {
+      console.error('Error removing ring group:', error)
+      return NextResponse.json(
+        { error: 'Failed to remove ring group' },
+        { status: 500 }
+      )
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json(
+        { error: 'Ring group not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in /api/[slug]/ring-groups/[ringGroupId] DELETE:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
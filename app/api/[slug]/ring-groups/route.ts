@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthSession } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase/server'
+import { getRingGroupMemberStats, validateRingGroupInput } from '@/lib/ring-groups'
+import type { RingGroup } from '@/types/ring-groups'
+
+type RouteContext = {
+  params: Promise<{ slug: string }>
+}
+
+// GET - The organization's ring groups, with member answer rates
+// Query: days (default 30) - how far back answer rates go
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug } = await context.params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const days = Math.min(Math.max(parseInt(request.nextUrl.searchParams.get('days') || '30') || 30, 1), 365)
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+
+    const supabase = await createServiceClient()
+
+    const { data: ringGroups, error } = await supabase
+      .from('ring_groups')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('name', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching ring groups:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch ring groups' },
+        { status: 500 }
+      )
+    }
+
+    const stats = await getRingGroupMemberStats(supabase, (ringGroups || []) as RingGroup[], since)
+
+    return NextResponse.json({ ringGroups: ringGroups || [], stats, days })
+  } catch (error) {
+    console.error('Error in /api/[slug]/ring-groups GET:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Create a ring group
+// Body: { name, strategy: 'simultaneous' | 'sequential', ringTimeoutSeconds, members: [{ phoneNumber, label }] }
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug } = await context.params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const { group, error: validationError } = validateRingGroupInput(body)
+    if (!group) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+
+    const { data: ringGroup, error } = await supabase
+      .from('ring_groups')
+      .insert({ organization_id: organizationId, ...group })
+      .select('*')
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: 'A ring group with this name already exists' },
+          { status: 409 }
+        )
+      }
+      console.error('Error creating ring group:', error)
+      return NextResponse.json(
+        { error: 'Failed to create ring group' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ ringGroup }, { status: 201 })
+  } catch (error) {
+    console.error('Error in /api/[slug]/ring-groups POST:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthSession } from '@/lib/auth'
+import { rotateWorkerCredential } from '@/lib/worker-credentials'
+
+type RouteContext = {
+  params: Promise<{ slug: string; credentialId: string }>
+}
+
+const MAX_GRACE_PERIOD_HOURS = 24 * 7
+
+// POST - Issue a new token; the old one keeps working for gracePeriodHours (default 24)
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug, credentialId } = await context.params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const gracePeriodHours = body.gracePeriodHours ?? 24
+
+    if (typeof gracePeriodHours !== 'number' || gracePeriodHours < 0 || gracePeriodHours > MAX_GRACE_PERIOD_HOURS) {
+      return NextResponse.json(
+        { error: `gracePeriodHours must be between 0 and ${MAX_GRACE_PERIOD_HOURS}` },
+        { status: 400 }
+      )
+    }
+
+    const result = await rotateWorkerCredential({
+      credentialId,
+      organizationId,
+      createdBy: user.email,
+      gracePeriodHours,
+    })
+
+    if (!result.success || !result.credential) {
+      const status = result.error === 'Worker credential not found'
+        ? 404
+        : result.error?.startsWith('Cannot rotate') ? 400 : 500
+      return NextResponse.json(
+        { error: result.error || 'Failed to rotate worker credential' },
+        { status }
+      )
+    }
+
+    return NextResponse.json(
+      { credential: result.credential, token: result.token },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Error in /api/[slug]/worker-credentials/[credentialId]/rotate POST:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
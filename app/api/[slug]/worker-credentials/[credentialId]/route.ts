@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthSession } from '@/lib/auth'
+import { revokeWorkerCredential } from '@/lib/worker-credentials'
+
+type RouteContext = {
+  params: Promise<{ slug: string; credentialId: string }>
+}
+
+// DELETE - Revoke a worker credential (takes effect immediately)
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug, credentialId } = await context.params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const result = await revokeWorkerCredential(credentialId, organizationId)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to revoke worker credential' },
+        { status: result.error === 'Worker credential not found' ? 404 : 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in /api/[slug]/worker-credentials/[credentialId] DELETE:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
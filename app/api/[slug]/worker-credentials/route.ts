@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthSession } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase/server'
+import { createWorkerCredential, getWorkerCredentialStatus } from '@/lib/worker-credentials'
+import type { WorkerCredential } from '@/types/worker-credentials'
+
+type RouteContext = {
+  params: Promise<{ slug: string }>
+}
+
+// GET - List the organization's worker credentials (tokens are never returned)
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug } = await context.params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+
+    const { data: credentials, error } = await supabase
+      .from('worker_credentials')
+      .select('id, organization_id, name, token_prefix, created_by, last_used_at, expires_at, revoked_at, rotated_from_id, created_at, updated_at')
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching worker credentials:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch worker credentials' },
+        { status: 500 }
+      )
+    }
+
+    const now = new Date()
+
+    return NextResponse.json({
+      credentials: ((credentials || []) as WorkerCredential[]).map((credential) => ({
+        ...credential,
+        status: getWorkerCredentialStatus(credential, now),
+      })),
+    })
+  } catch (error) {
+    console.error('Error in /api/[slug]/worker-credentials GET:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Create a worker credential; the token is only returned in this response
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { slug } = await context.params
+    const { user, organizationId } = await getAuthSession(slug)
+
+    if (!user || !organizationId) {
+      return NextResponse.json(
+        { error: 'Not authenticated or unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+
+    if (!name || name.length > 100) {
+      return NextResponse.json(
+        { error: 'Name is required and must be at most 100 characters' },
+        { status: 400 }
+      )
+    }
+
+    const result = await createWorkerCredential({
+      organizationId,
+      name,
+      createdBy: user.email,
+    })
+
+    if (!result.success || !result.credential) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to create worker credential' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json(
+      { credential: result.credential, token: result.token },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Error in /api/[slug]/worker-credentials POST:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
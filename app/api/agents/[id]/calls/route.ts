@@ -1,12 +1,20 @@
 import { createServiceClient } from '@/lib/supabase/server'
 import type { UsageMetrics, TranscriptItem } from '@/types/call-events'
 import { findCallRecord, saveAgentEvent } from '@/lib/calls'
+import { queueCallEvaluations } from '@/lib/evaluations'
+import { authenticateWorkerRequest, rejectWorkerOrganizationMismatch } from '@/lib/worker-credentials'
+import { compileRedactionPolicy, getActiveRedactionPolicy, redactCall, redactEventData, saveToVault } from '@/lib/redaction'
 
 export async function POST(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await authenticateWorkerRequest(request);
+    if (!auth.authenticated) {
+      return auth.response;
+    }
+
     const { id } = await params;
     
     const agentId = id;
@@ -22,7 +30,7 @@ export async function POST(
     const supabase = await createServiceClient();
 
     // Extract routing metadata from payload, keep everything else as raw event data
-    const { type: eventType, timestamp, twilioCallSid, callerPhoneNumber, roomName, ...rawEventData } = payload;
+    const { type: eventType, timestamp, callId, twilioCallSid, callerPhoneNumber, roomName, ...rawEventData } = payload;
 
     if (!eventType) {
       return new Response(
@@ -37,11 +45,9 @@ export async function POST(
       );
     }
 
-    // Extract the data field for special event handling (but store full rawEventData in DB)
-    const eventData = rawEventData.data || {};
-
-    // Find call record - prioritize roomName for matching
+    // Find call record - callId (outbound calls) first, then roomName
     const callRecord = await findCallRecord({
+      callId,
       roomName,
       twilioCallSid,
       agentId,
@@ -61,11 +67,31 @@ export async function POST(
       );
     }
 
+    // The call may have been matched by room name / CallSid alone, so check it belongs to the worker's organization
+    if (callRecord.organization_id !== auth.organizationId) {
+      return rejectWorkerOrganizationMismatch(request, auth.organizationId, {
+        agentId,
+        callId: callRecord.id,
+      });
+    }
+
+    // Redact PII before anything is stored, if the organization has a redaction policy
+    const redactionPolicy = await getActiveRedactionPolicy(supabase, callRecord.organization_id);
+    const redacted = redactionPolicy
+      ? redactEventData(eventType, rawEventData, compileRedactionPolicy(redactionPolicy), {
+          bleep: redactionPolicy.bleep_recordings,
+        })
+      : null;
+    const storedEventData = redacted ? redacted.data : rawEventData;
+
+    // Extract the data field for special event handling (but store full event data in DB)
+    const eventData = storedEventData.data || {};
+
     // Insert event into agent_events with raw event data
     const eventResult = await saveAgentEvent({
       callId: callRecord.id,
       eventType,
-      eventData: rawEventData,
+      eventData: storedEventData,
       timestamp: timestamp || new Date().toISOString(),
     });
 
@@ -82,6 +108,26 @@ export async function POST(
       );
     }
 
+    // Keep the encrypted originals for the roles allowed to see them
+    if (redacted) {
+      await saveToVault(supabase, {
+        organizationId: callRecord.organization_id,
+        callId: callRecord.id,
+        agentEventId: eventResult.eventId,
+        target: 'event',
+        original: rawEventData,
+      });
+
+      if (eventType === 'transcript' && Array.isArray(rawEventData.data?.items)) {
+        await saveToVault(supabase, {
+          organizationId: callRecord.organization_id,
+          callId: callRecord.id,
+          target: 'transcript',
+          original: rawEventData.data.items,
+        });
+      }
+    }
+
     if (eventType === 'room_connected') {
       const updates: {
         livekit_room_name?: string;
@@ -139,9 +185,14 @@ export async function POST(
         console.log(`📊 Storing usage metrics`);
       }
 
-      // Store config if available
+      // Store config if available, keeping the configuration version recorded when the call came in
       if (eventData.config) {
-        updates.config = eventData.config;
+        updates.config = {
+          ...eventData.config,
+          configurationVersionId: callRecord.config?.configurationVersionId
+            ?? eventData.config.configurationVersionId
+            ?? null,
+        };
         console.log(`⚙️ Storing config`);
       }
 
@@ -173,6 +224,28 @@ export async function POST(
       } catch (error) {
         console.error('Error calculating latency statistics:', error);
       }
+
+      // Sweep the whole call for PII and bleep the recording if the policy asks for it
+      if (redactionPolicy) {
+        try {
+          await redactCall(supabase, callRecord, redactionPolicy);
+        } catch (error) {
+          console.error('Error redacting call:', error);
+        }
+      }
+
+      // The transcript may already have landed - if so, evaluations can run now
+      if (callRecord.transcript && callRecord.transcript.length > 0) {
+        try {
+          await queueCallEvaluations({
+            callId: callRecord.id,
+            agentId: callRecord.agent_id,
+            organizationId: callRecord.organization_id,
+          });
+        } catch (error) {
+          console.error('Error queueing call evaluations:', error);
+        }
+      }
     }
 
     // Handle transcript event - store the full transcript and mark call as completed
@@ -208,6 +281,26 @@ export async function POST(
           .from('calls')
           .update(updates)
           .eq('id', callRecord.id);
+
+        // A transcript landing after session_complete missed that sweep, so record it on the call now
+        if (redactionPolicy && redacted && callRecord.status === 'completed') {
+          try {
+            await redactCall(supabase, callRecord, redactionPolicy);
+          } catch (error) {
+            console.error('Error redacting call:', error);
+          }
+        }
+
+        // Run the agent's evaluations against the stored transcript
+        try {
+          await queueCallEvaluations({
+            callId: callRecord.id,
+            agentId: callRecord.agent_id,
+            organizationId: callRecord.organization_id,
+          });
+        } catch (error) {
+          console.error('Error queueing call evaluations:', error);
+        }
       }
     }
 
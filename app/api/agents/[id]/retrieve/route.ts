@@ -1,16 +1,23 @@
 import { NextResponse } from 'next/server'
 import { createServiceClient } from '@/lib/supabase/server'
-import ragie from '@/lib/ragie/client'
+import { retrieveChunks, DEFAULT_MATCH_COUNT } from '@/lib/knowledge-base/retrieval'
+import { authenticateWorkerRequest, rejectWorkerOrganizationMismatch } from '@/lib/worker-credentials'
+import type { AgentConfiguration } from '@/types/agent-config'
 
 export const dynamic = 'force-dynamic'
 
 // POST - Retrieve relevant documents from agent's assigned knowledge bases
-// No authentication required - can be called by agents or other services
+// Requires a worker credential for the agent's organization
 export async function POST(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await authenticateWorkerRequest(request)
+    if (!auth.authenticated) {
+      return auth.response
+    }
+
     const { query } = await request.json()
 
     if (!query || typeof query !== 'string' || query.trim().length === 0) {
@@ -20,10 +27,10 @@ export async function POST(
     const { id: agentId } = await params
     const supabase = await createServiceClient()
 
-    // Fetch the agent and its organization
+    // Fetch the agent and its configuration
     const { data: agent, error: agentError } = await supabase
       .from('agents')
-      .select('id, organization_id')
+      .select('id, organization_id, configuration')
       .eq('id', agentId)
       .single()
 
@@ -31,7 +38,14 @@ export async function POST(
       return NextResponse.json({ error: 'Agent not found' }, { status: 404 })
     }
 
-    const organizationId = agent.organization_id
+    if (agent.organization_id !== auth.organizationId) {
+      return rejectWorkerOrganizationMismatch(request, auth.organizationId, { agentId })
+    }
+
+    const configuration = (agent.configuration || {}) as Partial<AgentConfiguration>
+    const matchCount = configuration.knowledgeBase?.matchCount ?? DEFAULT_MATCH_COUNT
+    const searchMode = configuration.knowledgeBase?.searchMode ?? 'hybrid'
+    const rerank = configuration.knowledgeBase?.rerank ?? false
 
     // Fetch all knowledge bases assigned to this agent
     const { data: agentKnowledgeBases, error: kbError } = await supabase
@@ -52,41 +66,35 @@ export async function POST(
       return NextResponse.json({
         query,
         knowledgeBaseIds: [],
-        scoredChunks: [],
+        chunks: [],
+        context: [],
         message: 'No knowledge bases assigned to this agent',
       })
     }
 
-    // Build metadata filter for knowledge base IDs
-    const filter: Record<string, unknown> = {}
-    if (kbIdsToSearch.length === 1) {
-      filter.knowledge_base_id = kbIdsToSearch[0]
-    } else {
-      filter.knowledge_base_id = { $in: kbIdsToSearch }
-    }
-
-    console.log('filter', filter)
-
-    // Retrieve from Ragie using organization partition and knowledge base metadata filter
+    // Search knowledge_base_documents (vector or hybrid, optionally reranked)
     try {
-      const retrievalResponse = await ragie.retrievals.retrieve({
+      const chunks = await retrieveChunks({
         query: query.trim(),
-        partition: organizationId,
-        filter,
-        // topK,
-        // rerank,
+        knowledgeBaseIds: kbIdsToSearch,
+        matchCount,
+        searchMode,
+        rerank,
       })
 
-      // Extract just the text from each scored chunk
-      const context = (retrievalResponse.scoredChunks || []).map(chunk => chunk.text)
+      console.log(`🔍 Retrieved ${chunks.length} chunk(s) for agent ${agentId} (mode: ${searchMode}, rerank: ${rerank}, matchCount: ${matchCount})`)
 
       return NextResponse.json({
-        // query,
-        // knowledgeBaseIds: kbIdsToSearch,
-        context,
+        query,
+        knowledgeBaseIds: kbIdsToSearch,
+        searchMode,
+        reranked: rerank,
+        chunks,
+        // Plain text of each chunk, kept for agents that only read the context
+        context: chunks.map(chunk => chunk.content),
       })
-    } catch (ragieError) {
-      console.error('Error retrieving from Ragie:', ragieError)
+    } catch (retrievalError) {
+      console.error('Error retrieving knowledge base documents:', retrievalError)
       return NextResponse.json(
         { error: 'Failed to retrieve documents. The knowledge base may not have any indexed documents yet.' },
         { status: 500 }
@@ -97,4 +105,3 @@ export async function POST(
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
 }
-
@@ -1,9 +1,18 @@
 import { NextResponse } from 'next/server'
 import { createServiceClient } from '@/lib/supabase/server'
 import { findCallRecord, saveAgentEvent } from '@/lib/calls'
+import { rejectOrganizationMismatch, validateTwilioWebhook } from '@/lib/twilio/webhook'
+import { generateVoicemailTwiML } from '@/lib/voicemail'
+import type { AgentRules } from '@/types/agent-rules'
 
 export async function POST(request: Request) {
   try {
+    // Reject requests that weren't signed by Twilio
+    const validation = await validateTwilioWebhook(request)
+    if (!validation.valid) {
+      return validation.response
+    }
+
     const supabase = await createServiceClient()
     
     console.log('='.repeat(80))
@@ -22,7 +31,8 @@ export async function POST(request: Request) {
     const to = formData.get('To') as string
     const from = formData.get('From') as string
     const callSid = formData.get('CallSid') as string
-    const dialCallStatus = formData.get('DialCallStatus') as string
+    // A ring group hunt that runs out of members redirects here with the status in the query
+    const dialCallStatus = (formData.get('DialCallStatus') || new URL(request.url).searchParams.get('DialCallStatus')) as string
     
     console.log('\n🔑 KEY PARAMETERS:')
     console.log(`  To: ${to}`)
@@ -64,6 +74,11 @@ export async function POST(request: Request) {
       )
     }
 
+    const mismatch = await rejectOrganizationMismatch(request, validation, phoneNumber.organization_id, { to })
+    if (mismatch) {
+      return mismatch
+    }
+
     const agent = phoneNumber.agents
     console.log('✅ Agent found:', {
       id: agent.id,
@@ -78,6 +93,41 @@ export async function POST(request: Request) {
       callerPhoneNumber: from,
     })
 
+    // Voicemail fallback: take a message instead of connecting the agent
+    const rules = agent.rules as AgentRules | null
+    if (rules?.agentFallback?.action === 'voicemail' && callRecord) {
+      if (dialCallStatus === 'completed') {
+        console.log('  ✅ Team answered - ending call')
+        return new Response(
+          `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Hangup/>
+</Response>`,
+          { headers: { 'Content-Type': 'text/xml' } }
+        )
+      }
+
+      await saveAgentEvent({
+        callId: callRecord.id,
+        eventType: 'team_no_answer_fallback',
+        eventData: {
+          dialCallStatus: dialCallStatus,
+          fallbackReason: 'Team did not answer, taking a voicemail',
+          fallbackAction: 'voicemail',
+        },
+      })
+
+      const twimlResponse = generateVoicemailTwiML(rules.voicemail, callRecord.id)
+
+      console.log('\n📤 TWIML RESPONSE (voicemail):')
+      console.log(twimlResponse)
+      console.log('='.repeat(80))
+
+      return new Response(twimlResponse, {
+        headers: { 'Content-Type': 'text/xml' }
+      })
+    }
+
     if (!callRecord) {
       console.error('❌ Call record not found')
       // Continue anyway, but log the error
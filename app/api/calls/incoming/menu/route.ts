@@ -0,0 +1,267 @@
+import { createServiceClient } from '@/lib/supabase/server'
+import { findCallRecord, saveAgentEvent } from '@/lib/calls'
+import { generateMenuTwiML, matchMenuOption } from '@/lib/ivr-menu'
+import { transferToTeam } from '@/lib/team-transfer'
+import { rejectOrganizationMismatch, validateTwilioWebhook } from '@/lib/twilio/webhook'
+import { generateVoicemailTwiML } from '@/lib/voicemail'
+import type { AgentRules, IvrMenuAction } from '@/types/agent-rules'
+
+/**
+ * IVR menu callback
+ *
+ * Twilio posts here when the caller answers the <Gather> menu from
+ * /api/calls/incoming, or when it times out. Unrecognised input replays the
+ * menu until maxAttempts; a timeout or the last failed attempt uses the
+ * menu's default action.
+ */
+
+/**
+ * Dial the called number on the SIP trunk. X-Call-Id lets the worker load the
+ * agent the call was routed to, which may not be the number's own agent.
+ */
+function generateAgentTwiML(calledNumber: string, callId: string | null): string {
+  const livekitSipEndpoint = process.env.LIVEKIT_SIP_ENDPOINT
+
+  if (!livekitSipEndpoint) {
+    throw new Error('LiveKit SIP endpoint not configured')
+  }
+
+  const sipUri = `sip:${calledNumber}@${livekitSipEndpoint}${callId ? `?X-Call-Id=${callId}` : ''}`
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Dial referUrl="${process.env.NEXT_PUBLIC_APP_URL}/api/calls/incoming/refer" ringTone="uk">
+    <Sip>
+      ${sipUri}
+    </Sip>
+  </Dial>
+</Response>`
+}
+
+function generateErrorTwiML(message: string): Response {
+  return new Response(
+    `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Say>${message}</Say>
+  <Hangup/>
+</Response>`,
+    { headers: { 'Content-Type': 'text/xml' } }
+  )
+}
+
+export async function POST(request: Request) {
+  try {
+    // Reject requests that weren't signed by Twilio
+    const validation = await validateTwilioWebhook(request)
+    if (!validation.valid) {
+      return validation.response
+    }
+
+    const supabase = await createServiceClient()
+
+    console.log('='.repeat(80))
+    console.log('IVR MENU CALLBACK')
+    console.log('='.repeat(80))
+
+    const formData = await request.formData()
+    const to = formData.get('To') as string
+    const from = formData.get('From') as string
+    const callSid = formData.get('CallSid') as string
+    const digits = (formData.get('Digits') as string | null) || null
+    const speech = (formData.get('SpeechResult') as string | null) || null
+    const searchParams = new URL(request.url).searchParams
+    const attempt = Math.max(1, parseInt(searchParams.get('attempt') || '1') || 1)
+    // Set by the incoming route, so the menu works even if CallSid doesn't match
+    const callId = searchParams.get('callId')
+
+    console.log('\n🔑 KEY PARAMETERS:')
+    console.log(`  To: ${to}`)
+    console.log(`  From: ${from}`)
+    console.log(`  CallSid: ${callSid}`)
+    console.log(`  Digits: ${digits || 'none'}`)
+    console.log(`  SpeechResult: ${speech || 'none'}`)
+    console.log(`  Attempt: ${attempt}`)
+
+    if (!to) {
+      console.error('❌ Missing To parameter!')
+      return generateErrorTwiML('An error occurred.')
+    }
+
+    const { data: phoneNumber, error: phoneError } = await supabase
+      .from('phone_numbers')
+      .select('agents(id, name, organization_id, rules)')
+      .eq('phone_number', to)
+      .single()
+
+    const agent = phoneNumber?.agents as unknown as {
+      id: string
+      name: string
+      organization_id: string
+      rules: AgentRules | null
+    } | null
+
+    if (phoneError || !agent) {
+      console.error('❌ Database error or no agent found:', phoneError)
+      return generateErrorTwiML('This phone number is not configured.')
+    }
+
+    const mismatch = await rejectOrganizationMismatch(request, validation, agent.organization_id, { to })
+    if (mismatch) {
+      return mismatch
+    }
+
+    const rules = agent.rules
+    const menu = rules?.ivrMenu
+
+    const callRecord = callId
+      ? await findCallRecord({ callId })
+      : await findCallRecord({
+          twilioCallSid: callSid,
+          agentId: agent.id,
+          callerPhoneNumber: from,
+        })
+
+    if (callRecord) {
+      const callMismatch = await rejectOrganizationMismatch(request, validation, callRecord.organization_id, { callId: callRecord.id })
+      if (callMismatch) {
+        return callMismatch
+      }
+    } else {
+      console.warn('⚠️ Call record not found - menu selection will not be recorded, and options connect to the agent')
+    }
+
+    // The menu was switched off mid-call - just connect to the agent
+    if (!menu) {
+      console.log('  ℹ️  No menu configured - routing to agent')
+      return new Response(generateAgentTwiML(to, callRecord?.id ?? null), {
+        headers: { 'Content-Type': 'text/xml' }
+      })
+    }
+
+    const option = matchMenuOption(menu, { digits, speech })
+    const hadInput = !!(digits || speech)
+
+    // Unrecognised input gets another go while attempts remain
+    if (!option && hadInput && attempt < menu.maxAttempts) {
+      console.log(`  ❓ Input not recognised - replaying menu (attempt ${attempt + 1}/${menu.maxAttempts})`)
+
+      if (callRecord) {
+        await saveAgentEvent({
+          callId: callRecord.id,
+          eventType: 'ivr_menu_presented',
+          eventData: {
+            attempt: attempt + 1,
+            optionCount: menu.options.length,
+            previousInput: digits || speech,
+          },
+        })
+      }
+
+      return new Response(generateMenuTwiML(menu, attempt + 1, callRecord?.id ?? null), {
+        headers: { 'Content-Type': 'text/xml' }
+      })
+    }
+
+    const action: IvrMenuAction = option?.action ?? menu.defaultAction
+    console.log(option
+      ? `  ✅ Selected "${option.label}" (${option.digit}) → ${action.type}`
+      : `  ⏱️  ${hadInput ? 'No match' : 'No input'} - using default action → ${action.type}`)
+
+    if (callRecord) {
+      await saveAgentEvent({
+        callId: callRecord.id,
+        eventType: 'ivr_option_selected',
+        eventData: {
+          attempt,
+          input: digits ? 'dtmf' : speech ? 'speech' : 'none',
+          digits,
+          speech,
+          optionId: option?.id ?? null,
+          label: option?.label ?? null,
+          defaulted: !option,
+          reason: option ? 'selected' : hadInput ? 'no_match' : 'timeout',
+          action,
+        },
+      })
+    }
+
+    // Transfers and voicemails are tracked against the call record, so without one the agent takes the call
+    let twimlResponse: string | null = null
+
+    if (action.type === 'transfer' && callRecord) {
+      // A ring group that has been deleted or emptied falls back to the number, then the agent
+      twimlResponse = await transferToTeam(supabase, {
+        callId: callRecord.id,
+        organizationId: agent.organization_id,
+        rules,
+        transferNumber: action.phoneNumber || null,
+        ringGroupId: action.ringGroupId || null,
+        eventData: { ivrOptionId: option?.id ?? null },
+      })
+    } else if (action.type === 'voicemail' && callRecord) {
+      twimlResponse = generateVoicemailTwiML(rules?.voicemail, callRecord.id)
+    }
+
+    if (!twimlResponse) {
+      let routedAgentId = agent.id
+
+      // Another agent in the same organization takes the call
+      if (action.agentId && action.agentId !== agent.id) {
+        const { data: targetAgent } = await supabase
+          .from('agents')
+          .select('id, name, published_version_id')
+          .eq('id', action.agentId)
+          .eq('organization_id', agent.organization_id)
+          .maybeSingle()
+
+        if (targetAgent && callRecord) {
+          routedAgentId = targetAgent.id
+          console.log(`  🤖 Routing to agent ${targetAgent.name} (${targetAgent.id})`)
+
+          await supabase
+            .from('calls')
+            .update({
+              agent_id: targetAgent.id,
+              config: { configurationVersionId: targetAgent.published_version_id ?? null },
+            })
+            .eq('id', callRecord.id)
+        } else {
+          console.warn(`⚠️ Agent ${action.agentId} not found - routing to ${agent.name}`)
+        }
+      }
+
+      if (callRecord) {
+        await supabase
+          .from('calls')
+          .update({ status: 'connected_to_agent' })
+          .eq('id', callRecord.id)
+
+        await saveAgentEvent({
+          callId: callRecord.id,
+          eventType: 'routed_to_agent',
+          eventData: {
+            direct: false,
+            agentId: routedAgentId,
+            ivrOptionId: option?.id ?? null,
+          },
+        })
+      }
+
+      twimlResponse = generateAgentTwiML(to, callRecord?.id ?? null)
+    }
+
+    console.log('\n📤 TWIML RESPONSE:')
+    console.log(twimlResponse)
+    console.log('='.repeat(80))
+
+    return new Response(twimlResponse, {
+      headers: { 'Content-Type': 'text/xml' }
+    })
+  } catch (error) {
+    console.error('\n❌ ERROR IN IVR MENU CALLBACK:')
+    console.error(error)
+    console.log('='.repeat(80))
+
+    return generateErrorTwiML('An error occurred. Please try again later.')
+  }
+}
@@ -1,9 +1,44 @@
 // /api/calls/refer-handler/route.ts
 import { NextResponse } from 'next/server'
 import { findCallRecord, saveAgentEvent } from '@/lib/calls'
+import { getAgentTools } from '@/lib/agent-tools'
+import { normalizePhoneNumber } from '@/lib/outbound-calls'
+import { createServiceClient } from '@/lib/supabase/server'
+import { dialRingGroup, getRingGroup } from '@/lib/ring-groups'
+import { rejectOrganizationMismatch, validateTwilioWebhook } from '@/lib/twilio/webhook'
+
+/**
+ * What the transfer_call tool for this number does when no one answers,
+ * and the ring group it rings instead of the number (if any)
+ */
+async function getTransferSettings(
+  agentId: string,
+  phoneNumber: string
+): Promise<{ fallback: 'agent' | 'voicemail'; ringGroupId: string | null }> {
+  const result = await getAgentTools(agentId)
+  const tool = (result.tools || []).find((t) => {
+    const target = t.staticConfig?.target as { type?: string; phoneNumber?: string } | undefined
+    return t.type === 'transfer_call' &&
+      target?.type === 'number' &&
+      !!target.phoneNumber &&
+      normalizePhoneNumber(target.phoneNumber) === normalizePhoneNumber(phoneNumber)
+  })
+
+  const target = tool?.staticConfig?.target as { ringGroupId?: string } | undefined
+  return {
+    fallback: tool?.staticConfig?.fallback === 'voicemail' ? 'voicemail' : 'agent',
+    ringGroupId: target?.ringGroupId || null,
+  }
+}
 
 export async function POST(request: Request) {
   try {
+    // Reject requests that weren't signed by Twilio
+    const validation = await validateTwilioWebhook(request)
+    if (!validation.valid) {
+      return validation.response
+    }
+
     const formData = await request.formData()
     
     // Log all parameters
@@ -25,6 +60,11 @@ export async function POST(request: Request) {
     
     if (callRecord) {
       console.log(`✅ Found call record: ${callRecord.id}`)
+
+      const mismatch = await rejectOrganizationMismatch(request, validation, callRecord.organization_id, { callId: callRecord.id })
+      if (mismatch) {
+        return mismatch
+      }
     } else {
       console.warn('⚠️ Could not find call record, but proceeding with transfer')
     }
@@ -53,8 +93,39 @@ export async function POST(request: Request) {
       })
     }
     
-    // Build callback URL with the original 'To' parameter for fallback
-    const callbackUrl = `${process.env.NEXT_PUBLIC_APP_URL}/api/calls/incoming/transfer-no-answer`
+    // The transfer tool decides whether an unanswered transfer goes back to the agent or to voicemail,
+    // and whether the number is the first member of a ring group to call instead
+    const { fallback, ringGroupId } = callRecord
+      ? await getTransferSettings(callRecord.agent_id, phoneNumber)
+      : { fallback: 'agent' as const, ringGroupId: null }
+    console.log(`📞 No-answer fallback: ${fallback}`)
+
+    const ringGroup = callRecord && ringGroupId
+      ? await getRingGroup(await createServiceClient(), callRecord.organization_id, ringGroupId)
+      : null
+
+    if (callRecord && ringGroup && ringGroup.members.length > 0) {
+      const query = new URLSearchParams({ ringGroupId: ringGroup.id })
+      if (fallback === 'voicemail') query.set('fallback', 'voicemail')
+
+      const twiml = await dialRingGroup(ringGroup, 0, {
+        callId: callRecord.id,
+        source: 'transfer_tool',
+        finalAction: `${process.env.NEXT_PUBLIC_APP_URL}/api/calls/incoming/transfer-no-answer?${query.toString()}`,
+      })
+
+      console.log('📤 Returning TwiML:', twiml)
+
+      return new Response(twiml, {
+        headers: { 'Content-Type': 'text/xml' }
+      })
+    }
+
+    if (ringGroupId) {
+      console.warn(`⚠️ Ring group ${ringGroupId} not found or has no members, dialling ${phoneNumber}`)
+    }
+
+    const callbackUrl = `${process.env.NEXT_PUBLIC_APP_URL}/api/calls/incoming/transfer-no-answer${fallback === 'voicemail' ? '?fallback=voicemail' : ''}`
     
     // Return TwiML to dial the transfer target
     const twiml = `<?xml version="1.0" encoding="UTF-8"?>
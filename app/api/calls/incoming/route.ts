@@ -1,7 +1,19 @@
 import { NextResponse } from 'next/server'
 import { createServiceClient } from '@/lib/supabase/server'
-import type { AgentRules, DayOfWeek } from '@/types/agent-rules'
+import type { AgentRules } from '@/types/agent-rules'
 import type { SupabaseClient } from '@supabase/supabase-js'
+import { getBusinessHoursStatus, type ActiveHoliday } from '@/lib/business-hours'
+import { rejectOrganizationMismatch, validateTwilioWebhook } from '@/lib/twilio/webhook'
+import {
+  callerProfileToVariables,
+  getCallerLookupSettings,
+  lookupCaller,
+  matchCallerRoute,
+  type CallerRoute,
+} from '@/lib/caller-lookup'
+import { generateRejectTwiML, screenCaller, type ScreeningResult } from '@/lib/call-screening'
+import { generateMenuTwiML, isMenuActive } from '@/lib/ivr-menu'
+import { transferToTeam } from '@/lib/team-transfer'
 
 // ============================================
 // Types
@@ -17,43 +29,24 @@ interface AgentData {
   id: string
   name: string
   rules: AgentRules | null
+  publishedVersionId: string | null
 }
 
 interface RoutingDecision {
   shouldTransfer: boolean
   transferNumber: string | null
-  timeout: number
-  enableFallback: boolean
+  ringGroupId: string | null
+  holiday: ActiveHoliday | null
+  callerRoute: CallerRoute | null
+  blocked: boolean
+  screening: ScreeningResult | null
+  playMenu: boolean
 }
 
 // ============================================
 // Helper Functions
 // ============================================
 
-/**
- * Check if current time is within a schedule
- */
-function isWithinSchedule(schedule: AgentRules['timeBasedRouting']['schedules'][0]): boolean {
-  const now = new Date()
-  const dayNames: DayOfWeek[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
-  const currentDay = dayNames[now.getDay()]
-  
-  // Check if current day is in schedule
-  if (!schedule.days.includes(currentDay)) {
-    return false
-  }
-  
-  // Parse schedule times
-  const [startHour, startMin] = schedule.startTime.split(':').map(Number)
-  const [endHour, endMin] = schedule.endTime.split(':').map(Number)
-  
-  const currentMinutes = now.getHours() * 60 + now.getMinutes()
-  const startMinutes = startHour * 60 + startMin
-  const endMinutes = endHour * 60 + endMin
-  
-  return currentMinutes >= startMinutes && currentMinutes < endMinutes
-}
-
 /**
  * Extract call parameters from Twilio webhook
  */
@@ -94,7 +87,7 @@ async function lookupAgent(
   
   const { data, error } = await supabase
     .from('phone_numbers')
-    .select('*, agents(id, name, rules)')
+    .select('*, agents(id, name, rules, published_version_id)')
     .eq('phone_number', phoneNumber)
     .single()
 
@@ -130,87 +123,181 @@ async function lookupAgent(
   return {
     id: agent.id,
     name: agent.name,
-    rules
+    rules,
+    publishedVersionId: agent.published_version_id ?? null
+  }
+}
+
+/**
+ * Look the caller up in the organization's CRM, if a lookup is configured
+ * Stores the caller's details as context variables and logs caller_identified.
+ * A slow or failing lookup is logged and the call is routed as usual.
+ *
+ * @returns Where the caller should be sent straight away, if anywhere
+ */
+async function identifyCaller(
+  supabase: SupabaseClient,
+  params: TwilioCallParams,
+  agentId: string,
+  organizationId: string,
+  callId: string
+): Promise<CallerRoute | null> {
+  if (!params.from) {
+    return null
+  }
+
+  const settings = await getCallerLookupSettings(supabase, organizationId)
+  if (!settings?.enabled) {
+    return null
+  }
+
+  console.log('\n🔎 CALLER LOOKUP:')
+  console.log(`  Source: ${settings.source}`)
+  console.log(`  Timeout: ${settings.timeout_ms}ms`)
+
+  const lookup = await lookupCaller(supabase, {
+    settings,
+    organizationId,
+    callerNumber: params.from,
+    calledNumber: params.to,
+    agentId,
+    callId,
+  })
+
+  if (!lookup.success) {
+    console.warn(`  ⚠️  Lookup failed after ${lookup.durationMs}ms: ${lookup.error} - routing without caller details`)
+    return null
+  }
+
+  if (!lookup.profile) {
+    console.log(`  ℹ️  Caller not found (${lookup.durationMs}ms)`)
+    return null
+  }
+
+  const profile = lookup.profile
+  const route = matchCallerRoute(profile, settings.routing_rules)
+  console.log(`  ✅ Identified ${profile.name || 'caller'} in ${lookup.durationMs}ms`)
+  console.log(`  🏷️  Tags: ${profile.tags.join(', ') || 'none'}`)
+  if (route) {
+    console.log(`  ⭐ Caller route: ${route.transferTo}${route.tag ? ` (tag "${route.tag}")` : ' (chosen by CRM)'}`)
   }
+
+  await supabase
+    .from('calls')
+    .update({ context_variables: callerProfileToVariables(profile) })
+    .eq('id', callId)
+
+  await supabase
+    .from('agent_events')
+    .insert({
+      call_id: callId,
+      event_type: 'caller_identified',
+      time: new Date().toISOString(),
+      data: {
+        source: settings.source,
+        name: profile.name,
+        tags: profile.tags,
+        fields: profile.fields,
+        durationMs: lookup.durationMs,
+        ...(route && { route }),
+      },
+    })
+
+  return route
 }
 
 /**
  * Determine routing decision based on agent rules
+ * Call screening (block / always-transfer / always-agent lists and spam
+ * detection) is applied first, then a caller route from the CRM lookup, then
+ * holidays and business hours, then the IVR menu, then the open schedule's
+ * transfer. A closed business goes straight to the agent, menu or not.
  */
-function determineRouting(rules: AgentRules | null): RoutingDecision {
+function determineRouting(
+  rules: AgentRules | null,
+  callerRoute: CallerRoute | null = null,
+  screening: ScreeningResult | null = null
+): RoutingDecision {
   console.log('\n📞 APPLYING ROUTING RULES:')
   
   const decision: RoutingDecision = {
     shouldTransfer: false,
     transferNumber: null,
-    timeout: 30,
-    enableFallback: false
+    ringGroupId: null,
+    holiday: null,
+    callerRoute: null,
+    blocked: false,
+    screening,
+    playMenu: false
   }
   
-  // Check if time-based routing is enabled
-  if (!rules?.timeBasedRouting?.enabled || rules.timeBasedRouting.schedules.length === 0) {
-    console.log('  ℹ️  Time-based routing is DISABLED - routing directly to agent')
+  if (screening?.action === 'block') {
+    decision.blocked = true
+    console.log(screening.reason === 'spam'
+      ? `  🚫 Spam detected - ${screening.recentCallCount} calls in the last ${screening.settings?.spam_window_minutes} minutes`
+      : `  🚫 Caller matches blocklist pattern ${screening.entry?.pattern}`)
     return decision
   }
-  
-  console.log('  ✅ Time-based routing is ENABLED')
-  
-  // Check each schedule to see if we're within business hours
-  for (const schedule of rules.timeBasedRouting.schedules) {
-    if (isWithinSchedule(schedule)) {
-      decision.shouldTransfer = true
-      decision.transferNumber = schedule.transferTo
-      console.log(`  ✅ Within schedule: ${schedule.days.join(', ')} ${schedule.startTime}-${schedule.endTime}`)
-      console.log(`  📞 Will transfer to: ${decision.transferNumber}`)
-      break
-    }
+
+  if (screening?.action === 'transfer' && screening.entry?.transfer_to) {
+    decision.shouldTransfer = true
+    decision.transferNumber = screening.entry.transfer_to
+    console.log(`  ✅ Caller matches always-transfer pattern ${screening.entry.pattern} - will transfer to: ${decision.transferNumber}`)
+    return decision
   }
-  
-  if (!decision.shouldTransfer) {
+
+  if (screening?.action === 'agent') {
+    console.log(`  ✅ Caller matches always-agent pattern ${screening.entry?.pattern} - routing to agent`)
+    return decision
+  }
+
+  if (callerRoute) {
+    decision.shouldTransfer = true
+    decision.transferNumber = callerRoute.transferTo
+    decision.callerRoute = callerRoute
+    console.log(`  ⭐ Caller route - will transfer to: ${decision.transferNumber}`)
+    return decision
+  }
+
+  // Evaluate schedules and holiday calendars in the agent's timezone
+  const status = getBusinessHoursStatus(rules)
+
+  if (status.reason !== 'routing_disabled') {
+    console.log('  ✅ Time-based routing is ENABLED')
+    console.log(`  🌍 Timezone: ${status.timezone} (local time ${status.localTime})`)
+  }
+
+  if (status.holiday) {
+    decision.holiday = status.holiday
+    console.log(`  🎌 Closed for ${status.holiday.label} (${status.holiday.calendarName}) - routing to agent`)
+    return decision
+  }
+
+  if (status.reason === 'outside_schedules') {
     console.log('  ⏰ Outside business hours - routing to agent')
     return decision
   }
-  
-  // Check if agent fallback is enabled
-  if (rules.agentFallback?.enabled) {
-    decision.enableFallback = true
-    decision.timeout = rules.agentFallback.timeoutSeconds
-    console.log(`  ⏱️  Agent fallback ENABLED - will route to agent if no answer after ${decision.timeout}s`)
-  } else {
-    console.log('  ℹ️  Agent fallback DISABLED - call will ring until answered or caller hangs up')
+
+  // While open, the menu's options decide between the team, other agents and voicemail
+  if (isMenuActive(rules?.ivrMenu)) {
+    decision.playMenu = true
+    console.log(`  📋 IVR menu ENABLED - playing menu with ${rules.ivrMenu.options.length} options`)
+    return decision
   }
-  
-  return decision
-}
 
-/**
- * Generate TwiML for transferring to a phone number
- */
-function generateTransferTwiML(transferNumber: string, timeout: number, enableFallback: boolean): string {
-  const callbackUrl = `${process.env.NEXT_PUBLIC_APP_URL}/api/calls/incoming/callback`
-  
-  console.log('\n📞 GENERATING TWIML:')
-  console.log(`  Action: TRANSFER`)
-  console.log(`  Transfer to: ${transferNumber}`)
-  console.log(`  Timeout: ${timeout}s`)
-  
-  if (enableFallback) {
-    console.log(`  Callback URL: ${callbackUrl}`)
-    return `<?xml version="1.0" encoding="UTF-8"?>
-<Response>
-  <Dial action="${callbackUrl}" timeout="${timeout}">
-    <Number>${transferNumber}</Number>
-  </Dial>
-</Response>`
-  } else {
-    console.log(`  No callback - will ring until answered or caller hangs up`)
-    return `<?xml version="1.0" encoding="UTF-8"?>
-<Response>
-  <Dial timeout="${timeout}">
-    <Number>${transferNumber}</Number>
-  </Dial>
-</Response>`
+  if (!status.activeSchedule) {
+    console.log('  ℹ️  Time-based routing is DISABLED - routing directly to agent')
+    return decision
   }
+
+  const schedule = status.activeSchedule
+  decision.shouldTransfer = true
+  decision.transferNumber = schedule.transferTo || null
+  decision.ringGroupId = schedule.ringGroupId || null
+  console.log(`  ✅ Within schedule: ${schedule.days.join(', ')} ${schedule.startTime}-${schedule.endTime}`)
+  console.log(`  📞 Will transfer to: ${decision.ringGroupId ? `ring group ${decision.ringGroupId}` : decision.transferNumber}`)
+
+  return decision
 }
 
 /**
@@ -263,6 +350,12 @@ function generateErrorTwiML(message: string): Response {
 
 export async function POST(request: Request) {
   try {
+    // Reject requests that weren't signed by Twilio
+    const validation = await validateTwilioWebhook(request)
+    if (!validation.valid) {
+      return validation.response
+    }
+
     const supabase = await createServiceClient()
     
     console.log('='.repeat(80))
@@ -302,6 +395,11 @@ export async function POST(request: Request) {
       return generateErrorTwiML('Service configuration error.')
     }
 
+    const mismatch = await rejectOrganizationMismatch(request, validation, agentData.organization_id, { to: params.to })
+    if (mismatch) {
+      return mismatch
+    }
+
     // Create call record in database (ALWAYS, regardless of routing)
     console.log('\n📝 CREATING CALL RECORD:')
     console.log(`  Agent ID: ${agent.id}`)
@@ -309,6 +407,7 @@ export async function POST(request: Request) {
     console.log(`  Caller Phone Number: ${params.from}`)
     console.log(`  Trunk Phone Number: ${params.to}`)
     console.log(`  Twilio Call SID: ${params.callSid}`)
+    console.log(`  Configuration Version ID: ${agent.publishedVersionId}`)
     
     const { data: callData, error: callError } = await supabase
       .from('calls')
@@ -319,6 +418,8 @@ export async function POST(request: Request) {
         trunk_phone_number: params.to,
         twilio_call_sid: params.callSid,
         status: 'incoming',
+        // Configuration version live when the call came in (the full snapshot is merged in on session_complete)
+        config: { configurationVersionId: agent.publishedVersionId },
       })
       .select('id')
       .single()
@@ -344,34 +445,81 @@ export async function POST(request: Request) {
         },
       })
 
+    // Screen the caller against the organization's lists and spam detection
+    const screening = await screenCaller(supabase, {
+      organizationId: agentData.organization_id,
+      callerNumber: params.from,
+      callId: callData.id,
+    })
+
+    // Identify the caller before routing (bounded by the lookup timeout) - not worth it for blocked callers
+    const callerRoute = screening.action === 'block'
+      ? null
+      : await identifyCaller(supabase, params, agent.id, agentData.organization_id, callData.id)
+
     // Determine routing based on rules
-    const routing = determineRouting(agent.rules)
+    const routing = determineRouting(agent.rules, callerRoute, screening)
+
+    // A schedule's ring group - if it's been deleted or emptied, its transferTo number (or the agent) is used
+    const teamTransferTwiML = routing.shouldTransfer
+      ? await transferToTeam(supabase, {
+          callId: callData.id,
+          organizationId: agentData.organization_id,
+          rules: agent.rules,
+          transferNumber: routing.transferNumber,
+          ringGroupId: routing.ringGroupId,
+          eventData: {
+            ...(routing.callerRoute && { callerRouteTag: routing.callerRoute.tag }),
+            ...(screening.entry && { screeningPattern: screening.entry.pattern }),
+          },
+        })
+      : null
     
     // Generate appropriate TwiML response
     let twimlResponse: string
     
-    if (routing.shouldTransfer && routing.transferNumber) {
-      // Update call status to transferred_to_team
+    if (routing.blocked) {
+      // Blocked calls keep their own status so they're left out of analytics
       await supabase
         .from('calls')
-        .update({ status: 'transferred_to_team' })
+        .update({ status: 'blocked', ended_at: new Date().toISOString(), duration_seconds: 0 })
         .eq('id', callData.id)
 
-      // Track the transfer event
       await supabase
         .from('agent_events')
         .insert({
           call_id: callData.id,
-          event_type: 'transferred_to_team',
+          event_type: 'call_blocked',
+          time: new Date().toISOString(),
+          data: {
+            reason: screening.reason,
+            rejectAction: screening.settings?.reject_action ?? 'reject',
+            ...(screening.entry && { entryId: screening.entry.id, pattern: screening.entry.pattern }),
+            ...(screening.reason === 'spam' && {
+              recentCallCount: screening.recentCallCount,
+              windowMinutes: screening.settings?.spam_window_minutes,
+            }),
+          },
+        })
+
+      twimlResponse = generateRejectTwiML(screening.settings)
+    } else if (routing.playMenu && agent.rules?.ivrMenu) {
+      // Status stays incoming until the caller picks an option (/api/calls/incoming/menu)
+      await supabase
+        .from('agent_events')
+        .insert({
+          call_id: callData.id,
+          event_type: 'ivr_menu_presented',
           time: new Date().toISOString(),
           data: {
-            transferNumber: routing.transferNumber,
-            timeout: routing.timeout,
-            fallbackEnabled: routing.enableFallback,
+            attempt: 1,
+            optionCount: agent.rules.ivrMenu.options.length,
           },
         })
 
-      twimlResponse = generateTransferTwiML(routing.transferNumber, routing.timeout, routing.enableFallback)
+      twimlResponse = generateMenuTwiML(agent.rules.ivrMenu, 1, callData.id)
+    } else if (teamTransferTwiML) {
+      twimlResponse = teamTransferTwiML
     } else {
       // Update call status to connected_to_agent
       await supabase
@@ -388,6 +536,8 @@ export async function POST(request: Request) {
           time: new Date().toISOString(),
           data: {
             direct: true,
+            ...(routing.holiday && { holiday: routing.holiday }),
+            ...(screening.entry && { screeningPattern: screening.entry.pattern }),
           },
         })
 
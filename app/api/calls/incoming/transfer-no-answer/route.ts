@@ -1,9 +1,19 @@
 // /api/calls/incoming/callback/route.ts
 import { NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
 import { findCallRecord, saveAgentEvent } from '@/lib/calls'
+import { rejectOrganizationMismatch, validateTwilioWebhook } from '@/lib/twilio/webhook'
+import { generateVoicemailTwiML } from '@/lib/voicemail'
+import type { AgentRules } from '@/types/agent-rules'
 
 export async function POST(request: Request) {
   try {
+    // Reject requests that weren't signed by Twilio
+    const validation = await validateTwilioWebhook(request)
+    if (!validation.valid) {
+      return validation.response
+    }
+
     const formData = await request.formData()
     
     // Log all parameters for debugging
@@ -14,9 +24,15 @@ export async function POST(request: Request) {
       console.log(`  ${key}: ${value}`)
     })
     
-    const dialCallStatus = formData.get('DialCallStatus') as string
+    const searchParams = new URL(request.url).searchParams
+    // A ring group hunt that runs out of members redirects here with the status in the query
+    const dialCallStatus = (formData.get('DialCallStatus') || searchParams.get('DialCallStatus')) as string
     const callSid = formData.get('CallSid') as string
     const to = formData.get('To') as string
+    // Set by the refer handler when the transfer tool takes a voicemail instead of reconnecting
+    const fallback = searchParams.get('fallback') === 'voicemail' ? 'voicemail' : 'agent'
+    // Set by the refer handler when the transfer rang a ring group
+    const ringGroupId = searchParams.get('ringGroupId')
     
     // Find the call record
     const callRecord = await findCallRecord({
@@ -25,6 +41,11 @@ export async function POST(request: Request) {
     
     if (callRecord) {
       console.log(`✅ Found call record: ${callRecord.id}`)
+
+      const mismatch = await rejectOrganizationMismatch(request, validation, callRecord.organization_id, { callId: callRecord.id })
+      if (mismatch) {
+        return mismatch
+      }
     } else {
       console.warn('⚠️ Could not find call record, but proceeding with callback handling')
     }
@@ -52,6 +73,8 @@ export async function POST(request: Request) {
             eventData: {
               dialCallStatus,
               transferTarget: to,
+              fallbackAction: fallback,
+              ...(ringGroupId && { ringGroupId }),
             },
           })
         } else {
@@ -65,6 +88,22 @@ export async function POST(request: Request) {
           })
         }
 
+        if (fallback === 'voicemail') {
+          console.log('📼 Taking a voicemail instead of reconnecting')
+
+          const supabase = await createServiceClient()
+          const { data: agent } = await supabase
+            .from('agents')
+            .select('rules')
+            .eq('id', callRecord.agent_id)
+            .single()
+
+          return new Response(
+            generateVoicemailTwiML((agent?.rules as AgentRules | null)?.voicemail, callRecord.id),
+            { headers: { 'Content-Type': 'text/xml' } }
+          )
+        }
+
         // Save reconnection event
         await saveAgentEvent({
           callId: callRecord.id,
@@ -96,8 +135,8 @@ export async function POST(request: Request) {
     // Transfer succeeded or call completed normally
     console.log('✅ Transfer completed or call ended normally')
     
-    // Save transfer success event
-    if (callRecord) {
+    // Save transfer success event (ring groups record it, with who answered, when the member picks up)
+    if (callRecord && !ringGroupId) {
       await saveAgentEvent({
         callId: callRecord.id,
         eventType: 'transfer_success',
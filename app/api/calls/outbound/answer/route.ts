@@ -0,0 +1,121 @@
+import { createServiceClient } from '@/lib/supabase/server'
+import { saveAgentEvent } from '@/lib/calls'
+import { recordCampaignCallOutcome } from '@/lib/campaigns'
+import { rejectOrganizationMismatch, validateTwilioWebhook } from '@/lib/twilio/webhook'
+
+/**
+ * Generate hangup TwiML for an outbound call that can't be connected
+ */
+function generateHangupTwiML(): Response {
+  return new Response(
+    `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Hangup/>
+</Response>`,
+    { headers: { 'Content-Type': 'text/xml' } }
+  )
+}
+
+/**
+ * Twilio fetches this when the callee answers an outbound call (placed by
+ * lib/outbound-calls.ts). Bridges the call into the LiveKit SIP endpoint the
+ * same way inbound calls are, passing the call ID as a SIP header so the agent
+ * worker can load the call's context variables and report events against it.
+ */
+export async function POST(request: Request) {
+  try {
+    // Reject requests that weren't signed by Twilio
+    const validation = await validateTwilioWebhook(request)
+    if (!validation.valid) {
+      return validation.response
+    }
+
+    console.log('='.repeat(80))
+    console.log('OUTBOUND CALL ANSWERED')
+    console.log('='.repeat(80))
+
+    const callId = new URL(request.url).searchParams.get('callId')
+    const callSid = validation.params.CallSid
+    const answeredBy = validation.params.AnsweredBy
+
+    console.log(`  Call ID: ${callId}`)
+    console.log(`  CallSid: ${callSid}`)
+
+    if (!callId) {
+      console.error('❌ Missing callId parameter!')
+      return generateHangupTwiML()
+    }
+
+    const supabase = await createServiceClient()
+
+    const { data: call, error } = await supabase
+      .from('calls')
+      .select('id, organization_id, direction, status, twilio_call_sid, caller_phone_number, trunk_phone_number')
+      .eq('id', callId)
+      .single()
+
+    if (error || !call || call.direction !== 'outbound') {
+      console.error('❌ Outbound call record not found:', error)
+      return generateHangupTwiML()
+    }
+
+    const mismatch = await rejectOrganizationMismatch(request, validation, call.organization_id, { callId })
+    if (mismatch) {
+      return mismatch
+    }
+
+    // twilio_call_sid may not be saved yet if the callee answered very quickly
+    if (call.twilio_call_sid && call.twilio_call_sid !== callSid) {
+      console.error(`❌ CallSid mismatch: expected ${call.twilio_call_sid}, got ${callSid}`)
+      return generateHangupTwiML()
+    }
+
+    const livekitSipEndpoint = process.env.LIVEKIT_SIP_ENDPOINT
+
+    if (!livekitSipEndpoint) {
+      throw new Error('LiveKit SIP endpoint not configured')
+    }
+
+    await supabase
+      .from('calls')
+      .update({ status: 'connected_to_agent', twilio_call_sid: callSid })
+      .eq('id', call.id)
+
+    await saveAgentEvent({
+      callId: call.id,
+      eventType: 'outbound_call_answered',
+      eventData: {
+        callSid,
+        ...(answeredBy && { answeredBy }),
+      },
+    })
+
+    await recordCampaignCallOutcome(supabase, call.id, 'answered')
+
+    // Dial the organization's number on the SIP trunk so the worker resolves the
+    // agent exactly as it does for inbound calls. callerId is the callee, so the
+    // worker sees the other party as the caller in both directions.
+    const sipUri = `sip:${call.trunk_phone_number}@${livekitSipEndpoint}?X-Call-Id=${call.id}&amp;X-Call-Direction=outbound`
+    console.log(`  SIP URI: ${sipUri}`)
+
+    const twiml = `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Dial callerId="${call.caller_phone_number}" referUrl="${process.env.NEXT_PUBLIC_APP_URL}/api/calls/incoming/refer">
+    <Sip>
+      ${sipUri}
+    </Sip>
+  </Dial>
+</Response>`
+
+    console.log('\n📤 TWIML RESPONSE:')
+    console.log(twiml)
+    console.log('='.repeat(80))
+
+    return new Response(twiml, {
+      headers: { 'Content-Type': 'text/xml' }
+    })
+  } catch (error) {
+    console.error('❌ Error in outbound answer handler:', error)
+    return generateHangupTwiML()
+  }
+}
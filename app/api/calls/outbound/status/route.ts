@@ -0,0 +1,98 @@
+import { NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { saveAgentEvent } from '@/lib/calls'
+import { recordCampaignCallOutcome } from '@/lib/campaigns'
+import { rejectOrganizationMismatch, validateTwilioWebhook } from '@/lib/twilio/webhook'
+
+// Twilio CallStatus values that mean the callee never answered
+const UNANSWERED_STATUSES = ['busy', 'no-answer', 'failed', 'canceled']
+
+/**
+ * Twilio status callback for outbound calls (initiated / ringing / answered / completed)
+ *
+ * Marks the call as failed if it was never answered. Answered calls are
+ * completed by the agent worker's session_complete event as usual.
+ * Campaign calls also update their contact (completed, retry or failed).
+ */
+export async function POST(request: Request) {
+  try {
+    // Reject requests that weren't signed by Twilio
+    const validation = await validateTwilioWebhook(request)
+    if (!validation.valid) {
+      return validation.response
+    }
+
+    const callId = new URL(request.url).searchParams.get('callId')
+    const callStatus = validation.params.CallStatus
+    const callSid = validation.params.CallSid
+
+    console.log(`\n📞 OUTBOUND STATUS: ${callStatus} (call ${callId}, CallSid ${callSid})`)
+
+    if (!callId) {
+      return NextResponse.json({ error: 'callId is required' }, { status: 400 })
+    }
+
+    const supabase = await createServiceClient()
+
+    const { data: call } = await supabase
+      .from('calls')
+      .select('organization_id')
+      .eq('id', callId)
+      .maybeSingle()
+
+    if (!call) {
+      return NextResponse.json({ error: 'Call not found' }, { status: 404 })
+    }
+
+    const mismatch = await rejectOrganizationMismatch(request, validation, call.organization_id, { callId })
+    if (mismatch) {
+      return mismatch
+    }
+
+    if (callStatus === 'completed') {
+      await recordCampaignCallOutcome(supabase, callId, 'completed')
+      return NextResponse.json({ received: true })
+    }
+
+    if (!UNANSWERED_STATUSES.includes(callStatus)) {
+      return NextResponse.json({ received: true })
+    }
+
+    // Only calls still dialing - an answered call's status belongs to the agent session
+    const { data: failedCalls, error } = await supabase
+      .from('calls')
+      .update({
+        status: 'failed',
+        ended_at: new Date().toISOString(),
+        duration_seconds: 0,
+      })
+      .eq('id', callId)
+      .eq('direction', 'outbound')
+      .eq('status', 'dialing')
+      .select('id')
+
+    if (error) {
+      console.error('❌ Failed to update outbound call status:', error)
+      return NextResponse.json({ error: 'Failed to update call' }, { status: 500 })
+    }
+
+    if (failedCalls && failedCalls.length > 0) {
+      await saveAgentEvent({
+        callId,
+        eventType: 'outbound_call_failed',
+        eventData: {
+          callSid,
+          reason: callStatus,
+        },
+      })
+      console.log(`  ❌ Outbound call not answered (${callStatus})`)
+
+      await recordCampaignCallOutcome(supabase, callId, callStatus)
+    }
+
+    return NextResponse.json({ received: true })
+  } catch (error) {
+    console.error('❌ Error in outbound status callback:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { findCallRecord, saveAgentEvent } from '@/lib/calls'
+import { getRingGroup } from '@/lib/ring-groups'
+import { rejectOrganizationMismatch, validateTwilioWebhook } from '@/lib/twilio/webhook'
+
+// Empty TwiML - the answering member is bridged to the caller straight away
+const CONNECT_TWIML = `<?xml version="1.0" encoding="UTF-8"?>
+<Response/>`
+
+/**
+ * <Number url> hook for ring group members
+ * Runs on the member's leg once they pick up, and records who answered on a
+ * transfer_success event
+ */
+export async function POST(request: Request) {
+  try {
+    // Reject requests that weren't signed by Twilio
+    const validation = await validateTwilioWebhook(request)
+    if (!validation.valid) {
+      return validation.response
+    }
+
+    const searchParams = new URL(request.url).searchParams
+    const callId = searchParams.get('callId')
+    const ringGroupId = searchParams.get('ringGroupId')
+    const memberId = searchParams.get('memberId')
+    const source = searchParams.get('source')
+
+    const formData = await request.formData()
+    const answeredNumber = formData.get('To') as string
+
+    console.log('\n📞 RING GROUP MEMBER ANSWERED:')
+    console.log(`  Call ID: ${callId}`)
+    console.log(`  Ring group: ${ringGroupId}`)
+    console.log(`  Member: ${memberId} (${answeredNumber})`)
+
+    const callRecord = callId ? await findCallRecord({ callId }) : null
+    if (!callRecord || !ringGroupId || !memberId) {
+      console.warn('⚠️ Could not find call record, connecting without recording the answer')
+      return new Response(CONNECT_TWIML, { headers: { 'Content-Type': 'text/xml' } })
+    }
+
+    const mismatch = await rejectOrganizationMismatch(request, validation, callRecord.organization_id, { callId })
+    if (mismatch) {
+      return mismatch
+    }
+
+    const supabase = await createServiceClient()
+    const group = await getRingGroup(supabase, callRecord.organization_id, ringGroupId)
+    const member = group?.members.find((m) => m.id === memberId)
+
+    await saveAgentEvent({
+      callId: callRecord.id,
+      eventType: 'transfer_success',
+      eventData: {
+        dialCallStatus: 'answered',
+        transferTarget: member?.phoneNumber ?? answeredNumber,
+        ringGroupId,
+        ringGroupName: group?.name ?? null,
+        strategy: group?.strategy ?? null,
+        source,
+        answeredBy: {
+          memberId,
+          phoneNumber: member?.phoneNumber ?? answeredNumber,
+          label: member?.label ?? answeredNumber,
+        },
+      },
+    })
+
+    return new Response(CONNECT_TWIML, { headers: { 'Content-Type': 'text/xml' } })
+  } catch (error) {
+    // Never stop the member being connected because the event couldn't be saved
+    console.error('❌ Error in ring group answered hook:', error)
+    return new Response(CONNECT_TWIML, { headers: { 'Content-Type': 'text/xml' } })
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Ring group answered endpoint',
+    note: 'This endpoint accepts POST requests from Twilio when a ring group member picks up'
+  })
+}
@@ -0,0 +1,120 @@
+import { NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { findCallRecord } from '@/lib/calls'
+import { dialRingGroup, getRingGroup, type RingGroupSource } from '@/lib/ring-groups'
+import { escapeXml } from '@/lib/twilio/twiml'
+import { rejectOrganizationMismatch, validateTwilioWebhook } from '@/lib/twilio/webhook'
+
+/**
+ * Continue the hunt once every member has been tried (or the group has gone)
+ * Hands over to the transfer's own no-answer handling, with the Dial status
+ * in the query since a <Redirect> doesn't carry it
+ */
+function generateExhaustedTwiML(finalAction: string | null, dialCallStatus: string): string {
+  if (!finalAction) {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Hangup/>
+</Response>`
+  }
+
+  const url = new URL(finalAction)
+  url.searchParams.set('DialCallStatus', dialCallStatus)
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Redirect method="POST">${escapeXml(url.toString())}</Redirect>
+</Response>`
+}
+
+/**
+ * Dial action for sequential ring groups
+ * Rings the next member when the current one doesn't answer
+ */
+export async function POST(request: Request) {
+  try {
+    // Reject requests that weren't signed by Twilio
+    const validation = await validateTwilioWebhook(request)
+    if (!validation.valid) {
+      return validation.response
+    }
+
+    const searchParams = new URL(request.url).searchParams
+    const callId = searchParams.get('callId')
+    const ringGroupId = searchParams.get('ringGroupId')
+    const position = parseInt(searchParams.get('position') || '0') || 0
+    const source: RingGroupSource = searchParams.get('source') === 'transfer_tool' ? 'transfer_tool' : 'team'
+    const finalAction = searchParams.get('then')
+
+    const formData = await request.formData()
+    const dialCallStatus = formData.get('DialCallStatus') as string
+
+    console.log('\n📞 RING GROUP HUNT:')
+    console.log(`  Call ID: ${callId}`)
+    console.log(`  Ring group: ${ringGroupId}`)
+    console.log(`  Member ${position + 1}: ${dialCallStatus}`)
+
+    // Answered (and now finished) - the answer hook already recorded who picked up
+    if (dialCallStatus === 'completed') {
+      console.log('✅ Member answered - ending call')
+      return new Response(
+        `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Hangup/>
+</Response>`,
+        { headers: { 'Content-Type': 'text/xml' } }
+      )
+    }
+
+    const callRecord = callId ? await findCallRecord({ callId }) : null
+    if (callRecord) {
+      const mismatch = await rejectOrganizationMismatch(request, validation, callRecord.organization_id, { callId })
+      if (mismatch) {
+        return mismatch
+      }
+    }
+
+    const supabase = await createServiceClient()
+    const group = callRecord && ringGroupId
+      ? await getRingGroup(supabase, callRecord.organization_id, ringGroupId)
+      : null
+
+    const nextPosition = position + 1
+    if (!callRecord || !group || group.strategy !== 'sequential' || nextPosition >= group.members.length) {
+      console.log('⚠️ No more members to ring')
+      return new Response(generateExhaustedTwiML(finalAction, dialCallStatus), {
+        headers: { 'Content-Type': 'text/xml' }
+      })
+    }
+
+    const twiml = await dialRingGroup(group, nextPosition, {
+      callId: callRecord.id,
+      source,
+      finalAction,
+    })
+
+    console.log('📤 Returning TwiML:', twiml)
+
+    return new Response(twiml, {
+      headers: { 'Content-Type': 'text/xml' }
+    })
+  } catch (error) {
+    console.error('❌ Error in ring group hunt:', error)
+
+    return new Response(
+      `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Say>Sorry, no one is available to take your call.</Say>
+  <Hangup/>
+</Response>`,
+      { headers: { 'Content-Type': 'text/xml' } }
+    )
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Ring group hunt endpoint',
+    note: 'This endpoint accepts POST requests from Twilio dial callbacks for sequential ring groups'
+  })
+}
@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { findCallRecord } from '@/lib/calls'
+import { rejectOrganizationMismatch, validateTwilioWebhook } from '@/lib/twilio/webhook'
+import { queueVoicemailProcessing, RECORDING_SID_PATTERN } from '@/lib/voicemail'
+
+/**
+ * Voicemail recording status callback
+ *
+ * Twilio posts here once a voicemail recording has been processed. The call
+ * is completed and the recording queued for the process-voicemail task, which
+ * stores, transcribes and announces it (and saves the voicemail_left event).
+ * Only the RecordingSid is passed on - the task downloads it from Twilio's
+ * API with the called number's account, never from a URL in the request.
+ */
+export async function POST(request: Request) {
+  try {
+    // Reject requests that weren't signed by Twilio
+    const validation = await validateTwilioWebhook(request)
+    if (!validation.valid) {
+      return validation.response
+    }
+
+    const formData = await request.formData()
+    const callId = new URL(request.url).searchParams.get('callId')
+    const recordingSid = formData.get('RecordingSid') as string
+    const recordingStatus = formData.get('RecordingStatus') as string
+    const durationSeconds = parseInt((formData.get('RecordingDuration') as string) || '0') || 0
+
+    console.log('📼 Voicemail recording callback:', { callId, recordingSid, recordingStatus, durationSeconds })
+
+    if (!callId) {
+      return NextResponse.json({ error: 'Missing callId' }, { status: 400 })
+    }
+
+    const callRecord = await findCallRecord({ callId })
+    if (!callRecord) {
+      console.error(`❌ Call record not found for voicemail: ${callId}`)
+      return NextResponse.json({ error: 'Call not found' }, { status: 404 })
+    }
+
+    const mismatch = await rejectOrganizationMismatch(request, validation, callRecord.organization_id, { callId })
+    if (mismatch) {
+      return mismatch
+    }
+
+    if (recordingStatus !== 'completed') {
+      console.warn(`⚠️ Voicemail recording ${recordingSid} ${recordingStatus}`)
+      return NextResponse.json({ success: true })
+    }
+
+    if (!RECORDING_SID_PATTERN.test(recordingSid || '')) {
+      return NextResponse.json({ error: 'Invalid RecordingSid' }, { status: 400 })
+    }
+
+    const supabase = await createServiceClient()
+
+    if (!callRecord.ended_at) {
+      const endedAt = new Date()
+      await supabase
+        .from('calls')
+        .update({
+          status: 'completed',
+          ended_at: endedAt.toISOString(),
+          duration_seconds: Math.round((endedAt.getTime() - new Date(callRecord.created_at).getTime()) / 1000),
+        })
+        .eq('id', callRecord.id)
+    }
+
+    await queueVoicemailProcessing({
+      callId: callRecord.id,
+      recordingSid,
+      durationSeconds,
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in /api/calls/voicemail/recording POST:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
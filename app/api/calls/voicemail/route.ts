@@ -0,0 +1,30 @@
+import { validateTwilioWebhook } from '@/lib/twilio/webhook'
+
+/**
+ * Voicemail <Record> action
+ *
+ * Twilio posts here when the caller finishes recording (hangs up, presses a
+ * key or hits the max length). The recording itself is reported separately
+ * to /api/calls/voicemail/recording once it has been processed.
+ */
+export async function POST(request: Request) {
+  // Reject requests that weren't signed by Twilio
+  const validation = await validateTwilioWebhook(request)
+  if (!validation.valid) {
+    return validation.response
+  }
+
+  const formData = await request.formData()
+  const callId = new URL(request.url).searchParams.get('callId')
+
+  console.log(`📼 Voicemail recorded for call ${callId}: ${formData.get('RecordingDuration') || 0}s`)
+
+  return new Response(
+    `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Say>Thank you. Goodbye.</Say>
+  <Hangup/>
+</Response>`,
+    { headers: { 'Content-Type': 'text/xml' } }
+  )
+}
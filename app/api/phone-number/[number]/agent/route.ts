@@ -1,12 +1,19 @@
 import { createServiceClient } from "@/lib/supabase/server";
 import { NextResponse } from "next/server";
 import { getAgentTools } from "@/lib/agent-tools";
+import { authenticateWorkerRequest } from "@/lib/worker-credentials";
+import { findCallRecord } from "@/lib/calls";
+import { applyAgentVariables, resolveAgentVariables } from "@/lib/agent-variables";
+import type { AgentConfiguration } from "@/types/agent-config";
+import type { AgentRules } from "@/types/agent-rules";
+import type { Call } from "@/types/call-events";
 
 type AgentWithTools = {
   id: string;
   organization_id: string;
   name: string;
   configuration: unknown;
+  configurationVersionId: string | null;
   rules: unknown;
   created_at: string;
   updated_at: string;
@@ -29,6 +36,9 @@ type AgentWithTools = {
  * Fetches all agents in a batch with their tools and knowledge base status.
  * Optimized to fetch data in parallel where possible.
  * 
+ * Only the published configuration is served: agents.configuration always
+ * mirrors the published version, drafts live in agent_configuration_versions.
+ * 
  * @param agentIds - Array of agent IDs to fetch
  * @param supabase - Supabase client
  * @returns Map of agent IDs to AgentWithTools
@@ -81,8 +91,10 @@ async function fetchAgentsBatch(
     const toolsResult = toolsResults[index];
     
     if (toolsResult.success) {
+      const { published_version_id: publishedVersionId, ...agentFields } = agent;
       agentsMap.set(agent.id, {
-        ...agent,
+        ...agentFields,
+        configurationVersionId: publishedVersionId ?? null,
         knowledgeBaseIds: agentKnowledgeBasesMap.get(agent.id) || [],
         tools: toolsResult.tools || []
       });
@@ -189,7 +201,16 @@ async function fetchAgentWithRelatedAgents(
   }
 }
 
+/**
+ * Serves the full agent configuration (tools, static config, related agents),
+ * so it requires a worker credential and only resolves the credential's
+ * organization's phone numbers.
+ */
 export async function GET(request: Request, { params }: { params: Promise<{ number: string }> }) {
+  const auth = await authenticateWorkerRequest(request);
+  if (!auth.authenticated) {
+    return auth.response;
+  }
 
   const { number } = await params;
   const supabase = await createServiceClient();
@@ -197,7 +218,8 @@ export async function GET(request: Request, { params }: { params: Promise<{ numb
     .from('phone_numbers')
     .select('agent_id')
     .eq('phone_number', number)
-    .single();
+    .eq('organization_id', auth.organizationId)
+    .maybeSingle();
 
   if (error) {
     return NextResponse.json({ error: error.message }, { status: 500 });
@@ -207,8 +229,42 @@ export async function GET(request: Request, { params }: { params: Promise<{ numb
     return NextResponse.json({ error: 'Phone number not found' }, { status: 404 });
   }
 
+  // The worker passes the X-Call-Id SIP header (outbound calls and IVR routing) as
+  // ?callId= and the SIP caller as ?callerNumber=, so the call's variables can be resolved
+  const searchParams = new URL(request.url).searchParams;
+  const callId = searchParams.get('callId');
+  const callerNumber = searchParams.get('callerNumber');
+  let call: { id: string; direction: string; contextVariables: Record<string, unknown> } | undefined;
+  let callRecord: Call | null = null;
+  let servedAgentId: string = data.agent_id;
+
+  if (callId || callerNumber) {
+    const found = await findCallRecord({
+      callId,
+      agentId: data.agent_id,
+      callerPhoneNumber: callerNumber,
+    });
+
+    // An IVR menu option can hand an inbound call on this number to another agent
+    const routedByMenu = !!found && found.direction === 'inbound' && found.trunk_phone_number === number;
+
+    if (
+      found &&
+      found.organization_id === auth.organizationId &&
+      (found.agent_id === data.agent_id || routedByMenu)
+    ) {
+      callRecord = found;
+      servedAgentId = found.agent_id;
+      call = {
+        id: found.id,
+        direction: found.direction,
+        contextVariables: found.context_variables || {},
+      };
+    }
+  }
+
   // Fetch the agent and all related agents recursively
-  const result = await fetchAgentWithRelatedAgents(data.agent_id);
+  const result = await fetchAgentWithRelatedAgents(servedAgentId);
 
   if (result.error || !result.agent) {
     return NextResponse.json({ error: result.error || 'Failed to fetch agent' }, { status: 500 });
@@ -217,13 +273,37 @@ export async function GET(request: Request, { params }: { params: Promise<{ numb
   // Convert the Map to a dictionary object, excluding the main agent
   const relatedAgentsDict: Record<string, AgentWithTools> = {};
   result.relatedAgents.forEach((agent, agentId) => {
-    if (agentId !== data.agent_id) {
+    if (agentId !== servedAgentId) {
       relatedAgentsDict[agentId] = agent;
     }
   });
 
+
+  // Resolve {{variables}} in the instructions and first message
+  const variables = await resolveAgentVariables({
+    supabase,
+    organizationId: auth.organizationId,
+    rules: result.agent.rules as AgentRules | null,
+    calledPhoneNumber: number,
+    callerPhoneNumber: callRecord?.caller_phone_number ?? callerNumber,
+    call: callRecord,
+  });
+
+  const withVariables = (agent: AgentWithTools): AgentWithTools => ({
+    ...agent,
+    configuration: agent.configuration
+      ? applyAgentVariables(agent.configuration as Partial<AgentConfiguration>, variables)
+      : agent.configuration,
+  });
+
+  Object.keys(relatedAgentsDict).forEach((agentId) => {
+    relatedAgentsDict[agentId] = withVariables(relatedAgentsDict[agentId]);
+  });
+
   return NextResponse.json({
-    ...result.agent,
-    relatedAgents: Object.keys(relatedAgentsDict).length > 0 ? relatedAgentsDict : undefined
+    ...withVariables(result.agent),
+    relatedAgents: Object.keys(relatedAgentsDict).length > 0 ? relatedAgentsDict : undefined,
+    call,
+    variables,
   });
 }
\ No newline at end of file
@@ -1,13 +1,17 @@
 import { createServiceClient } from "@/lib/supabase/server"
 import { NextResponse } from "next/server"
 import { executeAction } from "@/lib/pipedream/actions"
-import type { PipedreamActionToolConfig, SmsToolConfig } from "@/types/tools"
+import { substituteVariables as substituteToolVariables } from "@/lib/tools/variables"
+import { checkPublicUrl, fetchPublicUrl, readLimitedText } from "@/lib/tools/request-guard"
+import { authenticateWorkerRequest, rejectWorkerOrganizationMismatch } from "@/lib/worker-credentials"
+import type { ApiRequestToolConfig, ParameterSource, PipedreamActionToolConfig, SmsToolConfig } from "@/types/tools"
 import twilio from 'twilio'
 
 /**
  * Tool Execution Endpoint
  * 
  * This endpoint receives tool calls from the LiveKit agent and:
+ * 0. Authenticates the worker credential (the tool must belong to its organization)
  * 1. Fetches the tool configuration from the database
  * 2. Extracts AI-provided parameters from the request
  * 3. Merges them with static configuration
@@ -15,6 +19,11 @@ import twilio from 'twilio'
  * 5. Returns the result
  */
 export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await authenticateWorkerRequest(request)
+  if (!auth.authenticated) {
+    return auth.response
+  }
+
   const { id: toolId } = await params
   
   // ===================================================================
@@ -86,6 +95,10 @@ export async function POST(request: Request, { params }: { params: Promise<{ id:
     )
   }
 
+  if (tool.organization_id !== auth.organizationId) {
+    return rejectWorkerOrganizationMismatch(request, auth.organizationId, { toolId })
+  }
+
   console.log(`✅ Found tool: ${tool.name} (type: ${tool.type})`)
 
   // ===================================================================
@@ -104,6 +117,14 @@ export async function POST(request: Request, { params }: { params: Promise<{ id:
     return handleSmsAction(tool, aiProvidedParams, callerPhoneNumber, calledPhoneNumber)
   }
 
+  // ===================================================================
+  // HANDLE API REQUEST TOOLS
+  // ===================================================================
+  
+  if (tool.type === 'api_request') {
+    return handleApiRequestAction(tool, aiProvidedParams, callerPhoneNumber, calledPhoneNumber)
+  }
+
   // ===================================================================
   // HANDLE OTHER TOOL TYPES (TODO)
   // ===================================================================
@@ -308,9 +329,10 @@ async function handleSmsAction(
   // ===================================================================
   
   const substituteVariables = (text: string): string => {
-    return text
-      .replace(/\{\{caller_phone_number\}\}/g, callerPhoneNumber || '')
-      .replace(/\{\{called_phone_number\}\}/g, calledPhoneNumber || '')
+    return substituteToolVariables(text, {
+      caller_phone_number: callerPhoneNumber,
+      called_phone_number: calledPhoneNumber,
+    })
   }
 
   // ===================================================================
@@ -376,6 +398,7 @@ async function handleSmsAction(
       .from('phone_numbers')
       .select('phone_number, provider, credentials')
       .eq('phone_number', calledPhoneNumber)
+      .eq('organization_id', tool.organization_id as string)
       .single()
     
     if (phoneError || !phoneNumber) {
@@ -398,6 +421,7 @@ async function handleSmsAction(
       .from('phone_numbers')
       .select('phone_number, provider, credentials')
       .eq('id', fromConfig.phone_number_id)
+      .eq('organization_id', tool.organization_id as string)
       .single()
     
     if (phoneError || !phoneNumber) {
@@ -539,4 +563,307 @@ async function handleSmsAction(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
+
+const DEFAULT_API_TIMEOUT_SECONDS = 10
+const MAX_API_TIMEOUT_SECONDS = 30
+const DEFAULT_MAX_RESPONSE_LENGTH = 4000
+// Responses are parsed before truncation, so read at most this much of the body
+const MAX_RESPONSE_BYTES = 1024 * 1024
+
+/**
+ * Handles execution of API request tools
+ */
+async function handleApiRequestAction(
+  tool: Record<string, unknown>,
+  aiProvidedParams: Record<string, unknown>,
+  callerPhoneNumber: string | undefined,
+  calledPhoneNumber: string | undefined
+): Promise<NextResponse> {
+  // ===================================================================
+  // EXTRACT CONFIGURATION
+  // ===================================================================
+  
+  const configMetadata = tool.config_metadata as ApiRequestToolConfig | null
+  
+  if (!configMetadata) {
+    console.error('❌ Missing API request configuration in tool')
+    return NextResponse.json(
+      { 
+        success: false,
+        error: 'Tool configuration error - missing API request config'
+      }, 
+      { status: 500 }
+    )
+  }
+
+  const staticConfig = (tool.static_config || {}) as Record<string, unknown>
+  const staticHeaders = (staticConfig.headers || {}) as Record<string, unknown>
+  const staticBody = (staticConfig.body || {}) as Record<string, unknown>
+  const method = ((staticConfig.method as string) || configMetadata.method || 'GET').toUpperCase()
+  
+  const timeoutSeconds = Math.min(
+    Number(staticConfig.timeoutSeconds ?? configMetadata.timeoutSeconds) || DEFAULT_API_TIMEOUT_SECONDS,
+    MAX_API_TIMEOUT_SECONDS
+  )
+  const maxResponseLength = Number(staticConfig.maxResponseLength ?? configMetadata.maxResponseLength) || DEFAULT_MAX_RESPONSE_LENGTH
+
+  console.log('🌐 API Request Tool configuration:')
+  console.log(`   Tool: ${String(tool.name)}`)
+  console.log(`   Organization: ${String(tool.organization_id)}`)
+  console.log(`   Method: ${method}`)
+  console.log(`   Timeout: ${timeoutSeconds}s, Max response length: ${maxResponseLength}`)
+  console.log(`   AI Params:`, JSON.stringify(aiProvidedParams, null, 2))
+
+  // ===================================================================
+  // HELPER: Variable Substitution
+  // Replace {{variable_name}} with actual values
+  // ===================================================================
+  
+  const variableValues = {
+    caller_phone_number: callerPhoneNumber,
+    called_phone_number: calledPhoneNumber,
+  }
+
+  const substituteValue = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      return substituteToolVariables(value, variableValues)
+    }
+    if (Array.isArray(value)) {
+      return value.map(substituteValue)
+    }
+    return value
+  }
+
+  // ===================================================================
+  // HELPER: Parameter Resolution
+  // Fixed values come from static_config, AI values from the request,
+  // array_extendable merges the fixed base with anything the AI added
+  // ===================================================================
+  
+  const resolveParameter = (
+    source: ParameterSource,
+    fixedValue: unknown,
+    aiKey: string,
+    baseValues?: unknown
+  ): unknown => {
+    if (source.mode === 'fixed') {
+      return substituteValue(fixedValue)
+    }
+    if (source.mode === 'ai') {
+      return substituteValue(aiProvidedParams[aiKey])
+    }
+    const base = Array.isArray(baseValues) ? baseValues : []
+    const aiValue = aiProvidedParams[aiKey]
+    const extension = Array.isArray(aiValue) ? aiValue : aiValue !== undefined ? [aiValue] : []
+    return substituteValue([...base, ...extension])
+  }
+
+  // ===================================================================
+  // RESOLVE URL
+  // ===================================================================
+  
+  const rawUrl = configMetadata.url?.mode === 'fixed'
+    ? staticConfig.url
+    : aiProvidedParams.url
+
+  if (!rawUrl || typeof rawUrl !== 'string') {
+    console.error('❌ No URL provided for API request')
+    return NextResponse.json(
+      { 
+        success: false,
+        error: 'Request URL is required'
+      }, 
+      { status: 400 }
+    )
+  }
+
+  let url: URL
+  try {
+    url = new URL(substituteToolVariables(rawUrl, variableValues, { encode: true }))
+  } catch {
+    console.error(`❌ Invalid URL: ${rawUrl}`)
+    return NextResponse.json(
+      { 
+        success: false,
+        error: 'Invalid request URL'
+      }, 
+      { status: 400 }
+    )
+  }
+
+  // The AI can supply the URL, so it must not reach our own network
+  const urlError = await checkPublicUrl(url)
+  if (urlError) {
+    console.error(`❌ Blocked request URL ${url.toString()}: ${urlError}`)
+    return NextResponse.json(
+      { 
+        success: false,
+        error: urlError
+      }, 
+      { status: 400 }
+    )
+  }
+
+  // ===================================================================
+  // RESOLVE HEADERS
+  // ===================================================================
+  
+  const headers: Record<string, string> = {}
+  
+  Object.entries(configMetadata.headers || {}).forEach(([key, source]) => {
+    const value = resolveParameter(source, staticHeaders[key], `header_${key}`)
+    if (value !== undefined && value !== null && value !== '') {
+      headers[key] = Array.isArray(value) ? value.join(', ') : String(value)
+    }
+  })
+
+  // ===================================================================
+  // RESOLVE BODY
+  // GET and DELETE requests send the body fields as query parameters
+  // ===================================================================
+  
+  const body: Record<string, unknown> = {}
+  
+  Object.entries(configMetadata.body || {}).forEach(([key, source]) => {
+    const value = resolveParameter(source, staticBody[key], `body_${key}`, staticBody[`${key}_base`])
+    if (value !== undefined) {
+      body[key] = value
+    }
+  })
+
+  const sendsBody = method !== 'GET' && method !== 'DELETE'
+  
+  if (!sendsBody) {
+    Object.entries(body).forEach(([key, value]) => {
+      if (value === null) return
+      if (Array.isArray(value)) {
+        value.forEach((item) => url.searchParams.append(key, String(item)))
+      } else {
+        url.searchParams.append(key, String(value))
+      }
+    })
+  } else if (!Object.keys(headers).some((key) => key.toLowerCase() === 'content-type')) {
+    headers['Content-Type'] = 'application/json'
+  }
+
+  console.log(`📤 ${method} ${url.toString()}`)
+  console.log(`   Headers: ${Object.keys(headers).join(', ') || 'none'}`)
+  if (sendsBody) {
+    console.log(`   Body:`, JSON.stringify(body, null, 2))
+  }
+
+  // ===================================================================
+  // EXECUTE REQUEST
+  // ===================================================================
+  
+  let response: Response
+  const startedAt = Date.now()
+  
+  try {
+    // Redirects are followed here so each one is checked too
+    const result = await fetchPublicUrl(url, {
+      method,
+      headers,
+      body: sendsBody ? JSON.stringify(body) : undefined,
+      signal: AbortSignal.timeout(timeoutSeconds * 1000),
+    })
+
+    if (!result.response) {
+      console.error(`❌ Blocked API request: ${result.error}`)
+      return NextResponse.json(
+        { 
+          success: false,
+          error: result.error
+        }, 
+        { status: 400 }
+      )
+    }
+
+    response = result.response
+  } catch (error) {
+    const timedOut = error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')
+    console.error(timedOut ? `❌ API request timed out after ${timeoutSeconds}s` : '❌ API request failed:', error)
+    return NextResponse.json(
+      { 
+        success: false,
+        error: timedOut ? `Request timed out after ${timeoutSeconds} seconds` : 'Request failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }, 
+      { status: timedOut ? 504 : 502 }
+    )
+  }
+
+  const durationMs = Date.now() - startedAt
+  console.log(`📥 Response: ${response.status} in ${durationMs}ms`)
+
+  // ===================================================================
+  // PARSE & TRUNCATE RESPONSE
+  // Keep the payload small enough for the LLM context
+  // ===================================================================
+  
+  let responseBody: { text: string; truncated: boolean }
+  try {
+    responseBody = await readLimitedText(response, MAX_RESPONSE_BYTES)
+  } catch (error) {
+    const timedOut = error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')
+    console.error(timedOut ? `❌ API response timed out after ${timeoutSeconds}s` : '❌ Failed to read API response:', error)
+    return NextResponse.json(
+      { 
+        success: false,
+        error: timedOut ? `Request timed out after ${timeoutSeconds} seconds` : 'Request failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }, 
+      { status: timedOut ? 504 : 502 }
+    )
+  }
+
+  if (responseBody.truncated) {
+    console.log(`✂️ Response body is over ${MAX_RESPONSE_BYTES} bytes - reading the start only`)
+  }
+
+  const responseText = responseBody.text
+  let result: unknown = responseText
+  
+  try {
+    result = responseText ? JSON.parse(responseText) : null
+  } catch {
+    // Not JSON - keep the raw text
+  }
+
+  const serialized = typeof result === 'string' ? result : JSON.stringify(result)
+  const truncated = responseBody.truncated || (serialized !== undefined && serialized.length > maxResponseLength)
+  
+  if (serialized !== undefined && serialized.length > maxResponseLength) {
+    console.log(`✂️ Truncating response from ${serialized.length} to ${maxResponseLength} characters`)
+    result = `${serialized.slice(0, maxResponseLength)}... [truncated]`
+  }
+
+  // ===================================================================
+  // RETURN RESULT
+  // ===================================================================
+  
+  if (!response.ok) {
+    console.error(`❌ API request returned ${response.status}`)
+    return NextResponse.json(
+      { 
+        success: false,
+        error: `Request failed with status ${response.status}`,
+        status: response.status,
+        result,
+        truncated
+      }, 
+      { status: 502 }
+    )
+  }
+
+  console.log('✅ API request executed successfully')
+
+  return NextResponse.json({
+    success: true,
+    status: response.status,
+    result,
+    truncated,
+    durationMs
+  })
+}
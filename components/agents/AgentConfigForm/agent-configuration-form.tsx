@@ -8,8 +8,9 @@ import { Form } from '@/components/ui/form'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Separator } from '@/components/ui/separator'
 import { toast } from 'sonner'
-import { Loader2, Save } from 'lucide-react'
-import type { AgentConfiguration } from '@/types/agent-config'
+import { Loader2, Save, Upload } from 'lucide-react'
+import Link from 'next/link'
+import type { AgentConfiguration, AgentConfigurationVersion } from '@/types/agent-config'
 import { KeywordsDialog } from './agent-configuration-form-keywords-dialog'
 import { formSchema, type FormValues, type Voice } from './types'
 
@@ -31,15 +32,28 @@ interface AgentConfigurationFormProps {
   slug: string
   initialConfig?: AgentConfiguration
   mode?: 'configuration' | 'models'
+  // Version numbers of the draft being edited (if any) and the version live on calls
+  versionStatus?: {
+    draftVersionNumber: number | null
+    publishedVersionNumber: number | null
+  }
 }
 
 export function AgentConfigurationForm({ 
   agentId, 
   slug, 
   initialConfig, 
-  mode = 'configuration' 
+  mode = 'configuration',
+  versionStatus,
 }: AgentConfigurationFormProps) {
   const [isSaving, setIsSaving] = useState(false)
+  const [isPublishing, setIsPublishing] = useState(false)
+  const [draftVersionNumber, setDraftVersionNumber] = useState<number | null>(
+    versionStatus?.draftVersionNumber ?? null
+  )
+  const [publishedVersionNumber, setPublishedVersionNumber] = useState<number | null>(
+    versionStatus?.publishedVersionNumber ?? null
+  )
   const [debugError, setDebugError] = useState<string | null>(null)
   
   // Voice management state
@@ -98,6 +112,8 @@ export function AgentConfigurationForm({
         turnDetectorMaxEndpointingDelay: 6000,
         knowledgeBaseUseAsTool: false,
         knowledgeBaseMatchCount: 3,
+        knowledgeBaseHybridSearch: true,
+        knowledgeBaseRerank: false,
         backgroundNoiseEnabled: false,
       }
     }
@@ -142,6 +158,8 @@ export function AgentConfigurationForm({
       turnDetectorMaxEndpointingDelay: initialConfig.turnDetection?.turnDetectorOptions?.maxEndpointingDelay ?? 6000,
       knowledgeBaseUseAsTool: initialConfig.knowledgeBase?.useAsTool ?? false,
       knowledgeBaseMatchCount: initialConfig.knowledgeBase?.matchCount ?? 3,
+      knowledgeBaseHybridSearch: (initialConfig.knowledgeBase?.searchMode ?? 'hybrid') === 'hybrid',
+      knowledgeBaseRerank: initialConfig.knowledgeBase?.rerank ?? false,
       backgroundNoiseEnabled: initialConfig.backgroundNoise?.enabled ?? false,
     }
   }
@@ -151,8 +169,10 @@ export function AgentConfigurationForm({
     defaultValues: getInitialValues(),
   })
 
-  const onSubmit = async (values: FormValues) => {
+  // Saves go to the draft version; publishing makes the draft live on calls
+  const onSubmit = async (values: FormValues, publish = false) => {
     setIsSaving(true)
+    setIsPublishing(publish)
     setDebugError(null)
     
     console.log('Form submitted with values:', values)
@@ -216,6 +236,8 @@ export function AgentConfigurationForm({
         knowledgeBase: {
           useAsTool: values.knowledgeBaseUseAsTool ?? false,
           matchCount: values.knowledgeBaseMatchCount ?? 3,
+          searchMode: values.knowledgeBaseHybridSearch === false ? 'vector' : 'hybrid',
+          rerank: values.knowledgeBaseRerank ?? false,
         },
         tools: [],
         settings: {
@@ -240,7 +262,7 @@ export function AgentConfigurationForm({
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ configuration }),
+        body: JSON.stringify({ configuration, publish }),
       })
 
       console.log('Response status:', response.status)
@@ -254,9 +276,20 @@ export function AgentConfigurationForm({
       const responseData = await response.json()
       console.log('Success response:', responseData)
 
-      toast.success('Configuration saved successfully', {
-        description: 'Your agent has been updated and is ready to use.'
-      })
+      const version = responseData.version as AgentConfigurationVersion | undefined
+
+      if (version?.status === 'published') {
+        setPublishedVersionNumber(version.version_number)
+        setDraftVersionNumber(null)
+        toast.success(`Version ${version.version_number} published`, {
+          description: 'Your agent has been updated and is ready to use.'
+        })
+      } else {
+        setDraftVersionNumber(version?.version_number ?? null)
+        toast.success('Draft saved', {
+          description: 'Calls keep using the published version until you publish this draft.'
+        })
+      }
     } catch (error) {
       console.error('Error saving configuration:', error)
       const message = error instanceof Error ? error.message : 'Failed to save configuration'
@@ -266,6 +299,7 @@ export function AgentConfigurationForm({
       })
     } finally {
       setIsSaving(false)
+      setIsPublishing(false)
     }
   }
 
@@ -381,7 +415,7 @@ export function AgentConfigurationForm({
   return (
     <>
     <Form {...form}>
-      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+      <form onSubmit={form.handleSubmit((values) => onSubmit(values))} className="space-y-6">
         {/* Debug Error Display */}
         {debugError && (
           <div className="rounded-lg bg-red-50 p-4 text-sm text-red-800 border border-red-200">
@@ -488,8 +522,18 @@ export function AgentConfigurationForm({
           </>
         )}
 
-        {/* Submit Button */}
-        <div className="flex justify-end gap-4">
+        {/* Submit Buttons */}
+        <div className="flex items-center justify-end gap-4">
+          <p className="mr-auto text-sm text-muted-foreground">
+            {draftVersionNumber
+              ? `Editing draft v${draftVersionNumber}`
+              : 'No unpublished changes'}
+            {publishedVersionNumber && ` · v${publishedVersionNumber} is live`}
+            {' · '}
+            <Link href={`/${slug}/agents/${agentId}/versions`} className="underline underline-offset-4">
+              Version history
+            </Link>
+          </p>
           <Button
             type="button"
             variant="outline"
@@ -498,8 +542,8 @@ export function AgentConfigurationForm({
           >
             Reset
           </Button>
-          <Button type="submit" disabled={isSaving}>
-            {isSaving ? (
+          <Button type="submit" variant="outline" disabled={isSaving}>
+            {isSaving && !isPublishing ? (
               <>
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                 Saving...
@@ -507,7 +551,24 @@ export function AgentConfigurationForm({
             ) : (
               <>
                 <Save className="mr-2 h-4 w-4" />
-                Save Configuration
+                Save Draft
+              </>
+            )}
+          </Button>
+          <Button
+            type="button"
+            disabled={isSaving}
+            onClick={form.handleSubmit((values) => onSubmit(values, true))}
+          >
+            {isPublishing ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Publishing...
+              </>
+            ) : (
+              <>
+                <Upload className="mr-2 h-4 w-4" />
+                Publish
               </>
             )}
           </Button>
@@ -47,6 +47,52 @@ export function KnowledgeBaseSettings({
           )}
         />
         
+        <FormField
+          control={control}
+          name="knowledgeBaseHybridSearch"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+              <div className="space-y-0.5">
+                <FormLabel className="text-base">
+                  Hybrid Search
+                </FormLabel>
+                <FormDescription>
+                  Combine keyword matching with semantic search. Helps with exact terms like names, postcodes and reference numbers.
+                </FormDescription>
+              </div>
+              <FormControl>
+                <Switch
+                  checked={field.value ?? true}
+                  onCheckedChange={field.onChange}
+                />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={control}
+          name="knowledgeBaseRerank"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+              <div className="space-y-0.5">
+                <FormLabel className="text-base">
+                  Rerank Results
+                </FormLabel>
+                <FormDescription>
+                  Re-score the retrieved documents with a reranking model before passing them to the agent. More accurate, but adds latency to each lookup.
+                </FormDescription>
+              </div>
+              <FormControl>
+                <Switch
+                  checked={field.value ?? false}
+                  onCheckedChange={field.onChange}
+                />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
         {/* Match Count Configuration */}
         <FormField
           control={control}
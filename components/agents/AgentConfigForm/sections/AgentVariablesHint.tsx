@@ -0,0 +1,26 @@
+import { getAllAgentVariables } from '@/lib/agent-variables'
+
+/**
+ * Lists the {{variables}} that are filled in per call, under the fields that support them
+ */
+export function AgentVariablesHint() {
+  return (
+    <div className="space-y-2 rounded-md border bg-muted/30 p-3 text-xs text-muted-foreground">
+      <p>
+        Filled in for each call. Outbound call and campaign variables can be used by name too, e.g.{' '}
+        <code>{'{{first_name}}'}</code>. Add a fallback with <code>{'{{first_name|there}}'}</code>.
+      </p>
+      <div className="flex flex-wrap gap-1.5">
+        {getAllAgentVariables().map((variable) => (
+          <code
+            key={variable.name}
+            title={`${variable.description}${variable.example ? ` (e.g. ${variable.example})` : ''}`}
+            className="rounded bg-background px-1.5 py-0.5 border"
+          >
+            {`{{${variable.name}}}`}
+          </code>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -109,7 +109,7 @@ export function FirstMessageCard({
                       />
                     </FormControl>
                     <FormDescription>
-                      The exact message the agent will say when the call starts
+                      The exact message the agent will say when the call starts. Supports the same {'{{variables}}'} as the instructions.
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -130,7 +130,7 @@ export function FirstMessageCard({
                       />
                     </FormControl>
                     <FormDescription>
-                      Instructions for generating the greeting message. Context about the caller will be automatically included.
+                      Instructions for generating the greeting message. Context about the caller will be automatically included, and {'{{variables}}'} are filled in.
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
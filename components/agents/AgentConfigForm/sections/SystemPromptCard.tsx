@@ -9,6 +9,7 @@ import {
 } from '@/components/ui/form'
 import { Textarea } from '@/components/ui/textarea'
 import type { SystemPromptCardProps } from '../types'
+import { AgentVariablesHint } from './AgentVariablesHint'
 
 export function SystemPromptCard({ control }: SystemPromptCardProps) {
   return (
@@ -37,6 +38,7 @@ export function SystemPromptCard({ control }: SystemPromptCardProps) {
                 Core system prompt that defines your agent&apos;s role and behavior. Be specific about the agent&apos;s purpose, tone, and how it should interact with users.
               </FormDescription>
               <FormMessage />
+              <AgentVariablesHint />
             </FormItem>
           )}
         />
@@ -65,6 +65,8 @@ export const formSchema = z.object({
   // Knowledge base configuration
   knowledgeBaseUseAsTool: z.boolean().optional(),
   knowledgeBaseMatchCount: z.number().min(1).max(10).optional(),
+  knowledgeBaseHybridSearch: z.boolean().optional(),
+  knowledgeBaseRerank: z.boolean().optional(),
 
   // Background noise configuration
   backgroundNoiseEnabled: z.boolean().optional(),
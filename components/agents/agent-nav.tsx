@@ -100,6 +100,19 @@ export function AgentNav({ agentId, slug }: AgentNavProps) {
       >
         Evaluations
       </Link>
+      <Link 
+        href={`/${slug}/agents/${agentId}/versions`}
+        prefetch={true}
+        className={cn(
+          buttonVariants({ variant: "ghost" }),
+          "rounded-b-none border-b-2",
+          isActive(`/${slug}/agents/${agentId}/versions`) 
+            ? "border-primary" 
+            : "border-transparent"
+        )}
+      >
+        Versions
+      </Link>
     </div>
   )
 }
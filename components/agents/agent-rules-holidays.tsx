@@ -0,0 +1,468 @@
+"use client"
+
+import { useFieldArray, Controller, useWatch, type Control } from "react-hook-form"
+import { IconCalendarOff, IconPlus, IconTrash } from "@tabler/icons-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Separator } from "@/components/ui/separator"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { AgentRules, DayOfWeek, HolidayCalendar, RecurringHoliday } from "@/types/agent-rules"
+import { BANK_HOLIDAY_REGIONS, getUpcomingHolidays } from "@/lib/business-hours"
+
+interface HolidayCalendarsCardProps {
+  control: Control<AgentRules>
+  timezone: string
+  saveButton?: React.ReactNode
+}
+
+const MONTHS = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+]
+
+const WEEKDAYS: { value: DayOfWeek; label: string }[] = [
+  { value: "monday", label: "Monday" },
+  { value: "tuesday", label: "Tuesday" },
+  { value: "wednesday", label: "Wednesday" },
+  { value: "thursday", label: "Thursday" },
+  { value: "friday", label: "Friday" },
+  { value: "saturday", label: "Saturday" },
+  { value: "sunday", label: "Sunday" },
+]
+
+const OCCURRENCES = [
+  { value: 1, label: "First" },
+  { value: 2, label: "Second" },
+  { value: 3, label: "Third" },
+  { value: 4, label: "Fourth" },
+  { value: -1, label: "Last" },
+]
+
+function formatDateKey(dateKey: string): string {
+  const [year, month, day] = dateKey.split("-").map(Number)
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString("en-GB", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  })
+}
+
+/**
+ * Editor for a single recurring holiday rule
+ */
+function RecurringHolidayRow({
+  control,
+  calendarIndex,
+  index,
+  onRemove,
+}: {
+  control: Control<AgentRules>
+  calendarIndex: number
+  index: number
+  onRemove: () => void
+}) {
+  const name = `holidayCalendars.${calendarIndex}.recurringHolidays.${index}` as const
+  const holiday = useWatch({ control, name }) as RecurringHoliday | undefined
+
+  return (
+    <div className="flex flex-wrap items-end gap-2 rounded-md border p-3">
+      <div className="space-y-1 flex-1 min-w-40">
+        <Label className="text-xs">Name</Label>
+        <Controller
+          control={control}
+          name={`${name}.label`}
+          render={({ field }) => <Input placeholder="Founder's Day" {...field} />}
+        />
+      </div>
+
+      {holiday?.type === "fixed_date" && (
+        <>
+          <div className="space-y-1">
+            <Label className="text-xs">Day</Label>
+            <Controller
+              control={control}
+              name={`${name}.day`}
+              render={({ field }) => (
+                <Input
+                  type="number"
+                  min="1"
+                  max="31"
+                  className="w-20"
+                  {...field}
+                  onChange={(e) => field.onChange(parseInt(e.target.value) || 1)}
+                />
+              )}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Month</Label>
+            <Controller
+              control={control}
+              name={`${name}.month`}
+              render={({ field }) => (
+                <Select value={String(field.value)} onValueChange={(v) => field.onChange(Number(v))}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MONTHS.map((month, i) => (
+                      <SelectItem key={month} value={String(i + 1)}>{month}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">If on a weekend</Label>
+            <Controller
+              control={control}
+              name={`${name}.weekendRule`}
+              render={({ field }) => (
+                <Select value={field.value || "none"} onValueChange={field.onChange}>
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No substitute day</SelectItem>
+                    <SelectItem value="next_weekday">Next weekday</SelectItem>
+                    <SelectItem value="nearest_weekday">Nearest weekday</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+            />
+          </div>
+        </>
+      )}
+
+      {holiday?.type === "nth_weekday" && (
+        <>
+          <div className="space-y-1">
+            <Label className="text-xs">Occurrence</Label>
+            <Controller
+              control={control}
+              name={`${name}.nth`}
+              render={({ field }) => (
+                <Select value={String(field.value)} onValueChange={(v) => field.onChange(Number(v))}>
+                  <SelectTrigger className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {OCCURRENCES.map((o) => (
+                      <SelectItem key={o.value} value={String(o.value)}>{o.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Weekday</Label>
+            <Controller
+              control={control}
+              name={`${name}.weekday`}
+              render={({ field }) => (
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEKDAYS.map((d) => (
+                      <SelectItem key={d.value} value={d.value}>{d.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Month</Label>
+            <Controller
+              control={control}
+              name={`${name}.month`}
+              render={({ field }) => (
+                <Select value={String(field.value)} onValueChange={(v) => field.onChange(Number(v))}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MONTHS.map((month, i) => (
+                      <SelectItem key={month} value={String(i + 1)}>{month}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            />
+          </div>
+        </>
+      )}
+
+      {holiday?.type === "easter_offset" && (
+        <div className="space-y-1">
+          <Label className="text-xs">Days from Easter Sunday</Label>
+          <Controller
+            control={control}
+            name={`${name}.offsetDays`}
+            render={({ field }) => (
+              <Input
+                type="number"
+                className="w-28"
+                {...field}
+                onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+              />
+            )}
+          />
+        </div>
+      )}
+
+      <Button type="button" variant="ghost" size="sm" onClick={onRemove}>
+        <IconTrash className="h-4 w-4 text-muted-foreground hover:text-destructive" />
+      </Button>
+    </div>
+  )
+}
+
+/**
+ * Editor for one named holiday calendar
+ */
+function HolidayCalendarEditor({
+  control,
+  index,
+  timezone,
+  onRemove,
+}: {
+  control: Control<AgentRules>
+  index: number
+  timezone: string
+  onRemove: () => void
+}) {
+  const calendar = useWatch({ control, name: `holidayCalendars.${index}` }) as HolidayCalendar | undefined
+
+  const { fields: closureFields, append: appendClosure, remove: removeClosure } = useFieldArray({
+    control,
+    name: `holidayCalendars.${index}.closures`,
+  })
+
+  const { fields: holidayFields, append: appendHoliday, remove: removeHoliday } = useFieldArray({
+    control,
+    name: `holidayCalendars.${index}.recurringHolidays`,
+  })
+
+  const upcoming = calendar ? getUpcomingHolidays(calendar, timezone, 5) : []
+
+  const addRecurringHoliday = (type: RecurringHoliday["type"]) => {
+    const id = `holiday-${Date.now()}`
+    if (type === "fixed_date") {
+      appendHoliday({ id, label: "", type, month: 1, day: 1, weekendRule: "next_weekday" })
+    } else if (type === "nth_weekday") {
+      appendHoliday({ id, label: "", type, month: 1, weekday: "monday", nth: 1 })
+    } else {
+      appendHoliday({ id, label: "", type, offsetDays: 0 })
+    }
+  }
+
+  return (
+    <div className="rounded-lg border p-4 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <Controller
+          control={control}
+          name={`holidayCalendars.${index}.name`}
+          render={({ field }) => (
+            <Input placeholder="Calendar name" className="max-w-xs" {...field} />
+          )}
+        />
+        <div className="flex items-center gap-2">
+          <Controller
+            control={control}
+            name={`holidayCalendars.${index}.enabled`}
+            render={({ field }) => (
+              <Switch checked={field.value} onCheckedChange={field.onChange} />
+            )}
+          />
+          <Button type="button" variant="ghost" size="sm" onClick={onRemove}>
+            <IconTrash className="h-4 w-4 text-muted-foreground hover:text-destructive" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Bank Holidays */}
+      <div className="space-y-2">
+        <Label className="text-sm">Public Holidays</Label>
+        <Controller
+          control={control}
+          name={`holidayCalendars.${index}.bankHolidayRegion`}
+          render={({ field }) => (
+            <Select
+              value={field.value || "none"}
+              onValueChange={(v) => field.onChange(v === "none" ? undefined : v)}
+            >
+              <SelectTrigger className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">None</SelectItem>
+                {BANK_HOLIDAY_REGIONS.map((region) => (
+                  <SelectItem key={region.value} value={region.value}>{region.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        />
+        <p className="text-xs text-muted-foreground">
+          Automatically close on the public holidays for this region, including substitute days
+        </p>
+      </div>
+
+      {/* Recurring Holidays */}
+      <div className="space-y-2">
+        <Label className="text-sm">Recurring Holidays</Label>
+        {holidayFields.map((field, holidayIndex) => (
+          <RecurringHolidayRow
+            key={field.id}
+            control={control}
+            calendarIndex={index}
+            index={holidayIndex}
+            onRemove={() => removeHoliday(holidayIndex)}
+          />
+        ))}
+        <div className="flex flex-wrap gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={() => addRecurringHoliday("fixed_date")}>
+            <IconPlus className="mr-2 h-4 w-4" />
+            Fixed Date
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={() => addRecurringHoliday("nth_weekday")}>
+            <IconPlus className="mr-2 h-4 w-4" />
+            Nth Weekday
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={() => addRecurringHoliday("easter_offset")}>
+            <IconPlus className="mr-2 h-4 w-4" />
+            Relative to Easter
+          </Button>
+        </div>
+      </div>
+
+      {/* One-off Closures */}
+      <div className="space-y-2">
+        <Label className="text-sm">Closures</Label>
+        {closureFields.map((field, closureIndex) => (
+          <div key={field.id} className="flex flex-wrap items-end gap-2 rounded-md border p-3">
+            <div className="space-y-1 flex-1 min-w-40">
+              <Label className="text-xs">Reason</Label>
+              <Controller
+                control={control}
+                name={`holidayCalendars.${index}.closures.${closureIndex}.label`}
+                render={({ field }) => <Input placeholder="Office refurbishment" {...field} />}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">From</Label>
+              <Controller
+                control={control}
+                name={`holidayCalendars.${index}.closures.${closureIndex}.startDate`}
+                render={({ field }) => <Input type="date" {...field} />}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">To</Label>
+              <Controller
+                control={control}
+                name={`holidayCalendars.${index}.closures.${closureIndex}.endDate`}
+                render={({ field }) => <Input type="date" {...field} />}
+              />
+            </div>
+            <Button type="button" variant="ghost" size="sm" onClick={() => removeClosure(closureIndex)}>
+              <IconTrash className="h-4 w-4 text-muted-foreground hover:text-destructive" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => appendClosure({ id: `closure-${Date.now()}`, label: "", startDate: "", endDate: "" })}
+        >
+          <IconPlus className="mr-2 h-4 w-4" />
+          Add Closure
+        </Button>
+      </div>
+
+      {/* Upcoming Preview */}
+      {upcoming.length > 0 && (
+        <>
+          <Separator />
+          <div className="space-y-2">
+            <Label className="text-sm">Upcoming</Label>
+            <div className="flex flex-wrap gap-2">
+              {upcoming.map((holiday) => (
+                <Badge key={`${holiday.dateKey}-${holiday.label}`} variant="outline">
+                  {formatDateKey(holiday.dateKey)}
+                  {holiday.endDateKey && ` – ${formatDateKey(holiday.endDateKey)}`} · {holiday.label}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Holiday and closure calendars that override time-based routing
+ */
+export function HolidayCalendarsCard({ control, timezone, saveButton }: HolidayCalendarsCardProps) {
+  const { fields, append, remove } = useFieldArray({
+    control,
+    name: "holidayCalendars",
+  })
+
+  const addCalendar = () => {
+    append({
+      id: `calendar-${Date.now()}`,
+      name: fields.length === 0 ? "Bank Holidays" : `Calendar ${fields.length + 1}`,
+      enabled: true,
+      bankHolidayRegion: fields.length === 0 ? "england-and-wales" : undefined,
+      recurringHolidays: [],
+      closures: [],
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <IconCalendarOff className="h-5 w-5" />
+            <CardTitle>Holidays & Closures</CardTitle>
+          </div>
+          {saveButton}
+        </div>
+        <CardDescription>
+          On these dates the business is treated as closed and calls go directly to the agent, regardless of schedules.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {fields.map((field, index) => (
+          <HolidayCalendarEditor
+            key={field.id}
+            control={control}
+            index={index}
+            timezone={timezone}
+            onRemove={() => remove(index)}
+          />
+        ))}
+
+        <Button type="button" variant="outline" onClick={addCalendar} className="w-full">
+          <IconPlus className="mr-2 h-4 w-4" />
+          Add Calendar
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,324 @@
+"use client"
+
+import { useFieldArray, Controller, useWatch, type Control } from "react-hook-form"
+import { IconGridDots, IconPlus, IconTrash } from "@tabler/icons-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Button } from "@/components/ui/button"
+import { Separator } from "@/components/ui/separator"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { IVR_DIGITS, MAX_MENU_OPTIONS, type AgentRules, type IvrMenuAction, type IvrMenuOption } from "@/types/agent-rules"
+
+interface IvrMenuCardProps {
+  control: Control<AgentRules>
+  agentId: string
+  agents: { id: string; name: string }[]
+  ringGroups: { id: string; name: string }[]
+  saveButton?: React.ReactNode
+}
+
+// Select values for an action: "agent" is this agent, "agent:<id>" another one,
+// "ring-group:<id>" a transfer to a ring group
+function actionToValue(action: IvrMenuAction | undefined, agentId: string): string {
+  if (!action) return "agent"
+  if (action.type === "agent") {
+    return action.agentId && action.agentId !== agentId ? `agent:${action.agentId}` : "agent"
+  }
+  if (action.type === "transfer" && action.ringGroupId) {
+    return `ring-group:${action.ringGroupId}`
+  }
+  return action.type
+}
+
+function valueToAction(value: string, current: IvrMenuAction | undefined): IvrMenuAction {
+  if (value.startsWith("agent:")) {
+    return { type: "agent", agentId: value.slice("agent:".length) }
+  }
+  if (value.startsWith("ring-group:")) {
+    return { type: "transfer", ringGroupId: value.slice("ring-group:".length) }
+  }
+  if (value === "transfer") {
+    return { type: "transfer", phoneNumber: current?.phoneNumber || "" }
+  }
+  return { type: value as IvrMenuAction["type"] }
+}
+
+/**
+ * Picker for what an option (or the menu default) does
+ */
+function MenuActionField({
+  control,
+  name,
+  agentId,
+  agents,
+  ringGroups,
+}: {
+  control: Control<AgentRules>
+  name: `ivrMenu.options.${number}.action` | "ivrMenu.defaultAction"
+  agentId: string
+  agents: { id: string; name: string }[]
+  ringGroups: { id: string; name: string }[]
+}) {
+  return (
+    <Controller
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <div className="flex flex-wrap gap-2">
+          <Select
+            value={actionToValue(field.value, agentId)}
+            onValueChange={(v) => field.onChange(valueToAction(v, field.value))}
+          >
+            <SelectTrigger className="w-52">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="agent">This agent</SelectItem>
+              {agents
+                .filter((agent) => agent.id !== agentId)
+                .map((agent) => (
+                  <SelectItem key={agent.id} value={`agent:${agent.id}`}>{agent.name}</SelectItem>
+                ))}
+              <SelectItem value="transfer">Transfer to a number</SelectItem>
+              {ringGroups.map((group) => (
+                <SelectItem key={group.id} value={`ring-group:${group.id}`}>Transfer to {group.name}</SelectItem>
+              ))}
+              <SelectItem value="voicemail">Voicemail</SelectItem>
+            </SelectContent>
+          </Select>
+          {field.value?.type === "transfer" && !field.value.ringGroupId && (
+            <Input
+              className="w-48"
+              placeholder="+447700900123"
+              value={field.value.phoneNumber || ""}
+              onChange={(e) => field.onChange({ ...field.value, phoneNumber: e.target.value })}
+            />
+          )}
+        </div>
+      )}
+    />
+  )
+}
+
+/**
+ * Keypad / speech menu played before the caller reaches the team or the agent
+ */
+export function IvrMenuCard({ control, agentId, agents, ringGroups, saveButton }: IvrMenuCardProps) {
+  const { fields, append, remove } = useFieldArray({
+    control,
+    name: "ivrMenu.options",
+  })
+
+  const menuEnabled = useWatch({ control, name: "ivrMenu.enabled" })
+  const input = useWatch({ control, name: "ivrMenu.input" })
+  const options = useWatch({ control, name: "ivrMenu.options" }) as IvrMenuOption[] | undefined
+
+  const addOption = () => {
+    const used = new Set((options || []).map((option) => option.digit))
+    const digit = IVR_DIGITS.find((d) => !used.has(d)) || "1"
+    append({
+      id: `option-${Date.now()}`,
+      digit,
+      label: "",
+      keywords: [],
+      action: { type: "transfer", phoneNumber: "" },
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <IconGridDots className="h-5 w-5" />
+            <CardTitle>Call Menu</CardTitle>
+          </div>
+          <div className="flex items-center gap-3">
+            {saveButton}
+            <Controller
+              control={control}
+              name="ivrMenu.enabled"
+              render={({ field }) => (
+                <Switch checked={!!field.value} onCheckedChange={field.onChange} />
+              )}
+            />
+          </div>
+        </div>
+        <CardDescription>
+          Callers choose where to go (e.g. &quot;press 1 for sales&quot;) before business hours apply. Callers on the
+          screening lists or matched by caller lookup skip the menu.
+        </CardDescription>
+      </CardHeader>
+      {menuEnabled && (
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="ivr-prompt">Prompt</Label>
+            <Controller
+              control={control}
+              name="ivrMenu.prompt"
+              render={({ field }) => (
+                <Textarea
+                  id="ivr-prompt"
+                  rows={3}
+                  placeholder="Thanks for calling. Press 1 or say sales for sales, press 2 for lettings, or stay on the line for our assistant."
+                  {...field}
+                />
+              )}
+            />
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Callers can</Label>
+              <Controller
+                control={control}
+                name="ivrMenu.input"
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="dtmf speech">Press a key or speak</SelectItem>
+                      <SelectItem value="dtmf">Press a key</SelectItem>
+                      <SelectItem value="speech">Speak</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ivr-timeout">Wait for input (seconds)</Label>
+              <Controller
+                control={control}
+                name="ivrMenu.timeoutSeconds"
+                render={({ field }) => (
+                  <Input
+                    id="ivr-timeout"
+                    type="number"
+                    min="3"
+                    max="30"
+                    {...field}
+                    onChange={(e) => field.onChange(parseInt(e.target.value) || 5)}
+                  />
+                )}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ivr-attempts">Attempts</Label>
+              <Controller
+                control={control}
+                name="ivrMenu.maxAttempts"
+                render={({ field }) => (
+                  <Input
+                    id="ivr-attempts"
+                    type="number"
+                    min="1"
+                    max="3"
+                    {...field}
+                    onChange={(e) => field.onChange(parseInt(e.target.value) || 2)}
+                  />
+                )}
+              />
+            </div>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <Label className="text-sm">Options</Label>
+            {fields.map((field, index) => (
+              <div key={field.id} className="flex flex-wrap items-end gap-2 rounded-md border p-3">
+                <div className="space-y-1">
+                  <Label className="text-xs">Key</Label>
+                  <Controller
+                    control={control}
+                    name={`ivrMenu.options.${index}.digit`}
+                    render={({ field }) => (
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <SelectTrigger className="w-20">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {IVR_DIGITS.map((digit) => (
+                            <SelectItem key={digit} value={digit}>{digit}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  />
+                </div>
+                <div className="space-y-1 flex-1 min-w-32">
+                  <Label className="text-xs">Label</Label>
+                  <Controller
+                    control={control}
+                    name={`ivrMenu.options.${index}.label`}
+                    render={({ field }) => <Input placeholder="Sales" {...field} />}
+                  />
+                </div>
+                {input !== "dtmf" && (
+                  <div className="space-y-1 flex-1 min-w-40">
+                    <Label className="text-xs">Also matches</Label>
+                    <Controller
+                      control={control}
+                      name={`ivrMenu.options.${index}.keywords`}
+                      render={({ field }) => (
+                        <Input
+                          placeholder="buy, valuation"
+                          value={(field.value || []).join(", ")}
+                          onChange={(e) => field.onChange(e.target.value.split(",").map((k) => k.trimStart()))}
+                          onBlur={() => field.onChange((field.value || []).map((k) => k.trim()).filter(Boolean))}
+                        />
+                      )}
+                    />
+                  </div>
+                )}
+                <div className="space-y-1">
+                  <Label className="text-xs">Then</Label>
+                  <MenuActionField
+                    control={control}
+                    name={`ivrMenu.options.${index}.action`}
+                    agentId={agentId}
+                    agents={agents}
+                    ringGroups={ringGroups}
+                  />
+                </div>
+                <Button type="button" variant="ghost" size="sm" onClick={() => remove(index)}>
+                  <IconTrash className="h-4 w-4 text-muted-foreground hover:text-destructive" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={addOption}
+              disabled={fields.length >= MAX_MENU_OPTIONS}
+            >
+              <IconPlus className="mr-2 h-4 w-4" />
+              Add Option
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm">If the caller doesn&apos;t choose</Label>
+            <MenuActionField
+              control={control}
+              name="ivrMenu.defaultAction"
+              agentId={agentId}
+              agents={agents}
+              ringGroups={ringGroups}
+            />
+            <p className="text-xs text-muted-foreground">
+              Used when there&apos;s no input, or the input still isn&apos;t recognised after the last attempt.
+              Voicemail uses the settings in the Voicemail card.
+            </p>
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  )
+}
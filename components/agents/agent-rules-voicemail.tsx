@@ -0,0 +1,126 @@
+"use client"
+
+import { Controller, type Control } from "react-hook-form"
+import { IconRecordMail } from "@tabler/icons-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
+import type { AgentRules } from "@/types/agent-rules"
+
+interface VoicemailCardProps {
+  control: Control<AgentRules>
+  saveButton?: React.ReactNode
+}
+
+// Comma-separated list input, cleaned up on blur
+function ListInput({
+  id,
+  value,
+  onChange,
+  placeholder,
+}: {
+  id: string
+  value: string[] | undefined
+  onChange: (value: string[]) => void
+  placeholder: string
+}) {
+  return (
+    <Input
+      id={id}
+      placeholder={placeholder}
+      value={(value || []).join(", ")}
+      onChange={(e) => onChange(e.target.value.split(",").map((item) => item.trimStart()))}
+      onBlur={() => onChange((value || []).map((item) => item.trim()).filter(Boolean))}
+    />
+  )
+}
+
+/**
+ * Greeting, length and notifications for voicemails left from the call menu
+ * or when a transfer isn't answered
+ */
+export function VoicemailCard({ control, saveButton }: VoicemailCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <IconRecordMail className="h-5 w-5" />
+            <CardTitle>Voicemail</CardTitle>
+          </div>
+          {saveButton}
+        </div>
+        <CardDescription>
+          Used by call menu options and transfer fallbacks set to voicemail. Messages are transcribed and sent to
+          the team.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-[1fr_auto]">
+          <div className="space-y-2">
+            <Label htmlFor="voicemail-greeting">Greeting</Label>
+            <Controller
+              control={control}
+              name="voicemail.greeting"
+              render={({ field }) => (
+                <Input id="voicemail-greeting" placeholder="Please leave a message after the tone." {...field} />
+              )}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="voicemail-length">Max length (seconds)</Label>
+            <Controller
+              control={control}
+              name="voicemail.maxLengthSeconds"
+              render={({ field }) => (
+                <Input
+                  id="voicemail-length"
+                  type="number"
+                  min="10"
+                  max="300"
+                  className="w-32"
+                  {...field}
+                  onChange={(e) => field.onChange(parseInt(e.target.value) || 120)}
+                />
+              )}
+            />
+          </div>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="voicemail-sms">Text the transcript to</Label>
+            <Controller
+              control={control}
+              name="voicemail.notifySmsNumbers"
+              render={({ field }) => (
+                <ListInput
+                  id="voicemail-sms"
+                  placeholder="+447700900123, +447700900456"
+                  value={field.value}
+                  onChange={field.onChange}
+                />
+              )}
+            />
+            <p className="text-xs text-muted-foreground">Sent from the number that was called</p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="voicemail-email">Email the transcript to</Label>
+            <Controller
+              control={control}
+              name="voicemail.notifyEmails"
+              render={({ field }) => (
+                <ListInput
+                  id="voicemail-email"
+                  placeholder="office@example.com"
+                  value={field.value}
+                  onChange={field.onChange}
+                />
+              )}
+            />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
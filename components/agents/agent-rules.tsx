@@ -1,9 +1,10 @@
 "use client"
 
+import { useEffect, useMemo, useState } from "react"
 import { useForm, useFieldArray, Controller } from "react-hook-form"
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
 import { toast } from "sonner"
-import { IconClock, IconAlertCircle, IconPlus, IconTrash, IconLoader2 } from "@tabler/icons-react"
+import { IconClock, IconAlertCircle, IconPlus, IconTrash, IconLoader2, IconWorld } from "@tabler/icons-react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Label } from "@/components/ui/label"
 import { Switch } from "@/components/ui/switch"
@@ -11,8 +12,14 @@ import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Separator } from "@/components/ui/separator"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import type { AgentRules, Schedule, DayOfWeek } from "@/types/agent-rules"
-import { defaultAgentRules } from "@/types/agent-rules"
+import { defaultAgentRules, DEFAULT_TIMEZONE } from "@/types/agent-rules"
+import { getBusinessHoursStatus, isWithinSchedule, resolveTimezone, type BusinessHoursStatus } from "@/lib/business-hours"
+import { HolidayCalendarsCard } from "@/components/agents/agent-rules-holidays"
+import { IvrMenuCard } from "@/components/agents/agent-rules-ivr-menu"
+import { VoicemailCard } from "@/components/agents/agent-rules-voicemail"
 
 interface AgentRulesProps {
   agentId: string
@@ -37,7 +44,51 @@ async function fetchAgentRules(slug: string, agentId: string): Promise<AgentRule
     throw new Error(data.error || 'Failed to fetch rules')
   }
   
-  return data.rules || defaultAgentRules
+  return data.rules ? { ...defaultAgentRules, ...data.rules } : defaultAgentRules
+}
+
+function getTimezoneOptions(): string[] {
+  try {
+    return Intl.supportedValuesOf('timeZone')
+  } catch {
+    return [DEFAULT_TIMEZONE, 'UTC']
+  }
+}
+
+function describeStatus(status: BusinessHoursStatus, ringGroups: { id: string; name: string }[]): string {
+  switch (status.reason) {
+    case 'routing_disabled':
+      return 'Time-based routing is off, so every call goes to the agent.'
+    case 'holiday':
+      return `Closed for ${status.holiday?.label} (${status.holiday?.calendarName}). Calls go to the agent.`
+    case 'within_schedule':
+      const ringGroup = ringGroups.find((group) => group.id === status.activeSchedule?.ringGroupId)
+      return `Within business hours. Calls transfer to ${ringGroup?.name || status.activeSchedule?.transferTo || 'the team'}.`
+    case 'outside_schedules':
+      return 'Outside business hours. Calls go to the agent.'
+  }
+}
+
+async function fetchOrganizationAgents(slug: string): Promise<{ agents: { id: string; name: string }[] }> {
+  const response = await fetch(`/api/${slug}/agents`)
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to fetch agents')
+  }
+
+  return data
+}
+
+async function fetchRingGroups(slug: string): Promise<{ ringGroups: { id: string; name: string }[] }> {
+  const response = await fetch(`/api/${slug}/ring-groups`)
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to fetch ring groups')
+  }
+
+  return data
 }
 
 async function updateAgentRules(slug: string, agentId: string, rules: AgentRules): Promise<AgentRules> {
@@ -67,6 +118,19 @@ export function AgentRules({ agentId, slug }: AgentRulesProps) {
     queryFn: () => fetchAgentRules(slug, agentId),
   })
 
+  // Agents a menu option can route to
+  const { data: agentsData } = useQuery({
+    queryKey: ['agents', slug],
+    queryFn: () => fetchOrganizationAgents(slug),
+  })
+
+  // Ring groups a schedule can transfer to
+  const { data: ringGroupsData } = useQuery({
+    queryKey: ['ring-groups', slug],
+    queryFn: () => fetchRingGroups(slug),
+  })
+  const ringGroups = ringGroupsData?.ringGroups ?? []
+
   // Form
   const { control, handleSubmit, watch, setValue, formState: { isDirty } } = useForm<AgentRules>({
     defaultValues: rules || defaultAgentRules,
@@ -81,6 +145,18 @@ export function AgentRules({ agentId, slug }: AgentRulesProps) {
   // Watch form values
   const timeBasedEnabled = watch("timeBasedRouting.enabled")
   const agentFallbackEnabled = watch("agentFallback.enabled")
+  const watchedRules = watch()
+  const timezone = resolveTimezone(watchedRules)
+  const timezoneOptions = useMemo(() => getTimezoneOptions(), [])
+
+  // Re-evaluate the open/closed preview every 30 seconds
+  const [now, setNow] = useState(() => new Date())
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 30_000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const status = getBusinessHoursStatus(watchedRules, now)
 
   // Mutation
   const mutation = useMutation({
@@ -120,6 +196,19 @@ export function AgentRules({ agentId, slug }: AgentRulesProps) {
     setValue(`timeBasedRouting.schedules.${index}.days`, newDays, { shouldDirty: true })
   }
 
+  const saveButton = isDirty && (
+    <Button type="submit" disabled={mutation.isPending} size="sm">
+      {mutation.isPending ? (
+        <>
+          <IconLoader2 className="mr-2 h-4 w-4 animate-spin" />
+          Saving...
+        </>
+      ) : (
+        'Save Rules'
+      )}
+    </Button>
+  )
+
   if (isLoading) {
     return (
       <Card>
@@ -181,18 +270,7 @@ export function AgentRules({ agentId, slug }: AgentRulesProps) {
               <CardTitle>Time-Based Routing</CardTitle>
             </div>
             <div className="flex items-center gap-3">
-              {isDirty && (
-                <Button type="submit" disabled={mutation.isPending} size="sm">
-                  {mutation.isPending ? (
-                    <>
-                      <IconLoader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Saving...
-                    </>
-                  ) : (
-                    'Save Rules'
-                  )}
-                </Button>
-              )}
+              {saveButton}
               <Controller
                 control={control}
                 name="timeBasedRouting.enabled"
@@ -210,6 +288,41 @@ export function AgentRules({ agentId, slug }: AgentRulesProps) {
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
+          {/* Timezone & Live Status */}
+          <div className="flex flex-wrap items-start justify-between gap-4 rounded-lg border bg-muted/30 p-4">
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <Badge variant={status.isOpen ? "default" : "secondary"}>
+                  {status.isOpen ? "Open now" : "Closed now"}
+                </Badge>
+                <span className="text-sm text-muted-foreground">{status.localTime} ({status.timezone})</span>
+              </div>
+              <p className="text-sm text-muted-foreground">{describeStatus(status, ringGroups)}</p>
+            </div>
+            <div className="space-y-2">
+              <Label className="flex items-center gap-1 text-sm">
+                <IconWorld className="h-4 w-4" />
+                Timezone
+              </Label>
+              <Controller
+                control={control}
+                name="timezone"
+                render={({ field }) => (
+                  <Select value={field.value || DEFAULT_TIMEZONE} onValueChange={field.onChange}>
+                    <SelectTrigger className="w-60">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="max-h-80">
+                      {timezoneOptions.map((tz) => (
+                        <SelectItem key={tz} value={tz}>{tz}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+            </div>
+          </div>
+
           {timeBasedEnabled ? (
             <>
               {/* Schedules */}
@@ -217,7 +330,13 @@ export function AgentRules({ agentId, slug }: AgentRulesProps) {
                 {scheduleFields.map((field, index) => (
                   <div key={field.id} className="rounded-lg border p-4 space-y-4">
                     <div className="flex items-center justify-between">
-                      <span className="text-sm font-medium">Schedule {index + 1}</span>
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium">Schedule {index + 1}</span>
+                        {watchedRules.timeBasedRouting.schedules[index] &&
+                          isWithinSchedule(watchedRules.timeBasedRouting.schedules[index], watchedRules, now) && (
+                            <Badge variant="outline">Active now</Badge>
+                          )}
+                      </div>
                       <Button
                         type="button"
                         variant="ghost"
@@ -287,24 +406,75 @@ export function AgentRules({ agentId, slug }: AgentRulesProps) {
                       </div>
                     </div>
 
-                    {/* Transfer Number */}
+                    {/* Transfer Number or Ring Group */}
+                    <div className="space-y-2">
+                      <Label htmlFor={`schedule-${index}-transfer`}>Transfer to</Label>
+                      <div className="flex flex-wrap gap-2">
+                        <Controller
+                          control={control}
+                          name={`timeBasedRouting.schedules.${index}.ringGroupId`}
+                          render={({ field }) => (
+                            <Select
+                              value={field.value || "number"}
+                              onValueChange={(v) => field.onChange(v === "number" ? undefined : v)}
+                            >
+                              <SelectTrigger className="w-48">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="number">A number</SelectItem>
+                                {ringGroups.map((group) => (
+                                  <SelectItem key={group.id} value={group.id}>{group.name}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                        />
+                        {!watch(`timeBasedRouting.schedules.${index}.ringGroupId`) && (
+                          <Controller
+                            control={control}
+                            name={`timeBasedRouting.schedules.${index}.transferTo`}
+                            render={({ field }) => (
+                              <Input
+                                id={`schedule-${index}-transfer`}
+                                type="tel"
+                                placeholder="+1234567890"
+                                className="flex-1 min-w-40"
+                                {...field}
+                              />
+                            )}
+                          />
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        During these hours, calls will be transferred to this number or ring group (set up ring
+                        groups in Settings)
+                      </p>
+                    </div>
+
+                    {/* Timezone Override */}
                     <div className="space-y-2">
-                      <Label htmlFor={`schedule-${index}-transfer`}>Transfer to Number</Label>
+                      <Label>Timezone</Label>
                       <Controller
                         control={control}
-                        name={`timeBasedRouting.schedules.${index}.transferTo`}
+                        name={`timeBasedRouting.schedules.${index}.timezone`}
                         render={({ field }) => (
-                          <Input
-                            id={`schedule-${index}-transfer`}
-                            type="tel"
-                            placeholder="+1234567890"
-                            {...field}
-                          />
+                          <Select
+                            value={field.value || "agent"}
+                            onValueChange={(v) => field.onChange(v === "agent" ? undefined : v)}
+                          >
+                            <SelectTrigger className="w-60">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent className="max-h-80">
+                              <SelectItem value="agent">Agent timezone ({timezone})</SelectItem>
+                              {timezoneOptions.map((tz) => (
+                                <SelectItem key={tz} value={tz}>{tz}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
                         )}
                       />
-                      <p className="text-xs text-muted-foreground">
-                        During these hours, calls will be transferred to this number
-                      </p>
                     </div>
                   </div>
                 ))}
@@ -340,7 +510,7 @@ export function AgentRules({ agentId, slug }: AgentRulesProps) {
                       <div className="space-y-1">
                         <Label className="text-base">Agent Fallback</Label>
                         <p className="text-sm text-muted-foreground">
-                          If no one answers the transferred call, automatically route it to the agent
+                          If no one answers the transferred call, automatically route it to the agent or take a voicemail
                         </p>
                       </div>
                       <Controller
@@ -355,6 +525,27 @@ export function AgentRules({ agentId, slug }: AgentRulesProps) {
                       />
                     </div>
 
+                    {agentFallbackEnabled && (
+                      <div className="space-y-2">
+                        <Label>When no one answers</Label>
+                        <Controller
+                          control={control}
+                          name="agentFallback.action"
+                          render={({ field }) => (
+                            <Select value={field.value || "agent"} onValueChange={field.onChange}>
+                              <SelectTrigger className="w-60">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="agent">Route to the agent</SelectItem>
+                                <SelectItem value="voicemail">Take a voicemail</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          )}
+                        />
+                      </div>
+                    )}
+
                     {agentFallbackEnabled && (
                       <div className="space-y-2">
                         <Label htmlFor="timeout">Timeout (seconds)</Label>
@@ -373,7 +564,7 @@ export function AgentRules({ agentId, slug }: AgentRulesProps) {
                           )}
                         />
                         <p className="text-xs text-muted-foreground">
-                          How long to wait for someone to pick up before routing to the agent (5-300 seconds)
+                          How long to wait for someone to pick up before falling back (5-300 seconds)
                         </p>
                       </div>
                     )}
@@ -391,6 +582,18 @@ export function AgentRules({ agentId, slug }: AgentRulesProps) {
           )}
         </CardContent>
       </Card>
+
+      <IvrMenuCard
+        control={control}
+        agentId={agentId}
+        agents={agentsData?.agents ?? []}
+        ringGroups={ringGroups}
+        saveButton={saveButton}
+      />
+
+      <HolidayCalendarsCard control={control} timezone={timezone} saveButton={saveButton} />
+
+      <VoicemailCard control={control} saveButton={saveButton} />
     </form>
   )
 }
@@ -444,6 +444,9 @@ export function AgentTools({ agentId, slug }: AgentToolsProps) {
                 <DropdownMenuItem asChild>
                   <Link href={`/${slug}/tools/create?type=transfer_call`} prefetch={true}>Transfer Call</Link>
                 </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link href={`/${slug}/tools/create?type=api_request`} prefetch={true}>API Request</Link>
+                </DropdownMenuItem>
                 <DropdownMenuItem asChild>
                   <Link href={`/${slug}/tools/create?type=pipedream_action`} prefetch={true}>External App</Link>
                 </DropdownMenuItem>
@@ -0,0 +1,204 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Badge } from '@/components/ui/badge'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { cn } from '@/lib/utils'
+import { diffConfigurations, diffLines, type ConfigurationChange } from '@/lib/agent-config-diff'
+import type { AgentConfigurationVersion } from '@/types/agent-config'
+
+type VersionSummary = Omit<AgentConfigurationVersion, 'configuration'>
+
+interface AgentVersionDiffDialogProps {
+  agentId: string
+  slug: string
+  versions: VersionSummary[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Versions selected when the dialog opens
+  initialBaseId: string | null
+  initialCompareId: string | null
+}
+
+// Long text fields are shown as a line diff rather than before / after values
+const isTextChange = (change: ConfigurationChange) =>
+  change.type === 'changed' &&
+  typeof change.before === 'string' &&
+  typeof change.after === 'string' &&
+  (change.before.includes('\n') || change.after.includes('\n') || change.before.length > 80 || change.after.length > 80)
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined) return '—'
+  if (typeof value === 'string') return value
+  return JSON.stringify(value)
+}
+
+const versionLabel = (version: VersionSummary) =>
+  `v${version.version_number} (${version.status})`
+
+export function AgentVersionDiffDialog({
+  agentId,
+  slug,
+  versions,
+  open,
+  onOpenChange,
+  initialBaseId,
+  initialCompareId,
+}: AgentVersionDiffDialogProps) {
+  const [baseId, setBaseId] = useState<string | null>(initialBaseId)
+  const [compareId, setCompareId] = useState<string | null>(initialCompareId)
+  const [configurations, setConfigurations] = useState<Record<string, AgentConfigurationVersion['configuration']>>({})
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setBaseId(initialBaseId)
+      setCompareId(initialCompareId)
+    }
+  }, [open, initialBaseId, initialCompareId])
+
+  // Fetch configurations we haven't loaded yet
+  useEffect(() => {
+    if (!open) return
+
+    const missing = [baseId, compareId].filter(
+      (id): id is string => !!id && !(id in configurations)
+    )
+    if (missing.length === 0) return
+
+    setIsLoading(true)
+    Promise.all(
+      missing.map(async (versionId) => {
+        const response = await fetch(`/api/${slug}/agents/${agentId}/versions/${versionId}`)
+        if (!response.ok) {
+          throw new Error('Failed to load version')
+        }
+        const data = await response.json()
+        return [versionId, data.version.configuration] as const
+      })
+    )
+      .then((loaded) => {
+        setConfigurations((prev) => ({ ...prev, ...Object.fromEntries(loaded) }))
+      })
+      .catch((error) => {
+        console.error('Error loading versions for diff:', error)
+        toast.error('Failed to load versions')
+      })
+      .finally(() => setIsLoading(false))
+  }, [open, baseId, compareId, configurations, agentId, slug])
+
+  const changes = useMemo(() => {
+    if (!baseId || !compareId || !(baseId in configurations) || !(compareId in configurations)) {
+      return null
+    }
+    return diffConfigurations(configurations[baseId], configurations[compareId])
+  }, [baseId, compareId, configurations])
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Compare Versions</DialogTitle>
+          <DialogDescription>
+            Changes from the first version to the second
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Select value={baseId ?? undefined} onValueChange={setBaseId}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Select a version" />
+            </SelectTrigger>
+            <SelectContent>
+              {versions.map((version) => (
+                <SelectItem key={version.id} value={version.id}>
+                  {versionLabel(version)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-sm text-muted-foreground">→</span>
+          <Select value={compareId ?? undefined} onValueChange={setCompareId}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Select a version" />
+            </SelectTrigger>
+            <SelectContent>
+              {versions.map((version) => (
+                <SelectItem key={version.id} value={version.id}>
+                  {versionLabel(version)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="max-h-[500px] overflow-y-auto space-y-3">
+          {isLoading || !changes ? (
+            <div className="flex items-center justify-center py-8">
+              {isLoading ? (
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              ) : (
+                <p className="text-sm text-muted-foreground">Select two versions to compare</p>
+              )}
+            </div>
+          ) : changes.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              These versions have identical configurations
+            </p>
+          ) : (
+            changes.map((change) => (
+              <div key={change.path} className="rounded-md border p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <code className="text-sm font-medium">{change.path}</code>
+                  <Badge variant="outline" className="capitalize text-xs">
+                    {change.type}
+                  </Badge>
+                </div>
+                {isTextChange(change) ? (
+                  <pre className="text-xs whitespace-pre-wrap break-words rounded bg-muted/50 p-2">
+                    {diffLines(change.before as string, change.after as string).map((line, index) => (
+                      <div
+                        key={index}
+                        className={cn(
+                          line.type === 'added' && 'bg-green-500/10 text-green-700 dark:text-green-400',
+                          line.type === 'removed' && 'bg-red-500/10 text-red-700 dark:text-red-400 line-through'
+                        )}
+                      >
+                        {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                        {line.text}
+                      </div>
+                    ))}
+                  </pre>
+                ) : (
+                  <div className="grid grid-cols-2 gap-2 text-xs">
+                    <pre className="whitespace-pre-wrap break-words rounded bg-red-500/10 p-2 text-red-700 dark:text-red-400">
+                      {formatValue(change.before)}
+                    </pre>
+                    <pre className="whitespace-pre-wrap break-words rounded bg-green-500/10 p-2 text-green-700 dark:text-green-400">
+                      {formatValue(change.after)}
+                    </pre>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,298 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { GitCompare, Loader2, RotateCcw, Trash2, Upload } from 'lucide-react'
+import { toast } from 'sonner'
+import { AgentVersionDiffDialog } from './agent-version-diff-dialog'
+import type { AgentConfigurationVersion } from '@/types/agent-config'
+
+type VersionSummary = Omit<AgentConfigurationVersion, 'configuration'>
+
+interface AgentVersionsProps {
+  agentId: string
+  slug: string
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleString('en-GB', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+
+const getStatusBadge = (status: VersionSummary['status']) => {
+  switch (status) {
+    case 'published':
+      return (
+        <Badge variant="default" className="bg-green-500/10 text-green-700 dark:text-green-400 border-green-500/20">
+          Live
+        </Badge>
+      )
+    case 'draft':
+      return (
+        <Badge variant="default" className="bg-blue-500/10 text-blue-700 dark:text-blue-400 border-blue-500/20">
+          Draft
+        </Badge>
+      )
+    case 'archived':
+      return <Badge variant="outline">Archived</Badge>
+  }
+}
+
+export function AgentVersions({ agentId, slug }: AgentVersionsProps) {
+  const [versions, setVersions] = useState<VersionSummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [pendingAction, setPendingAction] = useState<{
+    type: 'publish' | 'discard'
+    version: VersionSummary
+  } | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [diff, setDiff] = useState<{ baseId: string | null; compareId: string | null } | null>(null)
+
+  const fetchVersions = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      const response = await fetch(`/api/${slug}/agents/${agentId}/versions`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load versions')
+        return
+      }
+
+      setVersions(data.versions || [])
+    } catch (error) {
+      console.error('Error fetching versions:', error)
+      toast.error('Failed to load versions')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [agentId, slug])
+
+  useEffect(() => {
+    fetchVersions()
+  }, [fetchVersions])
+
+  const publishedVersion = versions.find((version) => version.status === 'published')
+
+  const handleConfirm = async () => {
+    if (!pendingAction) return
+    const { type, version } = pendingAction
+
+    setIsSubmitting(true)
+    try {
+      const response = type === 'publish'
+        ? await fetch(`/api/${slug}/agents/${agentId}/versions/${version.id}/publish`, { method: 'POST' })
+        : await fetch(`/api/${slug}/agents/${agentId}/versions/${version.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || `Failed to ${type} version`)
+        return
+      }
+
+      if (type === 'publish') {
+        toast.success(
+          version.status === 'draft'
+            ? `Version ${version.version_number} published`
+            : `Rolled back to version ${version.version_number}`,
+          { description: 'New calls will use this configuration.' }
+        )
+      } else {
+        toast.success('Draft discarded')
+      }
+
+      setPendingAction(null)
+      await fetchVersions()
+    } catch (error) {
+      console.error(`Error trying to ${type} version:`, error)
+      toast.error(`Failed to ${type} version`)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle>Version History</CardTitle>
+          <CardDescription>
+            Saving the configuration creates a draft. Calls only use the live version, so
+            publish a draft when it&apos;s ready or roll back to an earlier version.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : versions.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              No versions yet. Save the configuration to create one.
+            </p>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Version</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Saved</TableHead>
+                    <TableHead>Published</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {versions.map((version) => (
+                    <TableRow key={version.id}>
+                      <TableCell>
+                        <div className="font-medium">v{version.version_number}</div>
+                        {version.notes && (
+                          <div className="text-xs text-muted-foreground">{version.notes}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>{getStatusBadge(version.status)}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {formatDate(version.updated_at)}
+                        {version.created_by && <div className="text-xs">{version.created_by}</div>}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {version.published_at ? formatDate(version.published_at) : '-'}
+                        {version.published_by && <div className="text-xs">{version.published_by}</div>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          {publishedVersion && version.id !== publishedVersion.id && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setDiff({ baseId: publishedVersion.id, compareId: version.id })}
+                            >
+                              <GitCompare className="mr-1 h-4 w-4" />
+                              Compare to live
+                            </Button>
+                          )}
+                          {version.status === 'draft' && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setPendingAction({ type: 'discard', version })}
+                              >
+                                <Trash2 className="mr-1 h-4 w-4" />
+                                Discard
+                              </Button>
+                              <Button
+                                size="sm"
+                                onClick={() => setPendingAction({ type: 'publish', version })}
+                              >
+                                <Upload className="mr-1 h-4 w-4" />
+                                Publish
+                              </Button>
+                            </>
+                          )}
+                          {version.status === 'archived' && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setPendingAction({ type: 'publish', version })}
+                            >
+                              <RotateCcw className="mr-1 h-4 w-4" />
+                              Roll back
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+          {versions.length > 1 && (
+            <div className="mt-4 flex justify-end">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDiff({ baseId: versions[1].id, compareId: versions[0].id })}
+              >
+                <GitCompare className="mr-1 h-4 w-4" />
+                Compare versions
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AgentVersionDiffDialog
+        agentId={agentId}
+        slug={slug}
+        versions={versions}
+        open={!!diff}
+        onOpenChange={(open) => !open && setDiff(null)}
+        initialBaseId={diff?.baseId ?? null}
+        initialCompareId={diff?.compareId ?? null}
+      />
+
+      <AlertDialog open={!!pendingAction} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingAction?.type === 'discard'
+                ? 'Discard Draft'
+                : pendingAction?.version.status === 'draft'
+                  ? `Publish Version ${pendingAction?.version.version_number}`
+                  : `Roll Back to Version ${pendingAction?.version.version_number}`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction?.type === 'discard'
+                ? 'Unpublished changes in this draft will be lost. The live version is not affected.'
+                : `New calls will immediately use version ${pendingAction?.version.version_number}.` +
+                  (publishedVersion ? ` Version ${publishedVersion.version_number} will be archived and can be restored later.` : '')}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSubmitting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => {
+                event.preventDefault()
+                handleConfirm()
+              }}
+              disabled={isSubmitting}
+              className={pendingAction?.type === 'discard' ? 'bg-destructive hover:bg-destructive/90' : undefined}
+            >
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {pendingAction?.type === 'discard'
+                ? 'Discard'
+                : pendingAction?.version.status === 'draft' ? 'Publish' : 'Roll back'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  )
+}
@@ -0,0 +1,231 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Loader2, PhoneOutgoing, Plus, X } from 'lucide-react'
+import { toast } from 'sonner'
+
+interface PhoneNumber {
+  id: string
+  phone_number: string
+  friendly_name: string | null
+  provider: string
+  status: string
+  agent: { id: string; name: string } | null
+}
+
+interface OutboundCallDialogProps {
+  agentId: string
+  slug: string
+}
+
+type VariableRow = { name: string; value: string }
+
+export function OutboundCallDialog({ agentId, slug }: OutboundCallDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [to, setTo] = useState('')
+  const [phoneNumberId, setPhoneNumberId] = useState<string>('')
+  const [phoneNumbers, setPhoneNumbers] = useState<PhoneNumber[]>([])
+  const [variables, setVariables] = useState<VariableRow[]>([])
+  const [isLoadingNumbers, setIsLoadingNumbers] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+
+    const fetchPhoneNumbers = async () => {
+      try {
+        setIsLoadingNumbers(true)
+        const response = await fetch(`/api/${slug}/phone-numbers`)
+        const data = await response.json()
+
+        if (!response.ok) {
+          toast.error(data.error || 'Failed to load phone numbers')
+          return
+        }
+
+        // Twilio numbers only - the agent's own numbers first
+        const twilioNumbers = ((data.phoneNumbers || []) as PhoneNumber[])
+          .filter((number) => number.provider === 'twilio' && number.status === 'active')
+          .sort((a, b) => Number(b.agent?.id === agentId) - Number(a.agent?.id === agentId))
+
+        setPhoneNumbers(twilioNumbers)
+        setPhoneNumberId((current) => current || twilioNumbers[0]?.id || '')
+      } catch (error) {
+        console.error('Error fetching phone numbers:', error)
+        toast.error('Failed to load phone numbers')
+      } finally {
+        setIsLoadingNumbers(false)
+      }
+    }
+
+    fetchPhoneNumbers()
+  }, [open, slug, agentId])
+
+  const updateVariable = (index: number, field: keyof VariableRow, value: string) => {
+    setVariables((prev) => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)))
+  }
+
+  const handleSubmit = async () => {
+    const namedVariables = variables.filter((row) => row.name.trim())
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch(`/api/${slug}/agents/${agentId}/outbound-calls`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          to,
+          phoneNumberId: phoneNumberId || undefined,
+          variables: namedVariables.length > 0
+            ? Object.fromEntries(namedVariables.map((row) => [row.name.trim(), row.value]))
+            : undefined,
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to place call')
+        return
+      }
+
+      toast.success(`Calling ${data.call.caller_phone_number}`, {
+        description: 'The agent will start talking once the call is answered. Follow it on the Calls page.',
+      })
+      setOpen(false)
+      setTo('')
+      setVariables([])
+    } catch (error) {
+      console.error('Error placing outbound call:', error)
+      toast.error('Failed to place call')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <PhoneOutgoing className="mr-2 h-4 w-4" />
+          Call a Number
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Call a Number</DialogTitle>
+          <DialogDescription>
+            The agent calls this number using its live configuration.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="outbound-to">Number to call</Label>
+            <Input
+              id="outbound-to"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              placeholder="+447700900123"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="outbound-from">Call from</Label>
+            <Select value={phoneNumberId} onValueChange={setPhoneNumberId} disabled={isLoadingNumbers}>
+              <SelectTrigger id="outbound-from">
+                <SelectValue placeholder={isLoadingNumbers ? 'Loading...' : 'Select a phone number'} />
+              </SelectTrigger>
+              <SelectContent>
+                {phoneNumbers.map((number) => (
+                  <SelectItem key={number.id} value={number.id}>
+                    {number.phone_number}
+                    {number.friendly_name && ` (${number.friendly_name})`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!isLoadingNumbers && phoneNumbers.length === 0 && (
+              <p className="text-xs text-muted-foreground">
+                Add an active Twilio number on the Phone Numbers page to place calls.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Context variables</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setVariables((prev) => [...prev, { name: '', value: '' }])}
+              >
+                <Plus className="mr-1 h-4 w-4" />
+                Add
+              </Button>
+            </div>
+            {variables.length === 0 ? (
+              <p className="text-xs text-muted-foreground">
+                Optional details for this call, e.g. firstName or appointmentTime.
+              </p>
+            ) : (
+              variables.map((row, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    value={row.name}
+                    onChange={(e) => updateVariable(index, 'name', e.target.value)}
+                    placeholder="firstName"
+                    className="flex-1"
+                  />
+                  <Input
+                    value={row.value}
+                    onChange={(e) => updateVariable(index, 'value', e.target.value)}
+                    placeholder="Sam"
+                    className="flex-1"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setVariables((prev) => prev.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !to.trim() || !phoneNumberId}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Call
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -10,6 +10,9 @@ import {
   IconTools,
   IconBook,
   IconCheck,
+  IconSettings,
+  IconSpeakerphone,
+  IconBroadcast,
 } from "@tabler/icons-react"
 
 import { NavMain } from "@/components/nav-main"
@@ -65,6 +68,21 @@ export function AppSidebar({ slug, ...props }: AppSidebarProps) {
       url: `/${slug}/calls`,
       icon: IconPhone,
     },
+    {
+      title: "Live Calls",
+      url: `/${slug}/live`,
+      icon: IconBroadcast,
+    },
+    {
+      title: "Campaigns",
+      url: `/${slug}/campaigns`,
+      icon: IconSpeakerphone,
+    },
+    {
+      title: "Settings",
+      url: `/${slug}/settings`,
+      icon: IconSettings,
+    },
   ]
 
   return (
@@ -1,6 +1,6 @@
 'use client'
 
-import { useMemo, useState, useEffect } from 'react'
+import { useMemo, useState, useEffect, useRef } from 'react'
 import { format } from 'date-fns'
 import {
   Sheet,
@@ -12,7 +12,10 @@ import {
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Badge } from '@/components/ui/badge'
-import type { Call, CallStatus, CallEventType, LatencyStats, CallLatencyStatsEventData } from '@/types/call-events'
+import { Button } from '@/components/ui/button'
+import { Switch } from '@/components/ui/switch'
+import { toast } from 'sonner'
+import type { Call, CallStatus, CallEventType, LatencyStats, CallLatencyStatsEventData, TranscriptItem } from '@/types/call-events'
 import {
   PhoneIcon,
   MessageSquareIcon,
@@ -29,12 +32,18 @@ import {
   BookOpenIcon,
   FileTextIcon,
   CheckCircleIcon,
-  TimerIcon
+  TimerIcon,
+  FlaskConicalIcon,
+  EyeIcon,
+  EyeOffIcon,
+  Loader2Icon
 } from 'lucide-react'
 import { calculateCallCost, formatCurrency, extractConfigDetails, REALTIME_MODEL_PRICING } from '@/lib/pricing'
 import { getLLMModel, getSTTModel, getTTSModel } from '@/lib/models'
 import { AudioEventTimeline } from '@/components/audio-event-timeline'
 import { CallEventsTab } from '@/components/call-events-tab'
+import { CallEvaluationsTab } from '@/components/call-evaluations-tab'
+import { HighlightedText } from '@/components/calls/highlighted-text'
 
 interface AgentEvent {
   id: string
@@ -53,6 +62,10 @@ interface CallDetailSheetProps {
   showCosts?: boolean
   showTimeline?: boolean
   showLatency?: boolean
+  // Tab to open on, e.g. 'transcript' when opened from a search result
+  initialTab?: string
+  // Search match to scroll to and highlight in the transcript
+  highlight?: { itemIndex: number | null; query: string } | null
 }
 
 function formatDuration(seconds: number | null): string {
@@ -84,9 +97,12 @@ function getStatusColor(status: CallStatus): string {
     case 'transferred_to_team':
       return 'bg-yellow-500/10 text-yellow-700 border-yellow-500/20'
     case 'incoming':
+    case 'dialing':
       return 'bg-gray-500/10 text-gray-700 border-gray-500/20'
     case 'failed':
       return 'bg-red-500/10 text-red-700 border-red-500/20'
+    case 'blocked':
+      return 'bg-orange-500/10 text-orange-700 border-orange-500/20'
     default:
       return 'bg-gray-500/10 text-gray-700 border-gray-500/20'
   }
@@ -102,8 +118,12 @@ function getStatusLabel(status: CallStatus): string {
       return 'Transferred'
     case 'incoming':
       return 'Incoming'
+    case 'dialing':
+      return 'Dialing'
     case 'failed':
       return 'Failed'
+    case 'blocked':
+      return 'Blocked'
     default:
       return status
   }
@@ -145,8 +165,20 @@ function getEventLabel(eventType: CallEventType): string {
   switch (eventType) {
     case 'call_incoming':
       return 'Call Received'
+    case 'caller_identified':
+      return 'Caller Identified'
+    case 'call_blocked':
+      return 'Call Blocked'
+    case 'ivr_menu_presented':
+      return 'Menu Played'
+    case 'ivr_option_selected':
+      return 'Menu Option Selected'
+    case 'voicemail_left':
+      return 'Voicemail Left'
     case 'transferred_to_team':
       return 'Transferred to Team'
+    case 'ring_group_dialed':
+      return 'Ring Group Dialled'
     case 'team_no_answer_fallback':
       return 'Team No Answer - Routed to Agent'
     case 'routed_to_agent':
@@ -181,6 +213,14 @@ function getEventLabel(eventType: CallEventType): string {
       return 'Transfer Success'
     case 'transfer_reconnected':
       return 'Transfer Reconnected'
+    case 'supervisor_whisper':
+      return 'Supervisor Whisper'
+    case 'supervisor_barge':
+      return 'Supervisor Joined'
+    case 'supervisor_takeover':
+      return 'Supervisor Took Over'
+    case 'pii_revealed':
+      return 'Redacted Values Viewed'
     case 'room_connected':
       return 'Room Connected'
     case 'session_start':
@@ -190,7 +230,9 @@ function getEventLabel(eventType: CallEventType): string {
   }
 }
 
-export function CallDetailSheet({ call, slug, open, onOpenChange, showEvents = false, showCosts = false, showTimeline = false, showLatency = false }: CallDetailSheetProps) {
+export function CallDetailSheet({ call, slug, open, onOpenChange, showEvents = false, showCosts = false, showTimeline = false, showLatency = false, initialTab, highlight }: CallDetailSheetProps) {
+  const [activeTab, setActiveTab] = useState(initialTab || 'overview')
+  const transcriptItemRefs = useRef<(HTMLDivElement | null)[]>([])
   const [events, setEvents] = useState<AgentEvent[]>([])
   const [loadingEvents, setLoadingEvents] = useState(false)
   const [recordingUrl, setRecordingUrl] = useState<string | null>(null)
@@ -198,6 +240,93 @@ export function CallDetailSheet({ call, slug, open, onOpenChange, showEvents = f
   const [latencyStats, setLatencyStats] = useState<CallLatencyStatsEventData | null>(null)
   const [loadingLatencyStats, setLoadingLatencyStats] = useState(false)
   const [latencyStatsError, setLatencyStatsError] = useState<string | null>(null)
+  const [originalTranscript, setOriginalTranscript] = useState<TranscriptItem[] | null>(null)
+  const [revealing, setRevealing] = useState(false)
+  const [legalHold, setLegalHold] = useState(false)
+  const [savingLegalHold, setSavingLegalHold] = useState(false)
+
+  useEffect(() => {
+    setLegalHold(call?.legal_hold ?? false)
+  }, [call?.id, call?.legal_hold])
+
+  // Calls on legal hold are skipped by the retention purge
+  const handleLegalHoldChange = async (checked: boolean) => {
+    if (!call) return
+
+    setSavingLegalHold(true)
+    try {
+      const response = await fetch(`/api/${slug}/calls/${call.id}/legal-hold`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ legalHold: checked }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to update legal hold')
+        return
+      }
+
+      setLegalHold(data.call.legal_hold)
+      toast.success(data.call.legal_hold ? 'Call placed on legal hold' : 'Legal hold released')
+    } catch (error) {
+      console.error('Failed to update legal hold:', error)
+      toast.error('Failed to update legal hold')
+    } finally {
+      setSavingLegalHold(false)
+    }
+  }
+
+  // Open on the requested tab whenever a different call is shown
+  useEffect(() => {
+    setActiveTab(initialTab || 'overview')
+    setOriginalTranscript(null)
+  }, [call?.id, initialTab])
+
+  // Swap in the transcript from before PII redaction - the request is logged on the call
+  const toggleOriginalTranscript = async () => {
+    if (!call) return
+    if (originalTranscript) {
+      setOriginalTranscript(null)
+      return
+    }
+
+    setRevealing(true)
+    try {
+      const response = await fetch(`/api/${slug}/calls/${call.id}/redactions`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load the original transcript')
+        return
+      }
+
+      if (!data.transcript) {
+        toast.info('No redacted values were kept for this transcript')
+        return
+      }
+
+      setOriginalTranscript(data.transcript)
+    } catch (error) {
+      console.error('Failed to fetch redacted originals:', error)
+      toast.error('Failed to load the original transcript')
+    } finally {
+      setRevealing(false)
+    }
+  }
+
+  // Scroll to the matching transcript item once the transcript tab has rendered
+  useEffect(() => {
+    if (!open || activeTab !== 'transcript' || highlight?.itemIndex == null) return
+
+    const frame = requestAnimationFrame(() => {
+      transcriptItemRefs.current[highlight.itemIndex as number]?.scrollIntoView({
+        behavior: 'smooth',
+        block: 'center',
+      })
+    })
+    return () => cancelAnimationFrame(frame)
+  }, [open, activeTab, highlight?.itemIndex, call?.id])
 
   // Fetch agent events when call changes (only needed for timeline and latency stats)
   useEffect(() => {
@@ -457,15 +586,15 @@ export function CallDetailSheet({ call, slug, open, onOpenChange, showEvents = f
           </SheetDescription>
         </SheetHeader>
 
-        <Tabs defaultValue="overview" className="mt-6">
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="mt-6">
           <TabsList className={`w-full grid ${
             (() => {
-              const count = [true, showEvents, showTimeline, showLatency, showCosts, true].filter(Boolean).length
-              return count === 2 ? 'grid-cols-2' :
-                     count === 3 ? 'grid-cols-3' :
+              const count = [true, showEvents, showTimeline, showLatency, showCosts, true, true].filter(Boolean).length
+              return count === 3 ? 'grid-cols-3' :
                      count === 4 ? 'grid-cols-4' :
                      count === 5 ? 'grid-cols-5' :
-                     'grid-cols-6'
+                     count === 6 ? 'grid-cols-6' :
+                     'grid-cols-7'
             })()
           }`}>
             <TabsTrigger value="overview">
@@ -500,6 +629,10 @@ export function CallDetailSheet({ call, slug, open, onOpenChange, showEvents = f
               <MessageSquareIcon className="size-4" />
               <span className="ml-1 hidden sm:inline">Transcript</span>
             </TabsTrigger>
+            <TabsTrigger value="evaluations">
+              <FlaskConicalIcon className="size-4" />
+              <span className="ml-1 hidden sm:inline">Evals</span>
+            </TabsTrigger>
           </TabsList>
 
           {/* Overview Tab */}
@@ -551,15 +684,40 @@ export function CallDetailSheet({ call, slug, open, onOpenChange, showEvents = f
                   </span>
                 </div>
                 <div className="flex justify-between items-center">
-                  <span className="text-sm text-muted-foreground">Caller</span>
+                  <span className="text-sm text-muted-foreground">Direction</span>
+                  <span className="text-sm font-medium capitalize">{call.direction || 'inbound'}</span>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-muted-foreground">
+                    {call.direction === 'outbound' ? 'Called Number' : 'Caller'}
+                  </span>
                   <span className="text-sm font-medium">{call.caller_phone_number}</span>
                 </div>
                 {call.trunk_phone_number && (
                   <div className="flex justify-between items-center">
-                    <span className="text-sm text-muted-foreground">Trunk Number</span>
+                    <span className="text-sm text-muted-foreground">
+                      {call.direction === 'outbound' ? 'From Number' : 'Trunk Number'}
+                    </span>
                     <span className="text-sm font-medium">{call.trunk_phone_number}</span>
                   </div>
                 )}
+                {call.initiated_by && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-muted-foreground">Placed By</span>
+                    <span className="text-sm font-medium">{call.initiated_by}</span>
+                  </div>
+                )}
+                {call.context_variables && Object.keys(call.context_variables).length > 0 && (
+                  <div className="space-y-1">
+                    <span className="text-sm text-muted-foreground">Context Variables</span>
+                    {Object.entries(call.context_variables).map(([name, value]) => (
+                      <div key={name} className="flex justify-between items-center gap-4 text-xs">
+                        <code>{name}</code>
+                        <span className="font-medium truncate">{String(value)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
                 <div className="flex justify-between items-center">
                   <span className="text-sm text-muted-foreground">Status</span>
                   <Badge variant="outline" className={getStatusColor(call.status)}>
@@ -580,6 +738,27 @@ export function CallDetailSheet({ call, slug, open, onOpenChange, showEvents = f
                     </span>
                   </div>
                 )}
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-muted-foreground">Legal Hold</span>
+                  <Switch
+                    checked={legalHold}
+                    onCheckedChange={handleLegalHoldChange}
+                    disabled={savingLegalHold}
+                  />
+                </div>
+                {(call.recording_purged_at || call.transcript_purged_at || call.events_purged_at || call.caller_anonymized_at) && (
+                  <div className="flex justify-between items-center gap-4">
+                    <span className="text-sm text-muted-foreground">Removed by Retention</span>
+                    <span className="text-xs text-muted-foreground text-right">
+                      {[
+                        call.recording_purged_at && 'Recording',
+                        call.transcript_purged_at && 'Transcript',
+                        call.events_purged_at && 'Events',
+                        call.caller_anonymized_at && 'Caller details',
+                      ].filter(Boolean).join(', ')}
+                    </span>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
@@ -1024,15 +1203,30 @@ export function CallDetailSheet({ call, slug, open, onOpenChange, showEvents = f
           <TabsContent value="transcript" className="mt-4">
             <Card>
               <CardHeader>
-                <CardTitle className="text-base flex items-center gap-2">
-                  <MessageSquareIcon className="size-4" />
-                  Conversation Transcript
-                </CardTitle>
-                <CardDescription>
-                  {call.transcript && call.transcript.length > 0 
-                    ? `${call.transcript.length} messages`
-                    : 'Transcript data'}
-                </CardDescription>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1.5">
+                    <CardTitle className="text-base flex items-center gap-2">
+                      <MessageSquareIcon className="size-4" />
+                      Conversation Transcript
+                    </CardTitle>
+                    <CardDescription>
+                      {call.transcript && call.transcript.length > 0 
+                        ? `${call.transcript.length} messages`
+                        : 'Transcript data'}
+                      {call.redaction && ` · ${call.redaction.count} value${call.redaction.count === 1 ? '' : 's'} redacted`}
+                    </CardDescription>
+                  </div>
+                  {call.redacted_at && (
+                    <Button variant="outline" size="sm" onClick={toggleOriginalTranscript} disabled={revealing}>
+                      {revealing
+                        ? <Loader2Icon className="mr-1 size-4 animate-spin" />
+                        : originalTranscript
+                          ? <EyeOffIcon className="mr-1 size-4" />
+                          : <EyeIcon className="mr-1 size-4" />}
+                      {originalTranscript ? 'Hide Original' : 'Show Original'}
+                    </Button>
+                  )}
+                </div>
               </CardHeader>
               <CardContent>
                 {/* Audio Player */}
@@ -1064,15 +1258,23 @@ export function CallDetailSheet({ call, slug, open, onOpenChange, showEvents = f
                 {/* Transcript Content */}
                 {call.transcript && call.transcript.length > 0 ? (
                   <div className="space-y-3 max-h-[600px] overflow-y-auto pr-2">
-                    {call.transcript.map((item, idx) => (
-                      <div key={idx} className="space-y-1">
+                    {(originalTranscript || call.transcript).map((item, idx) => (
+                      <div
+                        key={idx}
+                        ref={(element) => { transcriptItemRefs.current[idx] = element }}
+                        className={`space-y-1 rounded-lg ${
+                          highlight?.itemIndex === idx ? 'ring-2 ring-yellow-400 ring-offset-2' : ''
+                        }`}
+                      >
                         {item.type === 'message' && (
                           <div>
                             <div className="text-xs font-medium text-muted-foreground mb-1">
                               {item.role === 'user' ? 'User' : 'Assistant'}
                             </div>
                             <div className="text-sm bg-muted p-3 rounded-lg">
-                              {item.content}
+                              {highlight?.query && item.content
+                                ? <HighlightedText text={item.content} query={highlight.query} />
+                                : item.content}
                             </div>
                           </div>
                         )}
@@ -1097,6 +1299,11 @@ export function CallDetailSheet({ call, slug, open, onOpenChange, showEvents = f
               </CardContent>
             </Card>
           </TabsContent>
+
+          {/* Evaluations Tab */}
+          <TabsContent value="evaluations" className="mt-4">
+            <CallEvaluationsTab slug={slug} callId={call.id} />
+          </TabsContent>
         </Tabs>
       </SheetContent>
     </Sheet>
@@ -0,0 +1,266 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { format } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import type {
+  CallEvaluationResultWithEvaluation,
+  CallEvaluationStatus,
+  EvaluationSchemaProperty,
+} from '@/types/evaluations'
+
+import {
+  FlaskConicalIcon,
+  CheckCircle2Icon,
+  XCircleIcon,
+  Loader2Icon,
+  ClockIcon,
+} from 'lucide-react'
+
+interface CallEvaluationsTabProps {
+  slug: string
+  callId: string
+}
+
+// Poll while any evaluation is still in flight
+const POLL_INTERVAL_MS = 5000
+
+function getStatusBadge(status: CallEvaluationStatus) {
+  switch (status) {
+    case 'completed':
+      return (
+        <Badge variant="outline" className="gap-1 text-green-600 border-green-600/30">
+          <CheckCircle2Icon className="size-3" />
+          Completed
+        </Badge>
+      )
+    case 'failed':
+      return (
+        <Badge variant="outline" className="gap-1 text-red-600 border-red-600/30">
+          <XCircleIcon className="size-3" />
+          Failed
+        </Badge>
+      )
+    case 'running':
+      return (
+        <Badge variant="outline" className="gap-1">
+          <Loader2Icon className="size-3 animate-spin" />
+          Running
+        </Badge>
+      )
+    default:
+      return (
+        <Badge variant="outline" className="gap-1 text-muted-foreground">
+          <ClockIcon className="size-3" />
+          Pending
+        </Badge>
+      )
+  }
+}
+
+function formatFieldName(name: string): string {
+  return name
+    .replace(/[_-]+/g, ' ')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/^\w/, c => c.toUpperCase())
+}
+
+function renderValue(value: unknown, schema?: EvaluationSchemaProperty) {
+  if (value === null || value === undefined) {
+    return <span className="text-muted-foreground">—</span>
+  }
+
+  if (typeof value === 'boolean') {
+    return (
+      <Badge variant={value ? 'default' : 'secondary'}>
+        {value ? 'Yes' : 'No'}
+      </Badge>
+    )
+  }
+
+  if (Array.isArray(value) && value.every(v => typeof v !== 'object' || v === null)) {
+    return value.length === 0 ? (
+      <span className="text-muted-foreground">None</span>
+    ) : (
+      <div className="flex flex-wrap gap-1 justify-end">
+        {value.map((v, idx) => (
+          <Badge key={idx} variant="secondary">{String(v)}</Badge>
+        ))}
+      </div>
+    )
+  }
+
+  if (typeof value === 'object') {
+    return (
+      <pre className="text-xs bg-muted/50 p-2 rounded overflow-x-auto text-left whitespace-pre-wrap">
+        {JSON.stringify(value, null, 2)}
+      </pre>
+    )
+  }
+
+  if (schema?.type === 'string' && String(value).length > 60) {
+    return <p className="text-sm text-left whitespace-pre-wrap">{String(value)}</p>
+  }
+
+  return <span className="font-medium">{String(value)}</span>
+}
+
+export function CallEvaluationsTab({ slug, callId }: CallEvaluationsTabProps) {
+  const [results, setResults] = useState<CallEvaluationResultWithEvaluation[]>([])
+  const [loading, setLoading] = useState(false)
+
+  const hasInFlight = results.some(r => r.status === 'pending' || r.status === 'running')
+
+  // Fetch evaluation results when callId changes
+  useEffect(() => {
+    if (!callId) {
+      setResults([])
+      return
+    }
+
+    const fetchResults = async () => {
+      setLoading(true)
+      try {
+        const response = await fetch(`/api/${slug}/calls/${callId}/evaluations`)
+        if (response.ok) {
+          const data = await response.json()
+          setResults(data.results || [])
+        }
+      } catch (error) {
+        console.error('Failed to fetch evaluation results:', error)
+        setResults([])
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchResults()
+  }, [callId, slug])
+
+  // Keep refreshing until every evaluation has completed or failed
+  useEffect(() => {
+    if (!callId || !hasInFlight) return
+
+    const interval = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/${slug}/calls/${callId}/evaluations`)
+        if (response.ok) {
+          const data = await response.json()
+          setResults(data.results || [])
+        }
+      } catch (error) {
+        console.error('Failed to refresh evaluation results:', error)
+      }
+    }, POLL_INTERVAL_MS)
+
+    return () => clearInterval(interval)
+  }, [callId, slug, hasInFlight])
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="text-center py-8 text-muted-foreground">
+          Loading evaluations...
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (results.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base flex items-center gap-2">
+            <FlaskConicalIcon className="size-4" />
+            Evaluations
+          </CardTitle>
+          <CardDescription>
+            Structured outputs from the evaluations assigned to this agent
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="text-center py-8 text-muted-foreground">
+            No evaluations were run for this call
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {results.map((result) => {
+        const schema = result.evaluation?.output_schema
+        const output = result.result || {}
+        // Show fields in schema order, then anything extra the model returned
+        const fieldNames = Array.from(new Set([
+          ...Object.keys(schema?.properties || {}),
+          ...Object.keys(output),
+        ]))
+
+        return (
+          <Card key={result.id}>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-2">
+                <div className="space-y-1">
+                  <CardTitle className="text-base flex items-center gap-2">
+                    <FlaskConicalIcon className="size-4" />
+                    {result.evaluation?.name || 'Deleted evaluation'}
+                  </CardTitle>
+                  {result.evaluation?.description && (
+                    <CardDescription>{result.evaluation.description}</CardDescription>
+                  )}
+                </div>
+                {getStatusBadge(result.status)}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {result.status === 'completed' && (
+                <div className="divide-y">
+                  {fieldNames.map((name) => (
+                    <div key={name} className="flex justify-between items-start gap-4 py-2">
+                      <div className="min-w-0">
+                        <div className="text-sm text-muted-foreground">{formatFieldName(name)}</div>
+                        {schema?.properties?.[name]?.description && (
+                          <div className="text-xs text-muted-foreground/70">
+                            {schema.properties[name].description}
+                          </div>
+                        )}
+                      </div>
+                      <div className="text-sm text-right max-w-[60%]">
+                        {renderValue(output[name], schema?.properties?.[name])}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {result.error_message && result.status !== 'completed' && (
+                <div className="text-sm bg-red-500/10 text-red-600 p-2 rounded">
+                  {result.error_message}
+                </div>
+              )}
+
+              <div className="text-xs text-muted-foreground flex flex-wrap items-center gap-2">
+                {result.model && <span className="font-mono">{result.model}</span>}
+                {result.attempts > 1 && (
+                  <>
+                    <span>•</span>
+                    <span>{result.attempts} attempts</span>
+                  </>
+                )}
+                {result.completed_at && (
+                  <>
+                    <span>•</span>
+                    <span>{format(new Date(result.completed_at), 'HH:mm:ss')}</span>
+                  </>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )
+      })}
+    </div>
+  )
+}
@@ -12,7 +12,14 @@ import {
   ArrowRightIcon,
   ZapIcon,
   BookOpenIcon,
-  TimerIcon
+  TimerIcon,
+  UserCheckIcon,
+  BanIcon,
+  GridIcon,
+  VoicemailIcon,
+  PlayIcon,
+  HeadphonesIcon,
+  EyeIcon
 } from 'lucide-react'
 
 interface AgentEvent {
@@ -44,11 +51,32 @@ function formatTimeDelta(milliseconds: number): string {
 function getEventIcon(eventType: CallEventType) {
   switch (eventType) {
     case 'call_incoming':
+    case 'outbound_call_initiated':
+    case 'outbound_call_answered':
+    case 'outbound_call_failed':
       return <PhoneIcon className="size-4" />
+    case 'caller_identified':
+      return <UserCheckIcon className="size-4" />
+    case 'call_blocked':
+      return <BanIcon className="size-4" />
+    case 'ivr_menu_presented':
+    case 'ivr_option_selected':
+      return <GridIcon className="size-4" />
+    case 'voicemail_left':
+      return <VoicemailIcon className="size-4" />
     case 'transferred_to_team':
     case 'routed_to_agent':
     case 'team_no_answer_fallback':
       return <ArrowRightIcon className="size-4" />
+    case 'ring_group_dialed':
+    case 'transfer_success':
+      return <PhoneIcon className="size-4" />
+    case 'supervisor_whisper':
+    case 'supervisor_barge':
+    case 'supervisor_takeover':
+      return <HeadphonesIcon className="size-4" />
+    case 'pii_revealed':
+      return <EyeIcon className="size-4" />
     case 'room_connected':
       return <ActivityIcon className="size-4" />
     case 'conversation_item_added':
@@ -67,8 +95,36 @@ function getEventLabel(eventType: CallEventType): string {
   switch (eventType) {
     case 'call_incoming':
       return 'Call Received'
+    case 'caller_identified':
+      return 'Caller Identified'
+    case 'call_blocked':
+      return 'Call Blocked'
+    case 'ivr_menu_presented':
+      return 'Menu Played'
+    case 'ivr_option_selected':
+      return 'Menu Option Selected'
+    case 'voicemail_left':
+      return 'Voicemail Left'
+    case 'outbound_call_initiated':
+      return 'Outbound Call Placed'
+    case 'outbound_call_answered':
+      return 'Outbound Call Answered'
+    case 'outbound_call_failed':
+      return 'Outbound Call Not Answered'
     case 'transferred_to_team':
       return 'Transferred to Team'
+    case 'ring_group_dialed':
+      return 'Ring Group Dialled'
+    case 'transfer_success':
+      return 'Transfer Answered'
+    case 'supervisor_whisper':
+      return 'Supervisor Whisper'
+    case 'supervisor_barge':
+      return 'Supervisor Joined'
+    case 'supervisor_takeover':
+      return 'Supervisor Took Over'
+    case 'pii_revealed':
+      return 'Redacted Values Viewed'
     case 'team_no_answer_fallback':
       return 'Team No Answer - Routed to Agent'
     case 'routed_to_agent':
@@ -88,6 +144,53 @@ function getEventLabel(eventType: CallEventType): string {
   }
 }
 
+/**
+ * Loads the stored voicemail on demand - signed URLs expire after an hour
+ */
+function VoicemailPlayer({ slug, callId }: { slug: string; callId: string }) {
+  const [url, setUrl] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/${slug}/calls/${callId}/voicemail`)
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Voicemail not available')
+        return
+      }
+      setUrl(data.recordingUrl)
+    } catch (err) {
+      console.error('Failed to load voicemail:', err)
+      setError('Voicemail not available')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (url) {
+    return <audio controls autoPlay src={url} className="h-8 w-full" />
+  }
+
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <button
+        type="button"
+        onClick={load}
+        disabled={loading}
+        className="inline-flex items-center gap-1 text-primary hover:underline disabled:opacity-50"
+      >
+        <PlayIcon className="size-3" />
+        {loading ? 'Loading...' : 'Play voicemail'}
+      </button>
+      {error && <span className="text-muted-foreground">{error}</span>}
+    </div>
+  )
+}
+
 export function CallEventsTab({ slug, callId }: CallEventsTabProps) {
   const [events, setEvents] = useState<AgentEvent[]>([])
   const [loading, setLoading] = useState(false)
@@ -150,8 +253,22 @@ export function CallEventsTab({ slug, callId }: CallEventsTabProps) {
               // Only show these specific event types
               const allowedTypes: CallEventType[] = [
                 'call_incoming',
+                'caller_identified',
+                'call_blocked',
+                'ivr_menu_presented',
+                'ivr_option_selected',
+                'voicemail_left',
+                'outbound_call_initiated',
+                'outbound_call_answered',
+                'outbound_call_failed',
                 'routed_to_agent',
                 'transferred_to_team',
+                'ring_group_dialed',
+                'transfer_success',
+                'supervisor_whisper',
+                'supervisor_barge',
+                'supervisor_takeover',
+                'pii_revealed',
                 'team_no_answer_fallback',
                 'room_connected',
                 'conversation_item_added',
@@ -258,9 +375,95 @@ export function CallEventsTab({ slug, callId }: CallEventsTabProps) {
                           )
                         })()}
                         
+                        {event.event_type === 'caller_identified' && (() => {
+                          const callerData = event.data as { name?: string | null; tags?: string[]; route?: { transferTo: string; tag: string | null } }
+                          return (
+                            <div className="mt-2 space-y-1 text-sm text-muted-foreground">
+                              <div>
+                                <span className="font-medium text-foreground">{callerData.name || 'Unnamed contact'}</span>
+                                {callerData.tags && callerData.tags.length > 0 && (
+                                  <span> • {callerData.tags.join(', ')}</span>
+                                )}
+                              </div>
+                              {callerData.route && (
+                                <div className="text-xs">
+                                  Sent to {callerData.route.transferTo}
+                                  {callerData.route.tag ? ` (tag "${callerData.route.tag}")` : ' (chosen by CRM)'}
+                                </div>
+                              )}
+                            </div>
+                          )
+                        })()}
+                        
+                        {event.event_type === 'call_blocked' && (() => {
+                          const blockedData = event.data as { reason?: string; pattern?: string; recentCallCount?: number; windowMinutes?: number }
+                          return (
+                            <div className="mt-2 text-sm text-muted-foreground">
+                              {blockedData.reason === 'spam'
+                                ? `Spam: ${blockedData.recentCallCount} earlier calls in ${blockedData.windowMinutes} min`
+                                : `Blocklist: ${blockedData.pattern}`}
+                            </div>
+                          )
+                        })()}
+                        
+                        {event.event_type === 'ivr_menu_presented' && (() => {
+                          const menuData = event.data as { attempt?: number; previousInput?: string | null }
+                          if (!menuData.attempt || menuData.attempt < 2) return null
+                          return (
+                            <div className="mt-2 text-sm text-muted-foreground">
+                              Attempt {menuData.attempt}
+                              {menuData.previousInput ? ` • "${menuData.previousInput}" not recognised` : ''}
+                            </div>
+                          )
+                        })()}
+                        
+                        {event.event_type === 'ivr_option_selected' && (() => {
+                          const optionData = event.data as { label?: string | null; digits?: string | null; speech?: string | null; reason?: string; action?: { type?: string; phoneNumber?: string } }
+                          const actionLabel = optionData.action?.type === 'transfer'
+                            ? `Transfer to ${optionData.action.phoneNumber}`
+                            : optionData.action?.type === 'voicemail' ? 'Voicemail' : 'Agent'
+                          return (
+                            <div className="mt-2 space-y-1 text-sm text-muted-foreground">
+                              <div>
+                                {optionData.label
+                                  ? <span className="font-medium text-foreground">{optionData.label}</span>
+                                  : <span>Default ({optionData.reason === 'timeout' ? 'no input' : 'not recognised'})</span>}
+                                <span> • {actionLabel}</span>
+                              </div>
+                              {(optionData.digits || optionData.speech) && (
+                                <div className="text-xs">
+                                  {optionData.digits ? `Pressed ${optionData.digits}` : `Said "${optionData.speech}"`}
+                                </div>
+                              )}
+                            </div>
+                          )
+                        })()}
+                        
+                        {event.event_type === 'voicemail_left' && (() => {
+                          const voicemailData = event.data as { durationSeconds?: number; transcript?: string | null; notified?: { sms: number; email: number } }
+                          return (
+                            <div className="mt-2 space-y-1.5">
+                              {voicemailData.transcript ? (
+                                <div className="text-sm bg-muted/50 p-2 rounded text-muted-foreground">
+                                  &quot;{voicemailData.transcript}&quot;
+                                </div>
+                              ) : (
+                                <div className="text-sm text-muted-foreground">No transcript</div>
+                              )}
+                              <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                                <span>{voicemailData.durationSeconds ?? 0}s</span>
+                                {voicemailData.notified && (
+                                  <span>Sent to {voicemailData.notified.sms} SMS / {voicemailData.notified.email} email</span>
+                                )}
+                              </div>
+                              <VoicemailPlayer slug={slug} callId={callId} />
+                            </div>
+                          )
+                        })()}
+                        
                         {event.event_type === 'transferred_to_team' && (() => {
-                          const transferData = event.data as { data?: { transferNumber?: string }; transferNumber?: string }
-                          const transferNumber = transferData.data?.transferNumber || transferData.transferNumber
+                          const transferData = event.data as { data?: { transferNumber?: string }; transferNumber?: string; ringGroupName?: string }
+                          const transferNumber = transferData.data?.transferNumber || transferData.transferNumber || transferData.ringGroupName
                           if (transferNumber) {
                             return (
                               <div className="mt-2 text-sm text-muted-foreground">
@@ -270,7 +473,55 @@ export function CallEventsTab({ slug, callId }: CallEventsTabProps) {
                           }
                           return null
                         })()}
+
+                        {event.event_type === 'ring_group_dialed' && (() => {
+                          const ringData = event.data as { ringGroupName?: string; strategy?: string; timeoutSeconds?: number; members?: { label: string; phoneNumber: string }[] }
+                          return (
+                            <div className="mt-2 space-y-1 text-sm text-muted-foreground">
+                              <div>
+                                <span className="font-medium text-foreground">{ringData.ringGroupName}</span>
+                                <span> • {ringData.strategy === 'sequential' ? 'One at a time' : 'All at once'}, {ringData.timeoutSeconds}s</span>
+                              </div>
+                              <div className="text-xs">
+                                Ringing {(ringData.members || []).map((member) => member.label).join(', ')}
+                              </div>
+                            </div>
+                          )
+                        })()}
+
+                        {event.event_type === 'transfer_success' && (() => {
+                          const successData = event.data as { transferTarget?: string; ringGroupName?: string | null; answeredBy?: { label: string; phoneNumber: string } }
+                          return (
+                            <div className="mt-2 text-sm text-muted-foreground">
+                              {successData.answeredBy
+                                ? <>Answered by <span className="font-medium text-foreground">{successData.answeredBy.label}</span> ({successData.answeredBy.phoneNumber}){successData.ringGroupName && ` in ${successData.ringGroupName}`}</>
+                                : <>To: {successData.transferTarget}</>}
+                            </div>
+                          )
+                        })()}
                         
+                        {(event.event_type === 'supervisor_whisper' || event.event_type === 'supervisor_barge' || event.event_type === 'supervisor_takeover') && (() => {
+                          const supervisorData = event.data as { supervisorEmail?: string | null; instruction?: string; phoneNumber?: string }
+                          return (
+                            <div className="mt-2 space-y-1 text-sm text-muted-foreground">
+                              <div>By: {supervisorData.supervisorEmail || 'Supervisor'}</div>
+                              {supervisorData.instruction && (
+                                <div>Instruction: <span className="font-medium text-foreground">&quot;{supervisorData.instruction}&quot;</span></div>
+                              )}
+                              {supervisorData.phoneNumber && <div>To: {supervisorData.phoneNumber}</div>}
+                            </div>
+                          )
+                        })()}
+
+                        {event.event_type === 'pii_revealed' && (() => {
+                          const revealData = event.data as { userEmail?: string | null; role?: string | null }
+                          return (
+                            <div className="mt-2 text-sm text-muted-foreground">
+                              By: {revealData.userEmail || 'Unknown user'}{revealData.role && ` (${revealData.role})`}
+                            </div>
+                          )
+                        })()}
+
                         {(event.event_type === 'knowledge_retrieved' || event.event_type === 'knowledge_retrieved_with_speech') && (() => {
                           const knowledgeData = event.data as { data?: { query?: string; latency_ms?: number; context_length?: number; retrieved_context?: string; speechId?: string }; query?: string; latency_ms?: number; context_length?: number; retrieved_context?: string; speechId?: string }
                           // Handle both nested data structure and flat structure
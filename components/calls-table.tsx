@@ -12,7 +12,7 @@ import {
 } from '@/components/ui/table'
 import { Badge } from '@/components/ui/badge'
 import type { Call, CallStatus } from '@/types/call-events'
-import { PhoneIcon, ClockIcon } from 'lucide-react'
+import { PhoneIcon, PhoneOutgoingIcon, ClockIcon } from 'lucide-react'
 import { CallDetailSheet } from './call-detail-sheet'
 
 interface CallsTableProps {
@@ -41,9 +41,12 @@ function getStatusColor(status: CallStatus): string {
     case 'transferred_to_team':
       return 'bg-yellow-500/10 text-yellow-700 border-yellow-500/20'
     case 'incoming':
+    case 'dialing':
       return 'bg-gray-500/10 text-gray-700 border-gray-500/20'
     case 'failed':
       return 'bg-red-500/10 text-red-700 border-red-500/20'
+    case 'blocked':
+      return 'bg-orange-500/10 text-orange-700 border-orange-500/20'
     default:
       return 'bg-gray-500/10 text-gray-700 border-gray-500/20'
   }
@@ -59,8 +62,12 @@ function getStatusLabel(status: CallStatus): string {
       return 'Transferred'
     case 'incoming':
       return 'Incoming'
+    case 'dialing':
+      return 'Dialing'
     case 'failed':
       return 'Failed'
+    case 'blocked':
+      return 'Blocked'
     default:
       return status
   }
@@ -104,7 +111,11 @@ export function CallsTable({ calls, slug, showEvents = false, showCosts = false,
                   </TableCell>
                   <TableCell>
                     <div className="flex items-center gap-2">
-                      <PhoneIcon className="size-3.5 text-muted-foreground" />
+                      {call.direction === 'outbound' ? (
+                        <PhoneOutgoingIcon className="size-3.5 text-muted-foreground" aria-label="Outbound call" />
+                      ) : (
+                        <PhoneIcon className="size-3.5 text-muted-foreground" />
+                      )}
                       {call.caller_phone_number}
                     </div>
                   </TableCell>
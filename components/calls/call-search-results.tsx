@@ -0,0 +1,103 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { Badge } from '@/components/ui/badge'
+import { PhoneIcon, SearchXIcon } from 'lucide-react'
+import { CallDetailSheet } from '../call-detail-sheet'
+import { HighlightedSnippet } from './highlighted-text'
+import type { Call, CallSearchSnippet } from '@/types/call-events'
+
+type SearchCall = Call & { agents?: { name: string } }
+
+export interface CallSearchResult {
+  call: SearchCall
+  rank: number
+  snippets: CallSearchSnippet[]
+}
+
+interface CallSearchResultsProps {
+  results: CallSearchResult[]
+  query: string
+  slug: string
+  showEvents?: boolean
+  showCosts?: boolean
+  showTimeline?: boolean
+  showLatency?: boolean
+}
+
+function formatOffset(offsetMs: number): string {
+  const totalSeconds = Math.floor(offsetMs / 1000)
+  return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, '0')}`
+}
+
+export function CallSearchResults({ results, query, slug, showEvents = false, showCosts = false, showTimeline = false, showLatency = false }: CallSearchResultsProps) {
+  const [selected, setSelected] = useState<{ call: SearchCall; itemIndex: number | null } | null>(null)
+
+  if (results.length === 0) {
+    return (
+      <div className="rounded-lg border bg-card p-8 text-center">
+        <SearchXIcon className="mx-auto mb-2 size-6 text-muted-foreground" />
+        <p className="text-muted-foreground">No calls mention &quot;{query}&quot;</p>
+      </div>
+    )
+  }
+
+  return (
+    <>
+      <div className="space-y-3">
+        {results.map(({ call, snippets }) => (
+          <div key={call.id} className="rounded-lg border bg-card p-4 space-y-3">
+            <button
+              type="button"
+              className="flex w-full items-center gap-3 text-left text-sm"
+              onClick={() => setSelected({ call, itemIndex: null })}
+            >
+              <span className="font-medium">{call.agents?.name || 'Unknown Agent'}</span>
+              <span className="flex items-center gap-1 text-muted-foreground">
+                <PhoneIcon className="size-3.5" />
+                {call.caller_phone_number}
+              </span>
+              <Badge variant="outline" className="capitalize">
+                {call.status.replace(/_/g, ' ')}
+              </Badge>
+              <span className="ml-auto text-muted-foreground">
+                {format(new Date(call.created_at), 'd MMM, HH:mm')}
+              </span>
+            </button>
+
+            <div className="space-y-2">
+              {snippets.map((snippet, index) => (
+                <button
+                  key={`${snippet.source}-${snippet.itemIndex ?? index}`}
+                  type="button"
+                  className="block w-full rounded-md bg-muted/50 p-2 text-left text-sm hover:bg-muted"
+                  onClick={() => setSelected({ call, itemIndex: snippet.itemIndex })}
+                >
+                  <span className="mr-2 text-xs font-medium capitalize text-muted-foreground">
+                    {snippet.role === 'user' ? 'Caller' : snippet.role || 'Unknown'}
+                    {snippet.offsetMs != null && ` · ${formatOffset(snippet.offsetMs)}`}
+                  </span>
+                  <HighlightedSnippet snippet={snippet.snippet} />
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <CallDetailSheet
+        call={selected?.call ?? null}
+        slug={slug}
+        open={!!selected}
+        showEvents={showEvents}
+        showCosts={showCosts}
+        showTimeline={showTimeline}
+        showLatency={showLatency}
+        initialTab="transcript"
+        highlight={selected ? { itemIndex: selected.itemIndex, query } : null}
+        onOpenChange={(open) => !open && setSelected(null)}
+      />
+    </>
+  )
+}
@@ -2,9 +2,12 @@
 
 import { useState, useEffect } from 'react'
 import { useQuery } from '@tanstack/react-query'
+import Link from 'next/link'
 import { CallsTable } from '../calls-table'
+import { CallSearchResults, type CallSearchResult } from './call-search-results'
 import { Button } from '@/components/ui/button'
 import { DateRangePicker } from '@/components/ui/date-range-picker'
+import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import {
   Select,
@@ -13,8 +16,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
-import { RefreshCwIcon, ChevronLeftIcon, ChevronRightIcon, FilterXIcon } from 'lucide-react'
-import type { Call } from '@/types/call-events'
+import { RefreshCwIcon, ChevronLeftIcon, ChevronRightIcon, FilterXIcon, SearchIcon, RadioIcon } from 'lucide-react'
+import type { Call, CallStatus } from '@/types/call-events'
 
 interface CallsResponse {
   calls: (Call & { agents?: { name: string } })[]
@@ -26,11 +29,34 @@ interface CallsResponse {
   }
 }
 
+interface CallSearchResponse {
+  results: CallSearchResult[]
+  pagination: CallsResponse['pagination']
+}
+
 interface Agent {
   id: string
   name: string
 }
 
+interface Tool {
+  id: string
+  name: string
+  label: string | null
+}
+
+const STATUS_OPTIONS: { value: CallStatus; label: string }[] = [
+  { value: 'dialing', label: 'Dialing' },
+  { value: 'incoming', label: 'Incoming' },
+  { value: 'connected_to_agent', label: 'Connected to agent' },
+  { value: 'transferred_to_team', label: 'Transferred to team' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'failed', label: 'Failed' },
+  { value: 'blocked', label: 'Blocked' },
+]
+
+const MIN_SEARCH_LENGTH = 2
+
 interface CallsContainerProps {
   slug: string
   showEvents?: boolean
@@ -44,11 +70,28 @@ export function CallsContainer({ slug, showEvents = false, showCosts = false, sh
   const [limit, setLimit] = useState(10)
   const [agentId, setAgentId] = useState<string>('all')
   const [dateRange, setDateRange] = useState<{ from: Date; to: Date | undefined } | undefined>()
+  const [status, setStatus] = useState<string>('all')
+  const [toolName, setToolName] = useState<string>('all')
+  const [caller, setCaller] = useState('')
+  const [searchInput, setSearchInput] = useState('')
+  const [searchQuery, setSearchQuery] = useState('')
+  const [debouncedCaller, setDebouncedCaller] = useState('')
+
+  // Debounce free-text inputs so we don't query on every keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearchQuery(searchInput.trim())
+      setDebouncedCaller(caller.trim())
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [searchInput, caller])
+
+  const isSearching = searchQuery.length >= MIN_SEARCH_LENGTH
 
   // Reset to page 1 when filters change
   useEffect(() => {
     setCurrentPage(1)
-  }, [agentId, dateRange, limit])
+  }, [agentId, dateRange, limit, status, toolName, debouncedCaller, searchQuery])
 
   // Fetch agents for filter dropdown
   const { data: agentsData } = useQuery<{ agents: Agent[] }>({
@@ -62,31 +105,82 @@ export function CallsContainer({ slug, showEvents = false, showCosts = false, sh
     },
   })
 
+  // Fetch tools for the "tool invoked" filter
+  const { data: toolsData } = useQuery<{ tools: Tool[] }>({
+    queryKey: ['tools', slug],
+    queryFn: async () => {
+      const response = await fetch(`/api/${slug}/tools`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch tools')
+      }
+      return response.json()
+    },
+  })
+
+  // Filters shared by the calls list and transcript search
+  const buildParams = () => {
+    const params = new URLSearchParams({
+      page: currentPage.toString(),
+      limit: limit.toString(),
+    })
+
+    // Only add agent_id if it's not 'all'
+    if (agentId && agentId !== 'all') params.append('agent_id', agentId)
+    if (dateRange?.from) params.append('date_from', dateRange.from.toISOString().split('T')[0])
+    if (dateRange?.to) params.append('date_to', dateRange.to.toISOString().split('T')[0])
+    if (status !== 'all') params.append('status', status)
+    if (toolName !== 'all') params.append('tool', toolName)
+    if (debouncedCaller) params.append('caller', debouncedCaller)
+
+    return params
+  }
+
+  const filterKey = [currentPage, limit, agentId, dateRange, status, toolName, debouncedCaller]
+
   // Fetch calls with React Query
   // organizationSlug is included in the query key for proper cache isolation per organization
   const { data, isLoading, isRefetching, refetch } = useQuery<CallsResponse>({
-    queryKey: ['calls', slug, currentPage, limit, agentId, dateRange],
+    queryKey: ['calls', slug, ...filterKey],
     queryFn: async () => {
-      const params = new URLSearchParams({
-        page: currentPage.toString(),
-        limit: limit.toString(),
-      })
-      
-      // Only add agent_id if it's not 'all'
-      if (agentId && agentId !== 'all') params.append('agent_id', agentId)
-      if (dateRange?.from) params.append('date_from', dateRange.from.toISOString().split('T')[0])
-      if (dateRange?.to) params.append('date_to', dateRange.to.toISOString().split('T')[0])
-
-      const response = await fetch(`/api/${slug}/calls?${params.toString()}`)
+      const response = await fetch(`/api/${slug}/calls?${buildParams().toString()}`)
       if (!response.ok) {
         throw new Error('Failed to fetch calls')
       }
       return response.json()
     },
+    enabled: !isSearching,
+  })
+
+  // Full-text transcript search, used instead of the list while a query is entered
+  const {
+    data: searchData,
+    isLoading: isSearchLoading,
+    isRefetching: isSearchRefetching,
+    refetch: refetchSearch,
+  } = useQuery<CallSearchResponse>({
+    queryKey: ['calls-search', slug, searchQuery, ...filterKey],
+    queryFn: async () => {
+      const params = buildParams()
+      params.append('q', searchQuery)
+
+      const response = await fetch(`/api/${slug}/calls/search?${params.toString()}`)
+      if (!response.ok) {
+        throw new Error('Failed to search calls')
+      }
+      return response.json()
+    },
+    enabled: isSearching,
   })
 
+  const isRefreshing = isSearching ? isSearchRefetching : isRefetching
+  const pagination = isSearching ? searchData?.pagination : data?.pagination
+
   const handleRefresh = () => {
-    refetch()
+    if (isSearching) {
+      refetchSearch()
+    } else {
+      refetch()
+    }
   }
 
   const handlePreviousPage = () => {
@@ -94,25 +188,35 @@ export function CallsContainer({ slug, showEvents = false, showCosts = false, sh
   }
 
   const handleNextPage = () => {
-    if (data?.pagination) {
-      setCurrentPage((prev) => Math.min(data.pagination.totalPages, prev + 1))
+    if (pagination) {
+      setCurrentPage((prev) => Math.min(pagination.totalPages, prev + 1))
     }
   }
 
   const handleResetFilters = () => {
     setAgentId('all')
     setDateRange(undefined)
+    setStatus('all')
+    setToolName('all')
+    setCaller('')
+    setSearchInput('')
   }
 
   const handleLimitChange = (value: string) => {
     setLimit(parseInt(value))
   }
 
-  const hasActiveFilters = (agentId && agentId !== 'all') || dateRange !== undefined
+  const hasActiveFilters =
+    (agentId && agentId !== 'all') ||
+    dateRange !== undefined ||
+    status !== 'all' ||
+    toolName !== 'all' ||
+    caller !== '' ||
+    searchInput !== ''
 
   const calls = data?.calls || []
-  const pagination = data?.pagination
   const agents = agentsData?.agents || []
+  const tools = toolsData?.tools || []
 
   return (
     <div className="px-4 lg:px-6">
@@ -124,20 +228,38 @@ export function CallsContainer({ slug, showEvents = false, showCosts = false, sh
               View and manage your voice calls
             </p>
           </div>
-          <Button
-            onClick={handleRefresh}
-            disabled={isRefetching}
-            variant="outline"
-            size="sm"
-            className="gap-2"
-          >
-            <RefreshCwIcon className={`size-4 ${isRefetching ? 'animate-spin' : ''}`} />
-            Refresh
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button asChild variant="outline" size="sm" className="gap-2">
+              <Link href={`/${slug}/live`}>
+                <RadioIcon className="size-4" />
+                Live
+              </Link>
+            </Button>
+            <Button
+              onClick={handleRefresh}
+              disabled={isRefreshing}
+              variant="outline"
+              size="sm"
+              className="gap-2"
+            >
+              <RefreshCwIcon className={`size-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
         </div>
 
         {/* Filters */}
         <div className="rounded-lg border bg-card p-4">
+          <div className="relative mb-4">
+            <SearchIcon className="absolute left-3 top-1/2 size-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder='Search transcripts, e.g. viewing "next tuesday" -cancel'
+              className="pl-9"
+            />
+          </div>
+
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
             <div className="space-y-2">
               <Label htmlFor="agent-filter">Agent</Label>
@@ -166,6 +288,50 @@ export function CallsContainer({ slug, showEvents = false, showCosts = false, sh
               />
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="status-filter">Status</Label>
+              <Select value={status} onValueChange={setStatus}>
+                <SelectTrigger id="status-filter">
+                  <SelectValue placeholder="All statuses" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  {STATUS_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="tool-filter">Tool Invoked</Label>
+              <Select value={toolName} onValueChange={setToolName}>
+                <SelectTrigger id="tool-filter">
+                  <SelectValue placeholder="Any tool" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any tool</SelectItem>
+                  {tools.map((tool) => (
+                    <SelectItem key={tool.id} value={tool.name}>
+                      {tool.label || tool.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="caller-filter">Caller</Label>
+              <Input
+                id="caller-filter"
+                value={caller}
+                onChange={(e) => setCaller(e.target.value)}
+                placeholder="Phone number"
+              />
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="page-size">Page Size</Label>
               <Select value={limit.toString()} onValueChange={handleLimitChange}>
@@ -197,13 +363,25 @@ export function CallsContainer({ slug, showEvents = false, showCosts = false, sh
           )}
         </div>
 
-        {isLoading ? (
+        {(isSearching ? isSearchLoading : isLoading) ? (
           <div className="rounded-lg border bg-card p-8 text-center">
-            <p className="text-muted-foreground">Loading calls...</p>
+            <p className="text-muted-foreground">{isSearching ? 'Searching transcripts...' : 'Loading calls...'}</p>
           </div>
         ) : (
           <>
-            <CallsTable calls={calls} slug={slug} showEvents={showEvents} showCosts={showCosts} showTimeline={showTimeline} showLatency={showLatency} />
+            {isSearching ? (
+              <CallSearchResults
+                results={searchData?.results || []}
+                query={searchQuery}
+                slug={slug}
+                showEvents={showEvents}
+                showCosts={showCosts}
+                showTimeline={showTimeline}
+                showLatency={showLatency}
+              />
+            ) : (
+              <CallsTable calls={calls} slug={slug} showEvents={showEvents} showCosts={showCosts} showTimeline={showTimeline} showLatency={showLatency} />
+            )}
             
             {pagination && pagination.totalPages > 1 && (
               <div className="flex items-center justify-between px-2 py-4">
@@ -217,7 +395,7 @@ export function CallsContainer({ slug, showEvents = false, showCosts = false, sh
                     variant="outline"
                     size="sm"
                     onClick={handlePreviousPage}
-                    disabled={currentPage === 1 || isRefetching}
+                    disabled={currentPage === 1 || isRefreshing}
                     className="gap-1"
                   >
                     <ChevronLeftIcon className="size-4" />
@@ -230,7 +408,7 @@ export function CallsContainer({ slug, showEvents = false, showCosts = false, sh
                     variant="outline"
                     size="sm"
                     onClick={handleNextPage}
-                    disabled={currentPage === pagination.totalPages || isRefetching}
+                    disabled={currentPage === pagination.totalPages || isRefreshing}
                     className="gap-1"
                   >
                     Next
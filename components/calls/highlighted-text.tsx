@@ -0,0 +1,60 @@
+'use client'
+
+import { Fragment } from 'react'
+
+const MARK_PATTERN = /<mark>(.*?)<\/mark>/g
+
+/**
+ * Render a search snippet whose matches are wrapped in <mark></mark>
+ * The snippet is split into text nodes rather than injected as HTML
+ */
+export function HighlightedSnippet({ snippet }: { snippet: string }) {
+  const parts: React.ReactNode[] = []
+  let lastIndex = 0
+
+  for (const match of snippet.matchAll(MARK_PATTERN)) {
+    const index = match.index ?? 0
+    if (index > lastIndex) {
+      parts.push(<Fragment key={`t-${index}`}>{snippet.slice(lastIndex, index)}</Fragment>)
+    }
+    parts.push(
+      <mark key={`m-${index}`} className="rounded bg-yellow-200 px-0.5 dark:bg-yellow-500/40">
+        {match[1]}
+      </mark>
+    )
+    lastIndex = index + match[0].length
+  }
+
+  if (lastIndex < snippet.length) {
+    parts.push(<Fragment key="t-end">{snippet.slice(lastIndex)}</Fragment>)
+  }
+
+  return <>{parts}</>
+}
+
+/**
+ * Terms to highlight for a websearch-style query
+ * Drops quotes, excluded (-term) words and the OR operator
+ */
+export function getQueryTerms(query: string): string[] {
+  return query
+    .replace(/"/g, ' ')
+    .split(/\s+/)
+    .filter((term) => term.length > 1 && !term.startsWith('-') && term.toLowerCase() !== 'or')
+}
+
+/**
+ * Highlight every occurrence of the query terms (case-insensitive prefix match,
+ * so "viewing" also marks "viewings")
+ */
+export function HighlightedText({ text, query }: { text: string; query: string }) {
+  const terms = getQueryTerms(query)
+  if (terms.length === 0) return <>{text}</>
+
+  const escaped = terms.map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  const pattern = new RegExp(`\\b(${escaped.join('|')})\\w*`, 'gi')
+
+  return (
+    <HighlightedSnippet snippet={text.replace(pattern, (match) => `<mark>${match}</mark>`)} />
+  )
+}
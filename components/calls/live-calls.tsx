@@ -0,0 +1,266 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import Link from 'next/link'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Empty, EmptyDescription, EmptyHeader, EmptyMedia, EmptyTitle } from '@/components/ui/empty'
+import { SupervisorActions } from './supervisor-actions'
+import { ArrowLeftIcon, ClockIcon, GaugeIcon, PhoneIcon, RadioIcon, WrenchIcon } from 'lucide-react'
+import {
+  applyLiveEvent,
+  INITIAL_LIVE_CALL_STATE,
+  type LiveCall,
+  type LiveCallEvent,
+  type LiveCallState,
+} from '@/lib/live-calls'
+
+type ConnectionState = 'connecting' | 'live' | 'reconnecting'
+
+interface LiveCallsProps {
+  slug: string
+}
+
+function formatElapsed(startedAt: string, now: number): string {
+  const seconds = Math.max(0, Math.floor((now - new Date(startedAt).getTime()) / 1000))
+  const mins = Math.floor(seconds / 60)
+  const secs = seconds % 60
+  return `${mins}:${secs.toString().padStart(2, '0')}`
+}
+
+function getLatencyColor(latencyMs: number): string {
+  if (latencyMs < 1500) return 'text-green-600'
+  if (latencyMs < 3000) return 'text-yellow-600'
+  return 'text-red-600'
+}
+
+function getStateColor(state: string | null): string {
+  switch (state) {
+    case 'speaking':
+      return 'bg-blue-500/10 text-blue-700 border-blue-500/20'
+    case 'thinking':
+      return 'bg-yellow-500/10 text-yellow-700 border-yellow-500/20'
+    case 'away':
+      return 'bg-red-500/10 text-red-700 border-red-500/20'
+    default:
+      return 'bg-gray-500/10 text-gray-700 border-gray-500/20'
+  }
+}
+
+function foldEvents(states: Record<string, LiveCallState>, events: LiveCallEvent[]) {
+  const next = { ...states }
+  for (const event of events) {
+    next[event.callId] = applyLiveEvent(next[event.callId] || INITIAL_LIVE_CALL_STATE, event)
+  }
+  return next
+}
+
+function LiveCallCard({ slug, call, state, now }: { slug: string; call: LiveCall; state: LiveCallState; now: number }) {
+  const transcriptRef = useRef<HTMLDivElement>(null)
+
+  // Follow the conversation as it grows
+  useEffect(() => {
+    transcriptRef.current?.scrollTo({ top: transcriptRef.current.scrollHeight })
+  }, [state.transcript.length, state.interimUserText])
+
+  return (
+    <Card className="flex flex-col">
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <CardTitle className="truncate text-base">{call.agentName || 'Unknown agent'}</CardTitle>
+            <CardDescription className="flex items-center gap-1 font-mono">
+              <PhoneIcon className="size-3" />
+              {call.callerPhoneNumber || 'Unknown caller'}
+              {call.direction === 'outbound' && <span className="font-sans">(outbound)</span>}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-1 text-sm font-medium tabular-nums">
+            <ClockIcon className="size-4 text-muted-foreground" />
+            {formatElapsed(call.startedAt, now)}
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 pt-2">
+          {call.status !== 'connected_to_agent' ? (
+            <Badge variant="outline" className={getStateColor(null)}>
+              {call.status === 'dialing' ? 'Dialing' : 'Connecting'}
+            </Badge>
+          ) : state.ended ? (
+            <Badge variant="outline" className={getStateColor(null)}>Ending</Badge>
+          ) : (
+            <>
+              <Badge variant="outline" className={getStateColor(state.agentState)}>
+                Agent: {state.agentState || '—'}
+              </Badge>
+              <Badge variant="outline" className={getStateColor(state.userState)}>
+                Caller: {state.userState || '—'}
+              </Badge>
+            </>
+          )}
+          <span className="ml-auto flex items-center gap-1 text-sm">
+            <GaugeIcon className="size-4 text-muted-foreground" />
+            {state.latencyMs !== null ? (
+              <span className={`font-medium ${getLatencyColor(state.latencyMs)}`}>
+                {(state.latencyMs / 1000).toFixed(2)}s
+              </span>
+            ) : (
+              <span className="text-muted-foreground">—</span>
+            )}
+          </span>
+        </div>
+      </CardHeader>
+      <CardContent className="flex flex-1 flex-col gap-3">
+        <div ref={transcriptRef} className="h-64 space-y-2 overflow-y-auto rounded-md border bg-muted/30 p-3">
+          {state.transcript.length === 0 && !state.interimUserText ? (
+            <p className="text-sm text-muted-foreground">Waiting for the conversation…</p>
+          ) : (
+            state.transcript.map((line) => line.role === 'supervisor' ? (
+              <p key={line.id} className="text-center text-xs italic text-muted-foreground">{line.text}</p>
+            ) : (
+              <div key={line.id} className={`flex ${line.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                <div
+                  className={`max-w-[85%] rounded-lg px-3 py-1.5 text-sm ${
+                    line.role === 'user' ? 'bg-primary text-primary-foreground' : 'bg-background border'
+                  }`}
+                >
+                  {line.text}
+                  {line.interrupted && <span className="ml-1 text-xs opacity-70">(interrupted)</span>}
+                </div>
+              </div>
+            ))
+          )}
+          {state.interimUserText && (
+            <div className="flex justify-end">
+              <div className="max-w-[85%] rounded-lg border border-dashed px-3 py-1.5 text-sm italic text-muted-foreground">
+                {state.interimUserText}
+              </div>
+            </div>
+          )}
+        </div>
+        <div className="rounded-md border p-3 text-sm">
+          <div className="flex items-center justify-between gap-2">
+            <span className="flex items-center gap-1 font-medium">
+              <WrenchIcon className="size-4 text-muted-foreground" />
+              Last tool
+            </span>
+            {state.toolCount > 0 && (
+              <span className="text-xs text-muted-foreground">{state.toolCount} this call</span>
+            )}
+          </div>
+          {state.lastTool ? (
+            <div className="mt-2 space-y-1">
+              <div className="font-mono text-xs font-medium">{state.lastTool.name}</div>
+              <pre className="max-h-24 overflow-auto whitespace-pre-wrap break-words rounded bg-muted/50 p-2 text-xs">
+                {state.lastTool.output}
+              </pre>
+            </div>
+          ) : (
+            <p className="mt-1 text-muted-foreground">No tools used yet</p>
+          )}
+        </div>
+        {call.status === 'connected_to_agent' && !state.ended && (
+          <SupervisorActions slug={slug} callId={call.id} />
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export function LiveCalls({ slug }: LiveCallsProps) {
+  const [calls, setCalls] = useState<LiveCall[]>([])
+  const [states, setStates] = useState<Record<string, LiveCallState>>({})
+  const [connection, setConnection] = useState<ConnectionState>('connecting')
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const source = new EventSource(`/api/${slug}/calls/live`)
+
+    source.addEventListener('snapshot', (e) => {
+      const data = JSON.parse((e as MessageEvent).data) as { calls: LiveCall[]; events: LiveCallEvent[] }
+      setCalls(data.calls)
+      setStates(foldEvents({}, data.events))
+      setConnection('live')
+    })
+
+    source.addEventListener('calls', (e) => {
+      const data = JSON.parse((e as MessageEvent).data) as { calls: LiveCall[] }
+      const ids = new Set(data.calls.map((c) => c.id))
+      setCalls(data.calls)
+      setStates((prev) => Object.fromEntries(Object.entries(prev).filter(([id]) => ids.has(id))))
+    })
+
+    source.addEventListener('events', (e) => {
+      const data = JSON.parse((e as MessageEvent).data) as { events: LiveCallEvent[] }
+      setStates((prev) => foldEvents(prev, data.events))
+    })
+
+    // EventSource reconnects on its own, the next snapshot replaces everything
+    source.onerror = () => setConnection('reconnecting')
+
+    return () => source.close()
+  }, [slug])
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [])
+
+  return (
+    <div className="px-4 lg:px-6">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Live Calls</h1>
+            <p className="text-muted-foreground">
+              Calls in progress across your agents, updated as they happen
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <Badge
+              variant="outline"
+              className={connection === 'live'
+                ? 'bg-green-500/10 text-green-700 border-green-500/20'
+                : 'bg-yellow-500/10 text-yellow-700 border-yellow-500/20'}
+            >
+              <RadioIcon className={`size-3 ${connection === 'live' ? 'animate-pulse' : ''}`} />
+              {connection === 'live' ? 'Live' : connection === 'connecting' ? 'Connecting' : 'Reconnecting'}
+            </Badge>
+            <Button asChild variant="outline" size="sm" className="gap-2">
+              <Link href={`/${slug}/calls`}>
+                <ArrowLeftIcon className="size-4" />
+                All Calls
+              </Link>
+            </Button>
+          </div>
+        </div>
+
+        {calls.length === 0 ? (
+          <Empty className="border">
+            <EmptyHeader>
+              <EmptyMedia variant="icon">
+                <PhoneIcon />
+              </EmptyMedia>
+              <EmptyTitle>{connection === 'connecting' ? 'Connecting…' : 'No calls in progress'}</EmptyTitle>
+              <EmptyDescription>
+                Calls appear here as soon as they start and drop off when they end.
+              </EmptyDescription>
+            </EmptyHeader>
+          </Empty>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+            {calls.map((call) => (
+              <LiveCallCard
+                key={call.id}
+                slug={slug}
+                call={call}
+                state={states[call.id] || INITIAL_LIVE_CALL_STATE}
+                now={now}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,171 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { toast } from 'sonner'
+import { HeadphonesIcon, Loader2Icon, MessageSquareIcon, PhoneForwardedIcon } from 'lucide-react'
+import { MAX_WHISPER_LENGTH, type SupervisorAction } from '@/lib/live-calls'
+
+// The take-over number is remembered between calls
+const SUPERVISOR_PHONE_STORAGE_KEY = 'supervisor-phone-number'
+
+interface SupervisorActionsProps {
+  slug: string
+  callId: string
+}
+
+export function SupervisorActions({ slug, callId }: SupervisorActionsProps) {
+  const [dialog, setDialog] = useState<'whisper' | 'takeover' | null>(null)
+  const [instruction, setInstruction] = useState('')
+  const [phoneNumber, setPhoneNumber] = useState('')
+  const [pending, setPending] = useState<SupervisorAction | null>(null)
+
+  const supervise = async (action: SupervisorAction, body: Record<string, string> = {}) => {
+    setPending(action)
+    try {
+      const response = await fetch(`/api/${slug}/calls/${callId}/supervise`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, ...body }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to reach the call')
+        return null
+      }
+
+      return data
+    } catch (error) {
+      console.error(`Error sending supervisor ${action}:`, error)
+      toast.error('Failed to reach the call')
+      return null
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const handleWhisper = async () => {
+    if (await supervise('whisper', { instruction })) {
+      toast.success('Instruction sent to the agent')
+      setInstruction('')
+      setDialog(null)
+    }
+  }
+
+  const handleBarge = async () => {
+    // Open the tab on click so it isn't blocked as a popup, then point it at the room
+    const tab = window.open('', '_blank')
+    const data = await supervise('barge')
+    if (tab && data?.joinUrl) {
+      tab.location.href = data.joinUrl
+    } else {
+      tab?.close()
+    }
+  }
+
+  const handleTakeover = async () => {
+    if (await supervise('takeover', { phoneNumber })) {
+      localStorage.setItem(SUPERVISOR_PHONE_STORAGE_KEY, phoneNumber)
+      toast.success(`Transferring the caller to ${phoneNumber}`)
+      setDialog(null)
+    }
+  }
+
+  const openTakeover = () => {
+    setPhoneNumber(localStorage.getItem(SUPERVISOR_PHONE_STORAGE_KEY) || '')
+    setDialog('takeover')
+  }
+
+  return (
+    <>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="flex-1 gap-1" onClick={() => setDialog('whisper')}>
+          <MessageSquareIcon className="size-4" />
+          Whisper
+        </Button>
+        <Button variant="outline" size="sm" className="flex-1 gap-1" onClick={handleBarge} disabled={pending === 'barge'}>
+          {pending === 'barge' ? <Loader2Icon className="size-4 animate-spin" /> : <HeadphonesIcon className="size-4" />}
+          Barge
+        </Button>
+        <Button variant="outline" size="sm" className="flex-1 gap-1" onClick={openTakeover}>
+          <PhoneForwardedIcon className="size-4" />
+          Take Over
+        </Button>
+      </div>
+
+      <Dialog open={dialog === 'whisper'} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Whisper to Agent</DialogTitle>
+            <DialogDescription>
+              The agent follows this instruction from its next reply. The caller doesn&apos;t hear it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor={`whisper-${callId}`}>Instruction</Label>
+            <Textarea
+              id={`whisper-${callId}`}
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              placeholder="Offer a viewing on Saturday morning instead"
+              maxLength={MAX_WHISPER_LENGTH}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)} disabled={pending === 'whisper'}>
+              Cancel
+            </Button>
+            <Button onClick={handleWhisper} disabled={pending === 'whisper' || !instruction.trim()}>
+              {pending === 'whisper' && <Loader2Icon className="mr-1 size-4 animate-spin" />}
+              Send
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={dialog === 'takeover'} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Take Over Call</DialogTitle>
+            <DialogDescription>
+              The caller is transferred to your phone and the agent leaves the call. If you don&apos;t answer, the
+              caller goes back to the agent.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor={`takeover-${callId}`}>Your phone number</Label>
+            <Input
+              id={`takeover-${callId}`}
+              value={phoneNumber}
+              onChange={(e) => setPhoneNumber(e.target.value)}
+              placeholder="+447700900123"
+              className="font-mono"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)} disabled={pending === 'takeover'}>
+              Cancel
+            </Button>
+            <Button onClick={handleTakeover} disabled={pending === 'takeover' || !phoneNumber.trim()}>
+              {pending === 'takeover' && <Loader2Icon className="mr-1 size-4 animate-spin" />}
+              Transfer to Me
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,522 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import {
+  IconArrowLeft,
+  IconLoader2,
+  IconPlayerPause,
+  IconPlayerPlay,
+  IconSettings,
+  IconTrash,
+  IconUpload,
+  IconX,
+} from '@tabler/icons-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { toast } from 'sonner'
+import { CampaignFormDialog } from '@/components/campaigns/campaign-form-dialog'
+import { getCampaignStatusBadge } from '@/components/campaigns/campaigns-list'
+import type { Campaign, CampaignContact, CampaignContactStatus, CampaignStats, CampaignStatus } from '@/types/campaigns'
+
+type CampaignWithDetails = Campaign & {
+  agent: { id: string; name: string } | null
+  phone_number: { id: string; phone_number: string } | null
+  stats?: CampaignStats
+}
+
+interface CampaignDetailProps {
+  slug: string
+  campaignId: string
+}
+
+const CONTACTS_PER_PAGE = 50
+const REFRESH_INTERVAL_MS = 15000
+
+const CONTACT_STATUS_OPTIONS: { value: CampaignContactStatus | 'all'; label: string }[] = [
+  { value: 'all', label: 'All contacts' },
+  { value: 'pending', label: 'Pending' },
+  { value: 'dialing', label: 'Dialing' },
+  { value: 'connected', label: 'Connected' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'failed', label: 'Failed' },
+  { value: 'skipped', label: 'Skipped' },
+]
+
+const CONTACT_STATUS_COLORS: Record<CampaignContactStatus, string> = {
+  pending: 'bg-gray-500/10 text-gray-700 dark:text-gray-400 border-gray-500/20',
+  dialing: 'bg-blue-500/10 text-blue-700 dark:text-blue-400 border-blue-500/20',
+  connected: 'bg-purple-500/10 text-purple-700 dark:text-purple-400 border-purple-500/20',
+  completed: 'bg-green-500/10 text-green-700 dark:text-green-400 border-green-500/20',
+  failed: 'bg-red-500/10 text-red-700 dark:text-red-400 border-red-500/20',
+  skipped: 'bg-amber-500/10 text-amber-700 dark:text-amber-400 border-amber-500/20',
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleString('en-GB', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+
+const formatResult = (result: string | null) => (result ? result.replace(/[_-]/g, ' ') : '-')
+
+export function CampaignDetail({ slug, campaignId }: CampaignDetailProps) {
+  const router = useRouter()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [campaign, setCampaign] = useState<CampaignWithDetails | null>(null)
+  const [contacts, setContacts] = useState<CampaignContact[]>([])
+  const [totalContacts, setTotalContacts] = useState(0)
+  const [page, setPage] = useState(1)
+  const [statusFilter, setStatusFilter] = useState<CampaignContactStatus | 'all'>('all')
+  const [isLoading, setIsLoading] = useState(true)
+  const [isUploading, setIsUploading] = useState(false)
+  const [isUpdating, setIsUpdating] = useState(false)
+  const [settingsOpen, setSettingsOpen] = useState(false)
+  const [pendingAction, setPendingAction] = useState<'cancel' | 'delete' | null>(null)
+  const [importErrors, setImportErrors] = useState<{ row: number; error: string }[]>([])
+
+  const fetchCampaign = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/${slug}/campaigns/${campaignId}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load campaign')
+        return
+      }
+
+      setCampaign(data.campaign)
+    } catch (error) {
+      console.error('Error fetching campaign:', error)
+      toast.error('Failed to load campaign')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [slug, campaignId])
+
+  const fetchContacts = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: CONTACTS_PER_PAGE.toString(),
+      })
+      if (statusFilter !== 'all') {
+        params.set('status', statusFilter)
+      }
+
+      const response = await fetch(`/api/${slug}/campaigns/${campaignId}/contacts?${params}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load contacts')
+        return
+      }
+
+      setContacts(data.contacts || [])
+      setTotalContacts(data.pagination?.total || 0)
+    } catch (error) {
+      console.error('Error fetching campaign contacts:', error)
+      toast.error('Failed to load contacts')
+    }
+  }, [slug, campaignId, page, statusFilter])
+
+  useEffect(() => {
+    fetchCampaign()
+  }, [fetchCampaign])
+
+  useEffect(() => {
+    fetchContacts()
+  }, [fetchContacts])
+
+  // Keep the counts live while calls are being placed (not while editing settings)
+  useEffect(() => {
+    if (campaign?.status !== 'running' || settingsOpen) return
+
+    const interval = setInterval(() => {
+      fetchCampaign()
+      fetchContacts()
+    }, REFRESH_INTERVAL_MS)
+
+    return () => clearInterval(interval)
+  }, [campaign?.status, settingsOpen, fetchCampaign, fetchContacts])
+
+  const updateStatus = async (status: CampaignStatus) => {
+    setIsUpdating(true)
+    try {
+      const response = await fetch(`/api/${slug}/campaigns/${campaignId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to update campaign')
+        return
+      }
+
+      toast.success(
+        status === 'running' ? 'Campaign started' : status === 'paused' ? 'Campaign paused' : 'Campaign cancelled'
+      )
+      setPendingAction(null)
+      await Promise.all([fetchCampaign(), fetchContacts()])
+    } catch (error) {
+      console.error('Error updating campaign status:', error)
+      toast.error('Failed to update campaign')
+    } finally {
+      setIsUpdating(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    setIsUpdating(true)
+    try {
+      const response = await fetch(`/api/${slug}/campaigns/${campaignId}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to delete campaign')
+        return
+      }
+
+      toast.success('Campaign deleted')
+      router.push(`/${slug}/campaigns`)
+    } catch (error) {
+      console.error('Error deleting campaign:', error)
+      toast.error('Failed to delete campaign')
+    } finally {
+      setIsUpdating(false)
+    }
+  }
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    setIsUploading(true)
+    try {
+      const response = await fetch(`/api/${slug}/campaigns/${campaignId}/contacts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ csv: await file.text() }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to import contacts')
+        return
+      }
+
+      const details = [
+        data.columns?.length ? `Variables: ${data.columns.join(', ')}` : null,
+        data.skippedDoNotCall ? `${data.skippedDoNotCall} on the do-not-call list` : null,
+        data.alreadyInCampaign + data.duplicates ? `${data.alreadyInCampaign + data.duplicates} duplicates ignored` : null,
+        data.errors?.length ? `${data.errors.length} rows with errors` : null,
+      ].filter(Boolean)
+
+      toast.success(`Imported ${data.imported} contacts`, {
+        description: details.join(' · ') || undefined,
+      })
+      setImportErrors(data.errors || [])
+      setPage(1)
+      await Promise.all([fetchCampaign(), fetchContacts()])
+    } catch (error) {
+      console.error('Error importing contacts:', error)
+      toast.error('Failed to import contacts')
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <IconLoader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (!campaign) {
+    return <p className="text-muted-foreground">Campaign not found.</p>
+  }
+
+  const isClosed = campaign.status === 'completed' || campaign.status === 'cancelled'
+  const stats = campaign.stats
+  const totalPages = Math.max(1, Math.ceil(totalContacts / CONTACTS_PER_PAGE))
+
+  const statCards = [
+    { label: 'Contacts', value: stats?.total ?? 0, hint: stats?.pending ? `${stats.pending} waiting` : null },
+    { label: 'Dialled', value: stats?.dialled ?? 0, hint: null },
+    { label: 'Connected', value: stats?.connected ?? 0, hint: null },
+    { label: 'Completed', value: stats?.completed ?? 0, hint: null },
+    { label: 'Failed', value: stats?.failed ?? 0, hint: stats?.skipped ? `${stats.skipped} skipped` : null },
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Link href={`/${slug}/campaigns`} className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground">
+          <IconArrowLeft className="mr-1 h-4 w-4" />
+          Campaigns
+        </Link>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="space-y-1">
+            <div className="flex items-center gap-3">
+              <h1 className="text-3xl font-bold tracking-tight">{campaign.name}</h1>
+              {getCampaignStatusBadge(campaign.status)}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {campaign.agent?.name || 'Unknown agent'}
+              {' · '}
+              {campaign.phone_number?.phone_number || "The agent's number"}
+              {' · '}
+              {campaign.timezone}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {!isClosed && (
+              <Button variant="outline" size="sm" onClick={() => setSettingsOpen(true)}>
+                <IconSettings className="mr-1 h-4 w-4" />
+                Settings
+              </Button>
+            )}
+            {(campaign.status === 'draft' || campaign.status === 'paused') && (
+              <Button size="sm" onClick={() => updateStatus('running')} disabled={isUpdating}>
+                <IconPlayerPlay className="mr-1 h-4 w-4" />
+                {campaign.status === 'draft' ? 'Start' : 'Resume'}
+              </Button>
+            )}
+            {campaign.status === 'running' && (
+              <Button size="sm" variant="outline" onClick={() => updateStatus('paused')} disabled={isUpdating}>
+                <IconPlayerPause className="mr-1 h-4 w-4" />
+                Pause
+              </Button>
+            )}
+            {!isClosed && (
+              <Button size="sm" variant="outline" onClick={() => setPendingAction('cancel')} disabled={isUpdating}>
+                <IconX className="mr-1 h-4 w-4" />
+                Cancel Campaign
+              </Button>
+            )}
+            {campaign.status !== 'running' && (
+              <Button size="sm" variant="ghost" onClick={() => setPendingAction('delete')} disabled={isUpdating}>
+                <IconTrash className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+        {statCards.map((stat) => (
+          <Card key={stat.label}>
+            <CardHeader className="pb-2">
+              <CardDescription>{stat.label}</CardDescription>
+              <CardTitle className="text-2xl tabular-nums">{stat.value}</CardTitle>
+            </CardHeader>
+            <CardContent className="h-5 text-xs text-muted-foreground">{stat.hint}</CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Contacts</CardTitle>
+            <CardDescription>
+              Upload a CSV with a <code>phone</code> column. Every other column (e.g. <code>first_name</code>,
+              {' '}<code>appointment_time</code>) is passed to the agent as a variable for that contact&apos;s call.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select
+              value={statusFilter}
+              onValueChange={(value) => {
+                setStatusFilter(value as CampaignContactStatus | 'all')
+                setPage(1)
+              }}
+            >
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CONTACT_STATUS_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!isClosed && (
+              <>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,text/csv"
+                  className="hidden"
+                  onChange={handleFileSelected}
+                />
+                <Button size="sm" onClick={() => fileInputRef.current?.click()} disabled={isUploading}>
+                  {isUploading
+                    ? <IconLoader2 className="mr-1 h-4 w-4 animate-spin" />
+                    : <IconUpload className="mr-1 h-4 w-4" />}
+                  Upload CSV
+                </Button>
+              </>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {importErrors.length > 0 && (
+            <Alert variant="destructive">
+              <AlertTitle>{importErrors.length} rows were not imported</AlertTitle>
+              <AlertDescription>
+                <ul className="list-disc pl-4">
+                  {importErrors.slice(0, 10).map((rowError) => (
+                    <li key={rowError.row}>Row {rowError.row}: {rowError.error}</li>
+                  ))}
+                  {importErrors.length > 10 && <li>…and {importErrors.length - 10} more</li>}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {contacts.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              {statusFilter === 'all' ? 'No contacts yet.' : 'No contacts with this status.'}
+            </p>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead>Phone Number</TableHead>
+                    <TableHead>Variables</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Attempts</TableHead>
+                    <TableHead>Last Result</TableHead>
+                    <TableHead>Next Attempt</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {contacts.map((contact) => (
+                    <TableRow key={contact.id}>
+                      <TableCell className="text-muted-foreground tabular-nums">{contact.row_number}</TableCell>
+                      <TableCell className="font-mono text-sm">{contact.phone_number}</TableCell>
+                      <TableCell className="max-w-xs truncate text-xs text-muted-foreground">
+                        {Object.entries(contact.variables || {})
+                          .map(([name, value]) => `${name}: ${value}`)
+                          .join(' · ') || '-'}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={CONTACT_STATUS_COLORS[contact.status]}>
+                          {contact.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {contact.attempts}/{campaign.max_attempts}
+                      </TableCell>
+                      <TableCell className="text-sm capitalize">{formatResult(contact.last_result)}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {contact.status === 'pending' && contact.next_attempt_at ? formatDate(contact.next_attempt_at) : '-'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>
+                Page {page} of {totalPages} ({totalContacts} contacts)
+              </span>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                  Previous
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <CampaignFormDialog
+        slug={slug}
+        open={settingsOpen}
+        onOpenChange={setSettingsOpen}
+        campaign={campaign}
+        onSaved={() => fetchCampaign()}
+      />
+
+      <AlertDialog open={!!pendingAction} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingAction === 'cancel' ? 'Cancel Campaign' : 'Delete Campaign'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction === 'cancel'
+                ? 'Contacts that haven\'t been reached yet won\'t be called. Calls in progress are not hung up. This cannot be undone.'
+                : 'The campaign and its contact list are deleted. Calls it placed stay in your call history.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isUpdating}>Back</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => {
+                event.preventDefault()
+                if (pendingAction === 'cancel') {
+                  updateStatus('cancelled')
+                } else {
+                  handleDelete()
+                }
+              }}
+              disabled={isUpdating}
+              className="bg-destructive hover:bg-destructive/90"
+            >
+              {isUpdating && <IconLoader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {pendingAction === 'cancel' ? 'Cancel Campaign' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,388 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { IconLoader2, IconPlus, IconX } from '@tabler/icons-react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { toast } from 'sonner'
+import { DEFAULT_TIMEZONE, type DayOfWeek } from '@/types/agent-rules'
+import type { CallingWindow, Campaign, CampaignRetryOutcome } from '@/types/campaigns'
+
+const DAYS: { value: DayOfWeek; label: string }[] = [
+  { value: 'monday', label: 'Mon' },
+  { value: 'tuesday', label: 'Tue' },
+  { value: 'wednesday', label: 'Wed' },
+  { value: 'thursday', label: 'Thu' },
+  { value: 'friday', label: 'Fri' },
+  { value: 'saturday', label: 'Sat' },
+  { value: 'sunday', label: 'Sun' },
+]
+
+const RETRY_OPTIONS: { value: CampaignRetryOutcome; label: string }[] = [
+  { value: 'no-answer', label: 'No answer' },
+  { value: 'busy', label: 'Busy' },
+  { value: 'failed', label: 'Failed to connect' },
+]
+
+// Use the phone number assigned to the agent
+const AGENT_NUMBER = 'agent'
+
+const DEFAULT_WINDOW: CallingWindow = {
+  days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'],
+  startTime: '09:00',
+  endTime: '17:00',
+}
+
+interface AgentOption {
+  id: string
+  name: string
+}
+
+interface PhoneNumberOption {
+  id: string
+  phone_number: string
+  friendly_name: string | null
+  provider: string
+  status: string
+}
+
+interface CampaignFormDialogProps {
+  slug: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Edit this campaign; omit to create a new one
+  campaign?: Campaign
+  onSaved: (campaign: Campaign) => void
+}
+
+function getTimezoneOptions(): string[] {
+  try {
+    return Intl.supportedValuesOf('timeZone')
+  } catch {
+    return [DEFAULT_TIMEZONE, 'UTC']
+  }
+}
+
+export function CampaignFormDialog({ slug, open, onOpenChange, campaign, onSaved }: CampaignFormDialogProps) {
+  const [agents, setAgents] = useState<AgentOption[]>([])
+  const [phoneNumbers, setPhoneNumbers] = useState<PhoneNumberOption[]>([])
+  const [name, setName] = useState('')
+  const [agentId, setAgentId] = useState('')
+  const [phoneNumberId, setPhoneNumberId] = useState(AGENT_NUMBER)
+  const [timezone, setTimezone] = useState(DEFAULT_TIMEZONE)
+  const [windows, setWindows] = useState<CallingWindow[]>([DEFAULT_WINDOW])
+  const [maxConcurrentCalls, setMaxConcurrentCalls] = useState('1')
+  const [maxAttempts, setMaxAttempts] = useState('3')
+  const [retryDelayMinutes, setRetryDelayMinutes] = useState('60')
+  const [retryOn, setRetryOn] = useState<CampaignRetryOutcome[]>(['no-answer', 'busy'])
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+
+    setName(campaign?.name ?? '')
+    setAgentId(campaign?.agent_id ?? '')
+    setPhoneNumberId(campaign?.phone_number_id ?? AGENT_NUMBER)
+    setTimezone(campaign?.timezone ?? DEFAULT_TIMEZONE)
+    setWindows(campaign?.calling_windows?.length ? campaign.calling_windows : [DEFAULT_WINDOW])
+    setMaxConcurrentCalls(String(campaign?.max_concurrent_calls ?? 1))
+    setMaxAttempts(String(campaign?.max_attempts ?? 3))
+    setRetryDelayMinutes(String(campaign?.retry_delay_minutes ?? 60))
+    setRetryOn(campaign?.retry_on ?? ['no-answer', 'busy'])
+
+    const fetchOptions = async () => {
+      try {
+        const [agentsResponse, numbersResponse] = await Promise.all([
+          fetch(`/api/${slug}/agents`),
+          fetch(`/api/${slug}/phone-numbers`),
+        ])
+        const agentsData = await agentsResponse.json()
+        const numbersData = await numbersResponse.json()
+
+        setAgents(agentsData.agents || [])
+        setPhoneNumbers(
+          ((numbersData.phoneNumbers || []) as PhoneNumberOption[]).filter(
+            (number) => number.provider === 'twilio' && number.status === 'active'
+          )
+        )
+      } catch (error) {
+        console.error('Error fetching campaign options:', error)
+        toast.error('Failed to load agents and phone numbers')
+      }
+    }
+
+    fetchOptions()
+  }, [open, slug, campaign])
+
+  const updateWindow = (index: number, update: Partial<CallingWindow>) => {
+    setWindows((prev) => prev.map((window, i) => (i === index ? { ...window, ...update } : window)))
+  }
+
+  const toggleDay = (index: number, day: DayOfWeek) => {
+    const days = windows[index].days
+    updateWindow(index, {
+      days: days.includes(day) ? days.filter((d) => d !== day) : [...days, day],
+    })
+  }
+
+  const toggleRetry = (outcome: CampaignRetryOutcome, checked: boolean) => {
+    setRetryOn((prev) => (checked ? [...prev, outcome] : prev.filter((o) => o !== outcome)))
+  }
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true)
+    try {
+      const response = await fetch(
+        campaign ? `/api/${slug}/campaigns/${campaign.id}` : `/api/${slug}/campaigns`,
+        {
+          method: campaign ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name,
+            agentId,
+            phoneNumberId: phoneNumberId === AGENT_NUMBER ? null : phoneNumberId,
+            timezone,
+            callingWindows: windows,
+            maxConcurrentCalls: Number(maxConcurrentCalls),
+            maxAttempts: Number(maxAttempts),
+            retryDelayMinutes: Number(retryDelayMinutes),
+            retryOn,
+          }),
+        }
+      )
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to save campaign')
+        return
+      }
+
+      toast.success(campaign ? 'Campaign updated' : 'Campaign created')
+      onOpenChange(false)
+      onSaved(data.campaign)
+    } catch (error) {
+      console.error('Error saving campaign:', error)
+      toast.error('Failed to save campaign')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{campaign ? 'Campaign Settings' : 'New Campaign'}</DialogTitle>
+          <DialogDescription>
+            The agent calls each contact inside the calling windows, retrying unanswered calls.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="campaign-name">Name</Label>
+            <Input
+              id="campaign-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Appointment reminders - March"
+              maxLength={255}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="campaign-agent">Agent</Label>
+              <Select value={agentId} onValueChange={setAgentId}>
+                <SelectTrigger id="campaign-agent">
+                  <SelectValue placeholder="Select an agent" />
+                </SelectTrigger>
+                <SelectContent>
+                  {agents.map((agent) => (
+                    <SelectItem key={agent.id} value={agent.id}>
+                      {agent.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="campaign-from">Call from</Label>
+              <Select value={phoneNumberId} onValueChange={setPhoneNumberId}>
+                <SelectTrigger id="campaign-from">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AGENT_NUMBER}>The agent&apos;s number</SelectItem>
+                  {phoneNumbers.map((number) => (
+                    <SelectItem key={number.id} value={number.id}>
+                      {number.phone_number}
+                      {number.friendly_name && ` (${number.friendly_name})`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Calling windows</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setWindows((prev) => [...prev, DEFAULT_WINDOW])}
+              >
+                <IconPlus className="mr-1 h-4 w-4" />
+                Add Window
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="campaign-timezone" className="text-sm text-muted-foreground">Timezone</Label>
+              <Select value={timezone} onValueChange={setTimezone}>
+                <SelectTrigger id="campaign-timezone">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {getTimezoneOptions().map((zone) => (
+                    <SelectItem key={zone} value={zone}>
+                      {zone}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {windows.map((window, index) => (
+              <div key={index} className="space-y-3 rounded-md border p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex flex-wrap gap-2">
+                    {DAYS.map((day) => (
+                      <button
+                        key={day.value}
+                        type="button"
+                        onClick={() => toggleDay(index, day.value)}
+                        className={`
+                          px-3 py-1.5 text-sm font-medium rounded-md border transition-colors
+                          ${
+                            window.days.includes(day.value)
+                              ? 'bg-primary text-primary-foreground border-primary'
+                              : 'bg-background text-muted-foreground border-input hover:bg-muted'
+                          }
+                        `}
+                      >
+                        {day.label}
+                      </button>
+                    ))}
+                  </div>
+                  {windows.length > 1 && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setWindows((prev) => prev.filter((_, i) => i !== index))}
+                    >
+                      <IconX className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <Input
+                    type="time"
+                    value={window.startTime}
+                    onChange={(e) => updateWindow(index, { startTime: e.target.value })}
+                  />
+                  <Input
+                    type="time"
+                    value={window.endTime}
+                    onChange={(e) => updateWindow(index, { endTime: e.target.value })}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="campaign-concurrency">Max concurrent calls</Label>
+              <Input
+                id="campaign-concurrency"
+                type="number"
+                min={1}
+                max={50}
+                value={maxConcurrentCalls}
+                onChange={(e) => setMaxConcurrentCalls(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="campaign-attempts">Attempts per contact</Label>
+              <Input
+                id="campaign-attempts"
+                type="number"
+                min={1}
+                max={10}
+                value={maxAttempts}
+                onChange={(e) => setMaxAttempts(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="campaign-retry-delay">Retry after (minutes)</Label>
+              <Input
+                id="campaign-retry-delay"
+                type="number"
+                min={1}
+                max={10080}
+                value={retryDelayMinutes}
+                onChange={(e) => setRetryDelayMinutes(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Retry when the call is</Label>
+            <div className="flex flex-wrap gap-4">
+              {RETRY_OPTIONS.map((option) => (
+                <label key={option.value} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={retryOn.includes(option.value)}
+                    onCheckedChange={(checked) => toggleRetry(option.value, checked === true)}
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !name.trim() || !agentId}>
+            {isSubmitting && <IconLoader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {campaign ? 'Save' : 'Create'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,185 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { IconLoader2, IconPlus, IconSpeakerphone } from '@tabler/icons-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Empty,
+  EmptyContent,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from '@/components/ui/empty'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { toast } from 'sonner'
+import { CampaignFormDialog } from '@/components/campaigns/campaign-form-dialog'
+import type { Campaign, CampaignStats, CampaignStatus } from '@/types/campaigns'
+
+type CampaignWithStats = Campaign & {
+  agent: { id: string; name: string } | null
+  stats?: CampaignStats
+}
+
+interface CampaignsListProps {
+  slug: string
+}
+
+export function getCampaignStatusBadge(status: CampaignStatus) {
+  switch (status) {
+    case 'running':
+      return (
+        <Badge variant="default" className="bg-green-500/10 text-green-700 dark:text-green-400 border-green-500/20">
+          Running
+        </Badge>
+      )
+    case 'paused':
+      return (
+        <Badge variant="default" className="bg-amber-500/10 text-amber-700 dark:text-amber-400 border-amber-500/20">
+          Paused
+        </Badge>
+      )
+    case 'completed':
+      return (
+        <Badge variant="default" className="bg-blue-500/10 text-blue-700 dark:text-blue-400 border-blue-500/20">
+          Completed
+        </Badge>
+      )
+    case 'cancelled':
+      return <Badge variant="outline">Cancelled</Badge>
+    default:
+      return <Badge variant="secondary">Draft</Badge>
+  }
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleString('en-GB', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  })
+
+export function CampaignsList({ slug }: CampaignsListProps) {
+  const router = useRouter()
+  const [campaigns, setCampaigns] = useState<CampaignWithStats[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [createOpen, setCreateOpen] = useState(false)
+
+  const fetchCampaigns = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      const response = await fetch(`/api/${slug}/campaigns`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load campaigns')
+        return
+      }
+
+      setCampaigns(data.campaigns || [])
+    } catch (error) {
+      console.error('Error fetching campaigns:', error)
+      toast.error('Failed to load campaigns')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [slug])
+
+  useEffect(() => {
+    fetchCampaigns()
+  }, [fetchCampaigns])
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Campaigns</h1>
+          <p className="text-muted-foreground">
+            Have an agent call a list of contacts
+          </p>
+        </div>
+        <Button onClick={() => setCreateOpen(true)}>
+          <IconPlus className="mr-2 h-4 w-4" />
+          New Campaign
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <IconLoader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : campaigns.length === 0 ? (
+        <Empty>
+          <EmptyHeader>
+            <EmptyMedia variant="icon">
+              <IconSpeakerphone />
+            </EmptyMedia>
+            <EmptyTitle>No campaigns yet</EmptyTitle>
+            <EmptyDescription>
+              Create a campaign, upload a CSV of contacts and start it - the agent works through the list.
+            </EmptyDescription>
+          </EmptyHeader>
+          <EmptyContent>
+            <Button onClick={() => setCreateOpen(true)}>
+              <IconPlus className="mr-2 h-4 w-4" />
+              New Campaign
+            </Button>
+          </EmptyContent>
+        </Empty>
+      ) : (
+        <div className="rounded-lg border overflow-hidden">
+          <Table>
+            <TableHeader className="bg-muted/50">
+              <TableRow className="hover:bg-transparent">
+                <TableHead className="font-semibold">Name</TableHead>
+                <TableHead className="font-semibold">Agent</TableHead>
+                <TableHead className="font-semibold">Status</TableHead>
+                <TableHead className="font-semibold text-right">Contacts</TableHead>
+                <TableHead className="font-semibold text-right">Dialled</TableHead>
+                <TableHead className="font-semibold text-right">Connected</TableHead>
+                <TableHead className="font-semibold text-right">Completed</TableHead>
+                <TableHead className="font-semibold text-right">Failed</TableHead>
+                <TableHead className="font-semibold">Created</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {campaigns.map((campaign) => (
+                <TableRow
+                  key={campaign.id}
+                  className="cursor-pointer"
+                  onClick={() => router.push(`/${slug}/campaigns/${campaign.id}`)}
+                >
+                  <TableCell className="font-medium">{campaign.name}</TableCell>
+                  <TableCell>{campaign.agent?.name || '-'}</TableCell>
+                  <TableCell>{getCampaignStatusBadge(campaign.status)}</TableCell>
+                  <TableCell className="text-right tabular-nums">{campaign.stats?.total ?? 0}</TableCell>
+                  <TableCell className="text-right tabular-nums">{campaign.stats?.dialled ?? 0}</TableCell>
+                  <TableCell className="text-right tabular-nums">{campaign.stats?.connected ?? 0}</TableCell>
+                  <TableCell className="text-right tabular-nums">{campaign.stats?.completed ?? 0}</TableCell>
+                  <TableCell className="text-right tabular-nums">{campaign.stats?.failed ?? 0}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{formatDate(campaign.created_at)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <CampaignFormDialog
+        slug={slug}
+        open={createOpen}
+        onOpenChange={setCreateOpen}
+        onSaved={(campaign) => router.push(`/${slug}/campaigns/${campaign.id}`)}
+      />
+    </div>
+  )
+}
@@ -41,6 +41,7 @@ import { SiteMapSelector } from "./SiteMapSelector"
 const urlSchema = z.object({
   name: z.string().min(1, "Name is required"),
   url: z.string().url("Must be a valid URL"),
+  syncSchedule: z.enum(["never", "daily", "weekly"]).default("never"),
 })
 
 const textSchema = z.object({
@@ -110,7 +111,7 @@ export function AddItemDialog({
 
   const urlForm = useForm({
     resolver: zodResolver(urlSchema),
-    defaultValues: { name: "", url: "" },
+    defaultValues: { name: "", url: "", syncSchedule: "never" as const },
   })
 
   const textForm = useForm({
@@ -202,6 +203,7 @@ export function AddItemDialog({
 
       if (type === 'url' && 'url' in values) {
         formData.append('url', values.url)
+        formData.append('sync_schedule', values.syncSchedule)
       } else if (type === 'text' && 'text_content' in values) {
         formData.append('text_content', values.text_content)
       } else if (type === 'file' && selectedFile) {
@@ -313,6 +315,7 @@ export function AddItemDialog({
           name,
           url,
           type: 'url',
+          syncSchedule: urlForm.getValues('syncSchedule'),
         }
       })
 
@@ -439,6 +442,32 @@ export function AddItemDialog({
                   )}
                 />
 
+                <FormField
+                  control={urlForm.control}
+                  name="syncSchedule"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Re-sync</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select sync frequency" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="never">Never</SelectItem>
+                          <SelectItem value="daily">Daily</SelectItem>
+                          <SelectItem value="weekly">Weekly</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        Re-scrape the page on a schedule to pick up changes
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 {scrapedUrls.length > 0 ? (
                   <>
                     <div className="space-y-4">
@@ -574,7 +603,7 @@ export function AddItemDialog({
                       <FormControl>
                         <Input
                           type="file"
-                          accept=".pdf,.docx,.xlsx,.csv,.txt,.md"
+                          accept=".pdf,.docx,.csv,.txt,.md"
                           onChange={(e) => {
                             const file = e.target.files?.[0]
                             if (file) {
@@ -586,7 +615,7 @@ export function AddItemDialog({
                         />
                       </FormControl>
                       <FormDescription>
-                        Upload a file (PDF, DOCX, XLSX, CSV, TXT, MD)
+                        Upload a file (PDF, DOCX, CSV, TXT, MD)
                       </FormDescription>
                       <FormMessage />
                     </FormItem>
@@ -672,7 +701,7 @@ export function AddItemDialog({
                         </SelectContent>
                       </Select>
                       <FormDescription>
-                        Scheduling coming soon - this setting is saved for future use
+                        How often properties are re-synced from Rightmove
                       </FormDescription>
                       <FormMessage />
                     </FormItem>
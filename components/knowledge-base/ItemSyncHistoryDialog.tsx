@@ -0,0 +1,194 @@
+'use client'
+
+import { useQuery } from "@tanstack/react-query"
+import { formatDistanceToNow } from "date-fns"
+import { IconLoader2, IconHistory } from "@tabler/icons-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty"
+import type { KnowledgeBaseItemSync } from "@/types/knowledge-base"
+
+interface ItemSyncHistoryDialogProps {
+  slug: string
+  knowledgeBaseId: string
+  item: { id: string; name: string; last_synced_at?: string | null; next_sync_at?: string | null } | null
+  onOpenChange: (open: boolean) => void
+}
+
+const formatDuration = (sync: KnowledgeBaseItemSync): string => {
+  if (!sync.completed_at) return '-'
+  const seconds = Math.round(
+    (new Date(sync.completed_at).getTime() - new Date(sync.started_at).getTime()) / 1000
+  )
+  if (seconds < 60) return `${seconds}s`
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+// Summarise per-run change counts (recorded for Rightmove agents)
+const formatChanges = (stats: KnowledgeBaseItemSync['stats']): string => {
+  if (!stats) return '-'
+  const parts: string[] = []
+  if (stats.added) parts.push(`+${stats.added} new`)
+  if (stats.updated) parts.push(`${stats.updated} updated`)
+  if (stats.removed) parts.push(`-${stats.removed} removed`)
+  if (stats.priceChanged) parts.push(`${stats.priceChanged} price changes`)
+  if (stats.failed) parts.push(`${stats.failed} failed`)
+  return parts.length > 0 ? parts.join(', ') : 'No changes'
+}
+
+const getSyncStatusBadge = (status: KnowledgeBaseItemSync['status']) => {
+  switch (status) {
+    case 'completed':
+      return (
+        <Badge variant="default" className="bg-green-500/10 text-green-700 dark:text-green-400 border-green-500/20">
+          Completed
+        </Badge>
+      )
+    case 'running':
+      return (
+        <Badge variant="default" className="bg-blue-500/10 text-blue-700 dark:text-blue-400 border-blue-500/20">
+          <IconLoader2 className="h-3 w-3 mr-1 animate-spin" />
+          Running
+        </Badge>
+      )
+    case 'failed':
+      return <Badge variant="destructive">Failed</Badge>
+  }
+}
+
+export function ItemSyncHistoryDialog({ slug, knowledgeBaseId, item, onOpenChange }: ItemSyncHistoryDialogProps) {
+  const { data: syncs = [], isLoading } = useQuery<KnowledgeBaseItemSync[]>({
+    queryKey: ['knowledge-base-item-syncs', slug, knowledgeBaseId, item?.id],
+    queryFn: async () => {
+      const response = await fetch(
+        `/api/${slug}/knowledge-bases/${knowledgeBaseId}/items/${item?.id}/syncs`
+      )
+      if (!response.ok) {
+        throw new Error('Failed to fetch sync history')
+      }
+      const data = await response.json()
+      return data.syncs || []
+    },
+    enabled: !!item,
+    // Keep polling while a sync is in flight
+    refetchInterval: (query) => {
+      const syncs = query.state.data || []
+      return syncs.some(sync => sync.status === 'running') ? 5000 : false
+    },
+  })
+
+  return (
+    <Dialog open={!!item} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Sync History</DialogTitle>
+          <DialogDescription>
+            {item?.name}
+            {item?.last_synced_at && (
+              <> · Last synced {formatDistanceToNow(new Date(item.last_synced_at), { addSuffix: true })}</>
+            )}
+            {item?.next_sync_at && (
+              <> · Next sync {formatDistanceToNow(new Date(item.next_sync_at), { addSuffix: true })}</>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <IconLoader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : syncs.length === 0 ? (
+          <Empty>
+            <EmptyHeader>
+              <EmptyMedia variant="icon">
+                <IconHistory />
+              </EmptyMedia>
+              <EmptyTitle>No Syncs Yet</EmptyTitle>
+              <EmptyDescription>
+                Syncs will appear here once this item has been processed.
+              </EmptyDescription>
+            </EmptyHeader>
+          </Empty>
+        ) : (
+          <div className="rounded-md border max-h-[400px] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Trigger</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Changes</TableHead>
+                  <TableHead className="text-right">Chunks</TableHead>
+                  <TableHead className="text-right">Duration</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {syncs.map((sync) => (
+                  <TableRow key={sync.id}>
+                    <TableCell className="text-sm">
+                      {new Date(sync.started_at).toLocaleString('en-GB', {
+                        day: 'numeric',
+                        month: 'short',
+                        hour: '2-digit',
+                        minute: '2-digit',
+                      })}
+                      {sync.error_message && (
+                        <p className="text-xs text-destructive mt-1 max-w-xs break-words">
+                          {sync.error_message}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="capitalize text-xs">
+                        {sync.trigger}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {getSyncStatusBadge(sync.status)}
+                        {sync.attempts > 1 && (
+                          <span className="text-xs text-muted-foreground">
+                            {sync.attempts} attempts
+                          </span>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground max-w-[180px]">
+                      {formatChanges(sync.stats)}
+                    </TableCell>
+                    <TableCell className="text-right text-sm text-muted-foreground">
+                      {sync.chunks_created ?? '-'}
+                    </TableCell>
+                    <TableCell className="text-right text-sm text-muted-foreground">
+                      {formatDuration(sync)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -3,7 +3,8 @@
 import { useState, useEffect, useMemo } from "react"
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
 import { useRouter } from "next/navigation"
-import { IconLoader2, IconTrash, IconFile, IconLink, IconFileText, IconDatabase, IconExternalLink, IconRefresh, IconChevronLeft, IconChevronRight, IconBuilding, IconHome, IconSparkles } from "@tabler/icons-react"
+import { IconLoader2, IconTrash, IconFile, IconLink, IconFileText, IconDatabase, IconExternalLink, IconRefresh, IconChevronLeft, IconChevronRight, IconBuilding, IconHome, IconSparkles, IconHistory } from "@tabler/icons-react"
+import { formatDistanceToNow } from "date-fns"
 import { Checkbox } from "@/components/ui/checkbox"
 import {
   Table,
@@ -55,6 +56,7 @@ import {
   SelectValue,
 } from "@/components/ui/select"
 import { AddItemDialog } from './AddItemDialog'
+import { ItemSyncHistoryDialog } from './ItemSyncHistoryDialog'
 import { toast } from "sonner"
 
 interface KnowledgeBaseItem {
@@ -70,6 +72,8 @@ interface KnowledgeBaseItem {
   created_at: string
   updated_at: string
   sync_error?: string | null
+  last_synced_at?: string | null
+  next_sync_at?: string | null
   extracted_keywords?: string[] | null
   keyword_extraction_status?: 'pending' | 'processing' | 'completed' | 'failed' | null
 }
@@ -97,6 +101,7 @@ export function KnowledgeBaseItemsTable({ slug, knowledgeBaseId }: KnowledgeBase
   const [pageSize, setPageSize] = useState<number>(50)
   const [currentPage, setCurrentPage] = useState<number>(1)
   const [resyncingItems, setResyncingItems] = useState<Set<string>>(new Set())
+  const [historyItem, setHistoryItem] = useState<KnowledgeBaseItem | null>(null)
   const queryClient = useQueryClient()
 
   const handleEstateAgentClick = (itemId: string) => {
@@ -737,12 +742,13 @@ export function KnowledgeBaseItemsTable({ slug, knowledgeBaseId }: KnowledgeBase
                         className={someSelected ? "data-[state=checked]:bg-primary" : ""}
                       />
                     </TableHead>
-                    <TableHead className="w-[35%]">Name</TableHead>
-                    <TableHead className="w-[12%]">Type</TableHead>
-                    <TableHead className="w-[18%]">Status</TableHead>
-                    <TableHead className="w-[10%]">Properties</TableHead>
-                    <TableHead className="w-[13%]">Created</TableHead>
-                    <TableHead className="w-[10%] text-right">Actions</TableHead>
+                    <TableHead className="w-[30%]">Name</TableHead>
+                    <TableHead className="w-[10%]">Type</TableHead>
+                    <TableHead className="w-[15%]">Status</TableHead>
+                    <TableHead className="w-[8%]">Properties</TableHead>
+                    <TableHead className="w-[15%]">Synced</TableHead>
+                    <TableHead className="w-[10%]">Created</TableHead>
+                    <TableHead className="w-[12%] text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -752,6 +758,7 @@ export function KnowledgeBaseItemsTable({ slug, knowledgeBaseId }: KnowledgeBase
                     const displayUrl = item.url ? truncateText(item.url, 50) : null
                     const isEstateAgent = item.type === 'rightmove_agent'
                     const propertyCount = childrenCounts[item.id] || 0
+                    const isSyncable = item.type === 'rightmove_agent' || item.type === 'url'
                     
                     return (
                       <TableRow 
@@ -862,6 +869,22 @@ export function KnowledgeBaseItemsTable({ slug, knowledgeBaseId }: KnowledgeBase
                           )}
                         </TableCell>
 
+                        {/* Synced Column */}
+                        <TableCell className="text-sm text-muted-foreground">
+                          {item.last_synced_at ? (
+                            <div className="flex flex-col">
+                              <span>{formatDistanceToNow(new Date(item.last_synced_at), { addSuffix: true })}</span>
+                              {item.next_sync_at && (
+                                <span className="text-xs">
+                                  Next {formatDistanceToNow(new Date(item.next_sync_at), { addSuffix: true })}
+                                </span>
+                              )}
+                            </div>
+                          ) : (
+                            <span>-</span>
+                          )}
+                        </TableCell>
+
                         {/* Created Column */}
                         <TableCell className="text-sm text-muted-foreground">
                           {new Date(item.created_at).toLocaleDateString('en-US', {
@@ -874,6 +897,20 @@ export function KnowledgeBaseItemsTable({ slug, knowledgeBaseId }: KnowledgeBase
                         {/* Actions Column */}
                         <TableCell className="text-right" onClick={(e) => e.stopPropagation()}>
                           <div className="flex items-center justify-end gap-1">
+                            {isSyncable && (
+                              <Button
+                                variant="ghost"
+                                size="icon-sm"
+                                className="opacity-0 group-hover:opacity-100 transition-opacity"
+                                onClick={(e) => {
+                                  e.stopPropagation()
+                                  setHistoryItem(item)
+                                }}
+                                title="Sync history"
+                              >
+                                <IconHistory className="h-4 w-4" />
+                              </Button>
+                            )}
                             {item.type === 'rightmove_agent' && (
                               <Button
                                 variant="ghost"
@@ -958,6 +995,13 @@ export function KnowledgeBaseItemsTable({ slug, knowledgeBaseId }: KnowledgeBase
         </CardContent>
       </Card>
 
+      <ItemSyncHistoryDialog
+        slug={slug}
+        knowledgeBaseId={knowledgeBaseId}
+        item={historyItem}
+        onOpenChange={(open) => !open && setHistoryItem(null)}
+      />
+
       <AlertDialog open={!!itemToDelete} onOpenChange={(open) => !open && setItemToDelete(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
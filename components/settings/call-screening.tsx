@@ -0,0 +1,359 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { IconLoader2, IconPlus, IconShieldCheck, IconTrash } from '@tabler/icons-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { toast } from 'sonner'
+import type {
+  CallScreeningEntry,
+  CallScreeningSettings,
+  ScreeningListType,
+  ScreeningRejectAction,
+} from '@/types/call-screening'
+
+interface CallScreeningProps {
+  slug: string
+}
+
+const getListBadge = (listType: ScreeningListType) => {
+  switch (listType) {
+    case 'block':
+      return (
+        <Badge variant="default" className="bg-red-500/10 text-red-700 dark:text-red-400 border-red-500/20">
+          Block
+        </Badge>
+      )
+    case 'transfer':
+      return (
+        <Badge variant="default" className="bg-amber-500/10 text-amber-700 dark:text-amber-400 border-amber-500/20">
+          Always human
+        </Badge>
+      )
+    case 'agent':
+      return (
+        <Badge variant="default" className="bg-blue-500/10 text-blue-700 dark:text-blue-400 border-blue-500/20">
+          Always agent
+        </Badge>
+      )
+  }
+}
+
+export function CallScreening({ slug }: CallScreeningProps) {
+  const [entries, setEntries] = useState<CallScreeningEntry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [listType, setListType] = useState<ScreeningListType>('block')
+  const [pattern, setPattern] = useState('')
+  const [transferTo, setTransferTo] = useState('')
+  const [label, setLabel] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [removingId, setRemovingId] = useState<string | null>(null)
+  const [spamDetectionEnabled, setSpamDetectionEnabled] = useState(false)
+  const [spamCallThreshold, setSpamCallThreshold] = useState('5')
+  const [spamWindowMinutes, setSpamWindowMinutes] = useState('10')
+  const [rejectAction, setRejectAction] = useState<ScreeningRejectAction>('reject')
+  const [rejectMessage, setRejectMessage] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const applySettings = (settings: CallScreeningSettings | null) => {
+    if (!settings) return
+    setSpamDetectionEnabled(settings.spam_detection_enabled)
+    setSpamCallThreshold(String(settings.spam_call_threshold))
+    setSpamWindowMinutes(String(settings.spam_window_minutes))
+    setRejectAction(settings.reject_action)
+    setRejectMessage(settings.reject_message || '')
+  }
+
+  const fetchScreening = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      const response = await fetch(`/api/${slug}/call-screening`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load call screening')
+        return
+      }
+
+      setEntries(data.entries || [])
+      applySettings(data.settings)
+    } catch (error) {
+      console.error('Error fetching call screening:', error)
+      toast.error('Failed to load call screening')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [slug])
+
+  useEffect(() => {
+    fetchScreening()
+  }, [fetchScreening])
+
+  const handleAdd = async () => {
+    if (!pattern.trim()) return
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch(`/api/${slug}/call-screening/entries`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ listType, pattern, transferTo, label }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to add pattern')
+        return
+      }
+
+      setEntries((prev) => [data.entry, ...prev])
+      setPattern('')
+      setTransferTo('')
+      setLabel('')
+    } catch (error) {
+      console.error('Error adding call screening entry:', error)
+      toast.error('Failed to add pattern')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleRemove = async (entry: CallScreeningEntry) => {
+    setRemovingId(entry.id)
+    try {
+      const response = await fetch(`/api/${slug}/call-screening/entries/${entry.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to remove pattern')
+        return
+      }
+
+      setEntries((prev) => prev.filter((e) => e.id !== entry.id))
+    } catch (error) {
+      console.error('Error removing call screening entry:', error)
+      toast.error('Failed to remove pattern')
+    } finally {
+      setRemovingId(null)
+    }
+  }
+
+  const handleSaveSettings = async () => {
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/${slug}/call-screening`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          spamDetectionEnabled,
+          spamCallThreshold: Number(spamCallThreshold),
+          spamWindowMinutes: Number(spamWindowMinutes),
+          rejectAction,
+          rejectMessage,
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to save call screening settings')
+        return
+      }
+
+      applySettings(data.settings)
+      toast.success('Call screening settings saved')
+    } catch (error) {
+      console.error('Error saving call screening settings:', error)
+      toast.error('Failed to save call screening settings')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Call Screening</CardTitle>
+        <CardDescription>
+          Block, always transfer or always send callers to the agent, before business hours apply. Use * for any
+          digits and ? for one digit (e.g. +4470*), or &quot;anonymous&quot; for withheld numbers.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <IconLoader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              <Select value={listType} onValueChange={(value) => setListType(value as ScreeningListType)}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="block">Block</SelectItem>
+                  <SelectItem value="transfer">Always human</SelectItem>
+                  <SelectItem value="agent">Always agent</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                value={pattern}
+                onChange={(e) => setPattern(e.target.value)}
+                placeholder="+4470*"
+                className="max-w-[180px]"
+              />
+              {listType === 'transfer' && (
+                <Input
+                  value={transferTo}
+                  onChange={(e) => setTransferTo(e.target.value)}
+                  placeholder="Transfer to +447700900123"
+                  className="max-w-[220px]"
+                />
+              )}
+              <Input
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="Label (optional)"
+                className="max-w-[220px]"
+              />
+              <Button onClick={handleAdd} disabled={isSubmitting || !pattern.trim()}>
+                {isSubmitting
+                  ? <IconLoader2 className="mr-1 h-4 w-4 animate-spin" />
+                  : <IconPlus className="mr-1 h-4 w-4" />}
+                Add
+              </Button>
+            </div>
+
+            {entries.length === 0 ? (
+              <div className="flex flex-col items-center gap-2 py-8 text-center">
+                <IconShieldCheck className="h-6 w-6 text-muted-foreground" />
+                <p className="text-sm text-muted-foreground">No screening patterns yet.</p>
+              </div>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>List</TableHead>
+                      <TableHead>Pattern</TableHead>
+                      <TableHead>Transfer To</TableHead>
+                      <TableHead>Label</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map((entry) => (
+                      <TableRow key={entry.id}>
+                        <TableCell>{getListBadge(entry.list_type)}</TableCell>
+                        <TableCell className="font-mono text-sm">{entry.pattern}</TableCell>
+                        <TableCell className="font-mono text-sm">{entry.transfer_to || '-'}</TableCell>
+                        <TableCell className="text-sm">{entry.label || '-'}</TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRemove(entry)}
+                            disabled={removingId === entry.id}
+                          >
+                            <IconTrash className="mr-1 h-4 w-4" />
+                            Remove
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            <div className="space-y-4 border-t pt-4">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label>Spam detection</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Block numbers that have already called {spamCallThreshold || 'N'} times within{' '}
+                    {spamWindowMinutes || 'M'} minutes. Patterns on the lists above always take priority.
+                  </p>
+                </div>
+                <Switch checked={spamDetectionEnabled} onCheckedChange={setSpamDetectionEnabled} />
+              </div>
+              <div className="grid gap-4 md:grid-cols-4">
+                <div className="space-y-2">
+                  <Label htmlFor="spam-threshold">Calls</Label>
+                  <Input
+                    id="spam-threshold"
+                    type="number"
+                    min={2}
+                    max={100}
+                    value={spamCallThreshold}
+                    onChange={(e) => setSpamCallThreshold(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="spam-window">Within (minutes)</Label>
+                  <Input
+                    id="spam-window"
+                    type="number"
+                    min={1}
+                    max={1440}
+                    value={spamWindowMinutes}
+                    onChange={(e) => setSpamWindowMinutes(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Blocked callers hear</Label>
+                  <Select value={rejectAction} onValueChange={(value) => setRejectAction(value as ScreeningRejectAction)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="reject">Call rejected</SelectItem>
+                      <SelectItem value="busy">Busy tone</SelectItem>
+                      <SelectItem value="message">A message</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {rejectAction === 'message' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="reject-message">Message</Label>
+                    <Input
+                      id="reject-message"
+                      value={rejectMessage}
+                      onChange={(e) => setRejectMessage(e.target.value)}
+                      placeholder="Sorry, we are unable to take your call."
+                    />
+                  </div>
+                )}
+              </div>
+              <div className="flex justify-end">
+                <Button onClick={handleSaveSettings} disabled={isSaving}>
+                  {isSaving && <IconLoader2 className="mr-1 h-4 w-4 animate-spin" />}
+                  Save
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
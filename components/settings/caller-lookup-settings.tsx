@@ -0,0 +1,381 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { IconCopy, IconLoader2, IconPlus, IconRefresh, IconTrash } from '@tabler/icons-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { toast } from 'sonner'
+import type {
+  CallerLookupSettings as CallerLookupSettingsRecord,
+  CallerLookupSource,
+  CallerProfile,
+  CallerRoutingRule,
+} from '@/types/caller-lookup'
+
+interface CallerLookupSettingsProps {
+  slug: string
+}
+
+interface PipedreamTool {
+  id: string
+  label: string | null
+  name: string | null
+  type: string
+}
+
+interface TestResult {
+  success: boolean
+  profile?: CallerProfile | null
+  error?: string
+  durationMs: number
+  route: { transferTo: string; tag: string | null } | null
+}
+
+export function CallerLookupSettings({ slug }: CallerLookupSettingsProps) {
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [enabled, setEnabled] = useState(false)
+  const [source, setSource] = useState<CallerLookupSource>('webhook')
+  const [webhookUrl, setWebhookUrl] = useState('')
+  const [webhookSecret, setWebhookSecret] = useState<string | null>(null)
+  const [toolId, setToolId] = useState('')
+  const [timeoutMs, setTimeoutMs] = useState('1500')
+  const [routingRules, setRoutingRules] = useState<CallerRoutingRule[]>([])
+  const [tools, setTools] = useState<PipedreamTool[]>([])
+  const [testNumber, setTestNumber] = useState('')
+  const [isTesting, setIsTesting] = useState(false)
+  const [testResult, setTestResult] = useState<TestResult | null>(null)
+
+  const applySettings = (settings: CallerLookupSettingsRecord | null) => {
+    if (!settings) return
+    setEnabled(settings.enabled)
+    setSource(settings.source)
+    setWebhookUrl(settings.webhook_url || '')
+    setWebhookSecret(settings.webhook_secret)
+    setToolId(settings.tool_id || '')
+    setTimeoutMs(String(settings.timeout_ms))
+    setRoutingRules(settings.routing_rules || [])
+  }
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      const [settingsResponse, toolsResponse] = await Promise.all([
+        fetch(`/api/${slug}/caller-lookup`),
+        fetch(`/api/${slug}/tools`),
+      ])
+      const settingsData = await settingsResponse.json()
+      const toolsData = await toolsResponse.json()
+
+      if (!settingsResponse.ok) {
+        toast.error(settingsData.error || 'Failed to load caller lookup settings')
+        return
+      }
+
+      applySettings(settingsData.settings)
+      setTools(((toolsData.tools || []) as PipedreamTool[]).filter((tool) => tool.type === 'pipedream_action'))
+    } catch (error) {
+      console.error('Error fetching caller lookup settings:', error)
+      toast.error('Failed to load caller lookup settings')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [slug])
+
+  useEffect(() => {
+    fetchSettings()
+  }, [fetchSettings])
+
+  const handleSave = async (regenerateSecret = false) => {
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/${slug}/caller-lookup`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          enabled,
+          source,
+          webhookUrl,
+          toolId: toolId || null,
+          timeoutMs: Number(timeoutMs),
+          routingRules,
+          regenerateSecret,
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to save caller lookup settings')
+        return
+      }
+
+      applySettings(data.settings)
+      toast.success(regenerateSecret ? 'Signing secret regenerated' : 'Caller lookup settings saved')
+    } catch (error) {
+      console.error('Error saving caller lookup settings:', error)
+      toast.error('Failed to save caller lookup settings')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleTest = async () => {
+    if (!testNumber.trim()) return
+
+    setIsTesting(true)
+    setTestResult(null)
+    try {
+      const response = await fetch(`/api/${slug}/caller-lookup/test`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ phoneNumber: testNumber }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to run lookup')
+        return
+      }
+
+      setTestResult(data)
+    } catch (error) {
+      console.error('Error testing caller lookup:', error)
+      toast.error('Failed to run lookup')
+    } finally {
+      setIsTesting(false)
+    }
+  }
+
+  const updateRule = (index: number, changes: Partial<CallerRoutingRule>) => {
+    setRoutingRules((prev) => prev.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)))
+  }
+
+  const copySecret = async () => {
+    if (!webhookSecret) return
+    await navigator.clipboard.writeText(webhookSecret)
+    toast.success('Signing secret copied')
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Caller Lookup</CardTitle>
+            <CardDescription>
+              Look incoming callers up in your CRM before the call is routed. The contact&apos;s name, tags and
+              fields become agent variables ({'{{contact_name}}'}, {'{{contact_tags}}'}, {'{{<field>}}'}).
+            </CardDescription>
+          </div>
+          <Switch checked={enabled} onCheckedChange={setEnabled} disabled={isLoading} />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <IconLoader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="grid gap-4 md:grid-cols-[200px_1fr_160px]">
+              <div className="space-y-2">
+                <Label>Source</Label>
+                <Select value={source} onValueChange={(value) => setSource(value as CallerLookupSource)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="webhook">Webhook</SelectItem>
+                    <SelectItem value="pipedream_action">Pipedream action</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {source === 'webhook' ? (
+                <div className="space-y-2">
+                  <Label htmlFor="caller-lookup-url">Webhook URL</Label>
+                  <Input
+                    id="caller-lookup-url"
+                    value={webhookUrl}
+                    onChange={(e) => setWebhookUrl(e.target.value)}
+                    placeholder="https://crm.example.com/voiceify/lookup"
+                  />
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label>Pipedream action tool</Label>
+                  <Select value={toolId} onValueChange={setToolId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder={tools.length === 0 ? 'No Pipedream tools' : 'Select a tool'} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {tools.map((tool) => (
+                        <SelectItem key={tool.id} value={tool.id}>
+                          {tool.label || tool.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="caller-lookup-timeout">Timeout (ms)</Label>
+                <Input
+                  id="caller-lookup-timeout"
+                  type="number"
+                  min={250}
+                  max={5000}
+                  step={250}
+                  value={timeoutMs}
+                  onChange={(e) => setTimeoutMs(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              {source === 'webhook'
+                ? 'We POST { callerNumber, calledNumber, agentId, callId } and expect { name, tags, fields, transferTo? } back. Respond 404 for unknown callers.'
+                : 'Fixed parameters can use {{caller_phone_number}}. The action should return { name, tags, fields, transferTo? }.'}
+              {' '}Calls are routed without caller details if the lookup doesn&apos;t answer in time.
+            </p>
+
+            {source === 'webhook' && webhookSecret && (
+              <div className="space-y-2">
+                <Label>Signing secret</Label>
+                <div className="flex gap-2">
+                  <Input value={webhookSecret} readOnly className="font-mono text-sm" />
+                  <Button variant="outline" size="icon" onClick={copySecret}>
+                    <IconCopy className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" onClick={() => handleSave(true)} disabled={isSaving}>
+                    <IconRefresh className="mr-1 h-4 w-4" />
+                    Regenerate
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Requests carry X-Voiceify-Signature: sha256=&lt;HMAC-SHA256 of the body&gt;.
+                </p>
+              </div>
+            )}
+
+            <div className="space-y-3">
+              <div>
+                <Label>Routing rules</Label>
+                <p className="text-sm text-muted-foreground">
+                  Send callers with a tag straight to a number, ahead of business hours. A transferTo number
+                  returned by the CRM takes priority.
+                </p>
+              </div>
+              {routingRules.map((rule, index) => (
+                <div key={index} className="flex gap-2">
+                  <Input
+                    value={rule.tag}
+                    onChange={(e) => updateRule(index, { tag: e.target.value })}
+                    placeholder="vip"
+                    className="max-w-[200px]"
+                  />
+                  <Input
+                    value={rule.transferTo}
+                    onChange={(e) => updateRule(index, { transferTo: e.target.value })}
+                    placeholder="+447700900123"
+                    className="max-w-[200px]"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setRoutingRules((prev) => prev.filter((_, i) => i !== index))}
+                  >
+                    <IconTrash className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setRoutingRules((prev) => [...prev, { tag: '', transferTo: '' }])}
+              >
+                <IconPlus className="mr-1 h-4 w-4" />
+                Add rule
+              </Button>
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={() => handleSave()} disabled={isSaving}>
+                {isSaving && <IconLoader2 className="mr-1 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </div>
+
+            <div className="space-y-3 border-t pt-4">
+              <Label>Test a lookup</Label>
+              <div className="flex gap-2">
+                <Input
+                  value={testNumber}
+                  onChange={(e) => setTestNumber(e.target.value)}
+                  placeholder="+447700900123"
+                  className="max-w-[200px]"
+                />
+                <Button variant="outline" onClick={handleTest} disabled={isTesting || !testNumber.trim()}>
+                  {isTesting && <IconLoader2 className="mr-1 h-4 w-4 animate-spin" />}
+                  Run lookup
+                </Button>
+              </div>
+              {testResult && (
+                <div className="rounded-md border p-3 text-sm space-y-1">
+                  <div className="flex items-center gap-2">
+                    {testResult.success ? (
+                      <Badge variant="default" className="bg-green-500/10 text-green-700 dark:text-green-400 border-green-500/20">
+                        {testResult.profile ? 'Identified' : 'Not found'}
+                      </Badge>
+                    ) : (
+                      <Badge variant="default" className="bg-red-500/10 text-red-700 dark:text-red-400 border-red-500/20">
+                        Failed
+                      </Badge>
+                    )}
+                    <span className="text-muted-foreground">{testResult.durationMs}ms</span>
+                  </div>
+                  {testResult.error && <div className="text-muted-foreground">{testResult.error}</div>}
+                  {testResult.profile && (
+                    <>
+                      <div>
+                        <span className="font-medium">{testResult.profile.name || 'Unnamed contact'}</span>
+                        {testResult.profile.tags.length > 0 && (
+                          <span className="text-muted-foreground"> • {testResult.profile.tags.join(', ')}</span>
+                        )}
+                      </div>
+                      {Object.keys(testResult.profile.fields).length > 0 && (
+                        <div className="font-mono text-xs text-muted-foreground">
+                          {Object.entries(testResult.profile.fields).map(([key, value]) => (
+                            <div key={key}>{key}: {value}</div>
+                          ))}
+                        </div>
+                      )}
+                    </>
+                  )}
+                  {testResult.route && (
+                    <div className="text-muted-foreground">
+                      Would be sent to {testResult.route.transferTo}
+                      {testResult.route.tag ? ` (tag "${testResult.route.tag}")` : ' (chosen by CRM)'}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
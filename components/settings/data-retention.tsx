@@ -0,0 +1,224 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { format } from 'date-fns'
+import { IconLoader2 } from '@tabler/icons-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { toast } from 'sonner'
+import {
+  MAX_RETENTION_DAYS,
+  MIN_RETENTION_DAYS,
+  RETENTION_DATA_TYPES,
+  type RetentionAuditEntry,
+  type RetentionPolicy,
+  type RetentionPolicyDays,
+} from '@/types/retention'
+
+interface DataRetentionProps {
+  slug: string
+}
+
+type AuditRow = Pick<RetentionAuditEntry, 'id' | 'data_type' | 'cutoff' | 'call_count' | 'item_count' | 'created_at'>
+
+// Input values per column - empty keeps the data forever
+type DaysInput = Record<keyof RetentionPolicyDays, string>
+
+const EMPTY_DAYS: DaysInput = {
+  recording_days: '',
+  transcript_days: '',
+  event_days: '',
+  caller_details_days: '',
+}
+
+const getDataTypeLabel = (dataType: string) =>
+  RETENTION_DATA_TYPES.find((type) => type.id === dataType)?.label || dataType
+
+export function DataRetention({ slug }: DataRetentionProps) {
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [enabled, setEnabled] = useState(false)
+  const [days, setDays] = useState<DaysInput>(EMPTY_DAYS)
+  const [audit, setAudit] = useState<AuditRow[]>([])
+  const [heldCalls, setHeldCalls] = useState(0)
+  const [canEdit, setCanEdit] = useState(false)
+
+  const applyPolicy = (policy: RetentionPolicy | null) => {
+    if (!policy) return
+    setEnabled(policy.enabled)
+    setDays({
+      recording_days: policy.recording_days?.toString() || '',
+      transcript_days: policy.transcript_days?.toString() || '',
+      event_days: policy.event_days?.toString() || '',
+      caller_details_days: policy.caller_details_days?.toString() || '',
+    })
+  }
+
+  const fetchRetention = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      const response = await fetch(`/api/${slug}/data-retention`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load data retention')
+        return
+      }
+
+      applyPolicy(data.policy)
+      setAudit(data.audit || [])
+      setHeldCalls(data.heldCalls || 0)
+      setCanEdit(!!data.canEdit)
+    } catch (error) {
+      console.error('Error fetching data retention:', error)
+      toast.error('Failed to load data retention')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [slug])
+
+  useEffect(() => {
+    fetchRetention()
+  }, [fetchRetention])
+
+  const handleSave = async () => {
+    const toDays = (value: string) => value.trim() ? Number(value) : null
+
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/${slug}/data-retention`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          enabled,
+          recordingDays: toDays(days.recording_days),
+          transcriptDays: toDays(days.transcript_days),
+          eventDays: toDays(days.event_days),
+          callerDetailsDays: toDays(days.caller_details_days),
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to save retention policy')
+        return
+      }
+
+      applyPolicy(data.policy)
+      toast.success('Retention policy saved')
+    } catch (error) {
+      console.error('Error saving retention policy:', error)
+      toast.error('Failed to save retention policy')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Data Retention</CardTitle>
+        <CardDescription>
+          How long call data is kept. Expired data is removed every night at 03:00 UTC; leave a field empty to keep
+          it forever. Calls on legal hold are never removed
+          {heldCalls > 0 && ` (${heldCalls} call${heldCalls === 1 ? '' : 's'} on hold)`}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <IconLoader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {!canEdit && (
+              <p className="text-sm text-muted-foreground">
+                Only organization admins can change the retention policy or legal holds.
+              </p>
+            )}
+
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label>Remove expired data</Label>
+                <p className="text-sm text-muted-foreground">
+                  Anonymized calls keep their duration and cost for analytics, but lose the caller&apos;s number.
+                </p>
+              </div>
+              <Switch checked={enabled} onCheckedChange={setEnabled} disabled={!canEdit} />
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-4">
+              {RETENTION_DATA_TYPES.map((type) => (
+                <div key={type.id} className="space-y-2">
+                  <Label htmlFor={`retention-${type.id}`}>{type.label} (days)</Label>
+                  <Input
+                    id={`retention-${type.id}`}
+                    type="number"
+                    min={MIN_RETENTION_DAYS}
+                    max={MAX_RETENTION_DAYS}
+                    value={days[type.column]}
+                    onChange={(e) => setDays((prev) => ({ ...prev, [type.column]: e.target.value }))}
+                    placeholder="Forever"
+                    disabled={!canEdit}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              Events include the caller&apos;s number, so when caller details have a limit, events need one no longer than it.
+            </p>
+
+            <div className="flex justify-end">
+              <Button onClick={handleSave} disabled={isSaving || !canEdit}>
+                {isSaving && <IconLoader2 className="mr-1 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </div>
+
+            {audit.length > 0 && (
+              <div className="space-y-2 border-t pt-4">
+                <Label>Recent removals</Label>
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>When</TableHead>
+                        <TableHead>Data</TableHead>
+                        <TableHead>Calls Before</TableHead>
+                        <TableHead className="text-right">Calls</TableHead>
+                        <TableHead className="text-right">Items</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {audit.map((entry) => (
+                        <TableRow key={entry.id}>
+                          <TableCell className="text-sm">{format(new Date(entry.created_at), 'd MMM yyyy HH:mm')}</TableCell>
+                          <TableCell className="text-sm">{getDataTypeLabel(entry.data_type)}</TableCell>
+                          <TableCell className="text-sm">{format(new Date(entry.cutoff), 'd MMM yyyy')}</TableCell>
+                          <TableCell className="text-right text-sm">{entry.call_count}</TableCell>
+                          <TableCell className="text-right text-sm">{entry.item_count}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
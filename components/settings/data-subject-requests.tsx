@@ -0,0 +1,330 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { format } from 'date-fns'
+import { IconDownload, IconLoader2 } from '@tabler/icons-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { toast } from 'sonner'
+import type { DataSubjectRequest, DataSubjectRequestType } from '@/types/data-subject-requests'
+
+interface DataSubjectRequestsProps {
+  slug: string
+}
+
+type RequestRow = Pick<
+  DataSubjectRequest,
+  'id' | 'request_type' | 'phone_number_last4' | 'status' | 'summary' | 'export_path' | 'error_message' | 'requested_by' | 'completed_at' | 'created_at'
+>
+
+interface ExportFile {
+  name: string
+  url: string
+}
+
+// Requests run in the background, so refresh until they finish
+const POLL_INTERVAL_MS = 5000
+
+const getStatusBadge = (request: RequestRow) => {
+  switch (request.status) {
+    case 'completed':
+      return (
+        <Badge variant="default" className="bg-green-500/10 text-green-700 dark:text-green-400 border-green-500/20">
+          Completed
+        </Badge>
+      )
+    case 'failed':
+      return (
+        <Badge
+          variant="default"
+          className="bg-red-500/10 text-red-700 dark:text-red-400 border-red-500/20"
+          title={request.error_message || undefined}
+        >
+          Failed
+        </Badge>
+      )
+    default:
+      return (
+        <Badge variant="default" className="bg-amber-500/10 text-amber-700 dark:text-amber-400 border-amber-500/20">
+          {request.status === 'processing' ? 'Processing' : 'Pending'}
+        </Badge>
+      )
+  }
+}
+
+const formatSummary = (request: RequestRow) => {
+  const { summary } = request
+  if (!summary) return '—'
+
+  const parts = [
+    `${summary.calls} call${summary.calls === 1 ? '' : 's'}`,
+    `${summary.recordings} recording${summary.recordings === 1 ? '' : 's'}`,
+    `${summary.sms} SMS`,
+    `${summary.toolExecutions} tool call${summary.toolExecutions === 1 ? '' : 's'}`,
+  ]
+  if (request.request_type === 'erasure' && summary.heldCalls > 0) {
+    parts.push(`${summary.heldCalls} kept on legal hold`)
+  }
+  return parts.join(', ')
+}
+
+export function DataSubjectRequests({ slug }: DataSubjectRequestsProps) {
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [requests, setRequests] = useState<RequestRow[]>([])
+  const [canManage, setCanManage] = useState(false)
+  const [phoneNumber, setPhoneNumber] = useState('')
+  const [confirmErasure, setConfirmErasure] = useState(false)
+  const [downloadingId, setDownloadingId] = useState<string | null>(null)
+  const [exportFiles, setExportFiles] = useState<ExportFile[] | null>(null)
+
+  const fetchRequests = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/${slug}/data-subject-requests`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load data requests')
+        return
+      }
+
+      setRequests(data.requests || [])
+      setCanManage(!!data.canManage)
+    } catch (error) {
+      console.error('Error fetching data subject requests:', error)
+      toast.error('Failed to load data requests')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [slug])
+
+  useEffect(() => {
+    fetchRequests()
+  }, [fetchRequests])
+
+  const hasRunningRequests = requests.some((request) => request.status === 'pending' || request.status === 'processing')
+
+  useEffect(() => {
+    if (!hasRunningRequests) return
+    const interval = setInterval(fetchRequests, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [hasRunningRequests, fetchRequests])
+
+  const handleSubmit = async (requestType: DataSubjectRequestType) => {
+    setIsSubmitting(true)
+    try {
+      const response = await fetch(`/api/${slug}/data-subject-requests`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ requestType, phoneNumber }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to create request')
+        return
+      }
+
+      setRequests((prev) => [data.request, ...prev])
+      setPhoneNumber('')
+      toast.success(requestType === 'export' ? 'Export started' : 'Erasure started')
+    } catch (error) {
+      console.error('Error creating data subject request:', error)
+      toast.error('Failed to create request')
+    } finally {
+      setIsSubmitting(false)
+      setConfirmErasure(false)
+    }
+  }
+
+  const handleDownload = async (requestId: string) => {
+    setDownloadingId(requestId)
+    try {
+      const response = await fetch(`/api/${slug}/data-subject-requests/${requestId}/download`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to download export')
+        return
+      }
+
+      setExportFiles(data.files || [])
+    } catch (error) {
+      console.error('Error downloading export:', error)
+      toast.error('Failed to download export')
+    } finally {
+      setDownloadingId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Caller Data Requests</CardTitle>
+        <CardDescription>
+          Export or erase everything held about a caller - calls, transcripts, events, recordings, voicemails, SMS
+          and data captured by tools - for GDPR access and erasure requests.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <IconLoader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {canManage ? (
+              <div className="space-y-2">
+                <Label htmlFor="data-subject-phone-number">Caller&apos;s phone number</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="data-subject-phone-number"
+                    value={phoneNumber}
+                    onChange={(e) => setPhoneNumber(e.target.value)}
+                    placeholder="+447700900123"
+                    className="max-w-xs"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => handleSubmit('export')}
+                    disabled={isSubmitting || !phoneNumber.trim()}
+                  >
+                    Export
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    onClick={() => setConfirmErasure(true)}
+                    disabled={isSubmitting || !phoneNumber.trim()}
+                  >
+                    Erase
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Only organization admins can export or erase caller data.
+              </p>
+            )}
+
+            {requests.length > 0 && (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Requested</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Number</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Found</TableHead>
+                      <TableHead>By</TableHead>
+                      <TableHead className="w-[60px]"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {requests.map((request) => (
+                      <TableRow key={request.id}>
+                        <TableCell className="text-sm">{format(new Date(request.created_at), 'd MMM yyyy HH:mm')}</TableCell>
+                        <TableCell className="text-sm">{request.request_type === 'export' ? 'Export' : 'Erasure'}</TableCell>
+                        <TableCell className="font-mono text-sm">…{request.phone_number_last4}</TableCell>
+                        <TableCell>{getStatusBadge(request)}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{formatSummary(request)}</TableCell>
+                        <TableCell className="text-sm">{request.requested_by || '—'}</TableCell>
+                        <TableCell>
+                          {canManage && request.request_type === 'export' && request.status === 'completed' && request.export_path && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleDownload(request.id)}
+                              disabled={downloadingId === request.id}
+                              title="Download export"
+                            >
+                              {downloadingId === request.id
+                                ? <IconLoader2 className="h-4 w-4 animate-spin" />
+                                : <IconDownload className="h-4 w-4" />}
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <AlertDialog open={confirmErasure} onOpenChange={setConfirmErasure}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Erase Caller Data</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every call, transcript, recording, voicemail and SMS for <strong>{phoneNumber}</strong> will be
+              permanently deleted, along with any earlier exports. Calls on legal hold are kept. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSubmitting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => handleSubmit('erasure')}
+              disabled={isSubmitting}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isSubmitting && <IconLoader2 className="mr-1 h-4 w-4 animate-spin" />}
+              Erase
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={!!exportFiles} onOpenChange={(open) => !open && setExportFiles(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Download Export</DialogTitle>
+            <DialogDescription>
+              These links expire in an hour.
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="space-y-2">
+            {exportFiles?.map((file) => (
+              <li key={file.name}>
+                <a href={file.url} className="flex items-center gap-2 text-sm hover:underline">
+                  <IconDownload className="h-4 w-4" />
+                  {file.name}
+                </a>
+              </li>
+            ))}
+          </ul>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
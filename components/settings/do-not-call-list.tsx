@@ -0,0 +1,189 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { IconLoader2, IconPhoneOff, IconPlus, IconTrash } from '@tabler/icons-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { toast } from 'sonner'
+import type { DoNotCallNumber } from '@/types/campaigns'
+
+interface DoNotCallListProps {
+  slug: string
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleString('en-GB', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  })
+
+export function DoNotCallList({ slug }: DoNotCallListProps) {
+  const [numbers, setNumbers] = useState<DoNotCallNumber[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [phoneNumber, setPhoneNumber] = useState('')
+  const [reason, setReason] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [removingId, setRemovingId] = useState<string | null>(null)
+
+  const fetchNumbers = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      const response = await fetch(`/api/${slug}/do-not-call`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load do-not-call list')
+        return
+      }
+
+      setNumbers(data.numbers || [])
+    } catch (error) {
+      console.error('Error fetching do-not-call list:', error)
+      toast.error('Failed to load do-not-call list')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [slug])
+
+  useEffect(() => {
+    fetchNumbers()
+  }, [fetchNumbers])
+
+  const handleAdd = async () => {
+    if (!phoneNumber.trim()) return
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch(`/api/${slug}/do-not-call`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ phoneNumber, reason }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to add number')
+        return
+      }
+
+      toast.success(`${data.number.phone_number} won't be called`)
+      setPhoneNumber('')
+      setReason('')
+      await fetchNumbers()
+    } catch (error) {
+      console.error('Error adding do-not-call number:', error)
+      toast.error('Failed to add number')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleRemove = async (number: DoNotCallNumber) => {
+    setRemovingId(number.id)
+    try {
+      const response = await fetch(`/api/${slug}/do-not-call/${number.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to remove number')
+        return
+      }
+
+      setNumbers((prev) => prev.filter((n) => n.id !== number.id))
+    } catch (error) {
+      console.error('Error removing do-not-call number:', error)
+      toast.error('Failed to remove number')
+    } finally {
+      setRemovingId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Do Not Call</CardTitle>
+        <CardDescription>
+          Numbers that are never dialled - campaigns skip them and outbound calls to them are refused.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Input
+            value={phoneNumber}
+            onChange={(e) => setPhoneNumber(e.target.value)}
+            placeholder="+447700900123"
+            className="max-w-[200px]"
+          />
+          <Input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason (optional)"
+          />
+          <Button onClick={handleAdd} disabled={isSubmitting || !phoneNumber.trim()}>
+            {isSubmitting
+              ? <IconLoader2 className="mr-1 h-4 w-4 animate-spin" />
+              : <IconPlus className="mr-1 h-4 w-4" />}
+            Add
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <IconLoader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : numbers.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 py-8 text-center">
+            <IconPhoneOff className="h-6 w-6 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">No numbers on the do-not-call list.</p>
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Phone Number</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Added</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {numbers.map((number) => (
+                  <TableRow key={number.id}>
+                    <TableCell className="font-mono text-sm">{number.phone_number}</TableCell>
+                    <TableCell className="text-sm">{number.reason || '-'}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {formatDate(number.created_at)}
+                      {number.created_by && <div className="text-xs">{number.created_by}</div>}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRemove(number)}
+                        disabled={removingId === number.id}
+                      >
+                        <IconTrash className="mr-1 h-4 w-4" />
+                        Remove
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,252 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { IconLoader2, IconPlus, IconTrash } from '@tabler/icons-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { toast } from 'sonner'
+import {
+  MAX_CUSTOM_PATTERNS,
+  REDACTION_DETECTORS,
+  type RedactionCustomPattern,
+  type RedactionDetector,
+  type RedactionPolicy as RedactionPolicyRecord,
+} from '@/types/redaction'
+
+interface RedactionPolicyProps {
+  slug: string
+}
+
+// Patterns added here get their id when saved
+type CustomPatternDraft = Omit<RedactionCustomPattern, 'id'> & { id?: string; key: string }
+
+export function RedactionPolicy({ slug }: RedactionPolicyProps) {
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [canEdit, setCanEdit] = useState(false)
+  const [enabled, setEnabled] = useState(false)
+  const [detectors, setDetectors] = useState<RedactionDetector[]>(REDACTION_DETECTORS.map((d) => d.id))
+  const [customPatterns, setCustomPatterns] = useState<CustomPatternDraft[]>([])
+  const [revealRoles, setRevealRoles] = useState('admin')
+  const [bleepRecordings, setBleepRecordings] = useState(false)
+
+  const applyPolicy = (policy: RedactionPolicyRecord | null) => {
+    if (!policy) return
+    setEnabled(policy.enabled)
+    setDetectors(policy.detectors)
+    setCustomPatterns(policy.custom_patterns.map((p) => ({ ...p, key: p.id })))
+    setRevealRoles(policy.reveal_roles.join(', '))
+    setBleepRecordings(policy.bleep_recordings)
+  }
+
+  const fetchPolicy = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      const response = await fetch(`/api/${slug}/redaction-policy`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load redaction policy')
+        return
+      }
+
+      setCanEdit(data.canEdit)
+      applyPolicy(data.policy)
+    } catch (error) {
+      console.error('Error fetching redaction policy:', error)
+      toast.error('Failed to load redaction policy')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [slug])
+
+  useEffect(() => {
+    fetchPolicy()
+  }, [fetchPolicy])
+
+  const toggleDetector = (detector: RedactionDetector, checked: boolean) => {
+    setDetectors((prev) => checked ? [...prev, detector] : prev.filter((d) => d !== detector))
+  }
+
+  const updatePattern = (key: string, changes: Partial<CustomPatternDraft>) => {
+    setCustomPatterns((prev) => prev.map((p) => p.key === key ? { ...p, ...changes } : p))
+  }
+
+  const addPattern = () => {
+    setCustomPatterns((prev) => [
+      ...prev,
+      { key: crypto.randomUUID(), name: '', pattern: '', caseSensitive: false },
+    ])
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/${slug}/redaction-policy`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          enabled,
+          detectors,
+          customPatterns: customPatterns.map(({ id, name, pattern, caseSensitive }) => ({ id, name, pattern, caseSensitive })),
+          revealRoles: revealRoles.split(',').map((r) => r.trim()).filter(Boolean),
+          bleepRecordings,
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to save redaction policy')
+        return
+      }
+
+      applyPolicy(data.policy)
+      toast.success('Redaction policy saved')
+    } catch (error) {
+      console.error('Error saving redaction policy:', error)
+      toast.error('Failed to save redaction policy')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>PII Redaction</CardTitle>
+        <CardDescription>
+          Replace card numbers, contact details and other personal data with placeholders like [CARD] in transcripts
+          and call events as they&apos;re stored. The originals are kept encrypted for the roles below.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <IconLoader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <fieldset disabled={!canEdit} className="space-y-6">
+            {!canEdit && (
+              <p className="text-sm text-muted-foreground">
+                Only the roles that can view original values can change this policy.
+              </p>
+            )}
+
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label>Redact PII</Label>
+                <p className="text-sm text-muted-foreground">
+                  Applies to calls from now on, and to the rest of a call when it ends.
+                </p>
+              </div>
+              <Switch checked={enabled} onCheckedChange={setEnabled} disabled={!canEdit} />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Detect</Label>
+              <div className="grid gap-2 sm:grid-cols-2 md:grid-cols-3">
+                {REDACTION_DETECTORS.map((detector) => (
+                  <label key={detector.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={detectors.includes(detector.id)}
+                      onCheckedChange={(checked) => toggleDetector(detector.id, checked === true)}
+                      disabled={!canEdit}
+                    />
+                    {detector.label}
+                    <span className="font-mono text-xs text-muted-foreground">{detector.placeholder}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label>Custom patterns</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Regular expressions for your own identifiers, replaced with the name in capitals (e.g. [POLICY_NUMBER]).
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={addPattern}
+                  disabled={!canEdit || customPatterns.length >= MAX_CUSTOM_PATTERNS}
+                >
+                  <IconPlus className="mr-1 h-4 w-4" />
+                  Add
+                </Button>
+              </div>
+              {customPatterns.map((pattern) => (
+                <div key={pattern.key} className="flex flex-wrap items-center gap-2">
+                  <Input
+                    value={pattern.name}
+                    onChange={(e) => updatePattern(pattern.key, { name: e.target.value })}
+                    placeholder="Policy number"
+                    className="max-w-[200px]"
+                  />
+                  <Input
+                    value={pattern.pattern}
+                    onChange={(e) => updatePattern(pattern.key, { pattern: e.target.value })}
+                    placeholder="POL-\d{8}"
+                    className="max-w-[280px] font-mono"
+                  />
+                  <label className="flex items-center gap-2 text-sm">
+                    <Switch
+                      checked={pattern.caseSensitive}
+                      onCheckedChange={(caseSensitive) => updatePattern(pattern.key, { caseSensitive })}
+                      disabled={!canEdit}
+                    />
+                    Case sensitive
+                  </label>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setCustomPatterns((prev) => prev.filter((p) => p.key !== pattern.key))}
+                  >
+                    <IconTrash className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="reveal-roles">Roles that can view originals</Label>
+                <Input
+                  id="reveal-roles"
+                  value={revealRoles}
+                  onChange={(e) => setRevealRoles(e.target.value)}
+                  placeholder="admin"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Comma-separated organization role slugs. Every view is logged on the call.
+                </p>
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label>Bleep recordings</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Bleep matching words the agent spoke in the stored recording, shortly after the call.
+                  </p>
+                </div>
+                <Switch checked={bleepRecordings} onCheckedChange={setBleepRecordings} disabled={!canEdit} />
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={handleSave} disabled={isSaving || !canEdit}>
+                {isSaving && <IconLoader2 className="mr-1 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </fieldset>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,373 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { IconLoader2, IconPencil, IconPlus, IconTrash, IconUsersGroup } from '@tabler/icons-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { toast } from 'sonner'
+import {
+  MAX_RING_GROUP_MEMBERS,
+  type RingGroup,
+  type RingGroupMemberStats,
+  type RingGroupStrategy,
+} from '@/types/ring-groups'
+
+interface RingGroupsProps {
+  slug: string
+}
+
+interface RingGroupDraft {
+  id?: string
+  name: string
+  strategy: RingGroupStrategy
+  ringTimeoutSeconds: string
+  members: { id?: string; phoneNumber: string; label: string }[]
+}
+
+const EMPTY_DRAFT: RingGroupDraft = {
+  name: '',
+  strategy: 'simultaneous',
+  ringTimeoutSeconds: '20',
+  members: [{ phoneNumber: '', label: '' }],
+}
+
+const formatAnswerRate = (stats: RingGroupMemberStats | undefined) => {
+  if (!stats || stats.answerRate === null) return '-'
+  return `${Math.round(stats.answerRate * 100)}%`
+}
+
+export function RingGroups({ slug }: RingGroupsProps) {
+  const [ringGroups, setRingGroups] = useState<RingGroup[]>([])
+  const [stats, setStats] = useState<Record<string, RingGroupMemberStats[]>>({})
+  const [days, setDays] = useState(30)
+  const [isLoading, setIsLoading] = useState(true)
+  const [draft, setDraft] = useState<RingGroupDraft | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [removingId, setRemovingId] = useState<string | null>(null)
+
+  const fetchRingGroups = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      const response = await fetch(`/api/${slug}/ring-groups`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load ring groups')
+        return
+      }
+
+      setRingGroups(data.ringGroups || [])
+      setStats(data.stats || {})
+      setDays(data.days || 30)
+    } catch (error) {
+      console.error('Error fetching ring groups:', error)
+      toast.error('Failed to load ring groups')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [slug])
+
+  useEffect(() => {
+    fetchRingGroups()
+  }, [fetchRingGroups])
+
+  const openEditor = (group?: RingGroup) => {
+    setDraft(
+      group
+        ? {
+            id: group.id,
+            name: group.name,
+            strategy: group.strategy,
+            ringTimeoutSeconds: String(group.ring_timeout_seconds),
+            members: group.members.map((member) => ({ ...member })),
+          }
+        : { ...EMPTY_DRAFT, members: [{ phoneNumber: '', label: '' }] }
+    )
+  }
+
+  const updateMember = (index: number, field: 'phoneNumber' | 'label', value: string) => {
+    setDraft((prev) => prev && {
+      ...prev,
+      members: prev.members.map((member, i) => (i === index ? { ...member, [field]: value } : member)),
+    })
+  }
+
+  const handleSave = async () => {
+    if (!draft) return
+
+    setIsSaving(true)
+    try {
+      const response = await fetch(
+        draft.id ? `/api/${slug}/ring-groups/${draft.id}` : `/api/${slug}/ring-groups`,
+        {
+          method: draft.id ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: draft.name,
+            strategy: draft.strategy,
+            ringTimeoutSeconds: Number(draft.ringTimeoutSeconds),
+            members: draft.members.filter((member) => member.phoneNumber.trim()),
+          }),
+        }
+      )
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to save ring group')
+        return
+      }
+
+      setDraft(null)
+      toast.success('Ring group saved')
+      fetchRingGroups()
+    } catch (error) {
+      console.error('Error saving ring group:', error)
+      toast.error('Failed to save ring group')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRemove = async (group: RingGroup) => {
+    setRemovingId(group.id)
+    try {
+      const response = await fetch(`/api/${slug}/ring-groups/${group.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to remove ring group')
+        return
+      }
+
+      setRingGroups((prev) => prev.filter((g) => g.id !== group.id))
+    } catch (error) {
+      console.error('Error removing ring group:', error)
+      toast.error('Failed to remove ring group')
+    } finally {
+      setRemovingId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Ring Groups</CardTitle>
+            <CardDescription>
+              Ring several team numbers for a human transfer, all at once or one after another. Choose a group in an
+              agent&apos;s business hours or a transfer tool.
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={() => openEditor()}>
+            <IconPlus className="mr-1 h-4 w-4" />
+            New Group
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <IconLoader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : ringGroups.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 py-8 text-center">
+            <IconUsersGroup className="h-6 w-6 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">No ring groups yet.</p>
+          </div>
+        ) : (
+          ringGroups.map((group) => (
+            <div key={group.id} className="space-y-3">
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{group.name}</span>
+                  <Badge variant="outline">
+                    {group.strategy === 'sequential' ? 'One at a time' : 'All at once'}
+                  </Badge>
+                  <span className="text-sm text-muted-foreground">
+                    {group.strategy === 'sequential'
+                      ? `${group.ring_timeout_seconds}s each`
+                      : `${group.ring_timeout_seconds}s`}
+                  </span>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => openEditor(group)}>
+                    <IconPencil className="mr-1 h-4 w-4" />
+                    Edit
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRemove(group)}
+                    disabled={removingId === group.id}
+                  >
+                    <IconTrash className="mr-1 h-4 w-4" />
+                    Remove
+                  </Button>
+                </div>
+              </div>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {group.strategy === 'sequential' && <TableHead className="w-12">#</TableHead>}
+                      <TableHead>Member</TableHead>
+                      <TableHead>Number</TableHead>
+                      <TableHead className="text-right">Rang</TableHead>
+                      <TableHead className="text-right">Answered</TableHead>
+                      <TableHead className="text-right">Answer Rate ({days}d)</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {group.members.map((member, index) => {
+                      const memberStats = stats[group.id]?.find((s) => s.memberId === member.id)
+                      return (
+                        <TableRow key={member.id}>
+                          {group.strategy === 'sequential' && (
+                            <TableCell className="text-muted-foreground">{index + 1}</TableCell>
+                          )}
+                          <TableCell className="text-sm">{member.label}</TableCell>
+                          <TableCell className="font-mono text-sm">{member.phoneNumber}</TableCell>
+                          <TableCell className="text-right text-sm">{memberStats?.rang ?? 0}</TableCell>
+                          <TableCell className="text-right text-sm">{memberStats?.answered ?? 0}</TableCell>
+                          <TableCell className="text-right text-sm font-medium">{formatAnswerRate(memberStats)}</TableCell>
+                        </TableRow>
+                      )
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="sm:max-w-xl">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? 'Edit Ring Group' : 'New Ring Group'}</DialogTitle>
+            <DialogDescription>
+              All at once rings every member and connects the first to answer. One at a time rings members in
+              order, moving on after the ring time.
+            </DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="ring-group-name">Name</Label>
+                <Input
+                  id="ring-group-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="Lettings team"
+                />
+              </div>
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label>Ring</Label>
+                  <Select
+                    value={draft.strategy}
+                    onValueChange={(value) => setDraft({ ...draft, strategy: value as RingGroupStrategy })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="simultaneous">All at once</SelectItem>
+                      <SelectItem value="sequential">One at a time</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ring-group-timeout">
+                    {draft.strategy === 'sequential' ? 'Ring each member for (seconds)' : 'Ring for (seconds)'}
+                  </Label>
+                  <Input
+                    id="ring-group-timeout"
+                    type="number"
+                    min={5}
+                    max={120}
+                    value={draft.ringTimeoutSeconds}
+                    onChange={(e) => setDraft({ ...draft, ringTimeoutSeconds: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Members{draft.strategy === 'sequential' && ' (in ringing order)'}</Label>
+                {draft.members.map((member, index) => (
+                  <div key={member.id || index} className="flex gap-2">
+                    <Input
+                      value={member.label}
+                      onChange={(e) => updateMember(index, 'label', e.target.value)}
+                      placeholder="Name"
+                    />
+                    <Input
+                      value={member.phoneNumber}
+                      onChange={(e) => updateMember(index, 'phoneNumber', e.target.value)}
+                      placeholder="+447700900123"
+                      className="font-mono"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setDraft({ ...draft, members: draft.members.filter((_, i) => i !== index) })}
+                      disabled={draft.members.length === 1}
+                    >
+                      <IconTrash className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setDraft({ ...draft, members: [...draft.members, { phoneNumber: '', label: '' }] })}
+                  disabled={draft.members.length >= MAX_RING_GROUP_MEMBERS}
+                >
+                  <IconPlus className="mr-1 h-4 w-4" />
+                  Add Member
+                </Button>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || !draft?.name.trim()}>
+              {isSaving && <IconLoader2 className="mr-1 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,349 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { IconCopy, IconKey, IconLoader2, IconPlus, IconRefresh, IconTrash } from '@tabler/icons-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { toast } from 'sonner'
+import type { WorkerCredential, WorkerCredentialStatus } from '@/types/worker-credentials'
+
+type CredentialWithStatus = WorkerCredential & { status: WorkerCredentialStatus }
+
+interface WorkerCredentialsProps {
+  slug: string
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleString('en-GB', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+
+const getStatusBadge = (credential: CredentialWithStatus) => {
+  switch (credential.status) {
+    case 'active':
+      return (
+        <Badge variant="default" className="bg-green-500/10 text-green-700 dark:text-green-400 border-green-500/20">
+          Active
+        </Badge>
+      )
+    case 'expiring':
+      return (
+        <Badge variant="default" className="bg-amber-500/10 text-amber-700 dark:text-amber-400 border-amber-500/20">
+          Expires {formatDate(credential.expires_at!)}
+        </Badge>
+      )
+    case 'expired':
+      return <Badge variant="outline">Expired</Badge>
+    case 'revoked':
+      return <Badge variant="outline">Revoked</Badge>
+  }
+}
+
+export function WorkerCredentials({ slug }: WorkerCredentialsProps) {
+  const [credentials, setCredentials] = useState<CredentialWithStatus[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [createOpen, setCreateOpen] = useState(false)
+  const [name, setName] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [pendingAction, setPendingAction] = useState<{
+    type: 'rotate' | 'revoke'
+    credential: CredentialWithStatus
+  } | null>(null)
+  // Token of a credential that was just created or rotated - shown once
+  const [newToken, setNewToken] = useState<string | null>(null)
+
+  const fetchCredentials = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      const response = await fetch(`/api/${slug}/worker-credentials`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load worker credentials')
+        return
+      }
+
+      setCredentials(data.credentials || [])
+    } catch (error) {
+      console.error('Error fetching worker credentials:', error)
+      toast.error('Failed to load worker credentials')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [slug])
+
+  useEffect(() => {
+    fetchCredentials()
+  }, [fetchCredentials])
+
+  const handleCreate = async () => {
+    if (!name.trim()) return
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch(`/api/${slug}/worker-credentials`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim() }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to create worker credential')
+        return
+      }
+
+      setCreateOpen(false)
+      setName('')
+      setNewToken(data.token)
+      await fetchCredentials()
+    } catch (error) {
+      console.error('Error creating worker credential:', error)
+      toast.error('Failed to create worker credential')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleConfirm = async () => {
+    if (!pendingAction) return
+    const { type, credential } = pendingAction
+
+    setIsSubmitting(true)
+    try {
+      const response = type === 'rotate'
+        ? await fetch(`/api/${slug}/worker-credentials/${credential.id}/rotate`, { method: 'POST' })
+        : await fetch(`/api/${slug}/worker-credentials/${credential.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || `Failed to ${type} credential`)
+        return
+      }
+
+      if (type === 'rotate') {
+        setNewToken(data.token)
+      } else {
+        toast.success('Credential revoked')
+      }
+
+      setPendingAction(null)
+      await fetchCredentials()
+    } catch (error) {
+      console.error(`Error trying to ${type} worker credential:`, error)
+      toast.error(`Failed to ${type} credential`)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleCopyToken = async () => {
+    if (!newToken) return
+    await navigator.clipboard.writeText(newToken)
+    toast.success('Token copied to clipboard')
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Worker Credentials</CardTitle>
+            <CardDescription>
+              Tokens your LiveKit agent worker sends as <code>Authorization: Bearer &lt;token&gt;</code> when
+              it fetches agent configuration, reports call events, searches knowledge bases and runs tools.
+              Requests without a valid token for this organization are rejected.
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => setCreateOpen(true)}>
+            <IconPlus className="mr-1 h-4 w-4" />
+            New Credential
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <IconLoader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : credentials.length === 0 ? (
+            <div className="flex flex-col items-center gap-2 py-8 text-center">
+              <IconKey className="h-6 w-6 text-muted-foreground" />
+              <p className="text-sm text-muted-foreground">
+                No worker credentials yet. Create one and add it to your agent worker&apos;s environment.
+              </p>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Token</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Created</TableHead>
+                    <TableHead>Last Used</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {credentials.map((credential) => (
+                    <TableRow key={credential.id}>
+                      <TableCell className="font-medium">{credential.name}</TableCell>
+                      <TableCell>
+                        <code className="text-xs">{credential.token_prefix}…</code>
+                      </TableCell>
+                      <TableCell>{getStatusBadge(credential)}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {formatDate(credential.created_at)}
+                        {credential.created_by && <div className="text-xs">{credential.created_by}</div>}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {credential.last_used_at ? formatDate(credential.last_used_at) : 'Never'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {(credential.status === 'active' || credential.status === 'expiring') && (
+                          <div className="flex justify-end gap-2">
+                            {credential.status === 'active' && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setPendingAction({ type: 'rotate', credential })}
+                              >
+                                <IconRefresh className="mr-1 h-4 w-4" />
+                                Rotate
+                              </Button>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setPendingAction({ type: 'revoke', credential })}
+                            >
+                              <IconTrash className="mr-1 h-4 w-4" />
+                              Revoke
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Worker Credential</DialogTitle>
+            <DialogDescription>
+              Name the credential after the worker deployment that will use it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="worker-credential-name">Name</Label>
+            <Input
+              id="worker-credential-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Production worker"
+              maxLength={100}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={isSubmitting || !name.trim()}>
+              {isSubmitting && <IconLoader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!newToken} onOpenChange={(open) => !open && setNewToken(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Copy Your Token</DialogTitle>
+            <DialogDescription>
+              This is the only time the token is shown. Store it in your agent worker&apos;s environment.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <Input value={newToken ?? ''} readOnly className="font-mono text-xs" />
+            <Button variant="outline" size="icon" onClick={handleCopyToken}>
+              <IconCopy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setNewToken(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingAction} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingAction?.type === 'rotate' ? 'Rotate Credential' : 'Revoke Credential'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction?.type === 'rotate'
+                ? `A new token will be issued for "${pendingAction?.credential.name}". The current token keeps working for 24 hours so you can redeploy your workers.`
+                : `Workers using "${pendingAction?.credential.name}" will be rejected immediately. This cannot be undone.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSubmitting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => {
+                event.preventDefault()
+                handleConfirm()
+              }}
+              disabled={isSubmitting}
+              className={pendingAction?.type === 'revoke' ? 'bg-destructive hover:bg-destructive/90' : undefined}
+            >
+              {isSubmitting && <IconLoader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {pendingAction?.type === 'rotate' ? 'Rotate' : 'Revoke'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  )
+}
@@ -0,0 +1,268 @@
+"use client"
+
+import { useState, useEffect } from 'react'
+import { z } from 'zod'
+import { ApiRequestMethod, ApiRequestToolConfig, ParameterSource, ToolFormProps } from '@/types/tools'
+import { ParameterConfigField, ParameterConfig } from '@/components/tools/parameter-config'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Plus } from 'lucide-react'
+import { getAllVariables } from '@/lib/tools/variables'
+
+const HTTP_METHODS: ApiRequestMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE']
+
+interface NamedParameter {
+  id: string
+  name: string
+  config: ParameterConfig
+}
+
+function sourceToConfig(source: ParameterSource | undefined): ParameterConfig {
+  if (source?.mode === 'ai') {
+    return { mode: 'ai', prompt: source.prompt || '' }
+  }
+  if (source?.mode === 'array_extendable') {
+    return { mode: 'ai', prompt: source.aiExtension.prompt || '' }
+  }
+  const value = source?.mode === 'fixed' ? source.value : ''
+  return { mode: 'fixed', value: Array.isArray(value) ? value.join(', ') : value }
+}
+
+function configToSource(config: ParameterConfig): ParameterSource {
+  if (config.mode === 'ai') {
+    return { mode: 'ai', prompt: config.prompt || '', schema: z.string().describe(config.prompt || '') }
+  }
+  return { mode: 'fixed', value: config.value ?? '' }
+}
+
+function toNamedParameters(record: Record<string, ParameterSource> | undefined, prefix: string): NamedParameter[] {
+  return Object.entries(record || {}).map(([name, source], index) => ({
+    id: `${prefix}-${index}`,
+    name,
+    config: sourceToConfig(source),
+  }))
+}
+
+function toSourceRecord(params: NamedParameter[]): Record<string, ParameterSource> {
+  const record: Record<string, ParameterSource> = {}
+  params.forEach((param) => {
+    const name = param.name.trim()
+    if (name) {
+      record[name] = configToSource(param.config)
+    }
+  })
+  return record
+}
+
+export function ApiRequestToolForm({ initialData, onChange }: ToolFormProps<ApiRequestToolConfig>) {
+  const [method, setMethod] = useState<ApiRequestMethod>(initialData?.method || 'GET')
+  const [urlConfig, setUrlConfig] = useState<ParameterConfig>(() => sourceToConfig(initialData?.url))
+  const [headers, setHeaders] = useState<NamedParameter[]>(() => toNamedParameters(initialData?.headers, 'header'))
+  const [bodyFields, setBodyFields] = useState<NamedParameter[]>(() => toNamedParameters(initialData?.body, 'body'))
+  const [timeoutSeconds, setTimeoutSeconds] = useState(initialData?.timeoutSeconds ?? 10)
+  const [maxResponseLength, setMaxResponseLength] = useState(initialData?.maxResponseLength ?? 4000)
+  const [nextId, setNextId] = useState(1)
+
+  const sendsQueryParams = method === 'GET' || method === 'DELETE'
+
+  // Update parent whenever configuration changes
+  useEffect(() => {
+    const config: ApiRequestToolConfig = {
+      type: 'api_request',
+      label: initialData?.label || '',
+      description: initialData?.description || '',
+      method,
+      url: configToSource(urlConfig),
+      headers: toSourceRecord(headers),
+      body: toSourceRecord(bodyFields),
+      timeoutSeconds,
+      maxResponseLength,
+    }
+
+    onChange(config)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [method, urlConfig, headers, bodyFields, timeoutSeconds, maxResponseLength])
+
+  const addParameter = (setter: typeof setHeaders, prefix: string) => {
+    setter((prev) => [...prev, { id: `${prefix}-new-${nextId}`, name: '', config: { mode: 'fixed', value: '' } }])
+    setNextId((id) => id + 1)
+  }
+
+  const updateParameter = (setter: typeof setHeaders, id: string, updates: Partial<NamedParameter>) => {
+    setter((prev) => prev.map((param) => (param.id === id ? { ...param, ...updates } : param)))
+  }
+
+  const removeParameter = (setter: typeof setHeaders, id: string) => {
+    setter((prev) => prev.filter((param) => param.id !== id))
+  }
+
+  const renderParameterList = (
+    params: NamedParameter[],
+    setter: typeof setHeaders,
+    namePlaceholder: string
+  ) => (
+    <div className="space-y-4">
+      {params.map((param) => (
+        <div key={param.id} className="space-y-2 rounded-lg border p-3">
+          <Input
+            placeholder={namePlaceholder}
+            value={param.name}
+            onChange={(e) => updateParameter(setter, param.id, { name: e.target.value })}
+          />
+          <ParameterConfigField
+            name={param.id}
+            label={param.name || 'Value'}
+            isArray={false}
+            value={param.config}
+            onChange={(config) => updateParameter(setter, param.id, { config })}
+            onRemove={() => removeParameter(setter, param.id)}
+          />
+        </div>
+      ))}
+    </div>
+  )
+
+  return (
+    <div className="space-y-6">
+      {/* Request */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="space-y-4">
+            <div>
+              <Label className="text-base font-medium">Request</Label>
+              <p className="text-sm text-muted-foreground mt-1">
+                The endpoint the agent calls. Use {getAllVariables().map((v) => `{{${v.name}}}`).join(' or ')} to insert call details.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Method</Label>
+              <Select value={method} onValueChange={(value) => setMethod(value as ApiRequestMethod)}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {HTTP_METHODS.map((m) => (
+                    <SelectItem key={m} value={m}>{m}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <ParameterConfigField
+              name="url"
+              label="URL"
+              description="Full URL including https://"
+              required={true}
+              isArray={false}
+              value={urlConfig}
+              onChange={setUrlConfig}
+              customFixedInput={
+                <Input
+                  placeholder="https://api.example.com/customers?phone={{caller_phone_number}}"
+                  value={typeof urlConfig.value === 'string' ? urlConfig.value : ''}
+                  onChange={(e) => setUrlConfig({ ...urlConfig, value: e.target.value })}
+                />
+              }
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Headers */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="space-y-4">
+            <div>
+              <Label className="text-base font-medium">Headers</Label>
+              <p className="text-sm text-muted-foreground mt-1">
+                Authentication and other headers. Fixed values are never shown to the AI.
+              </p>
+            </div>
+            {renderParameterList(headers, setHeaders, 'Header name (e.g., Authorization)')}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="w-full border border-dashed"
+              onClick={() => addParameter(setHeaders, 'header')}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Header
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Body */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="space-y-4">
+            <div>
+              <Label className="text-base font-medium">
+                {sendsQueryParams ? 'Query Parameters' : 'Body Fields'}
+              </Label>
+              <p className="text-sm text-muted-foreground mt-1">
+                {sendsQueryParams
+                  ? `Added to the URL query string for ${method} requests`
+                  : 'Sent as a JSON object in the request body'}
+              </p>
+            </div>
+            {renderParameterList(bodyFields, setBodyFields, 'Field name (e.g., customer_name)')}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="w-full border border-dashed"
+              onClick={() => addParameter(setBodyFields, 'body')}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              {sendsQueryParams ? 'Add Query Parameter' : 'Add Body Field'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Limits */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="space-y-4">
+            <div>
+              <Label className="text-base font-medium">Limits</Label>
+              <p className="text-sm text-muted-foreground mt-1">
+                Keep the caller waiting as little as possible and the response small enough for the agent
+              </p>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="api-timeout">Timeout (seconds)</Label>
+                <Input
+                  id="api-timeout"
+                  type="number"
+                  min={1}
+                  max={30}
+                  value={timeoutSeconds}
+                  onChange={(e) => setTimeoutSeconds(parseInt(e.target.value, 10) || 10)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="api-max-response">Max Response Length (characters)</Label>
+                <Input
+                  id="api-max-response"
+                  type="number"
+                  min={100}
+                  step={500}
+                  value={maxResponseLength}
+                  onChange={(e) => setMaxResponseLength(parseInt(e.target.value, 10) || 4000)}
+                />
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -11,6 +11,7 @@ import { Textarea } from '@/components/ui/textarea'
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
 import { Switch } from '@/components/ui/switch'
 import { SmsToolForm } from '@/components/tools/sms-tool-form'
+import { ApiRequestToolForm } from '@/components/tools/api-request-tool-form'
 import { TransferCallToolForm } from '@/components/tools/transfer-call-tool-form'
 import { PipedreamActionToolForm } from '@/components/tools/pipedream-action-tool-form'
 import { Trash2 } from 'lucide-react'
@@ -261,6 +262,14 @@ export function EditToolForm({ tool, slug }: EditToolFormProps) {
               />
             )}
 
+            {toolConfig.type === 'api_request' && (
+              <ApiRequestToolForm
+                initialData={{ ...toolConfig, label, description }}
+                onChange={handleToolConfigChange}
+                slug={slug}
+              />
+            )}
+
             {toolConfig.type === 'pipedream_action' && (
               <PipedreamActionToolForm
                 slug={slug}
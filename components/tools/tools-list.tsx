@@ -109,6 +109,9 @@ export function ToolsList({ slug }: ToolsListProps) {
                 <DropdownMenuItem asChild>
                   <Link href={`/${slug}/tools/create?type=transfer_call`}>Transfer Call</Link>
                 </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link href={`/${slug}/tools/create?type=api_request`}>API Request</Link>
+                </DropdownMenuItem>
                 <DropdownMenuItem asChild>
                   <Link href={`/${slug}/tools/create?type=pipedream_action`}>External App</Link>
                 </DropdownMenuItem>
@@ -138,6 +141,9 @@ export function ToolsList({ slug }: ToolsListProps) {
                 <DropdownMenuItem asChild>
                   <Link href={`/${slug}/tools/create?type=transfer_call`}>Transfer Call</Link>
                 </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link href={`/${slug}/tools/create?type=api_request`}>API Request</Link>
+                </DropdownMenuItem>
                 <DropdownMenuItem asChild>
                   <Link href={`/${slug}/tools/create?type=pipedream_action`}>External App</Link>
                 </DropdownMenuItem>
@@ -21,10 +21,17 @@ interface Agent {
   name: string
 }
 
+interface RingGroupOption {
+  id: string
+  name: string
+  members: { phoneNumber: string }[]
+}
+
 export function TransferCallToolForm({ initialData, onChange, slug }: ToolFormProps<TransferCallToolConfig>) {
   // Agents list
   const [agents, setAgents] = useState<Agent[]>([])
   const [isLoadingAgents, setIsLoadingAgents] = useState(true)
+  const [ringGroups, setRingGroups] = useState<RingGroupOption[]>([])
 
   // Target state
   const [targetType, setTargetType] = useState<'agent' | 'number'>(
@@ -32,6 +39,8 @@ export function TransferCallToolForm({ initialData, onChange, slug }: ToolFormPr
   )
   const [selectedAgentId, setSelectedAgentId] = useState(initialData?.target.agentId || '')
   const [phoneNumber, setPhoneNumber] = useState(initialData?.target.phoneNumber || '')
+  const [ringGroupId, setRingGroupId] = useState(initialData?.target.ringGroupId || '')
+  const [fallback, setFallback] = useState<'agent' | 'voicemail'>(initialData?.fallback || 'agent')
 
   // Message state
   const [messageStrategy, setMessageStrategy] = useState<'fixed' | 'summarized' | 'none'>(
@@ -59,9 +68,27 @@ export function TransferCallToolForm({ initialData, onChange, slug }: ToolFormPr
     loadAgents()
   }, [slug])
 
+  // Load ring groups on mount
+  useEffect(() => {
+    const loadRingGroups = async () => {
+      try {
+        const response = await fetch(`/api/${slug}/ring-groups`)
+        if (response.ok) {
+          const data = await response.json()
+          setRingGroups(data.ringGroups || [])
+        }
+      } catch (error) {
+        console.error('Failed to load ring groups:', error)
+      }
+    }
+
+    loadRingGroups()
+  }, [slug])
+
   // Update parent whenever state changes
   useEffect(() => {
     const selectedAgent = agents.find((a) => a.id === selectedAgentId)
+    const selectedRingGroup = ringGroups.find((g) => g.id === ringGroupId)
 
     const config: TransferCallToolConfig = {
       type: 'transfer_call',
@@ -74,10 +101,19 @@ export function TransferCallToolForm({ initialData, onChange, slug }: ToolFormPr
               agentId: selectedAgentId,
               agentName: selectedAgent?.name,
             }
+          : selectedRingGroup
+          ? {
+              // The agent transfers to the first member, and the transfer rings the whole group
+              type: 'number',
+              phoneNumber: selectedRingGroup.members[0]?.phoneNumber || phoneNumber,
+              ringGroupId: selectedRingGroup.id,
+              ringGroupName: selectedRingGroup.name,
+            }
           : {
               type: 'number',
               phoneNumber: phoneNumber,
             },
+      ...(targetType === 'number' && { fallback }),
       message:
         messageStrategy === 'fixed'
           ? {
@@ -99,10 +135,13 @@ export function TransferCallToolForm({ initialData, onChange, slug }: ToolFormPr
     targetType,
     selectedAgentId,
     phoneNumber,
+    ringGroupId,
+    fallback,
     messageStrategy,
     messageContent,
     summarizePrompt,
     agents,
+    ringGroups,
   ])
 
   return (
@@ -168,11 +207,45 @@ export function TransferCallToolForm({ initialData, onChange, slug }: ToolFormPr
                       Transfer to Phone Number
                     </Label>
                     {targetType === 'number' && (
-                      <Input
-                        placeholder="+1234567890"
-                        value={phoneNumber}
-                        onChange={(e) => setPhoneNumber(e.target.value)}
-                      />
+                      <>
+                        {ringGroups.length > 0 && (
+                          <Select
+                            value={ringGroupId || 'number'}
+                            onValueChange={(value) => setRingGroupId(value === 'number' ? '' : value)}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="number">A single number</SelectItem>
+                              {ringGroups.map((group) => (
+                                <SelectItem key={group.id} value={group.id}>
+                                  Ring group: {group.name} ({group.members.length})
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                        {!ringGroups.some((group) => group.id === ringGroupId) && (
+                          <Input
+                            placeholder="+1234567890"
+                            value={phoneNumber}
+                            onChange={(e) => setPhoneNumber(e.target.value)}
+                          />
+                        )}
+                        <div className="space-y-1">
+                          <Label className="text-xs">If no one answers</Label>
+                          <Select value={fallback} onValueChange={(value) => setFallback(value as 'agent' | 'voicemail')}>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="agent">Reconnect to the agent</SelectItem>
+                              <SelectItem value="voicemail">Take a voicemail</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </>
                     )}
                   </div>
                 </div>
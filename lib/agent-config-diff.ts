@@ -0,0 +1,106 @@
+/**
+ * Diffing helpers for comparing agent configuration versions
+ * Pure functions so they can run in the browser (version history diff view)
+ */
+
+export interface ConfigurationChange {
+  path: string // Dot path, e.g. "pipeline.llm.model"
+  type: 'added' | 'removed' | 'changed'
+  before: unknown
+  after: unknown
+}
+
+export interface LineDiff {
+  type: 'same' | 'added' | 'removed'
+  text: string
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Flatten a configuration into dot paths
+ * Arrays are kept as single values so reordered keywords/tools show as one change
+ */
+export function flattenConfiguration(value: unknown, prefix = ''): Record<string, unknown> {
+  if (!isPlainObject(value)) {
+    return prefix ? { [prefix]: value } : {}
+  }
+
+  const flat: Record<string, unknown> = {}
+  for (const [key, child] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key
+    if (isPlainObject(child)) {
+      Object.assign(flat, flattenConfiguration(child, path))
+    } else if (child !== undefined) {
+      flat[path] = child
+    }
+  }
+  return flat
+}
+
+/**
+ * List every field that differs between two configurations, sorted by path
+ */
+export function diffConfigurations(before: unknown, after: unknown): ConfigurationChange[] {
+  const flatBefore = flattenConfiguration(before)
+  const flatAfter = flattenConfiguration(after)
+  const paths = new Set([...Object.keys(flatBefore), ...Object.keys(flatAfter)])
+
+  const changes: ConfigurationChange[] = []
+  for (const path of paths) {
+    const inBefore = path in flatBefore
+    const inAfter = path in flatAfter
+
+    if (!inBefore) {
+      changes.push({ path, type: 'added', before: undefined, after: flatAfter[path] })
+    } else if (!inAfter) {
+      changes.push({ path, type: 'removed', before: flatBefore[path], after: undefined })
+    } else if (JSON.stringify(flatBefore[path]) !== JSON.stringify(flatAfter[path])) {
+      changes.push({ path, type: 'changed', before: flatBefore[path], after: flatAfter[path] })
+    }
+  }
+
+  return changes.sort((a, b) => a.path.localeCompare(b.path))
+}
+
+/**
+ * Line-by-line diff of two strings (longest common subsequence)
+ * Used for long text fields like instructions and first messages
+ */
+export function diffLines(before: string, after: string): LineDiff[] {
+  const a = before.split('\n')
+  const b = after.split('\n')
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const result: LineDiff[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'same', text: a[i] })
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      result.push({ type: 'removed', text: a[i] })
+      i++
+    } else {
+      result.push({ type: 'added', text: b[j] })
+      j++
+    }
+  }
+  while (i < a.length) result.push({ type: 'removed', text: a[i++] })
+  while (j < b.length) result.push({ type: 'added', text: b[j++] })
+
+  return result
+}
@@ -0,0 +1,233 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getBusinessHoursStatus, resolveTimezone, type BusinessHoursStatus } from '@/lib/business-hours'
+import { TOOL_VARIABLES, type ToolVariable } from '@/lib/tools/variables'
+import type { AgentConfiguration } from '@/types/agent-config'
+import type { AgentRules } from '@/types/agent-rules'
+import type { Call } from '@/types/call-events'
+
+/**
+ * Agent Instruction Variables
+ *
+ * {{variables}} that can be used in an agent's instructions and first message.
+ * They're resolved per call by GET /api/phone-number/:number/agent before the
+ * configuration is sent to the worker.
+ *
+ * Besides the built-in variables below, any of the call's context variables
+ * (outbound calls, campaign contact columns) can be used by name, e.g.
+ * {{first_name}}. Write {{name|fallback}} to use a fallback when a variable
+ * has no value or the call doesn't have it.
+ */
+
+export const AGENT_VARIABLES: Record<string, ToolVariable> = {
+  ...TOOL_VARIABLES,
+  current_date: {
+    name: 'current_date',
+    displayName: 'Current Date',
+    description: 'Today\'s date in the agent\'s timezone',
+    example: 'Monday 27 October 2025',
+  },
+  current_time: {
+    name: 'current_time',
+    displayName: 'Current Time',
+    description: 'The time the call started, in the agent\'s timezone (24-hour)',
+    example: '14:05',
+  },
+  timezone: {
+    name: 'timezone',
+    displayName: 'Timezone',
+    description: 'The agent\'s timezone',
+    example: 'Europe/London',
+  },
+  business_hours_status: {
+    name: 'business_hours_status',
+    displayName: 'Business Hours Status',
+    description: 'open, closed or holiday, from the agent\'s time-based routing rules (unknown when routing is off)',
+    example: 'closed',
+  },
+  call_direction: {
+    name: 'call_direction',
+    displayName: 'Call Direction',
+    description: 'inbound, or outbound when the agent placed the call',
+    example: 'inbound',
+  },
+  previous_call_count: {
+    name: 'previous_call_count',
+    displayName: 'Previous Call Count',
+    description: 'How many earlier calls this organization has had with the caller',
+    example: '2',
+  },
+  last_call_date: {
+    name: 'last_call_date',
+    displayName: 'Last Call Date',
+    description: 'When the caller last spoke to the organization, in the agent\'s timezone',
+    example: 'Friday 24 October 2025',
+  },
+  last_call_summary: {
+    name: 'last_call_summary',
+    displayName: 'Last Call Summary',
+    description: 'The "summary" field of a completed evaluation on the caller\'s last call',
+    example: 'Asked to rebook their viewing for next week',
+  },
+}
+
+/**
+ * Get all built-in agent variables
+ */
+export function getAllAgentVariables(): ToolVariable[] {
+  return Object.values(AGENT_VARIABLES)
+}
+
+const VARIABLE_PATTERN = /\{\{(\w+)(?:\|([^}]*))?\}\}/g
+
+/**
+ * Replace {{name}} and {{name|fallback}} placeholders in agent text
+ * Variables without a value become their fallback, or an empty string.
+ * Unknown names without a fallback are left as written, so a typo or literal
+ * braces stay visible instead of silently disappearing from the prompt.
+ */
+export function substituteAgentVariables(text: string, values: Record<string, string>): string {
+  return text.replace(VARIABLE_PATTERN, (match, name: string, fallback?: string) => {
+    const value = values[name]
+    if (value === undefined && fallback === undefined) {
+      return match
+    }
+    return value !== undefined && value !== '' ? value : (fallback ?? '').trim()
+  })
+}
+
+function formatDate(date: Date, timezone: string): string {
+  return new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+  }).format(date)
+}
+
+function formatTime(date: Date, timezone: string): string {
+  return new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).format(date)
+}
+
+/**
+ * Agents without time-based routing have no opening hours to report, so they
+ * get 'unknown' rather than being told the office is closed
+ */
+function getBusinessHoursVariable(status: BusinessHoursStatus): string {
+  if (status.reason === 'routing_disabled') return 'unknown'
+  if (status.reason === 'holiday') return 'holiday'
+  return status.isOpen ? 'open' : 'closed'
+}
+
+export interface ResolveAgentVariablesParams {
+  supabase: SupabaseClient
+  organizationId: string
+  rules: AgentRules | null | undefined
+  calledPhoneNumber: string
+  callerPhoneNumber?: string | null
+  // The current call, when the worker identified it
+  call?: Pick<Call, 'id' | 'direction' | 'context_variables' | 'created_at'> | null
+  now?: Date
+}
+
+/**
+ * Work out every variable's value for one call
+ *
+ * Context variables are added last but never replace a built-in variable.
+ */
+export async function resolveAgentVariables(params: ResolveAgentVariablesParams): Promise<Record<string, string>> {
+  const { supabase, organizationId, rules, calledPhoneNumber, callerPhoneNumber, call } = params
+  const now = params.now ?? new Date()
+  const timezone = resolveTimezone(rules)
+  const businessHours = getBusinessHoursStatus(rules, now)
+
+  const values: Record<string, string> = {
+    called_phone_number: calledPhoneNumber,
+    caller_phone_number: callerPhoneNumber || '',
+    current_date: formatDate(now, timezone),
+    current_time: formatTime(now, timezone),
+    timezone,
+    business_hours_status: getBusinessHoursVariable(businessHours),
+    call_direction: call?.direction ?? 'inbound',
+    previous_call_count: '0',
+    last_call_date: '',
+    last_call_summary: '',
+  }
+
+  if (callerPhoneNumber) {
+    let historyQuery = supabase
+      .from('calls')
+      .select('id, created_at', { count: 'exact' })
+      .eq('organization_id', organizationId)
+      .eq('caller_phone_number', callerPhoneNumber)
+      .neq('status', 'blocked')
+
+    if (call) {
+      historyQuery = historyQuery.neq('id', call.id).lt('created_at', call.created_at)
+    }
+
+    const { data: previousCalls, count, error } = await historyQuery
+      .order('created_at', { ascending: false })
+      .limit(1)
+
+    if (error) {
+      console.error('Error fetching caller history:', error)
+    } else if (previousCalls && previousCalls.length > 0) {
+      const lastCall = previousCalls[0]
+      values.previous_call_count = String(count ?? previousCalls.length)
+      values.last_call_date = formatDate(new Date(lastCall.created_at), timezone)
+
+      const { data: evaluationResults } = await supabase
+        .from('call_evaluation_results')
+        .select('result')
+        .eq('call_id', lastCall.id)
+        .eq('status', 'completed')
+
+      const summary = (evaluationResults || [])
+        .map((row) => (row.result as Record<string, unknown> | null)?.summary)
+        .find((value): value is string => typeof value === 'string' && value.trim() !== '')
+
+      values.last_call_summary = summary?.trim() ?? ''
+    }
+  }
+
+  for (const [name, value] of Object.entries(call?.context_variables || {})) {
+    if (!(name in values)) {
+      values[name] = String(value)
+    }
+  }
+
+  return values
+}
+
+/**
+ * Substitute variables into the parts of a configuration the agent says or
+ * follows: instructions, first message and first message prompt
+ */
+export function applyAgentVariables<T extends Partial<AgentConfiguration>>(
+  configuration: T,
+  values: Record<string, string>
+): T {
+  const settings = configuration.settings
+
+  return {
+    ...configuration,
+    ...(typeof configuration.instructions === 'string' && {
+      instructions: substituteAgentVariables(configuration.instructions, values),
+    }),
+    ...(settings && {
+      settings: {
+        ...settings,
+        ...(settings.firstMessage && { firstMessage: substituteAgentVariables(settings.firstMessage, values) }),
+        ...(settings.firstMessagePrompt && {
+          firstMessagePrompt: substituteAgentVariables(settings.firstMessagePrompt, values),
+        }),
+      },
+    }),
+  }
+}
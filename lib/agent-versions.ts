@@ -0,0 +1,148 @@
+import { createServiceClient } from '@/lib/supabase/server'
+import type { AgentConfiguration, AgentConfigurationVersion } from '@/types/agent-config'
+
+export interface SaveDraftVersionParams {
+  agentId: string
+  organizationId: string
+  configuration: AgentConfiguration
+  notes?: string | null
+  createdBy?: string | null
+}
+
+export interface PublishVersionParams {
+  versionId: string
+  publishedBy?: string | null
+}
+
+type VersionResult = {
+  success: boolean
+  version?: AgentConfigurationVersion
+  error?: string
+}
+
+/**
+ * Validate an agent configuration before it is saved as a version
+ *
+ * @returns Error message, or null if the configuration is valid
+ */
+export function validateAgentConfiguration(configuration: AgentConfiguration | undefined): string | null {
+  if (!configuration) {
+    return 'Configuration is required'
+  }
+
+  if (!['realtime', 'pipeline'].includes(configuration.pipelineType)) {
+    return 'Invalid pipelineType. Must be "realtime" or "pipeline"'
+  }
+
+  if (!configuration.instructions || configuration.instructions.length < 10) {
+    return 'Instructions must be at least 10 characters long'
+  }
+
+  if (configuration.pipelineType === 'realtime' && !configuration.realtimeModel) {
+    return 'realtimeModel is required when pipelineType is "realtime"'
+  }
+
+  if (configuration.pipelineType === 'pipeline' && !configuration.pipeline) {
+    return 'pipeline configuration is required when pipelineType is "pipeline"'
+  }
+
+  return null
+}
+
+/**
+ * Save a configuration as the agent's draft version
+ *
+ * Updates the existing draft if there is one, otherwise creates a new draft
+ * numbered after the latest version. Drafts are never served to calls.
+ */
+export async function saveDraftVersion(params: SaveDraftVersionParams): Promise<VersionResult> {
+  const { agentId, organizationId, configuration, notes, createdBy } = params
+  const supabase = await createServiceClient()
+
+  const { data: draft } = await supabase
+    .from('agent_configuration_versions')
+    .select('id')
+    .eq('agent_id', agentId)
+    .eq('status', 'draft')
+    .maybeSingle()
+
+  if (draft) {
+    const { data: version, error } = await supabase
+      .from('agent_configuration_versions')
+      .update({
+        configuration,
+        ...(notes !== undefined && { notes }),
+      })
+      .eq('id', draft.id)
+      .select()
+      .single()
+
+    if (error || !version) {
+      console.error('❌ Failed to update draft version:', error)
+      return { success: false, error: 'Failed to save draft' }
+    }
+
+    return { success: true, version: version as AgentConfigurationVersion }
+  }
+
+  const { data: latest } = await supabase
+    .from('agent_configuration_versions')
+    .select('version_number')
+    .eq('agent_id', agentId)
+    .order('version_number', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const { data: version, error } = await supabase
+    .from('agent_configuration_versions')
+    .insert({
+      agent_id: agentId,
+      organization_id: organizationId,
+      version_number: (latest?.version_number ?? 0) + 1,
+      status: 'draft',
+      configuration,
+      notes: notes ?? null,
+      created_by: createdBy ?? null,
+    })
+    .select()
+    .single()
+
+  if (error || !version) {
+    // Unique violation: another save created the draft first
+    if (error?.code === '23505') {
+      return { success: false, error: 'The draft was changed by someone else, please reload and try again' }
+    }
+    console.error('❌ Failed to create draft version:', error)
+    return { success: false, error: 'Failed to save draft' }
+  }
+
+  return { success: true, version: version as AgentConfigurationVersion }
+}
+
+/**
+ * Publish a version, making it the configuration served to calls
+ *
+ * Works for drafts (publish) and archived versions (rollback). The previously
+ * published version is archived and agents.configuration is updated in the
+ * same transaction (publish_agent_configuration_version).
+ */
+export async function publishVersion(params: PublishVersionParams): Promise<VersionResult> {
+  const { versionId, publishedBy } = params
+  const supabase = await createServiceClient()
+
+  const { data, error } = await supabase
+    .rpc('publish_agent_configuration_version', {
+      p_version_id: versionId,
+      p_published_by: publishedBy ?? null,
+    })
+
+  const version = Array.isArray(data) ? data[0] : data
+
+  if (error || !version) {
+    console.error('❌ Failed to publish version:', error)
+    return { success: false, error: 'Failed to publish version' }
+  }
+
+  console.log(`✅ Published agent configuration v${version.version_number} for agent ${version.agent_id}`)
+  return { success: true, version: version as AgentConfigurationVersion }
+}
@@ -129,7 +129,7 @@ export async function getOrg(workosOrganizationId: string): Promise<Organisation
 }
 
 export async function getAuthSession(requestedSlug?: string) {
-  const { user, organizationId: userWorkosOrgId } = await withAuth();
+  const { user, organizationId: userWorkosOrgId, role } = await withAuth();
 
   // Check if user is an admin
   const isAdmin = checkIsAdminEmail(user?.email);
@@ -194,6 +194,8 @@ export async function getAuthSession(requestedSlug?: string) {
     organizationId: effectiveOrgId, // Always the DB ID, never WorkOS ID
     organisation, 
     isAdmin,
-    slug
+    slug,
+    // The user's WorkOS role only applies in their own organization
+    role: effectiveOrgId && effectiveOrgId === userOrganisation?.id ? role : undefined,
   };
 }
\ No newline at end of file
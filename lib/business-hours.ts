@@ -0,0 +1,460 @@
+import {
+  DEFAULT_TIMEZONE,
+  type AgentRules,
+  type BankHolidayRegion,
+  type DayOfWeek,
+  type HolidayCalendar,
+  type RecurringHoliday,
+  type Schedule,
+} from '@/types/agent-rules'
+
+/**
+ * Business Hours
+ *
+ * Timezone-aware evaluation of agent routing schedules and holiday calendars.
+ * Shared by the incoming call webhook and the rules editor preview so both
+ * always agree on whether the business is open.
+ *
+ * All calendar maths is done on plain "YYYY-MM-DD" date keys in the agent's
+ * timezone, so the result never depends on the timezone of the server.
+ */
+
+const DAY_NAMES: DayOfWeek[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
+
+export interface ZonedDateTime {
+  dateKey: string // "YYYY-MM-DD" in the target timezone
+  year: number
+  month: number // 1-12
+  day: number
+  weekday: DayOfWeek
+  minutes: number // Minutes since local midnight
+  timezone: string
+}
+
+export interface ActiveHoliday {
+  calendarId: string
+  calendarName: string
+  label: string
+}
+
+export interface BusinessHoursStatus {
+  isOpen: boolean
+  reason: 'routing_disabled' | 'holiday' | 'within_schedule' | 'outside_schedules'
+  timezone: string
+  localTime: string // e.g. "Mon 09:42"
+  activeSchedule: Schedule | null
+  holiday: ActiveHoliday | null
+}
+
+interface ResolvedHoliday {
+  dateKey: string
+  endDateKey?: string // Last day of a multi-day closure
+  label: string
+}
+
+// Holiday rule without an ID (built-in holidays are not user editable)
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never
+type BuiltInHoliday = WithoutId<RecurringHoliday>
+
+/**
+ * Built-in public holidays per region
+ */
+const BANK_HOLIDAYS: Record<BankHolidayRegion, BuiltInHoliday[]> = {
+  'england-and-wales': [
+    { label: "New Year's Day", type: 'fixed_date', month: 1, day: 1, weekendRule: 'next_weekday' },
+    { label: 'Good Friday', type: 'easter_offset', offsetDays: -2 },
+    { label: 'Easter Monday', type: 'easter_offset', offsetDays: 1 },
+    { label: 'Early May bank holiday', type: 'nth_weekday', month: 5, weekday: 'monday', nth: 1 },
+    { label: 'Spring bank holiday', type: 'nth_weekday', month: 5, weekday: 'monday', nth: -1 },
+    { label: 'Summer bank holiday', type: 'nth_weekday', month: 8, weekday: 'monday', nth: -1 },
+    { label: 'Christmas Day', type: 'fixed_date', month: 12, day: 25, weekendRule: 'next_weekday' },
+    { label: 'Boxing Day', type: 'fixed_date', month: 12, day: 26, weekendRule: 'next_weekday' },
+  ],
+  scotland: [
+    { label: "New Year's Day", type: 'fixed_date', month: 1, day: 1, weekendRule: 'next_weekday' },
+    { label: '2nd January', type: 'fixed_date', month: 1, day: 2, weekendRule: 'next_weekday' },
+    { label: 'Good Friday', type: 'easter_offset', offsetDays: -2 },
+    { label: 'Early May bank holiday', type: 'nth_weekday', month: 5, weekday: 'monday', nth: 1 },
+    { label: 'Spring bank holiday', type: 'nth_weekday', month: 5, weekday: 'monday', nth: -1 },
+    { label: 'Summer bank holiday', type: 'nth_weekday', month: 8, weekday: 'monday', nth: 1 },
+    { label: "St Andrew's Day", type: 'fixed_date', month: 11, day: 30, weekendRule: 'next_weekday' },
+    { label: 'Christmas Day', type: 'fixed_date', month: 12, day: 25, weekendRule: 'next_weekday' },
+    { label: 'Boxing Day', type: 'fixed_date', month: 12, day: 26, weekendRule: 'next_weekday' },
+  ],
+  'northern-ireland': [
+    { label: "New Year's Day", type: 'fixed_date', month: 1, day: 1, weekendRule: 'next_weekday' },
+    { label: "St Patrick's Day", type: 'fixed_date', month: 3, day: 17, weekendRule: 'next_weekday' },
+    { label: 'Good Friday', type: 'easter_offset', offsetDays: -2 },
+    { label: 'Easter Monday', type: 'easter_offset', offsetDays: 1 },
+    { label: 'Early May bank holiday', type: 'nth_weekday', month: 5, weekday: 'monday', nth: 1 },
+    { label: 'Spring bank holiday', type: 'nth_weekday', month: 5, weekday: 'monday', nth: -1 },
+    { label: 'Battle of the Boyne', type: 'fixed_date', month: 7, day: 12, weekendRule: 'next_weekday' },
+    { label: 'Summer bank holiday', type: 'nth_weekday', month: 8, weekday: 'monday', nth: -1 },
+    { label: 'Christmas Day', type: 'fixed_date', month: 12, day: 25, weekendRule: 'next_weekday' },
+    { label: 'Boxing Day', type: 'fixed_date', month: 12, day: 26, weekendRule: 'next_weekday' },
+  ],
+  'united-states': [
+    { label: "New Year's Day", type: 'fixed_date', month: 1, day: 1, weekendRule: 'nearest_weekday' },
+    { label: 'Martin Luther King Jr. Day', type: 'nth_weekday', month: 1, weekday: 'monday', nth: 3 },
+    { label: "Washington's Birthday", type: 'nth_weekday', month: 2, weekday: 'monday', nth: 3 },
+    { label: 'Memorial Day', type: 'nth_weekday', month: 5, weekday: 'monday', nth: -1 },
+    { label: 'Juneteenth', type: 'fixed_date', month: 6, day: 19, weekendRule: 'nearest_weekday' },
+    { label: 'Independence Day', type: 'fixed_date', month: 7, day: 4, weekendRule: 'nearest_weekday' },
+    { label: 'Labor Day', type: 'nth_weekday', month: 9, weekday: 'monday', nth: 1 },
+    { label: 'Columbus Day', type: 'nth_weekday', month: 10, weekday: 'monday', nth: 2 },
+    { label: 'Veterans Day', type: 'fixed_date', month: 11, day: 11, weekendRule: 'nearest_weekday' },
+    { label: 'Thanksgiving Day', type: 'nth_weekday', month: 11, weekday: 'thursday', nth: 4 },
+    { label: 'Christmas Day', type: 'fixed_date', month: 12, day: 25, weekendRule: 'nearest_weekday' },
+  ],
+}
+
+export const BANK_HOLIDAY_REGIONS: { value: BankHolidayRegion; label: string }[] = [
+  { value: 'england-and-wales', label: 'England & Wales' },
+  { value: 'scotland', label: 'Scotland' },
+  { value: 'northern-ireland', label: 'Northern Ireland' },
+  { value: 'united-states', label: 'United States (federal)' },
+]
+
+// ============================================
+// Timezone Helpers
+// ============================================
+
+/**
+ * Check whether a string is a valid IANA timezone
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Resolve the timezone to use for a schedule
+ * Schedule override → agent timezone → default
+ */
+export function resolveTimezone(rules: AgentRules | null | undefined, schedule?: Schedule): string {
+  const candidate = schedule?.timezone || rules?.timezone
+  return candidate && isValidTimezone(candidate) ? candidate : DEFAULT_TIMEZONE
+}
+
+/**
+ * Get the wall-clock date and time for an instant in a given timezone
+ */
+export function getZonedDateTime(date: Date, timezone: string): ZonedDateTime {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  })
+
+  const parts: Record<string, string> = {}
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value
+  }
+
+  const year = Number(parts.year)
+  const month = Number(parts.month)
+  const day = Number(parts.day)
+  const dateKey = toDateKey(year, month, day)
+
+  return {
+    dateKey,
+    year,
+    month,
+    day,
+    weekday: DAY_NAMES[new Date(Date.UTC(year, month - 1, day)).getUTCDay()],
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+    timezone,
+  }
+}
+
+// ============================================
+// Calendar Helpers
+// ============================================
+
+function toDateKey(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+function utcDateKey(date: Date): string {
+  return toDateKey(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate())
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days))
+}
+
+function isWeekend(date: Date): boolean {
+  const day = date.getUTCDay()
+  return day === 0 || day === 6
+}
+
+/**
+ * Easter Sunday for a given year (anonymous Gregorian algorithm)
+ */
+function getEasterSunday(year: number): Date {
+  const a = year % 19
+  const b = Math.floor(year / 100)
+  const c = year % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const month = Math.floor((h + l - 7 * m + 114) / 31)
+  const day = ((h + l - 7 * m + 114) % 31) + 1
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+/**
+ * Date of the nth weekday in a month (nth = -1 for the last one)
+ */
+function getNthWeekday(year: number, month: number, weekday: DayOfWeek, nth: number): Date | null {
+  const target = DAY_NAMES.indexOf(weekday)
+
+  if (nth < 0) {
+    const lastOfMonth = new Date(Date.UTC(year, month, 0))
+    const diff = (lastOfMonth.getUTCDay() - target + 7) % 7
+    return addDays(lastOfMonth, -diff)
+  }
+
+  const firstOfMonth = new Date(Date.UTC(year, month - 1, 1))
+  const diff = (target - firstOfMonth.getUTCDay() + 7) % 7
+  const result = addDays(firstOfMonth, diff + (nth - 1) * 7)
+  return result.getUTCMonth() === month - 1 ? result : null
+}
+
+/**
+ * Resolve every holiday in a list to concrete dates for one year
+ * Weekend substitutes are assigned in order so that back-to-back holidays
+ * (e.g. Christmas and Boxing Day) never share the same substitute day.
+ */
+function resolveHolidaysForYear(holidays: BuiltInHoliday[], year: number): ResolvedHoliday[] {
+  const actual: { date: Date; holiday: BuiltInHoliday }[] = []
+
+  for (const holiday of holidays) {
+    let date: Date | null = null
+
+    if (holiday.type === 'fixed_date') {
+      date = new Date(Date.UTC(year, holiday.month - 1, holiday.day))
+      // Skip invalid dates such as 30 February
+      if (date.getUTCMonth() !== holiday.month - 1) date = null
+    } else if (holiday.type === 'nth_weekday') {
+      date = getNthWeekday(year, holiday.month, holiday.weekday, holiday.nth)
+    } else if (holiday.type === 'easter_offset') {
+      date = addDays(getEasterSunday(year), holiday.offsetDays)
+    }
+
+    if (date) {
+      actual.push({ date, holiday })
+    }
+  }
+
+  actual.sort((a, b) => a.date.getTime() - b.date.getTime())
+
+  const taken = new Set(actual.map(({ date }) => utcDateKey(date)))
+  const resolved: ResolvedHoliday[] = []
+
+  for (const { date, holiday } of actual) {
+    resolved.push({ dateKey: utcDateKey(date), label: holiday.label })
+
+    const weekendRule = holiday.type === 'fixed_date' ? holiday.weekendRule || 'none' : 'none'
+    if (weekendRule === 'none' || !isWeekend(date)) continue
+
+    let observed: Date
+    if (weekendRule === 'nearest_weekday') {
+      observed = addDays(date, date.getUTCDay() === 6 ? -1 : 1)
+    } else {
+      observed = addDays(date, 1)
+      while (isWeekend(observed) || taken.has(utcDateKey(observed))) {
+        observed = addDays(observed, 1)
+      }
+    }
+
+    taken.add(utcDateKey(observed))
+    resolved.push({ dateKey: utcDateKey(observed), label: `${holiday.label} (substitute day)` })
+  }
+
+  return resolved
+}
+
+/**
+ * Find the holiday or closure that applies to a local date, if any
+ */
+function findHolidayForDate(calendar: HolidayCalendar, zoned: ZonedDateTime): string | null {
+  for (const closure of calendar.closures || []) {
+    if (closure.startDate <= zoned.dateKey && zoned.dateKey <= (closure.endDate || closure.startDate)) {
+      return closure.label || 'Closed'
+    }
+  }
+
+  const holidays: BuiltInHoliday[] = [
+    ...(calendar.bankHolidayRegion ? BANK_HOLIDAYS[calendar.bankHolidayRegion] || [] : []),
+    ...(calendar.recurringHolidays || []),
+  ]
+
+  if (holidays.length === 0) {
+    return null
+  }
+
+  // Substitute days can spill into the neighbouring year (e.g. 1 Jan on a Saturday
+  // observed on 31 Dec), so check the surrounding years too.
+  for (const year of [zoned.year - 1, zoned.year, zoned.year + 1]) {
+    const match = resolveHolidaysForYear(holidays, year).find((h) => h.dateKey === zoned.dateKey)
+    if (match) {
+      return match.label
+    }
+  }
+
+  return null
+}
+
+/**
+ * Get the holiday or closure in effect right now across all enabled calendars
+ * Calendars belong to the agent rather than to a schedule, so holidays are
+ * always checked in the agent's timezone - a schedule's timezone override only
+ * moves its opening hours, not which day the business is closed.
+ */
+export function getActiveHoliday(rules: AgentRules | null | undefined, now: Date = new Date()): ActiveHoliday | null {
+  const calendars = (rules?.holidayCalendars || []).filter((calendar) => calendar.enabled)
+  if (calendars.length === 0) {
+    return null
+  }
+
+  const zoned = getZonedDateTime(now, resolveTimezone(rules))
+
+  for (const calendar of calendars) {
+    const label = findHolidayForDate(calendar, zoned)
+    if (label) {
+      return {
+        calendarId: calendar.id,
+        calendarName: calendar.name,
+        label,
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * List upcoming holidays and closures for a calendar (used for previews)
+ */
+export function getUpcomingHolidays(
+  calendar: HolidayCalendar,
+  timezone: string,
+  count: number = 5,
+  now: Date = new Date()
+): ResolvedHoliday[] {
+  const today = getZonedDateTime(now, timezone).dateKey
+  const year = Number(today.slice(0, 4))
+
+  const holidays: BuiltInHoliday[] = [
+    ...(calendar.bankHolidayRegion ? BANK_HOLIDAYS[calendar.bankHolidayRegion] || [] : []),
+    ...(calendar.recurringHolidays || []),
+  ]
+
+  const upcoming: ResolvedHoliday[] = [
+    ...resolveHolidaysForYear(holidays, year),
+    ...resolveHolidaysForYear(holidays, year + 1),
+    ...(calendar.closures || [])
+      .filter((closure) => closure.startDate)
+      .map((closure) => ({
+        dateKey: closure.startDate,
+        endDateKey: closure.endDate && closure.endDate > closure.startDate ? closure.endDate : undefined,
+        label: closure.label || 'Closed',
+      })),
+  ]
+
+  // Closures that started before today but haven't ended are still upcoming
+  return upcoming
+    .filter((holiday) => (holiday.endDateKey || holiday.dateKey) >= today)
+    .sort((a, b) => a.dateKey.localeCompare(b.dateKey))
+    .slice(0, count)
+}
+
+// ============================================
+// Schedule Evaluation
+// ============================================
+
+/**
+ * Check if an instant falls within a schedule, evaluated in the schedule's timezone
+ */
+export function isWithinSchedule(
+  schedule: Schedule,
+  rules: AgentRules | null | undefined,
+  now: Date = new Date()
+): boolean {
+  const zoned = getZonedDateTime(now, resolveTimezone(rules, schedule))
+
+  // Check if current day is in schedule
+  if (!schedule.days.includes(zoned.weekday)) {
+    return false
+  }
+
+  // Parse schedule times
+  const [startHour, startMin] = schedule.startTime.split(':').map(Number)
+  const [endHour, endMin] = schedule.endTime.split(':').map(Number)
+
+  const startMinutes = startHour * 60 + startMin
+  const endMinutes = endHour * 60 + endMin
+
+  return zoned.minutes >= startMinutes && zoned.minutes < endMinutes
+}
+
+/**
+ * Work out whether the business is open right now
+ * Holidays and closures take precedence over schedules.
+ */
+export function getBusinessHoursStatus(
+  rules: AgentRules | null | undefined,
+  now: Date = new Date()
+): BusinessHoursStatus {
+  const timezone = resolveTimezone(rules)
+  const localTime = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).format(now)
+
+  const status: BusinessHoursStatus = {
+    isOpen: false,
+    reason: 'routing_disabled',
+    timezone,
+    localTime,
+    activeSchedule: null,
+    holiday: null,
+  }
+
+  if (!rules?.timeBasedRouting?.enabled || rules.timeBasedRouting.schedules.length === 0) {
+    return status
+  }
+
+  const holiday = getActiveHoliday(rules, now)
+  if (holiday) {
+    return { ...status, reason: 'holiday', holiday }
+  }
+
+  const activeSchedule = rules.timeBasedRouting.schedules.find((schedule) =>
+    isWithinSchedule(schedule, rules, now)
+  )
+
+  if (activeSchedule) {
+    return { ...status, isOpen: true, reason: 'within_schedule', activeSchedule }
+  }
+
+  return { ...status, reason: 'outside_schedules' }
+}
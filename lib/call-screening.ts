@@ -0,0 +1,261 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { isValidE164, normalizePhoneNumber } from '@/lib/outbound-calls'
+import { escapeXml } from '@/lib/twilio/twiml'
+import type {
+  CallScreeningEntry,
+  CallScreeningSettings,
+  ScreeningListType,
+  ScreeningRejectAction,
+} from '@/types/call-screening'
+
+/**
+ * Incoming Call Screening
+ *
+ * Organization-wide block / always-transfer / always-agent lists and
+ * rate-based spam detection, checked before an agent's schedules.
+ */
+
+export const SCREENING_LIST_TYPES: ScreeningListType[] = ['block', 'transfer', 'agent']
+export const ANONYMOUS_PATTERN = 'anonymous'
+
+// Caller IDs Twilio uses when the number is withheld, restricted or unknown
+const ANONYMOUS_CALLER_IDS = new Set(['', 'anonymous', 'restricted', 'unknown', '+266696687', '+7378742833', '+2562533', '+86282452253'])
+
+const PATTERN_FORMAT = /^\+?[0-9*?]{1,30}$/
+const DEFAULT_REJECT_MESSAGE = 'Sorry, we are unable to take your call.'
+
+export interface ScreeningResult {
+  action: ScreeningListType | null
+  reason: 'list' | 'spam' | null
+  entry: CallScreeningEntry | null
+  // Earlier calls from the number inside the spam window, when spam detection ran
+  recentCallCount: number | null
+  settings: CallScreeningSettings | null
+}
+
+export function isAnonymousCaller(callerNumber: string | null | undefined): boolean {
+  return ANONYMOUS_CALLER_IDS.has((callerNumber || '').trim().toLowerCase())
+}
+
+/**
+ * Validate and normalize a screening pattern from the dashboard
+ */
+export function normalizeScreeningPattern(input: string): { pattern?: string; error?: string } {
+  const trimmed = input.trim()
+
+  if (trimmed.toLowerCase() === ANONYMOUS_PATTERN) {
+    return { pattern: ANONYMOUS_PATTERN }
+  }
+
+  const pattern = normalizePhoneNumber(trimmed)
+
+  if (!PATTERN_FORMAT.test(pattern) || !/[0-9]/.test(pattern)) {
+    return { error: 'Pattern must be a phone number with optional * and ? wildcards (e.g. +4470*), or "anonymous"' }
+  }
+
+  if (!/[*?]/.test(pattern) && !isValidE164(pattern)) {
+    return { error: 'Numbers without wildcards must be in E.164 format, e.g. +447700900123' }
+  }
+
+  return { pattern }
+}
+
+/**
+ * Does a caller number match a pattern?
+ * * matches any run of digits, ? matches exactly one
+ */
+export function matchesScreeningPattern(pattern: string, callerNumber: string): boolean {
+  if (pattern === ANONYMOUS_PATTERN) {
+    return isAnonymousCaller(callerNumber)
+  }
+
+  const source = pattern
+    .split('')
+    .map((char) => (char === '*' ? '[0-9]*' : char === '?' ? '[0-9]' : char === '+' ? '\\+' : char))
+    .join('')
+
+  return new RegExp(`^${source}$`).test(normalizePhoneNumber(callerNumber))
+}
+
+/**
+ * How specific a pattern is - the number of literal digits
+ * Exact numbers beat prefixes, longer prefixes beat shorter ones
+ */
+function patternSpecificity(pattern: string): number {
+  if (pattern === ANONYMOUS_PATTERN) return Number.MAX_SAFE_INTEGER
+  const literalDigits = pattern.replace(/[^0-9]/g, '').length
+  return /[*?]/.test(pattern) ? literalDigits : literalDigits + 1000
+}
+
+/**
+ * Find the entry that applies to a caller
+ * The most specific matching pattern wins; on a tie the transfer / agent
+ * lists win over the blocklist
+ */
+export function findScreeningMatch(entries: CallScreeningEntry[], callerNumber: string): CallScreeningEntry | null {
+  let best: CallScreeningEntry | null = null
+
+  for (const entry of entries) {
+    if (!matchesScreeningPattern(entry.pattern, callerNumber)) continue
+
+    if (!best) {
+      best = entry
+      continue
+    }
+
+    const specificity = patternSpecificity(entry.pattern)
+    const bestSpecificity = patternSpecificity(best.pattern)
+
+    if (specificity > bestSpecificity || (specificity === bestSpecificity && best.list_type === 'block')) {
+      best = entry
+    }
+  }
+
+  return best
+}
+
+export async function getCallScreeningSettings(
+  supabase: SupabaseClient,
+  organizationId: string
+): Promise<CallScreeningSettings | null> {
+  const { data, error } = await supabase
+    .from('call_screening_settings')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching call screening settings:', error)
+    return null
+  }
+
+  return data as CallScreeningSettings | null
+}
+
+export type CallScreeningSettingsInput = Pick<
+  CallScreeningSettings,
+  'spam_detection_enabled' | 'spam_call_threshold' | 'spam_window_minutes' | 'reject_action' | 'reject_message'
+>
+
+/**
+ * Validate the spam detection / reject settings sent from the dashboard
+ */
+export function validateCallScreeningSettings(
+  body: Record<string, unknown>
+): { settings?: CallScreeningSettingsInput; error?: string } {
+  const threshold = body.spamCallThreshold === undefined ? 5 : Number(body.spamCallThreshold)
+  if (!Number.isInteger(threshold) || threshold < 2 || threshold > 100) {
+    return { error: 'spamCallThreshold must be between 2 and 100' }
+  }
+
+  const windowMinutes = body.spamWindowMinutes === undefined ? 10 : Number(body.spamWindowMinutes)
+  if (!Number.isInteger(windowMinutes) || windowMinutes < 1 || windowMinutes > 1440) {
+    return { error: 'spamWindowMinutes must be between 1 and 1440' }
+  }
+
+  const rejectAction = body.rejectAction ?? 'reject'
+  if (rejectAction !== 'reject' && rejectAction !== 'busy' && rejectAction !== 'message') {
+    return { error: 'rejectAction must be reject, busy or message' }
+  }
+
+  const rejectMessage = typeof body.rejectMessage === 'string' && body.rejectMessage.trim()
+    ? body.rejectMessage.trim().slice(0, 500)
+    : null
+
+  return {
+    settings: {
+      spam_detection_enabled: body.spamDetectionEnabled === true,
+      spam_call_threshold: threshold,
+      spam_window_minutes: windowMinutes,
+      reject_action: rejectAction as ScreeningRejectAction,
+      reject_message: rejectMessage,
+    },
+  }
+}
+
+/**
+ * Screen an incoming caller against the organization's lists, then spam detection
+ * Errors are logged and the call is let through
+ */
+export async function screenCaller(
+  supabase: SupabaseClient,
+  params: { organizationId: string; callerNumber: string; callId: string }
+): Promise<ScreeningResult> {
+  const result: ScreeningResult = {
+    action: null,
+    reason: null,
+    entry: null,
+    recentCallCount: null,
+    settings: null,
+  }
+
+  const [{ data: entries, error: entriesError }, settings] = await Promise.all([
+    supabase
+      .from('call_screening_entries')
+      .select('*')
+      .eq('organization_id', params.organizationId),
+    getCallScreeningSettings(supabase, params.organizationId),
+  ])
+
+  result.settings = settings
+
+  if (entriesError) {
+    console.error('Error fetching call screening entries:', entriesError)
+  }
+
+  const entry = findScreeningMatch((entries || []) as CallScreeningEntry[], params.callerNumber)
+  if (entry) {
+    return { ...result, action: entry.list_type, reason: 'list', entry }
+  }
+
+  if (!settings?.spam_detection_enabled || isAnonymousCaller(params.callerNumber)) {
+    return result
+  }
+
+  const windowStart = new Date(Date.now() - settings.spam_window_minutes * 60 * 1000).toISOString()
+  const { count, error } = await supabase
+    .from('calls')
+    .select('id', { count: 'exact', head: true })
+    .eq('organization_id', params.organizationId)
+    .eq('caller_phone_number', params.callerNumber)
+    .eq('direction', 'inbound')
+    .neq('id', params.callId)
+    .gte('created_at', windowStart)
+
+  if (error) {
+    console.error('Error counting recent calls for spam detection:', error)
+    return result
+  }
+
+  result.recentCallCount = count ?? 0
+
+  if (result.recentCallCount >= settings.spam_call_threshold) {
+    return { ...result, action: 'block', reason: 'spam' }
+  }
+
+  return result
+}
+
+/**
+ * TwiML for a blocked call, per the organization's reject settings
+ */
+export function generateRejectTwiML(settings: CallScreeningSettings | null): string {
+  switch (settings?.reject_action) {
+    case 'busy':
+      return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Reject reason="busy"/>
+</Response>`
+    case 'message':
+      return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Say>${escapeXml(settings.reject_message || DEFAULT_REJECT_MESSAGE)}</Say>
+  <Hangup/>
+</Response>`
+    default:
+      return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Reject reason="rejected"/>
+</Response>`
+  }
+}
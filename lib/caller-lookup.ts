@@ -0,0 +1,392 @@
+import { createHmac, randomBytes } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { executeAction } from '@/lib/pipedream/actions'
+import { toVariableName } from '@/lib/campaigns'
+import { isValidE164, normalizePhoneNumber } from '@/lib/outbound-calls'
+import { fetchPublicUrl, readLimitedText } from '@/lib/tools/request-guard'
+import { substituteVariables } from '@/lib/tools/variables'
+import type {
+  CallerLookupSettings,
+  CallerLookupSource,
+  CallerProfile,
+  CallerRoutingRule,
+} from '@/types/caller-lookup'
+import type { PipedreamActionToolConfig } from '@/types/tools'
+
+/**
+ * Pre-call CRM lookup
+ *
+ * Before an incoming call is routed we ask the organization's CRM who's
+ * calling. The lookup has to answer within timeout_ms - Twilio is waiting on
+ * the incoming webhook - so a slow or failing CRM just means the call is
+ * routed without caller details.
+ */
+
+export const MIN_LOOKUP_TIMEOUT_MS = 250
+export const MAX_LOOKUP_TIMEOUT_MS = 5000
+export const DEFAULT_LOOKUP_TIMEOUT_MS = 1500
+const MAX_ROUTING_RULES = 20
+const MAX_FIELDS = 50
+const MAX_FIELD_LENGTH = 500
+const MAX_WEBHOOK_RESPONSE_BYTES = 64 * 1024
+
+export const CALLER_LOOKUP_SIGNATURE_HEADER = 'X-Voiceify-Signature'
+
+export interface CallerLookupParams {
+  settings: CallerLookupSettings
+  organizationId: string
+  callerNumber: string
+  calledNumber: string
+  agentId: string
+  callId?: string
+}
+
+export interface CallerLookupResult {
+  success: boolean
+  // null when the CRM doesn't know the caller
+  profile?: CallerProfile | null
+  error?: string
+  timedOut?: boolean
+  durationMs: number
+}
+
+export interface CallerRoute {
+  transferTo: string
+  // Tag of the routing rule that matched - unset when the CRM picked the number
+  tag: string | null
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64url')}`
+}
+
+export function signWebhookBody(body: string, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`
+}
+
+export async function getCallerLookupSettings(
+  supabase: SupabaseClient,
+  organizationId: string
+): Promise<CallerLookupSettings | null> {
+  const { data, error } = await supabase
+    .from('caller_lookup_settings')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching caller lookup settings:', error)
+    return null
+  }
+
+  return data as CallerLookupSettings | null
+}
+
+export type CallerLookupSettingsInput = Pick<
+  CallerLookupSettings,
+  'enabled' | 'source' | 'webhook_url' | 'tool_id' | 'timeout_ms' | 'routing_rules'
+>
+
+/**
+ * Validate the settings sent from the dashboard
+ */
+export function validateCallerLookupSettings(
+  body: Record<string, unknown>
+): { settings?: CallerLookupSettingsInput; error?: string } {
+  const source = body.source ?? 'webhook'
+  if (source !== 'webhook' && source !== 'pipedream_action') {
+    return { error: 'source must be webhook or pipedream_action' }
+  }
+
+  const enabled = body.enabled === true
+
+  let webhookUrl: string | null = null
+  if (typeof body.webhookUrl === 'string' && body.webhookUrl.trim()) {
+    try {
+      const url = new URL(body.webhookUrl.trim())
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        return { error: 'webhookUrl must be an http(s) URL' }
+      }
+      webhookUrl = url.toString()
+    } catch {
+      return { error: 'webhookUrl must be a valid URL' }
+    }
+  }
+
+  const toolId = typeof body.toolId === 'string' && body.toolId ? body.toolId : null
+
+  if (enabled && source === 'webhook' && !webhookUrl) {
+    return { error: 'webhookUrl is required for webhook lookups' }
+  }
+  if (enabled && source === 'pipedream_action' && !toolId) {
+    return { error: 'toolId is required for Pipedream action lookups' }
+  }
+
+  const timeoutMs = body.timeoutMs === undefined ? DEFAULT_LOOKUP_TIMEOUT_MS : Number(body.timeoutMs)
+  if (!Number.isInteger(timeoutMs) || timeoutMs < MIN_LOOKUP_TIMEOUT_MS || timeoutMs > MAX_LOOKUP_TIMEOUT_MS) {
+    return { error: `timeoutMs must be between ${MIN_LOOKUP_TIMEOUT_MS} and ${MAX_LOOKUP_TIMEOUT_MS}` }
+  }
+
+  const rawRules = body.routingRules ?? []
+  if (!Array.isArray(rawRules) || rawRules.length > MAX_ROUTING_RULES) {
+    return { error: `routingRules must be an array of at most ${MAX_ROUTING_RULES} rules` }
+  }
+
+  const routingRules: CallerRoutingRule[] = []
+  for (const rule of rawRules) {
+    const tag = typeof rule?.tag === 'string' ? rule.tag.trim() : ''
+    const transferTo = normalizePhoneNumber(typeof rule?.transferTo === 'string' ? rule.transferTo : '')
+    if (!tag) {
+      return { error: 'Every routing rule needs a tag' }
+    }
+    if (!isValidE164(transferTo)) {
+      return { error: `Transfer number for "${tag}" must be in E.164 format, e.g. +447700900123` }
+    }
+    routingRules.push({ tag, transferTo })
+  }
+
+  return {
+    settings: {
+      enabled,
+      source: source as CallerLookupSource,
+      webhook_url: webhookUrl,
+      tool_id: toolId,
+      timeout_ms: timeoutMs,
+      routing_rules: routingRules,
+    },
+  }
+}
+
+function asString(value: unknown): string | null {
+  if (typeof value === 'string') return value.trim() || null
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+  return null
+}
+
+/**
+ * Turn a CRM response into a caller profile
+ *
+ * Accepts { name, tags, fields, transferTo } at the top level or under
+ * "contact", with a few common aliases (contactName, customFields). Tags can
+ * be an array or a comma-separated string.
+ *
+ * @returns null when the response doesn't describe a contact
+ */
+export function normalizeCallerProfile(raw: unknown): CallerProfile | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return null
+  }
+
+  const record = raw as Record<string, unknown>
+  const contact = (record.contact && typeof record.contact === 'object' && !Array.isArray(record.contact)
+    ? record.contact
+    : record) as Record<string, unknown>
+
+  const name = asString(contact.name) ?? asString(contact.contactName) ?? asString(contact.contact_name)
+
+  const rawTags = contact.tags
+  const tags = (Array.isArray(rawTags) ? rawTags : typeof rawTags === 'string' ? rawTags.split(',') : [])
+    .map((tag) => asString(tag))
+    .filter((tag): tag is string => tag !== null)
+
+  const fields: Record<string, string> = {}
+  const rawFields = contact.fields ?? contact.customFields ?? contact.custom_fields
+  if (rawFields && typeof rawFields === 'object' && !Array.isArray(rawFields)) {
+    for (const [key, value] of Object.entries(rawFields).slice(0, MAX_FIELDS)) {
+      const fieldName = toVariableName(key)
+      const fieldValue = asString(value)
+      if (fieldName && fieldValue !== null) {
+        fields[fieldName] = fieldValue.slice(0, MAX_FIELD_LENGTH)
+      }
+    }
+  }
+
+  const transferTo = normalizePhoneNumber(asString(contact.transferTo) ?? asString(contact.transfer_to) ?? '')
+
+  if (!name && tags.length === 0 && Object.keys(fields).length === 0 && !transferTo) {
+    return null
+  }
+
+  return {
+    name,
+    tags: Array.from(new Set(tags)),
+    fields,
+    transferTo: isValidE164(transferTo) ? transferTo : null,
+  }
+}
+
+/**
+ * Pick where to send the caller, if anywhere
+ * A number chosen by the CRM wins over the routing rules
+ */
+export function matchCallerRoute(profile: CallerProfile, rules: CallerRoutingRule[]): CallerRoute | null {
+  if (profile.transferTo) {
+    return { transferTo: profile.transferTo, tag: null }
+  }
+
+  const tags = new Set(profile.tags.map((tag) => tag.toLowerCase()))
+  const rule = rules.find((r) => tags.has(r.tag.toLowerCase()))
+
+  return rule ? { transferTo: rule.transferTo, tag: rule.tag } : null
+}
+
+/**
+ * Context variables for the call, so the agent can use {{contact_name}},
+ * {{contact_tags}} and {{<field>}} in its instructions and first message
+ */
+export function callerProfileToVariables(profile: CallerProfile): Record<string, string> {
+  return {
+    ...profile.fields,
+    contact_name: profile.name ?? '',
+    contact_tags: profile.tags.join(', '),
+  }
+}
+
+async function lookupViaWebhook(params: CallerLookupParams): Promise<unknown> {
+  const { settings } = params
+
+  if (!settings.webhook_url) {
+    throw new Error('No webhook URL configured')
+  }
+
+  const body = JSON.stringify({
+    event: 'caller_lookup',
+    callerNumber: params.callerNumber,
+    calledNumber: params.calledNumber,
+    agentId: params.agentId,
+    callId: params.callId ?? null,
+  })
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  if (settings.webhook_secret) {
+    headers[CALLER_LOOKUP_SIGNATURE_HEADER] = signWebhookBody(body, settings.webhook_secret)
+  }
+
+  // The URL was checked when it was saved, but DNS can change since
+  const { response, error } = await fetchPublicUrl(new URL(settings.webhook_url), {
+    method: 'POST',
+    headers,
+    body,
+    signal: AbortSignal.timeout(settings.timeout_ms),
+  })
+
+  if (!response) {
+    throw new Error(error)
+  }
+
+  // Unknown caller
+  if (response.status === 404 || response.status === 204) {
+    await response.body?.cancel()
+    return null
+  }
+
+  if (!response.ok) {
+    await response.body?.cancel()
+    throw new Error(`Webhook responded with ${response.status}`)
+  }
+
+  const { text, truncated } = await readLimitedText(response, MAX_WEBHOOK_RESPONSE_BYTES)
+  if (truncated) {
+    throw new Error(`Webhook response is larger than ${MAX_WEBHOOK_RESPONSE_BYTES / 1024}KB`)
+  }
+
+  return JSON.parse(text)
+}
+
+async function lookupViaPipedream(supabase: SupabaseClient, params: CallerLookupParams): Promise<unknown> {
+  const { settings } = params
+
+  const { data: tool, error } = await supabase
+    .from('tools')
+    .select('id, type, config_metadata, static_config')
+    .eq('id', settings.tool_id)
+    .eq('organization_id', params.organizationId)
+    .single()
+
+  if (error || !tool || tool.type !== 'pipedream_action') {
+    throw new Error('Pipedream action tool not found')
+  }
+
+  const { pipedreamMetadata } = (tool.config_metadata || {}) as Partial<PipedreamActionToolConfig>
+  if (!pipedreamMetadata?.actionKey) {
+    throw new Error('Tool is missing its Pipedream action')
+  }
+
+  // Fixed params can use {{caller_phone_number}} / {{called_phone_number}}
+  const staticConfig = (tool.static_config || {}) as Record<string, unknown>
+  const staticParams = (staticConfig.params && typeof staticConfig.params === 'object'
+    ? staticConfig.params
+    : staticConfig) as Record<string, unknown>
+
+  const configuredProps: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(staticParams)) {
+    configuredProps[key] = typeof value === 'string'
+      ? substituteVariables(value, {
+        caller_phone_number: params.callerNumber,
+        called_phone_number: params.calledNumber,
+      })
+      : value
+  }
+
+  if (pipedreamMetadata.accountId) {
+    configuredProps[pipedreamMetadata.appFieldName || pipedreamMetadata.app] = {
+      authProvisionId: pipedreamMetadata.accountId,
+    }
+  }
+
+  // executeAction can't be cancelled, so race it against the timeout
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const timeoutError = new Error(`Lookup timed out after ${settings.timeout_ms}ms`)
+      timeoutError.name = 'TimeoutError'
+      reject(timeoutError)
+    }, settings.timeout_ms)
+  })
+
+  try {
+    const result = await Promise.race([
+      executeAction(params.organizationId, pipedreamMetadata.actionKey, configuredProps),
+      timeout,
+    ])
+
+    if (!result.success) {
+      throw new Error(result.error || 'Pipedream action failed')
+    }
+
+    return result.returnValue ?? result.exports ?? null
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Ask the organization's CRM who's calling
+ * Never throws - errors and timeouts are returned so the call can carry on
+ */
+export async function lookupCaller(supabase: SupabaseClient, params: CallerLookupParams): Promise<CallerLookupResult> {
+  const startedAt = Date.now()
+
+  try {
+    const raw = params.settings.source === 'pipedream_action'
+      ? await lookupViaPipedream(supabase, params)
+      : await lookupViaWebhook(params)
+
+    return {
+      success: true,
+      profile: normalizeCallerProfile(raw),
+      durationMs: Date.now() - startedAt,
+    }
+  } catch (error) {
+    const timedOut = error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')
+
+    return {
+      success: false,
+      error: timedOut
+        ? `Lookup timed out after ${params.settings.timeout_ms}ms`
+        : error instanceof Error ? error.message : 'Lookup failed',
+      timedOut,
+      durationMs: Date.now() - startedAt,
+    }
+  }
+}
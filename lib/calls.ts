@@ -2,6 +2,7 @@ import { createServiceClient } from '@/lib/supabase/server'
 import { Call, CallEventType, CallEventData } from '@/types/call-events'
 
 export interface FindCallParams {
+  callId?: string | null
   twilioCallSid?: string | null
   agentId?: string | null
   callerPhoneNumber?: string | null
@@ -19,6 +20,7 @@ export interface SaveAgentEventParams {
  * Find a call record in the database
  * 
  * Priority order for finding calls:
+ * 0. Call ID (outbound calls pass it to the worker in the X-Call-Id SIP header)
  * 1. LiveKit room name (most reliable after room_connected event)
  * 2. Twilio CallSid (reliable for initial routing)
  * 3. agent_id + caller phone number + recent timestamp (fallback)
@@ -27,10 +29,28 @@ export interface SaveAgentEventParams {
  * @returns Call record or null if not found
  */
 export async function findCallRecord(params: FindCallParams): Promise<Call | null> {
-  const { twilioCallSid, agentId, callerPhoneNumber, roomName } = params
+  const { callId, twilioCallSid, agentId, callerPhoneNumber, roomName } = params
   const supabase = await createServiceClient()
   
   let callRecord: Call | null = null
+
+  // Priority 0: Call ID, when the worker knows it
+  if (callId) {
+    console.log(`🔍 Looking up call by ID: ${callId}`)
+    const { data: callData, error: callError } = await supabase
+      .from('calls')
+      .select('*')
+      .eq('id', callId)
+      .single()
+
+    if (!callError && callData) {
+      callRecord = callData as Call
+      console.log(`✅ Found call by ID: ${callRecord.id}`)
+      return callRecord
+    } else if (callError && callError.code !== 'PGRST116') {
+      console.warn(`⚠️ Error looking up by call ID: ${callError.message}`)
+    }
+  }
   
   // Priority 1: Try to find by LiveKit room name (most reliable once set)
   if (roomName) {
@@ -94,7 +114,7 @@ export async function findCallRecord(params: FindCallParams): Promise<Call | nul
   }
 
   if (!callRecord) {
-    console.error('❌ Call record not found', { roomName, twilioCallSid, agentId, callerPhoneNumber })
+    console.error('❌ Call record not found', { callId, roomName, twilioCallSid, agentId, callerPhoneNumber })
   }
 
   return callRecord
@@ -108,13 +128,14 @@ export async function findCallRecord(params: FindCallParams): Promise<Call | nul
  */
 export async function saveAgentEvent(params: SaveAgentEventParams): Promise<{
   success: boolean
+  eventId?: string
   error?: string
 }> {
   const { callId, eventType, eventData, timestamp } = params
   const supabase = await createServiceClient()
 
   try {
-    const { error: eventError } = await supabase
+    const { data: event, error: eventError } = await supabase
       .from('agent_events')
       .insert({
         call_id: callId,
@@ -122,6 +143,8 @@ export async function saveAgentEvent(params: SaveAgentEventParams): Promise<{
         time: timestamp || new Date().toISOString(),
         data: eventData,
       })
+      .select('id')
+      .single()
 
     if (eventError) {
       console.error(`❌ Failed to insert event '${eventType}':`, eventError)
@@ -132,7 +155,7 @@ export async function saveAgentEvent(params: SaveAgentEventParams): Promise<{
     }
 
     console.log(`✅ Event '${eventType}' stored successfully`)
-    return { success: true }
+    return { success: true, eventId: event.id }
   } catch (error) {
     console.error(`❌ Error saving event '${eventType}':`, error)
     return {
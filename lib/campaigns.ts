@@ -0,0 +1,539 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getZonedDateTime, isValidTimezone } from '@/lib/business-hours'
+import { isValidE164, normalizePhoneNumber, validateContextVariables } from '@/lib/outbound-calls'
+import type { DayOfWeek } from '@/types/agent-rules'
+import type { CallContextVariables } from '@/types/call-events'
+import type {
+  CallingWindow,
+  CampaignContactStatus,
+  CampaignRetryOutcome,
+  CampaignStats,
+  CampaignStatus,
+} from '@/types/campaigns'
+
+/**
+ * Outbound Campaigns
+ *
+ * Shared by the campaign API routes, the outbound call webhooks and the
+ * dispatch-campaign-calls Trigger.dev task. Nothing here creates its own
+ * Supabase client, so it can run inside a task as well as a request.
+ */
+
+export const MAX_CONTACTS_PER_UPLOAD = 10000
+export const RETRY_OUTCOMES: CampaignRetryOutcome[] = ['no-answer', 'busy', 'failed']
+
+// Header names recognised as the phone number column when none is given
+const PHONE_COLUMN_NAMES = ['phone', 'phone_number', 'phonenumber', 'number', 'mobile', 'telephone', 'tel']
+const DAYS: DayOfWeek[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday']
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+// Contact statuses that still need (or are using) a call
+export const OPEN_CONTACT_STATUSES: CampaignContactStatus[] = ['pending', 'dialing', 'connected']
+
+// Which status changes the dashboard can make
+const STATUS_TRANSITIONS: Record<CampaignStatus, CampaignStatus[]> = {
+  draft: ['running', 'cancelled'],
+  running: ['paused', 'cancelled'],
+  paused: ['running', 'cancelled'],
+  completed: [],
+  cancelled: [],
+}
+
+export function canTransitionCampaign(from: CampaignStatus, to: CampaignStatus): boolean {
+  return STATUS_TRANSITIONS[from]?.includes(to) ?? false
+}
+
+// ============================================
+// CSV Import
+// ============================================
+
+export interface ParsedContact {
+  phoneNumber: string
+  variables: CallContextVariables
+  rowNumber: number
+}
+
+export interface ParsedContactsResult {
+  contacts: ParsedContact[]
+  phoneColumn: string
+  // Variable names the other columns were mapped to
+  columns: string[]
+  errors: { row: number; error: string }[]
+  duplicates: number
+}
+
+/**
+ * Split CSV text into rows of fields (RFC 4180 quoting, CRLF or LF line endings)
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++
+      }
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Drop blank lines
+  return rows.filter((fields) => fields.some((value) => value.trim()))
+}
+
+/**
+ * Turn a CSV header into a context variable name ("First Name" -> "first_name")
+ */
+export function toVariableName(header: string): string {
+  const name = header
+    .trim()
+    .replace(/^\uFEFF/, '')
+    .replace(/[^a-zA-Z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toLowerCase()
+
+  return /^[0-9]/.test(name) ? `_${name}` : name
+}
+
+/**
+ * Parse an uploaded contact list
+ *
+ * The first row is the header. One column holds the phone number (phoneColumn,
+ * or the first header that looks like one); every other column becomes a
+ * context variable for that contact's call.
+ */
+export function parseContactsCsv(
+  text: string,
+  phoneColumn?: string | null
+): { success: true; result: ParsedContactsResult } | { success: false; error: string } {
+  const rows = parseCsvRows(text)
+
+  if (rows.length < 2) {
+    return { success: false, error: 'The CSV needs a header row and at least one contact' }
+  }
+
+  if (rows.length - 1 > MAX_CONTACTS_PER_UPLOAD) {
+    return { success: false, error: `At most ${MAX_CONTACTS_PER_UPLOAD} contacts can be uploaded at once` }
+  }
+
+  const headers = rows[0].map((header) => header.trim().replace(/^\uFEFF/, ''))
+  const variableNames = headers.map(toVariableName)
+
+  const phoneIndex = phoneColumn
+    ? headers.findIndex((header) => header.toLowerCase() === phoneColumn.trim().toLowerCase())
+    : variableNames.findIndex((name) => PHONE_COLUMN_NAMES.includes(name))
+
+  if (phoneIndex === -1) {
+    return {
+      success: false,
+      error: phoneColumn
+        ? `Column "${phoneColumn}" was not found in the CSV`
+        : 'Could not find a phone number column - name it "phone" or choose the column',
+    }
+  }
+
+  const seen = new Set<string>()
+  const contacts: ParsedContact[] = []
+  const errors: { row: number; error: string }[] = []
+  let duplicates = 0
+
+  for (let i = 1; i < rows.length; i++) {
+    const rowNumber = i + 1 // 1-based, counting the header
+    const fields = rows[i]
+    const phoneNumber = normalizePhoneNumber(fields[phoneIndex] || '')
+
+    if (!isValidE164(phoneNumber)) {
+      errors.push({ row: rowNumber, error: `Invalid phone number "${fields[phoneIndex] || ''}" - use E.164 format, e.g. +447700900123` })
+      continue
+    }
+
+    if (seen.has(phoneNumber)) {
+      duplicates++
+      continue
+    }
+
+    const variables: CallContextVariables = {}
+    variableNames.forEach((name, index) => {
+      const value = fields[index]?.trim()
+      if (index !== phoneIndex && name && value) {
+        variables[name] = value
+      }
+    })
+
+    const variablesError = validateContextVariables(variables)
+    if (variablesError) {
+      errors.push({ row: rowNumber, error: variablesError })
+      continue
+    }
+
+    seen.add(phoneNumber)
+    contacts.push({ phoneNumber, variables, rowNumber })
+  }
+
+  return {
+    success: true,
+    result: {
+      contacts,
+      phoneColumn: headers[phoneIndex],
+      columns: variableNames.filter((name, index) => index !== phoneIndex && name),
+      errors,
+      duplicates,
+    },
+  }
+}
+
+// ============================================
+// Settings
+// ============================================
+
+export interface CampaignSettings {
+  name?: string
+  agent_id?: string
+  phone_number_id?: string | null
+  timezone?: string
+  calling_windows?: CallingWindow[]
+  max_concurrent_calls?: number
+  max_attempts?: number
+  retry_delay_minutes?: number
+  retry_on?: CampaignRetryOutcome[]
+}
+
+function isIntegerBetween(value: unknown, min: number, max: number): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max
+}
+
+export function validateCallingWindows(windows: unknown): string | null {
+  if (!Array.isArray(windows) || windows.length === 0) {
+    return 'At least one calling window is required'
+  }
+
+  for (const window of windows as CallingWindow[]) {
+    if (!Array.isArray(window?.days) || window.days.length === 0 || !window.days.every((day) => DAYS.includes(day))) {
+      return 'Each calling window needs at least one day'
+    }
+    if (!TIME_PATTERN.test(window.startTime) || !TIME_PATTERN.test(window.endTime)) {
+      return 'Calling window times must be in HH:MM format'
+    }
+    if (window.startTime >= window.endTime) {
+      return 'Calling windows must end after they start'
+    }
+  }
+
+  return null
+}
+
+/**
+ * Validate campaign settings from a create / update request body
+ *
+ * @param partial - true for updates, where every field is optional
+ */
+export function validateCampaignSettings(
+  body: Record<string, unknown>,
+  partial: boolean
+): { settings: CampaignSettings; error?: string } {
+  const settings: CampaignSettings = {}
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      return { settings, error: 'name is required' }
+    }
+    settings.name = body.name.trim().slice(0, 255)
+  }
+
+  if (body.agentId !== undefined || !partial) {
+    if (typeof body.agentId !== 'string' || !body.agentId) {
+      return { settings, error: 'agentId is required' }
+    }
+    settings.agent_id = body.agentId
+  }
+
+  if (body.phoneNumberId !== undefined) {
+    settings.phone_number_id = typeof body.phoneNumberId === 'string' && body.phoneNumberId ? body.phoneNumberId : null
+  }
+
+  if (body.timezone !== undefined || !partial) {
+    if (typeof body.timezone !== 'string' || !isValidTimezone(body.timezone)) {
+      return { settings, error: 'timezone must be a valid IANA timezone, e.g. Europe/London' }
+    }
+    settings.timezone = body.timezone
+  }
+
+  if (body.callingWindows !== undefined || !partial) {
+    const windowsError = validateCallingWindows(body.callingWindows)
+    if (windowsError) {
+      return { settings, error: windowsError }
+    }
+    settings.calling_windows = (body.callingWindows as CallingWindow[]).map(({ days, startTime, endTime }) => ({
+      days,
+      startTime,
+      endTime,
+    }))
+  }
+
+  if (body.maxConcurrentCalls !== undefined) {
+    if (!isIntegerBetween(body.maxConcurrentCalls, 1, 50)) {
+      return { settings, error: 'maxConcurrentCalls must be between 1 and 50' }
+    }
+    settings.max_concurrent_calls = body.maxConcurrentCalls as number
+  }
+
+  if (body.maxAttempts !== undefined) {
+    if (!isIntegerBetween(body.maxAttempts, 1, 10)) {
+      return { settings, error: 'maxAttempts must be between 1 and 10' }
+    }
+    settings.max_attempts = body.maxAttempts as number
+  }
+
+  if (body.retryDelayMinutes !== undefined) {
+    if (!isIntegerBetween(body.retryDelayMinutes, 1, 10080)) {
+      return { settings, error: 'retryDelayMinutes must be between 1 and 10080 (one week)' }
+    }
+    settings.retry_delay_minutes = body.retryDelayMinutes as number
+  }
+
+  if (body.retryOn !== undefined) {
+    if (!Array.isArray(body.retryOn) || !body.retryOn.every((outcome) => RETRY_OUTCOMES.includes(outcome))) {
+      return { settings, error: `retryOn may only contain ${RETRY_OUTCOMES.join(', ')}` }
+    }
+    settings.retry_on = body.retryOn as CampaignRetryOutcome[]
+  }
+
+  return { settings }
+}
+
+/**
+ * Check that the agent and phone number in the settings belong to the organization
+ *
+ * @returns Error message, or null if they do
+ */
+export async function validateCampaignReferences(
+  supabase: SupabaseClient,
+  organizationId: string,
+  settings: CampaignSettings
+): Promise<string | null> {
+  if (settings.agent_id) {
+    const { data: agent } = await supabase
+      .from('agents')
+      .select('id')
+      .eq('id', settings.agent_id)
+      .eq('organization_id', organizationId)
+      .maybeSingle()
+
+    if (!agent) {
+      return 'Agent not found'
+    }
+  }
+
+  if (settings.phone_number_id) {
+    const { data: phoneNumber } = await supabase
+      .from('phone_numbers')
+      .select('id')
+      .eq('id', settings.phone_number_id)
+      .eq('organization_id', organizationId)
+      .eq('provider', 'twilio')
+      .maybeSingle()
+
+    if (!phoneNumber) {
+      return 'Phone number not found - campaigns call from Twilio numbers'
+    }
+  }
+
+  return null
+}
+
+// ============================================
+// Calling Windows
+// ============================================
+
+/**
+ * Check if an instant falls inside one of the campaign's calling windows,
+ * evaluated in the campaign's timezone
+ */
+export function isWithinCallingWindows(
+  windows: CallingWindow[],
+  timezone: string,
+  now: Date = new Date()
+): boolean {
+  const zoned = getZonedDateTime(now, timezone)
+
+  return windows.some((window) => {
+    if (!window.days.includes(zoned.weekday)) {
+      return false
+    }
+
+    const [startHour, startMin] = window.startTime.split(':').map(Number)
+    const [endHour, endMin] = window.endTime.split(':').map(Number)
+
+    return zoned.minutes >= startHour * 60 + startMin && zoned.minutes < endHour * 60 + endMin
+  })
+}
+
+// ============================================
+// Stats
+// ============================================
+
+function emptyStats(): CampaignStats {
+  return { total: 0, pending: 0, dialled: 0, connected: 0, completed: 0, failed: 0, skipped: 0 }
+}
+
+/**
+ * Dialled / connected / completed / failed counts for each campaign
+ */
+export async function getCampaignStats(
+  supabase: SupabaseClient,
+  campaignIds: string[]
+): Promise<Map<string, CampaignStats>> {
+  const stats = new Map<string, CampaignStats>(campaignIds.map((id) => [id, emptyStats()]))
+
+  if (campaignIds.length === 0) {
+    return stats
+  }
+
+  const { data, error } = await supabase.rpc('get_campaign_contact_counts', {
+    p_campaign_ids: campaignIds,
+  })
+
+  if (error) {
+    console.error('Error fetching campaign stats:', error)
+    return stats
+  }
+
+  for (const row of (data || []) as { campaign_id: string; status: CampaignContactStatus; contact_count: number; attempted_count: number }[]) {
+    const campaignStats = stats.get(row.campaign_id)
+    if (!campaignStats) continue
+
+    const count = Number(row.contact_count)
+    campaignStats.total += count
+    campaignStats.dialled += Number(row.attempted_count)
+
+    switch (row.status) {
+      case 'pending':
+        campaignStats.pending += count
+        break
+      case 'connected':
+        campaignStats.connected += count
+        break
+      case 'completed':
+        campaignStats.connected += count
+        campaignStats.completed += count
+        break
+      case 'failed':
+        campaignStats.failed += count
+        break
+      case 'skipped':
+        campaignStats.skipped += count
+        break
+    }
+  }
+
+  return stats
+}
+
+// ============================================
+// Call Outcomes
+// ============================================
+
+// 'answered' / 'completed' come from the outbound answer and status webhooks,
+// anything else is the Twilio CallStatus of an attempt that never connected
+export type CampaignCallOutcome = 'answered' | 'completed' | string
+
+/**
+ * Update a campaign contact after one of its calls changes state
+ *
+ * Unanswered attempts are retried after the campaign's retry delay when the
+ * outcome is in retry_on and attempts remain; otherwise the contact fails.
+ * Calls that aren't the contact's latest attempt are ignored.
+ */
+export async function recordCampaignCallOutcome(
+  supabase: SupabaseClient,
+  callId: string,
+  outcome: CampaignCallOutcome
+): Promise<void> {
+  const { data: call } = await supabase
+    .from('calls')
+    .select('campaign_contact_id')
+    .eq('id', callId)
+    .maybeSingle()
+
+  if (!call?.campaign_contact_id) {
+    return
+  }
+
+  const { data: contact, error } = await supabase
+    .from('campaign_contacts')
+    .select('id, status, attempts, last_call_id, campaigns(max_attempts, retry_delay_minutes, retry_on)')
+    .eq('id', call.campaign_contact_id)
+    .single()
+
+  if (error || !contact) {
+    console.error('Error fetching campaign contact:', error)
+    return
+  }
+
+  if (contact.last_call_id && contact.last_call_id !== callId) {
+    return
+  }
+
+  const campaign = contact.campaigns as unknown as {
+    max_attempts: number
+    retry_delay_minutes: number
+    retry_on: CampaignRetryOutcome[]
+  } | null
+
+  let update: Record<string, unknown>
+
+  if (outcome === 'answered') {
+    update = { status: 'connected', last_result: 'answered' }
+  } else if (outcome === 'completed') {
+    update = { status: 'completed', last_result: 'completed', next_attempt_at: null }
+  } else {
+    const retryable = campaign?.retry_on.includes(outcome as CampaignRetryOutcome) ?? false
+    const attemptsLeft = contact.attempts < (campaign?.max_attempts ?? 1)
+
+    update = retryable && attemptsLeft
+      ? {
+          status: 'pending',
+          last_result: outcome,
+          next_attempt_at: new Date(Date.now() + (campaign?.retry_delay_minutes ?? 60) * 60 * 1000).toISOString(),
+        }
+      : { status: 'failed', last_result: outcome, next_attempt_at: null }
+  }
+
+  const { error: updateError } = await supabase
+    .from('campaign_contacts')
+    .update({ ...update, last_call_id: callId })
+    .eq('id', contact.id)
+
+  if (updateError) {
+    console.error('Error updating campaign contact:', updateError)
+  }
+}
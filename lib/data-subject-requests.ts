@@ -0,0 +1,162 @@
+import { createHash } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { tasks } from '@trigger.dev/sdk/v3'
+import twilio from 'twilio'
+import { RECORDINGS_BUCKET } from '@/lib/retention'
+import type { DataSubjectRequestType, DataSubjectSmsMessage } from '@/types/data-subject-requests'
+import type { processDataSubjectRequest } from '@/src/trigger/process-data-subject-request'
+
+/**
+ * Data Subject Requests
+ *
+ * GDPR access and erasure requests from callers, keyed by phone number.
+ * The dashboard creates the request and the process-data-subject-request
+ * task finds the caller's calls, events, recordings, SMS and tool data, then
+ * either writes an export bundle or deletes it all and leaves a tombstone.
+ */
+
+export const DATA_SUBJECT_REQUEST_TYPES: DataSubjectRequestType[] = ['export', 'erasure']
+
+// How long the dashboard's download links for an export last
+export const EXPORT_URL_EXPIRY_SECONDS = 60 * 60
+
+const SMS_LIST_LIMIT = 1000
+
+interface TwilioAccount {
+  accountSid: string
+  authToken: string
+  numbers: string[] // The organization's numbers on this account
+}
+
+/**
+ * Platform admins and organization admins only - the tool reads and deletes every organization's caller data
+ */
+export function canManageDataSubjectRequests(session: { isAdmin: boolean; role?: string | null }): boolean {
+  return session.isAdmin || session.role === 'admin'
+}
+
+/**
+ * Kept on the tombstone so an erased number can be recognised without storing it
+ */
+export function hashPhoneNumber(organizationId: string, phoneNumber: string): string {
+  return createHash('sha256').update(`${organizationId}:${phoneNumber}`).digest('hex')
+}
+
+/**
+ * Folder in the recordings bucket holding an export's export.json and audio/
+ */
+export function getExportPath(organizationId: string, requestId: string): string {
+  return `${organizationId}/exports/${requestId}`
+}
+
+/**
+ * Delete an export bundle (export.json and every file under audio/)
+ *
+ * @returns Number of storage objects removed
+ */
+export async function removeExportBundle(supabase: SupabaseClient, exportPath: string): Promise<number> {
+  const { data: audio, error: listError } = await supabase.storage
+    .from(RECORDINGS_BUCKET)
+    .list(`${exportPath}/audio`)
+
+  if (listError) {
+    throw listError
+  }
+
+  const paths = [`${exportPath}/export.json`, ...(audio || []).map((file) => `${exportPath}/audio/${file.name}`)]
+  const { data, error } = await supabase.storage.from(RECORDINGS_BUCKET).remove(paths)
+
+  if (error) {
+    throw error
+  }
+
+  return data?.length || 0
+}
+
+/**
+ * The organization's Twilio accounts, from the credentials on its phone numbers
+ */
+export async function getTwilioAccounts(supabase: SupabaseClient, organizationId: string): Promise<TwilioAccount[]> {
+  const { data, error } = await supabase
+    .from('phone_numbers')
+    .select('phone_number, credentials')
+    .eq('organization_id', organizationId)
+    .eq('provider', 'twilio')
+
+  if (error) {
+    throw error
+  }
+
+  const accounts = new Map<string, TwilioAccount>()
+  for (const row of data || []) {
+    const credentials = row.credentials as { accountSid?: string; authToken?: string } | null
+    if (!credentials?.accountSid || !credentials.authToken) continue
+
+    const account = accounts.get(credentials.accountSid)
+      ?? { accountSid: credentials.accountSid, authToken: credentials.authToken, numbers: [] }
+    account.numbers.push(row.phone_number)
+    accounts.set(credentials.accountSid, account)
+  }
+
+  return Array.from(accounts.values())
+}
+
+/**
+ * SMS exchanged between the caller and the organization's numbers, including those sent by the SMS tool
+ * Twilio keeps the message log, so it's the only record of what was sent
+ */
+export async function findSubjectSms(accounts: TwilioAccount[], phoneNumber: string): Promise<DataSubjectSmsMessage[]> {
+  const messages: DataSubjectSmsMessage[] = []
+
+  for (const account of accounts) {
+    const client = twilio(account.accountSid, account.authToken)
+    const [sent, received] = await Promise.all([
+      client.messages.list({ to: phoneNumber, limit: SMS_LIST_LIMIT }),
+      client.messages.list({ from: phoneNumber, limit: SMS_LIST_LIMIT }),
+    ])
+
+    for (const message of [...sent, ...received]) {
+      const otherParty = message.to === phoneNumber ? message.from : message.to
+      // The account may be shared with numbers that aren't this organization's
+      if (!account.numbers.includes(otherParty)) continue
+
+      messages.push({
+        sid: message.sid,
+        accountSid: account.accountSid,
+        direction: message.direction,
+        from: message.from,
+        to: message.to,
+        body: message.body,
+        status: message.status,
+        dateSent: message.dateSent ? message.dateSent.toISOString() : null,
+      })
+    }
+  }
+
+  return messages.sort((a, b) => (a.dateSent || '').localeCompare(b.dateSent || ''))
+}
+
+/**
+ * Delete messages from the Twilio message log
+ *
+ * @returns Number of messages deleted
+ */
+export async function deleteSubjectSms(accounts: TwilioAccount[], messages: DataSubjectSmsMessage[]): Promise<number> {
+  let deleted = 0
+
+  for (const account of accounts) {
+    const client = twilio(account.accountSid, account.authToken)
+    for (const message of messages.filter((m) => m.accountSid === account.accountSid)) {
+      await client.messages(message.sid).remove()
+      deleted++
+    }
+  }
+
+  return deleted
+}
+
+export async function queueDataSubjectRequest(requestId: string): Promise<void> {
+  await tasks.trigger<typeof processDataSubjectRequest>('process-data-subject-request', { requestId }, {
+    idempotencyKey: `data-subject-request-${requestId}`,
+  })
+}
@@ -116,10 +116,12 @@ Please give a short succinct context to situate this chunk within the overall do
 /**
  * Generate embedding for text using Voyage AI
  * @param text - The text to embed
+ * @param inputType - Optional Voyage input type; use 'query' when embedding search queries
  * @returns Embedding vector and token count
  */
 export async function generateEmbedding(
-  text: string
+  text: string,
+  inputType?: 'query' | 'document'
 ): Promise<EmbeddingResult> {
   if (!text || text.trim().length === 0) {
     throw new Error('Text cannot be empty');
@@ -140,6 +142,7 @@ export async function generateEmbedding(
       body: JSON.stringify({
         input: [text],
         model: 'voyage-3.5-lite',
+        ...(inputType && { input_type: inputType }),
       }),
     });
 
@@ -169,6 +172,61 @@ export async function generateEmbedding(
   }
 }
 
+/**
+ * Rerank documents against a query using Voyage AI
+ * @param query - The search query
+ * @param documents - Candidate document texts
+ * @param topK - Number of results to return
+ * @returns Indexes into `documents` with relevance scores, most relevant first
+ */
+export async function rerankDocuments(
+  query: string,
+  documents: string[],
+  topK: number
+): Promise<Array<{ index: number; relevanceScore: number }>> {
+  if (documents.length === 0) {
+    return [];
+  }
+
+  const apiKey = process.env.VOYAGE_API_KEY;
+  if (!apiKey) {
+    throw new Error('VOYAGE_API_KEY environment variable is not configured');
+  }
+
+  try {
+    const response = await fetch('https://api.voyageai.com/v1/rerank', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        query,
+        documents,
+        model: 'rerank-2.5-lite',
+        top_k: topK,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Voyage AI API error ${response.status}: ${errorText}`);
+    }
+
+    const data = await response.json();
+
+    return ((data.data || []) as Array<{ index: number; relevance_score: number }>).map((result) => ({
+      index: result.index,
+      relevanceScore: result.relevance_score,
+    }));
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new Error(`Failed to rerank documents: ${error.message}`);
+    }
+    throw new Error('Failed to rerank documents: Unknown error');
+  }
+}
+
 // Commented out - old OpenAI embedding logic
 // /**
 //  * Generate embedding for text using OpenAI
@@ -229,13 +287,16 @@ export async function generateEmbedding(
  * @param chunkSize - Target size in tokens per chunk
  * @param overlap - Number of overlapping tokens between chunks
  * @param useContextualRetrieval - Whether to add context to chunks (default: true)
+ * @param contextDocument - Document the chunks are situated within (default: text). Pass the
+ *                          whole file when embedding one page or section at a time
  * @returns Array of chunks with embeddings
  */
 export async function processTextWithEmbeddings(
   text: string,
   chunkSize: number = 512,
   overlap: number = 50,
-  useContextualRetrieval: boolean = true
+  useContextualRetrieval: boolean = true,
+  contextDocument: string = text
 ): Promise<Array<DocumentChunk & { embedding: number[] }>> {
   // Chunk the text using LangChain's reliable splitter
   console.log('[processTextWithEmbeddings] Chunking text:', text.length, 'characters');
@@ -260,7 +321,7 @@ export async function processTextWithEmbeddings(
       
       // Apply Contextual Retrieval: generate context and prepend to chunk
       if (useContextualRetrieval) {
-        const context = await generateChunkContext(text, chunk.content);
+        const context = await generateChunkContext(contextDocument, chunk.content);
         if (context) {
           // Prepend context to chunk content before embedding
           contentToEmbed = `${context}\n\n${chunk.content}`;
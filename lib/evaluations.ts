@@ -0,0 +1,73 @@
+import { tasks } from '@trigger.dev/sdk/v3'
+import { createServiceClient } from '@/lib/supabase/server'
+import type { runCallEvaluation } from '@/src/trigger/run-call-evaluation'
+
+export interface QueueCallEvaluationsParams {
+  callId: string
+  agentId: string
+  organizationId: string
+}
+
+/**
+ * Queue every evaluation assigned to the call's agent
+ *
+ * Creates a 'pending' call_evaluation_results row per evaluation and triggers
+ * one run-call-evaluation task for each. Safe to call more than once for the
+ * same call: existing rows are left untouched and the per-evaluation
+ * idempotency key stops duplicate runs.
+ *
+ * @returns Number of evaluations queued
+ */
+export async function queueCallEvaluations(params: QueueCallEvaluationsParams): Promise<number> {
+  const { callId, agentId, organizationId } = params
+  const supabase = await createServiceClient()
+
+  const { data: assignments, error: assignmentsError } = await supabase
+    .from('agent_evaluations')
+    .select('evaluation_id')
+    .eq('agent_id', agentId)
+
+  if (assignmentsError) {
+    console.error('❌ Failed to fetch agent evaluations:', assignmentsError)
+    return 0
+  }
+
+  if (!assignments || assignments.length === 0) {
+    return 0
+  }
+
+  const { error: insertError } = await supabase
+    .from('call_evaluation_results')
+    .upsert(
+      assignments.map((assignment) => ({
+        call_id: callId,
+        evaluation_id: assignment.evaluation_id,
+        agent_id: agentId,
+        organization_id: organizationId,
+        status: 'pending',
+      })),
+      { onConflict: 'call_id,evaluation_id', ignoreDuplicates: true }
+    )
+
+  if (insertError) {
+    console.error('❌ Failed to create evaluation result rows:', insertError)
+    return 0
+  }
+
+  await tasks.batchTrigger<typeof runCallEvaluation>(
+    'run-call-evaluation',
+    assignments.map((assignment) => ({
+      payload: {
+        callId,
+        evaluationId: assignment.evaluation_id,
+      },
+      options: {
+        idempotencyKey: `call-evaluation-${callId}-${assignment.evaluation_id}`,
+      },
+    }))
+  )
+
+  console.log(`🧪 Queued ${assignments.length} evaluation(s) for call ${callId}`)
+
+  return assignments.length
+}
@@ -0,0 +1,155 @@
+import { isValidE164 } from '@/lib/outbound-calls'
+import { escapeXml } from '@/lib/twilio/twiml'
+import {
+  IVR_DIGITS,
+  MAX_MENU_OPTIONS,
+  type IvrMenuAction,
+  type IvrMenuOption,
+  type IvrMenuRule,
+} from '@/types/agent-rules'
+
+/**
+ * IVR Menu
+ *
+ * A <Gather> menu played before the caller reaches the team or the agent.
+ * The caller's choice is posted to /api/calls/incoming/menu, which plays the
+ * menu again (unrecognised input) or carries out the option's action.
+ */
+
+// Spoken digits, so "press one" / "option two" work with speech input
+const SPOKEN_DIGITS: Record<string, string> = {
+  zero: '0',
+  one: '1',
+  two: '2',
+  three: '3',
+  four: '4',
+  five: '5',
+  six: '6',
+  seven: '7',
+  eight: '8',
+  nine: '9',
+}
+
+/**
+ * Whether the menu should be played to callers
+ */
+export function isMenuActive(menu: IvrMenuRule | null | undefined): menu is IvrMenuRule {
+  return !!menu?.enabled && menu.options.length > 0 && !!menu.prompt.trim()
+}
+
+/**
+ * TwiML that plays the menu and posts the caller's input to the menu route
+ * actionOnEmptyResult makes Twilio post a timeout too, so the route can apply the default.
+ * The call ID lets the route find the call record without matching on CallSid.
+ */
+export function generateMenuTwiML(menu: IvrMenuRule, attempt: number, callId: string | null): string {
+  const query = new URLSearchParams({ attempt: String(attempt) })
+  if (callId) query.set('callId', callId)
+  const action = `${process.env.NEXT_PUBLIC_APP_URL}/api/calls/incoming/menu?${query.toString()}`
+  const usesSpeech = menu.input !== 'dtmf'
+  const numDigits = menu.options.every((option) => option.digit.length === 1) ? ' numDigits="1"' : ''
+  const hints = usesSpeech
+    ? ` hints="${escapeXml(menu.options.flatMap((option) => [option.label, ...(option.keywords || [])]).join(', '))}" speechTimeout="auto"`
+    : ''
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Gather input="${menu.input}" action="${escapeXml(action)}" method="POST" timeout="${menu.timeoutSeconds}"${numDigits}${hints} actionOnEmptyResult="true">
+    <Say>${escapeXml(menu.prompt)}</Say>
+  </Gather>
+</Response>`
+}
+
+function normalizeSpeech(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9*# ]/g, ' ').replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Find the option the caller picked
+ * Keypad digits are matched exactly; speech matches a spoken digit, the
+ * option's label or one of its keywords
+ */
+export function matchMenuOption(
+  menu: IvrMenuRule,
+  input: { digits?: string | null; speech?: string | null }
+): IvrMenuOption | null {
+  const digits = input.digits?.trim()
+  if (digits) {
+    return menu.options.find((option) => option.digit === digits) ?? null
+  }
+
+  const speech = input.speech ? normalizeSpeech(input.speech) : ''
+  if (!speech) {
+    return null
+  }
+
+  const words = speech.split(' ')
+  const spokenDigit = words.map((word) => SPOKEN_DIGITS[word] ?? (/^[0-9]$/.test(word) ? word : null)).find(Boolean)
+  if (spokenDigit) {
+    const option = menu.options.find((o) => o.digit === spokenDigit)
+    if (option) return option
+  }
+
+  const padded = ` ${speech} `
+  return menu.options.find((option) =>
+    [option.label, ...(option.keywords || [])]
+      .map(normalizeSpeech)
+      .some((phrase) => phrase && padded.includes(` ${phrase} `))
+  ) ?? null
+}
+
+function validateMenuAction(action: IvrMenuAction | undefined, name: string): string | null {
+  if (!action || !['transfer', 'agent', 'voicemail'].includes(action.type)) {
+    return `${name} must transfer, go to an agent or take a voicemail`
+  }
+  if (action.type === 'transfer' && !action.ringGroupId && !isValidE164(action.phoneNumber || '')) {
+    return `${name} needs a transfer number in E.164 format, e.g. +447700900123`
+  }
+  return null
+}
+
+/**
+ * Validate the menu saved with an agent's rules
+ *
+ * @returns Error message, or null if the menu is valid
+ */
+export function validateIvrMenu(menu: IvrMenuRule | undefined): string | null {
+  if (!menu?.enabled) {
+    return null
+  }
+
+  if (!menu.prompt?.trim()) {
+    return 'The menu needs a prompt'
+  }
+  if (!['dtmf', 'speech', 'dtmf speech'].includes(menu.input)) {
+    return 'Menu input must be keypad, speech or both'
+  }
+  if (!Number.isInteger(menu.timeoutSeconds) || menu.timeoutSeconds < 3 || menu.timeoutSeconds > 30) {
+    return 'Menu timeout must be between 3 and 30 seconds'
+  }
+  if (!Number.isInteger(menu.maxAttempts) || menu.maxAttempts < 1 || menu.maxAttempts > 3) {
+    return 'Menu attempts must be between 1 and 3'
+  }
+  if (!menu.options?.length || menu.options.length > MAX_MENU_OPTIONS) {
+    return `The menu needs between 1 and ${MAX_MENU_OPTIONS} options`
+  }
+
+  const digits = new Set<string>()
+  for (const option of menu.options) {
+    if (!option.label?.trim()) {
+      return 'Each menu option needs a label'
+    }
+    if (!IVR_DIGITS.includes(option.digit)) {
+      return `"${option.label}" needs a key (0-9, * or #)`
+    }
+    if (digits.has(option.digit)) {
+      return `More than one option uses key ${option.digit}`
+    }
+    digits.add(option.digit)
+
+    const actionError = validateMenuAction(option.action, `"${option.label}"`)
+    if (actionError) return actionError
+  }
+
+  return validateMenuAction(menu.defaultAction, 'The default action')
+}
@@ -0,0 +1,194 @@
+import { createServiceClient } from "@/lib/supabase/server";
+import { generateEmbedding, rerankDocuments } from "@/lib/embeddings/processor";
+import type { KnowledgeBaseConfig } from "@/types/agent-config";
+import type { RetrievedChunk } from "@/types/knowledge-base";
+
+export const DEFAULT_MATCH_COUNT = 3;
+export const MAX_MATCH_COUNT = 20;
+
+// Standard RRF constant - dampens the influence of top ranks from a single list
+const RRF_K = 60;
+// Candidates fetched from each search before fusion / reranking
+const MIN_CANDIDATES = 20;
+const CANDIDATE_MULTIPLIER = 4;
+
+export interface RetrieveChunksInput {
+  query: string;
+  knowledgeBaseIds: string[];
+  matchCount?: number;
+  searchMode?: KnowledgeBaseConfig["searchMode"];
+  rerank?: boolean;
+}
+
+interface DocumentRow {
+  id: string;
+  knowledge_base_id: string;
+  knowledge_base_item_id: string;
+  content: string;
+  chunk_index: number;
+  page_number: number | null;
+  section_title: string | null;
+  metadata: Record<string, unknown> | null;
+}
+
+interface VectorRow extends DocumentRow {
+  similarity: number;
+}
+
+interface TextRow extends DocumentRow {
+  rank: number;
+}
+
+function toChunk(row: DocumentRow): RetrievedChunk {
+  return {
+    id: row.id,
+    content: row.content,
+    score: 0,
+    similarity: null,
+    keywordScore: null,
+    rerankScore: null,
+    knowledgeBaseId: row.knowledge_base_id,
+    knowledgeBaseItemId: row.knowledge_base_item_id,
+    chunkIndex: row.chunk_index,
+    pageNumber: row.page_number,
+    sectionTitle: row.section_title,
+    metadata: row.metadata,
+  };
+}
+
+/**
+ * HNSW cosine search over knowledge_base_documents
+ */
+async function vectorSearch(
+  query: string,
+  knowledgeBaseIds: string[],
+  count: number
+): Promise<VectorRow[]> {
+  const { embedding } = await generateEmbedding(query, "query");
+  const supabase = await createServiceClient();
+
+  const { data, error } = await supabase.rpc("search_knowledge_base_documents", {
+    query_embedding: JSON.stringify(embedding),
+    kb_ids: knowledgeBaseIds,
+    match_count: count,
+  });
+
+  if (error) {
+    throw new Error(`Vector search failed: ${error.message}`);
+  }
+
+  return (data || []) as VectorRow[];
+}
+
+/**
+ * Postgres full-text search over the contextualized chunk content
+ */
+async function keywordSearch(
+  query: string,
+  knowledgeBaseIds: string[],
+  count: number
+): Promise<TextRow[]> {
+  const supabase = await createServiceClient();
+
+  const { data, error } = await supabase.rpc("search_knowledge_base_documents_text", {
+    query_text: query,
+    kb_ids: knowledgeBaseIds,
+    match_count: count,
+  });
+
+  if (error) {
+    throw new Error(`Keyword search failed: ${error.message}`);
+  }
+
+  return (data || []) as TextRow[];
+}
+
+/**
+ * Reciprocal rank fusion: score = Σ 1 / (RRF_K + rank) across both result lists
+ */
+function fuseResults(vectorRows: VectorRow[], textRows: TextRow[]): RetrievedChunk[] {
+  const chunks = new Map<string, RetrievedChunk>();
+
+  vectorRows.forEach((row, index) => {
+    const chunk = toChunk(row);
+    chunk.similarity = row.similarity;
+    chunk.score = 1 / (RRF_K + index + 1);
+    chunks.set(row.id, chunk);
+  });
+
+  textRows.forEach((row, index) => {
+    const chunk = chunks.get(row.id) ?? toChunk(row);
+    chunk.keywordScore = row.rank;
+    chunk.score += 1 / (RRF_K + index + 1);
+    chunks.set(row.id, chunk);
+  });
+
+  return Array.from(chunks.values()).sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Retrieve the chunks most relevant to a query from the given knowledge bases
+ *
+ * - vector: HNSW cosine search only
+ * - hybrid: vector + full-text search fused with reciprocal rank fusion
+ * Either mode can optionally rerank the candidates with Voyage AI.
+ */
+export async function retrieveChunks(
+  input: RetrieveChunksInput
+): Promise<RetrievedChunk[]> {
+  const { query, knowledgeBaseIds, searchMode = "hybrid", rerank = false } = input;
+
+  if (knowledgeBaseIds.length === 0) {
+    return [];
+  }
+
+  const matchCount = Math.min(
+    Math.max(Math.floor(input.matchCount || DEFAULT_MATCH_COUNT), 1),
+    MAX_MATCH_COUNT
+  );
+
+  // Only over-fetch when there is a fusion or rerank stage to choose from the candidates
+  const candidateCount =
+    searchMode === "hybrid" || rerank
+      ? Math.max(matchCount * CANDIDATE_MULTIPLIER, MIN_CANDIDATES)
+      : matchCount;
+
+  let candidates: RetrievedChunk[];
+
+  if (searchMode === "hybrid") {
+    const [vectorRows, textRows] = await Promise.all([
+      vectorSearch(query, knowledgeBaseIds, candidateCount),
+      keywordSearch(query, knowledgeBaseIds, candidateCount),
+    ]);
+    candidates = fuseResults(vectorRows, textRows);
+  } else {
+    const vectorRows = await vectorSearch(query, knowledgeBaseIds, candidateCount);
+    candidates = vectorRows.map((row) => ({
+      ...toChunk(row),
+      score: row.similarity,
+      similarity: row.similarity,
+    }));
+  }
+
+  if (!rerank || candidates.length <= 1) {
+    return candidates.slice(0, matchCount);
+  }
+
+  // Rerank the fused candidates - fall back to the fused order if the reranker is unavailable
+  try {
+    const reranked = await rerankDocuments(
+      query,
+      candidates.map((chunk) => chunk.content),
+      matchCount
+    );
+
+    return reranked.map(({ index, relevanceScore }) => ({
+      ...candidates[index],
+      score: relevanceScore,
+      rerankScore: relevanceScore,
+    }));
+  } catch (error) {
+    console.error("⚠️ Reranking failed, using fused ranking:", error);
+    return candidates.slice(0, matchCount);
+  }
+}
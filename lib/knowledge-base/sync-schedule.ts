@@ -0,0 +1,43 @@
+import type { KnowledgeBaseItem, SyncSchedule } from "@/types/knowledge-base";
+
+// Item types that can be re-synced on a schedule
+export const SCHEDULABLE_ITEM_TYPES: KnowledgeBaseItem["type"][] = ["rightmove_agent", "url"];
+
+const SYNC_INTERVALS_MS: Record<Exclude<SyncSchedule, "never">, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Resolve an item's sync schedule from its metadata
+ * Rightmove agents default to daily (matching the create form), URLs to never
+ */
+export function getSyncSchedule(
+  item: Pick<KnowledgeBaseItem, "type" | "metadata">
+): SyncSchedule {
+  if (!SCHEDULABLE_ITEM_TYPES.includes(item.type)) {
+    return "never";
+  }
+
+  const schedule = item.metadata?.syncSchedule;
+  if (schedule === "daily" || schedule === "weekly" || schedule === "never") {
+    return schedule;
+  }
+
+  return item.type === "rightmove_agent" ? "daily" : "never";
+}
+
+/**
+ * When the item is next due a scheduled re-sync, or null if it isn't scheduled
+ */
+export function getNextSyncAt(
+  item: Pick<KnowledgeBaseItem, "type" | "metadata">,
+  from: Date = new Date()
+): string | null {
+  const schedule = getSyncSchedule(item);
+  if (schedule === "never") {
+    return null;
+  }
+
+  return new Date(from.getTime() + SYNC_INTERVALS_MS[schedule]).toISOString();
+}
@@ -0,0 +1,269 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { CallDirection, CallEventType, CallStatus } from '@/types/call-events'
+
+/**
+ * Live Call Monitoring
+ *
+ * In-progress calls across an organization's agents, streamed to the
+ * dashboard by /api/[slug]/calls/live (server-sent events). The stream sends
+ * raw agent events; applyLiveEvent folds them into what the Live view shows
+ * (transcript, agent / user state, latency, last tool result). It is shared
+ * by the server and the browser, so this module only imports types.
+ */
+
+// Statuses a call can be live in - transferred_to_team calls are with a person, not the agent
+export const LIVE_CALL_STATUSES: CallStatus[] = ['dialing', 'incoming', 'connected_to_agent']
+
+// Calls that never received session_complete / transcript (e.g. a worker crash) drop off after this
+export const LIVE_CALL_MAX_AGE_MINUTES = 120
+
+export const LIVE_EVENT_TYPES: CallEventType[] = [
+  'room_connected',
+  'conversation_item_added',
+  'user_input_transcribed',
+  'agent_state_changed',
+  'user_state_changed',
+  'function_tools_executed',
+  'metrics_collected',
+  'total_latency',
+  'transfer_initiated',
+  'supervisor_whisper',
+  'supervisor_barge',
+  'supervisor_takeover',
+  'session_complete',
+]
+
+const MAX_TOOL_OUTPUT_LENGTH = 500
+
+// Supervisor actions from the Live view, see lib/supervisor.ts
+export type SupervisorAction = 'whisper' | 'barge' | 'takeover'
+export const MAX_WHISPER_LENGTH = 1000
+
+export interface LiveCall {
+  id: string
+  agentId: string
+  agentName: string | null
+  callerPhoneNumber: string | null
+  trunkPhoneNumber: string | null
+  direction: CallDirection | null
+  status: CallStatus
+  startedAt: string
+}
+
+export interface LiveCallEvent {
+  id: string
+  callId: string
+  type: CallEventType
+  time: string
+  data: Record<string, unknown>
+}
+
+export interface LiveTranscriptLine {
+  id: string
+  role: 'user' | 'assistant' | 'supervisor' // supervisor lines are whispers / barge / take-over notes
+  text: string
+  interrupted: boolean
+  time: string
+}
+
+export interface LiveToolResult {
+  name: string
+  arguments: Record<string, unknown> | null
+  output: string
+  time: string
+}
+
+export interface LiveCallState {
+  transcript: LiveTranscriptLine[]
+  interimUserText: string | null // Transcription in progress, replaced by the final conversation item
+  agentState: string | null // initializing, listening, thinking, speaking
+  userState: string | null // listening, speaking, away
+  latencyMs: number | null // Most recent end-of-turn to agent speech latency
+  lastTool: LiveToolResult | null
+  toolCount: number
+  ended: boolean
+  lastEventAt: string | null
+}
+
+export const INITIAL_LIVE_CALL_STATE: LiveCallState = {
+  transcript: [],
+  interimUserText: null,
+  agentState: null,
+  userState: null,
+  latencyMs: null,
+  lastTool: null,
+  toolCount: 0,
+  ended: false,
+  lastEventAt: null,
+}
+
+// Worker events store their payload under data.data, routing events at the top level
+function eventPayload(event: LiveCallEvent): Record<string, unknown> {
+  const nested = event.data?.data
+  return nested && typeof nested === 'object' ? (nested as Record<string, unknown>) : event.data || {}
+}
+
+function formatToolOutput(output: unknown): string {
+  const text = typeof output === 'string' ? output : JSON.stringify(output ?? null)
+  return text.length > MAX_TOOL_OUTPUT_LENGTH ? `${text.slice(0, MAX_TOOL_OUTPUT_LENGTH)}…` : text
+}
+
+/**
+ * Fold one event into a call's live state
+ */
+export function applyLiveEvent(state: LiveCallState, event: LiveCallEvent): LiveCallState {
+  const payload = eventPayload(event)
+  const next: LiveCallState = { ...state, lastEventAt: event.time }
+
+  switch (event.type) {
+    case 'conversation_item_added': {
+      const role = payload.role
+      const text = typeof payload.textContent === 'string' ? payload.textContent : ''
+      if ((role !== 'user' && role !== 'assistant') || !text) return next
+
+      const line: LiveTranscriptLine = {
+        id: typeof payload.id === 'string' ? payload.id : event.id,
+        role,
+        text,
+        interrupted: payload.interrupted === true,
+        time: event.time,
+      }
+      // Events can arrive out of order, keep the transcript in time order without duplicates
+      const transcript = [...state.transcript.filter((l) => l.id !== line.id), line]
+        .sort((a, b) => a.time.localeCompare(b.time))
+      return { ...next, transcript, interimUserText: role === 'user' ? null : state.interimUserText }
+    }
+
+    case 'user_input_transcribed': {
+      const transcript = typeof payload.transcript === 'string' ? payload.transcript : ''
+      return { ...next, interimUserText: payload.isFinal === true || !transcript ? null : transcript }
+    }
+
+    case 'agent_state_changed':
+      return { ...next, agentState: typeof payload.newState === 'string' ? payload.newState : state.agentState }
+
+    case 'user_state_changed':
+      return { ...next, userState: typeof payload.newState === 'string' ? payload.newState : state.userState }
+
+    case 'metrics_collected':
+    case 'total_latency': {
+      if (payload.metricType !== 'total_latency' && event.type !== 'total_latency') return next
+      const seconds = Number(payload.totalLatency)
+      return Number.isFinite(seconds) ? { ...next, latencyMs: Math.round(seconds * 1000) } : next
+    }
+
+    case 'function_tools_executed': {
+      const executions = Array.isArray(payload.executions)
+        ? (payload.executions as { call?: { name?: string; arguments?: Record<string, unknown> }; output?: unknown }[])
+        : []
+      const last = executions[executions.length - 1]
+      if (!last) return next
+
+      return {
+        ...next,
+        toolCount: state.toolCount + executions.length,
+        lastTool: {
+          name: last.call?.name || 'unknown',
+          arguments: last.call?.arguments ?? null,
+          output: formatToolOutput(last.output),
+          time: event.time,
+        },
+      }
+    }
+
+    case 'supervisor_whisper':
+    case 'supervisor_barge':
+    case 'supervisor_takeover': {
+      const who = typeof payload.supervisorEmail === 'string' ? payload.supervisorEmail : 'Supervisor'
+      const text = event.type === 'supervisor_whisper'
+        ? `${who} whispered: ${payload.instruction}`
+        : event.type === 'supervisor_barge'
+          ? `${who} joined the call`
+          : `${who} took over the call on ${payload.phoneNumber}`
+      const line: LiveTranscriptLine = { id: event.id, role: 'supervisor', text, interrupted: false, time: event.time }
+      const transcript = [...state.transcript.filter((l) => l.id !== line.id), line]
+        .sort((a, b) => a.time.localeCompare(b.time))
+      return { ...next, transcript }
+    }
+
+    case 'session_complete':
+      return { ...next, ended: true, agentState: null, userState: null }
+
+    default:
+      return next
+  }
+}
+
+/**
+ * In-progress calls for an organization, newest first
+ */
+export async function getLiveCalls(supabase: SupabaseClient, organizationId: string): Promise<LiveCall[]> {
+  const since = new Date(Date.now() - LIVE_CALL_MAX_AGE_MINUTES * 60 * 1000).toISOString()
+
+  const { data, error } = await supabase
+    .from('calls')
+    .select('id, agent_id, caller_phone_number, trunk_phone_number, direction, status, created_at, agents(name)')
+    .eq('organization_id', organizationId)
+    .in('status', LIVE_CALL_STATUSES)
+    .gte('created_at', since)
+    .order('created_at', { ascending: false })
+    .limit(100)
+
+  if (error) {
+    console.error('Error fetching live calls:', error)
+    return []
+  }
+
+  return (data || []).map((call) => ({
+    id: call.id,
+    agentId: call.agent_id,
+    agentName: (call.agents as unknown as { name: string } | null)?.name ?? null,
+    callerPhoneNumber: call.caller_phone_number,
+    trunkPhoneNumber: call.trunk_phone_number,
+    direction: call.direction,
+    status: call.status,
+    startedAt: call.created_at,
+  }))
+}
+
+/**
+ * Live view events for a set of calls, in time order
+ * Only total_latency metrics are included - the rest aren't shown and would crowd out the transcript
+ *
+ * @param since - Events at or after this time; when null, the most recent events for each call (snapshot)
+ */
+export async function getLiveCallEvents(
+  supabase: SupabaseClient,
+  callIds: string[],
+  since: string | null
+): Promise<LiveCallEvent[]> {
+  if (callIds.length === 0) return []
+
+  let query = supabase
+    .from('agent_events')
+    .select('id, call_id, event_type, time, data')
+    .in('call_id', callIds)
+    .in('event_type', LIVE_EVENT_TYPES)
+    .or('event_type.neq.metrics_collected,data->data->>metricType.eq.total_latency')
+
+  query = since
+    ? query.gte('time', since).order('time', { ascending: true }).limit(1000)
+    : query.order('time', { ascending: false }).limit(2000)
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error fetching live call events:', error)
+    return []
+  }
+
+  const events = (data || []).map((event) => ({
+    id: event.id,
+    callId: event.call_id,
+    type: event.event_type as CallEventType,
+    time: event.time,
+    data: (event.data || {}) as Record<string, unknown>,
+  }))
+
+  return since ? events : events.reverse()
+}
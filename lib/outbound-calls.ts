@@ -0,0 +1,287 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createOutboundCall } from '@/lib/twilio/client'
+import type { Call, CallContextVariables, CallEventType, CallEventData } from '@/types/call-events'
+
+const E164_PATTERN = /^\+[1-9]\d{6,14}$/
+const VARIABLE_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/
+const MAX_VARIABLES = 50
+const MAX_VARIABLE_LENGTH = 1000
+
+export interface StartOutboundCallParams {
+  organizationId: string
+  agentId: string
+  to: string
+  // Number to call from - defaults to a Twilio number assigned to the agent
+  phoneNumberId?: string | null
+  variables?: CallContextVariables | null
+  // User email, or campaign:<id> for campaign calls
+  initiatedBy?: string | null
+  campaignId?: string | null
+  campaignContactId?: string | null
+}
+
+// invalid_contact and do_not_call are about the number being called, the rest about the agent or its setup
+export type OutboundCallErrorCode =
+  | 'invalid_request'
+  | 'invalid_contact'
+  | 'do_not_call'
+  | 'not_found'
+  | 'dial_failed'
+  | 'server_error'
+
+type OutboundCallResult = {
+  success: boolean
+  call?: Call
+  error?: string
+  errorCode?: OutboundCallErrorCode
+}
+
+/**
+ * Strip formatting from a phone number ("+44 7700 900123" -> "+447700900123")
+ */
+export function normalizePhoneNumber(phoneNumber: string): string {
+  return phoneNumber.trim().replace(/[\s\-().]/g, '')
+}
+
+export function isValidE164(phoneNumber: string): boolean {
+  return E164_PATTERN.test(phoneNumber)
+}
+
+/**
+ * Validate per-call context variables
+ *
+ * @returns Error message, or null if the variables are valid
+ */
+export function validateContextVariables(variables: unknown): string | null {
+  if (variables === undefined || variables === null) {
+    return null
+  }
+
+  if (typeof variables !== 'object' || Array.isArray(variables)) {
+    return 'variables must be an object of name/value pairs'
+  }
+
+  const entries = Object.entries(variables as Record<string, unknown>)
+
+  if (entries.length > MAX_VARIABLES) {
+    return `At most ${MAX_VARIABLES} variables are allowed`
+  }
+
+  for (const [name, value] of entries) {
+    if (!VARIABLE_NAME_PATTERN.test(name)) {
+      return `Invalid variable name "${name}" - use letters, numbers and underscores`
+    }
+    if (!['string', 'number', 'boolean'].includes(typeof value)) {
+      return `Variable "${name}" must be a string, number or boolean`
+    }
+    if (typeof value === 'string' && value.length > MAX_VARIABLE_LENGTH) {
+      return `Variable "${name}" must be at most ${MAX_VARIABLE_LENGTH} characters`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Resolve the Twilio number an outbound call is placed from
+ */
+async function getFromPhoneNumber(
+  supabase: SupabaseClient,
+  organizationId: string,
+  agentId: string,
+  phoneNumberId?: string | null
+) {
+  let query = supabase
+    .from('phone_numbers')
+    .select('id, phone_number, provider, credentials, status')
+    .eq('organization_id', organizationId)
+    .eq('provider', 'twilio')
+
+  query = phoneNumberId
+    ? query.eq('id', phoneNumberId)
+    : query.eq('agent_id', agentId).eq('status', 'active')
+
+  const { data, error } = await query
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching outbound phone number:', error)
+  }
+
+  return data
+}
+
+/**
+ * Store an event against the call
+ * Uses the caller's client rather than saveAgentEvent so campaign dispatch can
+ * run outside a request (Trigger.dev tasks have no cookies)
+ */
+async function insertCallEvent(
+  supabase: SupabaseClient,
+  callId: string,
+  eventType: CallEventType,
+  eventData: CallEventData
+) {
+  const { error } = await supabase
+    .from('agent_events')
+    .insert({
+      call_id: callId,
+      event_type: eventType,
+      time: new Date().toISOString(),
+      data: eventData,
+    })
+
+  if (error) {
+    console.error(`❌ Failed to insert event '${eventType}':`, error)
+  }
+}
+
+/**
+ * Place an outbound call from an agent
+ *
+ * Creates the calls row (direction 'outbound', status 'dialing') and asks
+ * Twilio to dial the number. When the callee answers, /api/calls/outbound/answer
+ * bridges the call into the LiveKit SIP endpoint, after which the agent worker
+ * reports events to /api/agents/:id/calls exactly as it does for inbound calls.
+ */
+export async function startOutboundCall(
+  supabase: SupabaseClient,
+  params: StartOutboundCallParams
+): Promise<OutboundCallResult> {
+  const { organizationId, agentId, phoneNumberId, variables, initiatedBy, campaignId, campaignContactId } = params
+  const to = normalizePhoneNumber(params.to || '')
+
+  if (!isValidE164(to)) {
+    return { success: false, error: 'to must be a phone number in E.164 format, e.g. +447700900123', errorCode: 'invalid_contact' }
+  }
+
+  const variablesError = validateContextVariables(variables)
+  if (variablesError) {
+    return { success: false, error: variablesError, errorCode: 'invalid_contact' }
+  }
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL
+  if (!appUrl) {
+    return { success: false, error: 'NEXT_PUBLIC_APP_URL is not configured', errorCode: 'server_error' }
+  }
+
+  const { data: doNotCall } = await supabase
+    .from('do_not_call_numbers')
+    .select('id')
+    .eq('organization_id', organizationId)
+    .eq('phone_number', to)
+    .maybeSingle()
+
+  if (doNotCall) {
+    return { success: false, error: 'This number is on the do-not-call list', errorCode: 'do_not_call' }
+  }
+
+  const { data: agent } = await supabase
+    .from('agents')
+    .select('id, published_version_id')
+    .eq('id', agentId)
+    .eq('organization_id', organizationId)
+    .single()
+
+  if (!agent) {
+    return { success: false, error: 'Agent not found', errorCode: 'not_found' }
+  }
+
+  const fromNumber = await getFromPhoneNumber(supabase, organizationId, agentId, phoneNumberId)
+
+  if (!fromNumber) {
+    return {
+      success: false,
+      error: phoneNumberId
+        ? 'Phone number not found'
+        : 'No active Twilio phone number is assigned to this agent',
+      errorCode: phoneNumberId ? 'not_found' : 'invalid_request',
+    }
+  }
+
+  const credentials = fromNumber.credentials as { accountSid?: string; authToken?: string } | null
+  if (!credentials?.accountSid || !credentials?.authToken) {
+    return { success: false, error: 'Twilio credentials are missing for this phone number', errorCode: 'invalid_request' }
+  }
+
+  const { data: call, error: callError } = await supabase
+    .from('calls')
+    .insert({
+      agent_id: agentId,
+      organization_id: organizationId,
+      direction: 'outbound',
+      caller_phone_number: to,
+      trunk_phone_number: fromNumber.phone_number,
+      status: 'dialing',
+      context_variables: variables && Object.keys(variables).length > 0 ? variables : null,
+      initiated_by: initiatedBy ?? null,
+      campaign_id: campaignId ?? null,
+      campaign_contact_id: campaignContactId ?? null,
+      config: { configurationVersionId: agent.published_version_id ?? null },
+    })
+    .select('*')
+    .single()
+
+  if (callError || !call) {
+    console.error('Error creating outbound call record:', callError)
+    return { success: false, error: 'Failed to create call record', errorCode: 'server_error' }
+  }
+
+  // Before dialing, so a status webhook that arrives before we return matches the contact's latest call
+  if (campaignContactId) {
+    const { error: contactError } = await supabase
+      .from('campaign_contacts')
+      .update({ last_call_id: call.id })
+      .eq('id', campaignContactId)
+
+    if (contactError) {
+      console.error('Error linking call to campaign contact:', contactError)
+    }
+  }
+
+  const dialResult = await createOutboundCall(credentials.accountSid, credentials.authToken, {
+    to,
+    from: fromNumber.phone_number,
+    answerUrl: `${appUrl}/api/calls/outbound/answer?callId=${call.id}`,
+    statusCallbackUrl: `${appUrl}/api/calls/outbound/status?callId=${call.id}`,
+  })
+
+  if (!dialResult.success || !dialResult.callSid) {
+    const { data: failedCall } = await supabase
+      .from('calls')
+      .update({ status: 'failed', ended_at: new Date().toISOString() })
+      .eq('id', call.id)
+      .select('*')
+      .single()
+
+    await insertCallEvent(supabase, call.id, 'outbound_call_failed', {
+      callSid: null,
+      reason: dialResult.error || 'Failed to place call',
+    })
+
+    return {
+      success: false,
+      call: (failedCall || call) as Call,
+      error: dialResult.error || 'Failed to place call',
+      errorCode: 'dial_failed',
+    }
+  }
+
+  const { data: dialingCall } = await supabase
+    .from('calls')
+    .update({ twilio_call_sid: dialResult.callSid })
+    .eq('id', call.id)
+    .select('*')
+    .single()
+
+  await insertCallEvent(supabase, call.id, 'outbound_call_initiated', {
+    to,
+    from: fromNumber.phone_number,
+    callSid: dialResult.callSid,
+    initiatedBy: initiatedBy ?? null,
+  })
+
+  return { success: true, call: (dialingCall || call) as Call }
+}
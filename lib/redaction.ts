@@ -0,0 +1,890 @@
+import { createCipheriv, createDecipheriv, randomBytes, randomUUID } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { tasks } from '@trigger.dev/sdk/v3'
+import type { CallEventType, TranscriptItem } from '@/types/call-events'
+import {
+  MAX_CUSTOM_PATTERNS,
+  REDACTION_DETECTORS,
+  type BleepSpan,
+  type RedactionCustomPattern,
+  type RedactionDetector,
+  type RedactionPolicy,
+  type RedactionSummary,
+} from '@/types/redaction'
+import type { redactRecording } from '@/src/trigger/redact-recording'
+
+/**
+ * PII Redaction
+ *
+ * Replaces card numbers, emails, phone numbers, postcodes, addresses, dates
+ * of birth and custom patterns with placeholders ([CARD], [EMAIL], ...) in
+ * agent events and call transcripts, per the organization's policy.
+ *
+ * - Worker events are redacted before they're stored (/api/agents/[id]/calls)
+ * - On session_complete redactCall sweeps the call again (transcript, events
+ *   stored before the policy changed) and records what was found on the call
+ * - The original values are AES-256-GCM encrypted into redaction_vault; only
+ *   the policy's reveal roles can read them back
+ * - With bleep_recordings on, words the agent spoke that matched are bleeped
+ *   in the stored recording by the redact-recording task, using the word
+ *   timings on speech_created events. The recording from before is kept,
+ *   encrypted the same way, at getOriginalRecordingPath
+ *
+ * Caller numbers on calls and routing events aren't redacted - routing,
+ * screening and callbacks depend on them.
+ */
+
+// Events that carry what the caller or agent said, or tool arguments / results
+export const REDACTED_EVENT_TYPES: CallEventType[] = [
+  'conversation_item_added',
+  'user_input_transcribed',
+  'function_tools_executed',
+  'speech_created',
+  'knowledge_retrieved',
+  'knowledge_retrieved_with_speech',
+  'transcript',
+]
+
+export const DEFAULT_DETECTORS: RedactionDetector[] = REDACTION_DETECTORS.map((d) => d.id)
+export const DEFAULT_REVEAL_ROLES = ['admin']
+
+const MAX_PATTERN_LENGTH = 200
+// Custom patterns only ever see this much text at once (with an overlap, so
+// matches across a boundary are still found) - bounds the cost of a slow pattern
+const CUSTOM_PATTERN_WINDOW = 1000
+const CUSTOM_PATTERN_WINDOW_OVERLAP = 200
+const PATTERN_NAME_FORMAT = /^[A-Za-z][A-Za-z0-9_ ]{0,39}$/
+const ROLE_FORMAT = /^[a-z0-9_-]{1,50}$/
+
+// Identifiers, timings and config snapshots - never PII, and redacting them would break lookups
+const SKIP_KEYS = new Set([
+  'id', 'type', 'role', 'source', 'speechId', 'roomName', 'metricType', 'oldState', 'newState',
+  'config', 'usage', 'recordingUrl', 'egressId', 'redaction', 'timestamp', 'startTime', 'endTime', 'offsetMs',
+])
+const SKIP_KEY_SUFFIX = /(Id|Sid|At)$/
+
+// Silence a little either side of a matched word so it isn't half-audible
+const BLEEP_PADDING_MS = 150
+
+// Cached policies for event ingestion, which runs for every worker event
+const POLICY_CACHE_TTL_MS = 30 * 1000
+const policyCache = new Map<string, { policy: RedactionPolicy | null; expiresAt: number }>()
+
+// ============================================
+// Detectors
+// ============================================
+
+interface Span {
+  start: number
+  end: number
+  type: string
+  placeholder: string
+}
+
+interface CompiledDetector {
+  type: string
+  placeholder: string
+  find: (text: string) => { start: number; end: number }[]
+}
+
+const STREET_SUFFIXES = [
+  'Street', 'St', 'Road', 'Rd', 'Avenue', 'Ave', 'Lane', 'Ln', 'Drive', 'Dr', 'Close', 'Court', 'Crescent',
+  'Place', 'Way', 'Gardens', 'Terrace', 'Grove', 'Square', 'Mews', 'Hill', 'Row', 'Walk', 'Park',
+]
+const MONTHS = '(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec)[a-z]*'
+
+const PATTERNS = {
+  card: /\b(?:\d[ -]?){12,18}\d\b/g,
+  email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  // Email addresses as speech-to-text writes them: "jane at example dot com"
+  spokenEmail: /\b[A-Za-z0-9._-]+ at [A-Za-z0-9-]+(?: dot [A-Za-z]{2,})+\b/gi,
+  phone: /(?:\+|\b0)\d(?:[\s\-().]{0,2}\d){8,13}\b/g,
+  postcode: /\b(?:GIR ?0AA|[A-PR-UWYZ](?:\d[\dA-HJKPSTUW]?|[A-HK-Y]\d[\dABEHMNPRV-Y]?) ?\d[ABD-HJLNP-UW-Z]{2})\b/gi,
+  // House number, one to three capitalised words, then a street suffix ("12 Acacia Avenue")
+  address: new RegExp(
+    `\\b\\d{1,4}[A-Za-z]?,?\\s+(?:[A-Z][A-Za-z'-]+\\s+){1,3}(?:${STREET_SUFFIXES.map((s) => `[${s[0]}${s[0].toLowerCase()}]${s.slice(1)}`).join('|')})\\b`,
+    'g'
+  ),
+  dobContext: /\b(?:born(?: on)?|birthday|date of birth|d\.?o\.?b\.?)\b/gi,
+  date: new RegExp(
+    `\\b(?:\\d{1,2}[/.-]\\d{1,2}[/.-](?:\\d{4}|\\d{2})|\\d{4}-\\d{2}-\\d{2}|\\d{1,2}(?:st|nd|rd|th)?(?: of)? ${MONTHS},?(?: \\d{4})?|${MONTHS} \\d{1,2}(?:st|nd|rd|th)?,?(?: \\d{4})?)\\b`,
+    'i'
+  ),
+}
+
+// How far after "born" / "DOB" a date is treated as a date of birth
+const DOB_CONTEXT_CHARS = 40
+
+function findAll(pattern: RegExp, text: string): { start: number; end: number }[] {
+  const spans: { start: number; end: number }[] = []
+  pattern.lastIndex = 0
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      pattern.lastIndex++
+      continue
+    }
+    spans.push({ start: match.index, end: match.index + match[0].length })
+  }
+  return spans
+}
+
+/**
+ * findAll over overlapping windows of the text, merging matches found in more than one window
+ */
+function findAllInWindows(pattern: RegExp, text: string): { start: number; end: number }[] {
+  if (text.length <= CUSTOM_PATTERN_WINDOW) {
+    return findAll(pattern, text)
+  }
+
+  const spans: { start: number; end: number }[] = []
+  for (let offset = 0; ; offset += CUSTOM_PATTERN_WINDOW - CUSTOM_PATTERN_WINDOW_OVERLAP) {
+    for (const match of findAll(pattern, text.slice(offset, offset + CUSTOM_PATTERN_WINDOW))) {
+      const span = { start: offset + match.start, end: offset + match.end }
+      const overlapping = spans.find((s) => span.start < s.end && s.start < span.end)
+      if (overlapping) {
+        // A match cut off at the end of one window is found whole in the next
+        overlapping.start = Math.min(overlapping.start, span.start)
+        overlapping.end = Math.max(overlapping.end, span.end)
+      } else {
+        spans.push(span)
+      }
+    }
+    if (offset + CUSTOM_PATTERN_WINDOW >= text.length) break
+  }
+  return spans
+}
+
+/**
+ * Check a custom pattern can't backtrack catastrophically
+ * Rejects back-references, and repeated groups that contain a quantifier or an
+ * alternation - (a+)+, (a|a)*, (\w+\s?){2,} - the constructs that make a
+ * regex take exponential time on a near-miss
+ *
+ * @returns Error message, or null if the pattern is allowed
+ */
+export function checkPatternSafety(pattern: string): string | null {
+  // One entry per open group: whether it contains a quantifier or an alternation
+  const groups = [{ quantified: false, alternates: false }]
+  let closedGroup: { quantified: boolean; alternates: boolean } | null = null
+
+  for (let i = 0; i < pattern.length;) {
+    const char = pattern[i]
+    const previousGroup = closedGroup
+    closedGroup = null
+
+    if (char === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] || '')) {
+        return 'back-references are not allowed'
+      }
+      i += 2
+      continue
+    }
+
+    if (char === '[') {
+      // Skip the character class - nothing in it is a group or quantifier
+      i++
+      while (i < pattern.length && pattern[i] !== ']') {
+        i += pattern[i] === '\\' ? 2 : 1
+      }
+      i++
+      continue
+    }
+
+    if (char === '(') {
+      groups.push({ quantified: false, alternates: false })
+      i++
+      // (?:, (?=, (?!, (?<=, (?<!, (?<name>
+      if (pattern[i] === '?') {
+        const modifier = pattern.slice(i).match(/^\?(?::|=|!|<=|<!|<[A-Za-z_][A-Za-z0-9_]*>)/)
+        i += modifier ? modifier[0].length : 1
+      }
+      continue
+    }
+
+    if (char === ')') {
+      const group = groups.length > 1 ? groups.pop()! : null
+      if (group) {
+        const parent = groups[groups.length - 1]
+        parent.quantified ||= group.quantified
+        parent.alternates ||= group.alternates
+        closedGroup = group
+      }
+      i++
+      continue
+    }
+
+    if (char === '|') {
+      groups[groups.length - 1].alternates = true
+      i++
+      continue
+    }
+
+    const quantifier = pattern.slice(i).match(/^(?:[*+?]|\{(\d+)(,(\d*))?\})/)
+    if (quantifier) {
+      const [token, min, range, max] = quantifier
+      const upper = token === '*' || token === '+' ? Infinity
+        : token === '?' ? 1
+        : range === undefined ? Number(min)
+        : max === '' ? Infinity : Number(max)
+
+      if (previousGroup && upper > 1 && (previousGroup.quantified || previousGroup.alternates)) {
+        return 'repeating a group that contains a quantifier or | (e.g. (a+)+ or (a|b)*) is not allowed'
+      }
+
+      groups[groups.length - 1].quantified = true
+      i += token.length
+      // Lazy quantifier
+      if (pattern[i] === '?') i++
+      continue
+    }
+
+    i++
+  }
+
+  return null
+}
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+const BUILT_IN_DETECTORS: Record<RedactionDetector, (text: string) => { start: number; end: number }[]> = {
+  card: (text) => findAll(PATTERNS.card, text).filter((span) => {
+    const digits = text.slice(span.start, span.end).replace(/\D/g, '')
+    return digits.length >= 13 && digits.length <= 19 && passesLuhn(digits)
+  }),
+  email: (text) => [...findAll(PATTERNS.email, text), ...findAll(PATTERNS.spokenEmail, text)],
+  phone: (text) => findAll(PATTERNS.phone, text),
+  postcode: (text) => findAll(PATTERNS.postcode, text),
+  address: (text) => findAll(PATTERNS.address, text),
+  date_of_birth: (text) => findAll(PATTERNS.dobContext, text).flatMap((context) => {
+    const window = text.slice(context.end, context.end + DOB_CONTEXT_CHARS)
+    const match = PATTERNS.date.exec(window)
+    return match ? [{ start: context.end + match.index, end: context.end + match.index + match[0].length }] : []
+  }),
+}
+
+function placeholderFor(name: string): string {
+  return `[${name.trim().toUpperCase().replace(/\s+/g, '_')}]`
+}
+
+/**
+ * Turn a policy into detectors, custom patterns first so they win over built-ins
+ */
+export function compileRedactionPolicy(policy: Pick<RedactionPolicy, 'detectors' | 'custom_patterns'>): CompiledDetector[] {
+  const custom = (policy.custom_patterns || []).flatMap((custom): CompiledDetector[] => {
+    // Patterns saved before they were checked
+    const unsafe = custom.pattern.length > MAX_PATTERN_LENGTH
+      ? `longer than ${MAX_PATTERN_LENGTH} characters`
+      : checkPatternSafety(custom.pattern)
+    if (unsafe) {
+      console.error(`Unsafe redaction pattern "${custom.name}" (${unsafe}), skipping`)
+      return []
+    }
+
+    try {
+      const pattern = new RegExp(custom.pattern, custom.caseSensitive ? 'g' : 'gi')
+      return [{ type: custom.name, placeholder: placeholderFor(custom.name), find: (text) => findAllInWindows(pattern, text) }]
+    } catch {
+      console.error(`Invalid redaction pattern "${custom.name}", skipping`)
+      return []
+    }
+  })
+
+  const builtIn = REDACTION_DETECTORS
+    .filter((detector) => (policy.detectors || []).includes(detector.id))
+    .map((detector) => ({ type: detector.id, placeholder: detector.placeholder, find: BUILT_IN_DETECTORS[detector.id] }))
+
+  return [...custom, ...builtIn]
+}
+
+/**
+ * Spans to redact in a piece of text - earlier detectors win where matches overlap
+ */
+function findSpans(text: string, detectors: CompiledDetector[]): Span[] {
+  const accepted: Span[] = []
+  for (const detector of detectors) {
+    for (const span of detector.find(text)) {
+      if (!accepted.some((a) => span.start < a.end && a.start < span.end)) {
+        accepted.push({ ...span, type: detector.type, placeholder: detector.placeholder })
+      }
+    }
+  }
+  return accepted.sort((a, b) => a.start - b.start)
+}
+
+export function redactText(text: string, detectors: CompiledDetector[]): { text: string; types: string[] } {
+  const spans = findSpans(text, detectors)
+  if (spans.length === 0) {
+    return { text, types: [] }
+  }
+
+  let result = ''
+  let cursor = 0
+  for (const span of spans) {
+    result += text.slice(cursor, span.start) + span.placeholder
+    cursor = span.end
+  }
+  result += text.slice(cursor)
+
+  return { text: result, types: spans.map((s) => s.type) }
+}
+
+/**
+ * Redact every string in a JSON value, leaving identifiers and timings alone
+ */
+export function redactValue<T>(value: T, detectors: CompiledDetector[]): { value: T; types: string[] } {
+  const types: string[] = []
+
+  const walk = (node: unknown): unknown => {
+    if (typeof node === 'string') {
+      const redacted = redactText(node, detectors)
+      types.push(...redacted.types)
+      return redacted.text
+    }
+    if (Array.isArray(node)) {
+      return node.map(walk)
+    }
+    if (node && typeof node === 'object') {
+      return Object.fromEntries(
+        Object.entries(node).map(([key, child]) => [
+          key,
+          SKIP_KEYS.has(key) || SKIP_KEY_SUFFIX.test(key) ? child : walk(child),
+        ])
+      )
+    }
+    return node
+  }
+
+  return { value: walk(value) as T, types }
+}
+
+type SpokenWord = { word?: string; startTime?: number | null; endTime?: number | null }
+
+/**
+ * The words of a speech_created event that are part of a match, by index
+ * The words are joined into one string first, so a match can span several words ("SW1A" "1AA")
+ */
+function matchWords(words: SpokenWord[], detectors: CompiledDetector[]): Map<number, Span> {
+  let text = ''
+  const positions = words.map((word) => {
+    if (text) text += ' '
+    const start = text.length
+    text += (word.word || '').trim()
+    return { start, end: text.length }
+  })
+
+  const matched = findSpans(text, detectors)
+  const result = new Map<number, Span>()
+
+  positions.forEach(({ start, end }, index) => {
+    const span = matched.find((m) => start < m.end && m.start < end)
+    if (span) result.set(index, span)
+  })
+
+  return result
+}
+
+/**
+ * Recording spans of the agent's words that match, from a speech_created event's word timings
+ * Word times are seconds from the start of the speech, which starts offsetMs into the call
+ */
+export function findBleepSpans(payload: Record<string, unknown>, detectors: CompiledDetector[]): BleepSpan[] {
+  const words = Array.isArray(payload.words) ? (payload.words as SpokenWord[]) : []
+  const offsetMs = typeof payload.offsetMs === 'number' ? payload.offsetMs : null
+  if (words.length === 0 || offsetMs === null) {
+    return []
+  }
+
+  const spans: BleepSpan[] = []
+
+  for (const index of matchWords(words, detectors).keys()) {
+    const word = words[index]
+    if (word.startTime == null || word.endTime == null) continue
+
+    const span = {
+      startMs: Math.max(0, Math.round(offsetMs + word.startTime * 1000 - BLEEP_PADDING_MS)),
+      endMs: Math.round(offsetMs + word.endTime * 1000 + BLEEP_PADDING_MS),
+    }
+    const last = spans[spans.length - 1]
+    if (last && span.startMs <= last.endMs) {
+      last.endMs = Math.max(last.endMs, span.endMs)
+    } else {
+      spans.push(span)
+    }
+  }
+
+  return spans
+}
+
+function summarize(types: string[], bleepSpans: BleepSpan[] = []): RedactionSummary {
+  return {
+    types: Array.from(new Set(types)),
+    count: types.length,
+    ...(bleepSpans.length > 0 ? { bleepSpans } : {}),
+  }
+}
+
+/**
+ * Redact a worker event's data (everything the worker posted apart from routing fields)
+ *
+ * @returns null when the event type isn't redacted or nothing matched
+ */
+export function redactEventData(
+  eventType: string,
+  eventData: Record<string, unknown>,
+  detectors: CompiledDetector[],
+  options: { bleep: boolean }
+): { data: Record<string, unknown>; summary: RedactionSummary } | null {
+  if (!REDACTED_EVENT_TYPES.includes(eventType as CallEventType) || detectors.length === 0) {
+    return null
+  }
+
+  // Word timings have to be read before the words themselves are redacted
+  const payload = (eventData.data && typeof eventData.data === 'object' ? eventData.data : eventData) as Record<string, unknown>
+  const spokenWords = eventType === 'speech_created' && Array.isArray(payload.words) ? (payload.words as SpokenWord[]) : []
+  const matchedWords = matchWords(spokenWords, detectors)
+  const bleepSpans = options.bleep && matchedWords.size > 0 ? findBleepSpans(payload, detectors) : []
+
+  const { value, types } = redactValue(eventData, detectors)
+  if (types.length === 0 && matchedWords.size === 0) {
+    return null
+  }
+
+  // Matches split across words don't match word by word, so replace each matched word with the placeholder
+  if (matchedWords.size > 0) {
+    const redactedPayload = (value.data && typeof value.data === 'object' ? value.data : value) as Record<string, unknown>
+    redactedPayload.words = spokenWords.map((word, index) => {
+      const span = matchedWords.get(index)
+      return span ? { ...word, word: span.placeholder } : word
+    })
+    // The speech text normally counts these already
+    if (types.length === 0) {
+      types.push(...Array.from(new Set(Array.from(matchedWords.values()).map((span) => span.type))))
+    }
+  }
+
+  // A repeat sweep adds to what ingestion already redacted
+  const previous = eventData.redaction as RedactionSummary | undefined
+  const summary: RedactionSummary = {
+    ...summarize([...(previous?.types || []), ...types], [...(previous?.bleepSpans || []), ...bleepSpans]),
+    count: (previous?.count || 0) + types.length,
+  }
+
+  return { data: { ...value, redaction: summary }, summary }
+}
+
+// ============================================
+// Encrypted originals
+// ============================================
+
+function getEncryptionKey(): Buffer | null {
+  const raw = process.env.PII_ENCRYPTION_KEY
+  if (!raw) return null
+
+  const key = /^[0-9a-f]{64}$/i.test(raw) ? Buffer.from(raw, 'hex') : Buffer.from(raw, 'base64')
+  if (key.length !== 32) {
+    console.error('PII_ENCRYPTION_KEY must be 32 bytes (64 hex characters or base64)')
+    return null
+  }
+  return key
+}
+
+export function encryptOriginal(value: unknown): string | null {
+  const key = getEncryptionKey()
+  if (!key) return null
+
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', key, iv)
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(value), 'utf8'), cipher.final()])
+
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64')).join('.')
+}
+
+export function decryptOriginal(encrypted: string): unknown {
+  const key = getEncryptionKey()
+  if (!key) {
+    throw new Error('PII_ENCRYPTION_KEY is not configured')
+  }
+
+  const [iv, authTag, ciphertext] = encrypted.split('.').map((part) => Buffer.from(part, 'base64'))
+  const decipher = createDecipheriv('aes-256-gcm', key, iv)
+  decipher.setAuthTag(authTag)
+  const plaintext = Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8')
+
+  return JSON.parse(plaintext)
+}
+
+/**
+ * Encrypt a file (a recording) with the same key and cipher as encryptOriginal
+ *
+ * @returns iv, authTag and ciphertext as one buffer, or null without PII_ENCRYPTION_KEY
+ */
+export function encryptOriginalFile(data: Uint8Array): Buffer | null {
+  const key = getEncryptionKey()
+  if (!key) return null
+
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', key, iv)
+  const ciphertext = Buffer.concat([cipher.update(data), cipher.final()])
+
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext])
+}
+
+export function decryptOriginalFile(encrypted: Uint8Array): Buffer {
+  const key = getEncryptionKey()
+  if (!key) {
+    throw new Error('PII_ENCRYPTION_KEY is not configured')
+  }
+
+  const data = Buffer.from(encrypted)
+  const decipher = createDecipheriv('aes-256-gcm', key, data.subarray(0, 12))
+  decipher.setAuthTag(data.subarray(12, 28))
+
+  return Buffer.concat([decipher.update(data.subarray(28)), decipher.final()])
+}
+
+/**
+ * Where the encrypted recording from before bleeping is kept, in the call-recordings bucket
+ */
+export function getOriginalRecordingPath(organizationId: string, livekitRoomName: string): string {
+  return `${organizationId}/redaction-originals/${livekitRoomName}.mp4.enc`
+}
+
+/**
+ * The call recording from before it was bleeped
+ *
+ * @returns The decrypted MP4, or null if no original was kept
+ */
+export async function getOriginalRecording(
+  supabase: SupabaseClient,
+  call: { organization_id: string; livekit_room_name: string | null }
+): Promise<Buffer | null> {
+  if (!call.livekit_room_name) {
+    return null
+  }
+
+  const path = getOriginalRecordingPath(call.organization_id, call.livekit_room_name)
+  // exists() reports a missing object as false; other failures throw
+  const { data: found } = await supabase.storage.from('call-recordings').exists(path)
+  if (!found) {
+    return null
+  }
+
+  const { data, error } = await supabase.storage.from('call-recordings').download(path)
+  if (error || !data) {
+    throw error || new Error(`Original recording ${path} not readable`)
+  }
+
+  return decryptOriginalFile(new Uint8Array(await data.arrayBuffer()))
+}
+
+/**
+ * Keep the original of a redacted event / transcript
+ * Without PII_ENCRYPTION_KEY the data is still redacted, but the original is lost
+ */
+export async function saveToVault(
+  supabase: SupabaseClient,
+  params: { organizationId: string; callId: string; agentEventId?: string | null; target: 'event' | 'transcript'; original: unknown }
+): Promise<void> {
+  const ciphertext = encryptOriginal(params.original)
+  if (!ciphertext) {
+    console.error(`⚠️ PII_ENCRYPTION_KEY not configured - original ${params.target} for call ${params.callId} not kept`)
+    return
+  }
+
+  const { error } = await supabase
+    .from('redaction_vault')
+    .insert({
+      organization_id: params.organizationId,
+      call_id: params.callId,
+      agent_event_id: params.agentEventId ?? null,
+      target: params.target,
+      ciphertext,
+    })
+
+  if (error) {
+    console.error('❌ Failed to save redacted original:', error)
+  }
+}
+
+/**
+ * The originals of a call's redacted transcript and events
+ * The oldest copy wins - later sweeps store values that were already partly redacted
+ */
+export async function getRedactedOriginals(
+  supabase: SupabaseClient,
+  callId: string
+): Promise<{ transcript: TranscriptItem[] | null; events: Record<string, Record<string, unknown>> }> {
+  const { data, error } = await supabase
+    .from('redaction_vault')
+    .select('agent_event_id, target, ciphertext')
+    .eq('call_id', callId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw error
+  }
+
+  let transcript: TranscriptItem[] | null = null
+  const events: Record<string, Record<string, unknown>> = {}
+
+  for (const row of data || []) {
+    if (row.target === 'transcript') {
+      transcript ??= decryptOriginal(row.ciphertext) as TranscriptItem[]
+    } else if (row.agent_event_id && !events[row.agent_event_id]) {
+      events[row.agent_event_id] = decryptOriginal(row.ciphertext) as Record<string, unknown>
+    }
+  }
+
+  return { transcript, events }
+}
+
+// ============================================
+// Policies
+// ============================================
+
+export async function getRedactionPolicy(
+  supabase: SupabaseClient,
+  organizationId: string
+): Promise<RedactionPolicy | null> {
+  const { data, error } = await supabase
+    .from('redaction_policies')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching redaction policy:', error)
+    return null
+  }
+
+  return data as RedactionPolicy | null
+}
+
+/**
+ * The organization's policy if redaction is on, cached briefly for event ingestion
+ */
+export async function getActiveRedactionPolicy(
+  supabase: SupabaseClient,
+  organizationId: string
+): Promise<RedactionPolicy | null> {
+  const cached = policyCache.get(organizationId)
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.policy
+  }
+
+  const policy = await getRedactionPolicy(supabase, organizationId)
+  const active = policy?.enabled ? policy : null
+  policyCache.set(organizationId, { policy: active, expiresAt: Date.now() + POLICY_CACHE_TTL_MS })
+  return active
+}
+
+export type RedactionPolicyInput = Pick<
+  RedactionPolicy,
+  'enabled' | 'detectors' | 'custom_patterns' | 'reveal_roles' | 'bleep_recordings'
+>
+
+/**
+ * Validate the redaction policy sent from the dashboard
+ */
+export function validateRedactionPolicy(
+  body: Record<string, unknown>
+): { policy?: RedactionPolicyInput; error?: string } {
+  const detectors = Array.isArray(body.detectors) ? body.detectors : []
+  if (detectors.some((d) => !DEFAULT_DETECTORS.includes(d as RedactionDetector))) {
+    return { error: `detectors must be any of: ${DEFAULT_DETECTORS.join(', ')}` }
+  }
+
+  const rawPatterns = Array.isArray(body.customPatterns) ? body.customPatterns : []
+  if (rawPatterns.length > MAX_CUSTOM_PATTERNS) {
+    return { error: `At most ${MAX_CUSTOM_PATTERNS} custom patterns are allowed` }
+  }
+
+  const customPatterns: RedactionCustomPattern[] = []
+  for (const raw of rawPatterns as Record<string, unknown>[]) {
+    const name = typeof raw.name === 'string' ? raw.name.trim() : ''
+    const pattern = typeof raw.pattern === 'string' ? raw.pattern : ''
+
+    if (!PATTERN_NAME_FORMAT.test(name)) {
+      return { error: 'Custom pattern names must start with a letter and use letters, numbers, spaces or _ (up to 40)' }
+    }
+    if (!pattern || pattern.length > MAX_PATTERN_LENGTH) {
+      return { error: `Pattern for "${name}" is required and must be at most ${MAX_PATTERN_LENGTH} characters` }
+    }
+    try {
+      if (new RegExp(pattern).test('')) {
+        return { error: `Pattern for "${name}" matches empty text` }
+      }
+    } catch {
+      return { error: `Pattern for "${name}" is not a valid regular expression` }
+    }
+    const unsafe = checkPatternSafety(pattern)
+    if (unsafe) {
+      return { error: `Pattern for "${name}" could run too slowly: ${unsafe}` }
+    }
+
+    customPatterns.push({
+      id: typeof raw.id === 'string' && raw.id ? raw.id : randomUUID(),
+      name,
+      pattern,
+      caseSensitive: raw.caseSensitive === true,
+    })
+  }
+
+  const revealRoles = Array.isArray(body.revealRoles)
+    ? Array.from(new Set((body.revealRoles as unknown[]).map((r) => String(r).trim().toLowerCase()).filter(Boolean)))
+    : DEFAULT_REVEAL_ROLES
+  if (revealRoles.some((role) => !ROLE_FORMAT.test(role))) {
+    return { error: 'revealRoles must be role slugs, e.g. admin' }
+  }
+
+  return {
+    policy: {
+      enabled: body.enabled === true,
+      detectors: detectors as RedactionDetector[],
+      custom_patterns: customPatterns,
+      reveal_roles: revealRoles,
+      bleep_recordings: body.bleepRecordings === true,
+    },
+  }
+}
+
+/**
+ * Whether a dashboard user can see the original values
+ * Platform admins always can; organization members need one of the policy's reveal roles
+ */
+export function canRevealRedactions(
+  session: { isAdmin: boolean; role?: string | null },
+  policy: RedactionPolicy | null
+): boolean {
+  if (session.isAdmin) return true
+  const roles = policy?.reveal_roles ?? DEFAULT_REVEAL_ROLES
+  return !!session.role && roles.includes(session.role)
+}
+
+// ============================================
+// Whole-call sweep
+// ============================================
+
+const SWEEP_PAGE_SIZE = 500
+
+/**
+ * Redact everything stored for a call and record the result on the call
+ * Runs on session_complete - already-redacted values don't match again, so it's safe to repeat
+ */
+export async function redactCall(
+  supabase: SupabaseClient,
+  call: { id: string; organization_id: string },
+  policy: RedactionPolicy
+): Promise<RedactionSummary | null> {
+  const detectors = compileRedactionPolicy(policy)
+  if (detectors.length === 0) {
+    return null
+  }
+
+  const types: string[] = []
+  const bleepSpans: BleepSpan[] = []
+  let count = 0
+
+  const { data: callRow, error: callError } = await supabase
+    .from('calls')
+    .select('transcript')
+    .eq('id', call.id)
+    .single()
+
+  if (callError) {
+    throw callError
+  }
+
+  if (Array.isArray(callRow.transcript) && callRow.transcript.length > 0) {
+    const redacted = redactValue(callRow.transcript as TranscriptItem[], detectors)
+    if (redacted.types.length > 0) {
+      await saveToVault(supabase, {
+        organizationId: call.organization_id,
+        callId: call.id,
+        target: 'transcript',
+        original: callRow.transcript,
+      })
+      await supabase.from('calls').update({ transcript: redacted.value }).eq('id', call.id)
+      types.push(...redacted.types)
+      count += redacted.types.length
+    }
+  }
+
+  for (let from = 0; ; from += SWEEP_PAGE_SIZE) {
+    const { data: events, error } = await supabase
+      .from('agent_events')
+      .select('id, event_type, data')
+      .eq('call_id', call.id)
+      .in('event_type', REDACTED_EVENT_TYPES)
+      .order('time', { ascending: true })
+      .range(from, from + SWEEP_PAGE_SIZE - 1)
+
+    if (error) {
+      throw error
+    }
+
+    for (const event of events || []) {
+      const data = (event.data || {}) as Record<string, unknown>
+      const existing = data.redaction as RedactionSummary | undefined
+      const redacted = redactEventData(event.event_type, data, detectors, {
+        bleep: policy.bleep_recordings && !existing?.bleepSpans,
+      })
+
+      if (redacted) {
+        await saveToVault(supabase, {
+          organizationId: call.organization_id,
+          callId: call.id,
+          agentEventId: event.id,
+          target: 'event',
+          original: data,
+        })
+        await supabase.from('agent_events').update({ data: redacted.data }).eq('id', event.id)
+      }
+
+      const summary = (redacted?.data.redaction ?? existing) as RedactionSummary | undefined
+      types.push(...(summary?.types || []))
+      bleepSpans.push(...(summary?.bleepSpans || []))
+      count += summary?.count || 0
+    }
+
+    if (!events || events.length < SWEEP_PAGE_SIZE) break
+  }
+
+  if (types.length === 0 && bleepSpans.length === 0) {
+    return null
+  }
+
+  const summary: RedactionSummary = { ...summarize(types, bleepSpans.sort((a, b) => a.startMs - b.startMs)), count }
+  await supabase
+    .from('calls')
+    .update({ redaction: summary, redacted_at: new Date().toISOString() })
+    .eq('id', call.id)
+
+  if (policy.bleep_recordings && bleepSpans.length > 0) {
+    await queueRecordingRedaction(call.id)
+  }
+
+  return summary
+}
+
+/**
+ * Bleep the call's recording once the egress has uploaded it
+ */
+export async function queueRecordingRedaction(callId: string): Promise<void> {
+  await tasks.trigger<typeof redactRecording>('redact-recording', { callId }, {
+    delay: '1m',
+    idempotencyKey: `redact-recording-${callId}`,
+  })
+}
@@ -0,0 +1,291 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getOriginalRecordingPath } from '@/lib/redaction'
+import type { CallEventType } from '@/types/call-events'
+import {
+  MAX_RETENTION_DAYS,
+  MIN_RETENTION_DAYS,
+  RETENTION_DATA_TYPES,
+  type RetentionPolicy,
+  type RetentionPolicyDays,
+} from '@/types/retention'
+
+/**
+ * Data Retention
+ *
+ * Per-organization limits on how long recordings, transcripts, events and
+ * caller details are kept. The purge-expired-call-data task applies them
+ * daily using the purge helpers below; calls on legal hold are skipped.
+ */
+
+export const RECORDINGS_BUCKET = 'call-recordings'
+
+// Stored in place of the caller's number once it's anonymized (the column is NOT NULL)
+export const ANONYMIZED_CALLER_NUMBER = 'anonymized'
+
+// Events that carry what the caller or agent said - removed with the transcript
+export const TRANSCRIPT_EVENT_TYPES: CallEventType[] = [
+  'conversation_item_added',
+  'user_input_transcribed',
+  'speech_created',
+  'function_tools_executed',
+  'knowledge_retrieved',
+  'knowledge_retrieved_with_speech',
+  'transcript',
+]
+
+export interface PurgeableCall {
+  id: string
+  organization_id: string
+  livekit_room_name: string | null
+}
+
+/**
+ * Platform admins and organization admins only - a short limit or a released
+ * hold lets the nightly purge delete data for good
+ */
+export function canManageRetention(session: { isAdmin: boolean; role?: string | null }): boolean {
+  return session.isAdmin || session.role === 'admin'
+}
+
+export async function getRetentionPolicy(
+  supabase: SupabaseClient,
+  organizationId: string
+): Promise<RetentionPolicy | null> {
+  const { data, error } = await supabase
+    .from('retention_policies')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching retention policy:', error)
+    return null
+  }
+
+  return data as RetentionPolicy | null
+}
+
+/**
+ * Validate the retention policy sent from the dashboard
+ * Body: { enabled, recordingDays, transcriptDays, eventDays, callerDetailsDays } - null / empty keeps forever
+ */
+export function validateRetentionPolicy(
+  body: Record<string, unknown>
+): { policy?: RetentionPolicyDays & { enabled: boolean }; error?: string } {
+  const bodyKeys: Record<keyof RetentionPolicyDays, string> = {
+    recording_days: 'recordingDays',
+    transcript_days: 'transcriptDays',
+    event_days: 'eventDays',
+    caller_details_days: 'callerDetailsDays',
+  }
+
+  const days = {} as RetentionPolicyDays
+
+  for (const { label, column } of RETENTION_DATA_TYPES) {
+    const value = body[bodyKeys[column]]
+
+    if (value === null || value === undefined || value === '') {
+      days[column] = null
+      continue
+    }
+
+    const number = Number(value)
+    if (!Number.isInteger(number) || number < MIN_RETENTION_DAYS || number > MAX_RETENTION_DAYS) {
+      return { error: `${label} must be kept between ${MIN_RETENTION_DAYS} and ${MAX_RETENTION_DAYS} days, or forever` }
+    }
+    days[column] = number
+  }
+
+  // Routing events (call_incoming, caller_identified, ...) carry the caller's number,
+  // so they have to go no later than the caller details
+  if (days.caller_details_days !== null &&
+    (days.event_days === null || days.event_days > days.caller_details_days)) {
+    return { error: 'Events must be kept no longer than caller details, since they include the caller\'s number' }
+  }
+
+  return { policy: { enabled: body.enabled === true, ...days } }
+}
+
+/**
+ * Days a policy keeps a type of data for
+ * Events never outlive caller details, even on policies saved before that was validated
+ */
+export function getRetentionDays(policy: RetentionPolicyDays, column: keyof RetentionPolicyDays): number | null {
+  if (column === 'event_days' && policy.caller_details_days !== null) {
+    return Math.min(policy.event_days ?? policy.caller_details_days, policy.caller_details_days)
+  }
+  return policy[column]
+}
+
+/**
+ * Record a legal hold being placed on or released from a call
+ * Kept in its own log (no foreign key to calls), so the record outlives the purge it allowed
+ */
+export async function saveLegalHoldAudit(
+  supabase: SupabaseClient,
+  entry: { organizationId: string; callId: string; legalHold: boolean; reason: string | null; performedBy: string | null }
+): Promise<void> {
+  const { error } = await supabase.from('legal_hold_audit_log').insert({
+    organization_id: entry.organizationId,
+    call_id: entry.callId,
+    action: entry.legalHold ? 'placed' : 'released',
+    reason: entry.reason,
+    performed_by: entry.performedBy,
+  })
+
+  if (error) {
+    throw error
+  }
+}
+
+/**
+ * Everything stored in the recordings bucket for a call: the call recording, its
+ * encrypted original from before bleeping, and any voicemails
+ */
+export async function getCallStoragePaths(supabase: SupabaseClient, call: PurgeableCall): Promise<string[]> {
+  const paths = call.livekit_room_name
+    ? [
+        `${call.organization_id}/${call.livekit_room_name}.mp4`,
+        getOriginalRecordingPath(call.organization_id, call.livekit_room_name),
+      ]
+    : []
+
+  // Voicemails live under organization_id/voicemails/call_id/ (see getVoicemailStoragePath)
+  const voicemailFolder = `${call.organization_id}/voicemails/${call.id}`
+  const { data: voicemails, error } = await supabase.storage
+    .from(RECORDINGS_BUCKET)
+    .list(voicemailFolder)
+
+  if (error) {
+    throw error
+  }
+
+  return [...paths, ...(voicemails || []).map((file) => `${voicemailFolder}/${file.name}`)]
+}
+
+/**
+ * Delete the calls' recordings and voicemail audio
+ *
+ * @returns Number of storage objects removed
+ */
+export async function purgeCallRecordings(supabase: SupabaseClient, calls: PurgeableCall[]): Promise<number> {
+  if (calls.length === 0) return 0
+
+  const paths = (await Promise.all(calls.map((call) => getCallStoragePaths(supabase, call)))).flat()
+
+  let removed = 0
+  if (paths.length > 0) {
+    // Paths that were never uploaded are ignored
+    const { data, error } = await supabase.storage.from(RECORDINGS_BUCKET).remove(paths)
+    if (error) {
+      throw error
+    }
+    removed = data?.length || 0
+  }
+
+  const { error } = await supabase
+    .from('calls')
+    .update({ recording_url: null, recording_purged_at: new Date().toISOString() })
+    .in('id', calls.map((call) => call.id))
+
+  if (error) {
+    throw error
+  }
+
+  return removed
+}
+
+/**
+ * Remove the calls' transcripts, the events that carry what was said and their redacted originals
+ *
+ * @returns Number of events deleted
+ */
+export async function purgeCallTranscripts(supabase: SupabaseClient, callIds: string[]): Promise<number> {
+  if (callIds.length === 0) return 0
+
+  const { count, error: eventsError } = await supabase
+    .from('agent_events')
+    .delete({ count: 'exact' })
+    .in('call_id', callIds)
+    .in('event_type', TRANSCRIPT_EVENT_TYPES)
+
+  if (eventsError) {
+    throw eventsError
+  }
+
+  // Event originals go with their events (ON DELETE CASCADE), transcript originals have to be removed here
+  const { error: vaultError } = await supabase
+    .from('redaction_vault')
+    .delete()
+    .in('call_id', callIds)
+    .eq('target', 'transcript')
+
+  if (vaultError) {
+    throw vaultError
+  }
+
+  const { error } = await supabase
+    .from('calls')
+    .update({ transcript: null, transcript_purged_at: new Date().toISOString() })
+    .in('id', callIds)
+
+  if (error) {
+    throw error
+  }
+
+  return count || 0
+}
+
+/**
+ * Delete every event recorded for the calls
+ *
+ * @returns Number of events deleted
+ */
+export async function purgeCallEvents(supabase: SupabaseClient, callIds: string[]): Promise<number> {
+  if (callIds.length === 0) return 0
+
+  const { count, error: eventsError } = await supabase
+    .from('agent_events')
+    .delete({ count: 'exact' })
+    .in('call_id', callIds)
+
+  if (eventsError) {
+    throw eventsError
+  }
+
+  const { error } = await supabase
+    .from('calls')
+    .update({ events_purged_at: new Date().toISOString() })
+    .in('id', callIds)
+
+  if (error) {
+    throw error
+  }
+
+  return count || 0
+}
+
+/**
+ * Replace the caller's number and context variables on the calls
+ * The calls stay, so analytics and billing still count them
+ *
+ * @returns Number of calls anonymized
+ */
+export async function anonymizeCallers(supabase: SupabaseClient, callIds: string[]): Promise<number> {
+  if (callIds.length === 0) return 0
+
+  const { error } = await supabase
+    .from('calls')
+    .update({
+      caller_phone_number: ANONYMIZED_CALLER_NUMBER,
+      context_variables: null,
+      caller_anonymized_at: new Date().toISOString(),
+    })
+    .in('id', callIds)
+
+  if (error) {
+    throw error
+  }
+
+  return callIds.length
+}
@@ -0,0 +1,257 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { saveAgentEvent } from '@/lib/calls'
+import { isValidE164, normalizePhoneNumber } from '@/lib/outbound-calls'
+import { escapeXml } from '@/lib/twilio/twiml'
+import {
+  MAX_RING_GROUP_MEMBERS,
+  type RingGroup,
+  type RingGroupMember,
+  type RingGroupMemberStats,
+  type RingGroupStrategy,
+} from '@/types/ring-groups'
+
+/**
+ * Ring Groups
+ *
+ * Human transfers (business-hours schedules and transfer_call tools) can ring
+ * a group of numbers instead of one. Every member's <Number> has an answer
+ * hook (/api/calls/ring-group/answered) that records who picked up on a
+ * transfer_success event. Sequential groups dial one member per <Dial>, and
+ * /api/calls/ring-group/next moves on to the next member when no one answers.
+ */
+
+export const RING_GROUP_STRATEGIES: RingGroupStrategy[] = ['simultaneous', 'sequential']
+export const DEFAULT_RING_TIMEOUT_SECONDS = 20
+
+// Where the transfer came from, carried through the callbacks for reporting
+export type RingGroupSource = 'team' | 'transfer_tool'
+
+export interface RingGroupDialOptions {
+  callId: string
+  source: RingGroupSource
+  // Dial action once every member has been tried (e.g. the no-answer fallback), null to end the call
+  finalAction: string | null
+}
+
+export type RingGroupInput = Pick<RingGroup, 'name' | 'strategy' | 'ring_timeout_seconds' | 'members'>
+
+export async function getRingGroup(
+  supabase: SupabaseClient,
+  organizationId: string,
+  ringGroupId: string
+): Promise<RingGroup | null> {
+  const { data, error } = await supabase
+    .from('ring_groups')
+    .select('*')
+    .eq('id', ringGroupId)
+    .eq('organization_id', organizationId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching ring group:', error)
+    return null
+  }
+
+  return data as RingGroup | null
+}
+
+/**
+ * Validate a ring group sent from the dashboard
+ * Members are normalized to E.164 and given ids so answer rates survive edits
+ */
+export function validateRingGroupInput(body: Record<string, unknown>): { group?: RingGroupInput; error?: string } {
+  const name = typeof body.name === 'string' ? body.name.trim() : ''
+  if (!name || name.length > 100) {
+    return { error: 'name is required (up to 100 characters)' }
+  }
+
+  const strategy = body.strategy ?? 'simultaneous'
+  if (!RING_GROUP_STRATEGIES.includes(strategy as RingGroupStrategy)) {
+    return { error: 'strategy must be simultaneous or sequential' }
+  }
+
+  const timeout = body.ringTimeoutSeconds === undefined ? DEFAULT_RING_TIMEOUT_SECONDS : Number(body.ringTimeoutSeconds)
+  if (!Number.isInteger(timeout) || timeout < 5 || timeout > 120) {
+    return { error: 'ringTimeoutSeconds must be between 5 and 120' }
+  }
+
+  if (!Array.isArray(body.members) || body.members.length === 0) {
+    return { error: 'A ring group needs at least one member' }
+  }
+  if (body.members.length > MAX_RING_GROUP_MEMBERS) {
+    return { error: `A ring group can have up to ${MAX_RING_GROUP_MEMBERS} members` }
+  }
+
+  const members: RingGroupMember[] = []
+  for (const raw of body.members as Record<string, unknown>[]) {
+    const phoneNumber = normalizePhoneNumber(typeof raw?.phoneNumber === 'string' ? raw.phoneNumber : '')
+    if (!isValidE164(phoneNumber)) {
+      return { error: 'Member numbers must be in E.164 format, e.g. +447700900123' }
+    }
+    if (members.some((member) => member.phoneNumber === phoneNumber)) {
+      return { error: `${phoneNumber} is in the group more than once` }
+    }
+
+    const label = typeof raw.label === 'string' ? raw.label.trim().slice(0, 100) : ''
+    members.push({
+      id: typeof raw.id === 'string' && raw.id ? raw.id : crypto.randomUUID(),
+      phoneNumber,
+      label: label || phoneNumber,
+    })
+  }
+
+  return {
+    group: {
+      name,
+      strategy: strategy as RingGroupStrategy,
+      ring_timeout_seconds: timeout,
+      members,
+    },
+  }
+}
+
+function callbackUrl(path: string, params: Record<string, string | null>): string {
+  const query = new URLSearchParams()
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== null) query.set(key, value)
+  })
+  return `${process.env.NEXT_PUBLIC_APP_URL}${path}?${query.toString()}`
+}
+
+function memberNumberTwiML(group: RingGroup, member: RingGroupMember, options: RingGroupDialOptions): string {
+  const answeredUrl = callbackUrl('/api/calls/ring-group/answered', {
+    callId: options.callId,
+    ringGroupId: group.id,
+    memberId: member.id,
+    source: options.source,
+  })
+  return `<Number url="${escapeXml(answeredUrl)}">${escapeXml(member.phoneNumber)}</Number>`
+}
+
+/**
+ * TwiML that rings a group
+ * Simultaneous groups ring everyone in one <Dial>; sequential groups ring the
+ * member at `position`, chaining to /api/calls/ring-group/next until the last
+ * member, whose <Dial> uses the final action
+ */
+export function generateRingGroupTwiML(group: RingGroup, position: number, options: RingGroupDialOptions): string {
+  const isSequential = group.strategy === 'sequential'
+  const members = isSequential ? group.members.slice(position, position + 1) : group.members
+  const isLast = !isSequential || position >= group.members.length - 1
+
+  const action = isLast
+    ? options.finalAction
+    : callbackUrl('/api/calls/ring-group/next', {
+        callId: options.callId,
+        ringGroupId: group.id,
+        position: String(position),
+        source: options.source,
+        then: options.finalAction,
+      })
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Dial${action ? ` action="${escapeXml(action)}"` : ''} timeout="${group.ring_timeout_seconds}" answerOnBridge="true">
+    ${members.map((member) => memberNumberTwiML(group, member, options)).join('\n    ')}
+  </Dial>
+</Response>`
+}
+
+/**
+ * Ring a group (from `position` for sequential groups), recording who was rung
+ * on a ring_group_dialed event for member answer rates
+ */
+export async function dialRingGroup(group: RingGroup, position: number, options: RingGroupDialOptions): Promise<string> {
+  const members = group.strategy === 'sequential' ? group.members.slice(position, position + 1) : group.members
+
+  console.log(`📞 Ringing ${group.name} (${group.strategy}): ${members.map((m) => m.phoneNumber).join(', ')}`)
+
+  await saveAgentEvent({
+    callId: options.callId,
+    eventType: 'ring_group_dialed',
+    eventData: {
+      ringGroupId: group.id,
+      ringGroupName: group.name,
+      strategy: group.strategy,
+      source: options.source,
+      position,
+      timeoutSeconds: group.ring_timeout_seconds,
+      members: members.map(({ id, phoneNumber, label }) => ({ memberId: id, phoneNumber, label })),
+    },
+  })
+
+  return generateRingGroupTwiML(group, position, options)
+}
+
+const STATS_PAGE_SIZE = 1000
+const STATS_MAX_PAGES = 20
+
+/**
+ * Per-member answer rates for the organization's ring groups since a date
+ * Built from ring_group_dialed (who rang) and transfer_success (who answered) events
+ */
+export async function getRingGroupMemberStats(
+  supabase: SupabaseClient,
+  groups: RingGroup[],
+  since: string
+): Promise<Record<string, RingGroupMemberStats[]>> {
+  const counts = new Map<string, { rang: number; answered: number }>()
+  const key = (groupId: string, memberId: string) => `${groupId}:${memberId}`
+
+  if (groups.length > 0) {
+    for (let page = 0; page < STATS_MAX_PAGES; page++) {
+      const { data: events, error } = await supabase
+        .from('agent_events')
+        .select('event_type, data')
+        .in('event_type', ['ring_group_dialed', 'transfer_success'])
+        .in('data->>ringGroupId', groups.map((group) => group.id))
+        .gte('time', since)
+        .order('time', { ascending: true })
+        .range(page * STATS_PAGE_SIZE, (page + 1) * STATS_PAGE_SIZE - 1)
+
+      if (error) {
+        console.error('Error fetching ring group events:', error)
+        break
+      }
+
+      for (const event of events || []) {
+        const data = event.data as {
+          ringGroupId: string
+          members?: { memberId: string }[]
+          answeredBy?: { memberId: string }
+        }
+
+        if (event.event_type === 'ring_group_dialed') {
+          for (const member of data.members || []) {
+            const entry = counts.get(key(data.ringGroupId, member.memberId)) || { rang: 0, answered: 0 }
+            entry.rang++
+            counts.set(key(data.ringGroupId, member.memberId), entry)
+          }
+        } else if (data.answeredBy) {
+          const entry = counts.get(key(data.ringGroupId, data.answeredBy.memberId)) || { rang: 0, answered: 0 }
+          entry.answered++
+          counts.set(key(data.ringGroupId, data.answeredBy.memberId), entry)
+        }
+      }
+
+      if (!events || events.length < STATS_PAGE_SIZE) break
+    }
+  }
+
+  return Object.fromEntries(
+    groups.map((group) => [
+      group.id,
+      group.members.map((member) => {
+        const { rang, answered } = counts.get(key(group.id, member.id)) || { rang: 0, answered: 0 }
+        return {
+          memberId: member.id,
+          phoneNumber: member.phoneNumber,
+          label: member.label,
+          rang,
+          answered,
+          answerRate: rang > 0 ? Math.min(answered / rang, 1) : null,
+        }
+      }),
+    ])
+  )
+}
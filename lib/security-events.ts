@@ -0,0 +1,56 @@
+import { createServiceClient } from '@/lib/supabase/server'
+
+export type SecurityEventType = 'twilio_signature_rejected' | 'worker_auth_rejected'
+
+export interface LogSecurityEventParams {
+  eventType: SecurityEventType
+  reason: string
+  request: Request
+  organizationId?: string | null
+  details?: Record<string, unknown>
+}
+
+/**
+ * Client IP as reported by the proxy in front of the app
+ */
+export function getRequestIp(request: Request): string | null {
+  const forwardedFor = request.headers.get('x-forwarded-for')
+  if (forwardedFor) {
+    return forwardedFor.split(',')[0].trim()
+  }
+  return request.headers.get('x-real-ip')
+}
+
+/**
+ * Record a rejected request in security_events
+ *
+ * Never throws - failing to log must not change how the request is handled
+ */
+export async function logSecurityEvent(params: LogSecurityEventParams): Promise<void> {
+  const { eventType, reason, request, organizationId, details } = params
+  const path = new URL(request.url).pathname
+  const ipAddress = getRequestIp(request)
+
+  console.warn(`🚨 Security event: ${eventType} (${reason}) on ${path} from ${ipAddress || 'unknown IP'}`)
+
+  try {
+    const supabase = await createServiceClient()
+    const { error } = await supabase
+      .from('security_events')
+      .insert({
+        organization_id: organizationId ?? null,
+        event_type: eventType,
+        reason,
+        path,
+        ip_address: ipAddress,
+        user_agent: request.headers.get('user-agent'),
+        details: details ?? null,
+      })
+
+    if (error) {
+      console.error('❌ Failed to save security event:', error)
+    }
+  } catch (error) {
+    console.error('❌ Error saving security event:', error)
+  }
+}
@@ -0,0 +1,156 @@
+import { AccessToken, RoomServiceClient, SipClient } from 'livekit-server-sdk'
+import { DataPacket_Kind, ParticipantInfo_Kind } from '@livekit/protocol'
+
+/**
+ * Supervisor actions on live agent calls
+ *
+ * All three work on the call's LiveKit room (calls.livekit_room_name):
+ * - whisper: a data message on the `supervisor_whisper` topic, sent only to the
+ *   agent participant. The worker adds the instruction to the agent's context;
+ *   the caller never hears it
+ * - barge: a join token for the room, so the supervisor can talk to the caller
+ *   alongside the agent from the browser, through a self-hosted LiveKit Meet
+ *   (LIVEKIT_MEET_URL) - the token admits anyone to a live customer call, so
+ *   it's never put in a link to a third-party host
+ * - take-over: a SIP REFER of the caller's participant to the supervisor's
+ *   phone. Twilio hands the REFER to /api/calls/incoming/refer like an agent
+ *   transfer, which dials the number
+ */
+
+export const SUPERVISOR_WHISPER_TOPIC = 'supervisor_whisper'
+
+// Barge tokens only need to last long enough to join
+const BARGE_TOKEN_TTL = '10m'
+
+type SupervisorResult<T = object> = ({ success: true } & T) | { success: false; error: string }
+
+interface LiveKitConfig {
+  url: string
+  apiKey: string
+  apiSecret: string
+}
+
+function getLiveKitConfig(): LiveKitConfig | null {
+  const url = process.env.LIVEKIT_URL
+  const apiKey = process.env.LIVEKIT_API_KEY
+  const apiSecret = process.env.LIVEKIT_API_SECRET
+
+  if (!url || !apiKey || !apiSecret) {
+    return null
+  }
+
+  return { url, apiKey, apiSecret }
+}
+
+/**
+ * Identities of the room's participants of one kind (agent / SIP caller)
+ */
+async function findParticipants(
+  config: LiveKitConfig,
+  roomName: string,
+  kind: ParticipantInfo_Kind
+): Promise<string[]> {
+  const roomService = new RoomServiceClient(config.url, config.apiKey, config.apiSecret)
+  const participants = await roomService.listParticipants(roomName)
+  return participants.filter((p) => p.kind === kind).map((p) => p.identity)
+}
+
+/**
+ * Send a text instruction to the agent mid-call
+ */
+export async function whisperToAgent(
+  roomName: string,
+  instruction: string,
+  from: string
+): Promise<SupervisorResult<{ agentIdentity: string }>> {
+  const config = getLiveKitConfig()
+  if (!config) {
+    return { success: false, error: 'LiveKit credentials not configured' }
+  }
+
+  const [agentIdentity] = await findParticipants(config, roomName, ParticipantInfo_Kind.AGENT)
+  if (!agentIdentity) {
+    return { success: false, error: 'The agent is no longer in the call' }
+  }
+
+  const roomService = new RoomServiceClient(config.url, config.apiKey, config.apiSecret)
+  const payload = JSON.stringify({ type: SUPERVISOR_WHISPER_TOPIC, instruction, from, sentAt: new Date().toISOString() })
+
+  await roomService.sendData(roomName, new TextEncoder().encode(payload), DataPacket_Kind.RELIABLE, {
+    topic: SUPERVISOR_WHISPER_TOPIC,
+    destinationIdentities: [agentIdentity],
+  })
+
+  return { success: true, agentIdentity }
+}
+
+/**
+ * Create a token for the supervisor to join the room as a third participant
+ *
+ * @returns The token, the LiveKit server URL and a LiveKit Meet link that joins with them
+ */
+export async function createBargeToken(
+  roomName: string,
+  supervisor: { userId: string; name: string }
+): Promise<SupervisorResult<{ identity: string; token: string; serverUrl: string; joinUrl: string }>> {
+  const config = getLiveKitConfig()
+  if (!config) {
+    return { success: false, error: 'LiveKit credentials not configured' }
+  }
+
+  const meetUrl = process.env.LIVEKIT_MEET_URL
+  if (!meetUrl) {
+    return { success: false, error: 'Barge is not configured - set LIVEKIT_MEET_URL to your LiveKit Meet deployment' }
+  }
+
+  const callers = await findParticipants(config, roomName, ParticipantInfo_Kind.SIP)
+  if (callers.length === 0) {
+    return { success: false, error: 'The caller is no longer in the call' }
+  }
+
+  const identity = `supervisor-${supervisor.userId}`
+  const accessToken = new AccessToken(config.apiKey, config.apiSecret, {
+    identity,
+    name: supervisor.name,
+    ttl: BARGE_TOKEN_TTL,
+    attributes: { role: 'supervisor' },
+  })
+  accessToken.addGrant({
+    room: roomName,
+    roomJoin: true,
+    canPublish: true,
+    canSubscribe: true,
+    canPublishData: false,
+  })
+
+  const token = await accessToken.toJwt()
+  const serverUrl = config.url.replace(/^http/, 'ws')
+  const joinUrl = `${meetUrl.replace(/\/$/, '')}/custom?${new URLSearchParams({ liveKitUrl: serverUrl, token }).toString()}`
+
+  return { success: true, identity, token, serverUrl, joinUrl }
+}
+
+/**
+ * Transfer the caller to the supervisor's phone, taking the agent out of the call
+ */
+export async function takeOverCall(
+  roomName: string,
+  phoneNumber: string
+): Promise<SupervisorResult<{ callerIdentity: string }>> {
+  const config = getLiveKitConfig()
+  if (!config) {
+    return { success: false, error: 'LiveKit credentials not configured' }
+  }
+
+  const [callerIdentity] = await findParticipants(config, roomName, ParticipantInfo_Kind.SIP)
+  if (!callerIdentity) {
+    return { success: false, error: 'The caller is no longer in the call' }
+  }
+
+  const sipClient = new SipClient(config.url, config.apiKey, config.apiSecret)
+  await sipClient.transferSipParticipant(roomName, callerIdentity, `tel:${phoneNumber}`, {
+    playDialtone: false,
+  })
+
+  return { success: true, callerIdentity }
+}
@@ -0,0 +1,101 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { saveAgentEvent } from '@/lib/calls'
+import { dialRingGroup, getRingGroup } from '@/lib/ring-groups'
+import type { AgentRules } from '@/types/agent-rules'
+
+/**
+ * Team Transfer
+ *
+ * Hands an incoming call to the team - a number or a ring group - for a
+ * schedule, caller route, screening entry or IVR menu option. Shared by
+ * /api/calls/incoming and /api/calls/incoming/menu so both ring the same way
+ * and fall back per the agent's agentFallback rule when no one answers (the
+ * fallback itself happens in /api/calls/incoming/callback).
+ */
+
+const DEFAULT_TRANSFER_TIMEOUT_SECONDS = 30
+
+export interface TeamTransferParams {
+  callId: string
+  organizationId: string
+  rules: AgentRules | null
+  transferNumber: string | null
+  ringGroupId: string | null
+  // Extra transferred_to_team event data, e.g. the menu option or caller route tag
+  eventData?: Record<string, unknown>
+}
+
+/**
+ * TwiML that dials a single number, with the fallback callback if enabled
+ */
+export function generateTransferTwiML(transferNumber: string, timeout: number, enableFallback: boolean): string {
+  const callbackUrl = `${process.env.NEXT_PUBLIC_APP_URL}/api/calls/incoming/callback`
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Dial${enableFallback ? ` action="${callbackUrl}"` : ''} timeout="${timeout}">
+    <Number>${transferNumber}</Number>
+  </Dial>
+</Response>`
+}
+
+/**
+ * Transfer the call to the team
+ * A ring group that has been deleted or emptied falls back to transferNumber.
+ * Marks the call transferred_to_team and saves the transferred_to_team event.
+ *
+ * @returns TwiML for the transfer, or null if there's nothing to transfer to
+ */
+export async function transferToTeam(supabase: SupabaseClient, params: TeamTransferParams): Promise<string | null> {
+  const { callId, organizationId, rules, transferNumber, ringGroupId } = params
+
+  const ringGroup = ringGroupId ? await getRingGroup(supabase, organizationId, ringGroupId) : null
+  const transferGroup = ringGroup && ringGroup.members.length > 0 ? ringGroup : null
+  if (ringGroupId && !transferGroup) {
+    console.warn(`⚠️ Ring group ${ringGroupId} not found or has no members`)
+  }
+
+  if (!transferGroup && !transferNumber) {
+    return null
+  }
+
+  const enableFallback = !!rules?.agentFallback?.enabled
+  const timeout = enableFallback ? rules!.agentFallback.timeoutSeconds : DEFAULT_TRANSFER_TIMEOUT_SECONDS
+
+  console.log('\n📞 TRANSFERRING TO TEAM:')
+  console.log(`  Transfer to: ${transferGroup ? `ring group ${transferGroup.name}` : transferNumber}`)
+  console.log(enableFallback
+    ? `  ⏱️  Agent fallback ENABLED - will route to ${rules!.agentFallback.action === 'voicemail' ? 'voicemail' : 'agent'} if no answer`
+    : '  ℹ️  Agent fallback DISABLED - call will ring until answered or caller hangs up')
+
+  await supabase
+    .from('calls')
+    .update({ status: 'transferred_to_team' })
+    .eq('id', callId)
+
+  await saveAgentEvent({
+    callId,
+    eventType: 'transferred_to_team',
+    eventData: {
+      transferNumber: transferGroup ? null : transferNumber,
+      timeout: transferGroup ? transferGroup.ring_timeout_seconds : timeout,
+      fallbackEnabled: enableFallback,
+      ...(transferGroup && {
+        ringGroupId: transferGroup.id,
+        ringGroupName: transferGroup.name,
+        strategy: transferGroup.strategy,
+      }),
+      ...params.eventData,
+    },
+  })
+
+  if (transferGroup) {
+    return dialRingGroup(transferGroup, 0, {
+      callId,
+      source: 'team',
+      finalAction: enableFallback ? `${process.env.NEXT_PUBLIC_APP_URL}/api/calls/incoming/callback` : null,
+    })
+  }
+
+  return generateTransferTwiML(transferNumber as string, timeout, enableFallback)
+}
@@ -0,0 +1,272 @@
+import type { LookupAddress } from 'dns'
+import { lookup } from 'dns/promises'
+import { request as httpRequest, type IncomingMessage } from 'http'
+import { request as httpsRequest } from 'https'
+import { BlockList, isIP, type LookupFunction } from 'net'
+import { Readable } from 'stream'
+
+/**
+ * API Request Guard
+ *
+ * API request tools fetch URLs that the AI can supply, so a caller could talk
+ * the agent into requesting our own network - loopback, private ranges or the
+ * cloud metadata service at 169.254.169.254. Every URL (and every redirect)
+ * is resolved and rejected if any address it resolves to isn't public, and
+ * the connection is made to the address that was checked, so a second DNS
+ * answer can't point it somewhere else.
+ */
+
+const MAX_REDIRECTS = 5
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308]
+
+// Statuses whose responses never have a body
+const NULL_BODY_STATUSES = [101, 204, 205, 304]
+
+// Headers kept when a redirect leaves the original origin - anything else
+// (Authorization, API keys in custom headers) was meant for the original host
+const CROSS_ORIGIN_REDIRECT_HEADERS = ['accept', 'accept-language', 'content-type', 'user-agent']
+
+export interface PublicRequestInit {
+  method?: string
+  headers?: Record<string, string>
+  body?: string
+  signal?: AbortSignal
+}
+
+const blockedAddresses = new BlockList()
+
+// IPv4: "this" network, private, carrier-grade NAT, loopback, link-local,
+// protocol assignments, benchmarking, multicast and reserved
+blockedAddresses.addSubnet('0.0.0.0', 8, 'ipv4')
+blockedAddresses.addSubnet('10.0.0.0', 8, 'ipv4')
+blockedAddresses.addSubnet('100.64.0.0', 10, 'ipv4')
+blockedAddresses.addSubnet('127.0.0.0', 8, 'ipv4')
+blockedAddresses.addSubnet('169.254.0.0', 16, 'ipv4')
+blockedAddresses.addSubnet('172.16.0.0', 12, 'ipv4')
+blockedAddresses.addSubnet('192.0.0.0', 24, 'ipv4')
+blockedAddresses.addSubnet('192.168.0.0', 16, 'ipv4')
+blockedAddresses.addSubnet('198.18.0.0', 15, 'ipv4')
+blockedAddresses.addSubnet('224.0.0.0', 4, 'ipv4')
+blockedAddresses.addSubnet('240.0.0.0', 4, 'ipv4')
+
+// IPv6: unspecified, loopback, unique local, link-local and multicast
+blockedAddresses.addAddress('::', 'ipv6')
+blockedAddresses.addAddress('::1', 'ipv6')
+blockedAddresses.addSubnet('fc00::', 7, 'ipv6')
+blockedAddresses.addSubnet('fe80::', 10, 'ipv6')
+blockedAddresses.addSubnet('ff00::', 8, 'ipv6')
+
+const IPV4_MAPPED_PATTERN = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i
+// URL parsing normalises [::ffff:127.0.0.1] to [::ffff:7f00:1]
+const IPV4_MAPPED_HEX_PATTERN = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not on the public internet
+ */
+export function isPrivateAddress(address: string): boolean {
+  // ::ffff:127.0.0.1 reaches the IPv4 address it wraps
+  const mapped = address.match(IPV4_MAPPED_PATTERN)
+  if (mapped) {
+    return isPrivateAddress(mapped[1])
+  }
+
+  const mappedHex = address.match(IPV4_MAPPED_HEX_PATTERN)
+  if (mappedHex) {
+    const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)]
+    return isPrivateAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`)
+  }
+
+  const family = isIP(address)
+  if (family === 0) {
+    return true
+  }
+
+  return blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6')
+}
+
+/**
+ * Resolve a URL's host, checking it is http(s) and every address is public
+ */
+async function resolvePublicAddress(url: URL): Promise<{ address?: LookupAddress; error?: string }> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return { error: 'Only http and https URLs are supported' }
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '')
+
+  let addresses: LookupAddress[]
+  try {
+    addresses = await lookup(hostname, { all: true, verbatim: true })
+  } catch {
+    return { error: `Could not resolve host ${hostname}` }
+  }
+
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    return { error: 'Requests to private, loopback and link-local addresses are not allowed' }
+  }
+
+  return { address: addresses[0] }
+}
+
+/**
+ * Check a URL is http(s) and every address its host resolves to is public
+ *
+ * @returns Error message, or null if the URL can be requested
+ */
+export async function checkPublicUrl(url: URL): Promise<string | null> {
+  const { error } = await resolvePublicAddress(url)
+  return error ?? null
+}
+
+/**
+ * DNS lookup that always answers with an address that has already been checked
+ */
+function pinnedLookup(address: LookupAddress): LookupFunction {
+  return (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, [address])
+    } else {
+      callback(null, address.address, address.family)
+    }
+  }
+}
+
+/**
+ * Make one request to a checked address, without following redirects
+ */
+function requestPinned(url: URL, init: PublicRequestInit, address: LookupAddress): Promise<Response> {
+  const request = url.protocol === 'https:' ? httpsRequest : httpRequest
+  const method = (init.method || 'GET').toUpperCase()
+  const headers: Record<string, string> = { ...init.headers }
+  if (init.body !== undefined) {
+    headers['Content-Length'] = String(Buffer.byteLength(init.body))
+  }
+
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      { method, headers, signal: init.signal, lookup: pinnedLookup(address) },
+      (res: IncomingMessage) => {
+        const responseHeaders = new Headers()
+        for (const [name, value] of Object.entries(res.headers)) {
+          for (const entry of Array.isArray(value) ? value : value !== undefined ? [value] : []) {
+            responseHeaders.append(name, entry)
+          }
+        }
+
+        const status = res.statusCode || 502
+        const hasBody = !NULL_BODY_STATUSES.includes(status) && method !== 'HEAD'
+        if (!hasBody) {
+          res.resume()
+        }
+
+        resolve(
+          new Response(hasBody ? (Readable.toWeb(res) as ReadableStream<Uint8Array>) : null, {
+            status,
+            statusText: res.statusMessage,
+            headers: responseHeaders,
+          })
+        )
+      }
+    )
+
+    req.on('error', reject)
+    req.end(init.body)
+  })
+}
+
+/**
+ * fetch() that checks the URL, and every redirect it follows, with checkPublicUrl
+ * and connects only to the checked addresses
+ *
+ * @returns The final response, or the error that stopped the request
+ */
+export async function fetchPublicUrl(
+  url: URL,
+  init: PublicRequestInit
+): Promise<{ response?: Response; error?: string }> {
+  let currentUrl = url
+  let currentInit = init
+
+  for (let redirects = 0; ; redirects++) {
+    const { address, error } = await resolvePublicAddress(currentUrl)
+    if (!address) {
+      return { error }
+    }
+
+    const response = await requestPinned(currentUrl, currentInit, address)
+    const location = response.headers.get('location')
+
+    if (!REDIRECT_STATUSES.includes(response.status) || !location) {
+      return { response }
+    }
+
+    await response.body?.cancel()
+
+    if (redirects >= MAX_REDIRECTS) {
+      return { error: `Too many redirects (more than ${MAX_REDIRECTS})` }
+    }
+
+    const nextUrl = new URL(location, currentUrl)
+
+    if (nextUrl.origin !== currentUrl.origin) {
+      currentInit = {
+        ...currentInit,
+        headers: Object.fromEntries(
+          Object.entries(currentInit.headers || {}).filter(([key]) =>
+            CROSS_ORIGIN_REDIRECT_HEADERS.includes(key.toLowerCase())
+          )
+        ),
+      }
+    }
+    currentUrl = nextUrl
+
+    // Same as fetch's own redirect handling: 303, and 301/302 after a POST, become a GET without a body
+    const method = (currentInit.method || 'GET').toUpperCase()
+    if (response.status === 303 || ((response.status === 301 || response.status === 302) && method === 'POST')) {
+      currentInit = {
+        ...currentInit,
+        method: 'GET',
+        headers: Object.fromEntries(
+          Object.entries(currentInit.headers || {}).filter(([key]) => key.toLowerCase() !== 'content-type')
+        ),
+        body: undefined,
+      }
+    }
+  }
+}
+
+/**
+ * Read a response body as text, stopping after maxBytes
+ */
+export async function readLimitedText(
+  response: Response,
+  maxBytes: number
+): Promise<{ text: string; truncated: boolean }> {
+  if (!response.body) {
+    return { text: '', truncated: false }
+  }
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let received = 0
+  let truncated = false
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    chunks.push(value)
+    received += value.byteLength
+
+    if (received > maxBytes) {
+      truncated = true
+      await reader.cancel()
+      break
+    }
+  }
+
+  const text = new TextDecoder().decode(Buffer.concat(chunks).subarray(0, maxBytes))
+  return { text, truncated }
+}
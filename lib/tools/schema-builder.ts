@@ -227,6 +227,9 @@ export function buildStaticConfig(config: ToolConfig): Record<string, unknown> {
 
     case 'transfer_call':
       staticConfig.target = config.target
+      if (config.target.type === 'number') {
+        staticConfig.fallback = config.fallback || 'agent'
+      }
       if (config.message.strategy === 'fixed') {
         staticConfig.message = config.message.content
       }
@@ -238,6 +241,12 @@ export function buildStaticConfig(config: ToolConfig): Record<string, unknown> {
       if (config.url.mode === 'fixed') {
         staticConfig.url = config.url.value
       }
+      if (config.timeoutSeconds) {
+        staticConfig.timeoutSeconds = config.timeoutSeconds
+      }
+      if (config.maxResponseLength) {
+        staticConfig.maxResponseLength = config.maxResponseLength
+      }
 
       staticConfig.headers = {}
       if (config.headers) {
@@ -347,9 +356,29 @@ export function validateToolConfig(config: ToolConfig): { valid: boolean; errors
       if (config.url.mode === 'fixed' && !config.url.value) {
         errors.push('API request URL is required')
       }
+      if (config.url.mode === 'fixed' && typeof config.url.value === 'string' && config.url.value && !/^https?:\/\//i.test(config.url.value)) {
+        errors.push('API request URL must start with http:// or https://')
+      }
       if (config.url.mode === 'ai' && !config.url.prompt) {
         errors.push('AI prompt for URL is required')
       }
+
+      // Header and body fields need names, and AI fields need prompts
+      Object.entries({ ...config.headers }).forEach(([key, source]) => {
+        if (!key.trim()) errors.push('Header names cannot be empty')
+        if (source.mode === 'ai' && !source.prompt) errors.push(`AI prompt for header "${key}" is required`)
+      })
+      Object.entries({ ...config.body }).forEach(([key, source]) => {
+        if (!key.trim()) errors.push('Body field names cannot be empty')
+        if (source.mode === 'ai' && !source.prompt) errors.push(`AI prompt for body field "${key}" is required`)
+      })
+
+      if (config.timeoutSeconds !== undefined && (config.timeoutSeconds < 1 || config.timeoutSeconds > 30)) {
+        errors.push('API request timeout must be between 1 and 30 seconds')
+      }
+      if (config.maxResponseLength !== undefined && config.maxResponseLength < 100) {
+        errors.push('Maximum response length must be at least 100 characters')
+      }
       break
 
     case 'pipedream_action':
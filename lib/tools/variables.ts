@@ -75,3 +75,25 @@ export function getAllVariables(): ToolVariable[] {
   return Object.values(TOOL_VARIABLES)
 }
 
+
+/**
+ * Replace {{variable_name}} placeholders with their runtime values
+ * Unknown variables are left untouched, known variables without a value become empty strings
+ * @param text - The text containing variables
+ * @param values - Runtime values keyed by variable name
+ * @param options.encode - URI-encode substituted values (use when building URLs)
+ * @returns Text with variables substituted
+ */
+export function substituteVariables(
+  text: string,
+  values: Partial<Record<string, string>>,
+  options: { encode?: boolean } = {}
+): string {
+  return text.replace(/\{\{(\w+)\}\}/g, (match, variableName: string) => {
+    if (!TOOL_VARIABLES[variableName]) {
+      return match
+    }
+    const value = values[variableName] || ''
+    return options.encode ? encodeURIComponent(value) : value
+  })
+}
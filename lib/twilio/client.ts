@@ -152,3 +152,48 @@ export async function configureTwilioTrunkTransfers(
 }
 
 
+
+/**
+ * Place an outbound call
+ *
+ * Twilio fetches answerUrl for TwiML once the callee picks up, and posts call
+ * progress (initiated / ringing / answered / completed) to statusCallbackUrl.
+ */
+export async function createOutboundCall(
+  accountSid: string,
+  authToken: string,
+  params: {
+    to: string;
+    from: string;
+    answerUrl: string;
+    statusCallbackUrl: string;
+    timeoutSeconds?: number;
+  }
+): Promise<{ success: boolean; callSid?: string; error?: string }> {
+  try {
+    console.log(`📞 Placing outbound call from ${params.from} to ${params.to}...`);
+
+    const client = twilio(accountSid, authToken);
+
+    const call = await client.calls.create({
+      to: params.to,
+      from: params.from,
+      url: params.answerUrl,
+      method: 'POST',
+      statusCallback: params.statusCallbackUrl,
+      statusCallbackMethod: 'POST',
+      statusCallbackEvent: ['initiated', 'ringing', 'answered', 'completed'],
+      timeout: params.timeoutSeconds ?? 30,
+    });
+
+    console.log(`✅ Outbound call created: ${call.sid}`);
+
+    return { success: true, callSid: call.sid };
+  } catch (error) {
+    console.error('❌ Error placing outbound call:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * Escape text for use inside TwiML elements and attributes
+ * (prompts and messages configured in the dashboard)
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,187 @@
+import twilio from 'twilio';
+import { createServiceClient } from '@/lib/supabase/server';
+import { logSecurityEvent } from '@/lib/security-events';
+
+export type TwilioWebhookValidation =
+  | { valid: true; params: Record<string, string>; organizationIds: string[] | null }
+  | { valid: false; response: Response };
+
+export type ValidTwilioWebhook = Extract<TwilioWebhookValidation, { valid: true }>;
+
+type RejectionReason = 'missing_signature' | 'missing_account_sid' | 'unknown_account' | 'invalid_signature';
+
+/**
+ * URLs Twilio may have signed for this request
+ *
+ * Twilio signs the exact URL it was configured with (always built from
+ * NEXT_PUBLIC_APP_URL), but behind a proxy request.url is the internal
+ * address, so we also try the public URL and the forwarded host.
+ */
+export function getTwilioWebhookUrls(request: Request): string[] {
+  const url = new URL(request.url);
+  const pathAndQuery = `${url.pathname}${url.search}`;
+  const urls: string[] = [];
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL?.replace(/\/+$/, '');
+  if (appUrl) {
+    urls.push(`${appUrl}${pathAndQuery}`);
+  }
+
+  const forwardedHost = request.headers.get('x-forwarded-host');
+  if (forwardedHost) {
+    const forwardedProto = request.headers.get('x-forwarded-proto')?.split(',')[0].trim() || 'https';
+    urls.push(`${forwardedProto}://${forwardedHost.split(',')[0].trim()}${pathAndQuery}`);
+  }
+
+  urls.push(request.url);
+
+  return Array.from(new Set(urls));
+}
+
+/**
+ * Auth tokens that may have signed a webhook for this Twilio account, and the
+ * organizations with numbers on it
+ *
+ * Twilio credentials are stored per phone number, so every distinct token
+ * stored for the account is returned (numbers added before a token rotation
+ * can still hold the old one). TWILIO_AUTH_TOKEN covers a platform-level account.
+ */
+async function getAuthTokens(accountSid: string): Promise<{ tokens: string[]; organizationIds: string[] }> {
+  const supabase = await createServiceClient();
+
+  const { data, error } = await supabase
+    .from('phone_numbers')
+    .select('organization_id, credentials')
+    .eq('provider', 'twilio')
+    .eq('credentials->>accountSid', accountSid);
+
+  if (error) {
+    console.error('❌ Error looking up Twilio credentials:', error);
+  }
+
+  const tokens = new Set<string>();
+  const organizationIds = new Set<string>();
+
+  for (const row of data || []) {
+    const credentials = row.credentials as { authToken?: string } | null;
+    if (credentials?.authToken) {
+      tokens.add(credentials.authToken);
+    }
+    organizationIds.add(row.organization_id);
+  }
+
+  if (process.env.TWILIO_AUTH_TOKEN) {
+    tokens.add(process.env.TWILIO_AUTH_TOKEN);
+  }
+
+  return { tokens: Array.from(tokens), organizationIds: Array.from(organizationIds) };
+}
+
+function rejectionResponse(): Response {
+  return new Response('Forbidden', { status: 403, headers: { 'Content-Type': 'text/plain' } });
+}
+
+/**
+ * Validate the X-Twilio-Signature of a Twilio webhook
+ *
+ * Reads the form body from a clone, so the route can still call request.formData().
+ * Rejected requests are logged to security_events and get a 403 response.
+ *
+ * Set TWILIO_WEBHOOK_VALIDATION=disabled to skip validation when testing locally
+ * (ignored in production).
+ */
+export async function validateTwilioWebhook(request: Request): Promise<TwilioWebhookValidation> {
+  const formData = await request.clone().formData();
+  const params: Record<string, string> = {};
+  formData.forEach((value, key) => {
+    params[key] = value.toString();
+  });
+
+  if (process.env.TWILIO_WEBHOOK_VALIDATION === 'disabled' && process.env.NODE_ENV !== 'production') {
+    console.warn('⚠️ Twilio signature validation is disabled (TWILIO_WEBHOOK_VALIDATION=disabled)');
+    return { valid: true, params, organizationIds: null };
+  }
+
+  const reject = async (
+    reason: RejectionReason,
+    organizationId: string | null = null,
+    details: Record<string, unknown> = {}
+  ): Promise<TwilioWebhookValidation> => {
+    await logSecurityEvent({
+      eventType: 'twilio_signature_rejected',
+      reason,
+      request,
+      organizationId,
+      details: {
+        accountSid: params.AccountSid || null,
+        callSid: params.CallSid || null,
+        from: params.From || null,
+        to: params.To || null,
+        ...details,
+      },
+    });
+    return { valid: false, response: rejectionResponse() };
+  };
+
+  const signature = request.headers.get('x-twilio-signature');
+  if (!signature) {
+    return reject('missing_signature');
+  }
+
+  const accountSid = params.AccountSid;
+  if (!accountSid) {
+    return reject('missing_account_sid');
+  }
+
+  const { tokens, organizationIds } = await getAuthTokens(accountSid);
+  if (tokens.length === 0) {
+    return reject('unknown_account');
+  }
+
+  const urls = getTwilioWebhookUrls(request);
+  const isValid = tokens.some((token) =>
+    urls.some((url) => twilio.validateRequest(token, signature, url, params))
+  );
+
+  if (!isValid) {
+    return reject('invalid_signature', organizationIds[0] ?? null, { triedUrls: urls });
+  }
+
+  return { valid: true, params, organizationIds };
+}
+
+/**
+ * Reject a signed webhook that acts on another organization's call or number
+ *
+ * A valid signature only proves the request came from a Twilio account we
+ * know about, and the call ID or number in the request can be changed by
+ * whoever owns that account. The organization the call or number belongs to
+ * must have numbers on the account that signed it.
+ *
+ * @returns 403 response, or null if the organization matches
+ */
+export async function rejectOrganizationMismatch(
+  request: Request,
+  validation: ValidTwilioWebhook,
+  organizationId: string,
+  details: Record<string, unknown> = {}
+): Promise<Response | null> {
+  // Validation disabled for local testing
+  if (!validation.organizationIds || validation.organizationIds.includes(organizationId)) {
+    return null;
+  }
+
+  await logSecurityEvent({
+    eventType: 'twilio_signature_rejected',
+    reason: 'organization_mismatch',
+    request,
+    organizationId,
+    details: {
+      accountSid: validation.params.AccountSid || null,
+      callSid: validation.params.CallSid || null,
+      signedForOrganizations: validation.organizationIds,
+      ...details,
+    },
+  });
+  return rejectionResponse();
+}
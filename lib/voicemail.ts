@@ -0,0 +1,157 @@
+import { tasks } from '@trigger.dev/sdk/v3'
+import { isValidE164 } from '@/lib/outbound-calls'
+import { escapeXml } from '@/lib/twilio/twiml'
+import type { VoicemailSettings } from '@/types/agent-rules'
+import type { processVoicemail } from '@/src/trigger/process-voicemail'
+
+/**
+ * Voicemail
+ *
+ * Messages recorded from IVR menu options and no-answer fallbacks. Twilio
+ * records the message, /api/calls/voicemail/recording queues the
+ * process-voicemail task, which stores the audio in the call-recordings
+ * bucket, transcribes it and notifies the team.
+ */
+
+export const DEFAULT_VOICEMAIL: VoicemailSettings = {
+  greeting: 'Please leave a message after the tone.',
+  maxLengthSeconds: 120,
+}
+
+export const MAX_VOICEMAIL_RECIPIENTS = 10
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// Twilio recording SIDs - the recording is downloaded by SID from the account's own API URL
+export const RECORDING_SID_PATTERN = /^RE[0-9a-f]{32}$/i
+
+/**
+ * TwiML that records a voicemail
+ * The recording is reported to /api/calls/voicemail/recording once Twilio has processed it
+ */
+export function generateVoicemailTwiML(settings: VoicemailSettings | undefined, callId: string): string {
+  const voicemail = { ...DEFAULT_VOICEMAIL, ...settings }
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Say>${escapeXml(voicemail.greeting || DEFAULT_VOICEMAIL.greeting)}</Say>
+  <Record maxLength="${voicemail.maxLengthSeconds}" playBeep="true" timeout="5" action="${appUrl}/api/calls/voicemail?callId=${callId}" recordingStatusCallback="${appUrl}/api/calls/voicemail/recording?callId=${callId}" recordingStatusCallbackEvent="completed"/>
+</Response>`
+}
+
+/**
+ * Validate the voicemail settings saved with an agent's rules
+ *
+ * @returns Error message, or null if the settings are valid
+ */
+export function validateVoicemailSettings(settings: VoicemailSettings | undefined): string | null {
+  if (!settings) {
+    return null
+  }
+
+  if (!Number.isInteger(settings.maxLengthSeconds) || settings.maxLengthSeconds < 10 || settings.maxLengthSeconds > 300) {
+    return 'Voicemail length must be between 10 and 300 seconds'
+  }
+
+  const smsNumbers = settings.notifySmsNumbers || []
+  const emails = settings.notifyEmails || []
+
+  if (smsNumbers.length > MAX_VOICEMAIL_RECIPIENTS || emails.length > MAX_VOICEMAIL_RECIPIENTS) {
+    return `Voicemail notifications can go to at most ${MAX_VOICEMAIL_RECIPIENTS} numbers and ${MAX_VOICEMAIL_RECIPIENTS} email addresses`
+  }
+
+  const invalidNumber = smsNumbers.find((number) => !isValidE164(number))
+  if (invalidNumber !== undefined) {
+    return `Voicemail SMS number "${invalidNumber}" must be in E.164 format, e.g. +447700900123`
+  }
+
+  const invalidEmail = emails.find((email) => !EMAIL_PATTERN.test(email))
+  if (invalidEmail !== undefined) {
+    return `"${invalidEmail}" is not a valid email address`
+  }
+
+  return null
+}
+
+/**
+ * Where a voicemail is kept in the call-recordings bucket
+ * Call recordings live at organization_id/room_name.mp4, voicemails alongside them
+ */
+export function getVoicemailStoragePath(organizationId: string, callId: string, recordingSid: string): string {
+  return `${organizationId}/voicemails/${callId}/${recordingSid}.mp3`
+}
+
+/**
+ * Text of the SMS / email sent to the team for a new voicemail
+ */
+export function formatVoicemailNotification(params: {
+  callerNumber: string
+  calledNumber: string | null
+  agentName: string | null
+  durationSeconds: number
+  transcript: string | null
+}): { subject: string; text: string } {
+  const subject = `New voicemail from ${params.callerNumber}`
+  const lines = [
+    `${subject} (${params.durationSeconds}s)`,
+    params.calledNumber ? `Called: ${params.calledNumber}${params.agentName ? ` (${params.agentName})` : ''}` : null,
+    '',
+    params.transcript ? `"${params.transcript}"` : 'No transcript available.',
+  ]
+
+  return {
+    subject,
+    text: lines.filter((line) => line !== null).join('\n'),
+  }
+}
+
+/**
+ * Send a voicemail email through Resend
+ * Skipped (not an error) when RESEND_API_KEY / VOICEMAIL_EMAIL_FROM aren't configured
+ */
+export async function sendVoicemailEmail(
+  to: string[],
+  message: { subject: string; text: string }
+): Promise<{ success: boolean; skipped?: boolean; error?: string }> {
+  const apiKey = process.env.RESEND_API_KEY
+  const from = process.env.VOICEMAIL_EMAIL_FROM
+
+  if (!apiKey || !from) {
+    return { success: false, skipped: true, error: 'Email is not configured' }
+  }
+
+  try {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ from, to, subject: message.subject, text: message.text }),
+      signal: AbortSignal.timeout(10_000),
+    })
+
+    if (!response.ok) {
+      return { success: false, error: `Resend returned ${response.status}: ${await response.text()}` }
+    }
+
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to send email' }
+  }
+}
+
+/**
+ * Queue a finished recording for storage, transcription and notifications
+ * Keyed on the recording SID, so a repeated Twilio callback doesn't process it twice
+ */
+export async function queueVoicemailProcessing(params: {
+  callId: string
+  recordingSid: string
+  durationSeconds: number
+}): Promise<void> {
+  await tasks.trigger<typeof processVoicemail>('process-voicemail', params, {
+    idempotencyKey: `voicemail-${params.recordingSid}`,
+  })
+}
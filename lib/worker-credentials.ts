@@ -0,0 +1,264 @@
+import { createHash, randomBytes } from 'crypto'
+import { NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { logSecurityEvent } from '@/lib/security-events'
+import type { WorkerCredential, WorkerCredentialStatus } from '@/types/worker-credentials'
+
+const TOKEN_PREFIX = 'vwk_'
+const DISPLAY_PREFIX_LENGTH = 12
+const DEFAULT_ROTATION_GRACE_HOURS = 24
+// Don't write last_used_at on every request - the worker calls the API several times per call
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000
+
+export interface CreateWorkerCredentialParams {
+  organizationId: string
+  name: string
+  createdBy?: string | null
+  rotatedFromId?: string | null
+}
+
+export interface RotateWorkerCredentialParams {
+  credentialId: string
+  organizationId: string
+  createdBy?: string | null
+  gracePeriodHours?: number
+}
+
+type CredentialResult = {
+  success: boolean
+  credential?: WorkerCredential
+  // Plain token, only returned when a credential is created
+  token?: string
+  error?: string
+}
+
+export type WorkerAuthResult =
+  | { authenticated: true; organizationId: string; credentialId: string }
+  | { authenticated: false; response: Response }
+
+const CREDENTIAL_COLUMNS = 'id, organization_id, name, token_prefix, created_by, last_used_at, expires_at, revoked_at, rotated_from_id, created_at, updated_at'
+
+export function hashWorkerToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+function generateWorkerToken(): string {
+  return `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`
+}
+
+export function getWorkerCredentialStatus(
+  credential: Pick<WorkerCredential, 'expires_at' | 'revoked_at'>,
+  now: Date = new Date()
+): WorkerCredentialStatus {
+  if (credential.revoked_at) return 'revoked'
+  if (credential.expires_at) {
+    return new Date(credential.expires_at) <= now ? 'expired' : 'expiring'
+  }
+  return 'active'
+}
+
+/**
+ * Create a worker credential and return its token
+ *
+ * The token is only available here - the database keeps its SHA-256 hash
+ */
+export async function createWorkerCredential(params: CreateWorkerCredentialParams): Promise<CredentialResult> {
+  const { organizationId, name, createdBy, rotatedFromId } = params
+  const supabase = await createServiceClient()
+
+  const token = generateWorkerToken()
+
+  const { data: credential, error } = await supabase
+    .from('worker_credentials')
+    .insert({
+      organization_id: organizationId,
+      name,
+      token_prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+      token_hash: hashWorkerToken(token),
+      created_by: createdBy ?? null,
+      rotated_from_id: rotatedFromId ?? null,
+    })
+    .select(CREDENTIAL_COLUMNS)
+    .single()
+
+  if (error || !credential) {
+    console.error('Error creating worker credential:', error)
+    return { success: false, error: 'Failed to create worker credential' }
+  }
+
+  return { success: true, credential: credential as WorkerCredential, token }
+}
+
+/**
+ * Replace a credential with a new token
+ *
+ * The old token keeps working for gracePeriodHours so running workers can be
+ * redeployed with the new one. Pass 0 to expire it immediately.
+ */
+export async function rotateWorkerCredential(params: RotateWorkerCredentialParams): Promise<CredentialResult> {
+  const { credentialId, organizationId, createdBy, gracePeriodHours = DEFAULT_ROTATION_GRACE_HOURS } = params
+  const supabase = await createServiceClient()
+
+  const { data: existing, error: fetchError } = await supabase
+    .from('worker_credentials')
+    .select(CREDENTIAL_COLUMNS)
+    .eq('id', credentialId)
+    .eq('organization_id', organizationId)
+    .single()
+
+  if (fetchError || !existing) {
+    return { success: false, error: 'Worker credential not found' }
+  }
+
+  const status = getWorkerCredentialStatus(existing)
+  if (status === 'revoked' || status === 'expired') {
+    return { success: false, error: `Cannot rotate a ${status} credential` }
+  }
+
+  const created = await createWorkerCredential({
+    organizationId,
+    name: existing.name,
+    createdBy,
+    rotatedFromId: existing.id,
+  })
+
+  if (!created.success) {
+    return created
+  }
+
+  // Keep an earlier expiry if the credential is already being rotated out
+  const graceExpiry = new Date(Date.now() + gracePeriodHours * 60 * 60 * 1000)
+  const expiresAt = existing.expires_at && new Date(existing.expires_at) < graceExpiry
+    ? existing.expires_at
+    : graceExpiry.toISOString()
+
+  const { error: expireError } = await supabase
+    .from('worker_credentials')
+    .update({ expires_at: expiresAt })
+    .eq('id', existing.id)
+
+  if (expireError) {
+    console.error('Error expiring rotated worker credential:', expireError)
+    return { success: false, error: 'New credential created but the old one could not be expired' }
+  }
+
+  return created
+}
+
+/**
+ * Revoke a credential - its token is rejected immediately
+ */
+export async function revokeWorkerCredential(
+  credentialId: string,
+  organizationId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createServiceClient()
+
+  const { data, error } = await supabase
+    .from('worker_credentials')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', credentialId)
+    .eq('organization_id', organizationId)
+    .is('revoked_at', null)
+    .select('id')
+
+  if (error) {
+    console.error('Error revoking worker credential:', error)
+    return { success: false, error: 'Failed to revoke worker credential' }
+  }
+
+  if (!data || data.length === 0) {
+    return { success: false, error: 'Worker credential not found' }
+  }
+
+  return { success: true }
+}
+
+function unauthorized(): Response {
+  return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+}
+
+/**
+ * Authenticate a request from the LiveKit agent worker
+ *
+ * Expects `Authorization: Bearer <worker token>`. Rejected requests are logged
+ * to security_events and get a 401 response. Routes must still check that the
+ * agent / phone number / tool they load belongs to auth.organizationId
+ * (see rejectWorkerOrganizationMismatch).
+ */
+export async function authenticateWorkerRequest(request: Request): Promise<WorkerAuthResult> {
+  const reject = async (reason: string, organizationId: string | null = null, details: Record<string, unknown> = {}) => {
+    await logSecurityEvent({
+      eventType: 'worker_auth_rejected',
+      reason,
+      request,
+      organizationId,
+      details,
+    })
+    return { authenticated: false as const, response: unauthorized() }
+  }
+
+  const authorization = request.headers.get('authorization')
+  const token = authorization?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim()
+
+  if (!token) {
+    return reject('missing_token')
+  }
+
+  const supabase = await createServiceClient()
+  const { data: credential, error } = await supabase
+    .from('worker_credentials')
+    .select('id, organization_id, token_prefix, last_used_at, expires_at, revoked_at')
+    .eq('token_hash', hashWorkerToken(token))
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error looking up worker credential:', error)
+    return { authenticated: false, response: NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 }) }
+  }
+
+  if (!credential) {
+    return reject('invalid_token', null, { tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH) })
+  }
+
+  const status = getWorkerCredentialStatus(credential)
+  if (status === 'revoked' || status === 'expired') {
+    return reject(`${status}_token`, credential.organization_id, {
+      credentialId: credential.id,
+      tokenPrefix: credential.token_prefix,
+    })
+  }
+
+  if (!credential.last_used_at || Date.now() - new Date(credential.last_used_at).getTime() > LAST_USED_UPDATE_INTERVAL_MS) {
+    const { error: updateError } = await supabase
+      .from('worker_credentials')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', credential.id)
+
+    if (updateError) {
+      console.warn('⚠️ Failed to update worker credential last_used_at:', updateError.message)
+    }
+  }
+
+  return { authenticated: true, organizationId: credential.organization_id, credentialId: credential.id }
+}
+
+/**
+ * Response for a valid credential used against another organization's resource
+ *
+ * Logged as a security event; returns 404 so resource IDs can't be probed
+ */
+export async function rejectWorkerOrganizationMismatch(
+  request: Request,
+  organizationId: string,
+  details: Record<string, unknown>
+): Promise<Response> {
+  await logSecurityEvent({
+    eventType: 'worker_auth_rejected',
+    reason: 'organization_mismatch',
+    request,
+    organizationId,
+    details,
+  })
+  return NextResponse.json({ success: false, error: 'Not found' }, { status: 404 })
+}
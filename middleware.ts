@@ -6,13 +6,15 @@ export default authkitMiddleware({
     enabled: true,
     unauthenticatedPaths: [
       '/',
-      // Twilio webhook routes
+      // Twilio webhook routes (authenticated by X-Twilio-Signature, see lib/twilio/webhook.ts)
       '/api/calls/incoming',
       '/api/calls/incoming/refer',
       '/api/calls/incoming/transfer-no-answer',
       '/api/calls/incoming/callback',
+      '/api/calls/outbound/answer',
+      '/api/calls/outbound/status',
       '/api/callback',
-      // Agent API routes (called by LiveKit agent)
+      // Agent API routes (called by LiveKit agent, authenticated by worker credentials - see lib/worker-credentials.ts)
       '/api/agents/:path*/calls',
       '/api/phone-number/:path*/agent',
       '/api/agents/:path*/retrieve',
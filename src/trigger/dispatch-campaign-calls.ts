@@ -0,0 +1,299 @@
+import { logger, schedules } from "@trigger.dev/sdk/v3";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { isWithinCallingWindows, recordCampaignCallOutcome } from "@/lib/campaigns";
+import { startOutboundCall } from "@/lib/outbound-calls";
+import type { Campaign, CampaignContact } from "@/types/campaigns";
+
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════╗
+ * ║              DISPATCH OUTBOUND CAMPAIGN CALLS                          ║
+ * ╚═══════════════════════════════════════════════════════════════════════╝
+ *
+ * Works through the contact lists of running campaigns, placing calls via
+ * the same outbound call path as the dashboard dialer.
+ *
+ * SCHEDULING:
+ * ===========
+ * - Runs every minute
+ * - A campaign is only dialled inside one of its calling windows, evaluated
+ *   in the campaign's timezone
+ * - Contacts are due when pending and next_attempt_at is empty or has passed
+ *   (retries are scheduled by recordCampaignCallOutcome)
+ *
+ * PACING:
+ * =======
+ * - Each tick fills the campaign up to max_concurrent_calls - contacts that
+ *   are dialing or connected count against the limit
+ * - Contacts are claimed (pending -> dialing) before dialling so an
+ *   overlapping tick can't call the same contact twice
+ * - Contacts stuck dialing / connected for STALE_CALL_MINUTES (a status
+ *   callback that never arrived) are failed so they stop holding a slot
+ *
+ * DO NOT CALL:
+ * ============
+ * - Due contacts on the organization's do-not-call list are marked skipped
+ *   instead of being dialled
+ *
+ * Campaigns with no pending, dialing or connected contacts left are marked
+ * completed.
+ */
+
+const STALE_CALL_MINUTES = 120;
+
+/**
+ * Create Supabase client for Trigger.dev tasks
+ */
+function createSupabaseClient(): SupabaseClient {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error("Missing Supabase environment variables");
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  });
+}
+
+type DueContact = Pick<CampaignContact, "id" | "phone_number" | "variables" | "attempts">;
+
+/**
+ * Fail contacts whose call never reported back
+ */
+async function failStaleContacts(supabase: SupabaseClient, campaign: Campaign, now: Date) {
+  const staleBefore = new Date(now.getTime() - STALE_CALL_MINUTES * 60 * 1000).toISOString();
+
+  const { data, error } = await supabase
+    .from("campaign_contacts")
+    .update({ status: "failed", last_result: "timed_out", next_attempt_at: null })
+    .eq("campaign_id", campaign.id)
+    .in("status", ["dialing", "connected"])
+    .lt("last_attempt_at", staleBefore)
+    .select("id");
+
+  if (error) {
+    logger.error("❌ Failed to clear stale campaign contacts", { campaignId: campaign.id, error: error.message });
+  } else if (data && data.length > 0) {
+    logger.warn("⚠️ Failed stale campaign contacts", { campaignId: campaign.id, count: data.length });
+  }
+}
+
+/**
+ * Mark the campaign completed once every contact has a final status
+ */
+async function completeIfFinished(supabase: SupabaseClient, campaign: Campaign): Promise<boolean> {
+  const { count, error } = await supabase
+    .from("campaign_contacts")
+    .select("id", { count: "exact", head: true })
+    .eq("campaign_id", campaign.id)
+    .in("status", ["pending", "dialing", "connected"]);
+
+  if (error || count === null || count > 0) {
+    return false;
+  }
+
+  await supabase
+    .from("campaigns")
+    .update({ status: "completed", completed_at: new Date().toISOString() })
+    .eq("id", campaign.id)
+    .eq("status", "running");
+
+  logger.info("🏁 Campaign completed", { campaignId: campaign.id, name: campaign.name });
+  return true;
+}
+
+/**
+ * Place calls for one campaign, up to its free concurrency slots
+ */
+async function dispatchCampaign(supabase: SupabaseClient, campaign: Campaign, now: Date): Promise<number> {
+  await failStaleContacts(supabase, campaign, now);
+
+  if (await completeIfFinished(supabase, campaign)) {
+    return 0;
+  }
+
+  if (!isWithinCallingWindows(campaign.calling_windows, campaign.timezone, now)) {
+    logger.info("🌙 Outside calling windows", { campaignId: campaign.id, timezone: campaign.timezone });
+    return 0;
+  }
+
+  const { count: activeCount } = await supabase
+    .from("campaign_contacts")
+    .select("id", { count: "exact", head: true })
+    .eq("campaign_id", campaign.id)
+    .in("status", ["dialing", "connected"]);
+
+  const slots = campaign.max_concurrent_calls - (activeCount ?? 0);
+
+  if (slots <= 0) {
+    return 0;
+  }
+
+  const { data: dueData, error: dueError } = await supabase
+    .from("campaign_contacts")
+    .select("id, phone_number, variables, attempts")
+    .eq("campaign_id", campaign.id)
+    .eq("status", "pending")
+    .or(`next_attempt_at.is.null,next_attempt_at.lte.${now.toISOString()}`)
+    .order("row_number", { ascending: true })
+    .limit(slots);
+
+  if (dueError) {
+    logger.error("❌ Failed to fetch due contacts", { campaignId: campaign.id, error: dueError.message });
+    return 0;
+  }
+
+  const dueContacts = (dueData || []) as DueContact[];
+
+  if (dueContacts.length === 0) {
+    return 0;
+  }
+
+  // Skip anyone on the do-not-call list
+  const { data: blocked } = await supabase
+    .from("do_not_call_numbers")
+    .select("phone_number")
+    .eq("organization_id", campaign.organization_id)
+    .in("phone_number", dueContacts.map((contact) => contact.phone_number));
+
+  const blockedNumbers = new Set((blocked || []).map((row) => row.phone_number as string));
+  const skipped = dueContacts.filter((contact) => blockedNumbers.has(contact.phone_number));
+
+  if (skipped.length > 0) {
+    await supabase
+      .from("campaign_contacts")
+      .update({ status: "skipped", last_result: "do_not_call", next_attempt_at: null })
+      .in("id", skipped.map((contact) => contact.id));
+
+    logger.info("🚫 Skipped do-not-call contacts", { campaignId: campaign.id, count: skipped.length });
+  }
+
+  let placed = 0;
+
+  for (const contact of dueContacts.filter((contact) => !blockedNumbers.has(contact.phone_number))) {
+    // Claim the contact so an overlapping tick can't dial it too
+    const { data: claimed } = await supabase
+      .from("campaign_contacts")
+      .update({
+        status: "dialing",
+        attempts: contact.attempts + 1,
+        last_attempt_at: new Date().toISOString(),
+        next_attempt_at: null,
+      })
+      .eq("id", contact.id)
+      .eq("status", "pending")
+      .select("id");
+
+    if (!claimed || claimed.length === 0) {
+      continue;
+    }
+
+    const result = await startOutboundCall(supabase, {
+      organizationId: campaign.organization_id,
+      agentId: campaign.agent_id,
+      to: contact.phone_number,
+      phoneNumberId: campaign.phone_number_id,
+      variables: contact.variables,
+      initiatedBy: `campaign:${campaign.id}`,
+      campaignId: campaign.id,
+      campaignContactId: contact.id,
+    });
+
+    if (result.success) {
+      placed++;
+      continue;
+    }
+
+    if (result.errorCode === "dial_failed" && result.call) {
+      // Twilio rejected this number - retry or fail it like an unanswered call
+      logger.warn("⚠️ Campaign call failed to dial", { contactId: contact.id, error: result.error });
+      await recordCampaignCallOutcome(supabase, result.call.id, "failed");
+      continue;
+    }
+
+    if (result.errorCode === "do_not_call" || result.errorCode === "invalid_contact") {
+      // Something about this contact (added to the do-not-call list since the check above,
+      // malformed number or variables) - the rest of the campaign can still be dialled
+      logger.warn("⚠️ Campaign contact can't be called", { contactId: contact.id, error: result.error });
+      await supabase
+        .from("campaign_contacts")
+        .update({
+          status: result.errorCode === "do_not_call" ? "skipped" : "failed",
+          last_result: result.errorCode,
+          next_attempt_at: null,
+        })
+        .eq("id", contact.id);
+      continue;
+    }
+
+    // Campaign-level problem (agent deleted, no phone number, missing credentials).
+    // Release the contact and pause the campaign rather than burning attempts.
+    await supabase
+      .from("campaign_contacts")
+      .update({ status: "pending", attempts: contact.attempts })
+      .eq("id", contact.id);
+
+    await supabase
+      .from("campaigns")
+      .update({ status: "paused" })
+      .eq("id", campaign.id);
+
+    logger.error("❌ Campaign paused - calls can't be placed", {
+      campaignId: campaign.id,
+      error: result.error,
+      errorCode: result.errorCode,
+    });
+    break;
+  }
+
+  return placed;
+}
+
+export const dispatchCampaignCalls = schedules.task({
+  id: "dispatch-campaign-calls",
+  cron: "* * * * *",
+  machine: "small-1x",
+  maxDuration: 120,
+  run: async (payload) => {
+    const supabase = createSupabaseClient();
+    const now = payload.timestamp;
+
+    const { data, error } = await supabase
+      .from("campaigns")
+      .select("*")
+      .eq("status", "running");
+
+    if (error) {
+      logger.error("❌ Failed to fetch running campaigns", { error: error.message });
+      throw error;
+    }
+
+    const campaigns = (data || []) as Campaign[];
+
+    if (campaigns.length === 0) {
+      return { campaigns: 0, placed: 0 };
+    }
+
+    let placed = 0;
+
+    for (const campaign of campaigns) {
+      try {
+        placed += await dispatchCampaign(supabase, campaign, now);
+      } catch (campaignError) {
+        // One broken campaign shouldn't hold up the others
+        logger.error("❌ Error dispatching campaign", {
+          campaignId: campaign.id,
+          error: campaignError instanceof Error ? campaignError.message : String(campaignError),
+        });
+      }
+    }
+
+    logger.info("📞 Dispatched campaign calls", { campaigns: campaigns.length, placed });
+
+    return { campaigns: campaigns.length, placed };
+  },
+});
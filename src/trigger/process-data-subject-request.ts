@@ -0,0 +1,467 @@
+import { logger, schemaTask } from "@trigger.dev/sdk/v3";
+import z from "zod";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import {
+  deleteSubjectSms,
+  findSubjectSms,
+  getExportPath,
+  getTwilioAccounts,
+  removeExportBundle,
+} from "@/lib/data-subject-requests";
+import { getOriginalRecording, getOriginalRecordingPath, getRedactedOriginals } from "@/lib/redaction";
+import { getCallStoragePaths, RECORDINGS_BUCKET } from "@/lib/retention";
+import type { Call, FunctionExecution } from "@/types/call-events";
+import type {
+  DataSubjectRequest,
+  DataSubjectRequestSummary,
+  DataSubjectSmsMessage,
+} from "@/types/data-subject-requests";
+
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════╗
+ * ║                 PROCESS DATA SUBJECT REQUEST                           ║
+ * ╚═══════════════════════════════════════════════════════════════════════╝
+ *
+ * Handles a caller's GDPR export or erasure request, queued from
+ * /api/[slug]/data-subject-requests.
+ *
+ * WHAT'S FOUND:
+ * =============
+ * - Calls where caller_phone_number is the number, with their events,
+ *   evaluation results and redacted originals
+ * - Call recordings and voicemails in call-recordings
+ * - SMS exchanged with the organization's Twilio numbers (SMS tool messages)
+ * - Tool calls made during those calls (from function_tools_executed)
+ * - Campaign contacts for the number
+ *
+ * EXPORT:
+ * =======
+ * - export.json and a copy of every recording under
+ *   {organization_id}/exports/{request_id}/ - copies, so the bundle survives
+ *   retention purges until it's downloaded. A bleeped recording's original
+ *   is decrypted into the bundle too
+ *
+ * ERASURE:
+ * ========
+ * - Recordings, SMS and earlier export bundles are deleted, then the calls
+ *   (events, evaluation results and redacted originals cascade) and
+ *   campaign contacts
+ * - Calls on legal hold are left alone and counted in the summary
+ * - The request row becomes the tombstone: phone number cleared, hash,
+ *   last 4 digits, counts and erased call IDs kept
+ *
+ * RETRY STRATEGY:
+ * ===============
+ * - Each step can be repeated safely, so a failed attempt just runs again
+ * - Row only marked 'failed' on the final attempt
+ */
+
+const MAX_ATTEMPTS = 3;
+const ID_CHUNK_SIZE = 100;
+const PAGE_SIZE = 1000;
+
+/**
+ * Create Supabase client for Trigger.dev tasks
+ */
+function createSupabaseClient(): SupabaseClient {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error("Missing Supabase environment variables");
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  });
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Every row of a table for the given calls, paging through large results
+ */
+async function selectForCalls<T>(
+  supabase: SupabaseClient,
+  table: string,
+  columns: string,
+  callIds: string[]
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (const ids of chunk(callIds, ID_CHUNK_SIZE)) {
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from(table)
+        .select(columns)
+        .in("call_id", ids)
+        .order("id", { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch ${table}: ${error.message}`);
+      }
+
+      rows.push(...((data || []) as T[]));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+  }
+
+  return rows;
+}
+
+interface SubjectEvent {
+  id: string;
+  call_id: string;
+  time: string;
+  event_type: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Tool calls made during the caller's calls - the arguments are what the agent captured
+ */
+function extractToolExecutions(events: SubjectEvent[]) {
+  return events
+    .filter((event) => event.event_type === "function_tools_executed")
+    .flatMap((event) => {
+      const payload = (event.data.data || event.data) as { executions?: FunctionExecution[] };
+      return (payload.executions || []).map((execution) => ({
+        callId: event.call_id,
+        time: event.time,
+        tool: execution.call?.name,
+        arguments: execution.call?.arguments,
+        output: execution.output,
+      }));
+    });
+}
+
+async function updateRequest(supabase: SupabaseClient, requestId: string, updates: Partial<DataSubjectRequest>) {
+  const { error } = await supabase
+    .from("data_subject_requests")
+    .update(updates)
+    .eq("id", requestId);
+
+  if (error) {
+    throw new Error(`Failed to update data subject request: ${error.message}`);
+  }
+}
+
+/**
+ * Main task: Export or erase everything held about a caller
+ */
+export const processDataSubjectRequest = schemaTask({
+  id: "process-data-subject-request",
+  schema: z.object({
+    requestId: z.string().uuid(),
+  }),
+  machine: {
+    preset: "small-1x",
+  },
+  maxDuration: 900,
+  retry: {
+    maxAttempts: MAX_ATTEMPTS,
+    factor: 2,
+    minTimeoutInMs: 10_000,
+    maxTimeoutInMs: 120_000,
+    randomize: true,
+  },
+  run: async (payload, { ctx }) => {
+    const { requestId } = payload;
+    const supabase = createSupabaseClient();
+    const isFinalAttempt = ctx.attempt.number >= MAX_ATTEMPTS;
+
+    const { data: request, error: requestError } = await supabase
+      .from("data_subject_requests")
+      .select("*")
+      .eq("id", requestId)
+      .single();
+
+    if (requestError || !request) {
+      throw new Error(`Failed to fetch data subject request: ${requestError?.message || "Not found"}`);
+    }
+
+    const { organization_id: organizationId, phone_number: phoneNumber, request_type: requestType } = request as DataSubjectRequest;
+
+    // A completed erasure no longer has the number to work with
+    if (request.status === "completed" || !phoneNumber) {
+      logger.info("⏭️ Request already completed", { requestId });
+      return { success: true, skipped: true };
+    }
+
+    logger.info("🔏 Processing data subject request", {
+      requestId,
+      requestType,
+      organizationId,
+      attemptNumber: ctx.attempt.number,
+    });
+
+    try {
+      await updateRequest(supabase, requestId, { status: "processing", error_message: null });
+
+      // ========================================
+      // FIND THE CALLER'S DATA
+      // ========================================
+
+      const { data: callRows, error: callsError } = await supabase
+        .from("calls")
+        .select("*")
+        .eq("organization_id", organizationId)
+        .eq("caller_phone_number", phoneNumber)
+        .order("created_at", { ascending: true });
+
+      if (callsError) {
+        throw new Error(`Failed to fetch calls: ${callsError.message}`);
+      }
+
+      const calls = (callRows || []) as Call[];
+      const callIds = calls.map((call) => call.id);
+
+      const [events, evaluationResults, { data: campaignContacts, error: contactsError }] = await Promise.all([
+        selectForCalls<SubjectEvent>(supabase, "agent_events", "id, call_id, time, event_type, data", callIds),
+        selectForCalls<Record<string, unknown>>(supabase, "call_evaluation_results", "*", callIds),
+        supabase
+          .from("campaign_contacts")
+          .select("*")
+          .eq("organization_id", organizationId)
+          .eq("phone_number", phoneNumber),
+      ]);
+
+      if (contactsError) {
+        throw new Error(`Failed to fetch campaign contacts: ${contactsError.message}`);
+      }
+
+      const twilioAccounts = await getTwilioAccounts(supabase, organizationId);
+      const sms = await findSubjectSms(twilioAccounts, phoneNumber);
+      const toolExecutions = extractToolExecutions(events);
+
+      const heldCalls = calls.filter((call) => call.legal_hold);
+
+      const summary: DataSubjectRequestSummary = {
+        calls: calls.length,
+        events: events.length,
+        recordings: 0,
+        sms: sms.length,
+        toolExecutions: toolExecutions.length,
+        evaluationResults: evaluationResults.length,
+        campaignContacts: (campaignContacts || []).length,
+        heldCalls: heldCalls.length,
+      };
+
+      // ========================================
+      // EXPORT
+      // ========================================
+
+      if (requestType === "export") {
+        const exportPath = getExportPath(organizationId, requestId);
+        const recordings: { callId: string; file: string }[] = [];
+
+        for (const call of calls) {
+          const originalPath = call.livekit_room_name
+            ? getOriginalRecordingPath(call.organization_id, call.livekit_room_name)
+            : null;
+
+          for (const path of await getCallStoragePaths(supabase, call)) {
+            if (path === originalPath) {
+              // Kept encrypted - the caller gets the recording itself
+              const original = await getOriginalRecording(supabase, call);
+              if (!original) {
+                continue;
+              }
+
+              const file = `${call.id}-original-${call.livekit_room_name}.mp4`;
+              const { error: originalError } = await supabase.storage
+                .from(RECORDINGS_BUCKET)
+                .upload(`${exportPath}/audio/${file}`, original, { contentType: "video/mp4", upsert: true });
+
+              if (originalError) {
+                throw new Error(`Failed to export original recording: ${originalError.message}`);
+              }
+              recordings.push({ callId: call.id, file: `audio/${file}` });
+              continue;
+            }
+
+            const file = `${call.id}-${path.split("/").pop()}`;
+            const { error: copyError } = await supabase.storage
+              .from(RECORDINGS_BUCKET)
+              .copy(path, `${exportPath}/audio/${file}`);
+
+            // Recordings that were never uploaded (or already purged) are skipped
+            if (copyError) {
+              logger.warn("Recording not copied", { callId: call.id, path, error: copyError.message });
+              continue;
+            }
+            recordings.push({ callId: call.id, file: `audio/${file}` });
+          }
+        }
+
+        summary.recordings = recordings.length;
+
+        // The values redaction replaced are part of what's held about the caller
+        const redactedOriginals: Record<string, unknown> = {};
+        for (const call of calls.filter((c) => c.redacted_at)) {
+          try {
+            redactedOriginals[call.id] = await getRedactedOriginals(supabase, call.id);
+          } catch (originalsError) {
+            logger.warn("Redacted originals not readable", {
+              callId: call.id,
+              error: originalsError instanceof Error ? originalsError.message : String(originalsError),
+            });
+          }
+        }
+
+        const bundle = {
+          requestId,
+          phoneNumber,
+          generatedAt: new Date().toISOString(),
+          summary,
+          calls: calls.map((call) => ({
+            ...call,
+            events: events.filter((event) => event.call_id === call.id),
+            evaluationResults: evaluationResults.filter((result) => result.call_id === call.id),
+            redactedOriginals: redactedOriginals[call.id] ?? null,
+            recordings: recordings.filter((recording) => recording.callId === call.id).map((recording) => recording.file),
+          })),
+          toolExecutions,
+          sms,
+          campaignContacts: campaignContacts || [],
+        };
+
+        const { error: uploadError } = await supabase.storage
+          .from(RECORDINGS_BUCKET)
+          .upload(`${exportPath}/export.json`, JSON.stringify(bundle, null, 2), {
+            contentType: "application/json",
+            upsert: true,
+          });
+
+        if (uploadError) {
+          throw new Error(`Failed to store export bundle: ${uploadError.message}`);
+        }
+
+        await updateRequest(supabase, requestId, {
+          status: "completed",
+          summary,
+          export_path: exportPath,
+          completed_at: new Date().toISOString(),
+        });
+
+        logger.info("✅ Export bundle ready", { requestId, exportPath, summary });
+
+        return { success: true, requestType, summary };
+      }
+
+      // ========================================
+      // ERASURE
+      // ========================================
+
+      const erasable = calls.filter((call) => !call.legal_hold);
+      const erasableIds = erasable.map((call) => call.id);
+
+      const storagePaths = (await Promise.all(erasable.map((call) => getCallStoragePaths(supabase, call)))).flat();
+      for (const paths of chunk(storagePaths, ID_CHUNK_SIZE)) {
+        const { data: removed, error: removeError } = await supabase.storage.from(RECORDINGS_BUCKET).remove(paths);
+        if (removeError) {
+          throw new Error(`Failed to delete recordings: ${removeError.message}`);
+        }
+        summary.recordings += removed?.length || 0;
+      }
+
+      // SMS sent while a held call was in progress are kept with it
+      const isDuringHeldCall = (message: DataSubjectSmsMessage) =>
+        !!message.dateSent && heldCalls.some((call) =>
+          message.dateSent! >= call.created_at && (!call.ended_at || message.dateSent! <= call.ended_at)
+        );
+      const erasableSms = sms.filter((message) => !isDuringHeldCall(message));
+      summary.sms = await deleteSubjectSms(twilioAccounts, erasableSms);
+
+      // Earlier export bundles hold copies of the same data
+      const { data: earlierExports, error: exportsError } = await supabase
+        .from("data_subject_requests")
+        .select("id, export_path")
+        .eq("organization_id", organizationId)
+        .eq("phone_number_hash", request.phone_number_hash)
+        .not("export_path", "is", null);
+
+      if (exportsError) {
+        throw new Error(`Failed to fetch earlier exports: ${exportsError.message}`);
+      }
+
+      summary.exportsRemoved = 0;
+      for (const earlier of earlierExports || []) {
+        await removeExportBundle(supabase, earlier.export_path);
+        await updateRequest(supabase, earlier.id, { export_path: null, phone_number: null });
+        summary.exportsRemoved++;
+      }
+
+      // Events, evaluation results and redacted originals cascade with the calls
+      for (const ids of chunk(erasableIds, ID_CHUNK_SIZE)) {
+        const { error: deleteError } = await supabase
+          .from("calls")
+          .delete()
+          .in("id", ids);
+
+        if (deleteError) {
+          throw new Error(`Failed to delete calls: ${deleteError.message}`);
+        }
+      }
+
+      const { error: contactsDeleteError } = await supabase
+        .from("campaign_contacts")
+        .delete()
+        .eq("organization_id", organizationId)
+        .eq("phone_number", phoneNumber);
+
+      if (contactsDeleteError) {
+        throw new Error(`Failed to delete campaign contacts: ${contactsDeleteError.message}`);
+      }
+
+      summary.calls = erasable.length;
+      summary.events = events.filter((event) => erasableIds.includes(event.call_id)).length;
+      summary.toolExecutions = toolExecutions.filter((execution) => erasableIds.includes(execution.callId)).length;
+      summary.evaluationResults = evaluationResults.filter((result) => erasableIds.includes(result.call_id as string)).length;
+
+      // The request row is the tombstone - everything but the number's hash and last digits goes
+      await updateRequest(supabase, requestId, {
+        status: "completed",
+        phone_number: null,
+        summary,
+        erased_call_ids: erasableIds,
+        completed_at: new Date().toISOString(),
+      });
+
+      logger.info("✅ Caller data erased", { requestId, summary });
+
+      return { success: true, requestType, summary };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+
+      logger.error("❌ Data subject request failed", {
+        error,
+        requestId,
+        attemptNumber: ctx.attempt.number,
+        isFinalAttempt,
+      });
+
+      // Keep the latest error visible, but only mark failed on the final attempt
+      try {
+        await updateRequest(supabase, requestId, {
+          error_message: errorMessage,
+          ...(isFinalAttempt && { status: "failed" }),
+        });
+      } catch (storeError) {
+        logger.error("Failed to store data subject request failure", { storeError });
+      }
+
+      throw error;
+    }
+  },
+});
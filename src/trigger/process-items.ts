@@ -6,7 +6,9 @@ import axios from "axios";
 import { processUrl } from "./processors/url";
 import { processText } from "./processors/text";
 import { processRightmoveAgent } from "./processors/rightmove-agent";
+import { processFile } from "./processors/file";
 import type { ProcessResult } from "./processors/url";
+import { getNextSyncAt } from "@/lib/knowledge-base/sync-schedule";
 
 /**
  * ╔═══════════════════════════════════════════════════════════════════════╗
@@ -19,15 +21,15 @@ import type { ProcessResult } from "./processors/url";
  * PROCESSOR ARCHITECTURE:
  * ======================
  * - Single task entry point (processItem) routes to type-specific processors
- * - Processors handle: URL, text, rightmove_agent, and future types
+ * - Processors handle: URL, text, rightmove_agent, file, and future types
  * - Each processor is in a separate file for maintainability
  * - Shared utilities (Supabase, status updates) kept in this file
  * 
  * PROCESSORS:
  *   • url:              Fetches content via Firecrawl, generates embeddings
  *   • text:             Directly embeds provided text content
- *   • rightmove_agent:  Scrapes properties via Apify, creates child items
- *   • file:             (Not yet implemented)
+ *   • rightmove_agent:  Scrapes properties via Apify, syncs child items incrementally
+ *   • file:             Extracts PDF/DOCX/CSV/Markdown text per page or section, generates embeddings
  * 
  * CONTEXTUAL RETRIEVAL:
  * ====================
@@ -58,6 +60,12 @@ import type { ProcessResult } from "./processors/url";
  *    • Factor: 2.5x exponential backoff with jitter
  *    • Range: 2s minimum → 60s maximum
  * 
+ * SYNC HISTORY & SCHEDULING:
+ * ==========================
+ *   • Every run records a knowledge_base_item_syncs row (manual or scheduled)
+ *   • After the run finishes, next_sync_at is set from the item's syncSchedule
+ *     so sync-knowledge-base-items picks it up again when it is due
+ * 
  * LOGGING:
  *   ⏸️  = Rate limited (waiting)
  *   ⚠️  = Transient error (retrying)
@@ -77,7 +85,7 @@ const PROCESSORS: Record<
   url: processUrl,
   text: processText,
   rightmove_agent: processRightmoveAgent,
-  // file: processFile, // TODO: Implement file processor
+  file: processFile,
 };
 
 /**
@@ -165,6 +173,93 @@ async function updateItemStatus(
     .eq("id", itemId);
 }
 
+type SyncTrigger = "manual" | "scheduled";
+
+/**
+ * Record the start of a run (or a retry of it) in the item's sync history
+ * Keyed on the run ID so task-level retries update the same row
+ */
+async function recordSyncStart(
+  supabase: SupabaseClient,
+  item: KnowledgeBaseItem,
+  runId: string,
+  trigger: SyncTrigger,
+  attempt: number
+): Promise<void> {
+  const { error } = await supabase
+    .from("knowledge_base_item_syncs")
+    .upsert(
+      {
+        knowledge_base_item_id: item.id,
+        knowledge_base_id: item.knowledge_base_id,
+        trigger,
+        status: "running",
+        run_id: runId,
+        attempts: attempt,
+      },
+      { onConflict: "run_id" }
+    );
+
+  if (error) {
+    logger.warn("⚠️  Failed to record sync start", { error: error.message });
+  }
+}
+
+/**
+ * Record the outcome of a run in the item's sync history
+ */
+async function recordSyncResult(
+  supabase: SupabaseClient,
+  runId: string,
+  status: "running" | "completed" | "failed",
+  result: { chunksCreated?: number; errorMessage?: string; stats?: Record<string, number> }
+): Promise<void> {
+  const updates: Record<string, unknown> = {
+    status,
+    error_message: result.errorMessage ?? null,
+  };
+
+  if (result.chunksCreated !== undefined) {
+    updates.chunks_created = result.chunksCreated;
+  }
+  if (result.stats) {
+    updates.stats = result.stats;
+  }
+  if (status !== "running") {
+    updates.completed_at = new Date().toISOString();
+  }
+
+  const { error } = await supabase
+    .from("knowledge_base_item_syncs")
+    .update(updates)
+    .eq("run_id", runId);
+
+  if (error) {
+    logger.warn("⚠️  Failed to record sync result", { error: error.message });
+  }
+}
+
+/**
+ * Set when the item is next due a scheduled re-sync (null if it isn't scheduled)
+ */
+async function scheduleNextSync(
+  supabase: SupabaseClient,
+  item: KnowledgeBaseItem
+): Promise<void> {
+  const nextSyncAt = getNextSyncAt(item);
+
+  const { error } = await supabase
+    .from("knowledge_base_items")
+    .update({ next_sync_at: nextSyncAt })
+    .eq("id", item.id);
+
+  if (error) {
+    logger.warn("⚠️  Failed to schedule next sync", { error: error.message });
+  } else if (nextSyncAt) {
+    logger.info("📅 Next sync scheduled", { nextSyncAt });
+  }
+}
+
 /**
  * Main task: Process a knowledge base item
  * 
@@ -189,6 +284,7 @@ export const processItem = schemaTask({
   id: "process-item",
   schema: z.object({
     knowledgeBaseItemId: z.string(),
+    trigger: z.enum(["manual", "scheduled"]).optional(),
   }),
   machine: "medium-1x", // 1 vCPU, 2GB RAM - good balance of cost and capability
   retry: {
@@ -201,7 +297,7 @@ export const processItem = schemaTask({
   queue: {
     concurrencyLimit: 3, // Limit concurrent tasks to avoid API rate limits
   },
-  run: async (payload: { knowledgeBaseItemId: string }, { ctx }) => {
+  run: async (payload, { ctx }) => {
     const startTime = Date.now();
     const supabase = createSupabaseClient();
     
@@ -218,8 +314,11 @@ export const processItem = schemaTask({
       name: item.name,
       chunkSize: item.chunk_size || 512,
       chunkOverlap: item.chunk_overlap || 50,
+      trigger: payload.trigger || "manual",
     });
 
+    await recordSyncStart(supabase, item, ctx.run.id, payload.trigger || "manual", ctx.attempt.number);
+
     try {
       // Get the appropriate processor for this item type
       const processor = PROCESSORS[item.type];
@@ -244,6 +343,12 @@ export const processItem = schemaTask({
       if (item.type !== 'rightmove_agent') {
         await updateItemStatus(supabase, item.id, "indexed");
       }
+
+      await recordSyncResult(supabase, ctx.run.id, "completed", {
+        chunksCreated: result.chunksCreated,
+        stats: result.stats,
+      });
+      await scheduleNextSync(supabase, item);
       
       const durationSec = ((Date.now() - startTime) / 1000).toFixed(2);
       logger.info("🎉 Processing completed successfully", { 
@@ -280,12 +385,16 @@ export const processItem = schemaTask({
       // Only mark as failed if this is the last attempt
       if (ctx.attempt.number >= 5) {
         await updateItemStatus(supabase, item.id, "failed", errorMessage);
+        await recordSyncResult(supabase, ctx.run.id, "failed", { errorMessage });
+        // Keep failed items on their schedule so a transient outage doesn't stop future syncs
+        await scheduleNextSync(supabase, item);
         logger.error("🔴 Max retries reached, marking item as failed", {
           totalAttempts: ctx.attempt.number,
           finalError: errorMessage,
           wasRateLimited: isRateLimit
         });
       } else {
+        await recordSyncResult(supabase, ctx.run.id, "running", { errorMessage });
         const nextAttempt = ctx.attempt.number + 1;
         logger.warn(`🔄 Will retry (attempt ${nextAttempt}/5)`, {
           nextAttempt,
@@ -0,0 +1,302 @@
+import { logger, schemaTask } from "@trigger.dev/sdk/v3";
+import z from "zod";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import twilio from "twilio";
+import { experimental_transcribe as transcribe } from "ai";
+import { createOpenAI } from "@ai-sdk/openai";
+import {
+  DEFAULT_VOICEMAIL,
+  formatVoicemailNotification,
+  getVoicemailStoragePath,
+  RECORDING_SID_PATTERN,
+  sendVoicemailEmail,
+} from "@/lib/voicemail";
+import type { AgentRules, VoicemailSettings } from "@/types/agent-rules";
+
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════╗
+ * ║                      VOICEMAIL PROCESSING                              ║
+ * ╚═══════════════════════════════════════════════════════════════════════╝
+ *
+ * Takes a finished Twilio voicemail recording and makes it available to
+ * the team.
+ *
+ * STEPS:
+ * ======
+ * 1. Download the recording (MP3) by its SID from the called number's Twilio
+ *    account - the callback's RecordingUrl is never fetched
+ * 2. Store it in the call-recordings bucket
+ *    (organization_id/voicemails/call_id/recording_sid.mp3)
+ * 3. Transcribe it with OpenAI Whisper - a failed transcription doesn't
+ *    fail the task, the voicemail is still stored and sent without one
+ * 4. Save a voicemail_left event on the call
+ * 5. Text / email the agent's voicemail notify lists and record the result
+ *    on the event
+ * 6. Delete the recording from Twilio, so the bucket holds the only copy
+ *
+ * Triggered by /api/calls/voicemail/recording, keyed on the recording SID.
+ *
+ * RETRY STRATEGY:
+ * ===============
+ * - 3 task-level retries with exponential backoff (download / upload errors)
+ * - Notification failures are logged on the event, never retried
+ * - The event is saved before anyone is notified, and a retry that finds
+ *   notifications already recorded on it doesn't send them again
+ */
+
+/**
+ * Create Supabase client for Trigger.dev tasks
+ */
+function createSupabaseClient(): SupabaseClient {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error("Missing Supabase environment variables");
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  });
+}
+
+type TwilioCredentials = { accountSid?: string; authToken?: string };
+
+/**
+ * Download the recording from Twilio as MP3
+ * The URL is built from the SID rather than taken from the callback, so the
+ * credentials are only ever sent to Twilio's API for this account
+ */
+async function downloadRecording(recordingSid: string, credentials: TwilioCredentials): Promise<Uint8Array> {
+  const auth = Buffer.from(`${credentials.accountSid}:${credentials.authToken}`).toString("base64");
+  const recordingUrl = `https://api.twilio.com/2010-04-01/Accounts/${credentials.accountSid}/Recordings/${recordingSid}.mp3`;
+  const response = await fetch(recordingUrl, {
+    headers: { Authorization: `Basic ${auth}` },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to download recording: ${response.status} ${response.statusText}`);
+  }
+
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * Transcribe the recording with Whisper
+ *
+ * @returns The transcript, or an error message when transcription isn't possible
+ */
+async function transcribeRecording(audio: Uint8Array): Promise<{ transcript: string | null; error?: string }> {
+  if (!process.env.OPENAI_API_KEY) {
+    return { transcript: null, error: "OPENAI_API_KEY environment variable is not set" };
+  }
+
+  try {
+    const openai = createOpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    const result = await transcribe({
+      model: openai.transcription("whisper-1"),
+      audio,
+    });
+
+    return { transcript: result.text.trim() || null };
+  } catch (error) {
+    return { transcript: null, error: error instanceof Error ? error.message : "Transcription failed" };
+  }
+}
+
+/**
+ * Main task: Store, transcribe and announce a voicemail
+ */
+export const processVoicemail = schemaTask({
+  id: "process-voicemail",
+  schema: z.object({
+    callId: z.string().uuid(),
+    recordingSid: z.string().regex(RECORDING_SID_PATTERN),
+    durationSeconds: z.number().int().nonnegative(),
+  }),
+  machine: {
+    preset: "small-1x",
+  },
+  maxDuration: 180,
+  retry: {
+    maxAttempts: 3,
+    factor: 2,
+    minTimeoutInMs: 2_000,
+    maxTimeoutInMs: 30_000,
+    randomize: true,
+  },
+  run: async (payload, { ctx }) => {
+    const { callId, recordingSid, durationSeconds } = payload;
+
+    logger.info("📼 Processing voicemail", { callId, recordingSid, attemptNumber: ctx.attempt.number });
+
+    const supabase = createSupabaseClient();
+
+    const { data: call, error: callError } = await supabase
+      .from("calls")
+      .select("id, organization_id, agent_id, caller_phone_number, trunk_phone_number, agents(name, rules)")
+      .eq("id", callId)
+      .single();
+
+    if (callError || !call) {
+      throw new Error(`Failed to fetch call: ${callError?.message || "Not found"}`);
+    }
+
+    const agent = call.agents as unknown as { name: string; rules: AgentRules | null } | null;
+    const settings: VoicemailSettings = { ...DEFAULT_VOICEMAIL, ...agent?.rules?.voicemail };
+
+    // The called number's credentials own the recording
+    const { data: phoneNumber, error: phoneError } = await supabase
+      .from("phone_numbers")
+      .select("phone_number, credentials")
+      .eq("organization_id", call.organization_id)
+      .eq("phone_number", call.trunk_phone_number)
+      .single();
+
+    const credentials = phoneNumber?.credentials as TwilioCredentials | null;
+    if (phoneError || !credentials?.accountSid || !credentials.authToken) {
+      throw new Error(`Twilio credentials not found for ${call.trunk_phone_number}`);
+    }
+
+    const audio = await downloadRecording(recordingSid, credentials);
+    const storagePath = getVoicemailStoragePath(call.organization_id, callId, recordingSid);
+
+    const { error: uploadError } = await supabase.storage
+      .from("call-recordings")
+      .upload(storagePath, audio, { contentType: "audio/mpeg", upsert: true });
+
+    if (uploadError) {
+      throw new Error(`Failed to store voicemail: ${uploadError.message}`);
+    }
+
+    logger.info("✅ Voicemail stored", { storagePath, bytes: audio.byteLength });
+
+    const { transcript, error: transcriptionError } = await transcribeRecording(audio);
+    if (transcriptionError) {
+      logger.warn("⚠️ Voicemail not transcribed", { callId, error: transcriptionError });
+    }
+
+    // Save the event before notifying, so a retry can tell whether the team was already told
+    const { data: existingEvent, error: existingError } = await supabase
+      .from("agent_events")
+      .select("id, data")
+      .eq("call_id", callId)
+      .eq("event_type", "voicemail_left")
+      .eq("data->>recordingSid", recordingSid)
+      .maybeSingle();
+
+    if (existingError) {
+      throw new Error(`Failed to check for voicemail event: ${existingError.message}`);
+    }
+
+    const eventData = {
+      recordingSid,
+      storagePath,
+      durationSeconds,
+      transcript,
+      transcriptionError: transcriptionError ?? null,
+      notified: null,
+      notificationErrors: [] as string[],
+    };
+
+    let eventId = existingEvent?.id as string | undefined;
+
+    if (!eventId) {
+      const { data: insertedEvent, error: eventError } = await supabase
+        .from("agent_events")
+        .insert({
+          call_id: callId,
+          event_type: "voicemail_left",
+          time: new Date().toISOString(),
+          data: eventData,
+        })
+        .select("id")
+        .single();
+
+      if (eventError || !insertedEvent) {
+        throw new Error(`Failed to save voicemail event: ${eventError?.message || "Unknown error"}`);
+      }
+      eventId = insertedEvent.id as string;
+    }
+
+    const twilioClient = twilio(credentials.accountSid, credentials.authToken);
+    const previouslyNotified = (existingEvent?.data as { notified?: { sms: number; email: number } | null } | undefined)?.notified;
+    let smsSent = previouslyNotified?.sms ?? 0;
+    let emailSent = previouslyNotified?.email ?? 0;
+
+    if (previouslyNotified) {
+      logger.info("⏭️ Team already notified on an earlier attempt", { callId, recordingSid });
+    } else {
+      // Notify the team - failures are recorded on the event rather than retried
+      const message = formatVoicemailNotification({
+        callerNumber: call.caller_phone_number,
+        calledNumber: call.trunk_phone_number,
+        agentName: agent?.name ?? null,
+        durationSeconds,
+        transcript,
+      });
+      const notificationErrors: string[] = [];
+
+      for (const recipient of settings.notifySmsNumbers || []) {
+        try {
+          await twilioClient.messages.create({
+            body: message.text.slice(0, 1500),
+            from: phoneNumber!.phone_number,
+            to: recipient,
+          });
+          smsSent++;
+        } catch (error) {
+          notificationErrors.push(`SMS to ${recipient}: ${error instanceof Error ? error.message : "failed"}`);
+        }
+      }
+
+      const emails = settings.notifyEmails || [];
+      if (emails.length > 0) {
+        const emailResult = await sendVoicemailEmail(emails, message);
+        if (emailResult.success) {
+          emailSent = emails.length;
+        } else if (emailResult.skipped) {
+          logger.info("⏭️ Voicemail email skipped", { callId, reason: emailResult.error });
+        } else {
+          notificationErrors.push(`Email: ${emailResult.error}`);
+        }
+      }
+
+      if (notificationErrors.length > 0) {
+        logger.warn("⚠️ Some voicemail notifications failed", { callId, notificationErrors });
+      }
+
+      // Don't throw from here on - a retry would notify everyone again
+      const { error: updateError } = await supabase
+        .from("agent_events")
+        .update({
+          data: { ...eventData, notified: { sms: smsSent, email: emailSent }, notificationErrors },
+        })
+        .eq("id", eventId);
+
+      if (updateError) {
+        logger.error("❌ Failed to record voicemail notifications", { callId, error: updateError.message });
+      }
+    }
+
+    // The stored copy is the one the dashboard plays
+    try {
+      await twilioClient.recordings(recordingSid).remove();
+    } catch (error) {
+      logger.warn("⚠️ Failed to delete Twilio recording", { recordingSid, error });
+    }
+
+    logger.info("✅ Voicemail processed", { callId, smsSent, emailSent, transcribed: !!transcript });
+
+    return {
+      success: true,
+      callId,
+      storagePath,
+      transcribed: !!transcript,
+      notified: { sms: smsSent, email: emailSent },
+    };
+  },
+});
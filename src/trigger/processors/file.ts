@@ -0,0 +1,502 @@
+import { logger, wait } from "@trigger.dev/sdk/v3";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { KnowledgeBaseItem, DocumentChunk } from "@/types/knowledge-base";
+import { processTextWithEmbeddings, extractTextFromHTML } from "@/lib/embeddings/processor";
+import { extractText, getDocumentProxy } from "unpdf";
+import mammoth from "mammoth";
+import axios from "axios";
+import type { ProcessResult } from "./url";
+
+const STORAGE_BUCKET = "knowledge-base-files";
+
+/**
+ * A contiguous piece of a file that is chunked and embedded on its own,
+ * so every chunk can be traced back to its page or section
+ */
+interface FileSection {
+  text: string;
+  pageNumber?: number;
+  sectionTitle?: string;
+}
+
+type SupportedFileType = "pdf" | "docx" | "csv" | "markdown" | "text";
+
+/**
+ * Check if an error is a rate limit error
+ */
+function isRateLimitError(error: unknown): boolean {
+  if (axios.isAxiosError(error)) {
+    return error.response?.status === 429;
+  }
+  if (error instanceof Error) {
+    const message = error.message.toLowerCase();
+    return message.includes("rate limit") ||
+           message.includes("too many requests") ||
+           message.includes("429");
+  }
+  return false;
+}
+
+/**
+ * Extract retry-after delay from error response
+ */
+function getRetryAfterDelay(error: unknown, attemptNumber: number): number {
+  if (axios.isAxiosError(error)) {
+    const retryAfter = error.response?.headers['retry-after'];
+    if (retryAfter) {
+      const parsed = parseInt(retryAfter, 10);
+      if (!isNaN(parsed)) {
+        return parsed;
+      }
+      const retryDate = new Date(retryAfter);
+      if (!isNaN(retryDate.getTime())) {
+        return Math.max(0, Math.ceil((retryDate.getTime() - Date.now()) / 1000));
+      }
+    }
+  }
+
+  const baseDelay = Math.pow(2, attemptNumber) * 2;
+  const jitter = Math.random() * 2;
+  return Math.min(baseDelay + jitter, 120);
+}
+
+/**
+ * Generate embeddings with retry logic for rate limits
+ */
+async function generateEmbeddingsWithRetry(
+  text: string,
+  chunkSize: number,
+  chunkOverlap: number,
+  contextDocument: string,
+  maxRetries = 5
+): Promise<Array<DocumentChunk & { embedding: number[] }>> {
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    try {
+      const result = await processTextWithEmbeddings(text, chunkSize, chunkOverlap, true, contextDocument);
+
+      if (attempt > 0) {
+        logger.info("✅ Embeddings generated successfully after retry", { attempt: attempt + 1 });
+      }
+
+      return result;
+
+    } catch (error) {
+      lastError = error;
+
+      if (isRateLimitError(error)) {
+        if (attempt < maxRetries) {
+          const delaySeconds = getRetryAfterDelay(error, attempt);
+          logger.warn("⏸️  Rate limited by embedding provider, waiting before retry", {
+            attempt: attempt + 1,
+            maxRetries: maxRetries + 1,
+            delaySeconds: delaySeconds.toFixed(1),
+          });
+
+          await wait.for({ seconds: delaySeconds });
+          continue;
+        }
+      }
+
+      if (attempt < maxRetries) {
+        const delaySeconds = Math.min(Math.pow(2, attempt) * 1 + Math.random(), 30);
+        logger.warn("⚠️  Error generating embeddings, retrying", {
+          error: error instanceof Error ? error.message : String(error),
+          attempt: attempt + 1,
+          maxRetries: maxRetries + 1,
+          delaySeconds: delaySeconds.toFixed(1)
+        });
+
+        await wait.for({ seconds: delaySeconds });
+        continue;
+      }
+
+      throw error;
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Work out how to parse a file from its MIME type, falling back to the extension
+ */
+function detectFileType(item: KnowledgeBaseItem): SupportedFileType {
+  const mimeType = (item.file_type || "").toLowerCase();
+  const extension = (item.file_location || "").split(".").pop()?.toLowerCase();
+
+  if (mimeType === "application/pdf" || extension === "pdf") {
+    return "pdf";
+  }
+  if (
+    mimeType === "application/vnd.openxmlformats-officedocument.wordprocessingml.document" ||
+    extension === "docx"
+  ) {
+    return "docx";
+  }
+  if (mimeType === "text/csv" || extension === "csv") {
+    return "csv";
+  }
+  if (mimeType === "text/markdown" || extension === "md" || extension === "markdown") {
+    return "markdown";
+  }
+  if (mimeType === "text/plain" || extension === "txt") {
+    return "text";
+  }
+
+  throw new Error(
+    `Unsupported file type: ${item.file_type || extension || "unknown"}. ` +
+    `Supported types: PDF, DOCX, CSV, Markdown, TXT`
+  );
+}
+
+/**
+ * Download the raw file from Supabase Storage
+ */
+async function downloadFile(
+  supabase: SupabaseClient,
+  fileLocation: string
+): Promise<Buffer> {
+  logger.info("📥 Downloading file from storage", { bucket: STORAGE_BUCKET, fileLocation });
+
+  const { data, error } = await supabase.storage
+    .from(STORAGE_BUCKET)
+    .download(fileLocation);
+
+  if (error || !data) {
+    throw new Error(`Failed to download file: ${error?.message || "File not found"}`);
+  }
+
+  return Buffer.from(await data.arrayBuffer());
+}
+
+/**
+ * One section per PDF page
+ */
+async function extractPdfSections(buffer: Buffer): Promise<FileSection[]> {
+  const pdf = await getDocumentProxy(new Uint8Array(buffer));
+  const { totalPages, text } = await extractText(pdf, { mergePages: false });
+
+  logger.info("📄 PDF text extracted", { totalPages });
+
+  return text.map((pageText, index) => ({
+    text: pageText,
+    pageNumber: index + 1,
+  }));
+}
+
+/**
+ * One section per heading (h1-h3) in the Word document
+ */
+async function extractDocxSections(buffer: Buffer): Promise<FileSection[]> {
+  const { value: html, messages } = await mammoth.convertToHtml({ buffer });
+
+  if (messages.length > 0) {
+    logger.info("📄 DOCX conversion messages", { count: messages.length });
+  }
+
+  const sections: FileSection[] = [];
+  const headingPattern = /<h[1-3][^>]*>([\s\S]*?)<\/h[1-3]>/gi;
+  let sectionTitle: string | undefined;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = headingPattern.exec(html)) !== null) {
+    sections.push({ text: extractTextFromHTML(html.slice(lastIndex, match.index)), sectionTitle });
+    sectionTitle = extractTextFromHTML(match[1]) || undefined;
+    lastIndex = match.index + match[0].length;
+  }
+  sections.push({ text: extractTextFromHTML(html.slice(lastIndex)), sectionTitle });
+
+  return sections;
+}
+
+/**
+ * One section per heading (#, ## or ###) in the Markdown file
+ */
+function extractMarkdownSections(content: string): FileSection[] {
+  const sections: FileSection[] = [];
+  let sectionTitle: string | undefined;
+  let lines: string[] = [];
+
+  for (const line of content.split(/\r?\n/)) {
+    const heading = line.match(/^#{1,3}\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      sections.push({ text: lines.join("\n"), sectionTitle });
+      sectionTitle = heading[1];
+      lines = [];
+    } else {
+      lines.push(line);
+    }
+  }
+  sections.push({ text: lines.join("\n"), sectionTitle });
+
+  return sections;
+}
+
+/**
+ * Parse CSV into rows, handling quoted fields with commas, quotes and newlines
+ */
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim().length > 0));
+}
+
+/**
+ * Render each CSV row as "Column: value" lines so every chunk keeps its headers
+ */
+function extractCsvSections(content: string): FileSection[] {
+  const [header, ...rows] = parseCsv(content.replace(/^﻿/, ""));
+
+  if (!header) {
+    return [];
+  }
+
+  logger.info("📊 CSV parsed", { columns: header.length, rows: rows.length });
+
+  const text = rows
+    .map((row) =>
+      header
+        .map((column, index) => {
+          const value = (row[index] || "").trim();
+          return value ? `${column.trim() || `Column ${index + 1}`}: ${value}` : null;
+        })
+        .filter(Boolean)
+        .join("\n")
+    )
+    .join("\n\n");
+
+  return [{ text }];
+}
+
+/**
+ * Extract text from the file, split into pages or sections
+ */
+async function extractSections(
+  fileType: SupportedFileType,
+  buffer: Buffer
+): Promise<FileSection[]> {
+  switch (fileType) {
+    case "pdf":
+      return extractPdfSections(buffer);
+    case "docx":
+      return extractDocxSections(buffer);
+    case "csv":
+      return extractCsvSections(buffer.toString("utf-8"));
+    case "markdown":
+      return extractMarkdownSections(buffer.toString("utf-8"));
+    case "text":
+      return [{ text: buffer.toString("utf-8") }];
+  }
+}
+
+/**
+ * Store document chunks with embeddings in database, keeping page and section information
+ */
+async function storeDocumentChunks(
+  supabase: SupabaseClient,
+  item: KnowledgeBaseItem,
+  chunks: Array<DocumentChunk & { embedding: number[] }>
+): Promise<number> {
+  if (chunks.length === 0) {
+    return 0;
+  }
+
+  logger.info("💾 Storing chunks in database", { totalChunks: chunks.length });
+
+  const BATCH_SIZE = 50;
+  let storedCount = 0;
+
+  for (let i = 0; i < chunks.length; i += BATCH_SIZE) {
+    const batch = chunks.slice(i, i + BATCH_SIZE);
+
+    const documents = batch.map((chunk) => ({
+      knowledge_base_id: item.knowledge_base_id,
+      knowledge_base_item_id: item.id,
+      content: chunk.content,
+      embedding: JSON.stringify(chunk.embedding),
+      chunk_index: chunk.chunkIndex,
+      chunk_total: chunk.chunkTotal,
+      token_count: chunk.tokenCount,
+      page_number: chunk.pageNumber ?? null,
+      section_title: chunk.sectionTitle ?? null,
+      metadata: chunk.metadata || {},
+    }));
+
+    const { error: insertError } = await supabase
+      .from("knowledge_base_documents")
+      .insert(documents);
+
+    if (insertError) {
+      throw new Error(`Database error: ${insertError.message}`);
+    }
+
+    storedCount += documents.length;
+    logger.info(`  ↳ Stored batch ${Math.floor(i / BATCH_SIZE) + 1}/${Math.ceil(chunks.length / BATCH_SIZE)}`, {
+      stored: storedCount,
+      total: chunks.length
+    });
+  }
+
+  logger.info("✅ All chunks stored successfully", { totalStored: storedCount });
+
+  return storedCount;
+}
+
+/**
+ * Process a file-type knowledge base item (PDF, DOCX, CSV, Markdown, TXT)
+ *
+ * Each page (PDF) or heading section (DOCX, Markdown) is chunked separately so
+ * chunks carry their pageNumber / sectionTitle. Contextual retrieval still sees
+ * the whole file, so chunks are situated within the full document.
+ */
+export async function processFile(
+  supabase: SupabaseClient,
+  item: KnowledgeBaseItem
+): Promise<ProcessResult> {
+  const startTime = Date.now();
+
+  logger.info("📎 Processing file item", {
+    itemId: item.id,
+    name: item.name,
+    fileType: item.file_type,
+    fileSize: item.file_size,
+  });
+
+  if (!item.file_location) {
+    throw new Error("File location is required for file-type items");
+  }
+
+  const fileType = detectFileType(item);
+  const buffer = await downloadFile(supabase, item.file_location);
+
+  logger.info("📊 File downloaded", {
+    fileType,
+    sizeKB: `${(buffer.length / 1024).toFixed(2)} KB`,
+  });
+
+  const sections = (await extractSections(fileType, buffer))
+    .map((section) => ({ ...section, text: section.text.trim() }))
+    .filter((section) => section.text.length > 0);
+
+  if (sections.length === 0) {
+    throw new Error("No text could be extracted from the file. Scanned PDFs and images are not supported.");
+  }
+
+  const wholeDocument = sections.map((section) => section.text).join("\n\n");
+  logger.info("📝 Text extracted", {
+    sections: sections.length,
+    characters: wholeDocument.length,
+  });
+
+  // Clear chunks from a previous attempt so retries don't duplicate documents
+  const { error: deleteError } = await supabase
+    .from("knowledge_base_documents")
+    .delete()
+    .eq("knowledge_base_item_id", item.id);
+
+  if (deleteError) {
+    throw new Error(`Failed to clear existing documents: ${deleteError.message}`);
+  }
+
+  // Generate embeddings section by section with built-in retry logic
+  logger.info("🧮 Generating embeddings with retry support...");
+  const chunksWithEmbeddings: Array<DocumentChunk & { embedding: number[] }> = [];
+
+  for (let i = 0; i < sections.length; i++) {
+    const section = sections[i];
+    const sectionChunks = await generateEmbeddingsWithRetry(
+      section.text,
+      item.chunk_size || 512,
+      item.chunk_overlap || 50,
+      wholeDocument
+    );
+
+    for (const chunk of sectionChunks) {
+      chunksWithEmbeddings.push({
+        ...chunk,
+        chunkIndex: chunksWithEmbeddings.length,
+        pageNumber: section.pageNumber,
+        sectionTitle: section.sectionTitle,
+        metadata: { fileType },
+      });
+    }
+
+    logger.info(`  ↳ Embedded section ${i + 1}/${sections.length}`, {
+      pageNumber: section.pageNumber,
+      sectionTitle: section.sectionTitle,
+      chunks: sectionChunks.length,
+    });
+  }
+
+  // Chunk totals are per file, not per section
+  for (const chunk of chunksWithEmbeddings) {
+    chunk.chunkTotal = chunksWithEmbeddings.length;
+  }
+
+  const avgTokens = chunksWithEmbeddings.length > 0
+    ? Math.round(chunksWithEmbeddings.reduce((sum, c) => sum + (c.tokenCount || 0), 0) / chunksWithEmbeddings.length)
+    : 0;
+
+  logger.info("✅ Embeddings generated", {
+    totalChunks: chunksWithEmbeddings.length,
+    avgTokensPerChunk: avgTokens,
+  });
+
+  // Store chunks in database
+  const chunksCreated = await storeDocumentChunks(
+    supabase,
+    item,
+    chunksWithEmbeddings
+  );
+
+  const durationSec = ((Date.now() - startTime) / 1000);
+
+  return {
+    success: true,
+    itemId: item.id,
+    type: item.type,
+    chunksCreated,
+    durationSec,
+  };
+}
@@ -3,6 +3,7 @@ import type { SupabaseClient } from "@supabase/supabase-js";
 import type { KnowledgeBaseItem, DocumentChunk, RightmoveAgentConfig } from "@/types/knowledge-base";
 import { processTextWithEmbeddings } from "@/lib/embeddings/processor";
 import { ApifyClient } from "apify-client";
+import { createHash } from "crypto";
 import axios from "axios";
 import type { ProcessResult } from "./url";
 
@@ -14,11 +15,23 @@ import type { ProcessResult } from "./url";
  * This processor handles Rightmove Agent items by:
  * 1. Extracting rent and sale URLs from parent item metadata
  * 2. Using Apify to scrape all property listings from both URLs
- * 3. Deleting existing child properties (clean slate approach)
- * 4. Creating new child items for each property with:
- *    - Full JSON stored in metadata
+ * 3. Diffing the scrape against existing child properties by Rightmove ID
+ *    (external_id) and a hash of the embedded text (content_hash):
+ *    - New listings: child item created and embedded
+ *    - Changed / relisted listings: re-embedded in place (same item ID, so
+ *      custom extraction results stay attached)
+ *    - Unchanged listings: metadata refreshed, no re-embedding
+ *    - Removed listings: soft-deleted (deleted_at) and their chunks removed
+ *      from search - skipped when the scrape is empty, which is more likely
+ *      a scraper problem than every listing going at once
+ *    - Children that never finished embedding (status isn't indexed) are
+ *      re-embedded whatever their hash
+ * 4. Child items store:
+ *    - Full JSON in metadata
  *    - Concise text embedded for search (title, address, description, etc.)
- *    - Embeddings stored in knowledge_base_documents
+ *    - Embeddings in knowledge_base_documents
+ * 5. Returning added / updated / removed / price-changed counts for the
+ *    sync history
  */
 
 /**
@@ -163,43 +176,6 @@ async function storeDocumentChunks(
   return storedCount;
 }
 
-/**
- * Delete all existing child properties for a parent agent
- * Uses CASCADE delete via parent_item_id foreign key
- */
-async function deleteExistingChildProperties(
-  supabase: SupabaseClient,
-  parentItemId: string
-): Promise<number> {
-  logger.info("🗑️  Deleting existing child properties", { parentItemId });
-
-  const { data: existingChildren, error: fetchError } = await supabase
-    .from("knowledge_base_items")
-    .select("id")
-    .eq("parent_item_id", parentItemId);
-
-  if (fetchError) {
-    throw new Error(`Error fetching existing children: ${fetchError.message}`);
-  }
-
-  if (!existingChildren || existingChildren.length === 0) {
-    logger.info("  ↳ No existing children to delete");
-    return 0;
-  }
-
-  const { error: deleteError } = await supabase
-    .from("knowledge_base_items")
-    .delete()
-    .eq("parent_item_id", parentItemId);
-
-  if (deleteError) {
-    throw new Error(`Error deleting existing children: ${deleteError.message}`);
-  }
-
-  logger.info("✅ Deleted existing child properties", { count: existingChildren.length });
-  return existingChildren.length;
-}
-
 /**
  * Fetch properties from Apify using Rightmove scraper
  */
@@ -329,6 +305,125 @@ function generatePropertyText(property: Record<string, unknown>): string {
   return parts.join('\n');
 }
 
+/**
+ * Existing child property, as needed to diff against a fresh scrape
+ */
+interface ExistingProperty {
+  id: string;
+  external_id: string | null;
+  content_hash: string | null;
+  status: string;
+  metadata: Record<string, unknown> | null;
+  deleted_at: string | null;
+}
+
+/**
+ * Counts recorded on the sync history row for each run
+ */
+interface PropertySyncStats {
+  scraped: number;
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+  priceChanged: number;
+  failed: number;
+}
+
+/**
+ * Hash of the text we embed - a listing only needs re-embedding when this changes
+ */
+function hashPropertyText(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+/**
+ * Price used to detect price changes (numeric price, falling back to the display price)
+ */
+function getPropertyPrice(property: Record<string, unknown> | null): string | null {
+  if (!property) return null;
+  if (typeof property.price === "number") return String(property.price);
+  if (typeof property.primaryPrice === "string") return property.primaryPrice;
+  return null;
+}
+
+/**
+ * Fetch every child property of the agent, including soft-deleted ones so
+ * listings that come back on the market can be restored
+ */
+async function fetchExistingChildProperties(
+  supabase: SupabaseClient,
+  parentItemId: string
+): Promise<Map<string, ExistingProperty>> {
+  const PAGE_SIZE = 1000;
+  const existing = new Map<string, ExistingProperty>();
+  let from = 0;
+
+  while (true) {
+    const { data, error } = await supabase
+      .from("knowledge_base_items")
+      .select("id, external_id, content_hash, status, metadata, deleted_at")
+      .eq("parent_item_id", parentItemId)
+      .order("created_at", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Error fetching existing children: ${error.message}`);
+    }
+
+    for (const child of (data || []) as ExistingProperty[]) {
+      if (child.external_id) {
+        existing.set(child.external_id, child);
+      }
+    }
+
+    if (!data || data.length < PAGE_SIZE) {
+      break;
+    }
+    from += PAGE_SIZE;
+  }
+
+  return existing;
+}
+
+/**
+ * Soft-delete properties that are no longer listed
+ * Keeps the item (and its custom extraction results) but removes its chunks from search
+ */
+async function softDeleteProperties(
+  supabase: SupabaseClient,
+  propertyItemIds: string[]
+): Promise<void> {
+  if (propertyItemIds.length === 0) {
+    return;
+  }
+
+  logger.info("🗑️  Soft-deleting removed listings", { count: propertyItemIds.length });
+
+  const BATCH_SIZE = 100;
+  for (let i = 0; i < propertyItemIds.length; i += BATCH_SIZE) {
+    const batch = propertyItemIds.slice(i, i + BATCH_SIZE);
+
+    const { error: deleteDocsError } = await supabase
+      .from("knowledge_base_documents")
+      .delete()
+      .in("knowledge_base_item_id", batch);
+
+    if (deleteDocsError) {
+      throw new Error(`Error deleting documents for removed listings: ${deleteDocsError.message}`);
+    }
+
+    const { error: updateError } = await supabase
+      .from("knowledge_base_items")
+      .update({ deleted_at: new Date().toISOString() })
+      .in("id", batch);
+
+    if (updateError) {
+      throw new Error(`Error soft-deleting removed listings: ${updateError.message}`);
+    }
+  }
+}
+
 /**
  * Create a child property item in the database
  */
@@ -336,22 +431,14 @@ async function createPropertyItem(
   supabase: SupabaseClient,
   parentItem: KnowledgeBaseItem,
   property: Record<string, unknown>,
-  propertyIndex: number,
-  totalProperties: number
-): Promise<{ itemId: string; chunksCreated: number }> {
+  embeddingText: string,
+  contentHash: string
+): Promise<number> {
   const propertyId = property.id as string;
-  const propertyUrl = property.url as string;
   const propertyTitle = property.title as string || `Property ${propertyId}`;
 
-  logger.info(`  ↳ Processing property ${propertyIndex + 1}/${totalProperties}`, {
-    propertyId,
-    title: propertyTitle.substring(0, 50),
-  });
-
-  // Generate concise text for embedding
-  const embeddingText = generatePropertyText(property);
-
-  // Create the child item
+  // Create the child item - content_hash is only set once its chunks are stored,
+  // so a child whose embedding fails is picked up again by the next sync
   const { data: childItem, error: insertError } = await supabase
     .from("knowledge_base_items")
     .insert({
@@ -359,7 +446,7 @@ async function createPropertyItem(
       parent_item_id: parentItem.id,
       name: propertyTitle,
       type: "rightmove_property",
-      url: propertyUrl,
+      url: property.url as string,
       external_id: propertyId,
       status: "processing",
       chunk_size: parentItem.chunk_size || 512,
@@ -389,15 +476,117 @@ async function createPropertyItem(
   );
 
   // Update status to indexed
-  await supabase
+  const { error: updateError } = await supabase
     .from("knowledge_base_items")
     .update({
+      content_hash: contentHash,
       status: "indexed",
       last_synced_at: new Date().toISOString(),
     })
     .eq("id", childItem.id);
 
-  return { itemId: childItem.id, chunksCreated };
+  if (updateError) {
+    throw new Error(`Failed to mark child item indexed: ${updateError.message}`);
+  }
+
+  return chunksCreated;
+}
+
+/**
+ * Re-embed an existing property whose listing changed (or came back on the market)
+ * The item keeps its ID so custom extraction results stay attached
+ */
+async function updatePropertyItem(
+  supabase: SupabaseClient,
+  parentItem: KnowledgeBaseItem,
+  existing: ExistingProperty,
+  property: Record<string, unknown>,
+  embeddingText: string,
+  contentHash: string
+): Promise<number> {
+  // Embed first so the old chunks stay searchable if embedding fails
+  const chunksWithEmbeddings = await generateEmbeddingsWithRetry(
+    embeddingText,
+    parentItem.chunk_size || 512,
+    parentItem.chunk_overlap || 50
+  );
+
+  const { error: deleteError } = await supabase
+    .from("knowledge_base_documents")
+    .delete()
+    .eq("knowledge_base_item_id", existing.id);
+
+  if (deleteError) {
+    throw new Error(`Failed to delete old chunks: ${deleteError.message}`);
+  }
+
+  const { data: childItem, error: updateError } = await supabase
+    .from("knowledge_base_items")
+    .update({
+      name: property.title as string || `Property ${property.id}`,
+      url: property.url as string,
+      content_hash: contentHash,
+      metadata: property,
+      deleted_at: null,
+      status: "indexed",
+      sync_error: null,
+      last_synced_at: new Date().toISOString(),
+    })
+    .eq("id", existing.id)
+    .select()
+    .single();
+
+  if (updateError || !childItem) {
+    throw new Error(`Failed to update child item: ${updateError?.message || "Unknown error"}`);
+  }
+
+  return storeDocumentChunks(
+    supabase,
+    childItem as KnowledgeBaseItem,
+    chunksWithEmbeddings,
+    property
+  );
+}
+
+/**
+ * Refresh the stored listing JSON without re-embedding (searchable text unchanged)
+ */
+async function refreshPropertyMetadata(
+  supabase: SupabaseClient,
+  existing: ExistingProperty,
+  property: Record<string, unknown>,
+  contentHash: string
+): Promise<void> {
+  await supabase
+    .from("knowledge_base_items")
+    .update({ metadata: property, content_hash: contentHash })
+    .eq("id", existing.id);
+
+  await supabase
+    .from("knowledge_base_documents")
+    .update({ metadata: property })
+    .eq("knowledge_base_item_id", existing.id);
+}
+
+/**
+ * Update the parent agent's status
+ */
+async function updateAgentStatus(
+  supabase: SupabaseClient,
+  itemId: string,
+  status: "processing" | "indexed"
+): Promise<void> {
+  const updates: Record<string, unknown> = { status };
+
+  if (status === "indexed") {
+    updates.last_synced_at = new Date().toISOString();
+    updates.sync_error = null;
+  }
+
+  await supabase
+    .from("knowledge_base_items")
+    .update(updates)
+    .eq("id", itemId);
 }
 
 /**
@@ -426,63 +615,114 @@ export async function processRightmoveAgent(
     syncSchedule: config.syncSchedule,
   });
 
-  // Delete existing child properties
-  const deletedCount = await deleteExistingChildProperties(supabase, item.id);
-
-  // Fetch properties from Apify
-  const properties = await fetchPropertiesFromApify(config.rentUrl, config.saleUrl);
-
-  if (properties.length === 0) {
-    logger.warn("⚠️  No properties found from Apify");
-    const durationSec = (Date.now() - startTime) / 1000;
-    return {
-      success: true,
-      itemId: item.id,
-      type: item.type,
-      chunksCreated: 0,
-      durationSec,
-    };
+  await updateAgentStatus(supabase, item.id, "processing");
+
+  // Scrape before touching existing children so a failed scrape leaves them intact
+  const scraped = await fetchPropertiesFromApify(config.rentUrl, config.saleUrl);
+
+  // De-duplicate by Rightmove ID (a listing can appear in both rent and sale results)
+  const properties = new Map<string, Record<string, unknown>>();
+  for (const property of scraped) {
+    if (property.id === null || property.id === undefined) {
+      logger.warn("⚠️  Skipping property without a Rightmove ID", { url: property.url });
+      continue;
+    }
+    properties.set(String(property.id), { ...property, id: String(property.id) });
+  }
+
+  // An empty scrape is far more likely to be a scraper problem than every listing going at once,
+  // so existing listings are kept. Agents with no listings yet just sync nothing
+  const emptyScrape = properties.size === 0;
+  if (emptyScrape) {
+    logger.warn("⚠️  No properties returned from Rightmove - existing listings left unchanged");
   }
 
-  // Process each property
-  logger.info("🔄 Processing properties", { 
-    total: properties.length,
-    deletedOld: deletedCount 
+  const existing = await fetchExistingChildProperties(supabase, item.id);
+
+  const stats: PropertySyncStats = {
+    scraped: properties.size,
+    added: 0,
+    updated: 0,
+    unchanged: 0,
+    removed: 0,
+    priceChanged: 0,
+    failed: 0,
+  };
+
+  logger.info("🔄 Diffing properties", {
+    scraped: properties.size,
+    existing: existing.size,
   });
 
   let totalChunksCreated = 0;
-  let successCount = 0;
-  let failureCount = 0;
+  let index = 0;
+
+  for (const [propertyId, property] of properties) {
+    index++;
+    const current = existing.get(propertyId);
+    const embeddingText = generatePropertyText(property);
+    const contentHash = hashPropertyText(embeddingText);
 
-  for (let i = 0; i < properties.length; i++) {
     try {
-      const result = await createPropertyItem(
-        supabase,
-        item,
-        properties[i],
-        i,
-        properties.length
-      );
-      totalChunksCreated += result.chunksCreated;
-      successCount++;
+      if (!current) {
+        logger.info(`  ↳ New property ${index}/${properties.size}`, { propertyId });
+        totalChunksCreated += await createPropertyItem(supabase, item, property, embeddingText, contentHash);
+        stats.added++;
+        continue;
+      }
+
+      // Children created before content hashes existed: hash the stored listing instead
+      const previousHash = current.content_hash
+        ?? (current.metadata ? hashPropertyText(generatePropertyText(current.metadata)) : null);
+
+      // Created by a run whose embedding failed - its hash can't be trusted
+      const incomplete = current.status !== "indexed";
+
+      if (current.deleted_at || incomplete || previousHash !== contentHash) {
+        logger.info(`  ↳ ${current.deleted_at ? "Relisted" : incomplete ? "Incomplete" : "Changed"} property ${index}/${properties.size}`, { propertyId });
+        totalChunksCreated += await updatePropertyItem(supabase, item, current, property, embeddingText, contentHash);
+
+        if (current.deleted_at) {
+          stats.added++;
+        } else {
+          stats.updated++;
+        }
+      } else {
+        stats.unchanged++;
+        if (JSON.stringify(current.metadata) !== JSON.stringify(property) || !current.content_hash) {
+          await refreshPropertyMetadata(supabase, current, property, contentHash);
+        }
+      }
+
+      if (!current.deleted_at && getPropertyPrice(current.metadata) !== getPropertyPrice(property)) {
+        stats.priceChanged++;
+      }
     } catch (error) {
-      failureCount++;
+      stats.failed++;
       logger.error("❌ Failed to process property", {
-        propertyIndex: i + 1,
-        propertyId: properties[i].id,
+        propertyIndex: index,
+        propertyId,
         error: error instanceof Error ? error.message : String(error),
       });
       // Continue processing other properties
     }
   }
 
+  // Anything still listed in our DB but missing from the scrape has been taken off the market
+  const removedIds = emptyScrape ? [] : Array.from(existing.values())
+    .filter((child) => !child.deleted_at && child.external_id && !properties.has(child.external_id))
+    .map((child) => child.id);
+
+  await softDeleteProperties(supabase, removedIds);
+  stats.removed = removedIds.length;
+
+  await updateAgentStatus(supabase, item.id, "indexed");
+
   const durationSec = (Date.now() - startTime) / 1000;
   
-  logger.info("🎉 Rightmove Agent processing completed", {
+  logger.info("🎉 Rightmove Agent sync completed", {
     itemId: item.id,
-    propertiesProcessed: successCount,
-    propertiesFailed: failureCount,
-    totalProperties: properties.length,
+    ...stats,
     totalChunksCreated,
     durationSec: `${durationSec.toFixed(2)}s`,
   });
@@ -493,6 +733,6 @@ export async function processRightmoveAgent(
     type: item.type,
     chunksCreated: totalChunksCreated,
     durationSec,
+    stats: { ...stats },
   };
 }
-
@@ -13,6 +13,7 @@ export interface ProcessResult {
   type: string;
   chunksCreated: number;
   durationSec: number;
+  stats?: Record<string, number>; // Per-sync change counts (e.g. Rightmove added / removed listings)
 }
 
 /**
@@ -302,6 +303,16 @@ export async function processUrl(
     avgTokensPerChunk: avgTokens,
   });
 
+  // Replace chunks from a previous sync - done after embedding so the page stays searchable until then
+  const { error: deleteError } = await supabase
+    .from("knowledge_base_documents")
+    .delete()
+    .eq("knowledge_base_item_id", item.id);
+
+  if (deleteError) {
+    throw new Error(`Failed to clear existing documents: ${deleteError.message}`);
+  }
+
   // Store chunks in database (batched internally)
   const chunksCreated = await storeDocumentChunks(
     supabase,
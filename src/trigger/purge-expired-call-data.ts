@@ -0,0 +1,217 @@
+import { logger, schedules } from "@trigger.dev/sdk/v3";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import {
+  anonymizeCallers,
+  getRetentionDays,
+  purgeCallEvents,
+  purgeCallRecordings,
+  purgeCallTranscripts,
+  type PurgeableCall,
+} from "@/lib/retention";
+import type { RetentionDataType, RetentionPolicy, RetentionPolicyDays } from "@/types/retention";
+
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════╗
+ * ║                    PURGE EXPIRED CALL DATA                             ║
+ * ╚═══════════════════════════════════════════════════════════════════════╝
+ *
+ * Applies each organization's retention policy to its calls.
+ *
+ * SCHEDULING:
+ * ===========
+ * - Runs daily at 03:00 UTC
+ * - Works through at most MAX_CALLS_PER_RUN calls per organization and data
+ *   type, oldest first - a large backlog is cleared over several days
+ *
+ * WHAT'S REMOVED:
+ * ===============
+ * - recordings: call recordings and voicemail audio from call-recordings
+ * - transcripts: calls.transcript, the events that carry what was said and
+ *   the transcript's redacted original
+ * - events: every agent_events row for the call
+ * - caller_details: the caller's number and context variables are
+ *   anonymized - the call row itself stays for analytics
+ *
+ * Age is measured from calls.created_at. Calls on legal hold are skipped,
+ * and the *_purged_at / caller_anonymized_at columns stop a call being
+ * picked up again.
+ *
+ * AUDIT:
+ * ======
+ * - One retention_audit_log row per organization and data type, listing
+ *   the calls and how many objects / events were removed
+ */
+
+const BATCH_SIZE = 100;
+const MAX_CALLS_PER_RUN = 2000;
+
+/**
+ * Create Supabase client for Trigger.dev tasks
+ */
+function createSupabaseClient(): SupabaseClient {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error("Missing Supabase environment variables");
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  });
+}
+
+interface PurgeStep {
+  dataType: RetentionDataType;
+  daysColumn: keyof RetentionPolicyDays;
+  doneColumn: string; // Set once the data is gone, so the call isn't picked up again
+  purge: (supabase: SupabaseClient, calls: PurgeableCall[]) => Promise<number>;
+}
+
+const PURGE_STEPS: PurgeStep[] = [
+  {
+    dataType: "recordings",
+    daysColumn: "recording_days",
+    doneColumn: "recording_purged_at",
+    purge: purgeCallRecordings,
+  },
+  {
+    dataType: "transcripts",
+    daysColumn: "transcript_days",
+    doneColumn: "transcript_purged_at",
+    purge: (supabase, calls) => purgeCallTranscripts(supabase, calls.map((call) => call.id)),
+  },
+  {
+    dataType: "events",
+    daysColumn: "event_days",
+    doneColumn: "events_purged_at",
+    purge: (supabase, calls) => purgeCallEvents(supabase, calls.map((call) => call.id)),
+  },
+  {
+    dataType: "caller_details",
+    daysColumn: "caller_details_days",
+    doneColumn: "caller_anonymized_at",
+    purge: (supabase, calls) => anonymizeCallers(supabase, calls.map((call) => call.id)),
+  },
+];
+
+/**
+ * Run one purge step for an organization and record what it removed
+ */
+async function runPurgeStep(
+  supabase: SupabaseClient,
+  policy: RetentionPolicy,
+  step: PurgeStep,
+  now: Date,
+  runId: string
+): Promise<number> {
+  const days = getRetentionDays(policy, step.daysColumn);
+  if (!days) return 0;
+
+  const cutoff = new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+  const callIds: string[] = [];
+  let itemCount = 0;
+
+  try {
+    while (callIds.length < MAX_CALLS_PER_RUN) {
+      // Purged calls drop out of this query, so each batch starts from the top
+      const { data: calls, error } = await supabase
+        .from("calls")
+        .select("id, organization_id, livekit_room_name")
+        .eq("organization_id", policy.organization_id)
+        .eq("legal_hold", false)
+        .is(step.doneColumn, null)
+        .lt("created_at", cutoff)
+        .order("created_at", { ascending: true })
+        .limit(BATCH_SIZE);
+
+      if (error) {
+        throw error;
+      }
+
+      if (!calls || calls.length === 0) break;
+
+      itemCount += await step.purge(supabase, calls as PurgeableCall[]);
+      callIds.push(...calls.map((call) => call.id));
+
+      if (calls.length < BATCH_SIZE) break;
+    }
+  } finally {
+    // Record what was removed even when a later batch fails
+    if (callIds.length > 0) {
+      const { error: auditError } = await supabase
+        .from("retention_audit_log")
+        .insert({
+          organization_id: policy.organization_id,
+          data_type: step.dataType,
+          cutoff,
+          call_count: callIds.length,
+          call_ids: callIds,
+          item_count: itemCount,
+          trigger_run_id: runId,
+        });
+
+      if (auditError) {
+        logger.error("❌ Failed to write retention audit record", {
+          organizationId: policy.organization_id,
+          dataType: step.dataType,
+          callCount: callIds.length,
+          error: auditError.message,
+        });
+      }
+    }
+  }
+
+  return callIds.length;
+}
+
+export const purgeExpiredCallData = schedules.task({
+  id: "purge-expired-call-data",
+  cron: "0 3 * * *",
+  machine: "small-1x",
+  maxDuration: 1800,
+  run: async (payload, { ctx }) => {
+    const supabase = createSupabaseClient();
+    const now = payload.timestamp;
+
+    const { data, error } = await supabase
+      .from("retention_policies")
+      .select("*")
+      .eq("enabled", true);
+
+    if (error) {
+      logger.error("❌ Failed to fetch retention policies", { error: error.message });
+      throw error;
+    }
+
+    const policies = (data || []) as RetentionPolicy[];
+    const purged: Record<RetentionDataType, number> = {
+      recordings: 0,
+      transcripts: 0,
+      events: 0,
+      caller_details: 0,
+    };
+
+    for (const policy of policies) {
+      for (const step of PURGE_STEPS) {
+        try {
+          purged[step.dataType] += await runPurgeStep(supabase, policy, step, now, ctx.run.id);
+        } catch (stepError) {
+          // One failing organization / step shouldn't hold up the others
+          logger.error("❌ Error purging expired call data", {
+            organizationId: policy.organization_id,
+            dataType: step.dataType,
+            error: stepError instanceof Error ? stepError.message : String(stepError),
+          });
+        }
+      }
+    }
+
+    logger.info("🧹 Purged expired call data", { organizations: policies.length, calls: purged });
+
+    return { organizations: policies.length, calls: purged };
+  },
+});
@@ -0,0 +1,215 @@
+import { logger, schemaTask } from "@trigger.dev/sdk/v3";
+import z from "zod";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { encryptOriginalFile, getOriginalRecordingPath } from "@/lib/redaction";
+import type { BleepSpan, RedactionSummary } from "@/types/redaction";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════╗
+ * ║                      RECORDING REDACTION                               ║
+ * ╚═══════════════════════════════════════════════════════════════════════╝
+ *
+ * Bleeps the spans of a call recording where the agent said something the
+ * organization's redaction policy matched (a card number read back, an
+ * email address spelled out, ...).
+ *
+ * STEPS:
+ * ======
+ * 1. Read the bleep spans redactCall stored on calls.redaction
+ * 2. Download the recording (organization_id/livekit_room_name.mp4) from the
+ *    call-recordings bucket
+ * 3. Keep the original, AES-256-GCM encrypted with PII_ENCRYPTION_KEY, at
+ *    organization_id/redaction-originals/livekit_room_name.mp4.enc - the
+ *    reveal roles can play it back like the text originals
+ * 4. Silence each span and mix in a 1kHz tone with ffmpeg
+ * 5. Replace the stored recording and set calls.recording_redacted_at
+ *
+ * Spans come from speech_created word timings, so only the agent's speech
+ * is bleeped - the worker doesn't send word timings for the caller.
+ *
+ * Queued by lib/redaction.ts a minute after session_complete, keyed on the
+ * call, so the recording egress has time to finish uploading.
+ *
+ * RETRY STRATEGY:
+ * ===============
+ * - 5 attempts with a long backoff, mostly for recordings that haven't been
+ *   uploaded yet
+ */
+
+const BLEEP_FREQUENCY_HZ = 1000;
+const BLEEP_VOLUME = 0.3;
+
+/**
+ * Create Supabase client for Trigger.dev tasks
+ */
+function createSupabaseClient(): SupabaseClient {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error("Missing Supabase environment variables");
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  });
+}
+
+/**
+ * ffmpeg audio filter that mutes the spans and plays a tone over them
+ */
+function buildBleepFilter(spans: BleepSpan[]): string {
+  const inSpan = spans
+    .map((span) => `between(t,${(span.startMs / 1000).toFixed(3)},${(span.endMs / 1000).toFixed(3)})`)
+    .join("+");
+
+  return [
+    `[0:a]volume=0:enable='${inSpan}'[muted]`,
+    `sine=frequency=${BLEEP_FREQUENCY_HZ}:sample_rate=48000,volume=${BLEEP_VOLUME},volume=0:enable='not(${inSpan})'[tone]`,
+    `[muted][tone]amix=inputs=2:duration=first:normalize=0[audio]`,
+  ].join(";");
+}
+
+/**
+ * Store the encrypted original before the recording is overwritten
+ * A retry after the bleeped copy was uploaded finds the original already kept
+ * and leaves it, so the bleeped copy never replaces it
+ */
+async function keepOriginalRecording(supabase: SupabaseClient, originalPath: string, recording: Blob): Promise<void> {
+  const { data: alreadyKept } = await supabase.storage.from("call-recordings").exists(originalPath);
+  if (alreadyKept) {
+    return;
+  }
+
+  const encrypted = encryptOriginalFile(new Uint8Array(await recording.arrayBuffer()));
+  if (!encrypted) {
+    // Same as text originals - still redacted, but the original is lost
+    logger.warn("⚠️ PII_ENCRYPTION_KEY not configured - original recording not kept", { originalPath });
+    return;
+  }
+
+  const { error } = await supabase.storage
+    .from("call-recordings")
+    .upload(originalPath, encrypted, { contentType: "application/octet-stream", upsert: false });
+
+  if (error) {
+    throw new Error(`Failed to keep original recording: ${error.message}`);
+  }
+
+  logger.info("🔐 Original recording kept", { originalPath, bytes: encrypted.byteLength });
+}
+
+/**
+ * Main task: Bleep redacted words in a call recording
+ */
+export const redactRecording = schemaTask({
+  id: "redact-recording",
+  schema: z.object({
+    callId: z.string().uuid(),
+  }),
+  machine: {
+    preset: "small-1x",
+  },
+  maxDuration: 600,
+  retry: {
+    maxAttempts: 5,
+    factor: 2,
+    minTimeoutInMs: 30_000,
+    maxTimeoutInMs: 300_000,
+    randomize: true,
+  },
+  run: async (payload, { ctx }) => {
+    const { callId } = payload;
+
+    logger.info("🔇 Redacting call recording", { callId, attemptNumber: ctx.attempt.number });
+
+    const supabase = createSupabaseClient();
+
+    const { data: call, error: callError } = await supabase
+      .from("calls")
+      .select("id, organization_id, livekit_room_name, redaction, recording_redacted_at")
+      .eq("id", callId)
+      .single();
+
+    if (callError || !call) {
+      throw new Error(`Failed to fetch call: ${callError?.message || "Not found"}`);
+    }
+
+    const spans = (call.redaction as RedactionSummary | null)?.bleepSpans || [];
+
+    if (call.recording_redacted_at || spans.length === 0 || !call.livekit_room_name) {
+      logger.info("⏭️ Nothing to bleep", {
+        callId,
+        alreadyRedacted: !!call.recording_redacted_at,
+        spans: spans.length,
+      });
+      return { success: true, bleeped: 0 };
+    }
+
+    const storagePath = `${call.organization_id}/${call.livekit_room_name}.mp4`;
+
+    const { data: recording, error: downloadError } = await supabase.storage
+      .from("call-recordings")
+      .download(storagePath);
+
+    if (downloadError || !recording) {
+      throw new Error(`Recording not available yet (${storagePath}): ${downloadError?.message || "Not found"}`);
+    }
+
+    await keepOriginalRecording(
+      supabase,
+      getOriginalRecordingPath(call.organization_id, call.livekit_room_name),
+      recording
+    );
+
+    const workDir = await mkdtemp(join(tmpdir(), "redact-recording-"));
+    const inputPath = join(workDir, "input.mp4");
+    const outputPath = join(workDir, "output.mp4");
+
+    try {
+      await writeFile(inputPath, Buffer.from(await recording.arrayBuffer()));
+
+      await execFileAsync(process.env.FFMPEG_PATH || "ffmpeg", [
+        "-y",
+        "-i", inputPath,
+        "-filter_complex", buildBleepFilter(spans),
+        "-map", "0:v?",
+        "-map", "[audio]",
+        "-c:v", "copy",
+        "-c:a", "aac",
+        outputPath,
+      ]);
+
+      const redacted = await readFile(outputPath);
+
+      const { error: uploadError } = await supabase.storage
+        .from("call-recordings")
+        .upload(storagePath, redacted, { contentType: "video/mp4", upsert: true });
+
+      if (uploadError) {
+        throw new Error(`Failed to store redacted recording: ${uploadError.message}`);
+      }
+
+      logger.info("✅ Recording redacted", { callId, storagePath, spans: spans.length, bytes: redacted.byteLength });
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+    }
+
+    await supabase
+      .from("calls")
+      .update({ recording_redacted_at: new Date().toISOString() })
+      .eq("id", callId);
+
+    return { success: true, bleeped: spans.length };
+  },
+});
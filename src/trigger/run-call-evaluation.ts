@@ -0,0 +1,419 @@
+import { logger, schemaTask } from "@trigger.dev/sdk/v3";
+import z from "zod";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import type { TranscriptItem } from "@/types/call-events";
+import type {
+  Evaluation,
+  EvaluationModelProvider,
+  EvaluationOutputSchema,
+  EvaluationSchemaProperty,
+} from "@/types/evaluations";
+import { generateText } from "ai";
+import { createOpenAI } from "@ai-sdk/openai";
+
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════╗
+ * ║                 CALL EVALUATION EXECUTION ENGINE                       ║
+ * ╚═══════════════════════════════════════════════════════════════════════╝
+ *
+ * Runs a single evaluation (prompt + model + output schema) against the
+ * transcript of a completed call and stores the structured output.
+ *
+ * ARCHITECTURE:
+ * =============
+ * - Triggered once per (call, evaluation) from the agent calls route when
+ *   the transcript lands (see app/api/agents/[id]/calls/route.ts)
+ * - The route creates a 'pending' call_evaluation_results row up front
+ * - This task marks the row 'running', calls the model through OpenRouter,
+ *   validates the JSON output against evaluations.output_schema and stores it
+ *
+ * MODEL RESOLUTION:
+ * =================
+ * - Evaluations store a provider + model name (e.g. openai / gpt-4o)
+ * - These are mapped onto OpenRouter model IDs (e.g. openai/gpt-4o)
+ * - custom-llm model names are passed through as OpenRouter IDs
+ *
+ * RETRY STRATEGY:
+ * ===============
+ * - 3 task-level retries with exponential backoff
+ * - Schema validation failures are retried (the model may comply next time)
+ * - Row only marked 'failed' on the final attempt
+ * - onFailure also marks it 'failed', for runs that end without reaching the
+ *   catch block (e.g. killed at maxDuration), so rows never stay 'running'
+ */
+
+const MAX_ATTEMPTS = 3;
+
+/**
+ * Create Supabase client for Trigger.dev tasks
+ */
+function createSupabaseClient(): SupabaseClient {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error("Missing Supabase environment variables");
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  });
+}
+
+/**
+ * Map an evaluation's provider + model name onto an OpenRouter model ID
+ *
+ * Anthropic model names are stored with their release date
+ * (claude-3-5-sonnet-20241022) whereas OpenRouter uses dotted versions
+ * without the date (anthropic/claude-3.5-sonnet)
+ */
+function resolveOpenRouterModel(provider: EvaluationModelProvider, modelName: string): string {
+  if (provider === "custom-llm" || modelName.includes("/")) {
+    return modelName;
+  }
+
+  if (provider === "anthropic") {
+    const normalized = modelName
+      .replace(/-\d{8}$/, "")
+      .replace(/^claude-(\d)-(\d)-/, "claude-$1.$2-");
+    return `anthropic/${normalized}`;
+  }
+
+  return `${provider}/${modelName}`;
+}
+
+/**
+ * Render the stored transcript as plain text for the model
+ */
+function formatTranscript(items: TranscriptItem[]): string {
+  return items
+    .map((item) => {
+      if (item.type === "message" && item.content) {
+        const speaker = item.role === "user" ? "Caller" : item.role === "assistant" ? "Agent" : "System";
+        return `${speaker}: ${item.content}`;
+      }
+      if (item.type === "function_call") {
+        return `[Tool call: ${item.name}(${JSON.stringify(item.args ?? {})})]`;
+      }
+      if (item.type === "function_call_output") {
+        const output = typeof item.output === "string" ? item.output : JSON.stringify(item.output);
+        return `[Tool result${item.isError ? " (error)" : ""}: ${output}]`;
+      }
+      return null;
+    })
+    .filter((line): line is string => line !== null)
+    .join("\n");
+}
+
+/**
+ * Validate a value against the subset of JSON Schema produced by the SchemaBuilder
+ *
+ * @returns List of human-readable validation errors (empty when valid)
+ */
+function validateAgainstSchema(
+  value: unknown,
+  schema: EvaluationSchemaProperty | EvaluationOutputSchema,
+  path = "$"
+): string[] {
+  const errors: string[] = [];
+
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string") errors.push(`${path} should be a string`);
+      break;
+    case "number":
+      if (typeof value !== "number" || Number.isNaN(value)) errors.push(`${path} should be a number`);
+      break;
+    case "integer":
+      if (typeof value !== "number" || !Number.isInteger(value)) errors.push(`${path} should be an integer`);
+      break;
+    case "boolean":
+      if (typeof value !== "boolean") errors.push(`${path} should be a boolean`);
+      break;
+    case "array":
+      if (!Array.isArray(value)) {
+        errors.push(`${path} should be an array`);
+      } else if (schema.items) {
+        value.forEach((entry, index) => {
+          errors.push(...validateAgainstSchema(entry, schema.items!, `${path}[${index}]`));
+        });
+      }
+      break;
+    case "object": {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        errors.push(`${path} should be an object`);
+        break;
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required ?? []) {
+        if (record[key] === undefined || record[key] === null) {
+          errors.push(`${path}.${key} is required`);
+        }
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+        if (record[key] !== undefined && record[key] !== null) {
+          errors.push(...validateAgainstSchema(record[key], propertySchema, `${path}.${key}`));
+        }
+      }
+      break;
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Parse the JSON object out of a model response (handles ```json fences)
+ */
+function parseModelOutput(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  const candidate = fenced ? fenced[1] : text.trim();
+
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    // Fall back to the outermost braces if the model wrapped the JSON in prose
+    const start = candidate.indexOf("{");
+    const end = candidate.lastIndexOf("}");
+    if (start !== -1 && end > start) {
+      return JSON.parse(candidate.slice(start, end + 1));
+    }
+    throw new Error("Model response did not contain valid JSON");
+  }
+}
+
+/**
+ * Run the evaluation prompt against the transcript
+ */
+async function runEvaluationWithAI(
+  evaluation: Evaluation,
+  model: string,
+  transcript: string
+): Promise<Record<string, unknown>> {
+  if (!process.env.OPENROUTER_API_KEY) {
+    throw new Error("OPENROUTER_API_KEY environment variable is not set");
+  }
+
+  // Create OpenAI-compatible provider with OpenRouter base URL
+  const openrouter = createOpenAI({
+    apiKey: process.env.OPENROUTER_API_KEY,
+    baseURL: "https://openrouter.ai/api/v1",
+  });
+
+  const systemPrompt = `You are evaluating a phone call between an AI voice agent and a caller.
+
+Follow the evaluation instructions exactly and respond with a single JSON object
+that conforms to this JSON schema:
+
+${JSON.stringify(evaluation.output_schema, null, 2)}
+
+Rules:
+- Return ONLY the JSON object, no explanations
+- Include every required property
+- Use the exact property names and types from the schema`;
+
+  const userPrompt = `${evaluation.prompt}
+
+Call transcript:
+${transcript}
+
+Return only the JSON object.`;
+
+  logger.info("🤖 Calling AI for evaluation", {
+    model,
+    evaluationId: evaluation.id,
+    transcriptLength: transcript.length,
+  });
+
+  const { text } = await generateText({
+    model: openrouter(model),
+    messages: [
+      {
+        role: "system",
+        content: systemPrompt,
+      },
+      {
+        role: "user",
+        content: userPrompt,
+      },
+    ],
+  });
+
+  logger.info("✅ Received AI response", { responseLength: text.length });
+
+  const output = parseModelOutput(text);
+  const validationErrors = validateAgainstSchema(output, evaluation.output_schema);
+
+  if (validationErrors.length > 0) {
+    logger.warn("⚠️ Evaluation output does not match schema", {
+      validationErrors,
+      response: text.slice(0, 500),
+    });
+    throw new Error(`Output does not match schema: ${validationErrors.join("; ")}`);
+  }
+
+  return output as Record<string, unknown>;
+}
+
+/**
+ * Update the call_evaluation_results row for this run
+ */
+async function updateEvaluationResult(
+  supabase: SupabaseClient,
+  callId: string,
+  evaluationId: string,
+  updates: Record<string, unknown>
+): Promise<void> {
+  const { error } = await supabase
+    .from("call_evaluation_results")
+    .update(updates)
+    .eq("call_id", callId)
+    .eq("evaluation_id", evaluationId);
+
+  if (error) {
+    logger.error("Failed to update evaluation result", { error, callId, evaluationId });
+    throw error;
+  }
+}
+
+/**
+ * Main task: Run one evaluation against a call transcript
+ */
+export const runCallEvaluation = schemaTask({
+  id: "run-call-evaluation",
+  schema: z.object({
+    callId: z.string().uuid(),
+    evaluationId: z.string().uuid(),
+  }),
+  machine: {
+    preset: "small-1x",
+  },
+  queue: {
+    concurrencyLimit: 10,
+  },
+  maxDuration: 120, // Hard timeout after 2 minutes
+  retry: {
+    maxAttempts: MAX_ATTEMPTS,
+    factor: 2,
+    minTimeoutInMs: 2_000,
+    maxTimeoutInMs: 30_000,
+    randomize: true,
+  },
+  run: async (payload, { ctx }) => {
+    const { callId, evaluationId } = payload;
+
+    logger.info("🚀 Starting call evaluation", {
+      callId,
+      evaluationId,
+      attemptNumber: ctx.attempt.number,
+    });
+
+    const supabase = createSupabaseClient();
+    const isFinalAttempt = ctx.attempt.number >= MAX_ATTEMPTS;
+
+    try {
+      const { data: evaluation, error: evaluationError } = await supabase
+        .from("evaluations")
+        .select("*")
+        .eq("id", evaluationId)
+        .single();
+
+      if (evaluationError || !evaluation) {
+        throw new Error(`Failed to fetch evaluation: ${evaluationError?.message || "Not found"}`);
+      }
+
+      const model = resolveOpenRouterModel(evaluation.model_provider, evaluation.model_name);
+
+      await updateEvaluationResult(supabase, callId, evaluationId, {
+        status: "running",
+        attempts: ctx.attempt.number,
+        model,
+        started_at: new Date().toISOString(),
+      });
+
+      const { data: call, error: callError } = await supabase
+        .from("calls")
+        .select("id, transcript")
+        .eq("id", callId)
+        .single();
+
+      if (callError || !call) {
+        throw new Error(`Failed to fetch call: ${callError?.message || "Not found"}`);
+      }
+
+      const transcript = formatTranscript((call.transcript || []) as TranscriptItem[]);
+
+      if (!transcript) {
+        throw new Error("Call has no transcript to evaluate");
+      }
+
+      const result = await runEvaluationWithAI(evaluation as Evaluation, model, transcript);
+
+      await updateEvaluationResult(supabase, callId, evaluationId, {
+        status: "completed",
+        result,
+        error_message: null,
+        completed_at: new Date().toISOString(),
+      });
+
+      logger.info("✅ Call evaluation completed", { callId, evaluationId });
+
+      return {
+        success: true,
+        callId,
+        evaluationId,
+        result,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+
+      logger.error("❌ Call evaluation failed", {
+        error,
+        callId,
+        evaluationId,
+        attemptNumber: ctx.attempt.number,
+        isFinalAttempt,
+      });
+
+      // Keep the latest error visible, but only mark failed on the final attempt
+      try {
+        await updateEvaluationResult(supabase, callId, evaluationId, {
+          error_message: errorMessage,
+          ...(isFinalAttempt && {
+            status: "failed",
+            completed_at: new Date().toISOString(),
+          }),
+        });
+      } catch (storeError) {
+        logger.error("Failed to store evaluation failure", { storeError });
+      }
+
+      throw error;
+    }
+  },
+  onFailure: async ({ payload, error }) => {
+    const supabase = createSupabaseClient();
+
+    const { error: updateError } = await supabase
+      .from("call_evaluation_results")
+      .update({
+        status: "failed",
+        error_message: error instanceof Error ? error.message : "Evaluation run failed",
+        completed_at: new Date().toISOString(),
+      })
+      .eq("call_id", payload.callId)
+      .eq("evaluation_id", payload.evaluationId)
+      .in("status", ["pending", "running"]);
+
+    if (updateError) {
+      logger.error("Failed to mark evaluation result as failed", {
+        error: updateError,
+        callId: payload.callId,
+        evaluationId: payload.evaluationId,
+      });
+    }
+  },
+});
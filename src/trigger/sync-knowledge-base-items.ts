@@ -0,0 +1,139 @@
+import { logger, schedules, tasks } from "@trigger.dev/sdk/v3";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { SCHEDULABLE_ITEM_TYPES } from "@/lib/knowledge-base/sync-schedule";
+import type { processItem } from "./process-items";
+
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════╗
+ * ║           SCHEDULED RE-SYNC OF KNOWLEDGE BASE ITEMS                    ║
+ * ╚═══════════════════════════════════════════════════════════════════════╝
+ *
+ * Re-runs process-item for rightmove_agent and url items whose next_sync_at
+ * has passed, so listings and web pages don't go stale.
+ *
+ * SCHEDULING:
+ * ===========
+ * - Runs every 15 minutes
+ * - next_sync_at is set by process-item after every run, from the item's
+ *   metadata.syncSchedule ('daily' | 'weekly' | 'never')
+ * - Due items are claimed by clearing next_sync_at before triggering, so an
+ *   overlapping tick can't queue the same item twice
+ *
+ * LOAD SPREADING:
+ * ===============
+ * - Jitter: each run is delayed by a random 0-10 minutes so items created
+ *   together don't all hit Apify / Firecrawl at the same moment
+ * - Per-organization concurrency: runs use the organization ID as their
+ *   concurrencyKey, so each organization gets its own copy of the
+ *   process-item queue and one large account can't starve the others
+ * - At most MAX_ITEMS_PER_TICK items are queued per tick; the rest are
+ *   picked up on the next tick
+ */
+
+const MAX_ITEMS_PER_TICK = 200;
+const MAX_JITTER_SECONDS = 600;
+
+/**
+ * Create Supabase client for Trigger.dev tasks
+ */
+function createSupabaseClient(): SupabaseClient {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error("Missing Supabase environment variables");
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  });
+}
+
+interface DueItem {
+  id: string;
+  next_sync_at: string;
+  knowledge_bases: { organization_id: string } | null;
+}
+
+export const syncKnowledgeBaseItems = schedules.task({
+  id: "sync-knowledge-base-items",
+  cron: "*/15 * * * *",
+  machine: "small-1x",
+  maxDuration: 300,
+  run: async (payload) => {
+    const supabase = createSupabaseClient();
+
+    // Skip items that are already pending / processing (e.g. a manual re-sync in flight)
+    const { data, error } = await supabase
+      .from("knowledge_base_items")
+      .select("id, next_sync_at, knowledge_bases!inner(organization_id)")
+      .in("type", SCHEDULABLE_ITEM_TYPES)
+      .in("status", ["indexed", "failed"])
+      .is("parent_item_id", null)
+      .is("deleted_at", null)
+      .lte("next_sync_at", payload.timestamp.toISOString())
+      .order("next_sync_at", { ascending: true })
+      .limit(MAX_ITEMS_PER_TICK);
+
+    if (error) {
+      logger.error("❌ Failed to fetch items due for sync", { error: error.message });
+      throw error;
+    }
+
+    const dueItems = (data || []) as unknown as DueItem[];
+
+    if (dueItems.length === 0) {
+      logger.info("✅ No items due for sync");
+      return { queued: 0 };
+    }
+
+    // Claim the items so the next tick doesn't queue them again
+    const { error: claimError } = await supabase
+      .from("knowledge_base_items")
+      .update({ next_sync_at: null })
+      .in("id", dueItems.map((item) => item.id));
+
+    if (claimError) {
+      logger.error("❌ Failed to claim items for sync", { error: claimError.message });
+      throw claimError;
+    }
+
+    try {
+      await tasks.batchTrigger<typeof processItem>(
+        "process-item",
+        dueItems.map((item) => ({
+          payload: {
+            knowledgeBaseItemId: item.id,
+            trigger: "scheduled" as const,
+          },
+          options: {
+            delay: `${Math.floor(Math.random() * MAX_JITTER_SECONDS)}s`,
+            concurrencyKey: item.knowledge_bases?.organization_id,
+            idempotencyKey: `kb-sync-${item.id}-${item.next_sync_at}`,
+          },
+        }))
+      );
+    } catch (triggerError) {
+      // Put the items back on their schedule so the next tick retries them
+      for (const item of dueItems) {
+        await supabase
+          .from("knowledge_base_items")
+          .update({ next_sync_at: item.next_sync_at })
+          .eq("id", item.id);
+      }
+      throw triggerError;
+    }
+
+    const organizations = new Set(dueItems.map((item) => item.knowledge_bases?.organization_id));
+
+    logger.info("🔄 Queued scheduled syncs", {
+      queued: dueItems.length,
+      organizations: organizations.size,
+    });
+
+    return { queued: dueItems.length };
+  },
+});
@@ -0,0 +1,26 @@
+-- ============================================
+-- Timezone-Aware Routing Rules
+-- ============================================
+-- Adds a timezone and holiday calendars to the default agent rules
+-- Schedules are now evaluated in the agent's timezone instead of the server's
+-- ============================================
+
+ALTER TABLE agents ALTER COLUMN rules SET DEFAULT '{
+    "timezone": "Europe/London",
+    "timeBasedRouting": {
+      "enabled": false,
+      "schedules": []
+    },
+    "agentFallback": {
+      "enabled": false,
+      "timeoutSeconds": 30
+    },
+    "holidayCalendars": []
+  }'::jsonb;
+
+-- Existing agents were evaluated in server time; pin them to the default timezone
+UPDATE agents
+SET rules = jsonb_set(rules, '{timezone}', '"Europe/London"'::jsonb)
+WHERE rules IS NOT NULL AND NOT (rules ? 'timezone');
+
+COMMENT ON COLUMN agents.rules IS 'Call routing rules including timezone, time-based routing, holiday calendars and agent fallback settings';
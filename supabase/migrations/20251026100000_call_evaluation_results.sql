@@ -0,0 +1,49 @@
+-- ============================================
+-- Call Evaluation Results Migration
+-- ============================================
+-- Stores the output of each evaluation assigned to an agent, run against
+-- the call transcript once the call completes.
+-- One row per (call, evaluation); the run-call-evaluation task updates the
+-- row as it moves through pending -> running -> completed / failed
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.call_evaluation_results (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    call_id UUID NOT NULL REFERENCES calls(id) ON DELETE CASCADE,
+    evaluation_id UUID NOT NULL REFERENCES evaluations(id) ON DELETE CASCADE,
+    agent_id UUID REFERENCES agents(id) ON DELETE SET NULL,
+    organization_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+    result JSONB,
+    error_message TEXT,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    model VARCHAR(150),
+    started_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+
+    -- Each evaluation runs at most once per call
+    UNIQUE(call_id, evaluation_id)
+);
+
+-- Create indexes for efficient lookups
+CREATE INDEX IF NOT EXISTS idx_call_evaluation_results_call_id ON public.call_evaluation_results(call_id);
+CREATE INDEX IF NOT EXISTS idx_call_evaluation_results_evaluation_id ON public.call_evaluation_results(evaluation_id);
+CREATE INDEX IF NOT EXISTS idx_call_evaluation_results_organization_id ON public.call_evaluation_results(organization_id);
+CREATE INDEX IF NOT EXISTS idx_call_evaluation_results_status ON public.call_evaluation_results(status);
+
+-- Create trigger for updated_at
+DROP TRIGGER IF EXISTS update_call_evaluation_results_updated_at ON public.call_evaluation_results;
+CREATE TRIGGER update_call_evaluation_results_updated_at
+    BEFORE UPDATE ON public.call_evaluation_results
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE public.call_evaluation_results IS 'Structured output of evaluations run against completed call transcripts';
+COMMENT ON COLUMN public.call_evaluation_results.status IS 'Run status: pending, running, completed, or failed';
+COMMENT ON COLUMN public.call_evaluation_results.result IS 'Evaluation output, validated against evaluations.output_schema';
+COMMENT ON COLUMN public.call_evaluation_results.error_message IS 'Last error encountered (model failure or schema validation error)';
+COMMENT ON COLUMN public.call_evaluation_results.attempts IS 'Number of task attempts made for this evaluation';
+COMMENT ON COLUMN public.call_evaluation_results.model IS 'OpenRouter model ID the evaluation was run with';
@@ -0,0 +1,55 @@
+-- ============================================
+-- Knowledge Base Vector Search
+-- ============================================
+-- Adds search_knowledge_base_documents, used by the agent retrieve endpoint
+-- now that retrieval runs on knowledge_base_documents instead of Ragie.
+-- Unlike match_knowledge_base_documents it:
+--   - orders purely by cosine distance so the HNSW index is used
+--   - widens hnsw.ef_search so filtering by knowledge base still fills match_count
+--   - returns page/section information for citing sources
+-- ============================================
+
+CREATE OR REPLACE FUNCTION search_knowledge_base_documents(
+    query_embedding vector(1024),
+    kb_ids UUID[],
+    match_count int DEFAULT 3,
+    match_threshold float DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    knowledge_base_id UUID,
+    knowledge_base_item_id UUID,
+    content TEXT,
+    similarity float,
+    chunk_index INTEGER,
+    page_number INTEGER,
+    section_title TEXT,
+    metadata JSONB
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    -- HNSW filters after the index scan, so look at more candidates than we return
+    PERFORM set_config('hnsw.ef_search', GREATEST(match_count * 10, 100)::text, true);
+
+    RETURN QUERY
+    SELECT
+        d.id,
+        d.knowledge_base_id,
+        d.knowledge_base_item_id,
+        d.content,
+        1 - (d.embedding <=> query_embedding) AS similarity,
+        d.chunk_index,
+        d.page_number,
+        d.section_title,
+        d.metadata
+    FROM knowledge_base_documents d
+    WHERE d.knowledge_base_id = ANY(kb_ids)
+        AND d.embedding IS NOT NULL
+        AND 1 - (d.embedding <=> query_embedding) > match_threshold
+    ORDER BY d.embedding <=> query_embedding
+    LIMIT match_count;
+END;
+$$;
+
+COMMENT ON FUNCTION search_knowledge_base_documents(vector(1024), UUID[], int, float) IS 'HNSW cosine similarity search over knowledge_base_documents restricted to the given knowledge bases. Used by the agent retrieve endpoint.';
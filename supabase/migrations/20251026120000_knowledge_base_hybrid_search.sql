@@ -0,0 +1,68 @@
+-- ============================================
+-- Knowledge Base Hybrid Search
+-- ============================================
+-- Adds full-text search over the contextualized chunk text in
+-- knowledge_base_documents so retrieval can fuse keyword (BM25-style)
+-- and vector results with reciprocal rank fusion.
+-- Fusion and optional reranking happen in lib/knowledge-base/retrieval.ts
+-- ============================================
+
+-- Generated tsvector over the stored (contextualized) chunk content
+ALTER TABLE public.knowledge_base_documents
+ADD COLUMN IF NOT EXISTS content_tsv tsvector
+GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_kb_documents_content_tsv ON public.knowledge_base_documents
+USING gin (content_tsv);
+
+-- Keyword search across multiple knowledge bases
+-- Terms are OR-ed so natural-language questions still match partially;
+-- ts_rank_cd with normalization 1 divides by document length like BM25
+CREATE OR REPLACE FUNCTION search_knowledge_base_documents_text(
+    query_text TEXT,
+    kb_ids UUID[],
+    match_count int DEFAULT 20
+)
+RETURNS TABLE (
+    id UUID,
+    knowledge_base_id UUID,
+    knowledge_base_item_id UUID,
+    content TEXT,
+    rank float,
+    chunk_index INTEGER,
+    page_number INTEGER,
+    section_title TEXT,
+    metadata JSONB
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    ts_query tsquery;
+BEGIN
+    ts_query := replace(plainto_tsquery('english', query_text)::text, '&', '|')::tsquery;
+
+    IF ts_query IS NULL OR numnode(ts_query) = 0 THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        d.id,
+        d.knowledge_base_id,
+        d.knowledge_base_item_id,
+        d.content,
+        ts_rank_cd(d.content_tsv, ts_query, 1)::float AS rank,
+        d.chunk_index,
+        d.page_number,
+        d.section_title,
+        d.metadata
+    FROM knowledge_base_documents d
+    WHERE d.knowledge_base_id = ANY(kb_ids)
+        AND d.content_tsv @@ ts_query
+    ORDER BY rank DESC
+    LIMIT match_count;
+END;
+$$;
+
+COMMENT ON COLUMN public.knowledge_base_documents.content_tsv IS 'Full-text search vector over content (english configuration), used for hybrid retrieval';
+COMMENT ON FUNCTION search_knowledge_base_documents_text(TEXT, UUID[], int) IS 'Full-text keyword search over knowledge_base_documents restricted to the given knowledge bases. Fused with vector results for hybrid retrieval.';
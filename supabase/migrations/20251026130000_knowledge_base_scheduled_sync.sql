@@ -0,0 +1,61 @@
+-- ============================================
+-- Knowledge Base Scheduled Sync Migration
+-- ============================================
+-- Adds next_sync_at to knowledge_base_items so the sync-knowledge-base-items
+-- schedule can pick up rightmove_agent and url items that are due a re-sync.
+-- Adds knowledge_base_item_syncs to keep a history of every processing run
+-- (manual and scheduled) per item
+-- ============================================
+
+ALTER TABLE public.knowledge_base_items
+ADD COLUMN IF NOT EXISTS next_sync_at TIMESTAMP WITH TIME ZONE;
+
+-- Only scheduled items have a next_sync_at, keep the index small
+CREATE INDEX IF NOT EXISTS idx_knowledge_base_items_next_sync_at
+    ON public.knowledge_base_items(next_sync_at)
+    WHERE next_sync_at IS NOT NULL;
+
+-- Schedule existing Rightmove agents from their last sync
+UPDATE public.knowledge_base_items
+SET next_sync_at = COALESCE(last_synced_at, NOW()) + CASE
+        WHEN metadata->>'syncSchedule' = 'weekly' THEN INTERVAL '7 days'
+        ELSE INTERVAL '1 day'
+    END
+WHERE type = 'rightmove_agent'
+  AND deleted_at IS NULL
+  AND next_sync_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS public.knowledge_base_item_syncs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    knowledge_base_item_id UUID NOT NULL REFERENCES knowledge_base_items(id) ON DELETE CASCADE,
+    knowledge_base_id UUID NOT NULL REFERENCES knowledge_bases(id) ON DELETE CASCADE,
+    trigger VARCHAR(20) NOT NULL DEFAULT 'manual' CHECK (trigger IN ('manual', 'scheduled')),
+    status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+    run_id VARCHAR(255) UNIQUE,
+    attempts INTEGER NOT NULL DEFAULT 1,
+    chunks_created INTEGER,
+    error_message TEXT,
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+-- Create indexes for efficient lookups
+CREATE INDEX IF NOT EXISTS idx_knowledge_base_item_syncs_item_started
+    ON public.knowledge_base_item_syncs(knowledge_base_item_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_knowledge_base_item_syncs_kb_id ON public.knowledge_base_item_syncs(knowledge_base_id);
+
+-- Create trigger for updated_at
+DROP TRIGGER IF EXISTS update_knowledge_base_item_syncs_updated_at ON public.knowledge_base_item_syncs;
+CREATE TRIGGER update_knowledge_base_item_syncs_updated_at
+    BEFORE UPDATE ON public.knowledge_base_item_syncs
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.knowledge_base_items.next_sync_at IS 'When the item is next due a scheduled re-sync (NULL = not scheduled)';
+COMMENT ON TABLE public.knowledge_base_item_syncs IS 'History of process-item runs per knowledge base item';
+COMMENT ON COLUMN public.knowledge_base_item_syncs.trigger IS 'What started the run: manual (create / retry / re-sync) or scheduled';
+COMMENT ON COLUMN public.knowledge_base_item_syncs.run_id IS 'Trigger.dev run ID, shared across task-level retries';
+COMMENT ON COLUMN public.knowledge_base_item_syncs.attempts IS 'Task attempts made for this run';
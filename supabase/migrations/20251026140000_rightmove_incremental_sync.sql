@@ -0,0 +1,22 @@
+-- ============================================
+-- Rightmove Incremental Sync Migration
+-- ============================================
+-- Rightmove agent syncs now diff the scraped listings against existing
+-- rightmove_property children instead of deleting and recreating them.
+-- Adds content_hash so unchanged listings aren't re-embedded, and stats on
+-- knowledge_base_item_syncs to record what changed in each run
+-- ============================================
+
+ALTER TABLE public.knowledge_base_items
+ADD COLUMN IF NOT EXISTS content_hash VARCHAR(64);
+
+-- Children are looked up by parent + Rightmove listing ID on every sync
+CREATE INDEX IF NOT EXISTS idx_knowledge_base_items_parent_external_id
+    ON public.knowledge_base_items(parent_item_id, external_id)
+    WHERE parent_item_id IS NOT NULL;
+
+ALTER TABLE public.knowledge_base_item_syncs
+ADD COLUMN IF NOT EXISTS stats JSONB;
+
+COMMENT ON COLUMN public.knowledge_base_items.content_hash IS 'SHA-256 of the text embedded for this item; the item is only re-embedded when it changes';
+COMMENT ON COLUMN public.knowledge_base_item_syncs.stats IS 'Per-run change counts, e.g. { scraped, added, updated, unchanged, removed, priceChanged, failed } for Rightmove agents';
@@ -0,0 +1,109 @@
+-- ============================================
+-- Agent Configuration Versions Migration
+-- ============================================
+-- Saving the agent configuration form now creates / updates a draft version
+-- instead of overwriting agents.configuration. Publishing a version (or
+-- rolling back to an earlier one) copies it into agents.configuration, which
+-- always holds the published configuration served to live calls
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.agent_configuration_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+    organization_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+    version_number INTEGER NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published', 'archived')),
+    configuration JSONB NOT NULL,
+    notes TEXT,
+    created_by TEXT,
+    published_by TEXT,
+    published_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+
+    UNIQUE(agent_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_configuration_versions_agent_id
+    ON public.agent_configuration_versions(agent_id, version_number DESC);
+
+-- At most one draft and one published version per agent
+CREATE UNIQUE INDEX IF NOT EXISTS idx_agent_configuration_versions_one_draft
+    ON public.agent_configuration_versions(agent_id)
+    WHERE status = 'draft';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_agent_configuration_versions_one_published
+    ON public.agent_configuration_versions(agent_id)
+    WHERE status = 'published';
+
+DROP TRIGGER IF EXISTS update_agent_configuration_versions_updated_at ON public.agent_configuration_versions;
+CREATE TRIGGER update_agent_configuration_versions_updated_at
+    BEFORE UPDATE ON public.agent_configuration_versions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.agents
+ADD COLUMN IF NOT EXISTS published_version_id UUID REFERENCES agent_configuration_versions(id) ON DELETE SET NULL;
+
+-- Existing configurations become version 1, published
+INSERT INTO public.agent_configuration_versions (agent_id, organization_id, version_number, status, configuration, notes, published_at)
+SELECT a.id, a.organization_id, 1, 'published', a.configuration, 'Initial version', NOW()
+FROM public.agents a
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.agent_configuration_versions v WHERE v.agent_id = a.id
+);
+
+UPDATE public.agents a
+SET published_version_id = v.id
+FROM public.agent_configuration_versions v
+WHERE v.agent_id = a.id
+  AND v.status = 'published'
+  AND a.published_version_id IS NULL;
+
+-- Publish (or roll back to) a version atomically: archive the current
+-- published version, publish this one and copy it into agents.configuration
+CREATE OR REPLACE FUNCTION publish_agent_configuration_version(
+    p_version_id UUID,
+    p_published_by TEXT DEFAULT NULL
+)
+RETURNS SETOF agent_configuration_versions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_version agent_configuration_versions%ROWTYPE;
+BEGIN
+    SELECT * INTO v_version
+    FROM agent_configuration_versions
+    WHERE id = p_version_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Agent configuration version % not found', p_version_id;
+    END IF;
+
+    UPDATE agent_configuration_versions
+    SET status = 'archived'
+    WHERE agent_id = v_version.agent_id
+      AND status = 'published'
+      AND id <> p_version_id;
+
+    UPDATE agent_configuration_versions
+    SET status = 'published',
+        published_at = NOW(),
+        published_by = p_published_by
+    WHERE id = p_version_id;
+
+    UPDATE agents
+    SET configuration = v_version.configuration,
+        published_version_id = p_version_id
+    WHERE id = v_version.agent_id;
+
+    RETURN QUERY
+    SELECT * FROM agent_configuration_versions WHERE id = p_version_id;
+END;
+$$;
+
+COMMENT ON TABLE public.agent_configuration_versions IS 'Version history of agent configurations (draft, published, archived)';
+COMMENT ON COLUMN public.agent_configuration_versions.status IS 'draft: being edited, not live. published: served to calls (mirrored in agents.configuration). archived: previously published or superseded';
+COMMENT ON COLUMN public.agents.published_version_id IS 'Version whose configuration is currently in agents.configuration and served to calls';
+COMMENT ON COLUMN public.agent_configuration_versions.created_by IS 'Email of the user who created the version';
+COMMENT ON COLUMN public.agent_configuration_versions.published_by IS 'Email of the user who last published the version';
@@ -0,0 +1,178 @@
+-- ============================================
+-- Call Transcript Search
+-- ============================================
+-- Full-text search across call transcripts for the calls dashboard.
+-- Searches the spoken messages in calls.transcript and, for calls that don't
+-- have a final transcript yet (in progress / agent crashed), the
+-- conversation_item_added events. The existing GIN index on calls.transcript
+-- serves the "tool invoked" filter via JSONB containment.
+-- ============================================
+
+-- Text of the spoken messages in a transcript (function calls and outputs excluded)
+CREATE OR REPLACE FUNCTION call_transcript_text(transcript JSONB)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT COALESCE(string_agg(item->>'content', ' '), '')
+    FROM jsonb_array_elements(
+        CASE WHEN jsonb_typeof(transcript) = 'array' THEN transcript ELSE '[]'::jsonb END
+    ) AS item
+    WHERE item->>'type' = 'message';
+$$;
+
+-- Text of a conversation_item_added event (nested data.item, flat item or textContent)
+CREATE OR REPLACE FUNCTION conversation_item_text(data JSONB)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT COALESCE(
+        data->'data'->'item'->'content'->>0,
+        data->'item'->'content'->>0,
+        data->'data'->>'textContent',
+        data->>'textContent',
+        ''
+    );
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_calls_transcript_fts ON public.calls
+USING gin (to_tsvector('english', call_transcript_text(transcript)));
+
+CREATE INDEX IF NOT EXISTS idx_agent_events_conversation_item_fts ON public.agent_events
+USING gin (to_tsvector('english', conversation_item_text(data)))
+WHERE event_type = 'conversation_item_added';
+
+-- Search calls in an organization, newest first, with highlighted snippets
+-- Query uses websearch syntax: "exact phrase", or, -excluded
+-- Snippets mark matches with <mark></mark>; itemIndex is the position in
+-- calls.transcript so the dashboard can scroll to the matching message
+CREATE OR REPLACE FUNCTION search_call_transcripts(
+    p_organization_id UUID,
+    p_query TEXT,
+    p_agent_id UUID DEFAULT NULL,
+    p_date_from TIMESTAMPTZ DEFAULT NULL,
+    p_date_to TIMESTAMPTZ DEFAULT NULL,
+    p_statuses TEXT[] DEFAULT NULL,
+    p_caller TEXT DEFAULT NULL,
+    p_tool TEXT DEFAULT NULL,
+    p_limit int DEFAULT 20,
+    p_offset int DEFAULT 0,
+    p_max_snippets int DEFAULT 5
+)
+RETURNS TABLE (
+    call_id UUID,
+    rank float,
+    snippets JSONB,
+    total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+#variable_conflict use_column
+DECLARE
+    ts_query tsquery;
+    headline_options TEXT := 'StartSel=<mark>, StopSel=</mark>, MaxWords=25, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "';
+BEGIN
+    ts_query := websearch_to_tsquery('english', p_query);
+
+    IF ts_query IS NULL OR numnode(ts_query) = 0 THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    WITH matches AS (
+        SELECT
+            c.id,
+            c.created_at,
+            c.transcript,
+            ts_rank_cd(to_tsvector('english', call_transcript_text(c.transcript)), ts_query, 1)::float AS match_rank
+        FROM calls c
+        WHERE c.organization_id = p_organization_id
+            AND (p_agent_id IS NULL OR c.agent_id = p_agent_id)
+            AND (p_date_from IS NULL OR c.created_at >= p_date_from)
+            AND (p_date_to IS NULL OR c.created_at < p_date_to)
+            AND (p_statuses IS NULL OR c.status = ANY(p_statuses))
+            AND (p_caller IS NULL OR c.caller_phone_number ILIKE '%' || p_caller || '%')
+            AND (p_tool IS NULL OR c.transcript @> jsonb_build_array(
+                jsonb_build_object('type', 'function_call', 'name', p_tool)
+            ))
+            AND (
+                to_tsvector('english', call_transcript_text(c.transcript)) @@ ts_query
+                OR (
+                    c.transcript IS NULL
+                    AND EXISTS (
+                        SELECT 1
+                        FROM agent_events e
+                        WHERE e.call_id = c.id
+                            AND e.event_type = 'conversation_item_added'
+                            AND to_tsvector('english', conversation_item_text(e.data)) @@ ts_query
+                    )
+                )
+            )
+    ),
+    page AS (
+        SELECT m.*, COUNT(*) OVER () AS total
+        FROM matches m
+        ORDER BY m.created_at DESC
+        LIMIT p_limit
+        OFFSET p_offset
+    )
+    SELECT
+        p.id,
+        p.match_rank,
+        COALESCE(s.snippets, '[]'::jsonb),
+        p.total
+    FROM page p
+    LEFT JOIN LATERAL (
+        SELECT jsonb_agg(
+            jsonb_build_object(
+                'source', x.source,
+                'itemIndex', x.item_index,
+                'role', x.role,
+                'offsetMs', x.offset_ms,
+                'snippet', ts_headline('english', x.content, ts_query, headline_options)
+            )
+            ORDER BY x.sort_key
+        ) AS snippets
+        FROM (
+            (
+                SELECT
+                    'transcript' AS source,
+                    (t.ordinality - 1)::int AS item_index,
+                    t.item->>'role' AS role,
+                    NULL::bigint AS offset_ms,
+                    t.item->>'content' AS content,
+                    t.ordinality::float AS sort_key
+                FROM jsonb_array_elements(
+                    CASE WHEN jsonb_typeof(p.transcript) = 'array' THEN p.transcript ELSE '[]'::jsonb END
+                ) WITH ORDINALITY AS t(item, ordinality)
+                WHERE t.item->>'type' = 'message'
+                    AND to_tsvector('english', COALESCE(t.item->>'content', '')) @@ ts_query
+                UNION ALL
+                SELECT
+                    'event' AS source,
+                    NULL::int AS item_index,
+                    COALESCE(e.data->'data'->'item'->>'role', e.data->'data'->>'role', e.data->>'role') AS role,
+                    CASE WHEN (e.data->'data'->>'offsetMs') ~ '^\d+$'
+                        THEN (e.data->'data'->>'offsetMs')::bigint
+                    END AS offset_ms,
+                    conversation_item_text(e.data) AS content,
+                    EXTRACT(EPOCH FROM e.time)::float AS sort_key
+                FROM agent_events e
+                WHERE p.transcript IS NULL
+                    AND e.call_id = p.id
+                    AND e.event_type = 'conversation_item_added'
+                    AND to_tsvector('english', conversation_item_text(e.data)) @@ ts_query
+            )
+            ORDER BY sort_key
+            LIMIT p_max_snippets
+        ) x
+    ) s ON true
+    ORDER BY p.created_at DESC;
+END;
+$$;
+
+COMMENT ON FUNCTION call_transcript_text(JSONB) IS 'Concatenated message content of a call transcript, used for full-text search';
+COMMENT ON FUNCTION conversation_item_text(JSONB) IS 'Spoken text of a conversation_item_added event, used for full-text search';
+COMMENT ON FUNCTION search_call_transcripts(UUID, TEXT, UUID, TIMESTAMPTZ, TIMESTAMPTZ, TEXT[], TEXT, TEXT, int, int, int) IS 'Full-text search over call transcripts (and live conversation events) with dashboard filters and highlighted snippets';
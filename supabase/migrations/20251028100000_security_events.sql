@@ -0,0 +1,29 @@
+-- ============================================
+-- Security Events Migration
+-- ============================================
+-- Records rejected requests to unauthenticated endpoints (Twilio webhooks
+-- with a missing or invalid X-Twilio-Signature, etc.) so spoofing attempts
+-- can be reviewed. organization_id is set when the request could be tied to
+-- an organization (e.g. the Twilio AccountSid matched a phone number)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.security_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID REFERENCES organisations(id) ON DELETE CASCADE,
+    event_type VARCHAR(100) NOT NULL,
+    reason VARCHAR(100) NOT NULL,
+    path TEXT NOT NULL,
+    ip_address TEXT,
+    user_agent TEXT,
+    details JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_security_events_organization_id ON public.security_events(organization_id);
+CREATE INDEX IF NOT EXISTS idx_security_events_event_type ON public.security_events(event_type);
+CREATE INDEX IF NOT EXISTS idx_security_events_created_at ON public.security_events(created_at DESC);
+
+COMMENT ON TABLE public.security_events IS 'Rejected requests to unauthenticated endpoints (webhook signature failures, invalid worker credentials)';
+COMMENT ON COLUMN public.security_events.event_type IS 'What was rejected, e.g. twilio_signature_rejected';
+COMMENT ON COLUMN public.security_events.reason IS 'Why it was rejected, e.g. missing_signature, unknown_account, invalid_signature';
+COMMENT ON COLUMN public.security_events.details IS 'Request context useful for investigation (never includes secrets)';
@@ -0,0 +1,42 @@
+-- ============================================
+-- Worker Credentials Migration
+-- ============================================
+-- Bearer tokens the LiveKit agent worker presents when calling the agent
+-- API (/api/agents/:id/calls, /api/agents/:id/retrieve,
+-- /api/phone-number/:number/agent, /api/tools/:id/execute).
+-- Each token belongs to one organization and only grants access to that
+-- organization's agents, phone numbers and tools.
+-- Only a SHA-256 hash of the token is stored; the token itself is shown
+-- once when it's created. Rotating a credential issues a new token and keeps
+-- the old one valid until expires_at so workers can be redeployed.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.worker_credentials (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    token_prefix VARCHAR(20) NOT NULL,
+    token_hash VARCHAR(64) NOT NULL UNIQUE,
+    created_by TEXT,
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    -- Credential this one replaced when it was created by a rotation
+    rotated_from_id UUID REFERENCES worker_credentials(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_worker_credentials_organization_id ON public.worker_credentials(organization_id);
+
+DROP TRIGGER IF EXISTS update_worker_credentials_updated_at ON public.worker_credentials;
+CREATE TRIGGER update_worker_credentials_updated_at
+    BEFORE UPDATE ON public.worker_credentials
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE public.worker_credentials IS 'Per-organization bearer tokens for the LiveKit agent worker';
+COMMENT ON COLUMN public.worker_credentials.token_prefix IS 'First characters of the token, shown in the dashboard to identify it';
+COMMENT ON COLUMN public.worker_credentials.token_hash IS 'SHA-256 hex digest of the token';
+COMMENT ON COLUMN public.worker_credentials.expires_at IS 'Set when the credential is rotated; the old token keeps working until then';
+COMMENT ON COLUMN public.worker_credentials.revoked_at IS 'Revoked credentials are rejected immediately';
@@ -0,0 +1,28 @@
+-- ============================================
+-- Outbound Calls Migration
+-- ============================================
+-- Agents can now place calls (lead follow-up, appointment reminders).
+-- Outbound calls are stored in the same calls table:
+--   - direction = 'outbound'
+--   - caller_phone_number is the number that was dialled (the other party),
+--     trunk_phone_number is the organization's number the call was placed from,
+--     so both directions read the same way in the dashboard
+--   - context_variables holds the per-call context passed to the agent
+--   - status starts as 'dialing' until the callee answers
+-- ============================================
+
+ALTER TABLE public.calls
+    ADD COLUMN IF NOT EXISTS direction VARCHAR(10) NOT NULL DEFAULT 'inbound'
+        CHECK (direction IN ('inbound', 'outbound'));
+
+ALTER TABLE public.calls
+    ADD COLUMN IF NOT EXISTS context_variables JSONB;
+
+ALTER TABLE public.calls
+    ADD COLUMN IF NOT EXISTS initiated_by TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_calls_direction ON public.calls(direction);
+
+COMMENT ON COLUMN public.calls.direction IS 'inbound (Twilio webhook) or outbound (placed via the outbound calls API)';
+COMMENT ON COLUMN public.calls.context_variables IS 'Per-call context passed to the agent, e.g. { "firstName": "Sam", "appointmentTime": "3pm" }';
+COMMENT ON COLUMN public.calls.initiated_by IS 'Who placed an outbound call (user email, or campaign:<id>)';
@@ -0,0 +1,139 @@
+-- ============================================
+-- Outbound Campaigns Migration
+-- ============================================
+-- Campaigns work through a list of contacts (uploaded as CSV) and have an
+-- agent call each one via the outbound calls API.
+--   - campaigns: agent, calling windows (in the campaign's timezone), pacing
+--     and retry policy
+--   - campaign_contacts: one row per number, with the CSV's other columns
+--     stored as variables that are passed to the agent for that call
+--   - do_not_call_numbers: organization-wide list of numbers never to dial
+-- The dispatch-campaign-calls Trigger.dev task dials due contacts every minute.
+-- ============================================
+
+-- Campaigns
+CREATE TABLE IF NOT EXISTS public.campaigns (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+    agent_id UUID NOT NULL REFERENCES public.agents(id) ON DELETE CASCADE,
+    phone_number_id UUID REFERENCES public.phone_numbers(id) ON DELETE SET NULL,
+    name VARCHAR(255) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'draft'
+        CHECK (status IN ('draft', 'running', 'paused', 'completed', 'cancelled')),
+    timezone VARCHAR(64) NOT NULL DEFAULT 'Europe/London',
+    calling_windows JSONB NOT NULL DEFAULT '[]'::jsonb,
+    max_concurrent_calls INTEGER NOT NULL DEFAULT 1
+        CHECK (max_concurrent_calls BETWEEN 1 AND 50),
+    max_attempts INTEGER NOT NULL DEFAULT 3
+        CHECK (max_attempts BETWEEN 1 AND 10),
+    retry_delay_minutes INTEGER NOT NULL DEFAULT 60
+        CHECK (retry_delay_minutes BETWEEN 1 AND 10080),
+    retry_on TEXT[] NOT NULL DEFAULT ARRAY['no-answer', 'busy']::TEXT[],
+    created_by TEXT,
+    started_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaigns_organization_id ON public.campaigns(organization_id);
+CREATE INDEX IF NOT EXISTS idx_campaigns_status ON public.campaigns(status);
+
+DROP TRIGGER IF EXISTS update_campaigns_updated_at ON public.campaigns;
+CREATE TRIGGER update_campaigns_updated_at
+    BEFORE UPDATE ON public.campaigns
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE public.campaigns IS 'Outbound call campaigns - an agent calling a list of contacts';
+COMMENT ON COLUMN public.campaigns.phone_number_id IS 'Twilio number to call from - defaults to a number assigned to the agent';
+COMMENT ON COLUMN public.campaigns.calling_windows IS 'When calls may be placed, in the campaign timezone: [{ "days": ["monday"], "startTime": "09:00", "endTime": "17:00" }]';
+COMMENT ON COLUMN public.campaigns.retry_on IS 'Twilio outcomes that are retried: no-answer, busy, failed';
+
+-- Campaign contacts
+CREATE TABLE IF NOT EXISTS public.campaign_contacts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    campaign_id UUID NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+    organization_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+    phone_number VARCHAR(20) NOT NULL,
+    variables JSONB NOT NULL DEFAULT '{}'::jsonb,
+    row_number INTEGER NOT NULL DEFAULT 0,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'dialing', 'connected', 'completed', 'failed', 'skipped')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP WITH TIME ZONE,
+    last_attempt_at TIMESTAMP WITH TIME ZONE,
+    last_call_id UUID REFERENCES public.calls(id) ON DELETE SET NULL,
+    last_result TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    UNIQUE (campaign_id, phone_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_contacts_due
+    ON public.campaign_contacts(campaign_id, status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_campaign_contacts_last_call_id ON public.campaign_contacts(last_call_id);
+
+DROP TRIGGER IF EXISTS update_campaign_contacts_updated_at ON public.campaign_contacts;
+CREATE TRIGGER update_campaign_contacts_updated_at
+    BEFORE UPDATE ON public.campaign_contacts
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE public.campaign_contacts IS 'Numbers a campaign calls, one row per number';
+COMMENT ON COLUMN public.campaign_contacts.variables IS 'CSV columns for this contact, passed to the agent as the call''s context variables';
+COMMENT ON COLUMN public.campaign_contacts.status IS 'pending (waiting / retry scheduled), dialing, connected (answered, in progress), completed, failed (attempts exhausted) or skipped (do-not-call)';
+COMMENT ON COLUMN public.campaign_contacts.last_result IS 'Outcome of the latest attempt, e.g. completed, no-answer, busy, do_not_call';
+
+-- Do-not-call list
+CREATE TABLE IF NOT EXISTS public.do_not_call_numbers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+    phone_number VARCHAR(20) NOT NULL,
+    reason TEXT,
+    created_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    UNIQUE (organization_id, phone_number)
+);
+
+COMMENT ON TABLE public.do_not_call_numbers IS 'Numbers campaigns never dial (contacts are marked skipped)';
+
+-- Link calls to the campaign that placed them
+ALTER TABLE public.calls
+    ADD COLUMN IF NOT EXISTS campaign_id UUID REFERENCES public.campaigns(id) ON DELETE SET NULL;
+
+ALTER TABLE public.calls
+    ADD COLUMN IF NOT EXISTS campaign_contact_id UUID REFERENCES public.campaign_contacts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_calls_campaign_id ON public.calls(campaign_id);
+
+COMMENT ON COLUMN public.calls.campaign_id IS 'Campaign that placed this outbound call';
+COMMENT ON COLUMN public.calls.campaign_contact_id IS 'Campaign contact this call was an attempt for';
+
+-- ============================================
+-- Contact counts per status, for the campaign dashboard
+-- ============================================
+CREATE OR REPLACE FUNCTION get_campaign_contact_counts(p_campaign_ids UUID[])
+RETURNS TABLE (
+    campaign_id UUID,
+    status VARCHAR,
+    contact_count BIGINT,
+    attempted_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        cc.campaign_id,
+        cc.status,
+        COUNT(*)::BIGINT AS contact_count,
+        COUNT(*) FILTER (WHERE cc.attempts > 0)::BIGINT AS attempted_count
+    FROM public.campaign_contacts cc
+    WHERE cc.campaign_id = ANY(p_campaign_ids)
+    GROUP BY cc.campaign_id, cc.status;
+END;
+$$;
+
+COMMENT ON FUNCTION get_campaign_contact_counts IS 'Contact counts per campaign and status, plus how many of them have been dialled at least once';
@@ -0,0 +1,40 @@
+-- ============================================
+-- Caller Lookup Migration
+-- ============================================
+-- Pre-call CRM lookup for incoming calls.
+-- Before an incoming call is routed, the organization's CRM is asked who the
+-- caller is - either by POSTing to a webhook or by running one of the
+-- organization's Pipedream action tools. The lookup has a strict timeout;
+-- when it's slow or fails the call is routed as usual.
+--   - The contact's name, tags and custom fields are stored in
+--     calls.context_variables so they can be used as agent variables
+--   - routing_rules send callers with a matching tag straight to a number
+--     (e.g. VIPs to a human), ahead of time-based routing
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.caller_lookup_settings (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL UNIQUE REFERENCES organisations(id) ON DELETE CASCADE,
+    enabled BOOLEAN NOT NULL DEFAULT false,
+    source VARCHAR(20) NOT NULL DEFAULT 'webhook'
+        CHECK (source IN ('webhook', 'pipedream_action')),
+    webhook_url TEXT,
+    webhook_secret TEXT,
+    tool_id UUID REFERENCES tools(id) ON DELETE SET NULL,
+    timeout_ms INTEGER NOT NULL DEFAULT 1500 CHECK (timeout_ms BETWEEN 250 AND 5000),
+    routing_rules JSONB NOT NULL DEFAULT '[]'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+DROP TRIGGER IF EXISTS update_caller_lookup_settings_updated_at ON public.caller_lookup_settings;
+CREATE TRIGGER update_caller_lookup_settings_updated_at
+    BEFORE UPDATE ON public.caller_lookup_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE public.caller_lookup_settings IS 'Per-organization CRM lookup run before incoming calls are routed';
+COMMENT ON COLUMN public.caller_lookup_settings.source IS 'webhook: POST to webhook_url; pipedream_action: run the Pipedream action tool tool_id';
+COMMENT ON COLUMN public.caller_lookup_settings.webhook_secret IS 'Shared secret used to sign webhook requests (X-Voiceify-Signature: sha256=<HMAC of the body>)';
+COMMENT ON COLUMN public.caller_lookup_settings.timeout_ms IS 'The call is routed without caller details if the lookup takes longer than this';
+COMMENT ON COLUMN public.caller_lookup_settings.routing_rules IS 'Array of { "tag": "vip", "transferTo": "+447700900123" } - the first rule matching one of the caller''s tags wins';
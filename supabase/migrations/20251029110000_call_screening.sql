@@ -0,0 +1,67 @@
+-- ============================================
+-- Call Screening Migration
+-- ============================================
+-- Per-organization screening of incoming calls, checked before an agent's
+-- schedules are applied.
+--   - call_screening_entries: number patterns on one of three lists
+--       block:    reject the call
+--       transfer: always send the caller to transfer_to (a human)
+--       agent:    always connect the caller to the agent
+--     Patterns are E.164 numbers where * matches any digits and ? matches one
+--     digit (e.g. +4470*, +1800???????), or "anonymous" for withheld numbers.
+--   - call_screening_settings: rate-based spam detection and how blocked
+--     calls are rejected
+--   - Blocked calls are recorded with status 'blocked' and left out of
+--     analytics
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.call_screening_entries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+    list_type VARCHAR(20) NOT NULL CHECK (list_type IN ('block', 'transfer', 'agent')),
+    pattern VARCHAR(40) NOT NULL,
+    transfer_to VARCHAR(20),
+    label TEXT,
+    created_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    UNIQUE(organization_id, pattern),
+    CHECK (list_type <> 'transfer' OR transfer_to IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_call_screening_entries_organization_id ON public.call_screening_entries(organization_id);
+
+DROP TRIGGER IF EXISTS update_call_screening_entries_updated_at ON public.call_screening_entries;
+CREATE TRIGGER update_call_screening_entries_updated_at
+    BEFORE UPDATE ON public.call_screening_entries
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.call_screening_settings (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL UNIQUE REFERENCES organisations(id) ON DELETE CASCADE,
+    spam_detection_enabled BOOLEAN NOT NULL DEFAULT false,
+    spam_call_threshold INTEGER NOT NULL DEFAULT 5 CHECK (spam_call_threshold BETWEEN 2 AND 100),
+    spam_window_minutes INTEGER NOT NULL DEFAULT 10 CHECK (spam_window_minutes BETWEEN 1 AND 1440),
+    reject_action VARCHAR(20) NOT NULL DEFAULT 'reject' CHECK (reject_action IN ('reject', 'busy', 'message')),
+    reject_message TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+DROP TRIGGER IF EXISTS update_call_screening_settings_updated_at ON public.call_screening_settings;
+CREATE TRIGGER update_call_screening_settings_updated_at
+    BEFORE UPDATE ON public.call_screening_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE public.call_screening_entries IS 'Incoming caller blocklist / allowlists, checked before agent schedules';
+COMMENT ON COLUMN public.call_screening_entries.list_type IS 'block: reject the call; transfer: always send to transfer_to; agent: always connect to the agent';
+COMMENT ON COLUMN public.call_screening_entries.pattern IS 'E.164 number with optional wildcards (* any digits, ? one digit), or "anonymous"';
+COMMENT ON COLUMN public.call_screening_entries.transfer_to IS 'E.164 number for transfer entries';
+
+COMMENT ON TABLE public.call_screening_settings IS 'Per-organization spam detection and reject behaviour for blocked calls';
+COMMENT ON COLUMN public.call_screening_settings.spam_call_threshold IS 'A caller who has already called this many times within spam_window_minutes is blocked';
+COMMENT ON COLUMN public.call_screening_settings.reject_action IS 'reject: Twilio <Reject reason="rejected">; busy: <Reject reason="busy">; message: say reject_message then hang up';
+
+COMMENT ON COLUMN public.calls.status IS 'Call status: dialing, incoming, blocked, transferred_to_team, connected_to_agent, completed, failed';
@@ -0,0 +1,45 @@
+-- ============================================
+-- Ring Groups Migration
+-- ============================================
+-- Named groups of team numbers that human transfers can ring instead of a
+-- single number.
+--   - strategy 'simultaneous': every member rings at once, the first to
+--     answer takes the call
+--   - strategy 'sequential': members ring one at a time, in order, each for
+--     ring_timeout_seconds (hunt list)
+--   - members: [{ id, phoneNumber, label }] in dialling order
+--
+-- Referenced from agents.rules (Schedule.ringGroupId) and transfer_call tool
+-- targets (target.ringGroupId). Which member answered is recorded on the
+-- call's transfer_success event.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.ring_groups (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    strategy VARCHAR(20) NOT NULL DEFAULT 'simultaneous' CHECK (strategy IN ('simultaneous', 'sequential')),
+    ring_timeout_seconds INTEGER NOT NULL DEFAULT 20 CHECK (ring_timeout_seconds BETWEEN 5 AND 120),
+    members JSONB NOT NULL DEFAULT '[]'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    UNIQUE(organization_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ring_groups_organization_id ON public.ring_groups(organization_id);
+
+DROP TRIGGER IF EXISTS update_ring_groups_updated_at ON public.ring_groups;
+CREATE TRIGGER update_ring_groups_updated_at
+    BEFORE UPDATE ON public.ring_groups
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Member answer rates are built from these events
+CREATE INDEX IF NOT EXISTS idx_agent_events_ring_group_id
+    ON public.agent_events ((data->>'ringGroupId'))
+    WHERE event_type IN ('ring_group_dialed', 'transfer_success');
+
+COMMENT ON TABLE public.ring_groups IS 'Groups of team numbers rung together or in order by human transfers';
+COMMENT ON COLUMN public.ring_groups.strategy IS 'simultaneous: ring every member at once; sequential: ring members one at a time, in order';
+COMMENT ON COLUMN public.ring_groups.ring_timeout_seconds IS 'How long each member rings (sequential) or the whole group rings (simultaneous)';
+COMMENT ON COLUMN public.ring_groups.members IS 'Members in dialling order: [{ id, phoneNumber, label }]';
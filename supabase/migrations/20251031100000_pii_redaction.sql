@@ -0,0 +1,63 @@
+-- ============================================
+-- PII Redaction Migration
+-- ============================================
+-- Per-organization redaction of card numbers, emails, phone numbers,
+-- postcodes, addresses, dates of birth and custom patterns in call
+-- transcripts and agent events.
+--   - redaction_policies: which detectors run, custom patterns, which
+--     organization roles can see the originals, and whether recordings
+--     are bleeped
+--   - redaction_vault: the original values, AES-256-GCM encrypted with
+--     PII_ENCRYPTION_KEY, one row per redacted event / transcript
+--   - calls.redaction / redacted_at / recording_redacted_at: what was
+--     redacted on the call and when
+-- Redaction runs when the worker posts an event and again on
+-- session_complete (see lib/redaction.ts).
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.redaction_policies (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL UNIQUE REFERENCES organisations(id) ON DELETE CASCADE,
+    enabled BOOLEAN NOT NULL DEFAULT false,
+    detectors TEXT[] NOT NULL DEFAULT ARRAY['card', 'email', 'phone', 'postcode', 'address', 'date_of_birth'],
+    custom_patterns JSONB NOT NULL DEFAULT '[]'::jsonb,
+    reveal_roles TEXT[] NOT NULL DEFAULT ARRAY['admin'],
+    bleep_recordings BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+DROP TRIGGER IF EXISTS update_redaction_policies_updated_at ON public.redaction_policies;
+CREATE TRIGGER update_redaction_policies_updated_at
+    BEFORE UPDATE ON public.redaction_policies
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.redaction_vault (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+    call_id UUID NOT NULL REFERENCES calls(id) ON DELETE CASCADE,
+    agent_event_id UUID REFERENCES agent_events(id) ON DELETE CASCADE,
+    target VARCHAR(20) NOT NULL CHECK (target IN ('event', 'transcript')),
+    ciphertext TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    CHECK (target <> 'event' OR agent_event_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_redaction_vault_call_id ON public.redaction_vault(call_id);
+CREATE INDEX IF NOT EXISTS idx_redaction_vault_agent_event_id ON public.redaction_vault(agent_event_id);
+
+ALTER TABLE public.calls
+    ADD COLUMN IF NOT EXISTS redaction JSONB,
+    ADD COLUMN IF NOT EXISTS redacted_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS recording_redacted_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON TABLE public.redaction_policies IS 'Per-organization PII redaction settings for transcripts, events and recordings';
+COMMENT ON COLUMN public.redaction_policies.detectors IS 'Built-in detectors to run: card, email, phone, postcode, address, date_of_birth';
+COMMENT ON COLUMN public.redaction_policies.custom_patterns IS 'Extra patterns: [{ id, name, pattern, caseSensitive }], replaced with [NAME]';
+COMMENT ON COLUMN public.redaction_policies.reveal_roles IS 'Organization roles (WorkOS role slugs) allowed to see the original values';
+COMMENT ON COLUMN public.redaction_policies.bleep_recordings IS 'Bleep matching words in the stored recording after the call';
+COMMENT ON TABLE public.redaction_vault IS 'Encrypted originals of redacted events and transcripts (AES-256-GCM, PII_ENCRYPTION_KEY)';
+COMMENT ON COLUMN public.redaction_vault.ciphertext IS 'base64 iv.authTag.ciphertext of the JSON value before redaction';
+COMMENT ON COLUMN public.calls.redaction IS 'What was redacted: { types, count, bleepSpans }';
+COMMENT ON COLUMN public.calls.recording_redacted_at IS 'When matching words were bleeped in the stored recording';
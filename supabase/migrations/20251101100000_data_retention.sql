@@ -0,0 +1,71 @@
+-- ============================================
+-- Data Retention Migration
+-- ============================================
+-- Per-organization limits on how long call data is kept, applied daily by
+-- the purge-expired-call-data Trigger.dev task.
+--   - retention_policies: days to keep recordings, transcripts, events and
+--     caller details (NULL keeps them forever)
+--   - retention_audit_log: what each purge removed, per organization and
+--     data type
+--   - calls.legal_hold: calls on hold are never purged
+--   - calls.*_purged_at / caller_anonymized_at: what has already been
+--     removed from a call, so it isn't picked up again
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.retention_policies (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL UNIQUE REFERENCES organisations(id) ON DELETE CASCADE,
+    enabled BOOLEAN NOT NULL DEFAULT false,
+    recording_days INTEGER CHECK (recording_days BETWEEN 1 AND 3650),
+    transcript_days INTEGER CHECK (transcript_days BETWEEN 1 AND 3650),
+    event_days INTEGER CHECK (event_days BETWEEN 1 AND 3650),
+    caller_details_days INTEGER CHECK (caller_details_days BETWEEN 1 AND 3650),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+DROP TRIGGER IF EXISTS update_retention_policies_updated_at ON public.retention_policies;
+CREATE TRIGGER update_retention_policies_updated_at
+    BEFORE UPDATE ON public.retention_policies
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- No foreign key to calls - the audit outlives the calls it lists
+CREATE TABLE IF NOT EXISTS public.retention_audit_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+    data_type VARCHAR(20) NOT NULL CHECK (data_type IN ('recordings', 'transcripts', 'events', 'caller_details')),
+    cutoff TIMESTAMP WITH TIME ZONE NOT NULL,
+    call_count INTEGER NOT NULL,
+    call_ids UUID[] NOT NULL,
+    item_count INTEGER NOT NULL DEFAULT 0,
+    trigger_run_id TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_retention_audit_log_org_created
+    ON public.retention_audit_log(organization_id, created_at DESC);
+
+ALTER TABLE public.calls
+    ADD COLUMN IF NOT EXISTS legal_hold BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS legal_hold_reason TEXT,
+    ADD COLUMN IF NOT EXISTS legal_hold_set_by TEXT,
+    ADD COLUMN IF NOT EXISTS legal_hold_set_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS recording_purged_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS transcript_purged_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS events_purged_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS caller_anonymized_at TIMESTAMP WITH TIME ZONE;
+
+-- The purge looks for an organization's oldest calls that aren't on hold
+CREATE INDEX IF NOT EXISTS idx_calls_org_created_not_held
+    ON public.calls(organization_id, created_at)
+    WHERE legal_hold = false;
+
+COMMENT ON TABLE public.retention_policies IS 'Per-organization limits on how long call data is kept';
+COMMENT ON COLUMN public.retention_policies.recording_days IS 'Days to keep call recordings and voicemail audio (NULL = forever)';
+COMMENT ON COLUMN public.retention_policies.transcript_days IS 'Days to keep transcripts and the events that carry what was said (NULL = forever)';
+COMMENT ON COLUMN public.retention_policies.event_days IS 'Days to keep agent_events (NULL = forever)';
+COMMENT ON COLUMN public.retention_policies.caller_details_days IS 'Days before the caller number and context variables are anonymized (NULL = forever)';
+COMMENT ON TABLE public.retention_audit_log IS 'What the retention purge removed, per run, organization and data type';
+COMMENT ON COLUMN public.retention_audit_log.item_count IS 'Storage objects or events deleted, or calls anonymized';
+COMMENT ON COLUMN public.calls.legal_hold IS 'Calls on legal hold are skipped by the retention purge';
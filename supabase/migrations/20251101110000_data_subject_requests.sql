@@ -0,0 +1,53 @@
+-- ============================================
+-- Data Subject Requests Migration
+-- ============================================
+-- GDPR access (export) and erasure requests from callers, keyed by the
+-- caller's phone number and processed by the process-data-subject-request
+-- Trigger.dev task.
+--   - export: export.json and the caller's audio are written to
+--     call-recordings/{organization_id}/exports/{request_id}/
+--   - erasure: the caller's calls (with their events, evaluation results
+--     and redacted originals), recordings, voicemails, SMS and campaign
+--     contacts are deleted. The request row is kept as a tombstone, with
+--     the phone number cleared and only its hash and last 4 digits left
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.data_subject_requests (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+    request_type VARCHAR(20) NOT NULL CHECK (request_type IN ('export', 'erasure')),
+    phone_number VARCHAR(20),
+    phone_number_hash TEXT NOT NULL,
+    phone_number_last4 VARCHAR(4) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+    summary JSONB,
+    erased_call_ids UUID[],
+    export_path TEXT,
+    error_message TEXT,
+    requested_by TEXT,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_data_subject_requests_org_created
+    ON public.data_subject_requests(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_data_subject_requests_hash
+    ON public.data_subject_requests(organization_id, phone_number_hash);
+
+-- Erasure looks calls up by caller number
+CREATE INDEX IF NOT EXISTS idx_calls_org_caller_phone_number
+    ON public.calls(organization_id, caller_phone_number);
+
+DROP TRIGGER IF EXISTS update_data_subject_requests_updated_at ON public.data_subject_requests;
+CREATE TRIGGER update_data_subject_requests_updated_at
+    BEFORE UPDATE ON public.data_subject_requests
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE public.data_subject_requests IS 'GDPR export and erasure requests from callers; completed erasures are tombstones';
+COMMENT ON COLUMN public.data_subject_requests.phone_number IS 'The caller''s number, cleared when an erasure completes';
+COMMENT ON COLUMN public.data_subject_requests.phone_number_hash IS 'sha256 of organization_id:phone_number, to show a number was erased without keeping it';
+COMMENT ON COLUMN public.data_subject_requests.erased_call_ids IS 'IDs of the calls an erasure deleted';
+COMMENT ON COLUMN public.data_subject_requests.export_path IS 'call-recordings folder with export.json and audio/ for export requests';
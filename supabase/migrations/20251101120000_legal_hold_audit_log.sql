@@ -0,0 +1,28 @@
+-- ============================================
+-- Legal Hold Audit Log Migration
+-- ============================================
+-- Who placed or released a legal hold on a call, and why. Releasing a hold
+-- lets the retention purge delete the call's data, so every change is kept
+-- here rather than only in calls.legal_hold_set_by / legal_hold_set_at,
+-- which the next change overwrites.
+-- ============================================
+
+-- No foreign key to calls - the audit outlives the calls it lists
+CREATE TABLE IF NOT EXISTS public.legal_hold_audit_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+    call_id UUID NOT NULL,
+    action VARCHAR(20) NOT NULL CHECK (action IN ('placed', 'released')),
+    reason TEXT,
+    performed_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_legal_hold_audit_log_org_created
+    ON public.legal_hold_audit_log(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_legal_hold_audit_log_call
+    ON public.legal_hold_audit_log(call_id);
+
+COMMENT ON TABLE public.legal_hold_audit_log IS 'Every legal hold placed on or released from a call';
+COMMENT ON COLUMN public.legal_hold_audit_log.reason IS 'The reason given when the hold was placed';
+COMMENT ON COLUMN public.legal_hold_audit_log.performed_by IS 'Email of the dashboard user who made the change';
@@ -1,5 +1,5 @@
 import { defineConfig } from "@trigger.dev/sdk/v3";
-import { syncVercelEnvVars } from "@trigger.dev/build/extensions/core";
+import { ffmpeg, syncVercelEnvVars } from "@trigger.dev/build/extensions/core";
 
 export default defineConfig({
   project: "proj_fwfmjdpsogekaktxqpih",
@@ -25,7 +25,9 @@ export default defineConfig({
       vercelAccessToken: process.env.VERCEL_ACCESS_TOKEN,
       projectId: process.env.VERCEL_PROJECT_ID,
       vercelTeamId: process.env.VERCEL_TEAM_ID
-    })],
+    }),
+    // Used by redact-recording to bleep redacted words
+    ffmpeg()],
     external: [
       
       // Frontend/React dependencies - NOT needed in background tasks
@@ -99,7 +101,6 @@ export default defineConfig({
       "@livekit/protocol",
       "livekit-server-sdk",
       "@pipedream/sdk",
-      "twilio",
       "ragie",
       "openai", // Using Voyage AI via fetch instead
       
@@ -143,6 +143,8 @@ export interface AgentTool {
 export interface KnowledgeBaseConfig {
   useAsTool?: boolean; // Default: false (pre-inject mode). When true, LLM decides when to query via tool call
   matchCount?: number; // Default: 3. Number of knowledge base items to match against
+  searchMode?: 'vector' | 'hybrid'; // Default: 'hybrid'. Hybrid fuses full-text (BM25-style) and vector results with reciprocal rank fusion
+  rerank?: boolean; // Default: false. Rerank retrieved candidates with Voyage AI before returning the top matchCount
 }
 
 /**
@@ -198,6 +200,32 @@ export interface AgentConfiguration {
 
 }
 
+/**
+ * Lifecycle of a saved configuration
+ * - draft: being edited in the dashboard, not served to calls (at most one per agent)
+ * - published: served to calls, mirrored in agents.configuration (at most one per agent)
+ * - archived: previously published or superseded; can be republished (rollback)
+ */
+export type AgentConfigurationVersionStatus = 'draft' | 'published' | 'archived';
+
+/**
+ * A saved version of an agent's configuration (agent_configuration_versions)
+ */
+export interface AgentConfigurationVersion {
+  id: string;
+  agent_id: string;
+  organization_id: string;
+  version_number: number;
+  status: AgentConfigurationVersionStatus;
+  configuration: AgentConfiguration;
+  notes: string | null;
+  created_by: string | null; // Email of the user who created the version
+  published_by: string | null; // Email of the user who last published the version
+  published_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 /**
  * Sample configurations for different use cases
  */
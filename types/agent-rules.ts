@@ -9,22 +9,164 @@ export interface Schedule {
   startTime: string // e.g., "09:00"
   endTime: string // e.g., "17:00"
   transferTo: string // Phone number to transfer to during these hours
+  ringGroupId?: string // Ring group to call instead of transferTo (see types/ring-groups.ts)
+  timezone?: string // Optional IANA timezone override, falls back to AgentRules.timezone
 }
 
 export type DayOfWeek = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday'
 
+/**
+ * What happens when a transferred call isn't answered
+ * - agent: connect the caller to the agent
+ * - voicemail: record a message (see AgentRules.voicemail)
+ */
+export type NoAnswerAction = 'agent' | 'voicemail'
+
 export interface AgentFallbackRule {
   enabled: boolean
   timeoutSeconds: number // How long to wait before falling back to agent
+  action?: NoAnswerAction // Defaults to agent
+}
+
+// ============================================
+// Holiday / Closure Calendars
+// ============================================
+
+/**
+ * One-off closure covering an inclusive date range (e.g. office refurbishment)
+ * Dates are calendar dates in the agent's timezone, formatted as "YYYY-MM-DD"
+ */
+export interface ClosureRange {
+  id: string
+  label: string
+  startDate: string // e.g., "2025-12-24"
+  endDate: string // e.g., "2026-01-02"
+}
+
+/**
+ * Holiday that repeats every year
+ * - fixed_date: same month/day every year (e.g. 25 December)
+ * - nth_weekday: nth weekday of a month, use -1 for the last (e.g. last Monday in May)
+ * - easter_offset: days relative to Easter Sunday (e.g. -2 for Good Friday)
+ */
+export type RecurringHoliday =
+  | {
+      id: string
+      label: string
+      type: 'fixed_date'
+      month: number // 1-12
+      day: number // 1-31
+      weekendRule?: HolidayWeekendRule // How to observe the holiday when it falls on a weekend
+    }
+  | {
+      id: string
+      label: string
+      type: 'nth_weekday'
+      month: number // 1-12
+      weekday: DayOfWeek
+      nth: number // 1-5, or -1 for the last occurrence
+    }
+  | {
+      id: string
+      label: string
+      type: 'easter_offset'
+      offsetDays: number
+    }
+
+/**
+ * - none: only the actual date is a holiday
+ * - next_weekday: observed on the next free weekday (UK substitute days)
+ * - nearest_weekday: Saturday moves to Friday, Sunday to Monday (US federal rule)
+ */
+export type HolidayWeekendRule = 'none' | 'next_weekday' | 'nearest_weekday'
+
+export type BankHolidayRegion = 'england-and-wales' | 'scotland' | 'northern-ireland' | 'united-states'
+
+/**
+ * Named calendar of closures. When any enabled calendar matches the current date,
+ * the business is treated as closed and time-based routing is skipped.
+ */
+export interface HolidayCalendar {
+  id: string
+  name: string
+  enabled: boolean
+  bankHolidayRegion?: BankHolidayRegion // Include the built-in public holidays for a region
+  recurringHolidays: RecurringHoliday[]
+  closures: ClosureRange[]
+}
+
+// ============================================
+// IVR Menu
+// ============================================
+
+/**
+ * What happens when a caller picks a menu option, or the menu falls through to its default
+ * - transfer: ring ringGroupId, or dial phoneNumber (unanswered calls fall back per agentFallback)
+ * - agent: connect to an agent - this agent when agentId is unset
+ * - voicemail: record a message (see AgentRules.voicemail)
+ */
+export type IvrMenuActionType = 'transfer' | 'agent' | 'voicemail'
+
+export interface IvrMenuAction {
+  type: IvrMenuActionType
+  phoneNumber?: string // transfer
+  ringGroupId?: string // transfer - ring group to call instead of phoneNumber
+  agentId?: string // agent
+}
+
+export interface IvrMenuOption {
+  id: string
+  digit: string // "0"-"9", "*" or "#"
+  label: string // e.g. "Sales" - callers can also say it when speech input is on
+  keywords?: string[] // Other words that pick this option, e.g. ["sell", "valuation"]
+  action: IvrMenuAction
+}
+
+export type IvrMenuInput = 'dtmf' | 'speech' | 'dtmf speech'
+
+/**
+ * Menu played to callers before they reach the team or the agent, e.g.
+ * "Press 1 for sales, 2 for lettings, or stay on the line for our assistant"
+ */
+export interface IvrMenuRule {
+  enabled: boolean
+  prompt: string
+  input: IvrMenuInput
+  timeoutSeconds: number // How long to wait for input, 3-30
+  maxAttempts: number // Times the prompt is played when input isn't recognised, 1-3
+  options: IvrMenuOption[]
+  defaultAction: IvrMenuAction // No input, or still unrecognised after the last attempt
+}
+
+/**
+ * Voicemail used by menu options and no-answer fallbacks
+ * Messages are stored, transcribed and sent to the notify lists
+ */
+export interface VoicemailSettings {
+  greeting: string
+  maxLengthSeconds: number // 10-300
+  notifySmsNumbers?: string[] // E.164, texted from the called number
+  notifyEmails?: string[]
 }
 
 export interface AgentRules {
+  timezone?: string // IANA timezone used to evaluate schedules, e.g. "Europe/London"
   timeBasedRouting: TimeBasedRule
   agentFallback: AgentFallbackRule
+  holidayCalendars?: HolidayCalendar[]
+  ivrMenu?: IvrMenuRule
+  voicemail?: VoicemailSettings
 }
 
+export const DEFAULT_TIMEZONE = 'Europe/London'
+
+// Keys a call menu option can use, and how many options a menu can have
+export const IVR_DIGITS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '0', '*', '#']
+export const MAX_MENU_OPTIONS = 12
+
 // Default rules
 export const defaultAgentRules: AgentRules = {
+  timezone: DEFAULT_TIMEZONE,
   timeBasedRouting: {
     enabled: false,
     schedules: [],
@@ -32,6 +174,22 @@ export const defaultAgentRules: AgentRules = {
   agentFallback: {
     enabled: false,
     timeoutSeconds: 30,
+    action: 'agent',
+  },
+  holidayCalendars: [],
+  ivrMenu: {
+    enabled: false,
+    prompt: '',
+    input: 'dtmf speech',
+    timeoutSeconds: 5,
+    maxAttempts: 2,
+    options: [],
+    defaultAction: { type: 'agent' },
+  },
+  voicemail: {
+    greeting: 'Please leave a message after the tone.',
+    maxLengthSeconds: 120,
+    notifySmsNumbers: [],
+    notifyEmails: [],
   },
 }
-
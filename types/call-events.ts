@@ -3,6 +3,10 @@
 // ============================================
 // Comprehensive types for all events tracked in the call tracking system
 
+import type { IvrMenuAction } from './agent-rules';
+import type { RingGroupStrategy } from './ring-groups';
+import type { RedactionSummary } from './redaction';
+
 // Base event structure
 export interface BaseEvent {
   type: string;
@@ -25,19 +29,111 @@ export interface CallIncomingEventData {
   callSid: string;
 }
 
+export interface CallerIdentifiedEventData {
+  source: 'webhook' | 'pipedream_action';
+  name: string | null;
+  tags: string[];
+  fields: Record<string, string>;
+  durationMs: number;
+  // Set when the caller is sent straight to a number (routing rule tag, or null when the CRM picked it)
+  route?: {
+    transferTo: string;
+    tag: string | null;
+  };
+}
+
 export interface TransferredToTeamEventData {
-  transferNumber: string;
+  transferNumber: string | null; // null when a ring group was rung
   timeout: number;
   fallbackEnabled: boolean;
+  callerRouteTag?: string | null; // Present when a caller lookup chose the number
+  screeningPattern?: string; // Present when an always-transfer screening entry matched
+  ivrOptionId?: string | null; // Present when chosen from the IVR menu (null = menu default)
+  ringGroupId?: string; // Present when the schedule rang a ring group
+  ringGroupName?: string;
+  strategy?: RingGroupStrategy;
+}
+
+export interface RingGroupDialedEventData {
+  ringGroupId: string;
+  ringGroupName: string;
+  strategy: RingGroupStrategy;
+  source: 'team' | 'transfer_tool';
+  position: number; // Sequential groups: index of the member being rung
+  timeoutSeconds: number;
+  members: { memberId: string; phoneNumber: string; label: string }[]; // Who rang on this dial
+}
+
+export interface CallBlockedEventData {
+  reason: 'list' | 'spam';
+  rejectAction: 'reject' | 'busy' | 'message';
+  entryId?: string;
+  pattern?: string;
+  recentCallCount?: number; // Spam detection: earlier calls inside the window
+  windowMinutes?: number;
 }
 
 export interface TeamNoAnswerFallbackEventData {
   dialCallStatus: string;
   fallbackReason: string;
+  fallbackAction?: 'agent' | 'voicemail'; // Absent on older events (agent)
 }
 
 export interface RoutedToAgentEventData {
   direct: boolean;
+  holiday?: {
+    calendarId: string;
+    calendarName: string;
+    label: string;
+  };
+  screeningPattern?: string; // Present when an always-agent screening entry matched
+  agentId?: string; // Present when routed from the IVR menu
+  ivrOptionId?: string | null;
+}
+
+export interface IvrMenuPresentedEventData {
+  attempt: number;
+  optionCount: number;
+  previousInput?: string | null; // Unrecognised input that caused the replay
+}
+
+export interface IvrOptionSelectedEventData {
+  attempt: number;
+  input: 'dtmf' | 'speech' | 'none';
+  digits: string | null;
+  speech: string | null;
+  optionId: string | null;
+  label: string | null;
+  defaulted: boolean; // The menu's default action was used
+  reason: 'selected' | 'no_match' | 'timeout';
+  action: IvrMenuAction;
+}
+
+export interface VoicemailLeftEventData {
+  recordingSid: string;
+  storagePath: string; // call-recordings bucket
+  durationSeconds: number;
+  transcript: string | null;
+  transcriptionError: string | null;
+  notified: { sms: number; email: number } | null; // Recipients successfully notified, null until notifications have gone out
+  notificationErrors: string[];
+}
+
+export interface OutboundCallInitiatedEventData {
+  to: string;
+  from: string;
+  callSid: string;
+  initiatedBy: string | null;
+}
+
+export interface OutboundCallAnsweredEventData {
+  callSid: string;
+  answeredBy?: string;
+}
+
+export interface OutboundCallFailedEventData {
+  callSid: string | null;
+  reason: string; // Twilio CallStatus (no-answer, busy, failed, canceled) or API error
 }
 
 export interface TransferInitiatedEventData {
@@ -48,6 +144,8 @@ export interface TransferInitiatedEventData {
 export interface TransferNoAnswerEventData {
   dialCallStatus: string;
   transferTarget?: string;
+  fallbackAction?: 'agent' | 'voicemail';
+  ringGroupId?: string;
 }
 
 export interface TransferFailedEventData {
@@ -56,8 +154,50 @@ export interface TransferFailedEventData {
 }
 
 export interface TransferSuccessEventData {
-  dialCallStatus: string;
+  dialCallStatus: string; // 'answered' for ring groups, recorded when the member picks up
   transferTarget?: string;
+  ringGroupId?: string;
+  ringGroupName?: string | null;
+  strategy?: RingGroupStrategy | null;
+  source?: 'team' | 'transfer_tool';
+  answeredBy?: { memberId: string; phoneNumber: string; label: string };
+}
+
+// ============================================
+// Supervisor Events
+// ============================================
+
+// Who took the action, from the dashboard user
+interface SupervisorEventBase {
+  supervisorId: string;
+  supervisorEmail: string | null;
+}
+
+export interface SupervisorWhisperEventData extends SupervisorEventBase {
+  instruction: string;
+  agentIdentity: string;
+}
+
+export interface SupervisorBargeEventData extends SupervisorEventBase {
+  identity: string; // LiveKit identity the supervisor joins as
+}
+
+export interface SupervisorTakeoverEventData extends SupervisorEventBase {
+  phoneNumber: string;
+  callerIdentity: string;
+}
+
+// ============================================
+// Redaction Events
+// ============================================
+
+// A dashboard user viewed the original values of a redacted call
+export interface PiiRevealedEventData {
+  userId: string;
+  userEmail: string | null;
+  role: string | null;
+  eventCount: number;
+  transcript: boolean;
 }
 
 // ============================================
@@ -307,9 +447,19 @@ export interface TranscriptEventData {
 export type CallEventType =
   // Routing events
   | 'call_incoming'
+  | 'caller_identified'
+  | 'call_blocked'
   | 'transferred_to_team'
+  | 'ring_group_dialed'
   | 'team_no_answer_fallback'
   | 'routed_to_agent'
+  | 'ivr_menu_presented'
+  | 'ivr_option_selected'
+  | 'voicemail_left'
+  // Outbound call events
+  | 'outbound_call_initiated'
+  | 'outbound_call_answered'
+  | 'outbound_call_failed'
   // Transfer events
   | 'transfer_initiated'
   | 'transfer_no_answer'
@@ -317,6 +467,12 @@ export type CallEventType =
   | 'transfer_success'
   | 'transfer_reconnected'
   | 'room_connected'
+  // Supervisor events
+  | 'supervisor_whisper'
+  | 'supervisor_barge'
+  | 'supervisor_takeover'
+  // Redaction events
+  | 'pii_revealed'
   // Agent session events
   | 'session_start'
   | 'recording_started'
@@ -337,13 +493,26 @@ export type CallEventType =
 
 export type CallEventData =
   | CallIncomingEventData
+  | CallerIdentifiedEventData
+  | CallBlockedEventData
   | TransferredToTeamEventData
+  | RingGroupDialedEventData
   | TeamNoAnswerFallbackEventData
   | RoutedToAgentEventData
+  | IvrMenuPresentedEventData
+  | IvrOptionSelectedEventData
+  | VoicemailLeftEventData
+  | OutboundCallInitiatedEventData
+  | OutboundCallAnsweredEventData
+  | OutboundCallFailedEventData
   | TransferInitiatedEventData
   | TransferNoAnswerEventData
   | TransferFailedEventData
   | TransferSuccessEventData
+  | SupervisorWhisperEventData
+  | SupervisorBargeEventData
+  | SupervisorTakeoverEventData
+  | PiiRevealedEventData
   | RecordingStartedEventData
   | ConversationItemAddedEventData
   | UserInputTranscribedEventData
@@ -360,7 +529,9 @@ export type CallEventData =
 // ============================================
 
 export type CallStatus = 
+  | 'dialing' // outbound call waiting for the callee to answer
   | 'incoming'
+  | 'blocked' // rejected by call screening (blocklist or spam detection), left out of analytics
   | 'transferred_to_team'
   | 'connected_to_agent'
   | 'completed'
@@ -378,15 +549,26 @@ export type CallConfig = Record<string, any> & {
   tools?: any[];
   turnDetection?: any;
   noiseCancellation?: any;
+  configurationVersionId?: string | null; // agent_configuration_versions.id that was live for this call
 }
 
+export type CallDirection = 'inbound' | 'outbound';
+
+// Per-call context passed to the agent (outbound calls, campaigns)
+export type CallContextVariables = Record<string, string | number | boolean>;
+
 export interface Call {
   id: string;
   agent_id: string;
   organization_id: string;
   twilio_call_sid: string | null;
-  caller_phone_number: string;
-  trunk_phone_number: string | null;
+  direction: CallDirection;
+  caller_phone_number: string; // Outbound: the number that was dialled
+  trunk_phone_number: string | null; // Outbound: the number the call was placed from
+  context_variables: CallContextVariables | null;
+  initiated_by: string | null;
+  campaign_id: string | null;
+  campaign_contact_id: string | null;
   status: CallStatus;
   created_at: string;
   ended_at: string | null;
@@ -395,6 +577,17 @@ export interface Call {
   usage_metrics: UsageMetrics | null;
   config: CallConfig | null;
   livekit_room_name: string | null;
+  redaction: RedactionSummary | null; // What PII redaction replaced on the call
+  redacted_at: string | null;
+  recording_redacted_at: string | null; // When matching words were bleeped in the recording
+  legal_hold: boolean; // Skipped by the retention purge
+  legal_hold_reason: string | null;
+  legal_hold_set_by: string | null;
+  legal_hold_set_at: string | null;
+  recording_purged_at: string | null;
+  transcript_purged_at: string | null;
+  events_purged_at: string | null;
+  caller_anonymized_at: string | null;
 }
 
 export interface AgentEvent {
@@ -404,3 +597,11 @@ export interface AgentEvent {
   data: CallEventData;
 }
 
+// Transcript search result snippet (GET /api/[slug]/calls/search)
+export interface CallSearchSnippet {
+  source: 'transcript' | 'event';
+  itemIndex: number | null; // Position in calls.transcript (transcript matches only)
+  role: 'user' | 'assistant' | 'system' | null;
+  offsetMs: number | null; // Offset from session start (event matches only)
+  snippet: string; // Matched terms wrapped in <mark></mark>
+}
@@ -0,0 +1,29 @@
+// types/call-screening.ts
+
+export type ScreeningListType = 'block' | 'transfer' | 'agent';
+
+export type ScreeningRejectAction = 'reject' | 'busy' | 'message';
+
+export interface CallScreeningEntry {
+  id: string;
+  organization_id: string;
+  list_type: ScreeningListType;
+  pattern: string; // E.164 with * / ? wildcards, or "anonymous"
+  transfer_to: string | null; // Only for transfer entries
+  label: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CallScreeningSettings {
+  id: string;
+  organization_id: string;
+  spam_detection_enabled: boolean;
+  spam_call_threshold: number;
+  spam_window_minutes: number;
+  reject_action: ScreeningRejectAction;
+  reject_message: string | null;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,31 @@
+// types/caller-lookup.ts
+
+export type CallerLookupSource = 'webhook' | 'pipedream_action';
+
+// Send callers with this tag straight to a number, ahead of time-based routing
+export interface CallerRoutingRule {
+  tag: string;
+  transferTo: string; // E.164
+}
+
+export interface CallerLookupSettings {
+  id: string;
+  organization_id: string;
+  enabled: boolean;
+  source: CallerLookupSource;
+  webhook_url: string | null;
+  webhook_secret: string | null;
+  tool_id: string | null; // pipedream_action tool
+  timeout_ms: number;
+  routing_rules: CallerRoutingRule[];
+  created_at: string;
+  updated_at: string;
+}
+
+// What the CRM told us about the caller, normalized from the webhook/action response
+export interface CallerProfile {
+  name: string | null;
+  tags: string[];
+  fields: Record<string, string>;
+  transferTo: string | null; // The CRM can pick the transfer number itself, e.g. the account manager
+}
@@ -0,0 +1,81 @@
+// types/campaigns.ts
+
+import type { DayOfWeek } from './agent-rules';
+import type { CallContextVariables } from './call-events';
+
+export type CampaignStatus = 'draft' | 'running' | 'paused' | 'completed' | 'cancelled';
+
+export type CampaignContactStatus =
+  | 'pending' // Waiting to be dialled, or a retry is scheduled (next_attempt_at)
+  | 'dialing'
+  | 'connected' // Answered, call in progress
+  | 'completed'
+  | 'failed' // Attempts exhausted, or an outcome that isn't retried
+  | 'skipped'; // On the do-not-call list
+
+// Twilio outcomes a campaign can retry
+export type CampaignRetryOutcome = 'no-answer' | 'busy' | 'failed';
+
+// When calls may be placed, evaluated in the campaign's timezone
+export interface CallingWindow {
+  days: DayOfWeek[];
+  startTime: string; // e.g., "09:00"
+  endTime: string; // e.g., "17:00"
+}
+
+export interface Campaign {
+  id: string;
+  organization_id: string;
+  agent_id: string;
+  phone_number_id: string | null;
+  name: string;
+  status: CampaignStatus;
+  timezone: string;
+  calling_windows: CallingWindow[];
+  max_concurrent_calls: number;
+  max_attempts: number;
+  retry_delay_minutes: number;
+  retry_on: CampaignRetryOutcome[];
+  created_by: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CampaignContact {
+  id: string;
+  campaign_id: string;
+  organization_id: string;
+  phone_number: string;
+  variables: CallContextVariables;
+  row_number: number;
+  status: CampaignContactStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_attempt_at: string | null;
+  last_call_id: string | null;
+  last_result: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Dashboard counts - connected includes contacts whose call has since completed
+export interface CampaignStats {
+  total: number;
+  pending: number;
+  dialled: number;
+  connected: number;
+  completed: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface DoNotCallNumber {
+  id: string;
+  organization_id: string;
+  phone_number: string;
+  reason: string | null;
+  created_by: string | null;
+  created_at: string;
+}
@@ -0,0 +1,52 @@
+// types/data-subject-requests.ts
+
+/**
+ * A caller's GDPR request, keyed by their phone number
+ * - export: everything held about the caller as export.json plus their audio
+ * - erasure: everything held about the caller is deleted; the request row stays as a tombstone
+ */
+export type DataSubjectRequestType = 'export' | 'erasure';
+
+export type DataSubjectRequestStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+// What a request found (export) or removed (erasure)
+export interface DataSubjectRequestSummary {
+  calls: number;
+  events: number;
+  recordings: number; // Call recordings and voicemails
+  sms: number; // Messages exchanged with the organization's Twilio numbers, e.g. sent by the SMS tool
+  toolExecutions: number; // Tool calls made during the caller's calls
+  evaluationResults: number;
+  campaignContacts: number;
+  heldCalls: number; // Calls on legal hold - exported, but never erased
+  exportsRemoved?: number; // Earlier export bundles deleted by an erasure
+}
+
+export interface DataSubjectRequest {
+  id: string;
+  organization_id: string;
+  request_type: DataSubjectRequestType;
+  phone_number: string | null; // Cleared once an erasure completes
+  phone_number_hash: string; // sha256 of organization_id:phone_number, kept on the tombstone
+  phone_number_last4: string;
+  status: DataSubjectRequestStatus;
+  summary: DataSubjectRequestSummary | null;
+  erased_call_ids: string[] | null;
+  export_path: string | null; // Folder in call-recordings holding export.json and audio/
+  error_message: string | null;
+  requested_by: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DataSubjectSmsMessage {
+  sid: string;
+  accountSid: string;
+  direction: string;
+  from: string;
+  to: string;
+  body: string;
+  status: string;
+  dateSent: string | null;
+}
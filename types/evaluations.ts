@@ -0,0 +1,57 @@
+// Call Evaluation Types
+
+export type EvaluationModelProvider = 'openai' | 'anthropic' | 'google' | 'custom-llm'
+
+export type EvaluationSchemaPropertyType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array'
+
+export interface EvaluationSchemaProperty {
+  type?: EvaluationSchemaPropertyType
+  description?: string
+  properties?: Record<string, EvaluationSchemaProperty>
+  items?: EvaluationSchemaProperty
+  required?: string[]
+}
+
+// Output schema built with the SchemaBuilder (always an object at the root)
+export interface EvaluationOutputSchema {
+  type: 'object'
+  properties: Record<string, EvaluationSchemaProperty>
+  required?: string[]
+}
+
+export interface Evaluation {
+  id: string
+  name: string
+  description: string | null
+  prompt: string
+  model_provider: EvaluationModelProvider
+  model_name: string
+  output_schema: EvaluationOutputSchema
+  organization_id: string
+  created_at: string
+  updated_at: string
+}
+
+export type CallEvaluationStatus = 'pending' | 'running' | 'completed' | 'failed'
+
+export interface CallEvaluationResult {
+  id: string
+  call_id: string
+  evaluation_id: string
+  agent_id: string | null
+  organization_id: string
+  status: CallEvaluationStatus
+  result: Record<string, unknown> | null
+  error_message: string | null
+  attempts: number
+  model: string | null
+  started_at: string | null
+  completed_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Result joined with the evaluation definition, as returned to the dashboard
+export interface CallEvaluationResultWithEvaluation extends CallEvaluationResult {
+  evaluation: Pick<Evaluation, 'id' | 'name' | 'description' | 'output_schema'> | null
+}
@@ -20,12 +20,14 @@ export interface KnowledgeBaseItem {
   external_id?: string;
   external_url?: string;
   external_modified_at?: string;
+  content_hash?: string | null;
   parent_item_id?: string;
   status: 'pending' | 'processing' | 'indexed' | 'failed';
   chunk_size: number;
   chunk_overlap: number;
   metadata?: Record<string, unknown>;
   last_synced_at?: string;
+  next_sync_at?: string | null;
   sync_error?: string;
   extracted_keywords?: string[] | null;
   keyword_extraction_status?: 'pending' | 'processing' | 'completed' | 'failed' | null;
@@ -55,11 +57,51 @@ export interface EmbeddingResult {
   tokenCount: number;
 }
 
+// Retrieval Types
+export interface RetrievedChunk {
+  id: string;
+  content: string;
+  score: number; // Final ranking score: rerank relevance, RRF score (hybrid) or cosine similarity (vector)
+  similarity: number | null; // Cosine similarity, when matched by vector search
+  keywordScore: number | null; // Full-text rank, when matched by keyword search
+  rerankScore: number | null; // Voyage AI relevance score, when reranked
+  knowledgeBaseId: string;
+  knowledgeBaseItemId: string;
+  chunkIndex: number;
+  pageNumber: number | null;
+  sectionTitle: string | null;
+  metadata: Record<string, unknown> | null;
+}
+
 // Rightmove Agent Types
 export interface RightmoveAgentConfig {
   rentUrl?: string;
   saleUrl?: string;
-  syncSchedule: 'daily' | 'weekly'; // Placeholder for future scheduling feature
+  syncSchedule: 'daily' | 'weekly'; // Re-synced by the sync-knowledge-base-items schedule
+}
+
+// Scheduled Sync Types
+export type SyncSchedule = 'never' | 'daily' | 'weekly';
+
+export interface UrlItemConfig {
+  syncSchedule?: SyncSchedule; // Default: 'never'
+}
+
+export interface KnowledgeBaseItemSync {
+  id: string;
+  knowledge_base_item_id: string;
+  knowledge_base_id: string;
+  trigger: 'manual' | 'scheduled';
+  status: 'running' | 'completed' | 'failed';
+  run_id: string | null;
+  attempts: number;
+  chunks_created: number | null;
+  error_message: string | null;
+  stats: Record<string, number> | null; // Rightmove: scraped / added / updated / unchanged / removed / priceChanged / failed
+  started_at: string;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
 }
 
 // Rightmove Property Metadata Types
@@ -0,0 +1,59 @@
+// types/redaction.ts
+
+/**
+ * Built-in PII detectors
+ * - card: 13-19 digit card numbers that pass the Luhn check
+ * - email: email addresses
+ * - phone: international (+44...) and national (07...) phone numbers
+ * - postcode: UK postcodes
+ * - address: house number + street name ("12 Acacia Avenue")
+ * - date_of_birth: dates mentioned shortly after "born", "birthday", "DOB" etc.
+ */
+export type RedactionDetector = 'card' | 'email' | 'phone' | 'postcode' | 'address' | 'date_of_birth';
+
+export const REDACTION_DETECTORS: { id: RedactionDetector; label: string; placeholder: string }[] = [
+  { id: 'card', label: 'Card numbers', placeholder: '[CARD]' },
+  { id: 'email', label: 'Email addresses', placeholder: '[EMAIL]' },
+  { id: 'phone', label: 'Phone numbers', placeholder: '[PHONE]' },
+  { id: 'postcode', label: 'Postcodes', placeholder: '[POSTCODE]' },
+  { id: 'address', label: 'Street addresses', placeholder: '[ADDRESS]' },
+  { id: 'date_of_birth', label: 'Dates of birth', placeholder: '[DOB]' },
+];
+
+export const MAX_CUSTOM_PATTERNS = 20;
+
+export interface RedactionCustomPattern {
+  id: string;
+  name: string; // Placeholder is [NAME], e.g. [POLICY_NUMBER]
+  pattern: string; // JavaScript regular expression source
+  caseSensitive: boolean;
+}
+
+export interface RedactionPolicy {
+  id: string;
+  organization_id: string;
+  enabled: boolean;
+  detectors: RedactionDetector[];
+  custom_patterns: RedactionCustomPattern[];
+  reveal_roles: string[]; // WorkOS organization roles that can see the original values
+  bleep_recordings: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * A span of the call recording to bleep, in milliseconds from the start
+ */
+export interface BleepSpan {
+  startMs: number;
+  endMs: number;
+}
+
+/**
+ * Stored on redacted agent events (data.redaction) and calls (calls.redaction)
+ */
+export interface RedactionSummary {
+  types: string[]; // Detector ids / custom pattern names that matched
+  count: number;
+  bleepSpans?: BleepSpan[];
+}
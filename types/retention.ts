@@ -0,0 +1,51 @@
+// types/retention.ts
+
+/**
+ * What a retention policy removes once it's older than its limit
+ * - recordings: call recordings and voicemail audio in the call-recordings bucket
+ * - transcripts: calls.transcript and the events that carry what was said
+ * - events: every agent_events row for the call
+ * - caller_details: the caller's number and context variables on the call, which is anonymized
+ */
+export type RetentionDataType = 'recordings' | 'transcripts' | 'events' | 'caller_details';
+
+export const RETENTION_DATA_TYPES: { id: RetentionDataType; label: string; column: keyof RetentionPolicyDays }[] = [
+  { id: 'recordings', label: 'Recordings', column: 'recording_days' },
+  { id: 'transcripts', label: 'Transcripts', column: 'transcript_days' },
+  { id: 'events', label: 'Call events', column: 'event_days' },
+  { id: 'caller_details', label: 'Caller details', column: 'caller_details_days' },
+];
+
+export const MIN_RETENTION_DAYS = 1;
+export const MAX_RETENTION_DAYS = 3650;
+
+// Days to keep each kind of data - null keeps it forever
+export interface RetentionPolicyDays {
+  recording_days: number | null;
+  transcript_days: number | null;
+  event_days: number | null;
+  caller_details_days: number | null;
+}
+
+export interface RetentionPolicy extends RetentionPolicyDays {
+  id: string;
+  organization_id: string;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * One row per organization and data type each time the purge task removes something
+ */
+export interface RetentionAuditEntry {
+  id: string;
+  organization_id: string;
+  data_type: RetentionDataType;
+  cutoff: string; // Calls created before this were purged
+  call_count: number;
+  call_ids: string[];
+  item_count: number; // Storage objects / events removed, or calls anonymized
+  trigger_run_id: string | null;
+  created_at: string;
+}
@@ -0,0 +1,39 @@
+// types/ring-groups.ts
+
+/**
+ * How a ring group's members are dialled
+ * - simultaneous: everyone rings at once, the first to answer takes the call
+ * - sequential: members ring one at a time, in order (hunt list)
+ */
+export type RingGroupStrategy = 'simultaneous' | 'sequential';
+
+export const MAX_RING_GROUP_MEMBERS = 10;
+
+export interface RingGroupMember {
+  id: string;
+  phoneNumber: string; // E.164
+  label: string; // e.g. negotiator name
+}
+
+export interface RingGroup {
+  id: string;
+  organization_id: string;
+  name: string;
+  strategy: RingGroupStrategy;
+  ring_timeout_seconds: number; // Per member (sequential) or for the whole group (simultaneous)
+  members: RingGroupMember[];
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * How often each member answered when their phone rang
+ */
+export interface RingGroupMemberStats {
+  memberId: string;
+  phoneNumber: string;
+  label: string;
+  rang: number;
+  answered: number;
+  answerRate: number | null; // 0-1, null when the member hasn't been rung
+}
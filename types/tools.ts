@@ -60,7 +60,11 @@ export interface TransferCallToolConfig extends BaseToolConfig {
     agentId?: string
     agentName?: string
     phoneNumber?: string
+    // Number targets: ring this group instead - phoneNumber holds its first member, which the agent REFERs to
+    ringGroupId?: string
+    ringGroupName?: string
   }
+  fallback?: 'agent' | 'voicemail' // Number targets: what happens when no one answers, defaults to agent
   message: {
     strategy: 'fixed' | 'summarized' | 'none'
     content?: string
@@ -68,14 +72,18 @@ export interface TransferCallToolConfig extends BaseToolConfig {
   }
 }
 
-// ==================== API Request Tool Configuration (Future) ====================
+// ==================== API Request Tool Configuration ====================
+
+export type ApiRequestMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH'
 
 export interface ApiRequestToolConfig extends BaseToolConfig {
   type: 'api_request'
-  method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH'
+  method: ApiRequestMethod
   url: ParameterSource
   headers?: Record<string, ParameterSource>
-  body?: Record<string, ParameterSource>
+  body?: Record<string, ParameterSource> // Sent as query parameters for GET and DELETE
+  timeoutSeconds?: number // Defaults to 10, capped at 30
+  maxResponseLength?: number // Characters of the response returned to the agent, defaults to 4000
 }
 
 // ==================== Pipedream Action Tool Configuration (Future) ====================
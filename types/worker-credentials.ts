@@ -0,0 +1,19 @@
+// types/worker-credentials.ts
+
+// A bearer token the LiveKit agent worker uses to call the agent API
+// The token itself is never stored - only token_prefix is shown in the dashboard
+export interface WorkerCredential {
+  id: string;
+  organization_id: string;
+  name: string;
+  token_prefix: string;
+  created_by: string | null;
+  last_used_at: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+  rotated_from_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type WorkerCredentialStatus = 'active' | 'expiring' | 'expired' | 'revoked';